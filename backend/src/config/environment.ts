@@ -89,6 +89,94 @@ interface EnvironmentConfig {
   SOLANA_ANCHOR_SIGNER: 'service' | 'owner' | 'platform';
   SOLANA_CLUSTER: 'devnet' | 'mainnet';
   PLATFORM_SOLANA_SECRET_KEY: string;
+  LEDGER_ADAPTER: 'solana' | 'local';
+  STORAGE_ADAPTER: 'arweave' | 'local';
+  LOCAL_LEDGER_DIR: string;
+  LOCAL_STORAGE_DIR: string;
+  HISTORY_BUNDLE_SIGNING_KEY: string;
+
+  // Device authentication
+  DEVICE_AUTH_ENFORCED: boolean;
+  DEVICE_AUTH_MAX_SKEW_SECONDS: number;
+  DEVICE_SECRET_ROTATION_GRACE_HOURS: number;
+  DEVICE_SECRET_ENCRYPTION_KEY: string;
+  DEVICE_BATCH_MAX_READINGS: number;
+  DEVICE_COMMAND_TTL_HOURS: number;
+  DEVICE_COMMAND_MAX_ATTEMPTS: number;
+
+  // Device heartbeat monitoring
+  DEVICE_HEARTBEAT_CRON: string;
+  DEVICE_SILENCE_THRESHOLD_MINUTES: number;
+  DEVICE_SILENT_MILEAGE_TOLERANCE_KM: number;
+  DEVICE_BOOT_GAP_THRESHOLD: number;
+  DEVICE_TAMPER_TRUST_PENALTY: number;
+
+  // GPS vs odometer cross-validation
+  GPS_ODOMETER_WINDOW_KM: number;
+  GPS_ODOMETER_TOLERANCE_PCT: number;
+  GPS_ODOMETER_ROUTE_FACTOR: number;
+  GPS_ODOMETER_MAX_FIX_ACCURACY_M: number;
+  GPS_ODOMETER_MAX_FIX_GAP_MINUTES: number;
+
+  // Diagnostic trouble codes
+  DTC_CLEAR_LOOKBACK_DAYS: number;
+  DTC_CLEAR_MIN_DISTANCE_KM: number;
+
+  // Trip detection
+  TRIP_GAP_MINUTES: number;
+  TRIP_ENGINE_ON_RPM: number;
+  TRIP_MIN_DISTANCE_KM: number;
+  TRIP_MIN_DURATION_MINUTES: number;
+
+  // Driving behaviour scoring
+  DRIVING_SCORE_CRON: string;
+  DRIVING_SCORE_PERIOD_DAYS: number;
+  DRIVING_SCORE_MIN_DISTANCE_KM: number;
+  DRIVING_SCORE_HARSH_ACCEL_KMH_PER_S: number;
+  DRIVING_SCORE_HARSH_BRAKE_KMH_PER_S: number;
+  DRIVING_SCORE_MAX_SAMPLE_GAP_SECONDS: number;
+  DRIVING_SCORE_SPEED_LIMIT_KMH: number;
+  DRIVING_SCORE_NIGHT_START_HOUR: number;
+  DRIVING_SCORE_NIGHT_END_HOUR: number;
+  DRIVING_SCORE_UTC_OFFSET_MINUTES: number;
+
+  // Live telemetry stream
+  LIVE_TELEMETRY_THROTTLE_MS: number;
+  LIVE_TELEMETRY_MAX_SUBSCRIPTIONS: number;
+
+  // Telemetry rollups and raw retention
+  TELEMETRY_ROLLUP_CRON: string;
+  TELEMETRY_ROLLUP_LOOKBACK_HOURS: number;
+  TELEMETRY_RETENTION_CRON: string;
+  TELEMETRY_RAW_RETENTION_DAYS: number;
+  TELEMETRY_EXPIRY_GRACE_DAYS: number;
+  TELEMETRY_ARCHIVE_PATH: string;
+
+  // Scheduled trust score recovery and inactivity decay (amounts come from the trust policy)
+  TRUST_RECOVERY_CRON: string;
+
+  // Fleet-wide cloned VIN and number plate detection
+  DUPLICATE_VIN_CRON: string;
+  DUPLICATE_VIN_LOOKBACK_HOURS: number;
+  DUPLICATE_VIN_MAX_SPEED_KMH: number;
+  DUPLICATE_VIN_MIN_DISTANCE_KM: number;
+
+  // Per-vehicle usage baseline (daily distance, trips and operating hours)
+  USAGE_BASELINE_CRON: string;
+  USAGE_BASELINE_WINDOW_DAYS: number;
+  USAGE_BASELINE_MIN_DAYS: number;
+  USAGE_BASELINE_LOW_Z: number;
+  USAGE_BASELINE_MEDIUM_Z: number;
+  USAGE_BASELINE_MIN_STALL_HOURS: number;
+  USAGE_BASELINE_STALL_RATIO: number;
+
+  // MQTT device gateway
+  MQTT_ENABLED: boolean;
+  MQTT_URL: string;
+  MQTT_USERNAME?: string;
+  MQTT_PASSWORD?: string;
+  MQTT_CLIENT_ID: string;
+  MQTT_TOPIC_PREFIX: string;
 }
 
 /**
@@ -199,6 +287,94 @@ const getEnvironmentConfig = (): EnvironmentConfig => {
     SOLANA_ANCHOR_SIGNER: (process.env.SOLANA_ANCHOR_SIGNER as any) || 'service',
     SOLANA_CLUSTER: (process.env.SOLANA_CLUSTER as any) || 'devnet',
     PLATFORM_SOLANA_SECRET_KEY: process.env.PLATFORM_SOLANA_SECRET_KEY || '',
+    LEDGER_ADAPTER: (process.env.LEDGER_ADAPTER as any) || (process.env.NODE_ENV === 'test' ? 'local' : 'solana'),
+    STORAGE_ADAPTER: (process.env.STORAGE_ADAPTER as any) || (process.env.NODE_ENV === 'test' ? 'local' : 'arweave'),
+    LOCAL_LEDGER_DIR: process.env.LOCAL_LEDGER_DIR || 'tmp/ledger',
+    LOCAL_STORAGE_DIR: process.env.LOCAL_STORAGE_DIR || 'tmp/permanent-storage',
+    HISTORY_BUNDLE_SIGNING_KEY: process.env.HISTORY_BUNDLE_SIGNING_KEY || '',
+
+    // Device authentication
+    DEVICE_AUTH_ENFORCED: process.env.DEVICE_AUTH_ENFORCED !== 'false',
+    DEVICE_AUTH_MAX_SKEW_SECONDS: parseInt(process.env.DEVICE_AUTH_MAX_SKEW_SECONDS || '300', 10),
+    DEVICE_SECRET_ROTATION_GRACE_HOURS: parseInt(process.env.DEVICE_SECRET_ROTATION_GRACE_HOURS || '24', 10),
+    DEVICE_SECRET_ENCRYPTION_KEY: process.env.DEVICE_SECRET_ENCRYPTION_KEY || process.env.WALLET_ENCRYPTION_KEY || '',
+    DEVICE_BATCH_MAX_READINGS: parseInt(process.env.DEVICE_BATCH_MAX_READINGS || '500', 10),
+    DEVICE_COMMAND_TTL_HOURS: parseInt(process.env.DEVICE_COMMAND_TTL_HOURS || '72', 10),
+    DEVICE_COMMAND_MAX_ATTEMPTS: parseInt(process.env.DEVICE_COMMAND_MAX_ATTEMPTS || '5', 10),
+
+    // Device heartbeat monitoring
+    DEVICE_HEARTBEAT_CRON: process.env.DEVICE_HEARTBEAT_CRON || '*/5 * * * *',
+    DEVICE_SILENCE_THRESHOLD_MINUTES: parseInt(process.env.DEVICE_SILENCE_THRESHOLD_MINUTES || '60', 10),
+    DEVICE_SILENT_MILEAGE_TOLERANCE_KM: parseFloat(process.env.DEVICE_SILENT_MILEAGE_TOLERANCE_KM || '5'),
+    DEVICE_BOOT_GAP_THRESHOLD: parseInt(process.env.DEVICE_BOOT_GAP_THRESHOLD || '5', 10),
+    DEVICE_TAMPER_TRUST_PENALTY: parseInt(process.env.DEVICE_TAMPER_TRUST_PENALTY || '20', 10),
+
+    // GPS vs odometer cross-validation
+    GPS_ODOMETER_WINDOW_KM: parseFloat(process.env.GPS_ODOMETER_WINDOW_KM || '25'),
+    GPS_ODOMETER_TOLERANCE_PCT: parseFloat(process.env.GPS_ODOMETER_TOLERANCE_PCT || '20'),
+    GPS_ODOMETER_ROUTE_FACTOR: parseFloat(process.env.GPS_ODOMETER_ROUTE_FACTOR || '1.5'),
+    GPS_ODOMETER_MAX_FIX_ACCURACY_M: parseInt(process.env.GPS_ODOMETER_MAX_FIX_ACCURACY_M || '50', 10),
+    GPS_ODOMETER_MAX_FIX_GAP_MINUTES: parseInt(process.env.GPS_ODOMETER_MAX_FIX_GAP_MINUTES || '15', 10),
+
+    // Diagnostic trouble codes
+    DTC_CLEAR_LOOKBACK_DAYS: parseInt(process.env.DTC_CLEAR_LOOKBACK_DAYS || '30', 10),
+    DTC_CLEAR_MIN_DISTANCE_KM: parseFloat(process.env.DTC_CLEAR_MIN_DISTANCE_KM || '200'),
+
+    // Trip detection
+    TRIP_GAP_MINUTES: parseInt(process.env.TRIP_GAP_MINUTES || '10', 10),
+    TRIP_ENGINE_ON_RPM: parseInt(process.env.TRIP_ENGINE_ON_RPM || '400', 10),
+    TRIP_MIN_DISTANCE_KM: parseFloat(process.env.TRIP_MIN_DISTANCE_KM || '0.2'),
+    TRIP_MIN_DURATION_MINUTES: parseFloat(process.env.TRIP_MIN_DURATION_MINUTES || '2'),
+
+    // Driving behaviour scoring
+    DRIVING_SCORE_CRON: process.env.DRIVING_SCORE_CRON || '15 2 * * *',
+    DRIVING_SCORE_PERIOD_DAYS: parseInt(process.env.DRIVING_SCORE_PERIOD_DAYS || '30', 10),
+    DRIVING_SCORE_MIN_DISTANCE_KM: parseFloat(process.env.DRIVING_SCORE_MIN_DISTANCE_KM || '25'),
+    DRIVING_SCORE_HARSH_ACCEL_KMH_PER_S: parseFloat(process.env.DRIVING_SCORE_HARSH_ACCEL_KMH_PER_S || '10'),
+    DRIVING_SCORE_HARSH_BRAKE_KMH_PER_S: parseFloat(process.env.DRIVING_SCORE_HARSH_BRAKE_KMH_PER_S || '12'),
+    DRIVING_SCORE_MAX_SAMPLE_GAP_SECONDS: parseInt(process.env.DRIVING_SCORE_MAX_SAMPLE_GAP_SECONDS || '10', 10),
+    DRIVING_SCORE_SPEED_LIMIT_KMH: parseInt(process.env.DRIVING_SCORE_SPEED_LIMIT_KMH || '100', 10),
+    DRIVING_SCORE_NIGHT_START_HOUR: parseInt(process.env.DRIVING_SCORE_NIGHT_START_HOUR || '22', 10),
+    DRIVING_SCORE_NIGHT_END_HOUR: parseInt(process.env.DRIVING_SCORE_NIGHT_END_HOUR || '5', 10),
+    DRIVING_SCORE_UTC_OFFSET_MINUTES: parseInt(process.env.DRIVING_SCORE_UTC_OFFSET_MINUTES || '330', 10),
+
+    // Live telemetry stream
+    LIVE_TELEMETRY_THROTTLE_MS: parseInt(process.env.LIVE_TELEMETRY_THROTTLE_MS || '1000', 10),
+    LIVE_TELEMETRY_MAX_SUBSCRIPTIONS: parseInt(process.env.LIVE_TELEMETRY_MAX_SUBSCRIPTIONS || '25', 10),
+
+    // Telemetry rollups and raw retention
+    TELEMETRY_ROLLUP_CRON: process.env.TELEMETRY_ROLLUP_CRON || '5 * * * *',
+    TELEMETRY_ROLLUP_LOOKBACK_HOURS: parseInt(process.env.TELEMETRY_ROLLUP_LOOKBACK_HOURS || '2', 10),
+    TELEMETRY_RETENTION_CRON: process.env.TELEMETRY_RETENTION_CRON || '45 3 * * *',
+    TELEMETRY_RAW_RETENTION_DAYS: parseInt(process.env.TELEMETRY_RAW_RETENTION_DAYS || '90', 10),
+    TELEMETRY_EXPIRY_GRACE_DAYS: parseInt(process.env.TELEMETRY_EXPIRY_GRACE_DAYS || '7', 10),
+    TELEMETRY_ARCHIVE_PATH: process.env.TELEMETRY_ARCHIVE_PATH || 'archives/telemetry/',
+
+    // Scheduled trust score recovery and inactivity decay
+    TRUST_RECOVERY_CRON: process.env.TRUST_RECOVERY_CRON || '30 4 * * *',
+
+    // Fleet-wide cloned VIN and number plate detection
+    DUPLICATE_VIN_CRON: process.env.DUPLICATE_VIN_CRON || '0 5 * * *',
+    DUPLICATE_VIN_LOOKBACK_HOURS: parseInt(process.env.DUPLICATE_VIN_LOOKBACK_HOURS || '24', 10),
+    DUPLICATE_VIN_MAX_SPEED_KMH: parseFloat(process.env.DUPLICATE_VIN_MAX_SPEED_KMH || '250'),
+    DUPLICATE_VIN_MIN_DISTANCE_KM: parseFloat(process.env.DUPLICATE_VIN_MIN_DISTANCE_KM || '50'),
+
+    // Per-vehicle usage baseline
+    USAGE_BASELINE_CRON: process.env.USAGE_BASELINE_CRON || '15 3 * * *',
+    USAGE_BASELINE_WINDOW_DAYS: parseInt(process.env.USAGE_BASELINE_WINDOW_DAYS || '60', 10),
+    USAGE_BASELINE_MIN_DAYS: parseInt(process.env.USAGE_BASELINE_MIN_DAYS || '14', 10),
+    USAGE_BASELINE_LOW_Z: parseFloat(process.env.USAGE_BASELINE_LOW_Z || '3'),
+    USAGE_BASELINE_MEDIUM_Z: parseFloat(process.env.USAGE_BASELINE_MEDIUM_Z || '4'),
+    USAGE_BASELINE_MIN_STALL_HOURS: parseFloat(process.env.USAGE_BASELINE_MIN_STALL_HOURS || '0.5'),
+    USAGE_BASELINE_STALL_RATIO: parseFloat(process.env.USAGE_BASELINE_STALL_RATIO || '0.2'),
+
+    // MQTT device gateway
+    MQTT_ENABLED: process.env.MQTT_ENABLED === 'true',
+    MQTT_URL: process.env.MQTT_URL || 'mqtt://localhost:1883',
+    MQTT_USERNAME: process.env.MQTT_USERNAME,
+    MQTT_PASSWORD: process.env.MQTT_PASSWORD,
+    MQTT_CLIENT_ID: process.env.MQTT_CLIENT_ID || 'blockx-ingest-gateway',
+    MQTT_TOPIC_PREFIX: process.env.MQTT_TOPIC_PREFIX || 'blockx/devices',
   };
 };
 
@@ -0,0 +1,145 @@
+import { Request, Response } from 'express';
+import { FraudCaseService } from '../../services/core/fraudCase.service';
+import { ApiError, HttpStatusCodes } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+
+const sendError = (res: Response, error: unknown, fallback: string): void => {
+  if (error instanceof ApiError) {
+    res.status(error.statusCode).json({
+      status: 'error',
+      message: error.message
+    });
+  } else {
+    res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+      status: 'error',
+      message: fallback
+    });
+  }
+};
+
+export class FraudCaseController {
+  /**
+   * @desc    Fraud alert queue with filters, severity sort and counts per severity
+   * @route   GET /api/admin/fraud-alerts
+   * @access  Private (Admin only)
+   */
+  static async listAlerts(req: Request, res: Response): Promise<void> {
+    try {
+      const queue = await FraudCaseService.listQueue(req.query as Record<string, string>, req.user?.id);
+
+      res.status(HttpStatusCodes.OK).json({
+        status: 'success',
+        message: 'Fraud alerts retrieved successfully',
+        data: queue
+      });
+    } catch (error) {
+      logger.error('Error listing fraud alerts:', error);
+      sendError(res, error, 'Failed to list fraud alerts');
+    }
+  }
+
+  /**
+   * @desc    A fraud alert case with notes, status history and trust events
+   * @route   GET /api/admin/fraud-alerts/:alertId
+   * @access  Private (Admin only)
+   */
+  static async getAlert(req: Request, res: Response): Promise<void> {
+    try {
+      const fraudCase = await FraudCaseService.getCase(req.params.alertId);
+
+      res.status(HttpStatusCodes.OK).json({
+        status: 'success',
+        message: 'Fraud alert retrieved successfully',
+        data: fraudCase
+      });
+    } catch (error) {
+      logger.error('Error fetching fraud alert:', error);
+      sendError(res, error, 'Failed to fetch fraud alert');
+    }
+  }
+
+  /**
+   * @desc    Assign a fraud alert to an admin, or unassign it with a null assigneeId
+   * @route   PATCH /api/admin/fraud-alerts/:alertId/assign
+   * @access  Private (Admin only)
+   */
+  static async assignAlert(req: Request, res: Response): Promise<void> {
+    try {
+      const { assigneeId } = req.body || {};
+      const alert = await FraudCaseService.assign(req.params.alertId, assigneeId ?? null, req.user?.id);
+
+      res.status(HttpStatusCodes.OK).json({
+        status: 'success',
+        message: alert.assignedTo ? 'Fraud alert assigned' : 'Fraud alert unassigned',
+        data: { alert }
+      });
+    } catch (error) {
+      logger.error('Error assigning fraud alert:', error);
+      sendError(res, error, 'Failed to assign fraud alert');
+    }
+  }
+
+  /**
+   * @desc    Add an investigation note to a fraud alert
+   * @route   POST /api/admin/fraud-alerts/:alertId/notes
+   * @access  Private (Admin only)
+   */
+  static async addNote(req: Request, res: Response): Promise<void> {
+    try {
+      const alert = await FraudCaseService.addNote(req.params.alertId, req.body?.text, req.user!.id);
+
+      res.status(HttpStatusCodes.CREATED).json({
+        status: 'success',
+        message: 'Note added',
+        data: { alert }
+      });
+    } catch (error) {
+      logger.error('Error adding fraud alert note:', error);
+      sendError(res, error, 'Failed to add note');
+    }
+  }
+
+  /**
+   * @desc    Attach evidence links to a fraud alert
+   * @route   POST /api/admin/fraud-alerts/:alertId/evidence
+   * @access  Private (Admin only)
+   */
+  static async addEvidence(req: Request, res: Response): Promise<void> {
+    try {
+      const { urls, url } = req.body || {};
+      const alert = await FraudCaseService.addEvidence(req.params.alertId, urls ?? url);
+
+      res.status(HttpStatusCodes.CREATED).json({
+        status: 'success',
+        message: 'Evidence added',
+        data: { alert }
+      });
+    } catch (error) {
+      logger.error('Error adding fraud alert evidence:', error);
+      sendError(res, error, 'Failed to add evidence');
+    }
+  }
+
+  /**
+   * @desc    Change the status of a fraud alert; false positives have their trust impact reversed
+   * @route   PATCH /api/admin/fraud-alerts/:alertId/status
+   * @access  Private (Admin only)
+   */
+  static async changeStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const { status, note } = req.body || {};
+      const result = await FraudCaseService.changeStatus(req.params.alertId, status, note, req.user?.id);
+
+      res.status(HttpStatusCodes.OK).json({
+        status: 'success',
+        message: result.trust.change !== 0
+          ? `Fraud alert marked ${result.alert.status}; trust score adjusted by ${result.trust.change}`
+          : `Fraud alert marked ${result.alert.status}`,
+        data: result
+      });
+    } catch (error) {
+      logger.error('Error changing fraud alert status:', error);
+      sendError(res, error, 'Failed to change fraud alert status');
+    }
+  }
+}
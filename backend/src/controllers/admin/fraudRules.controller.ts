@@ -0,0 +1,107 @@
+import { Request, Response } from 'express';
+import { FraudRulesService } from '../../services/core/fraudRules.service';
+import { ApiError, HttpStatusCodes } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+
+const sendError = (res: Response, error: unknown, fallback: string): void => {
+  if (error instanceof ApiError) {
+    res.status(error.statusCode).json({
+      status: 'error',
+      message: error.message
+    });
+  } else if ((error as { code?: number })?.code === 11000) {
+    res.status(HttpStatusCodes.CONFLICT).json({
+      status: 'error',
+      message: 'The rule was changed by someone else; reload and try again'
+    });
+  } else {
+    res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+      status: 'error',
+      message: fallback
+    });
+  }
+};
+
+export class FraudRulesController {
+  /**
+   * @desc    List fraud rules with their active settings
+   * @route   GET /api/admin/fraud-rules
+   * @access  Private (Admin only)
+   */
+  static async listRules(req: Request, res: Response): Promise<void> {
+    try {
+      const rules = await FraudRulesService.list();
+
+      res.status(HttpStatusCodes.OK).json({
+        status: 'success',
+        message: 'Fraud rules retrieved successfully',
+        data: { rules }
+      });
+    } catch (error) {
+      logger.error('Error listing fraud rules:', error);
+      sendError(res, error, 'Failed to list fraud rules');
+    }
+  }
+
+  /**
+   * @desc    Version history of a fraud rule, newest first
+   * @route   GET /api/admin/fraud-rules/:key/versions
+   * @access  Private (Admin only)
+   */
+  static async getRuleVersions(req: Request, res: Response): Promise<void> {
+    try {
+      const versions = await FraudRulesService.history(req.params.key);
+
+      res.status(HttpStatusCodes.OK).json({
+        status: 'success',
+        message: 'Fraud rule versions retrieved successfully',
+        data: { versions }
+      });
+    } catch (error) {
+      logger.error('Error fetching fraud rule versions:', error);
+      sendError(res, error, 'Failed to fetch fraud rule versions');
+    }
+  }
+
+  /**
+   * @desc    Change a fraud rule; saved as a new version
+   * @route   PUT /api/admin/fraud-rules/:key
+   * @access  Private (Admin only)
+   */
+  static async updateRule(req: Request, res: Response): Promise<void> {
+    try {
+      const rule = await FraudRulesService.update(req.params.key, req.body || {}, req.user?.id);
+
+      res.status(HttpStatusCodes.OK).json({
+        status: 'success',
+        message: `Fraud rule ${rule.key} updated to version ${rule.version}`,
+        data: { rule }
+      });
+    } catch (error) {
+      logger.error('Error updating fraud rule:', error);
+      sendError(res, error, 'Failed to update fraud rule');
+    }
+  }
+
+  /**
+   * @desc    Explain a fraud decision: its input, the rule versions used and a replay
+   * @route   GET /api/admin/fraud-decisions/:decisionId
+   * @access  Private (Admin only)
+   */
+  static async explainDecision(req: Request, res: Response): Promise<void> {
+    try {
+      const explanation = await FraudRulesService.explain(req.params.decisionId);
+
+      res.status(HttpStatusCodes.OK).json({
+        status: 'success',
+        message: explanation.reproduced
+          ? 'Fraud decision reproduced with the recorded rule versions'
+          : 'Fraud decision could not be reproduced with the recorded rule versions',
+        data: explanation
+      });
+    } catch (error) {
+      logger.error('Error explaining fraud decision:', error);
+      sendError(res, error, 'Failed to explain fraud decision');
+    }
+  }
+}
@@ -0,0 +1,129 @@
+import { Request, Response } from 'express';
+import { TrustPolicyService } from '../../services/core/trustPolicy.service';
+import { ApiError, HttpStatusCodes } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+
+const sendError = (res: Response, error: unknown, fallback: string): void => {
+  if (error instanceof ApiError) {
+    res.status(error.statusCode).json({
+      status: 'error',
+      message: error.message
+    });
+  } else if ((error as { code?: number })?.code === 11000) {
+    res.status(HttpStatusCodes.CONFLICT).json({
+      status: 'error',
+      message: 'Another policy version was created at the same time; reload and try again'
+    });
+  } else {
+    res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+      status: 'error',
+      message: fallback
+    });
+  }
+};
+
+export class TrustPolicyController {
+  /**
+   * @desc    Trust policy versions, newest first
+   * @route   GET /api/admin/trust-policies
+   * @access  Private (Admin only)
+   */
+  static async listPolicies(req: Request, res: Response): Promise<void> {
+    try {
+      const policies = await TrustPolicyService.list();
+
+      res.status(HttpStatusCodes.OK).json({
+        status: 'success',
+        message: 'Trust policies retrieved successfully',
+        data: { policies }
+      });
+    } catch (error) {
+      logger.error('Error listing trust policies:', error);
+      sendError(res, error, 'Failed to list trust policies');
+    }
+  }
+
+  /**
+   * @desc    One trust policy version
+   * @route   GET /api/admin/trust-policies/:version
+   * @access  Private (Admin only)
+   */
+  static async getPolicy(req: Request, res: Response): Promise<void> {
+    try {
+      const policy = await TrustPolicyService.get(req.params.version);
+
+      res.status(HttpStatusCodes.OK).json({
+        status: 'success',
+        message: 'Trust policy retrieved successfully',
+        data: { policy }
+      });
+    } catch (error) {
+      logger.error('Error fetching trust policy:', error);
+      sendError(res, error, 'Failed to fetch trust policy');
+    }
+  }
+
+  /**
+   * @desc    Save a new trust policy version (not active until applied)
+   * @route   POST /api/admin/trust-policies
+   * @access  Private (Admin only)
+   */
+  static async createPolicy(req: Request, res: Response): Promise<void> {
+    try {
+      const policy = await TrustPolicyService.create(req.body || {}, req.user?.id);
+
+      res.status(HttpStatusCodes.CREATED).json({
+        status: 'success',
+        message: `Trust policy version ${policy.version} created`,
+        data: { policy }
+      });
+    } catch (error) {
+      logger.error('Error creating trust policy:', error);
+      sendError(res, error, 'Failed to create trust policy');
+    }
+  }
+
+  /**
+   * @desc    Replay the fleet's trust events under a policy version without changing scores
+   * @route   GET /api/admin/trust-policies/:version/preview
+   * @access  Private (Admin only)
+   */
+  static async previewPolicy(req: Request, res: Response): Promise<void> {
+    try {
+      const { vehicleIds, limit } = req.query as Record<string, string>;
+      const preview = await TrustPolicyService.preview(req.params.version, {
+        vehicleIds: vehicleIds ? vehicleIds.split(',').map(id => id.trim()) : undefined,
+        limit
+      });
+
+      res.status(HttpStatusCodes.OK).json({
+        status: 'success',
+        message: `${preview.changed} of ${preview.vehicles} vehicles would change under policy version ${preview.policyVersion}`,
+        data: preview
+      });
+    } catch (error) {
+      logger.error('Error previewing trust policy:', error);
+      sendError(res, error, 'Failed to preview trust policy');
+    }
+  }
+
+  /**
+   * @desc    Activate a policy version and rescore the fleet with it
+   * @route   POST /api/admin/trust-policies/:version/apply
+   * @access  Private (Admin only)
+   */
+  static async applyPolicy(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await TrustPolicyService.apply(req.params.version, req.user?.id);
+
+      res.status(HttpStatusCodes.OK).json({
+        status: 'success',
+        message: `Trust policy version ${result.policyVersion} applied to ${result.vehicles} vehicles`,
+        data: result
+      });
+    } catch (error) {
+      logger.error('Error applying trust policy:', error);
+      sendError(res, error, 'Failed to apply trust policy');
+    }
+  }
+}
@@ -474,10 +474,11 @@ export class BlockchainController {
           transaction: transaction ? {
             blockTime: transaction.blockTime,
             slot: transaction.slot,
-            confirmations: 'finalized'
+            confirmations: transaction.confirmationStatus || 'finalized',
+            memo: transaction.memoData
           } : null,
-          network: process.env.NODE_ENV === 'production' ? 'mainnet' : 'devnet',
-          explorerUrl: `https://explorer.solana.com/tx/${transactionHash}${process.env.NODE_ENV === 'production' ? '' : '?cluster=devnet'}`
+          network: getSolanaService().network,
+          explorerUrl: getSolanaService().explorerUrl(transactionHash)
         }
       });
     } catch (error) {
@@ -781,8 +782,8 @@ export class BlockchainController {
             dataSize: metadata.data_size,
             reward: metadata.reward
           } : null,
-          network: process.env.NODE_ENV === 'production' ? 'mainnet' : 'testnet',
-          explorerUrl: `https://viewblock.io/arweave/tx/${transactionId}`,
+          network: getArweaveService().network,
+          explorerUrl: getArweaveService().network === 'local' ? null : `https://viewblock.io/arweave/tx/${transactionId}`,
           permanent: verification.exists
         }
       });
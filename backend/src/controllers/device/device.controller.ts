@@ -1,17 +1,30 @@
 import { Request, Response } from 'express';
 import { logger } from '../../utils/logger';
-import { ApiError, ValidationError } from '../../utils/errors';
+import { ApiError, NotFoundError, ValidationError } from '../../utils/errors';
 import { Device, VehicleTelemetry, TestResult, IDevice, IVehicleTelemetry, ITestResult } from '../../models';
 import Vehicle from '../../models/core/Vehicle.model';
 import MileageHistory from '../../models/core/MileageHistory.model';
 import { TelemetryConsolidationService } from '../../services/telemetryConsolidation.service';
-import { TrustScoreService } from '../../services/core/trustScore.service';
+import { DeviceAuthService } from '../../services/core/deviceAuth.service';
+import { DeviceCommandService, CommandAck } from '../../services/core/deviceCommand.service';
+import { DeviceHeartbeatService } from '../../services/core/deviceHeartbeat.service';
+import { GpsOdometerValidationService } from '../../services/core/gpsOdometerValidation.service';
+import { FraudRulesService } from '../../services/core/fraudRules.service';
+import { VinBindingService } from '../../services/core/vinBinding.service';
+import { DtcService, DtcScan } from '../../services/core/dtc.service';
+import { ObdProfileService, OdometerDecodeResult } from '../../services/core/obdProfile.service';
+import { LiveTelemetryService } from '../../services/core/liveTelemetry.service';
+import { ObdProfile } from '../../models/core/ObdProfile.model';
 import { emitToUser } from '../../utils/socketEmitter';
+import { config } from '../../config/environment';
+import { DEVICE_AUTH_HEADERS } from '../../utils/deviceSignature';
+import { orderBufferedReadings, readingKey } from '../../utils/telemetryBuffer';
+import { v4 as uuidv4 } from 'uuid';
 // import BatchProcessingService from '../../services/core/batchProcessing.service';
 import mongoose from 'mongoose';
 
 // Device data interface matching ESP32 data structure
-interface ESP32DeviceData {
+export interface ESP32DeviceData {
   deviceID: string;
   deviceId?: string;  // OBD Device ID for installation mapping
   status: 'obd_connected' | 'device_not_connected' | 'error';
@@ -25,6 +38,7 @@ interface ESP32DeviceData {
   batteryVoltage?: number;
   dataQuality?: number;
   odometerPID?: string;
+  odometerRaw?: string;          // Raw odometer PID response, decoded server-side with the device's OBD profile
   bootCount?: number;
   timestamp: number;
   dataSource: string;
@@ -34,6 +48,30 @@ interface ESP32DeviceData {
     longitude?: number;
     accuracy?: number;
   };
+  dtc?: DtcScan;                 // Trouble codes, when the firmware ran a DTC scan with this reading
+  recordedAt?: number | string; // Wall-clock time of a buffered reading, if the device knows it
+  commandAcks?: CommandAck[];    // Results of commands delivered with an earlier response
+}
+
+// Options for storing a single reading
+interface IngestOptions {
+  buffered?: boolean;
+  batchId?: string;
+  recordedAt?: Date;
+  skipMapping?: boolean;
+  odometer?: OdometerDecodeResult;
+}
+
+export interface BufferedUploadSummary {
+  deviceID: string;
+  batchId: string;
+  received: number;
+  accepted: number;
+  duplicates: number;
+  rejected: Array<{ index: number; reason: string }>;
+  failed: number;
+  flagged: number;
+  results: Array<{ index: number; telemetryId?: string; fraudDetected?: boolean; validationStatus?: string; error?: string }>;
 }
 
 export class DeviceController {
@@ -108,7 +146,8 @@ export class DeviceController {
 
       logger.info('Attempting to find device:', { deviceID: normalizedObdId });
       try {
-        deviceRecord = await Device.findOne({ deviceID: normalizedObdId });
+        // Signed requests arrive with the device already authenticated by authenticateDevice
+        deviceRecord = req.device || await Device.findOne({ deviceID: normalizedObdId });
         logger.info('Device findOne result:', { found: !!deviceRecord, deviceID: normalizedObdId });
       } catch (findError) {
         logger.error('Error finding device:', findError);
@@ -155,26 +194,14 @@ export class DeviceController {
         }
       }
 
+      // Decode the raw odometer response before anything looks at the mileage
+      const odometer = await ObdProfileService.applyToReading(deviceRecord, deviceData);
+
+      // Boot counter / reconnect checks need the previous heartbeat, so run them first
+      await DeviceHeartbeatService.recordCheckIn(deviceRecord, deviceData);
+
       // Update device last seen and health
-      try {
-        logger.info('Updating device record:', { deviceID: deviceData.deviceID });
-        const updateResult = await Device.updateOne(
-          { deviceID: deviceData.deviceID },
-          {
-            $set: {
-              lastSeen: new Date(),
-              lastDataReceived: new Date(),
-              'health.batteryVoltage': deviceData.batteryVoltage || 0,
-              'health.bootCount': deviceData.bootCount || 0,
-              status: deviceData.status === 'obd_connected' ? 'active' : 'error'
-            }
-          }
-        );
-        logger.info('Device update result:', updateResult);
-      } catch (updateError) {
-        logger.error('Error updating device:', updateError);
-        throw new Error(`Failed to update device: ${updateError.message}`);
-      }
+      await DeviceController.updateDeviceHeartbeat(deviceData);
 
       // Process data through batch processing system for OBD data (temporarily disabled)
       // if (deviceData.mileage && deviceData.dataSource === 'veepeak_obd') {
@@ -203,100 +230,11 @@ export class DeviceController {
       //   }
       // }
 
-      // Find vehicle by VIN for telemetry linking
-      let vehicleRecord = null;
-      if (deviceData.vin) {
-        try {
-          vehicleRecord = await Vehicle.findOne({ vin: deviceData.vin });
-          if (vehicleRecord) {
-            logger.info(`Found vehicle for VIN ${deviceData.vin}: ${vehicleRecord._id}`);
-          } else {
-            logger.warn(`Vehicle not found for VIN: ${deviceData.vin}`);
-          }
-        } catch (vehicleError) {
-          logger.error('Error finding vehicle:', vehicleError);
-        }
-      }
-
-      // Create telemetry record
-      try {
-        logger.info('Creating telemetry record:', { deviceID: deviceData.deviceID });
-        const telemetryData = {
-          deviceID: deviceData.deviceID,
-          device: deviceRecord._id,
-          vehicle: vehicleRecord?._id, // FIXED: Link to vehicle
-          status: deviceData.status,
-          message: deviceData.message || 'ESP32 data received',
-          dataSource: deviceData.dataSource || 'device_status',
-          dataQuality: deviceData.dataQuality || 0,
-          vin: deviceData.vin || undefined,
-          obd: {
-            mileage: deviceData.mileage || undefined,
-            rpm: deviceData.rpm || undefined,
-            speed: deviceData.speed || undefined,
-            engineTemp: deviceData.engineTemp || undefined,
-            fuelLevel: deviceData.fuelLevel || undefined,
-            odometerPID: deviceData.odometerPID || undefined
-          },
-          location: deviceData.location || undefined,
-          deviceHealth: {
-            batteryVoltage: deviceData.batteryVoltage || undefined,
-            bootCount: deviceData.bootCount || undefined
-          },
-          validation: {
-            tamperingDetected: false,
-            validationStatus: 'RECEIVED'
-          },
-          // FIXED: Add required mileageValidation fields
-          mileageValidation: {
-            reportedMileage: deviceData.mileage || 0,
-            previousMileage: 0, // Will be updated by vehicle lookup
-            newMileage: deviceData.mileage || 0,
-            delta: 0, // Will be calculated
-            flagged: false,
-            validationStatus: 'PENDING',
-            reason: 'Initial record'
-          },
-          rawData: {
-            timestamp: deviceData.timestamp,
-            receivedAt: new Date(),
-            veepeakConnected: deviceData.veepeakConnected || false,
-            transmissionSuccess: true
-          }
-        };
-        
-        logger.info('Telemetry data to create:', telemetryData);
-        telemetryRecord = await VehicleTelemetry.create(telemetryData);
-        logger.info('Telemetry record created successfully:', { id: telemetryRecord._id });
-      } catch (telemetryError) {
-        logger.error('Error creating telemetry record:', telemetryError);
-        throw new Error(`Failed to create telemetry record: ${telemetryError.message}`);
-      }
-
-      // Process device identifier mapping (supports deviceId or deviceID) and update vehicle mileage
-      const obDeviceId = (deviceData.deviceId && deviceData.deviceId.trim().length > 0)
-        ? deviceData.deviceId
-        : deviceData.deviceID;
-      if (obDeviceId && deviceData.mileage && deviceData.status === 'obd_connected') {
-        await DeviceController.processDeviceIdMapping(deviceData, telemetryRecord);
-      }
-
-      // Process different status types and update validation
-      let fraudDetected = false;
-      let fraudDetails = null;
-      
-      switch (deviceData.status) {
-        case 'obd_connected':
-          const processResult = await DeviceController.processVehicleData({ ...deviceData, deviceId: normalizedObdId, deviceID: normalizedObdId }, telemetryRecord);
-          fraudDetected = processResult?.fraudDetected || false;
-          fraudDetails = processResult?.fraudDetails || null;
-          break;
-        case 'device_not_connected':
-          await DeviceController.processDeviceError({ ...deviceData, deviceId: normalizedObdId, deviceID: normalizedObdId }, telemetryRecord);
-          break;
-        default:
-          logger.warn('Unknown device status:', deviceData.status);
-      }
+      // Store the reading and run mapping and fraud checks
+      const ingestResult = await DeviceController.ingestReading(deviceData, deviceRecord, normalizedObdId, { odometer });
+      telemetryRecord = ingestResult.telemetryRecord;
+      const fraudDetected = ingestResult.fraudDetected;
+      const fraudDetails = ingestResult.fraudDetails;
 
       // Create test result record
       try {
@@ -368,6 +306,9 @@ export class DeviceController {
         // Don't fail the main request if consolidation fails
       }
 
+      // Settle command acks from this check-in and pick up queued commands
+      const commands = await DeviceCommandService.exchange(deviceRecord.deviceID, deviceData.commandAcks, 'http');
+
       // Send appropriate response based on fraud detection
       if (fraudDetected) {
         res.status(422).json({
@@ -382,7 +323,8 @@ export class DeviceController {
             reportedMileage: fraudDetails?.mileage,
             delta: fraudDetails?.delta,
             validationStatus: fraudDetails?.validationStatus,
-            validationErrors: fraudDetails?.validationErrors
+            validationErrors: fraudDetails?.validationErrors,
+            commands
           },
           timestamp: new Date().toISOString()
         });
@@ -397,7 +339,8 @@ export class DeviceController {
             processedAt: new Date().toISOString(),
             dataReceived: true,
             databaseSaved: true,
-            duration: duration
+            duration: duration,
+            commands
           },
           timestamp: new Date().toISOString()
         });
@@ -483,11 +426,494 @@ export class DeviceController {
     }
   }
 
+  /**
+   * Update device last seen and health from an incoming reading
+   */
+  private static async updateDeviceHeartbeat(deviceData: ESP32DeviceData): Promise<void> {
+    try {
+      logger.info('Updating device record:', { deviceID: deviceData.deviceID });
+      const updateResult = await Device.updateOne(
+        { deviceID: deviceData.deviceID },
+        {
+          $set: {
+            lastSeen: new Date(),
+            lastDataReceived: new Date(),
+            'health.batteryVoltage': deviceData.batteryVoltage || 0,
+            'health.bootCount': deviceData.bootCount || 0,
+            status: deviceData.status === 'obd_connected' ? 'active' : 'error'
+          }
+        }
+      );
+      logger.info('Device update result:', updateResult);
+    } catch (updateError) {
+      logger.error('Error updating device:', updateError);
+      throw new Error(`Failed to update device: ${updateError.message}`);
+    }
+  }
+
+  /**
+   * Process a single status reading from an already authenticated device.
+   * Used by transports other than HTTP (e.g. the MQTT gateway) so they share the same pipeline.
+   */
+  static async processStatusMessage(
+    deviceData: ESP32DeviceData,
+    deviceRecord: IDevice
+  ): Promise<{ telemetryId: string; fraudDetected: boolean; fraudDetails: any }> {
+    const missingFields = [];
+    if (!deviceData?.status) missingFields.push('status');
+    if (typeof deviceData?.timestamp !== 'number') missingFields.push('timestamp');
+    if (missingFields.length > 0) {
+      throw new ValidationError(`Missing or invalid required fields: ${missingFields.join(', ')}`);
+    }
+
+    const reading = { ...deviceData, deviceID: deviceRecord.deviceID, deviceId: deviceRecord.deviceID };
+
+    const odometer = await ObdProfileService.applyToReading(deviceRecord, reading);
+    await DeviceHeartbeatService.recordCheckIn(deviceRecord, reading);
+    await DeviceController.updateDeviceHeartbeat(reading);
+    const result = await DeviceController.ingestReading(reading, deviceRecord, deviceRecord.deviceID, { odometer });
+
+    try {
+      await DeviceController.checkAndTriggerConsolidation(reading, deviceRecord);
+    } catch (consolidationError) {
+      logger.warn('⚠️ Consolidation check failed:', consolidationError);
+    }
+
+    return {
+      telemetryId: result.telemetryRecord._id.toString(),
+      fraudDetected: result.fraudDetected,
+      fraudDetails: result.fraudDetails
+    };
+  }
+
+  /**
+   * Receive buffered readings uploaded in one request after a connectivity gap
+   * POST /api/device/status/batch
+   */
+  static async receiveBufferedReadings(req: Request, res: Response): Promise<void> {
+    const startTime = new Date();
+
+    try {
+      const deviceIdFromBody = (req.body?.deviceId || req.body?.deviceID || '').toString().trim();
+
+      const deviceRecord = req.device || (deviceIdFromBody ? await Device.findOne({ deviceID: deviceIdFromBody }) : null);
+      if (!deviceRecord) {
+        res.status(404).json({
+          status: 'error',
+          message: 'Device not found',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+      const deviceID = deviceRecord.deviceID;
+
+      const uploadedAt = Number(req.get(DEVICE_AUTH_HEADERS.timestamp)) || Math.floor(Date.now() / 1000);
+      const summary = await DeviceController.processBufferedUpload(req.body, deviceRecord, uploadedAt);
+      const { batchId, rejected, flagged, failed } = summary;
+      const endTime = new Date();
+
+      try {
+        await TestResult.create({
+          testType: 'device_status',
+          testName: 'ESP32 Buffered Upload',
+          deviceID,
+          device: deviceRecord._id,
+          status: failed > 0 || flagged > 0 ? 'warning' : 'passed',
+          result: 'success',
+          testData: {
+            input: { batchId, readings: summary.received },
+            output: { accepted: summary.accepted, duplicates: summary.duplicates, rejected: rejected.length, flagged, failed }
+          },
+          performance: {
+            startTime,
+            endTime,
+            duration: endTime.getTime() - startTime.getTime(),
+            dataSize: req.rawBody?.length
+          },
+          environment: {
+            serverHost: req.get('host') || 'unknown',
+            endpoint: req.originalUrl || '/api/device/status/batch',
+            method: req.method || 'POST',
+            userAgent: req.get('user-agent') || 'ESP32'
+          },
+          validation: {
+            dataValid: rejected.length === 0,
+            schemaValid: true,
+            businessRulesValid: flagged === 0,
+            securityValid: true
+          },
+          tags: ['device_status', 'telemetry', 'buffered'],
+          category: 'integration',
+          priority: flagged > 0 ? 'high' : 'medium',
+          metadata: {
+            environmentType: 'production',
+            automated: true,
+            retryCount: 0
+          }
+        });
+      } catch (testError) {
+        logger.warn('Continuing without test result for buffered upload:', testError);
+      }
+
+      const commands = await DeviceCommandService.exchange(deviceID, req.body?.commandAcks, 'http');
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Buffered readings processed',
+        data: {
+          ...summary,
+          duration: endTime.getTime() - startTime.getTime(),
+          commands
+        },
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error) {
+      logger.error('Error processing buffered readings:', error);
+
+      if (error instanceof ValidationError) {
+        res.status(400).json({
+          status: 'error',
+          message: error.message,
+          details: 'Validation failed',
+          timestamp: new Date().toISOString()
+        });
+      } else {
+        res.status(500).json({
+          status: 'error',
+          message: `Failed to process buffered readings: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          timestamp: new Date().toISOString()
+        });
+      }
+    }
+  }
+
+  /**
+   * Validate, de-duplicate and ingest a buffered upload for an authenticated device.
+   * Shared by the HTTP batch endpoint and the MQTT gateway.
+   */
+  static async processBufferedUpload(
+    body: any,
+    deviceRecord: IDevice,
+    uploadedAt: number
+  ): Promise<BufferedUploadSummary> {
+    const { readings, uploadMillis, bootCount } = body || {};
+    const deviceID = deviceRecord.deviceID;
+
+    if (!Array.isArray(readings) || readings.length === 0) {
+      throw new ValidationError('readings must be a non-empty array');
+    }
+    if (readings.length > config.DEVICE_BATCH_MAX_READINGS) {
+      throw new ValidationError(`A batch may contain at most ${config.DEVICE_BATCH_MAX_READINGS} readings`);
+    }
+
+    if (deviceRecord.configuration?.enableDataBuffering === false) {
+      throw new ValidationError('Data buffering is disabled for this device');
+    }
+
+    // Every reading must be a well-formed status payload for this device
+    const rejected: Array<{ index: number; reason: string }> = [];
+    const candidates: Array<ESP32DeviceData & { __index: number }> = [];
+    readings.forEach((reading: any, index: number) => {
+      if (!reading || typeof reading !== 'object') {
+        rejected.push({ index, reason: 'Reading must be an object' });
+      } else if (!reading.status || typeof reading.timestamp !== 'number') {
+        rejected.push({ index, reason: 'Missing required fields: status, timestamp' });
+      } else if ((reading.deviceID && reading.deviceID !== deviceID) || (reading.deviceId && reading.deviceId !== deviceID)) {
+        rejected.push({ index, reason: 'Reading deviceID does not match uploading device' });
+      } else {
+        candidates.push({ ...reading, deviceID, deviceId: deviceID, __index: index });
+      }
+    });
+
+    // Decode raw odometer responses up front; ordering and mapping below rely on the mileage
+    const odometerDecodes = new Map<number, OdometerDecodeResult>();
+    if (candidates.some(reading => reading.odometerRaw)) {
+      const profile = await ObdProfileService.resolveForDevice(deviceRecord);
+      candidates.forEach(reading => {
+        const decoded = ObdProfileService.decodeReading(profile, reading);
+        if (decoded) {
+          odometerDecodes.set(reading.__index, decoded);
+        }
+      });
+    }
+
+    // Readings already stored from an earlier (partially failed) upload are duplicates
+    const existing = await VehicleTelemetry.find(
+      { deviceID, 'rawData.timestamp': { $in: candidates.map(r => r.timestamp) } },
+      { 'rawData.timestamp': 1, 'deviceHealth.bootCount': 1 }
+    ).lean();
+    const existingKeys = new Set(existing.map((t: any) => readingKey({
+      timestamp: t.rawData?.timestamp,
+      bootCount: t.deviceHealth?.bootCount
+    })));
+
+    const { ordered, duplicates } = orderBufferedReadings(candidates, {
+      uploadedAt,
+      uploadMillis: typeof uploadMillis === 'number' ? uploadMillis : undefined,
+      bootCount: typeof bootCount === 'number' ? bootCount : undefined
+    }, existingKeys);
+
+    // Vehicle mapping and anchoring only needs the most recent odometer reading
+    let lastMappedPosition = -1;
+    ordered.forEach((item, position) => {
+      if (item.reading.status === 'obd_connected' && item.reading.mileage) {
+        lastMappedPosition = position;
+      }
+    });
+
+    const batchId = uuidv4();
+    const results: BufferedUploadSummary['results'] = [];
+
+    logger.info(`📦 Processing buffered upload ${batchId} from ${deviceID}: ${ordered.length} new, ${duplicates.length} duplicate, ${rejected.length} rejected`);
+
+    // The oldest buffered reading is the first one since the device was last heard from
+    if (ordered.length > 0) {
+      await DeviceHeartbeatService.recordCheckIn(deviceRecord, ordered[0].reading);
+    }
+
+    // Process strictly in chronological order so mileage and trust checks see readings as they happened
+    let lastAcceptedMileage: number | undefined;
+    for (let position = 0; position < ordered.length; position++) {
+      const { reading, recordedAt } = ordered[position];
+      const { __index, ...deviceData } = reading;
+      try {
+        const result = await DeviceController.ingestReading(deviceData, deviceRecord, deviceID, {
+          buffered: true,
+          batchId,
+          recordedAt,
+          skipMapping: position !== lastMappedPosition,
+          odometer: odometerDecodes.get(__index)
+        });
+        if (!result.quarantined && deviceData.status === 'obd_connected' && deviceData.mileage) {
+          lastAcceptedMileage = deviceData.mileage;
+        }
+        results.push({
+          index: __index,
+          telemetryId: result.telemetryRecord._id.toString(),
+          fraudDetected: result.fraudDetected,
+          validationStatus: result.fraudDetails?.validationStatus || 'VALID'
+        });
+      } catch (readingError) {
+        logger.error(`Failed to ingest buffered reading ${__index} from ${deviceID}:`, readingError);
+        results.push({
+          index: __index,
+          error: readingError instanceof Error ? readingError.message : 'Unknown error'
+        });
+      }
+    }
+
+    const latest = ordered.length > 0 ? ordered[ordered.length - 1].reading : null;
+    await Device.updateOne(
+      { deviceID },
+      {
+        $set: {
+          lastSeen: new Date(),
+          lastDataReceived: new Date(),
+          'batchProcessing.lastBatchSubmission': new Date(),
+          'batchProcessing.pendingDataCount': 0,
+          ...(latest && {
+            'health.batteryVoltage': latest.batteryVoltage || 0,
+            'health.bootCount': latest.bootCount || 0
+          }),
+          ...(lastAcceptedMileage !== undefined && {
+            'heartbeat.lastKnownMileage': lastAcceptedMileage
+          })
+        }
+      }
+    );
+
+    if (latest) {
+      try {
+        await DeviceController.checkAndTriggerConsolidation(latest, deviceRecord);
+      } catch (consolidationError) {
+        logger.warn('⚠️ Consolidation check failed:', consolidationError);
+      }
+    }
+
+    const failed = results.filter(r => r.error).length;
+
+    return {
+      deviceID,
+      batchId,
+      received: readings.length,
+      accepted: results.length - failed,
+      duplicates: duplicates.length,
+      rejected,
+      failed,
+      flagged: results.filter(r => r.fraudDetected).length,
+      results: results.sort((a, b) => a.index - b.index)
+    };
+  }
+
+  /**
+   * Store a single reading and run it through installation mapping and fraud checks.
+   * Shared by the live status endpoint and the buffered batch upload.
+   */
+  private static async ingestReading(
+    deviceData: ESP32DeviceData,
+    deviceRecord: IDevice,
+    normalizedObdId: string,
+    options: IngestOptions = {}
+  ): Promise<{ telemetryRecord: IVehicleTelemetry; fraudDetected: boolean; fraudDetails: any; quarantined?: boolean }> {
+    // A paired device reporting another vehicle's VIN must not touch either vehicle
+    const binding = await VinBindingService.check(deviceRecord, deviceData.vin);
+
+    // Link telemetry to the paired vehicle, or find the vehicle by VIN for unpaired devices
+    let vehicleRecord = binding.mismatch ? null : binding.boundVehicle || null;
+    if (!binding.bound && deviceData.vin) {
+      try {
+        vehicleRecord = await Vehicle.findOne({ vin: deviceData.vin });
+        if (vehicleRecord) {
+          logger.info(`Found vehicle for VIN ${deviceData.vin}: ${vehicleRecord._id}`);
+        } else {
+          logger.warn(`Vehicle not found for VIN: ${deviceData.vin}`);
+        }
+      } catch (vehicleError) {
+        logger.error('Error finding vehicle:', vehicleError);
+      }
+    }
+
+    // Create telemetry record
+    let telemetryRecord: IVehicleTelemetry;
+    try {
+      logger.info('Creating telemetry record:', { deviceID: deviceData.deviceID, buffered: !!options.buffered });
+      const telemetryData = {
+        deviceID: deviceData.deviceID,
+        device: deviceRecord._id,
+        vehicle: vehicleRecord?._id, // FIXED: Link to vehicle
+        status: deviceData.status,
+        message: deviceData.message || 'ESP32 data received',
+        dataSource: deviceData.dataSource || 'device_status',
+        dataQuality: deviceData.dataQuality || 0,
+        vin: deviceData.vin || undefined,
+        obd: {
+          mileage: deviceData.mileage || undefined,
+          rpm: deviceData.rpm || undefined,
+          speed: deviceData.speed || undefined,
+          engineTemp: deviceData.engineTemp || undefined,
+          fuelLevel: deviceData.fuelLevel || undefined,
+          odometerPID: deviceData.odometerPID || undefined,
+          odometerRaw: deviceData.odometerRaw || undefined,
+          obdProfile: options.odometer?.profileId
+        },
+        location: deviceData.location || undefined,
+        dtc: deviceData.dtc ? {
+          confirmed: deviceData.dtc.confirmed || [],
+          pending: deviceData.dtc.pending || [],
+          milOn: deviceData.dtc.milOn,
+          distanceSinceClearedKm: deviceData.dtc.distanceSinceClearedKm,
+          warmupsSinceCleared: deviceData.dtc.warmupsSinceCleared
+        } : undefined,
+        deviceHealth: {
+          batteryVoltage: deviceData.batteryVoltage || undefined,
+          bootCount: deviceData.bootCount || undefined
+        },
+        validation: {
+          tamperingDetected: false,
+          validationStatus: 'RECEIVED'
+        },
+        // FIXED: Add required mileageValidation fields
+        mileageValidation: {
+          reportedMileage: deviceData.mileage || 0,
+          previousMileage: 0, // Will be updated by vehicle lookup
+          newMileage: deviceData.mileage || 0,
+          delta: 0, // Will be calculated
+          flagged: false,
+          validationStatus: 'PENDING',
+          reason: 'Initial record'
+        },
+        rawData: {
+          timestamp: deviceData.timestamp,
+          receivedAt: new Date(),
+          veepeakConnected: deviceData.veepeakConnected || false,
+          transmissionSuccess: true,
+          buffered: options.buffered || false,
+          batchId: options.batchId,
+          recordedAt: options.recordedAt
+        }
+      };
+      
+      logger.info('Telemetry data to create:', telemetryData);
+      telemetryRecord = await VehicleTelemetry.create(telemetryData);
+      logger.info('Telemetry record created successfully:', { id: telemetryRecord._id });
+    } catch (telemetryError) {
+      logger.error('Error creating telemetry record:', telemetryError);
+      throw new Error(`Failed to create telemetry record: ${telemetryError.message}`);
+    }
+
+    if (binding.mismatch) {
+      await VinBindingService.quarantine(deviceRecord, binding, telemetryRecord);
+      return {
+        telemetryRecord,
+        fraudDetected: true,
+        fraudDetails: {
+          validationStatus: 'QUARANTINED',
+          validationErrors: [`VIN mismatch: reported ${binding.reportedVin}, paired vehicle ${binding.boundVin}`],
+          reportedVin: binding.reportedVin,
+          boundVin: binding.boundVin
+        },
+        quarantined: true
+      };
+    }
+
+    if (binding.bound && binding.reportedVin) {
+      await VinBindingService.clearMismatch(deviceRecord);
+    }
+
+    // Process device identifier mapping (supports deviceId or deviceID) and update vehicle mileage
+    const obDeviceId = (deviceData.deviceId && deviceData.deviceId.trim().length > 0)
+      ? deviceData.deviceId
+      : deviceData.deviceID;
+    if (!options.skipMapping && obDeviceId && deviceData.mileage && deviceData.status === 'obd_connected') {
+      await DeviceController.processDeviceIdMapping(deviceData, telemetryRecord);
+    }
+
+    // Process different status types and update validation
+    let fraudDetected = false;
+    let fraudDetails = null;
+    
+    switch (deviceData.status) {
+      case 'obd_connected':
+        const processResult = await DeviceController.processVehicleData({ ...deviceData, deviceId: normalizedObdId, deviceID: normalizedObdId }, telemetryRecord, options);
+        fraudDetected = processResult?.fraudDetected || false;
+        fraudDetails = processResult?.fraudDetails || null;
+        break;
+      case 'device_not_connected':
+        await DeviceController.processDeviceError({ ...deviceData, deviceId: normalizedObdId, deviceID: normalizedObdId }, telemetryRecord);
+        break;
+      default:
+        logger.warn('Unknown device status:', deviceData.status);
+    }
+
+    // Trouble codes are kept per vehicle, independent of the mileage checks
+    if (deviceData.dtc && vehicleRecord && deviceData.status === 'obd_connected') {
+      try {
+        await DtcService.recordScan(vehicleRecord, deviceData.deviceID, deviceData.dtc, deviceData.mileage, options.recordedAt);
+      } catch (dtcError) {
+        logger.error(`Failed to record DTC scan from ${deviceData.deviceID}:`, dtcError);
+      }
+    }
+
+    // Stream to anyone watching the vehicle; buffered backlog is history, not live
+    if (vehicleRecord && !options.buffered) {
+      LiveTelemetryService.publish(vehicleRecord._id.toString(), telemetryRecord);
+    }
+
+    return { telemetryRecord, fraudDetected, fraudDetails };
+  }
+
   /**
    * Process successful vehicle data from ESP32
    */
-  private static async processVehicleData(data: ESP32DeviceData, telemetryRecord: IVehicleTelemetry): Promise<{ fraudDetected: boolean; fraudDetails?: any }> {
+  private static async processVehicleData(
+    data: ESP32DeviceData,
+    telemetryRecord: IVehicleTelemetry,
+    options: IngestOptions = {}
+  ): Promise<{ fraudDetected: boolean; fraudDetails?: any }> {
     try {
+      // Buffered readings are scored and recorded at the time they were taken, not uploaded
+      const recordedAt = options.recordedAt || new Date();
       logger.info('Processing vehicle data:', {
         deviceID: data.deviceID,
         vin: data.vin,
@@ -514,69 +940,53 @@ export class DeviceController {
           
           logger.info(`Mileage validation: Previous=${previousMileage}, Reported=${reportedMileage}, Delta=${delta}`);
           
-          // FRAUD DETECTION: Odometer rollback
-          if (reportedMileage < previousMileage) {
+          // FRAUD DETECTION: Mileage rules (odometer rollback and any other rule enabled for devices)
+          const decision = await FraudRulesService.evaluate({
+            source: 'device',
+            reportedMileage,
+            previousMileage,
+            previousRecordedAt: vehicle.lastMileageUpdate,
+            recordedAt
+          }, { vehicleId: vehicle._id, subjectType: 'telemetry', subjectId: telemetryRecord._id.toString() });
+          validationErrors.push(...decision.matches.map(match => match.reason));
+          const rollback = decision.matches.find(match => match.ruleKey === 'odometer_rollback');
+
+          if (decision.blocked) {
             tamperingDetected = true;
-            validationStatus = 'ROLLBACK_DETECTED';
-            validationErrors.push(`Odometer rollback: ${reportedMileage} < ${previousMileage} (${delta} km decrease)`);
-            logger.error(`🚨 FRAUD ALERT: Odometer rollback detected on ${data.deviceID}: ${previousMileage} -> ${reportedMileage} km (${delta} km decrease)`);
-            
-            // Create fraud alert in vehicle record
-            const fraudAlert = {
-              alertType: 'odometer_rollback',
-              severity: 'high',
-              description: `Odometer rollback detected: Mileage decreased from ${previousMileage} km to ${reportedMileage} km`,
-              reportedBy: vehicle.ownerId, // Use vehicle owner as reporter
-              reportedAt: new Date(),
-              status: 'active',
-              evidence: [],
-              investigationNotes: `Delta: ${delta} km (decrease)`
-            };
-            
-            // Add fraud alert to vehicle
-            vehicle.fraudAlerts.push(fraudAlert);
-            await vehicle.save();
-            
-            logger.error(`🚨 FRAUD ALERT CREATED for vehicle ${vehicle._id}: ${fraudAlert.description}`);
-            
-            // Create trust event for fraud detection using atomic service
-            try {
-              const trustResult = await TrustScoreService.updateTrustScore({
-                vehicleId: vehicle._id.toString(),
-                change: -30, // Configurable impact
-                reason: `Mileage rollback detected: ${reportedMileage} km vs ${previousMileage} km`,
-                source: 'fraudEngine',
-                details: {
-                  telemetryId: telemetryRecord._id,
-                  reportedMileage,
-                  previousMileage,
-                  deviceId: data.deviceID,
-                  fraudAlertId: vehicle.fraudAlerts[vehicle.fraudAlerts.length - 1]?._id
-                },
-                createdBy: vehicle.ownerId.toString(),
-                eventTimestamp: new Date()
-              });
-
-              if (trustResult.success) {
-                // Emit socket event
-                await TrustScoreService.emitTrustScoreChange(
-                  vehicle._id.toString(),
-                  trustResult.previousScore,
-                  trustResult.newScore,
-                  trustResult.eventId!,
-                  `Mileage rollback detected: ${reportedMileage} km vs ${previousMileage} km`,
-                  -30
-                );
-                
-                logger.info(`📉 TRUST EVENT CREATED: Score decreased by 30 points for vehicle ${vehicle._id} (${trustResult.previousScore} → ${trustResult.newScore})`);
-              } else {
-                logger.error('Failed to update TrustScore:', trustResult.error);
-              }
-            } catch (trustError) {
-              logger.error('Failed to create trust event:', trustError);
-            }
+            const primary = rollback || decision.matches.find(match => match.blocking)!;
+            validationStatus = rollback ? 'ROLLBACK_DETECTED' : 'INVALID';
+            logger.error(`🚨 FRAUD ALERT: ${primary.reason} on ${data.deviceID} (rule ${primary.ruleKey} v${primary.ruleVersion})`);
+          } else if (decision.flagged) {
+            validationStatus = 'SUSPICIOUS';
           }
+
+          // Alert and trust impact of whatever fired, blocking or not
+          await FraudRulesService.applyDecision(decision, {
+            vehicleId: vehicle._id.toString(),
+            subjectType: 'telemetry',
+            subjectId: telemetryRecord._id.toString(),
+            telemetryId: telemetryRecord._id.toString(),
+            description: rollback
+              ? `Odometer rollback detected: Mileage decreased from ${previousMileage} km to ${reportedMileage} km`
+              : undefined,
+            investigationNotes: `Delta: ${delta} km`,
+            details: {
+              telemetryId: telemetryRecord._id,
+              reportedMileage,
+              previousMileage,
+              deviceId: data.deviceID
+            }
+          });
           
+          // FRAUD DETECTION: Odometer drifting away from GPS distance (PID spoofing)
+          if (!tamperingDetected) {
+            const distanceCheck = await GpsOdometerValidationService.validateReading(vehicle, data, telemetryRecord);
+            if (distanceCheck?.severity) {
+              validationStatus = 'SUSPICIOUS';
+              validationErrors.push(`GPS/odometer mismatch (${distanceCheck.severity}): GPS ${distanceCheck.gpsDistanceKm} km vs odometer ${distanceCheck.odometerDistanceKm} km`);
+            }
+          }
+
           // Update telemetry with validation results
           logger.info(`Updating telemetry record ${telemetryRecord._id} with fraud flags:`, {
             tamperingDetected,
@@ -596,7 +1006,7 @@ export class DeviceController {
                 'mileageValidation.delta': delta,
                 'mileageValidation.flagged': tamperingDetected,
                 'mileageValidation.validationStatus': validationStatus,
-                'mileageValidation.reason': tamperingDetected ? `Odometer rollback: ${reportedMileage} < ${previousMileage}` : 'Valid mileage progression'
+                'mileageValidation.reason': validationErrors.length > 0 ? validationErrors.join('; ') : 'Valid mileage progression'
               }
             }
           );
@@ -613,7 +1023,7 @@ export class DeviceController {
               $set: {
                 lastVerifiedMileage: reportedMileage,
                 currentMileage: reportedMileage,
-                lastMileageUpdate: new Date()
+                lastMileageUpdate: recordedAt
               }
             });
             logger.info(`✅ Valid mileage update: ${previousMileage} -> ${reportedMileage} km`);
@@ -1255,6 +1665,9 @@ export class DeviceController {
         isActive: true
       });
 
+      // Issue the signing secret; it is only ever returned in this response
+      const credentials = await DeviceAuthService.provisionSecret(device.deviceID);
+
       // Create registration test result
       await TestResult.create({
         testType: 'device_status',
@@ -1310,7 +1723,12 @@ export class DeviceController {
           status: device.status,
           configuration: device.configuration,
           registeredAt: device.registeredAt,
-          _id: device._id
+          _id: device._id,
+          credentials: {
+            secret: credentials.secret,
+            secretVersion: credentials.secretVersion,
+            issuedAt: credentials.issuedAt
+          }
         }
       });
 
@@ -1336,6 +1754,272 @@ export class DeviceController {
     }
   }
 
+  /**
+   * Rotate (or provision) the signing secret of a device
+   * POST /api/device/:deviceId/secret/rotate
+   */
+  static async rotateDeviceSecret(req: Request, res: Response): Promise<void> {
+    try {
+      const { deviceId } = req.params;
+      const graceHours = req.body?.graceHours !== undefined ? Number(req.body.graceHours) : undefined;
+
+      if (graceHours !== undefined && (!Number.isFinite(graceHours) || graceHours < 0 || graceHours > 168)) {
+        throw new ValidationError('graceHours must be a number between 0 and 168');
+      }
+
+      const result = await DeviceAuthService.rotateSecret(deviceId, graceHours);
+
+      logger.info(`Device secret rotated by admin ${req.user?.email}: ${deviceId} (v${result.secretVersion})`);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Device secret rotated successfully',
+        data: {
+          deviceID: result.deviceID,
+          secret: result.secret,
+          secretVersion: result.secretVersion,
+          issuedAt: result.issuedAt,
+          previousSecretExpiresAt: result.previousSecretExpiresAt || null
+        }
+      });
+
+    } catch (error) {
+      logger.error('Error rotating device secret:', error);
+
+      if (error instanceof ApiError) {
+        res.status(error.statusCode).json({
+          status: 'error',
+          message: error.message
+        });
+      } else {
+        res.status(500).json({
+          status: 'error',
+          message: 'Failed to rotate device secret'
+        });
+      }
+    }
+  }
+
+  /**
+   * Update device configuration and queue it for delivery to the hardware
+   * PUT /api/device/:deviceId/config
+   */
+  static async updateDeviceConfiguration(req: Request, res: Response): Promise<void> {
+    try {
+      const { deviceId } = req.params;
+      const body = req.body || {};
+
+      // Same bounds as the Device schema so we never queue a config the firmware cannot apply
+      const numericFields: Record<string, [number, number]> = {
+        selectedVehicle: [1, 99],
+        sleepDurationMinutes: [1, 1440],
+        maxRetryAttempts: [1, 10]
+      };
+      const booleanFields = ['enableDataBuffering', 'enableSSL'];
+
+      const updateData: Record<string, any> = {};
+      const unsetData: Record<string, ''> = {};
+      for (const [field, [min, max]] of Object.entries(numericFields)) {
+        if (body[field] === undefined) continue;
+        const value = Number(body[field]);
+        if (!Number.isInteger(value) || value < min || value > max) {
+          throw new ValidationError(`${field} must be an integer between ${min} and ${max}`);
+        }
+        updateData[`configuration.${field}`] = value;
+      }
+      for (const field of booleanFields) {
+        if (body[field] === undefined) continue;
+        if (typeof body[field] !== 'boolean') {
+          throw new ValidationError(`${field} must be a boolean`);
+        }
+        updateData[`configuration.${field}`] = body[field];
+      }
+
+      // null unpins the profile so it is resolved from the vehicle again
+      if (body.obdProfileId === null) {
+        unsetData['configuration.obdProfile'] = '';
+      } else if (body.obdProfileId !== undefined) {
+        const profile = mongoose.isValidObjectId(body.obdProfileId)
+          ? await ObdProfile.findOne({ _id: body.obdProfileId, isActive: true })
+          : null;
+        if (!profile) {
+          throw new ValidationError('obdProfileId must reference an active OBD profile');
+        }
+        updateData['configuration.obdProfile'] = profile._id;
+      }
+
+      if (Object.keys(updateData).length === 0 && Object.keys(unsetData).length === 0) {
+        throw new ValidationError('No configuration fields provided');
+      }
+
+      const device = await Device.findOneAndUpdate(
+        { deviceID: deviceId },
+        {
+          ...(Object.keys(updateData).length > 0 && { $set: updateData }),
+          ...(Object.keys(unsetData).length > 0 && { $unset: unsetData })
+        },
+        { new: true, runValidators: true }
+      );
+
+      if (!device) {
+        throw new NotFoundError(`Device ${deviceId} not found`);
+      }
+
+      const configuration = await ObdProfileService.buildDeviceConfiguration(device);
+
+      const command = await DeviceCommandService.enqueue(deviceId, 'config_update', configuration, req.user?.id);
+
+      logger.info(`Device configuration updated by admin ${req.user?.email}: ${deviceId}`);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Device configuration updated and queued for delivery',
+        data: {
+          deviceID: device.deviceID,
+          configuration,
+          command
+        }
+      });
+
+    } catch (error) {
+      logger.error('Error updating device configuration:', error);
+
+      if (error instanceof ApiError) {
+        res.status(error.statusCode).json({
+          status: 'error',
+          message: error.message
+        });
+      } else {
+        res.status(500).json({
+          status: 'error',
+          message: 'Failed to update device configuration'
+        });
+      }
+    }
+  }
+
+  /**
+   * Queue an operational command (reboot, PID rediscovery, firmware check) for a device
+   * POST /api/device/:deviceId/commands
+   */
+  static async queueDeviceCommand(req: Request, res: Response): Promise<void> {
+    try {
+      const { deviceId } = req.params;
+      const { type, payload } = req.body || {};
+
+      if (!['reboot', 'pid_rediscovery', 'firmware_check'].includes(type)) {
+        throw new ValidationError('type must be one of: reboot, pid_rediscovery, firmware_check (use PUT /config for configuration)');
+      }
+      if (payload !== undefined && (typeof payload !== 'object' || payload === null || Array.isArray(payload))) {
+        throw new ValidationError('payload must be an object');
+      }
+
+      const command = await DeviceCommandService.enqueue(deviceId, type, payload, req.user?.id);
+
+      logger.info(`Device command ${type} queued by admin ${req.user?.email}: ${deviceId}`);
+
+      res.status(201).json({
+        status: 'success',
+        message: 'Command queued for delivery',
+        data: { command }
+      });
+
+    } catch (error) {
+      logger.error('Error queueing device command:', error);
+
+      if (error instanceof ApiError) {
+        res.status(error.statusCode).json({
+          status: 'error',
+          message: error.message
+        });
+      } else {
+        res.status(500).json({
+          status: 'error',
+          message: 'Failed to queue device command'
+        });
+      }
+    }
+  }
+
+  /**
+   * List queued and past commands for a device
+   * GET /api/device/:deviceId/commands
+   */
+  static async listDeviceCommands(req: Request, res: Response): Promise<void> {
+    try {
+      const { deviceId } = req.params;
+      const { status, limit } = req.query;
+
+      const result = await DeviceCommandService.listForDevice(deviceId, {
+        status: status as any,
+        limit: limit ? Number(limit) : undefined
+      });
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Device commands retrieved successfully',
+        data: {
+          deviceID: deviceId,
+          ...result
+        }
+      });
+
+    } catch (error) {
+      logger.error('Error listing device commands:', error);
+      res.status(500).json({
+        status: 'error',
+        message: 'Failed to list device commands'
+      });
+    }
+  }
+
+  /**
+   * Pin an OBD profile to a device, or re-resolve it from the vehicle when profileId is omitted,
+   * and queue the configuration for delivery
+   * POST /api/device/:deviceId/obd-profile
+   */
+  static async assignObdProfile(req: Request, res: Response): Promise<void> {
+    try {
+      const { deviceId } = req.params;
+      const { profileId } = req.body || {};
+
+      if (profileId !== undefined && profileId !== null && typeof profileId !== 'string') {
+        throw new ValidationError('profileId must be a string');
+      }
+
+      const { profile, command } = await ObdProfileService.assignToDevice(deviceId, profileId, req.user?.id);
+
+      logger.info(`OBD profile assignment for ${deviceId} by admin ${req.user?.email}: ${profile?.name || 'none'}`);
+
+      res.status(200).json({
+        status: 'success',
+        message: profile
+          ? 'OBD profile assigned and queued for delivery'
+          : 'No OBD profile matches this device; configuration unchanged',
+        data: {
+          deviceID: deviceId,
+          profile: profile ? ObdProfileService.toDevicePayload(profile) : null,
+          command
+        }
+      });
+
+    } catch (error) {
+      logger.error('Error assigning OBD profile:', error);
+
+      if (error instanceof ApiError) {
+        res.status(error.statusCode).json({
+          status: 'error',
+          message: error.message
+        });
+      } else {
+        res.status(500).json({
+          status: 'error',
+          message: 'Failed to assign OBD profile'
+        });
+      }
+    }
+  }
+
   /**
    * Check if this is the last trip of the day and trigger consolidation
    */
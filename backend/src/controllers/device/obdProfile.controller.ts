@@ -0,0 +1,163 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { ObdProfile } from '../../models/core/ObdProfile.model';
+import { ObdProfileService } from '../../services/core/obdProfile.service';
+import { ApiError, NotFoundError, ValidationError } from '../../utils/errors';
+import { decodeOdometerResponse } from '../../utils/obdPid';
+import { logger } from '../../utils/logger';
+
+const sendError = (res: Response, error: unknown, fallback: string): void => {
+  if (error instanceof ApiError) {
+    res.status(error.statusCode).json({
+      status: 'error',
+      message: error.message
+    });
+  } else if (error instanceof mongoose.Error.ValidationError) {
+    res.status(400).json({
+      status: 'error',
+      message: error.message
+    });
+  } else if ((error as { code?: number })?.code === 11000) {
+    res.status(409).json({
+      status: 'error',
+      message: 'An OBD profile with this name already exists'
+    });
+  } else {
+    res.status(500).json({
+      status: 'error',
+      message: fallback
+    });
+  }
+};
+
+export class ObdProfileController {
+  /**
+   * List OBD PID profiles
+   * GET /api/obd-profiles
+   */
+  static async listProfiles(req: Request, res: Response): Promise<void> {
+    try {
+      const { make, active } = req.query;
+      const profiles = await ObdProfileService.list({
+        make: typeof make === 'string' ? make : undefined,
+        active: active === undefined ? undefined : active === 'true'
+      });
+
+      res.status(200).json({
+        status: 'success',
+        message: 'OBD profiles retrieved successfully',
+        data: { profiles }
+      });
+    } catch (error) {
+      logger.error('Error listing OBD profiles:', error);
+      sendError(res, error, 'Failed to list OBD profiles');
+    }
+  }
+
+  /**
+   * Show which profile a make/model/year resolves to
+   * GET /api/obd-profiles/resolve?make=Hyundai&model=i20&year=2021
+   */
+  static async resolveProfile(req: Request, res: Response): Promise<void> {
+    try {
+      const { make, model, year } = req.query;
+      if (typeof make !== 'string' || make.trim().length === 0) {
+        throw new ValidationError('make is required');
+      }
+
+      const profile = await ObdProfileService.resolveForVehicle({
+        make,
+        vehicleModel: typeof model === 'string' ? model : undefined,
+        year: year ? Number(year) : undefined
+      });
+
+      res.status(200).json({
+        status: 'success',
+        message: profile ? 'OBD profile resolved' : 'No OBD profile matches this vehicle',
+        data: { profile }
+      });
+    } catch (error) {
+      logger.error('Error resolving OBD profile:', error);
+      sendError(res, error, 'Failed to resolve OBD profile');
+    }
+  }
+
+  /**
+   * Create a profile
+   * POST /api/obd-profiles
+   */
+  static async createProfile(req: Request, res: Response): Promise<void> {
+    try {
+      const profile = await ObdProfileService.create(req.body || {}, req.user?.id);
+
+      res.status(201).json({
+        status: 'success',
+        message: 'OBD profile created',
+        data: { profile }
+      });
+    } catch (error) {
+      logger.error('Error creating OBD profile:', error);
+      sendError(res, error, 'Failed to create OBD profile');
+    }
+  }
+
+  /**
+   * Update a profile. Set isActive to false to retire it; decoded telemetry keeps its reference.
+   * PUT /api/obd-profiles/:profileId
+   */
+  static async updateProfile(req: Request, res: Response): Promise<void> {
+    try {
+      const profile = await ObdProfileService.update(req.params.profileId, req.body || {}, req.user?.id);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'OBD profile updated',
+        data: { profile }
+      });
+    } catch (error) {
+      logger.error('Error updating OBD profile:', error);
+      sendError(res, error, 'Failed to update OBD profile');
+    }
+  }
+
+  /**
+   * Decode a sample raw response with a profile, to check its formula before rolling it out
+   * POST /api/obd-profiles/:profileId/decode
+   */
+  static async testDecode(req: Request, res: Response): Promise<void> {
+    try {
+      const { profileId } = req.params;
+      const { raw } = req.body || {};
+      if (typeof raw !== 'string' || raw.trim().length === 0) {
+        throw new ValidationError('raw is required');
+      }
+
+      const profile = mongoose.isValidObjectId(profileId) ? await ObdProfile.findById(profileId) : null;
+      if (!profile) {
+        throw new NotFoundError(`OBD profile ${profileId} not found`);
+      }
+
+      let decoded: ReturnType<typeof decodeOdometerResponse>;
+      try {
+        decoded = decodeOdometerResponse(profile.odometer, raw);
+      } catch (decodeError) {
+        throw new ValidationError(decodeError.message);
+      }
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Response decoded',
+        data: {
+          profileId: profile._id,
+          command: profile.odometer.command,
+          formula: profile.odometer.formula,
+          unit: profile.odometer.unit,
+          ...decoded
+        }
+      });
+    } catch (error) {
+      logger.error('Error decoding OBD response:', error);
+      sendError(res, error, 'Failed to decode OBD response');
+    }
+  }
+}
@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import { InstallationRequest } from '../models/InstallationRequest.model';
 import Vehicle from '../models/core/Vehicle.model';
 import { Device } from '../models/core/Device.model';
+import { ObdProfileService } from '../services/core/obdProfile.service';
 import { logger } from '../utils/logger';
 
 // Create a new installation request
@@ -517,6 +518,13 @@ export const completeInstallationRequest = async (req: Request, res: Response) =
         device.vehicle = installRequest.vehicleId;
         device.owner = installRequest.ownerId;
         await device.save();
+
+        // Deliver the odometer PID profile for the newly paired vehicle
+        try {
+          await ObdProfileService.assignToDevice(device.deviceID, undefined, userId);
+        } catch (profileError) {
+          logger.warn(`⚠️ Could not assign OBD profile to device ${device.deviceID}:`, profileError);
+        }
       }
     }
 
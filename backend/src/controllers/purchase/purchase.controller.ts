@@ -7,6 +7,7 @@ import Vehicle from '../../models/core/Vehicle.model';
 import { User } from '../../models/core/User.model';
 import { TelemetryBatch } from '../../models/TelemetryBatch.model';
 import { getSolanaService } from '../../services/blockchain/solana.service';
+import { VehicleHoldService } from '../../services/core/vehicleHold.service';
 import mongoose from 'mongoose';
 
 export class PurchaseController {
@@ -44,6 +45,16 @@ export class PurchaseController {
         });
       }
 
+      // Stolen, court order and other holds block the sale
+      const held = await VehicleHoldService.blockFor(String(vehicle._id), 'purchase_request');
+      if (held) {
+        return res.status(held.statusCode).json({
+          success: false,
+          message: held.message,
+          data: held.details
+        });
+      }
+
       const sellerId = vehicle.ownerId;
 
       // Prevent buyer == seller
@@ -415,8 +426,15 @@ export class PurchaseController {
         }
       }
 
-      // For demo: Only require trust score check to pass
-      const allChecksPassed = trustScoreCheck;
+      // Check 5: No stolen, court order or other hold on the vehicle
+      const activeHolds = await VehicleHoldService.activeHolds(String(vehicle._id));
+      const holdCheck = activeHolds.length === 0;
+      if (!holdCheck) {
+        failureReasons.push(...activeHolds.map(hold => `Vehicle is on hold (${hold.type}): ${hold.reason}`));
+      }
+
+      // For demo: Only require trust score check to pass, but a held vehicle never passes
+      const allChecksPassed = trustScoreCheck && holdCheck;
       
       // Update purchase request with verification results
       purchaseRequest.verificationResults = {
@@ -424,6 +442,7 @@ export class PurchaseController {
         trustScoreCheck,
         blockchainCheck,
         storageCheck,
+        holdCheck,
         failureReasons: failureReasons.length > 0 ? failureReasons : undefined,
         verifiedAt: new Date()
       };
@@ -442,7 +461,8 @@ export class PurchaseController {
             telemetryCheck,
             trustScoreCheck,
             blockchainCheck,
-            storageCheck
+            storageCheck,
+            holdCheck
           },
           failureReasons: failureReasons.length > 0 ? failureReasons : undefined,
           verifiedAt: purchaseRequest.verificationResults.verifiedAt
@@ -562,6 +582,17 @@ export class PurchaseController {
       const buyer: any = purchaseRequest.buyerId;
       const seller: any = purchaseRequest.sellerId;
 
+      // A hold placed after verification still stops the transfer
+      const held = await VehicleHoldService.blockFor(String(vehicle._id), 'transfer');
+      if (held) {
+        await session.abortTransaction();
+        return res.status(held.statusCode).json({
+          success: false,
+          message: held.message,
+          data: held.details
+        });
+      }
+
       let solanaTxHash: string | undefined;
       let simulated = false;
 
@@ -0,0 +1,170 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Vehicle, { IVehicleDocument } from '../../models/core/Vehicle.model';
+import { IDrivingScore } from '../../models/core/DrivingScore.model';
+import { DrivingScoreService } from '../../services/core/drivingScore.service';
+import { ApiError, AuthorizationError, NotFoundError, ValidationError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+
+const sendError = (res: Response, error: unknown, fallback: string): void => {
+  if (error instanceof ApiError) {
+    res.status(error.statusCode).json({
+      status: 'error',
+      message: error.message
+    });
+  } else {
+    res.status(500).json({
+      status: 'error',
+      message: fallback
+    });
+  }
+};
+
+const toScoreView = (score: IDrivingScore | null) => score && ({
+  periodStart: score.periodStart,
+  periodEnd: score.periodEnd,
+  score: score.score,
+  riskLevel: score.riskLevel,
+  breakdown: score.breakdown,
+  metrics: score.metrics,
+  computedAt: score.computedAt
+});
+
+const loadVehicle = async (vehicleId: string): Promise<IVehicleDocument> => {
+  if (!mongoose.isValidObjectId(vehicleId)) {
+    throw new ValidationError('Invalid vehicle ID');
+  }
+  const vehicle = await Vehicle.findById(vehicleId);
+  if (!vehicle) {
+    throw new NotFoundError('Vehicle not found');
+  }
+  return vehicle;
+};
+
+const requireVehicleOwner = (req: Request, vehicle: IVehicleDocument): void => {
+  const user = (req as any).user;
+  if (!user || String(vehicle.ownerId) !== String(user.id)) {
+    throw new AuthorizationError('Only the vehicle owner can manage insurer consent');
+  }
+};
+
+export class DrivingScoreController {
+  /**
+   * Latest driving scores of the vehicles shared with the calling insurer
+   * GET /api/driving-scores
+   */
+  static async listConsentedVehicles(req: Request, res: Response): Promise<void> {
+    try {
+      const insurerId = String((req as any).user.id);
+      const entries = await DrivingScoreService.listForInsurer(insurerId);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Driving scores retrieved successfully',
+        data: {
+          vehicles: entries.map(({ vehicle, latest }) => {
+            const owner = vehicle.ownerId as any;
+            return {
+              vehicleId: vehicle._id.toString(),
+              vin: vehicle.vin,
+              vehicleNumber: vehicle.vehicleNumber,
+              make: vehicle.make,
+              model: vehicle.vehicleModel,
+              year: vehicle.year,
+              owner: owner?.firstName ? `${owner.firstName} ${owner.lastName}` : null,
+              latest: toScoreView(latest)
+            };
+          })
+        }
+      });
+    } catch (error) {
+      logger.error('Error listing driving scores:', error);
+      sendError(res, error, 'Failed to list driving scores');
+    }
+  }
+
+  /**
+   * Driving score of one vehicle with its recent history
+   * GET /api/driving-scores/:vehicleId?limit=6
+   */
+  static async getVehicleScore(req: Request, res: Response): Promise<void> {
+    try {
+      const vehicle = await loadVehicle(req.params.vehicleId);
+
+      // Owners and admins always; insurers only with the current owner's consent
+      const user = (req as any).user;
+      const isOwner = String(vehicle.ownerId) === String(user.id);
+      const isAdmin = (user.role || '').toLowerCase() === 'admin';
+      const isConsentedInsurer = user.role === 'insurance' && DrivingScoreService.hasInsurerConsent(vehicle, user.id);
+      if (!(isOwner || isAdmin || isConsentedInsurer)) {
+        throw new AuthorizationError('The owner has not shared this vehicle\'s driving score with you');
+      }
+
+      let history = await DrivingScoreService.getHistory(vehicle._id.toString(), Number(req.query.limit) || 6);
+      if (history.length === 0) {
+        // Not scored by the nightly job yet
+        history = [await DrivingScoreService.computeForVehicle(vehicle._id.toString())];
+      }
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Driving score retrieved successfully',
+        data: {
+          vehicleId: vehicle._id.toString(),
+          latest: toScoreView(history[0]),
+          history: history.map(toScoreView),
+          ...((isOwner || isAdmin) && { consents: await DrivingScoreService.describeConsents(vehicle) })
+        }
+      });
+    } catch (error) {
+      logger.error('Error fetching driving score:', error);
+      sendError(res, error, 'Failed to fetch driving score');
+    }
+  }
+
+  /**
+   * Share the driving score with an insurance provider
+   * POST /api/driving-scores/:vehicleId/consents
+   */
+  static async grantConsent(req: Request, res: Response): Promise<void> {
+    try {
+      const vehicle = await loadVehicle(req.params.vehicleId);
+      requireVehicleOwner(req, vehicle);
+
+      await DrivingScoreService.grantConsent(vehicle, String((req as any).user.id), req.body?.insurerEmail);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Driving score shared with the insurer',
+        data: { consents: await DrivingScoreService.describeConsents(vehicle) }
+      });
+    } catch (error) {
+      logger.error('Error granting insurer consent:', error);
+      sendError(res, error, 'Failed to share driving score');
+    }
+  }
+
+  /**
+   * Stop sharing the driving score with an insurance provider
+   * DELETE /api/driving-scores/:vehicleId/consents/:insurerId
+   */
+  static async revokeConsent(req: Request, res: Response): Promise<void> {
+    try {
+      const vehicle = await loadVehicle(req.params.vehicleId);
+      requireVehicleOwner(req, vehicle);
+
+      await DrivingScoreService.revokeConsent(vehicle, req.params.insurerId);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Driving score is no longer shared with the insurer',
+        data: { consents: await DrivingScoreService.describeConsents(vehicle) }
+      });
+    } catch (error) {
+      logger.error('Error revoking insurer consent:', error);
+      sendError(res, error, 'Failed to revoke insurer consent');
+    }
+  }
+}
+
+export default DrivingScoreController;
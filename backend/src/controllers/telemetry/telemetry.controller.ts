@@ -1,5 +1,12 @@
 import { Request, Response } from 'express';
-import { VehicleTelemetry } from '../../models';
+import mongoose from 'mongoose';
+import { VehicleTelemetry, Vehicle, IVehicleTelemetry } from '../../models';
+import { FraudAlert } from '../../models/core/FraudAlert.model';
+import { DtcService } from '../../services/core/dtc.service';
+import { TripService } from '../../services/core/trip.service';
+import { TelemetryRollupService } from '../../services/core/telemetryRollup.service';
+import { TelemetryRetentionService } from '../../services/core/telemetryRetention.service';
+import { UsageBaselineService } from '../../services/core/usageBaseline.service';
 import { logger } from '../../utils/logger';
 
 export class TelemetryController {
@@ -11,52 +18,36 @@ export class TelemetryController {
     try {
       const { vehicleId } = req.params;
       
-      // Find all telemetry records with fraud detection
-      logger.info(`Searching for fraud records for vehicle: ${vehicleId}`);
-      
-      const fraudRecords = await VehicleTelemetry.find({
-        vehicle: vehicleId,
-        $or: [
-          { 'validation.tamperingDetected': true },
-          { 'validation.validationStatus': { $in: ['ROLLBACK_DETECTED', 'IMPOSSIBLE_DISTANCE', 'SUDDEN_JUMP'] } },
-          { 'mileageValidation.flagged': true }
-        ]
-      })
-      .sort({ 'rawData.receivedAt': -1 })
-      .limit(10);
-      
-      logger.info(`Found ${fraudRecords.length} fraud records for vehicle ${vehicleId}`);
-      
-      // Debug: Check all telemetry records for this vehicle
-      const allRecords = await VehicleTelemetry.find({ vehicle: vehicleId }).limit(5);
-      logger.info(`Total telemetry records for vehicle: ${allRecords.length}`);
-      if (allRecords.length > 0) {
-        const sample = allRecords[0];
-        logger.info(`Sample record:`, {
-          id: sample._id,
-          vehicle: sample.vehicle,
-          validationStatus: sample.validation?.validationStatus,
-          tamperingDetected: sample.validation?.tamperingDetected,
-          flagged: sample.mileageValidation?.flagged
-        });
+      if (!mongoose.isValidObjectId(vehicleId)) {
+        res.status(400).json({ success: false, message: 'Invalid vehicle id' });
+        return;
       }
 
+      // Open and closed cases; alerts dismissed as false positives are not shown
+      const records = await FraudAlert.find({ vehicleId, status: { $ne: 'false_positive' } })
+        .populate('telemetryId', 'deviceID obd.mileage mileageValidation.previousMileage validation.validationStatus')
+        .sort({ reportedAt: -1 })
+        .limit(10);
+
       // Transform to fraud alert format
-      const fraudAlerts = fraudRecords.map(record => ({
-        id: record._id.toString(),
-        type: record.validation?.validationStatus || 'FRAUD_DETECTED',
-        severity: record.validation?.validationStatus === 'ROLLBACK_DETECTED' ? 'high' : 'medium',
-        message: `🚨 ${record.validation?.validationStatus || 'FRAUD'} DETECTED: Mileage ${record.obd?.mileage} km`,
-        detectedAt: record.rawData?.receivedAt?.toISOString() || new Date().toISOString(),
-        status: 'active',
-        details: {
-          expectedValue: record.mileageValidation?.previousMileage || 0,
-          actualValue: record.obd?.mileage || 0,
-          reason: record.validation?.validationStatus || 'Fraud detected',
-          deviceID: record.deviceID,
-          validationStatus: record.validation?.validationStatus
-        }
-      }));
+      const fraudAlerts = records.map(alert => {
+        const telemetry = alert.telemetryId as unknown as IVehicleTelemetry | undefined;
+        return {
+          id: alert._id.toString(),
+          type: alert.alertType,
+          severity: alert.severity,
+          message: `🚨 ${alert.description}`,
+          detectedAt: alert.reportedAt.toISOString(),
+          status: alert.status,
+          details: {
+            expectedValue: telemetry?.mileageValidation?.previousMileage,
+            actualValue: telemetry?.obd?.mileage,
+            reason: alert.description,
+            deviceID: telemetry?.deviceID,
+            validationStatus: telemetry?.validation?.validationStatus
+          }
+        };
+      });
 
       logger.info(`Found ${fraudAlerts.length} fraud alerts for vehicle ${vehicleId}`);
 
@@ -164,11 +155,50 @@ export class TelemetryController {
   /**
    * Get telemetry history for a vehicle
    * GET /api/telemetry/history/:vehicleId
+   * GET /api/telemetry/history/:vehicleId?granularity=hour|day&from=&to= (rollup series for charts)
    */
   static async getTelemetryHistory(req: Request, res: Response): Promise<void> {
     try {
       const { vehicleId } = req.params;
-      const { limit = 50, offset = 0 } = req.query;
+      const { limit = 50, offset = 0, granularity, from, to } = req.query;
+
+      if (granularity !== undefined) {
+        if (!['hour', 'day'].includes(String(granularity))) {
+          res.status(400).json({ success: false, message: 'granularity must be hour or day' });
+          return;
+        }
+        if (!mongoose.isValidObjectId(vehicleId)) {
+          res.status(400).json({ success: false, message: 'Invalid vehicle ID' });
+          return;
+        }
+
+        const fromDate = from ? new Date(String(from)) : undefined;
+        const toDate = to ? new Date(String(to)) : undefined;
+        if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+          res.status(400).json({ success: false, message: 'from and to must be valid dates' });
+          return;
+        }
+
+        const rollups = await TelemetryRollupService.getSeries(vehicleId, granularity as 'hour' | 'day', fromDate, toDate);
+        res.json({
+          success: true,
+          granularity,
+          data: rollups.map(rollup => ({
+            bucketStart: rollup.bucketStart,
+            readings: rollup.readings,
+            flaggedReadings: rollup.flaggedReadings,
+            avgSpeed: rollup.speed?.avg ?? null,
+            maxSpeed: rollup.speed?.max ?? null,
+            avgRpm: rollup.rpm?.avg ?? null,
+            maxRpm: rollup.rpm?.max ?? null,
+            openingMileage: rollup.openingMileage,
+            closingMileage: rollup.closingMileage,
+            distanceKm: rollup.distanceKm
+          })),
+          count: rollups.length
+        });
+        return;
+      }
       
       // Find telemetry records for this vehicle
       const records = await VehicleTelemetry.find({
@@ -233,4 +263,293 @@ export class TelemetryController {
       });
     }
   }
+
+  /**
+   * Download the archived raw readings of one anchored day (gzip NDJSON)
+   * GET /api/telemetry/archive/:vehicleId/:date
+   */
+  static async getTelemetryArchive(req: Request, res: Response): Promise<void> {
+    try {
+      const { vehicleId, date } = req.params;
+
+      if (!mongoose.isValidObjectId(vehicleId)) {
+        res.status(400).json({ success: false, message: 'Invalid vehicle ID' });
+        return;
+      }
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        res.status(400).json({ success: false, message: 'date must be formatted as YYYY-MM-DD' });
+        return;
+      }
+
+      const vehicle = await Vehicle.findById(vehicleId);
+      if (!vehicle) {
+        res.status(404).json({ success: false, message: 'Vehicle not found' });
+        return;
+      }
+
+      const user = (req as any).user;
+      const isOwner = user && String(vehicle.ownerId) === String(user.id);
+      const isAdmin = (user?.role || '').toLowerCase() === 'admin';
+      if (!(isOwner || isAdmin)) {
+        res.status(403).json({ success: false, message: 'Access denied' });
+        return;
+      }
+
+      const archive = await TelemetryRetentionService.openArchive(vehicleId, date);
+      if (!archive) {
+        res.status(404).json({ success: false, message: 'No archive for this date; raw readings are still in the live store' });
+        return;
+      }
+
+      res.setHeader('Content-Type', 'application/gzip');
+      res.setHeader('Content-Disposition', `attachment; filename="telemetry-${vehicleId}-${date}.ndjson.gz"`);
+      res.setHeader('X-Archive-SHA256', archive.batch.archive!.sha256);
+      res.setHeader('X-Merkle-Root', archive.batch.merkleRoot);
+      archive.stream.on('error', (error) => {
+        logger.error('Error streaming telemetry archive:', error);
+        res.destroy(error);
+      });
+      archive.stream.pipe(res);
+
+    } catch (error) {
+      logger.error('Error fetching telemetry archive:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch telemetry archive',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Get diagnostic trouble code history for a vehicle
+   * GET /api/telemetry/dtc/:vehicleId
+   */
+  static async getDtcHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const { vehicleId } = req.params;
+      const { status, limit = 100 } = req.query;
+
+      if (!mongoose.isValidObjectId(vehicleId)) {
+        res.status(400).json({ success: false, message: 'Invalid vehicle ID' });
+        return;
+      }
+
+      if (status && !['pending', 'confirmed', 'cleared'].includes(String(status))) {
+        res.status(400).json({ success: false, message: 'status must be one of pending, confirmed, cleared' });
+        return;
+      }
+
+      const vehicle = await Vehicle.findById(vehicleId);
+      if (!vehicle) {
+        res.status(404).json({ success: false, message: 'Vehicle not found' });
+        return;
+      }
+
+      // Owners and admins always; anyone else only while the vehicle is listed
+      const user = (req as any).user;
+      const isOwner = user && String(vehicle.ownerId) === String(user.id);
+      const isAdmin = (user?.role || '').toLowerCase() === 'admin';
+      const isListed = vehicle.isForSale && vehicle.listingStatus === 'active';
+      if (!(isOwner || isAdmin || isListed)) {
+        res.status(403).json({ success: false, message: 'Access denied' });
+        return;
+      }
+
+      const { codes, summary } = await DtcService.getHistory(vehicleId, {
+        status: status as any,
+        limit: Number(limit)
+      });
+      const clearedBeforeListing = await DtcService.assessClearedBeforeListing(vehicle, vehicle.listedAt);
+
+      res.json({
+        success: true,
+        data: {
+          diagnostics: {
+            milOn: vehicle.diagnostics?.milOn ?? null,
+            activeCodes: vehicle.diagnostics?.activeCodes || 0,
+            lastScanAt: vehicle.diagnostics?.lastScanAt || null,
+            distanceSinceClearedKm: vehicle.diagnostics?.distanceSinceClearedKm ?? null,
+            lastCodesClearedAt: vehicle.diagnostics?.lastCodesClearedAt || null
+          },
+          summary,
+          clearedBeforeListing,
+          codes: codes.map(dtc => ({
+            id: dtc._id.toString(),
+            code: dtc.code,
+            description: dtc.description,
+            status: dtc.status,
+            firstSeenAt: dtc.firstSeenAt,
+            lastSeenAt: dtc.lastSeenAt,
+            confirmedAt: dtc.confirmedAt,
+            clearedAt: dtc.clearedAt,
+            clearedBy: dtc.clearedBy,
+            firstSeenMileage: dtc.firstSeenMileage,
+            clearedMileage: dtc.clearedMileage,
+            occurrences: dtc.occurrences,
+            deviceId: dtc.deviceID
+          }))
+        },
+        count: codes.length
+      });
+
+    } catch (error) {
+      logger.error('Error fetching DTC history:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch DTC history',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Get detected trips for a vehicle
+   * GET /api/telemetry/trips/:vehicleId?page=1&limit=20&from=&to=
+   */
+  static async getTrips(req: Request, res: Response): Promise<void> {
+    try {
+      const { vehicleId } = req.params;
+      const { page = 1, limit = 20, from, to } = req.query;
+
+      if (!mongoose.isValidObjectId(vehicleId)) {
+        res.status(400).json({ success: false, message: 'Invalid vehicle ID' });
+        return;
+      }
+
+      const fromDate = from ? new Date(String(from)) : undefined;
+      const toDate = to ? new Date(String(to)) : undefined;
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        res.status(400).json({ success: false, message: 'from and to must be valid dates' });
+        return;
+      }
+
+      const vehicle = await Vehicle.findById(vehicleId);
+      if (!vehicle) {
+        res.status(404).json({ success: false, message: 'Vehicle not found' });
+        return;
+      }
+
+      // Trips reveal where the vehicle goes: owners and admins only
+      const user = (req as any).user;
+      const isOwner = user && String(vehicle.ownerId) === String(user.id);
+      const isAdmin = (user?.role || '').toLowerCase() === 'admin';
+      if (!(isOwner || isAdmin)) {
+        res.status(403).json({ success: false, message: 'Access denied' });
+        return;
+      }
+
+      await TripService.refreshVehicle(vehicleId);
+
+      const pageNumber = Math.max(1, Number(page) || 1);
+      const pageLimit = Math.min(Math.max(1, Number(limit) || 20), 100);
+      const { trips, total, summary } = await TripService.listTrips(vehicleId, {
+        page: pageNumber,
+        limit: pageLimit,
+        from: fromDate,
+        to: toDate
+      });
+      const totalPages = Math.ceil(total / pageLimit);
+
+      res.json({
+        success: true,
+        data: {
+          summary: { totalTrips: total, ...summary },
+          trips: trips.map(trip => ({
+            id: trip._id.toString(),
+            status: trip.status,
+            startTime: trip.startTime,
+            endTime: trip.endTime,
+            durationSeconds: trip.durationSeconds,
+            distanceKm: trip.distanceKm,
+            distanceSource: trip.distanceSource,
+            maxSpeedKmh: trip.maxSpeedKmh,
+            avgSpeedKmh: trip.avgSpeedKmh,
+            idleSeconds: trip.idleSeconds,
+            startLocation: trip.startLocation || null,
+            endLocation: trip.endLocation || null,
+            startMileage: trip.startMileage ?? null,
+            endMileage: trip.endMileage ?? null
+          })),
+          pagination: {
+            currentPage: pageNumber,
+            totalPages,
+            total,
+            limit: pageLimit,
+            hasNextPage: pageNumber < totalPages,
+            hasPrevPage: pageNumber > 1
+          }
+        }
+      });
+
+    } catch (error) {
+      logger.error('Error fetching trips:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch trips',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Get the usage baseline of a vehicle and its latest usage anomaly alerts
+   * GET /api/telemetry/usage-baseline/:vehicleId?limit=20
+   */
+  static async getUsageBaseline(req: Request, res: Response): Promise<void> {
+    try {
+      const { vehicleId } = req.params;
+
+      if (!mongoose.isValidObjectId(vehicleId)) {
+        res.status(400).json({ success: false, message: 'Invalid vehicle ID' });
+        return;
+      }
+
+      const vehicle = await Vehicle.findById(vehicleId);
+      if (!vehicle) {
+        res.status(404).json({ success: false, message: 'Vehicle not found' });
+        return;
+      }
+
+      // Daily usage patterns are as revealing as trips: owners and admins only
+      const user = (req as any).user;
+      const isOwner = user && String(vehicle.ownerId) === String(user.id);
+      const isAdmin = (user?.role || '').toLowerCase() === 'admin';
+      if (!(isOwner || isAdmin)) {
+        res.status(403).json({ success: false, message: 'Access denied' });
+        return;
+      }
+
+      const [baseline, alerts] = await Promise.all([
+        UsageBaselineService.getBaseline(vehicleId),
+        UsageBaselineService.listAnomalyAlerts(vehicleId, Number(req.query.limit) || 20)
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          baseline: baseline ? {
+            days: baseline.days,
+            from: baseline.from ?? null,
+            to: baseline.to ?? null,
+            distanceKm: baseline.distanceKm,
+            trips: baseline.trips,
+            operatingHours: baseline.operatingHours,
+            kmPerHour: baseline.kmPerHour,
+            lastEvaluated: baseline.lastEvaluated ?? null,
+            updatedAt: baseline.updatedAt
+          } : null,
+          alerts
+        }
+      });
+
+    } catch (error) {
+      logger.error('Error fetching usage baseline:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch usage baseline',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
 }
@@ -0,0 +1,115 @@
+import { Request, Response } from 'express';
+import { TelemetryProofService } from '../../services/core/telemetryProof.service';
+import { HistoryBundleService } from '../../services/core/historyBundle.service';
+import { ApiError, HttpStatusCodes } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+
+const sendError = (res: Response, error: unknown, fallback: string): void => {
+  if (error instanceof ApiError) {
+    res.status(error.statusCode).json({
+      success: false,
+      message: error.message
+    });
+  } else {
+    res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+      success: false,
+      message: fallback
+    });
+  }
+};
+
+export class TelemetryProofController {
+  /**
+   * Inclusion proofs of every segment of an anchored day
+   * GET /api/telemetry/proof/:vehicleId/:date
+   */
+  static async getBatchProof(req: Request, res: Response): Promise<void> {
+    try {
+      const { vehicleId, date } = req.params;
+      const proof = await TelemetryProofService.getBatchProof(vehicleId, date, req.user);
+
+      res.json({
+        success: true,
+        data: proof
+      });
+    } catch (error) {
+      logger.error('Error building telemetry batch proof:', error);
+      sendError(res, error, 'Failed to build telemetry proof');
+    }
+  }
+
+  /**
+   * Inclusion proof of one segment of an anchored day
+   * GET /api/telemetry/proof/:vehicleId/:date/:segmentIndex
+   */
+  static async getSegmentProof(req: Request, res: Response): Promise<void> {
+    try {
+      const { vehicleId, date, segmentIndex } = req.params;
+      const proof = await TelemetryProofService.getBatchProof(vehicleId, date, req.user, Number(segmentIndex));
+
+      res.json({
+        success: true,
+        data: proof
+      });
+    } catch (error) {
+      logger.error('Error building telemetry segment proof:', error);
+      sendError(res, error, 'Failed to build telemetry proof');
+    }
+  }
+
+  /**
+   * Check a segment and its sibling path against the Merkle root anchored on chain (public)
+   * POST /api/telemetry/proof/verify
+   */
+  static async verifySegment(req: Request, res: Response): Promise<void> {
+    try {
+      const verification = await TelemetryProofService.verifySegment(req.body || {});
+
+      res.json({
+        success: true,
+        message: verification.verified ? 'Segment is included in the anchored batch' : 'Segment could not be verified',
+        data: verification
+      });
+    } catch (error) {
+      logger.error('Error verifying telemetry segment proof:', error);
+      sendError(res, error, 'Failed to verify telemetry proof');
+    }
+  }
+
+  /**
+   * Signed history bundle of a vehicle's anchored days, for offline verification
+   * GET /api/telemetry/bundle/:vehicleId?from=YYYY-MM-DD&to=YYYY-MM-DD
+   */
+  static async exportHistoryBundle(req: Request, res: Response): Promise<void> {
+    try {
+      const { vehicleId } = req.params;
+      const from = typeof req.query.from === 'string' ? req.query.from : undefined;
+      const to = typeof req.query.to === 'string' ? req.query.to : undefined;
+      const bundle = await HistoryBundleService.exportBundle(vehicleId, { from, to }, req.user);
+
+      res.json({
+        success: true,
+        data: bundle
+      });
+    } catch (error) {
+      logger.error('Error exporting history bundle:', error);
+      sendError(res, error, 'Failed to export history bundle');
+    }
+  }
+
+  /**
+   * Public key history bundles are signed with (public)
+   * GET /api/telemetry/bundle/signing-key
+   */
+  static async getBundleSigningKey(req: Request, res: Response): Promise<void> {
+    try {
+      res.json({
+        success: true,
+        data: HistoryBundleService.signingKey()
+      });
+    } catch (error) {
+      logger.error('Error reading history bundle signing key:', error);
+      sendError(res, error, 'Failed to read signing key');
+    }
+  }
+}
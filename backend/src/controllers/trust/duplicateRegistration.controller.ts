@@ -0,0 +1,59 @@
+import { Request, Response } from 'express';
+import { DuplicateVinService } from '../../services/core/duplicateVin.service';
+import { ApiError, HttpStatusCodes } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+
+const sendError = (res: Response, error: unknown, fallback: string): void => {
+  if (error instanceof ApiError) {
+    res.status(error.statusCode).json({
+      success: false,
+      message: error.message
+    });
+  } else {
+    res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+      success: false,
+      message: fallback
+    });
+  }
+};
+
+export class DuplicateRegistrationController {
+  /**
+   * Cloned VIN and plate scan runs, newest first
+   * GET /api/trust/duplicate-registrations
+   */
+  static async listReports(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await DuplicateVinService.listReports({
+        page: Number(req.query.page) || undefined,
+        limit: Number(req.query.limit) || undefined
+      });
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      logger.error('Error listing duplicate registration reports:', error);
+      sendError(res, error, 'Failed to list duplicate registration reports');
+    }
+  }
+
+  /**
+   * One run with its findings; `latest` for the most recent run
+   * GET /api/trust/duplicate-registrations/:reportId?kind=impossible_travel
+   */
+  static async getReport(req: Request, res: Response): Promise<void> {
+    try {
+      const report = await DuplicateVinService.getReport(req.params.reportId, req.query.kind as string | undefined);
+
+      res.json({
+        success: true,
+        data: { report }
+      });
+    } catch (error) {
+      logger.error('Error fetching duplicate registration report:', error);
+      sendError(res, error, 'Failed to fetch duplicate registration report');
+    }
+  }
+}
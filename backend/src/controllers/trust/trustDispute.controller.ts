@@ -0,0 +1,132 @@
+import { Request, Response } from 'express';
+import { TrustDisputeService, DisputeActor } from '../../services/core/trustDispute.service';
+import { ApiError, HttpStatusCodes } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+
+const actorOf = (req: Request): DisputeActor => ({ id: req.user?.id, role: req.user?.role });
+
+const sendError = (res: Response, error: unknown, fallback: string): void => {
+  if (error instanceof ApiError) {
+    res.status(error.statusCode).json({
+      success: false,
+      message: error.message
+    });
+  } else {
+    res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+      success: false,
+      message: fallback
+    });
+  }
+};
+
+export class TrustDisputeController {
+  /**
+   * Open a dispute against a trust deduction or fraud alert
+   * POST /api/trust/disputes
+   */
+  static async openDispute(req: Request, res: Response): Promise<void> {
+    try {
+      const dispute = await TrustDisputeService.open(req.body, actorOf(req));
+
+      res.status(HttpStatusCodes.CREATED).json({
+        success: true,
+        message: 'Dispute opened successfully',
+        data: { dispute }
+      });
+    } catch (error) {
+      logger.error('Error opening trust dispute:', error);
+      sendError(res, error, 'Failed to open dispute');
+    }
+  }
+
+  /**
+   * Own disputes for owners, the review queue for admins and government reviewers
+   * GET /api/trust/disputes
+   */
+  static async listDisputes(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await TrustDisputeService.list(req.query as Record<string, string>, actorOf(req));
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      logger.error('Error listing trust disputes:', error);
+      sendError(res, error, 'Failed to list disputes');
+    }
+  }
+
+  /**
+   * GET /api/trust/disputes/:disputeId
+   */
+  static async getDispute(req: Request, res: Response): Promise<void> {
+    try {
+      const dispute = await TrustDisputeService.get(req.params.disputeId, actorOf(req));
+
+      res.json({
+        success: true,
+        data: { dispute }
+      });
+    } catch (error) {
+      logger.error('Error fetching trust dispute:', error);
+      sendError(res, error, 'Failed to fetch dispute');
+    }
+  }
+
+  /**
+   * Attach supporting documents while the dispute is open
+   * POST /api/trust/disputes/:disputeId/documents
+   */
+  static async addDocuments(req: Request, res: Response): Promise<void> {
+    try {
+      const dispute = await TrustDisputeService.addDocuments(req.params.disputeId, req.body?.documents, actorOf(req));
+
+      res.json({
+        success: true,
+        message: 'Documents added successfully',
+        data: { dispute }
+      });
+    } catch (error) {
+      logger.error('Error adding dispute documents:', error);
+      sendError(res, error, 'Failed to add documents');
+    }
+  }
+
+  /**
+   * POST /api/trust/disputes/:disputeId/withdraw
+   */
+  static async withdrawDispute(req: Request, res: Response): Promise<void> {
+    try {
+      const dispute = await TrustDisputeService.withdraw(req.params.disputeId, actorOf(req));
+
+      res.json({
+        success: true,
+        message: 'Dispute withdrawn',
+        data: { dispute }
+      });
+    } catch (error) {
+      logger.error('Error withdrawing trust dispute:', error);
+      sendError(res, error, 'Failed to withdraw dispute');
+    }
+  }
+
+  /**
+   * Take under review, accept or reject (admin and government only)
+   * PATCH /api/trust/disputes/:disputeId/review
+   */
+  static async reviewDispute(req: Request, res: Response): Promise<void> {
+    try {
+      const dispute = await TrustDisputeService.review(req.params.disputeId, req.body || {}, actorOf(req));
+
+      res.json({
+        success: true,
+        message: `Dispute ${dispute.status.replace('_', ' ')}`,
+        data: { dispute }
+      });
+    } catch (error) {
+      logger.error('Error reviewing trust dispute:', error);
+      sendError(res, error, 'Failed to review dispute');
+    }
+  }
+}
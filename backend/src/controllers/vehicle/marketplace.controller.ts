@@ -1,6 +1,6 @@
 import { Request, Response } from 'express';
 import { logger } from '../../utils/logger';
-import { ApiError, ValidationError, NotFoundError } from '../../utils/errors';
+import { ApiError, ValidationError, NotFoundError, VehicleHoldError } from '../../utils/errors';
 import MarketplaceService from '../../services/core/marketplace.service';
 import { AuthenticatedRequest } from '../../types/auth.types';
 
@@ -29,7 +29,9 @@ export class MarketplaceController {
       logger.error('❌ Failed to list vehicle for sale:', error);
       res.status(error instanceof ApiError ? error.statusCode : 500).json({
         success: false,
-        message: error.message || 'Failed to list vehicle for sale'
+        message: error.message || 'Failed to list vehicle for sale',
+        // Holds blocking the sale, for the owner UI
+        ...(error instanceof VehicleHoldError && { data: error.details })
       });
     }
   }
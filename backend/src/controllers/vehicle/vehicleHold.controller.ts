@@ -0,0 +1,82 @@
+import { Request, Response } from 'express';
+import { VehicleHoldService, HoldActor } from '../../services/core/vehicleHold.service';
+import { ApiError, HttpStatusCodes } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+
+const actorOf = (req: Request): HoldActor => ({ id: req.user?.id, role: req.user?.role });
+
+const sendError = (res: Response, error: unknown, fallback: string): void => {
+  if (error instanceof ApiError) {
+    res.status(error.statusCode).json({
+      success: false,
+      message: error.message
+    });
+  } else {
+    res.status(HttpStatusCodes.INTERNAL_SERVER_ERROR).json({
+      success: false,
+      message: fallback
+    });
+  }
+};
+
+export class VehicleHoldController {
+  /**
+   * Active holds of a vehicle, or all of them with ?includeReleased=true
+   * GET /api/vehicles/:vehicleId/holds
+   */
+  static async listHolds(req: Request, res: Response): Promise<void> {
+    try {
+      const holds = await VehicleHoldService.listForVehicle(
+        req.params.vehicleId,
+        actorOf(req),
+        String(req.query.includeReleased) === 'true'
+      );
+
+      res.json({
+        success: true,
+        data: { holds }
+      });
+    } catch (error) {
+      logger.error('Error listing vehicle holds:', error);
+      sendError(res, error, 'Failed to list holds');
+    }
+  }
+
+  /**
+   * Place a stolen, court order, lien dispute or investigation hold (admin and government only)
+   * POST /api/vehicles/:vehicleId/holds
+   */
+  static async placeHold(req: Request, res: Response): Promise<void> {
+    try {
+      const hold = await VehicleHoldService.place(req.params.vehicleId, req.body || {}, actorOf(req));
+
+      res.status(HttpStatusCodes.CREATED).json({
+        success: true,
+        message: 'Hold placed successfully',
+        data: { hold }
+      });
+    } catch (error) {
+      logger.error('Error placing vehicle hold:', error);
+      sendError(res, error, 'Failed to place hold');
+    }
+  }
+
+  /**
+   * Lift a hold before its expiry (admin and government only)
+   * POST /api/vehicles/:vehicleId/holds/:holdId/release
+   */
+  static async releaseHold(req: Request, res: Response): Promise<void> {
+    try {
+      const hold = await VehicleHoldService.release(req.params.vehicleId, req.params.holdId, req.body?.note, actorOf(req));
+
+      res.json({
+        success: true,
+        message: 'Hold released',
+        data: { hold }
+      });
+    } catch (error) {
+      logger.error('Error releasing vehicle hold:', error);
+      sendError(res, error, 'Failed to release hold');
+    }
+  }
+}
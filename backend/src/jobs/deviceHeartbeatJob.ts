@@ -0,0 +1,9 @@
+import { config } from '../config/environment';
+import { DeviceHeartbeatService } from '../services/core/deviceHeartbeat.service';
+import { ScheduledJob } from './scheduledJob';
+
+/**
+ * Device Heartbeat Job - Flags installed devices that stopped reporting
+ * and raises tampering alerts when their vehicle kept moving
+ */
+export const DeviceHeartbeatJob = new ScheduledJob('Device Heartbeat', config.DEVICE_HEARTBEAT_CRON, () => DeviceHeartbeatService.checkSilentDevices());
@@ -0,0 +1,9 @@
+import { config } from '../config/environment';
+import { DrivingScoreService } from '../services/core/drivingScore.service';
+import { ScheduledJob } from './scheduledJob';
+
+/**
+ * Driving Score Job - Recomputes the rolling driving behaviour score of every vehicle
+ * that reported during the scoring period
+ */
+export const DrivingScoreJob = new ScheduledJob('Driving Score', config.DRIVING_SCORE_CRON, () => DrivingScoreService.computeAll());
@@ -0,0 +1,9 @@
+import { config } from '../config/environment';
+import { DuplicateVinService } from '../services/core/duplicateVin.service';
+import { ScheduledJob } from './scheduledJob';
+
+/**
+ * Duplicate VIN Job - Scans the fleet for cloned VINs and number plates and stores a
+ * duplicate registration report
+ */
+export const DuplicateVinJob = new ScheduledJob('Duplicate VIN', config.DUPLICATE_VIN_CRON, () => DuplicateVinService.runDetection());
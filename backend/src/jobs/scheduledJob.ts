@@ -0,0 +1,57 @@
+import { CronJob } from 'cron';
+import { logger } from '../utils/logger';
+
+/**
+ * Scheduled Job - Runs a task on a cron schedule in UTC, skipping a tick while the previous
+ * run is still in progress. A failed run is logged and the next tick runs as usual.
+ */
+export class ScheduledJob {
+  private job?: CronJob;
+  private running = false;
+
+  constructor(
+    private readonly name: string,
+    private readonly cronTime: string,
+    private readonly task: () => Promise<unknown>
+  ) {}
+
+  /**
+   * Start the schedule
+   */
+  start(): void {
+    this.job = new CronJob(this.cronTime, async () => {
+      await this.run();
+    }, null, true, 'UTC');
+
+    logger.info(`⏰ ${this.name} Job started - schedule "${this.cronTime}"`);
+  }
+
+  /**
+   * Stop the schedule
+   */
+  stop(): void {
+    if (this.job) {
+      this.job.stop();
+      logger.info(`🛑 ${this.name} Job stopped`);
+    }
+  }
+
+  /**
+   * Run the task once, unless a run is already in progress
+   */
+  async run(): Promise<void> {
+    if (this.running) {
+      logger.warn(`⏭️ ${this.name} run still in progress, skipping this tick`);
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.task();
+    } catch (error) {
+      logger.error(`❌ ${this.name} run failed:`, error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,9 @@
+import { config } from '../config/environment';
+import { TelemetryRetentionService } from '../services/core/telemetryRetention.service';
+import { ScheduledJob } from './scheduledJob';
+
+/**
+ * Telemetry Retention Job - Archives the raw readings of anchored days past the
+ * retention window and sets them to expire
+ */
+export const TelemetryRetentionJob = new ScheduledJob('Telemetry Retention', config.TELEMETRY_RETENTION_CRON, () => TelemetryRetentionService.runRetention());
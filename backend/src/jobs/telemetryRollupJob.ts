@@ -0,0 +1,9 @@
+import { config } from '../config/environment';
+import { TelemetryRollupService } from '../services/core/telemetryRollup.service';
+import { ScheduledJob } from './scheduledJob';
+
+/**
+ * Telemetry Rollup Job - Refreshes the hourly and daily rollups of vehicles that
+ * reported recently
+ */
+export const TelemetryRollupJob = new ScheduledJob('Telemetry Rollup', config.TELEMETRY_ROLLUP_CRON, () => TelemetryRollupService.rollupRecent());
@@ -0,0 +1,9 @@
+import { config } from '../config/environment';
+import { TrustRecoveryService } from '../services/core/trustRecovery.service';
+import { ScheduledJob } from './scheduledJob';
+
+/**
+ * Trust Recovery Job - Restores trust points for sustained verified driving and decays
+ * confidence when a vehicle stops sending verified data
+ */
+export const TrustRecoveryJob = new ScheduledJob('Trust Recovery', config.TRUST_RECOVERY_CRON, () => TrustRecoveryService.runAll());
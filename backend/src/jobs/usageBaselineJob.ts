@@ -0,0 +1,9 @@
+import { config } from '../config/environment';
+import { UsageBaselineService } from '../services/core/usageBaseline.service';
+import { ScheduledJob } from './scheduledJob';
+
+/**
+ * Usage Baseline Job - Checks yesterday's telemetry batch of every vehicle against its own
+ * rolling usage baseline
+ */
+export const UsageBaselineJob = new ScheduledJob('Usage Baseline', config.USAGE_BASELINE_CRON, () => UsageBaselineService.runAll());
@@ -0,0 +1,64 @@
+import { Request, Response, NextFunction } from 'express';
+import { DeviceAuthService } from '../services/core/deviceAuth.service';
+import { config } from '../config/environment';
+import { ApiError, AuthenticationError } from '../utils/errors';
+import { DEVICE_AUTH_HEADERS } from '../utils/deviceSignature';
+import { logger } from '../utils/logger';
+
+/**
+ * Device authentication middleware - validates HMAC-signed ESP32 requests
+ * and binds the request to the authenticated device
+ */
+export const authenticateDevice = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const deviceId = req.get(DEVICE_AUTH_HEADERS.deviceId);
+    const signature = req.get(DEVICE_AUTH_HEADERS.signature);
+
+    // Legacy unsigned devices are only let through when enforcement is switched off
+    if (!signature && !config.DEVICE_AUTH_ENFORCED) {
+      logger.warn(`⚠️ Unsigned device request accepted (DEVICE_AUTH_ENFORCED=false): ${req.body?.deviceID}`);
+      return next();
+    }
+
+    const rawBody = req.rawBody ?? (typeof req.body === 'string' ? req.body : JSON.stringify(req.body ?? {}));
+
+    const device = await DeviceAuthService.verifyRequest({
+      deviceId,
+      timestamp: req.get(DEVICE_AUTH_HEADERS.timestamp),
+      nonce: req.get(DEVICE_AUTH_HEADERS.nonce),
+      signature,
+      rawBody
+    });
+
+    // The payload may only speak for the device that signed it
+    const claimedIds = [req.body?.deviceID, req.body?.deviceId]
+      .filter((id): id is string => typeof id === 'string' && id.trim().length > 0)
+      .map(id => id.trim());
+
+    if (claimedIds.some(id => id !== device.deviceID)) {
+      logger.warn(`🚨 Device ${device.deviceID} attempted to post data for ${claimedIds.join(', ')}`);
+      throw new AuthenticationError('Payload deviceID does not match authenticated device');
+    }
+
+    req.device = device;
+    next();
+  } catch (error) {
+    logger.error('Device authentication failed:', error);
+
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        errorCode: error.errorCode,
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    res.status(401).json({
+      status: 'error',
+      message: 'Device authentication failed',
+      timestamp: new Date().toISOString()
+    });
+  }
+};
@@ -16,4 +16,7 @@ export {
   requirePermission,
   authenticateApiKey,
   rateLimit
-} from './auth.middleware'; 
\ No newline at end of file
+} from './auth.middleware';
+
+// Device Authentication Middleware
+export { authenticateDevice } from './deviceAuth.middleware';
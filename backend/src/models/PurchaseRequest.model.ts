@@ -15,6 +15,7 @@ export interface IPurchaseRequest extends Document {
     trustScoreCheck: boolean;
     blockchainCheck: boolean;
     storageCheck: boolean;
+    holdCheck?: boolean;
     failureReasons?: string[];
     verifiedAt?: Date;
   };
@@ -78,6 +79,7 @@ const PurchaseRequestSchema = new Schema<IPurchaseRequest>({
     trustScoreCheck: Boolean,
     blockchainCheck: Boolean,
     storageCheck: Boolean,
+    holdCheck: Boolean,
     failureReasons: [String],
     verifiedAt: Date
   },
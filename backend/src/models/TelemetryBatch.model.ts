@@ -21,6 +21,15 @@ export interface ITelemetryBatch extends Document {
   lastRecordedMileage: number;
   distanceDelta: number;
   batchData: any[];
+  archive?: {
+    path: string; // gzip NDJSON of the day's raw readings
+    sha256: string;
+    records: number;
+    bytes: number;
+    archivedAt: Date;
+    rawExpiresAt: Date;
+  };
+  consolidatedAt?: Date; // When segments and root were last built; later readings are not in them
   recordedAt: Date;
   createdAt: Date;
   updatedAt: Date;
@@ -101,6 +110,15 @@ const TelemetryBatchSchema = new Schema<ITelemetryBatch>({
   batchData: [{
     type: Schema.Types.Mixed
   }],
+  archive: {
+    path: String,
+    sha256: String,
+    records: Number,
+    bytes: Number,
+    archivedAt: Date,
+    rawExpiresAt: Date
+  },
+  consolidatedAt: Date,
   recordedAt: {
     type: Date,
     required: true,
@@ -38,7 +38,8 @@ export interface IDevice extends Document {
   
   // Device configuration
   configuration: {
-    selectedVehicle: number; // 1=Hyundai, 2=Maruti, 3=Manual, 4=Auto, 99=Discovery
+    selectedVehicle: number; // Legacy firmware only: 1=Hyundai, 2=Maruti, 3=Manual, 4=Auto, 99=Discovery
+    obdProfile?: mongoose.Types.ObjectId; // Reference to ObdProfile; resolved from the vehicle when unset
     sleepDurationMinutes: number;
     maxRetryAttempts: number;
     enableDataBuffering: boolean;
@@ -52,6 +53,10 @@ export interface IDevice extends Document {
     signalStrength?: string;
     simInfo?: string;
     ipAddress?: string;
+    transport?: 'http' | 'mqtt';
+    mqttConnected?: boolean;
+    lastConnectedAt?: Date;
+    lastDisconnectedAt?: Date;
   };
   
   // Device health and diagnostics
@@ -63,6 +68,35 @@ export interface IDevice extends Document {
     uptime?: number;
   };
   
+  // Request signing credentials (secrets are stored encrypted and never selected by default)
+  security: {
+    secretCiphertext?: string;
+    secretVersion: number;
+    secretIssuedAt?: Date;
+    previousSecretCiphertext?: string;
+    previousSecretExpiresAt?: Date;
+    lastAuthenticatedAt?: Date;
+    failedAuthCount: number;
+  };
+
+  // Heartbeat monitoring (silence / unplug detection)
+  heartbeat: {
+    state: 'online' | 'offline';
+    offlineSince?: Date;
+    lastKnownMileage?: number;
+    lastGapMinutes?: number;
+    tamperAlertedAt?: Date;
+    lastBootAnomalyAt?: Date;
+  };
+
+  // VIN binding enforcement (device moved to another vehicle)
+  vinBinding?: {
+    mismatchVin?: string;
+    mismatchSince?: Date;
+    lastMismatchAt?: Date;
+    quarantinedReadings: number;
+  };
+  
   // Timestamps
   registeredAt: Date;
   lastSeen?: Date;
@@ -185,6 +219,10 @@ const DeviceSchema = new Schema<IDevice>({
       min: 1,
       max: 99
     },
+    obdProfile: {
+      type: Schema.Types.ObjectId,
+      ref: 'ObdProfile'
+    },
     sleepDurationMinutes: {
       type: Number,
       default: 2,
@@ -212,7 +250,14 @@ const DeviceSchema = new Schema<IDevice>({
     operatorName: String,
     signalStrength: String,
     simInfo: String,
-    ipAddress: String
+    ipAddress: String,
+    transport: {
+      type: String,
+      enum: ['http', 'mqtt']
+    },
+    mqttConnected: Boolean,
+    lastConnectedAt: Date,
+    lastDisconnectedAt: Date
   },
   
   health: {
@@ -230,6 +275,51 @@ const DeviceSchema = new Schema<IDevice>({
     uptime: Number
   },
   
+  security: {
+    secretCiphertext: {
+      type: String,
+      select: false
+    },
+    secretVersion: {
+      type: Number,
+      default: 0
+    },
+    secretIssuedAt: Date,
+    previousSecretCiphertext: {
+      type: String,
+      select: false
+    },
+    previousSecretExpiresAt: Date,
+    lastAuthenticatedAt: Date,
+    failedAuthCount: {
+      type: Number,
+      default: 0
+    }
+  },
+
+  heartbeat: {
+    state: {
+      type: String,
+      enum: ['online', 'offline'],
+      default: 'online'
+    },
+    offlineSince: Date,
+    lastKnownMileage: Number,
+    lastGapMinutes: Number,
+    tamperAlertedAt: Date,
+    lastBootAnomalyAt: Date
+  },
+
+  vinBinding: {
+    mismatchVin: String,
+    mismatchSince: Date,
+    lastMismatchAt: Date,
+    quarantinedReadings: {
+      type: Number,
+      default: 0
+    }
+  },
+  
   registeredAt: {
     type: Date,
     default: Date.now
@@ -254,6 +344,7 @@ DeviceSchema.index({ status: 1 });
 DeviceSchema.index({ lastSeen: -1 });
 DeviceSchema.index({ owner: 1 });
 DeviceSchema.index({ vehicle: 1 });
+DeviceSchema.index({ 'heartbeat.state': 1, lastSeen: 1 });
 
 // Virtual for device age
 DeviceSchema.virtual('deviceAge').get(function() {
@@ -0,0 +1,90 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type DeviceCommandType = 'config_update' | 'reboot' | 'pid_rediscovery' | 'firmware_check';
+export type DeviceCommandStatus = 'pending' | 'delivered' | 'acknowledged' | 'failed' | 'expired' | 'superseded';
+
+// Command queued for a device; delivered with the next ingest response or over MQTT
+export interface IDeviceCommand extends Document {
+  commandId: string;
+  deviceID: string;
+  device: mongoose.Types.ObjectId;
+  type: DeviceCommandType;
+  payload?: Record<string, any>;
+  status: DeviceCommandStatus;
+  deliveryAttempts: number;
+  maxAttempts: number;
+  deliveredAt?: Date;
+  deliveredVia?: 'http' | 'mqtt';
+  acknowledgedAt?: Date;
+  result?: Record<string, any>;
+  error?: string;
+  expiresAt: Date;
+  issuedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DeviceCommandSchema = new Schema({
+  commandId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  deviceID: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  device: {
+    type: Schema.Types.ObjectId,
+    ref: 'Device',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: ['config_update', 'reboot', 'pid_rediscovery', 'firmware_check'],
+    required: true
+  },
+  payload: {
+    type: Schema.Types.Mixed
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'delivered', 'acknowledged', 'failed', 'expired', 'superseded'],
+    default: 'pending'
+  },
+  deliveryAttempts: {
+    type: Number,
+    default: 0
+  },
+  maxAttempts: {
+    type: Number,
+    default: 5
+  },
+  deliveredAt: Date,
+  deliveredVia: {
+    type: String,
+    enum: ['http', 'mqtt']
+  },
+  acknowledgedAt: Date,
+  result: {
+    type: Schema.Types.Mixed
+  },
+  error: String,
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  issuedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  collection: 'device_commands'
+});
+
+DeviceCommandSchema.index({ deviceID: 1, status: 1, createdAt: 1 });
+DeviceCommandSchema.index({ deviceID: 1, createdAt: -1 });
+
+export const DeviceCommand = mongoose.model<IDeviceCommand>('DeviceCommand', DeviceCommandSchema);
@@ -0,0 +1,36 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Nonces seen on signed device requests, kept until they fall out of the skew window
+export interface IDeviceNonce extends Document {
+  deviceID: string;
+  nonce: string;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+const DeviceNonceSchema = new Schema({
+  deviceID: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  nonce: {
+    type: String,
+    required: true,
+    maxlength: [128, 'Nonce cannot exceed 128 characters']
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  collection: 'device_nonces'
+});
+
+// A nonce may only be used once per device
+DeviceNonceSchema.index({ deviceID: 1, nonce: 1 }, { unique: true });
+// Let MongoDB purge nonces once they can no longer pass the timestamp check
+DeviceNonceSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const DeviceNonce = mongoose.model<IDeviceNonce>('DeviceNonce', DeviceNonceSchema);
@@ -0,0 +1,78 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import type { DrivingMetrics, DrivingRiskLevel, DrivingScoreResult } from '../../utils/drivingScore';
+
+// Driving behaviour score of a vehicle over one scoring period
+export interface IDrivingScore extends Document {
+  vehicle: mongoose.Types.ObjectId;
+  periodStart: Date;
+  periodEnd: Date;
+  score: number | null; // Null when the vehicle drove too little in the period
+  riskLevel: DrivingRiskLevel | null;
+  breakdown: DrivingScoreResult['breakdown'];
+  metrics: DrivingMetrics;
+  computedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ComponentSchema = new Schema({
+  value: Number,
+  score: Number,
+  weight: Number
+}, { _id: false });
+
+const DrivingScoreSchema = new Schema({
+  vehicle: {
+    type: Schema.Types.ObjectId,
+    ref: 'Vehicle',
+    required: true
+  },
+  periodStart: {
+    type: Date,
+    required: true
+  },
+  periodEnd: {
+    type: Date,
+    required: true
+  },
+  score: {
+    type: Number,
+    min: 0,
+    max: 100,
+    default: null
+  },
+  riskLevel: {
+    type: String,
+    enum: ['low', 'medium', 'high', null],
+    default: null
+  },
+  breakdown: {
+    harshAcceleration: ComponentSchema,
+    harshBraking: ComponentSchema,
+    overSpeeding: ComponentSchema,
+    nightDriving: ComponentSchema,
+    idling: ComponentSchema
+  },
+  metrics: {
+    readings: Number,
+    distanceKm: Number,
+    engineOnSeconds: Number,
+    movingSeconds: Number,
+    idleSeconds: Number,
+    overSpeedSeconds: Number,
+    nightSeconds: Number,
+    harshAccelerationCount: Number,
+    harshBrakingCount: Number
+  },
+  computedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: true,
+  collection: 'driving_scores'
+});
+
+DrivingScoreSchema.index({ vehicle: 1, periodEnd: -1 }, { unique: true });
+
+export const DrivingScore = mongoose.model<IDrivingScore>('DrivingScore', DrivingScoreSchema);
@@ -0,0 +1,127 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type DuplicateFindingKind = 'impossible_travel' | 'near_duplicate_vin' | 'shared_registration';
+
+export interface ITravelSighting {
+  deviceId: string;
+  vehicleId?: mongoose.Types.ObjectId;
+  latitude: number;
+  longitude: number;
+  at: Date;
+}
+
+export interface IDuplicateFinding {
+  kind: DuplicateFindingKind;
+  identifierType: 'vin' | 'vehicleNumber';
+  identifier: string; // For near duplicates, the VIN that fails the check digit
+  severity: 'medium' | 'high' | 'critical';
+  summary: string;
+  vins: string[];
+  vehicleIds: mongoose.Types.ObjectId[];
+  ownerIds: mongoose.Types.ObjectId[];
+  deviceIds: string[];
+  travel?: { // Fastest conflicting pair of sightings
+    from: ITravelSighting;
+    to: ITravelSighting;
+    distanceKm: number;
+    hours: number;
+    speedKmh: number;
+    conflicts: number;
+  };
+  fingerprint: string; // Same finding on a later run has the same fingerprint
+  fraudAlertIds: mongoose.Types.ObjectId[]; // Alerts this run raised for it
+}
+
+// One run of the fleet-wide cloned VIN and plate detection; visible to government users
+export interface IDuplicateRegistrationReport extends Document {
+  windowStart: Date;
+  windowEnd: Date;
+  settings: {
+    maxSpeedKmh: number;
+    minDistanceKm: number;
+  };
+  vehiclesScanned: number;
+  sightingsScanned: number;
+  findings: IDuplicateFinding[];
+  alertsCreated: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TravelSightingSchema = new Schema({
+  deviceId: { type: String, required: true },
+  vehicleId: { type: Schema.Types.ObjectId, ref: 'Vehicle' },
+  latitude: { type: Number, required: true },
+  longitude: { type: Number, required: true },
+  at: { type: Date, required: true }
+}, { _id: false });
+
+const DuplicateFindingSchema = new Schema({
+  kind: {
+    type: String,
+    enum: ['impossible_travel', 'near_duplicate_vin', 'shared_registration'],
+    required: true
+  },
+  identifierType: {
+    type: String,
+    enum: ['vin', 'vehicleNumber'],
+    required: true
+  },
+  identifier: { type: String, required: true },
+  severity: {
+    type: String,
+    enum: ['medium', 'high', 'critical'],
+    required: true
+  },
+  summary: { type: String, required: true },
+  vins: [String],
+  vehicleIds: [{ type: Schema.Types.ObjectId, ref: 'Vehicle' }],
+  ownerIds: [{ type: Schema.Types.ObjectId, ref: 'User' }],
+  deviceIds: [String],
+  travel: {
+    from: TravelSightingSchema,
+    to: TravelSightingSchema,
+    distanceKm: Number,
+    hours: Number,
+    speedKmh: Number,
+    conflicts: Number
+  },
+  fingerprint: { type: String, required: true },
+  fraudAlertIds: [{ type: Schema.Types.ObjectId, ref: 'FraudAlert' }]
+}, { _id: false });
+
+const DuplicateRegistrationReportSchema = new Schema({
+  windowStart: {
+    type: Date,
+    required: true
+  },
+  windowEnd: {
+    type: Date,
+    required: true
+  },
+  settings: {
+    maxSpeedKmh: Number,
+    minDistanceKm: Number
+  },
+  vehiclesScanned: {
+    type: Number,
+    default: 0
+  },
+  sightingsScanned: {
+    type: Number,
+    default: 0
+  },
+  findings: [DuplicateFindingSchema],
+  alertsCreated: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: true,
+  collection: 'duplicate_registration_reports'
+});
+
+DuplicateRegistrationReportSchema.index({ createdAt: -1 });
+DuplicateRegistrationReportSchema.index({ 'findings.vehicleIds': 1 });
+
+export const DuplicateRegistrationReport = mongoose.model<IDuplicateRegistrationReport>('DuplicateRegistrationReport', DuplicateRegistrationReportSchema);
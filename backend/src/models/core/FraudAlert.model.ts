@@ -1,9 +1,24 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+export interface IFraudAlertNote {
+  _id?: mongoose.Types.ObjectId;
+  author: mongoose.Types.ObjectId;
+  text: string;
+  createdAt: Date;
+}
+
+export interface IFraudAlertStatusChange {
+  from: IFraudAlert['status'];
+  to: IFraudAlert['status'];
+  changedBy?: mongoose.Types.ObjectId;
+  changedAt: Date;
+  note?: string;
+}
+
 export interface IFraudAlert extends Document {
   vehicleId: mongoose.Types.ObjectId;
   telemetryId?: mongoose.Types.ObjectId;
-  alertType: 'odometer_rollback' | 'title_washing' | 'duplicate_vin' | 'stolen_vehicle' | 'flood_damage' | 'other';
+  alertType: 'odometer_rollback' | 'title_washing' | 'duplicate_vin' | 'stolen_vehicle' | 'flood_damage' | 'device_tampering' | 'odometer_spoofing' | 'vin_mismatch' | 'usage_anomaly' | 'other';
   severity: 'low' | 'medium' | 'high' | 'critical';
   description: string;
   reportedBy?: mongoose.Types.ObjectId;
@@ -11,12 +26,30 @@ export interface IFraudAlert extends Document {
   status: 'active' | 'investigating' | 'resolved' | 'false_positive';
   evidence: string[];
   investigationNotes?: string;
+  decisionId?: mongoose.Types.ObjectId; // Fraud rules decision that raised the alert
+  rule?: { key: string; version: number };
+  fingerprint?: string; // Batch detectors: identifies the finding so later runs do not raise it again
+  statistics?: { // Usage anomalies: the day against the vehicle's own baseline
+    date: string;
+    metric: string;
+    value: number;
+    mean: number;
+    stdDev: number;
+    zScore: number;
+    baselineDays: number;
+  };
   resolvedAt?: Date;
   resolvedBy?: mongoose.Types.ObjectId;
+  assignedTo?: mongoose.Types.ObjectId; // Investigating admin
+  assignedAt?: Date;
+  notes: IFraudAlertNote[];
+  statusHistory: IFraudAlertStatusChange[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+const STATUSES = ['active', 'investigating', 'resolved', 'false_positive'];
+
 const FraudAlertSchema = new Schema({
   vehicleId: {
     type: Schema.Types.ObjectId,
@@ -31,7 +64,7 @@ const FraudAlertSchema = new Schema({
   },
   alertType: {
     type: String,
-    enum: ['odometer_rollback', 'title_washing', 'duplicate_vin', 'stolen_vehicle', 'flood_damage', 'other'],
+    enum: ['odometer_rollback', 'title_washing', 'duplicate_vin', 'stolen_vehicle', 'flood_damage', 'device_tampering', 'odometer_spoofing', 'vin_mismatch', 'usage_anomaly', 'other'],
     required: true
   },
   severity: {
@@ -55,7 +88,7 @@ const FraudAlertSchema = new Schema({
   },
   status: {
     type: String,
-    enum: ['active', 'investigating', 'resolved', 'false_positive'],
+    enum: STATUSES,
     default: 'active'
   },
   evidence: [{
@@ -71,13 +104,57 @@ const FraudAlertSchema = new Schema({
     type: String,
     maxlength: [2000, 'Investigation notes cannot exceed 2000 characters']
   },
+  decisionId: {
+    type: Schema.Types.ObjectId,
+    ref: 'FraudDecision'
+  },
+  rule: {
+    key: String,
+    version: Number
+  },
+  fingerprint: {
+    type: String
+  },
+  statistics: {
+    date: String,
+    metric: String,
+    value: Number,
+    mean: Number,
+    stdDev: Number,
+    zScore: Number,
+    baselineDays: Number
+  },
   resolvedAt: {
     type: Date
   },
   resolvedBy: {
     type: Schema.Types.ObjectId,
     ref: 'User'
-  }
+  },
+  assignedTo: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  assignedAt: {
+    type: Date
+  },
+  notes: [{
+    author: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    text: {
+      type: String,
+      required: true,
+      maxlength: [2000, 'Note cannot exceed 2000 characters']
+    },
+    createdAt: { type: Date, default: Date.now }
+  }],
+  statusHistory: [{
+    _id: false,
+    from: { type: String, enum: STATUSES, required: true },
+    to: { type: String, enum: STATUSES, required: true },
+    changedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    changedAt: { type: Date, default: Date.now },
+    note: String
+  }]
 }, {
   timestamps: true,
   collection: 'fraud_alerts'
@@ -87,5 +164,8 @@ const FraudAlertSchema = new Schema({
 FraudAlertSchema.index({ vehicleId: 1, status: 1 });
 FraudAlertSchema.index({ alertType: 1, severity: 1 });
 FraudAlertSchema.index({ reportedAt: -1 });
+FraudAlertSchema.index({ status: 1, severity: 1, reportedAt: -1 }); // Case queues
+FraudAlertSchema.index({ assignedTo: 1, status: 1 });
+FraudAlertSchema.index({ fingerprint: 1, vehicleId: 1 }, { sparse: true });
 
 export const FraudAlert = mongoose.model<IFraudAlert>('FraudAlert', FraudAlertSchema);
@@ -0,0 +1,78 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { FRAUD_RULE_SEVERITIES, FRAUD_RULE_SOURCES, FraudRuleMatch, FraudRuleSeverity, FraudRuleSource, MileageCheckInput } from '../../utils/fraudRules';
+
+// A fraud rules evaluation that fired at least one rule, with its input and the rule versions used
+export interface IFraudDecision extends Document {
+  vehicleId?: mongoose.Types.ObjectId;
+  source: FraudRuleSource;
+  subjectType?: 'telemetry' | 'mileage_history' | 'batch';
+  subjectId?: string;
+  input: MileageCheckInput;
+  rules: Array<{ key: string; version: number }>;
+  matches: FraudRuleMatch[];
+  blocked: boolean;
+  severity: FraudRuleSeverity;
+  trustImpact: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const FraudRuleMatchSchema = new Schema({
+  ruleKey: { type: String, required: true },
+  ruleVersion: { type: Number, required: true },
+  severity: { type: String, enum: FRAUD_RULE_SEVERITIES, required: true },
+  trustImpact: { type: Number, default: 0 },
+  blocking: { type: Boolean, default: false },
+  reason: { type: String, required: true }
+}, { _id: false });
+
+const FraudDecisionSchema = new Schema({
+  vehicleId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Vehicle',
+    index: true
+  },
+  source: {
+    type: String,
+    enum: FRAUD_RULE_SOURCES,
+    required: true
+  },
+  subjectType: {
+    type: String,
+    enum: ['telemetry', 'mileage_history', 'batch']
+  },
+  subjectId: {
+    type: String
+  },
+  input: {
+    type: Schema.Types.Mixed,
+    required: true
+  },
+  rules: [{
+    _id: false,
+    key: { type: String, required: true },
+    version: { type: Number, required: true }
+  }],
+  matches: [FraudRuleMatchSchema],
+  blocked: {
+    type: Boolean,
+    default: false
+  },
+  severity: {
+    type: String,
+    enum: FRAUD_RULE_SEVERITIES,
+    required: true
+  },
+  trustImpact: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: true,
+  collection: 'fraud_decisions'
+});
+
+FraudDecisionSchema.index({ 'matches.ruleKey': 1, 'matches.ruleVersion': 1 });
+FraudDecisionSchema.index({ subjectType: 1, subjectId: 1 });
+
+export const FraudDecision = mongoose.model<IFraudDecision>('FraudDecision', FraudDecisionSchema);
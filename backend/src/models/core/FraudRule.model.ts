@@ -0,0 +1,78 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { FRAUD_RULE_SEVERITIES, FRAUD_RULE_SOURCES, FraudRuleSeverity, FraudRuleSource } from '../../utils/fraudRules';
+
+// One version of a fraud rule's settings. Versions are never edited; a change adds a new one.
+export interface IFraudRule extends Document {
+  key: string;
+  version: number;
+  enabled: boolean;
+  severity: FraudRuleSeverity;
+  trustImpact: number;
+  blocking: boolean;
+  sources: FraudRuleSource[];
+  thresholds: Record<string, number>;
+  isActive: boolean; // The version the engine currently uses
+  notes?: string;
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const FraudRuleSchema = new Schema({
+  key: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  version: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  enabled: {
+    type: Boolean,
+    default: true
+  },
+  severity: {
+    type: String,
+    enum: FRAUD_RULE_SEVERITIES,
+    required: true
+  },
+  trustImpact: {
+    type: Number,
+    max: 0,
+    default: 0
+  },
+  blocking: {
+    type: Boolean,
+    default: false
+  },
+  sources: [{
+    type: String,
+    enum: FRAUD_RULE_SOURCES
+  }],
+  thresholds: {
+    type: Schema.Types.Mixed,
+    default: {}
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  notes: {
+    type: String,
+    maxlength: 500
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  collection: 'fraud_rules'
+});
+
+FraudRuleSchema.index({ key: 1, version: 1 }, { unique: true });
+FraudRuleSchema.index({ key: 1, isActive: 1 });
+
+export const FraudRule = mongoose.model<IFraudRule>('FraudRule', FraudRuleSchema);
@@ -0,0 +1,108 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// How to read the odometer on a make/model/year range; delivered to devices with their configuration
+export interface IObdProfile extends Document {
+  name: string;
+  make?: string; // No make: generic profile used when nothing more specific matches
+  vehicleModel?: string; // No model: any model of the make
+  yearFrom?: number;
+  yearTo?: number;
+  header?: string; // ECU request header (ATSH), e.g. "7E0"
+  odometer: {
+    command: string; // Service byte + PID/DID, e.g. "01A6" or "22F190"
+    formula: string; // Scaling over response bytes A, B, C, ...
+    unit: 'km' | 'mi';
+  };
+  legacyProfileId?: number; // selectedVehicle value for firmware that predates profiles
+  priority: number;
+  isActive: boolean;
+  notes?: string;
+  createdBy?: mongoose.Types.ObjectId;
+  updatedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ObdProfileSchema = new Schema({
+  name: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true,
+    maxlength: 100
+  },
+  make: {
+    type: String,
+    trim: true,
+    maxlength: 50
+  },
+  vehicleModel: {
+    type: String,
+    trim: true,
+    maxlength: 50
+  },
+  yearFrom: {
+    type: Number,
+    min: 1980
+  },
+  yearTo: {
+    type: Number,
+    min: 1980
+  },
+  header: {
+    type: String,
+    uppercase: true,
+    trim: true,
+    match: [/^[0-9A-F]{3}([0-9A-F]{5})?$/, 'Header must be an 11-bit (3 hex) or 29-bit (8 hex) CAN ID']
+  },
+  odometer: {
+    command: {
+      type: String,
+      required: true,
+      uppercase: true,
+      trim: true
+    },
+    formula: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    unit: {
+      type: String,
+      enum: ['km', 'mi'],
+      default: 'km'
+    }
+  },
+  legacyProfileId: {
+    type: Number,
+    min: 1,
+    max: 99
+  },
+  priority: {
+    type: Number,
+    default: 0
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  notes: {
+    type: String,
+    maxlength: 500
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  collection: 'obd_profiles'
+});
+
+ObdProfileSchema.index({ make: 1, vehicleModel: 1, isActive: 1 });
+
+export const ObdProfile = mongoose.model<IObdProfile>('ObdProfile', ObdProfileSchema);
@@ -0,0 +1,77 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import type { RollupBucket } from '../../utils/telemetryRollup';
+
+// Aggregated telemetry of a vehicle over one UTC hour or day; outlives the raw readings
+export interface ITelemetryRollup extends Document, RollupBucket {
+  vehicle: mongoose.Types.ObjectId;
+  computedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const StatSchema = new Schema({
+  avg: { type: Number, default: null },
+  max: { type: Number, default: null },
+  samples: { type: Number, default: 0 }
+}, { _id: false });
+
+const createRollupSchema = (collection: string) => {
+  const schema = new Schema({
+    vehicle: {
+      type: Schema.Types.ObjectId,
+      ref: 'Vehicle',
+      required: true
+    },
+    bucketStart: {
+      type: Date,
+      required: true
+    },
+    readings: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    flaggedReadings: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    speed: StatSchema,
+    rpm: StatSchema,
+    openingMileage: {
+      type: Number,
+      default: null
+    },
+    closingMileage: {
+      type: Number,
+      default: null
+    },
+    distanceKm: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    firstReadingAt: Date,
+    lastReadingAt: Date,
+    computedAt: {
+      type: Date,
+      default: Date.now
+    }
+  }, {
+    timestamps: true,
+    collection
+  });
+
+  schema.index({ vehicle: 1, bucketStart: 1 }, { unique: true });
+  return schema;
+};
+
+export const HourlyTelemetryRollup = mongoose.model<ITelemetryRollup>(
+  'HourlyTelemetryRollup',
+  createRollupSchema('telemetry_rollups_hourly')
+);
+
+export const DailyTelemetryRollup = mongoose.model<ITelemetryRollup>(
+  'DailyTelemetryRollup',
+  createRollupSchema('telemetry_rollups_daily')
+);
@@ -0,0 +1,118 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { TRUST_DISPUTE_STATUSES, TrustDisputeStatus } from '../../utils/trustDisputes';
+
+export interface ITrustDisputeDocument {
+  _id?: mongoose.Types.ObjectId;
+  name: string;
+  url: string;
+  documentId?: mongoose.Types.ObjectId; // VehicleDocument the link was taken from
+  addedAt: Date;
+}
+
+// An owner's appeal against a trust score deduction or the fraud alert behind it
+export interface ITrustDispute extends Document {
+  vehicleId: mongoose.Types.ObjectId;
+  raisedBy: mongoose.Types.ObjectId;
+  trustEventId?: mongoose.Types.ObjectId;
+  fraudAlertId?: mongoose.Types.ObjectId;
+  openSubjectKey?: string; // Set while open so a subject has at most one open dispute
+  reason: string;
+  documents: ITrustDisputeDocument[];
+  status: TrustDisputeStatus;
+  reviewer?: mongoose.Types.ObjectId;
+  reviewedAt?: Date;
+  decisionNote?: string;
+  annotation?: string; // Shown next to the deduction on the vehicle history report
+  compensation?: {
+    trustEventId?: mongoose.Types.ObjectId;
+    change: number;
+  };
+  history: Array<{
+    from: TrustDisputeStatus;
+    to: TrustDisputeStatus;
+    changedBy?: mongoose.Types.ObjectId;
+    changedAt: Date;
+    note?: string;
+  }>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TrustDisputeSchema = new Schema({
+  vehicleId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Vehicle',
+    required: true,
+    index: true
+  },
+  raisedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  trustEventId: {
+    type: Schema.Types.ObjectId,
+    ref: 'TrustEvent'
+  },
+  fraudAlertId: {
+    type: Schema.Types.ObjectId,
+    ref: 'FraudAlert'
+  },
+  openSubjectKey: {
+    type: String
+  },
+  reason: {
+    type: String,
+    required: true,
+    maxlength: [2000, 'Reason cannot exceed 2000 characters']
+  },
+  documents: [{
+    name: { type: String, required: true, maxlength: 200 },
+    url: { type: String, required: true },
+    documentId: { type: Schema.Types.ObjectId, ref: 'VehicleDocument' },
+    addedAt: { type: Date, default: Date.now }
+  }],
+  status: {
+    type: String,
+    enum: TRUST_DISPUTE_STATUSES,
+    default: 'open'
+  },
+  reviewer: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  reviewedAt: {
+    type: Date
+  },
+  decisionNote: {
+    type: String,
+    maxlength: [2000, 'Decision note cannot exceed 2000 characters']
+  },
+  annotation: {
+    type: String,
+    maxlength: [500, 'Annotation cannot exceed 500 characters']
+  },
+  compensation: {
+    trustEventId: { type: Schema.Types.ObjectId, ref: 'TrustEvent' },
+    change: Number
+  },
+  history: [{
+    _id: false,
+    from: { type: String, enum: TRUST_DISPUTE_STATUSES, required: true },
+    to: { type: String, enum: TRUST_DISPUTE_STATUSES, required: true },
+    changedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    changedAt: { type: Date, default: Date.now },
+    note: String
+  }]
+}, {
+  timestamps: true,
+  collection: 'trust_disputes'
+});
+
+TrustDisputeSchema.index({ openSubjectKey: 1 }, { unique: true, sparse: true });
+TrustDisputeSchema.index({ status: 1, createdAt: 1 }); // Review queue
+TrustDisputeSchema.index({ raisedBy: 1, createdAt: -1 });
+TrustDisputeSchema.index({ trustEventId: 1 });
+TrustDisputeSchema.index({ fraudAlertId: 1 });
+
+export const TrustDispute = mongoose.model<ITrustDispute>('TrustDispute', TrustDisputeSchema);
@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { TRUST_EVENT_SOURCES, TrustEventSource } from '../../utils/trustPolicy';
 
 export interface ITrustEvent extends Document {
   vehicleId: mongoose.Types.ObjectId;
@@ -16,8 +17,18 @@ export interface ITrustEvent extends Document {
     previousMileage?: number;
     deviceId?: string;
     fraudAlertId?: mongoose.Types.ObjectId;
+    disputeId?: mongoose.Types.ObjectId; // Accepted dispute this event compensates
+    disputedEventId?: mongoose.Types.ObjectId;
+    previousPolicyVersion?: number; // Recompute events: policy the score was produced by before
+    replayedEvents?: number;
+    policyRule?: 'recovery' | 'inactivity'; // Scheduled policy step
+    drivingDays?: number;
+    anchoredDays?: number;
+    windowDays?: number;
+    lastDataAt?: Date;
   };
-  source: 'telemetry' | 'admin' | 'manual' | 'fraudEngine' | 'anchor';
+  source: TrustEventSource;
+  policyVersion?: number; // Trust policy the event was scored under
   createdBy?: mongoose.Types.ObjectId;
   createdAt: Date;
 }
@@ -71,13 +82,34 @@ const TrustEventSchema = new Schema({
     fraudAlertId: {
       type: Schema.Types.ObjectId,
       ref: 'FraudAlert'
-    }
+    },
+    disputeId: {
+      type: Schema.Types.ObjectId,
+      ref: 'TrustDispute'
+    },
+    disputedEventId: {
+      type: Schema.Types.ObjectId,
+      ref: 'TrustEvent'
+    },
+    previousPolicyVersion: Number,
+    replayedEvents: Number,
+    policyRule: {
+      type: String,
+      enum: ['recovery', 'inactivity']
+    },
+    drivingDays: Number,
+    anchoredDays: Number,
+    windowDays: Number,
+    lastDataAt: Date
   },
   source: {
     type: String,
-    enum: ['telemetry', 'admin', 'manual', 'fraudEngine', 'anchor'],
+    enum: TRUST_EVENT_SOURCES,
     required: true
   },
+  policyVersion: {
+    type: Number
+  },
   createdBy: {
     type: Schema.Types.ObjectId,
     ref: 'User'
@@ -91,5 +123,8 @@ const TrustEventSchema = new Schema({
 TrustEventSchema.index({ vehicleId: 1, createdAt: -1 });
 TrustEventSchema.index({ source: 1, createdAt: -1 });
 TrustEventSchema.index({ change: 1 });
+TrustEventSchema.index({ 'details.fraudAlertId': 1 }, { sparse: true }); // Fraud case and dispute reversals
+TrustEventSchema.index({ 'details.disputedEventId': 1 }, { sparse: true });
+TrustEventSchema.index({ vehicleId: 1, 'details.policyRule': 1, createdAt: -1 }, { sparse: true }); // Last scheduled step
 
 export const TrustEvent = mongoose.model<ITrustEvent>('TrustEvent', TrustEventSchema);
@@ -0,0 +1,77 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { TrustPolicySettings } from '../../utils/trustPolicy';
+
+// One version of the trust scoring policy. Versions are never edited; a change adds a new one.
+export interface ITrustPolicy extends Document, TrustPolicySettings {
+  version: number;
+  isActive: boolean; // The version live updates use and the fleet was last recomputed with
+  activatedAt?: Date;
+  notes?: string;
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const weight = { type: Number, min: 0, max: 5, default: 1 };
+
+const TrustPolicySchema = new Schema({
+  version: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  weights: {
+    telemetry: weight,
+    admin: weight,
+    manual: weight,
+    fraudEngine: weight,
+    anchor: weight,
+    policy: weight
+  },
+  caps: {
+    maxPenalty: { type: Number, min: 0, max: 100, default: 100 },
+    maxGain: { type: Number, min: 0, max: 100, default: 100 },
+    minScore: { type: Number, min: 0, max: 100, default: 0 },
+    maxScore: { type: Number, min: 0, max: 100, default: 100 }
+  },
+  decay: {
+    penaltyHalfLifeDays: { type: Number, min: 0, default: 0 },
+    minPenaltyFactor: { type: Number, min: 0, max: 1, default: 1 }
+  },
+  recovery: {
+    windowDays: { type: Number, min: 1, default: 30 },
+    minDrivingDays: { type: Number, min: 0, default: 20 },
+    drivingPoints: { type: Number, min: 0, default: 2 },
+    minAnchoredDays: { type: Number, min: 0, default: 20 },
+    anchoredPoints: { type: Number, min: 0, default: 1 }
+  },
+  inactivity: {
+    graceDays: { type: Number, min: 1, default: 30 },
+    stepDays: { type: Number, min: 1, default: 30 },
+    pointsPerStep: { type: Number, min: 0, default: 1 },
+    floor: { type: Number, min: 0, max: 100, default: 50 }
+  },
+  isActive: {
+    type: Boolean,
+    default: false
+  },
+  activatedAt: {
+    type: Date
+  },
+  notes: {
+    type: String,
+    maxlength: 500
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  collection: 'trust_policies'
+});
+
+TrustPolicySchema.index({ version: 1 }, { unique: true });
+TrustPolicySchema.index({ isActive: 1 });
+
+export const TrustPolicy = mongoose.model<ITrustPolicy>('TrustPolicy', TrustPolicySchema);
@@ -0,0 +1,73 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { DailyUsage, MetricStats, USAGE_METRICS, UsageAnomaly } from '../../utils/usageBaseline';
+
+// Rolling usage baseline of one vehicle and the verdict on the last day it was checked against
+export interface IUsageBaseline extends Document {
+  vehicleId: mongoose.Types.ObjectId;
+  days: number;
+  from?: string;
+  to?: string;
+  distanceKm: MetricStats;
+  trips: MetricStats;
+  operatingHours: MetricStats;
+  kmPerHour: MetricStats;
+  lastEvaluated?: {
+    usage: DailyUsage;
+    anomalies: UsageAnomaly[];
+    evaluatedAt: Date;
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MetricStatsSchema = new Schema({
+  mean: { type: Number, default: 0 },
+  stdDev: { type: Number, default: 0 },
+  min: { type: Number, default: 0 },
+  max: { type: Number, default: 0 }
+}, { _id: false });
+
+const UsageBaselineSchema = new Schema({
+  vehicleId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Vehicle',
+    required: true
+  },
+  days: {
+    type: Number,
+    default: 0
+  },
+  from: String,
+  to: String,
+  distanceKm: MetricStatsSchema,
+  trips: MetricStatsSchema,
+  operatingHours: MetricStatsSchema,
+  kmPerHour: MetricStatsSchema,
+  lastEvaluated: {
+    usage: {
+      date: String,
+      distanceKm: Number,
+      trips: Number,
+      operatingHours: Number
+    },
+    anomalies: [{
+      _id: false,
+      kind: { type: String, enum: ['distance_spike', 'usage_spike', 'distance_stall'] },
+      metric: { type: String, enum: USAGE_METRICS },
+      severity: { type: String, enum: ['low', 'medium'] },
+      value: Number,
+      mean: Number,
+      stdDev: Number,
+      zScore: Number,
+      reason: String
+    }],
+    evaluatedAt: Date
+  }
+}, {
+  timestamps: true,
+  collection: 'vehicle_usage_baselines'
+});
+
+UsageBaselineSchema.index({ vehicleId: 1 }, { unique: true });
+
+export const UsageBaseline = mongoose.model<IUsageBaseline>('UsageBaseline', UsageBaselineSchema);
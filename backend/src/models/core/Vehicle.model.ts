@@ -19,9 +19,11 @@ export interface IVehicleDocument extends Document {
   mileageHistory: any[];
   verificationStatus: string;
   trustScore: number;
+  trustPolicyVersion?: number; // Trust policy the score was last produced by
   fraudAlerts: any[];
   isForSale: boolean;
   listingStatus: string;
+  listedAt?: Date; // When the current or last listing went live
   price?: number;
   description?: string;
   features: string[];
@@ -33,6 +35,35 @@ export interface IVehicleDocument extends Document {
   registrationExpiry?: Date;
   insuranceExpiry?: Date;
   lastVerifiedMileage: number; // FIXED: Required field for authoritative mileage
+  distanceValidation?: {
+    gpsDistanceKm: number; // GPS distance integrated over the current window
+    odometerDistanceKm: number; // Odometer delta over the same segments
+    segments: number;
+    windowStartedAt?: Date;
+    lastFix?: {
+      latitude: number;
+      longitude: number;
+      accuracy?: number;
+      mileage: number;
+      recordedAt: Date;
+    };
+    lastEvaluatedAt?: Date;
+    lastDivergencePct?: number;
+  };
+  diagnostics?: {
+    milOn?: boolean; // Check-engine light
+    activeCodes: number;
+    lastScanAt?: Date;
+    distanceSinceClearedKm?: number; // OBD PID 0x31 at the last scan
+    lastCodesClearedAt?: Date;
+    lastCodesClearedMileage?: number;
+  };
+  // Insurers the owner allowed to read the driving score; a grant lapses when ownership changes
+  insuranceConsents?: Array<{
+    insurer: mongoose.Types.ObjectId;
+    grantedBy: mongoose.Types.ObjectId;
+    grantedAt: Date;
+  }>;
   
   // Methods
   updateMileage(mileage: number, source: string, recordedBy: string, location?: any): Promise<void>;
@@ -159,6 +190,14 @@ const FraudAlertSchema = new Schema({
     type: String,
     maxlength: [2000, 'Investigation notes cannot exceed 2000 characters']
   },
+  decisionId: {
+    type: Schema.Types.ObjectId,
+    ref: 'FraudDecision'
+  },
+  rule: {
+    key: String,
+    version: Number
+  },
   resolvedAt: {
     type: Date
   },
@@ -407,6 +446,9 @@ const VehicleSchema = new Schema({
     default: 0,
     min: 0
   },
+  trustPolicyVersion: {
+    type: Number
+  },
   fraudAlerts: [FraudAlertSchema],
   isForSale: {
     type: Boolean,
@@ -417,6 +459,9 @@ const VehicleSchema = new Schema({
     enum: ['active', 'sold', 'pending', 'inactive', 'draft', 'expired', 'not_listed'],
     default: 'not_listed'
   },
+  listedAt: {
+    type: Date
+  },
   price: {
     type: Number,
     min: [0, 'Price cannot be negative'],
@@ -455,6 +500,35 @@ const VehicleSchema = new Schema({
     min: [0, 'Last verified mileage cannot be negative'],
     default: 0
   },
+  distanceValidation: {
+    gpsDistanceKm: { type: Number, default: 0 },
+    odometerDistanceKm: { type: Number, default: 0 },
+    segments: { type: Number, default: 0 },
+    windowStartedAt: Date,
+    lastFix: {
+      latitude: Number,
+      longitude: Number,
+      accuracy: Number,
+      mileage: Number,
+      recordedAt: Date
+    },
+    lastEvaluatedAt: Date,
+    lastDivergencePct: Number
+  },
+  diagnostics: {
+    milOn: Boolean,
+    activeCodes: { type: Number, default: 0 },
+    lastScanAt: Date,
+    distanceSinceClearedKm: Number,
+    lastCodesClearedAt: Date,
+    lastCodesClearedMileage: Number
+  },
+  insuranceConsents: [{
+    _id: false,
+    insurer: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    grantedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    grantedAt: { type: Date, default: Date.now }
+  }],
   blockchainHash: {
     type: String
   },
@@ -502,6 +576,7 @@ VehicleSchema.index({ blockchainHash: 1 });
 VehicleSchema.index({ blockchainAddress: 1 });
 VehicleSchema.index({ ownerUserId: 1 });
 VehicleSchema.index({ ownerWalletAddress: 1 });
+VehicleSchema.index({ 'insuranceConsents.insurer': 1 });
 
 // Instance Methods
 VehicleSchema.methods.updateMileage = async function(
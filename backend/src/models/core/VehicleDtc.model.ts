@@ -0,0 +1,81 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type DtcStatus = 'pending' | 'confirmed' | 'cleared';
+
+// One occurrence of a diagnostic trouble code on a vehicle, from first report until it disappears
+export interface IVehicleDtc extends Document {
+  vehicle: mongoose.Types.ObjectId;
+  deviceID: string;
+  code: string;
+  description: string;
+  status: DtcStatus;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+  confirmedAt?: Date;
+  clearedAt?: Date;
+  clearedBy?: 'reset' | 'self_healed'; // Codes wiped with a scan tool, or the ECU stopped reporting it
+  firstSeenMileage?: number;
+  lastSeenMileage?: number;
+  clearedMileage?: number;
+  occurrences: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const VehicleDtcSchema = new Schema({
+  vehicle: {
+    type: Schema.Types.ObjectId,
+    ref: 'Vehicle',
+    required: true
+  },
+  deviceID: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  code: {
+    type: String,
+    required: true,
+    uppercase: true,
+    match: [/^[PCBU][0-3][0-9A-F]{3}$/, 'Invalid DTC format']
+  },
+  description: {
+    type: String,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'confirmed', 'cleared'],
+    required: true
+  },
+  firstSeenAt: {
+    type: Date,
+    required: true
+  },
+  lastSeenAt: {
+    type: Date,
+    required: true
+  },
+  confirmedAt: Date,
+  clearedAt: Date,
+  clearedBy: {
+    type: String,
+    enum: ['reset', 'self_healed']
+  },
+  firstSeenMileage: Number,
+  lastSeenMileage: Number,
+  clearedMileage: Number,
+  occurrences: {
+    type: Number,
+    default: 1
+  }
+}, {
+  timestamps: true,
+  collection: 'vehicle_dtcs'
+});
+
+VehicleDtcSchema.index({ vehicle: 1, status: 1 });
+VehicleDtcSchema.index({ vehicle: 1, firstSeenAt: -1 });
+VehicleDtcSchema.index({ vehicle: 1, clearedAt: -1 });
+
+export const VehicleDtc = mongoose.model<IVehicleDtc>('VehicleDtc', VehicleDtcSchema);
@@ -0,0 +1,80 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { VEHICLE_HOLD_TYPES, VehicleHoldStatus, VehicleHoldType } from '../../utils/vehicleHolds';
+
+// A government or admin hold that blocks the sale and transfer of a vehicle
+export interface IVehicleHold extends Document {
+  vehicleId: mongoose.Types.ObjectId;
+  type: VehicleHoldType;
+  reason: string;
+  reference?: string;
+  status: VehicleHoldStatus;
+  expiresAt?: Date | null;
+  placedBy: mongoose.Types.ObjectId;
+  placedByRole: string;
+  releasedBy?: mongoose.Types.ObjectId;
+  releasedAt?: Date;
+  releaseNote?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const VehicleHoldSchema = new Schema({
+  vehicleId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Vehicle',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: VEHICLE_HOLD_TYPES,
+    required: true
+  },
+  reason: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 1000
+  },
+  // Police report, court case or lien number
+  reference: {
+    type: String,
+    trim: true,
+    maxlength: 100
+  },
+  status: {
+    type: String,
+    enum: ['active', 'released'],
+    default: 'active'
+  },
+  expiresAt: {
+    type: Date,
+    default: null
+  },
+  placedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  placedByRole: {
+    type: String,
+    required: true
+  },
+  releasedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  releasedAt: Date,
+  releaseNote: {
+    type: String,
+    trim: true,
+    maxlength: 1000
+  }
+}, {
+  timestamps: true,
+  collection: 'vehicle_holds'
+});
+
+VehicleHoldSchema.index({ vehicleId: 1, status: 1, expiresAt: 1 });
+VehicleHoldSchema.index({ status: 1, createdAt: -1 });
+
+export const VehicleHold = mongoose.model<IVehicleHold>('VehicleHold', VehicleHoldSchema);
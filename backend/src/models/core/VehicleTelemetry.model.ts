@@ -23,6 +23,8 @@ export interface IVehicleTelemetry extends Document {
     engineTemp?: number;
     fuelLevel?: number;
     odometerPID?: string;
+    odometerRaw?: string; // Raw PID response, when the backend decoded the mileage
+    obdProfile?: mongoose.Types.ObjectId;
     diagnosticCodes?: number;
   };
   
@@ -33,7 +35,7 @@ export interface IVehicleTelemetry extends Document {
     newMileage: number; // Calculated new mileage (should equal reportedMileage if valid)
     delta: number; // newMileage - previousMileage
     flagged: boolean; // true if rollback detected
-    validationStatus: 'VALID' | 'INVALID' | 'ROLLBACK_DETECTED' | 'SUSPICIOUS' | 'PENDING';
+    validationStatus: 'VALID' | 'INVALID' | 'ROLLBACK_DETECTED' | 'SUSPICIOUS' | 'QUARANTINED' | 'PENDING';
     reason?: string; // Why flagged
   };
   
@@ -47,6 +49,24 @@ export interface IVehicleTelemetry extends Document {
     timestamp?: Date;
   };
   
+  // Diagnostic trouble codes read with this reading (if the device scanned for them)
+  dtc?: {
+    confirmed: string[];
+    pending: string[];
+    milOn?: boolean;
+    distanceSinceClearedKm?: number;
+    warmupsSinceCleared?: number;
+  };
+
+  // Set when the reading was held back from the vehicle (e.g. VIN does not match the bound vehicle)
+  quarantine?: {
+    reason: string;
+    reportedVin?: string;
+    boundVin?: string;
+    boundVehicle?: mongoose.Types.ObjectId;
+    quarantinedAt: Date;
+  };
+
   // Device health at time of reading
   deviceHealth: {
     batteryVoltage?: number;
@@ -87,7 +107,13 @@ export interface IVehicleTelemetry extends Document {
     veepeakConnected?: boolean;
     httpAttempts?: number;
     transmissionSuccess: boolean;
+    buffered?: boolean; // Uploaded later from the device's offline buffer
+    batchId?: string; // Buffered upload this reading arrived in
+    recordedAt?: Date; // Wall-clock time the reading was taken (when known)
   };
+
+  // Set once the reading's day is anchored and archived; removed by the TTL index
+  expiresAt?: Date;
   
   // System fields
   createdAt: Date;
@@ -178,6 +204,11 @@ const VehicleTelemetrySchema = new Schema<IVehicleTelemetry>({
       max: 100
     },
     odometerPID: String,
+    odometerRaw: String,
+    obdProfile: {
+      type: Schema.Types.ObjectId,
+      ref: 'ObdProfile'
+    },
     diagnosticCodes: Number
   },
   
@@ -209,7 +240,7 @@ const VehicleTelemetrySchema = new Schema<IVehicleTelemetry>({
     },
     validationStatus: {
       type: String,
-      enum: ['VALID', 'INVALID', 'ROLLBACK_DETECTED', 'SUSPICIOUS', 'PENDING'],
+      enum: ['VALID', 'INVALID', 'ROLLBACK_DETECTED', 'SUSPICIOUS', 'QUARANTINED', 'PENDING'],
       default: 'PENDING',
       // Indexed via schema.index below
     },
@@ -240,6 +271,25 @@ const VehicleTelemetrySchema = new Schema<IVehicleTelemetry>({
     timestamp: Date
   },
   
+  dtc: {
+    confirmed: [String],
+    pending: [String],
+    milOn: Boolean,
+    distanceSinceClearedKm: Number,
+    warmupsSinceCleared: Number
+  },
+  
+  quarantine: {
+    reason: String,
+    reportedVin: String,
+    boundVin: String,
+    boundVehicle: {
+      type: Schema.Types.ObjectId,
+      ref: 'Vehicle'
+    },
+    quarantinedAt: Date
+  },
+  
   deviceHealth: {
     batteryVoltage: {
       type: Number,
@@ -300,8 +350,16 @@ const VehicleTelemetrySchema = new Schema<IVehicleTelemetry>({
     transmissionSuccess: {
       type: Boolean,
       default: true
-    }
-  }
+    },
+    buffered: {
+      type: Boolean,
+      default: false
+    },
+    batchId: String,
+    recordedAt: Date
+  },
+
+  expiresAt: Date
 }, {
   timestamps: true,
   toJSON: { virtuals: true },
@@ -311,7 +369,13 @@ const VehicleTelemetrySchema = new Schema<IVehicleTelemetry>({
 // Indexes for efficient queries
 VehicleTelemetrySchema.index({ deviceID: 1, 'rawData.receivedAt': -1 });
 VehicleTelemetrySchema.index({ vin: 1, 'rawData.receivedAt': -1 });
+VehicleTelemetrySchema.index({ vehicle: 1, 'rawData.receivedAt': 1 });
 VehicleTelemetrySchema.index({ 'mileageValidation.flagged': 1 });
 VehicleTelemetrySchema.index({ 'mileageValidation.validationStatus': 1 });
+VehicleTelemetrySchema.index({ deviceID: 1, 'rawData.timestamp': 1 });
+VehicleTelemetrySchema.index({ 'quarantine.boundVehicle': 1 }, { sparse: true });
+VehicleTelemetrySchema.index({ vehicle: 1, 'rawData.recordedAt': 1 });
+// Only readings given an expiresAt by the retention job are ever removed
+VehicleTelemetrySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
 
 export const VehicleTelemetry = mongoose.model<IVehicleTelemetry>('VehicleTelemetry', VehicleTelemetrySchema);
\ No newline at end of file
@@ -0,0 +1,98 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type TripStatus = 'in_progress' | 'completed';
+
+interface ITripLocation {
+  latitude: number;
+  longitude: number;
+}
+
+// A trip detected from telemetry (ignition on to ignition off)
+export interface IVehicleTrip extends Document {
+  vehicle: mongoose.Types.ObjectId;
+  deviceID?: string;
+  status: TripStatus;
+  startTime: Date;
+  endTime: Date;
+  durationSeconds: number;
+  distanceKm: number;
+  distanceSource: 'odometer' | 'gps' | 'none';
+  maxSpeedKmh: number;
+  avgSpeedKmh: number;
+  idleSeconds: number;
+  startLocation?: ITripLocation;
+  endLocation?: ITripLocation;
+  startMileage?: number;
+  endMileage?: number;
+  readings: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TripLocationSchema = new Schema({
+  latitude: Number,
+  longitude: Number
+}, { _id: false });
+
+const VehicleTripSchema = new Schema({
+  vehicle: {
+    type: Schema.Types.ObjectId,
+    ref: 'Vehicle',
+    required: true
+  },
+  deviceID: String,
+  status: {
+    type: String,
+    enum: ['in_progress', 'completed'],
+    required: true
+  },
+  startTime: {
+    type: Date,
+    required: true
+  },
+  endTime: {
+    type: Date,
+    required: true
+  },
+  durationSeconds: {
+    type: Number,
+    default: 0
+  },
+  distanceKm: {
+    type: Number,
+    default: 0
+  },
+  distanceSource: {
+    type: String,
+    enum: ['odometer', 'gps', 'none'],
+    default: 'none'
+  },
+  maxSpeedKmh: {
+    type: Number,
+    default: 0
+  },
+  avgSpeedKmh: {
+    type: Number,
+    default: 0
+  },
+  idleSeconds: {
+    type: Number,
+    default: 0
+  },
+  startLocation: TripLocationSchema,
+  endLocation: TripLocationSchema,
+  startMileage: Number,
+  endMileage: Number,
+  readings: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: true,
+  collection: 'vehicle_trips'
+});
+
+VehicleTripSchema.index({ vehicle: 1, startTime: -1 }, { unique: true });
+VehicleTripSchema.index({ vehicle: 1, status: 1, endTime: -1 });
+
+export const VehicleTrip = mongoose.model<IVehicleTrip>('VehicleTrip', VehicleTripSchema);
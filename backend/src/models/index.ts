@@ -6,12 +6,25 @@ export { Notification } from './core/Notification.model';
 export { Device } from './core/Device.model';
 export { VehicleTelemetry } from './core/VehicleTelemetry.model';
 export { TestResult } from './core/TestResult.model';
+export { DeviceCommand } from './core/DeviceCommand.model';
+export { VehicleDtc } from './core/VehicleDtc.model';
+export { ObdProfile } from './core/ObdProfile.model';
+export { VehicleTrip } from './core/VehicleTrip.model';
+export { DrivingScore } from './core/DrivingScore.model';
+export { HourlyTelemetryRollup, DailyTelemetryRollup } from './core/TelemetryRollup.model';
 
 // Phase 2 Models - Vehicle Management System (Re-enabled for full implementation)
 export { default as Vehicle } from './core/Vehicle.model';
 export { default as MileageHistory } from './core/MileageHistory.model';
 export { default as VehicleDocument } from './core/VehicleDocument.model';
 export { TrustEvent } from './core/TrustEvent.model';
+export { FraudRule } from './core/FraudRule.model';
+export { FraudDecision } from './core/FraudDecision.model';
+export { TrustDispute } from './core/TrustDispute.model';
+export { TrustPolicy } from './core/TrustPolicy.model';
+export { DuplicateRegistrationReport } from './core/DuplicateRegistrationReport.model';
+export { UsageBaseline } from './core/UsageBaseline.model';
+export { VehicleHold } from './core/VehicleHold.model';
 
 // New Models - Batch Processing and Service Providers (temporarily disabled)
 // export { default as BatchData } from './core/BatchData.model';
@@ -26,11 +39,24 @@ export type { INotification } from './core/Notification.model';
 export type { IDevice } from './core/Device.model';
 export type { IVehicleTelemetry } from './core/VehicleTelemetry.model';
 export type { ITestResult } from './core/TestResult.model';
+export type { IDeviceCommand } from './core/DeviceCommand.model';
+export type { IVehicleDtc } from './core/VehicleDtc.model';
+export type { IObdProfile } from './core/ObdProfile.model';
+export type { IVehicleTrip } from './core/VehicleTrip.model';
+export type { IDrivingScore } from './core/DrivingScore.model';
+export type { ITelemetryRollup } from './core/TelemetryRollup.model';
 // Phase 2 interfaces re-enabled
 export type { IVehicleDocument } from './core/Vehicle.model';
 export type { IMileageHistoryDocument } from './core/MileageHistory.model';
 export type { IVehicleDocumentDocument } from './core/VehicleDocument.model';
 export type { ITrustEvent } from './core/TrustEvent.model';
+export type { IFraudRule } from './core/FraudRule.model';
+export type { IFraudDecision } from './core/FraudDecision.model';
+export type { ITrustDispute } from './core/TrustDispute.model';
+export type { ITrustPolicy } from './core/TrustPolicy.model';
+export type { IDuplicateRegistrationReport } from './core/DuplicateRegistrationReport.model';
+export type { IUsageBaseline } from './core/UsageBaseline.model';
+export type { IVehicleHold } from './core/VehicleHold.model';
 
 // New interfaces (temporarily disabled)
 // export type { IBatchData } from './core/BatchData.model';
@@ -1,6 +1,9 @@
 import { Router } from 'express';
 import { AdminController } from '../../controllers/admin/admin.controller';
 import { AdminNotificationController } from '../../controllers/admin/adminNotificationController';
+import { FraudRulesController } from '../../controllers/admin/fraudRules.controller';
+import { FraudCaseController } from '../../controllers/admin/fraudCase.controller';
+import { TrustPolicyController } from '../../controllers/admin/trustPolicy.controller';
 import { authenticate, requireAdmin, rateLimit } from '../../middleware/auth.middleware';
 
 const router = Router();
@@ -141,4 +144,117 @@ router.post('/notifications/read-all', adminRateLimit, AdminNotificationControll
  */
 router.get('/activity', adminRateLimit, AdminNotificationController.getActivity);
 
+/**
+ * @route   GET /api/admin/fraud-rules
+ * @desc    List fraud rules with their active version
+ * @access  Private (Admin only)
+ */
+router.get('/fraud-rules', adminRateLimit, FraudRulesController.listRules);
+
+/**
+ * @route   GET /api/admin/fraud-rules/:key/versions
+ * @desc    Version history of a fraud rule
+ * @access  Private (Admin only)
+ */
+router.get('/fraud-rules/:key/versions', adminRateLimit, FraudRulesController.getRuleVersions);
+
+/**
+ * @route   PUT /api/admin/fraud-rules/:key
+ * @desc    Change a fraud rule (creates a new version)
+ * @access  Private (Admin only)
+ * @body    { enabled?, severity?, trustImpact?, blocking?, sources?, thresholds?, notes? }
+ */
+router.put('/fraud-rules/:key', strictAdminRateLimit, FraudRulesController.updateRule);
+
+/**
+ * @route   GET /api/admin/fraud-decisions/:decisionId
+ * @desc    Explain and replay a fraud decision
+ * @access  Private (Admin only)
+ */
+router.get('/fraud-decisions/:decisionId', adminRateLimit, FraudRulesController.explainDecision);
+
+/**
+ * @route   GET /api/admin/trust-policies
+ * @desc    Trust scoring policy versions
+ * @access  Private (Admin only)
+ */
+router.get('/trust-policies', adminRateLimit, TrustPolicyController.listPolicies);
+
+/**
+ * @route   POST /api/admin/trust-policies
+ * @desc    Save a new trust policy version (takes effect when applied)
+ * @access  Private (Admin only)
+ * @body    { weights?, caps?, decay?, notes? }
+ */
+router.post('/trust-policies', strictAdminRateLimit, TrustPolicyController.createPolicy);
+
+/**
+ * @route   GET /api/admin/trust-policies/:version
+ * @desc    One trust policy version
+ * @access  Private (Admin only)
+ */
+router.get('/trust-policies/:version', adminRateLimit, TrustPolicyController.getPolicy);
+
+/**
+ * @route   GET /api/admin/trust-policies/:version/preview
+ * @desc    Scores the fleet would get if its trust events were replayed under this version
+ * @access  Private (Admin only)
+ * @query   vehicleIds (comma separated), limit
+ */
+router.get('/trust-policies/:version/preview', adminRateLimit, TrustPolicyController.previewPolicy);
+
+/**
+ * @route   POST /api/admin/trust-policies/:version/apply
+ * @desc    Activate this version and rescore the fleet, recording a recompute event per changed vehicle
+ * @access  Private (Admin only)
+ */
+router.post('/trust-policies/:version/apply', strictAdminRateLimit, TrustPolicyController.applyPolicy);
+
+/**
+ * @route   GET /api/admin/fraud-alerts
+ * @desc    Fraud alert queue (open cases by default, most severe first)
+ * @access  Private (Admin only)
+ * @query   status, severity, alertType, assignedTo (me|unassigned|userId), vehicleId, sort (severity|newest|oldest), page, limit
+ */
+router.get('/fraud-alerts', adminRateLimit, FraudCaseController.listAlerts);
+
+/**
+ * @route   GET /api/admin/fraud-alerts/:alertId
+ * @desc    Fraud alert case with notes, history and trust events
+ * @access  Private (Admin only)
+ */
+router.get('/fraud-alerts/:alertId', adminRateLimit, FraudCaseController.getAlert);
+
+/**
+ * @route   PATCH /api/admin/fraud-alerts/:alertId/assign
+ * @desc    Assign a fraud alert to an investigating admin
+ * @access  Private (Admin only)
+ * @body    { assigneeId: string | null }
+ */
+router.patch('/fraud-alerts/:alertId/assign', adminRateLimit, FraudCaseController.assignAlert);
+
+/**
+ * @route   POST /api/admin/fraud-alerts/:alertId/notes
+ * @desc    Add an investigation note
+ * @access  Private (Admin only)
+ * @body    { text }
+ */
+router.post('/fraud-alerts/:alertId/notes', adminRateLimit, FraudCaseController.addNote);
+
+/**
+ * @route   POST /api/admin/fraud-alerts/:alertId/evidence
+ * @desc    Attach evidence URLs
+ * @access  Private (Admin only)
+ * @body    { urls: string[] } or { url }
+ */
+router.post('/fraud-alerts/:alertId/evidence', adminRateLimit, FraudCaseController.addEvidence);
+
+/**
+ * @route   PATCH /api/admin/fraud-alerts/:alertId/status
+ * @desc    Change case status (false_positive reverses the trust score impact)
+ * @access  Private (Admin only)
+ * @body    { status, note? } - note required for resolved and false_positive
+ */
+router.patch('/fraud-alerts/:alertId/status', strictAdminRateLimit, FraudCaseController.changeStatus);
+
 export default router; 
\ No newline at end of file
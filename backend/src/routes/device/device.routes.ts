@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { DeviceController } from '../../controllers/device/device.controller';
 import { authenticate, authorize } from '../../middleware/auth.middleware';
+import { authenticateDevice } from '../../middleware/deviceAuth.middleware';
 import { Request, Response, NextFunction } from 'express';
 
 const router = Router();
@@ -51,7 +52,10 @@ const esp32Middleware = (req: Request, res: Response, next: NextFunction) => {
 };
 
 // POST /api/device/status - Receive ESP32 device status and vehicle data
-router.post('/status', esp32Middleware, DeviceController.receiveDeviceStatus);
+router.post('/status', esp32Middleware, authenticateDevice, DeviceController.receiveDeviceStatus);
+
+// POST /api/device/status/batch - Upload readings buffered while the device was offline
+router.post('/status/batch', esp32Middleware, authenticateDevice, DeviceController.receiveBufferedReadings);
 
 // Simple test endpoint for ESP32 debugging
 router.post('/test', (req: Request, res: Response) => {
@@ -125,4 +129,19 @@ router.get('/list', authenticate, authorize('admin'), DeviceController.listDevic
 // POST /api/device/register - Register new device (authenticated)
 router.post('/register', authenticate, authorize('admin', 'service'), DeviceController.registerDevice);
 
+// POST /api/device/:deviceId/secret/rotate - Issue a new signing secret (admin only)
+router.post('/:deviceId/secret/rotate', authenticate, authorize('admin'), DeviceController.rotateDeviceSecret);
+
+// PUT /api/device/:deviceId/config - Update configuration and queue it for the device (admin only)
+router.put('/:deviceId/config', authenticate, authorize('admin'), DeviceController.updateDeviceConfiguration);
+
+// GET /api/device/:deviceId/commands - Pending, delivered and failed commands (admin only)
+router.get('/:deviceId/commands', authenticate, authorize('admin'), DeviceController.listDeviceCommands);
+
+// POST /api/device/:deviceId/commands - Queue reboot, PID rediscovery or firmware check (admin only)
+router.post('/:deviceId/commands', authenticate, authorize('admin'), DeviceController.queueDeviceCommand);
+
+// POST /api/device/:deviceId/obd-profile - Pin or re-resolve the odometer PID profile (admin only)
+router.post('/:deviceId/obd-profile', authenticate, authorize('admin'), DeviceController.assignObdProfile);
+
 export default router;
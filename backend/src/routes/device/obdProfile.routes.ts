@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { ObdProfileController } from '../../controllers/device/obdProfile.controller';
+import { authenticate, authorize } from '../../middleware/auth.middleware';
+
+const router = Router();
+
+/**
+ * OBD PID profile registry (make/model/year -> odometer PID and scaling)
+ */
+
+// GET /api/obd-profiles - List profiles (admin and service providers)
+router.get('/', authenticate, authorize('admin', 'service'), ObdProfileController.listProfiles);
+
+// GET /api/obd-profiles/resolve - Profile a make/model/year resolves to
+router.get('/resolve', authenticate, authorize('admin', 'service'), ObdProfileController.resolveProfile);
+
+// POST /api/obd-profiles - Create a profile (admin only)
+router.post('/', authenticate, authorize('admin'), ObdProfileController.createProfile);
+
+// PUT /api/obd-profiles/:profileId - Update or retire a profile (admin only)
+router.put('/:profileId', authenticate, authorize('admin'), ObdProfileController.updateProfile);
+
+// POST /api/obd-profiles/:profileId/decode - Try a profile against a sample raw response (admin only)
+router.post('/:profileId/decode', authenticate, authorize('admin'), ObdProfileController.testDecode);
+
+export default router;
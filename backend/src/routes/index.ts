@@ -3,6 +3,7 @@ import authRoutes from './auth/auth.routes';
 import adminRoutes from './admin/admin.routes';
 import userRoutes from './user/user.routes';
 import deviceRoutes from './device/device.routes';
+import obdProfileRoutes from './device/obdProfile.routes';
 import blockchainRoutes from './blockchain/blockchain.routes';
 // Phase 2 routes - Vehicle Management
 import vehicleRoutes from './vehicle/vehicle.routes';
@@ -12,6 +13,7 @@ import installsRoutes from './installs.routes';
 import installationRequestRoutes from './installationRequest.routes';
 import serviceInstallsRoutes from './serviceInstalls.routes';
 import telemetryRoutes from './telemetry/telemetry.routes';
+import drivingScoreRoutes from './telemetry/drivingScore.routes';
 import trustRoutes from './trust/trust.routes';
 // New routes - Service Providers, Batch Processing, Marketplace, Purchase
 import marketplaceRoutes from './marketplace/marketplace.routes';
@@ -28,6 +30,7 @@ router.use('/auth', authRoutes);
 router.use('/admin', adminRoutes);
 router.use('/users', userRoutes);
 router.use('/device', deviceRoutes);
+router.use('/obd-profiles', obdProfileRoutes);
 
 // Mount Phase 5 routes (Blockchain)
 router.use('/blockchain', blockchainRoutes);
@@ -47,6 +50,7 @@ router.use('/service', serviceInstallsRoutes);
 
 // Mount telemetry routes
 router.use('/telemetry', telemetryRoutes);
+router.use('/driving-scores', drivingScoreRoutes);
 
 // Mount trust routes
 router.use('/trust', trustRoutes);
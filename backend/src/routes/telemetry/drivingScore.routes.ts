@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { DrivingScoreController } from '../../controllers/telemetry/drivingScore.controller';
+import { authenticate, authorize } from '../../middleware/auth.middleware';
+
+const router = Router();
+
+/**
+ * Driving behaviour scores for usage-based insurance
+ */
+
+// GET /api/driving-scores - Vehicles whose owners share their score with the calling insurer
+router.get('/', authenticate, authorize('insurance'), DrivingScoreController.listConsentedVehicles);
+
+// GET /api/driving-scores/:vehicleId - Latest score and history (owner, admin or consented insurer)
+router.get('/:vehicleId', authenticate, DrivingScoreController.getVehicleScore);
+
+// POST /api/driving-scores/:vehicleId/consents - Share the score with an insurer (owner only)
+router.post('/:vehicleId/consents', authenticate, DrivingScoreController.grantConsent);
+
+// DELETE /api/driving-scores/:vehicleId/consents/:insurerId - Stop sharing (owner only)
+router.delete('/:vehicleId/consents/:insurerId', authenticate, DrivingScoreController.revokeConsent);
+
+export default router;
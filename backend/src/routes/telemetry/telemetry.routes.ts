@@ -1,7 +1,8 @@
 import { Router } from 'express';
 import { TelemetryController } from '../../controllers/telemetry/telemetry.controller';
 import { TelemetryEventController } from '../../controllers/telemetry/telemetryEvent.controller';
-import { authenticate } from '../../middleware/auth.middleware';
+import { TelemetryProofController } from '../../controllers/telemetry/telemetryProof.controller';
+import { authenticate, optionalAuth } from '../../middleware/auth.middleware';
 
 const router = Router();
 
@@ -11,9 +12,32 @@ router.get('/fraud-alerts/:vehicleId', TelemetryController.getFraudAlerts);
 // Get latest OBD data for a vehicle (temporarily without auth for testing)
 router.get('/latest-obd/:vehicleId', TelemetryController.getLatestOBDData);
 
-// Get telemetry history for a vehicle (temporarily without auth for testing)
+// Get telemetry history for a vehicle, or its hourly/daily rollups (temporarily without auth for testing)
 router.get('/history/:vehicleId', TelemetryController.getTelemetryHistory);
 
+// Download the archived raw readings of an anchored day (owner/admin)
+router.get('/archive/:vehicleId/:date', authenticate, TelemetryController.getTelemetryArchive);
+
+// Get diagnostic trouble code history for a vehicle (owner/admin, or anyone while listed)
+router.get('/dtc/:vehicleId', optionalAuth, TelemetryController.getDtcHistory);
+
+// Get detected trips for a vehicle (owner/admin)
+router.get('/trips/:vehicleId', authenticate, TelemetryController.getTrips);
+
+// Get the usage baseline and usage anomaly alerts of a vehicle (owner/admin)
+router.get('/usage-baseline/:vehicleId', authenticate, TelemetryController.getUsageBaseline);
+
+// Merkle inclusion proofs of an anchored day's segments (owner/admin, or anyone while listed)
+router.get('/proof/:vehicleId/:date', optionalAuth, TelemetryProofController.getBatchProof);
+router.get('/proof/:vehicleId/:date/:segmentIndex', optionalAuth, TelemetryProofController.getSegmentProof);
+
+// Verify a segment proof against the root anchored on chain (public)
+router.post('/proof/verify', TelemetryProofController.verifySegment);
+
+// Signed history bundles for the offline verifier; the signing key is public so auditors can pin it
+router.get('/bundle/signing-key', TelemetryProofController.getBundleSigningKey);
+router.get('/bundle/:vehicleId', optionalAuth, TelemetryProofController.exportHistoryBundle);
+
 // Process telemetry events that affect TrustScore
 router.post('/event', authenticate, TelemetryEventController.processEvent);
 
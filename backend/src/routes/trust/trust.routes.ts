@@ -1,12 +1,26 @@
 import { Router } from 'express';
 import { TrustController } from '../../controllers/trust/trust.controller';
-import { authenticate } from '../../middleware/auth.middleware';
+import { TrustDisputeController } from '../../controllers/trust/trustDispute.controller';
+import { DuplicateRegistrationController } from '../../controllers/trust/duplicateRegistration.controller';
+import { authenticate, authorize } from '../../middleware/auth.middleware';
 
 const router = Router();
 
 // Get user trust score
 router.get('/user-score/:userId', authenticate, TrustController.getUserTrustScore);
 
+// Owner disputes against trust deductions and fraud alerts
+router.post('/disputes', authenticate, TrustDisputeController.openDispute);
+router.get('/disputes', authenticate, TrustDisputeController.listDisputes);
+router.get('/disputes/:disputeId', authenticate, TrustDisputeController.getDispute);
+router.post('/disputes/:disputeId/documents', authenticate, TrustDisputeController.addDocuments);
+router.post('/disputes/:disputeId/withdraw', authenticate, TrustDisputeController.withdrawDispute);
+router.patch('/disputes/:disputeId/review', authenticate, authorize('admin', 'government'), TrustDisputeController.reviewDispute);
+
+// Cloned VIN and number plate scan reports
+router.get('/duplicate-registrations', authenticate, authorize('admin', 'government'), DuplicateRegistrationController.listReports);
+router.get('/duplicate-registrations/:reportId', authenticate, authorize('admin', 'government'), DuplicateRegistrationController.getReport);
+
 // Get trust history for a vehicle
 router.get('/:vehicleId/history', authenticate, TrustController.getTrustHistory);
 
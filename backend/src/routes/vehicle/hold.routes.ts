@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { authenticate, authorize } from '../../middleware/auth.middleware';
+import { VehicleHoldController } from '../../controllers/vehicle/vehicleHold.controller';
+
+const router = Router();
+
+/**
+ * Vehicle Hold Routes
+ * Stolen, court order, lien dispute and investigation holds that block sale and transfer
+ */
+
+// Holds of a vehicle (owner, admin, government)
+router.get('/:vehicleId/holds', authenticate, VehicleHoldController.listHolds);
+
+// Place a hold (admin, government)
+router.post('/:vehicleId/holds', authenticate, authorize('admin', 'government'), VehicleHoldController.placeHold);
+
+// Release a hold (admin, government)
+router.post('/:vehicleId/holds/:holdId/release', authenticate, authorize('admin', 'government'), VehicleHoldController.releaseHold);
+
+export default router;
@@ -6,6 +6,9 @@ import { TelemetryBatch } from '../../models/TelemetryBatch.model';
 import { InstallationRequest } from '../../models/InstallationRequest.model';
 import { Device } from '../../models/core/Device.model';
 import { TrustEvent } from '../../models/core/TrustEvent.model';
+import { DtcService } from '../../services/core/dtc.service';
+import { TrustDisputeService } from '../../services/core/trustDispute.service';
+import { VehicleHoldService, summarizeHold } from '../../services/core/vehicleHold.service';
 import { logger } from '../../utils/logger';
 
 const router = Router();
@@ -64,24 +67,37 @@ router.get('/:vehicleId/report', optionalAuth, async (req: any, res: any) => {
     // Get rollback/fraud events from TrustEvents
     const rollbackEvents = await TrustEvent.find({
       vehicleId,
-      reason: { $regex: /rollback|fraud/i }
+      reason: { $regex: /rollback|fraud/i },
+      'details.disputeId': { $exists: false } // Compensations show up as annotations instead
     })
     .sort({ createdAt: -1 })
     .limit(10)
     .lean();
 
+    // Owner disputes against those events; accepted ones carry the reviewer's annotation
+    const [disputes, annotations] = await Promise.all([
+      TrustDisputeService.getReportDisputes(vehicleId),
+      TrustDisputeService.getReportAnnotations(vehicleId)
+    ]);
+    const disputeFor = (event: any) => disputes.find(dispute =>
+      (dispute.trustEventId && String(dispute.trustEventId) === String(event._id)) ||
+      (dispute.fraudAlertId && String(dispute.fraudAlertId) === String(event.details?.fraudAlertId))
+    );
+
     // Get TrustScore history (last 3 events)
     const trustEvents = await TrustEvent.find({ vehicleId })
       .sort({ createdAt: -1 })
       .limit(3)
       .lean();
 
-    // Get marketplace listing status
+    // Get marketplace listing status, with the holds that keep the vehicle off the marketplace
+    const activeHolds = await VehicleHoldService.activeHolds(String(vehicle._id));
     const marketplaceStatus = {
       isListed: vehicle.isForSale && vehicle.listingStatus === 'active',
       price: vehicle.price || null,
-      listedAt: (vehicle as any).updatedAt || null,
-      listingId: vehicle._id
+      listedAt: vehicle.listedAt || (vehicle as any).updatedAt || null,
+      listingId: vehicle._id,
+      holds: activeHolds.map(summarizeHold)
     };
 
     // Compute helper values
@@ -117,6 +133,10 @@ router.get('/:vehicleId/report', optionalAuth, async (req: any, res: any) => {
       }
     }
 
+    // Diagnostic trouble codes and the "cleared before listing" signal
+    const { codes: dtcCodes } = await DtcService.getHistory(vehicleId, { limit: 50 });
+    const codesClearedBeforeListing = await DtcService.assessClearedBeforeListing(vehicle, vehicle.listedAt);
+
     // Explorer links
     const solanaExplorer = vehicle.blockchainHash ? `https://explorer.solana.com/tx/${vehicle.blockchainHash}?cluster=devnet` : null;
     const arweaveExplorer = vehicle.blockchainAddress ? `https://arweave.net/${vehicle.blockchainAddress}` : null;
@@ -166,16 +186,22 @@ router.get('/:vehicleId/report', optionalAuth, async (req: any, res: any) => {
         status: batch.status || 'pending',
         dataPoints: batch.batchData?.length || 0
       })),
-      rollbackEvents: rollbackEvents.map(event => ({
-        id: event._id,
-        prevMileage: event.details?.previousMileage || 0,
-        newMileage: event.details?.reportedMileage || 0,
-        deltaKm: (event.details?.reportedMileage || 0) - (event.details?.previousMileage || 0),
-        timestamp: event.createdAt,
-        detectionReason: event.reason,
-        resolutionStatus: 'unresolved', // Default status
-        resolvedBy: null
-      })),
+      rollbackEvents: rollbackEvents.map(event => {
+        const dispute = disputeFor(event);
+        const reviewer = dispute?.reviewer as any;
+        return {
+          id: event._id,
+          prevMileage: event.details?.previousMileage || 0,
+          newMileage: event.details?.reportedMileage || 0,
+          deltaKm: (event.details?.reportedMileage || 0) - (event.details?.previousMileage || 0),
+          timestamp: event.createdAt,
+          detectionReason: event.reason,
+          resolutionStatus: !dispute ? 'unresolved' : dispute.status === 'accepted' ? 'resolved' : 'investigating',
+          resolvedBy: dispute?.status === 'accepted' && reviewer ? `${reviewer.firstName} ${reviewer.lastName}` : null,
+          annotation: dispute?.status === 'accepted' ? dispute.annotation || dispute.decisionNote || null : null
+        };
+      }),
+      annotations,
       obdInfo: {
         deviceId: resolvedDeviceId,
         installedAt: latestInstall?.installedAt || latestInstall?.completedAt || null,
@@ -194,6 +220,7 @@ router.get('/:vehicleId/report', optionalAuth, async (req: any, res: any) => {
       },
       trustScore: {
         score: vehicle.trustScore || 100,
+        policyVersion: vehicle.trustPolicyVersion ?? null, // Trust policy that produced the score
         lastUpdated: vehicle.lastTrustScoreUpdate || vehicle.updatedAt,
         trend: trustEvents.length > 0 ? 
           (trustEvents[0].change > 0 ? 'increasing' : trustEvents[0].change < 0 ? 'decreasing' : 'stable') : 'stable',
@@ -203,6 +230,15 @@ router.get('/:vehicleId/report', optionalAuth, async (req: any, res: any) => {
           timestamp: event.createdAt
         }))
       },
+      diagnostics: {
+        milOn: vehicle.diagnostics?.milOn ?? null,
+        lastScanAt: vehicle.diagnostics?.lastScanAt || null,
+        activeCodes: dtcCodes
+          .filter(dtc => dtc.status !== 'cleared')
+          .map(dtc => ({ code: dtc.code, description: dtc.description, status: dtc.status, firstSeenAt: dtc.firstSeenAt })),
+        recentlyClearedCodes: codesClearedBeforeListing.clearedCodes,
+        codesClearedBeforeListing
+      },
       listing: marketplaceStatus
     };
 
@@ -262,6 +298,16 @@ router.post('/:vehicleId/list', authenticate, async (req: any, res: any) => {
       });
     }
 
+    // Stolen, court order and other holds block the sale
+    const held = await VehicleHoldService.blockFor(String(vehicle._id), 'listing');
+    if (held) {
+      return res.status(held.statusCode).json({
+        success: false,
+        message: held.message,
+        data: held.details
+      });
+    }
+
     // Check if vehicle is already listed
     if (vehicle.isForSale && vehicle.listingStatus === 'active') {
       return res.status(409).json({
@@ -270,7 +316,7 @@ router.post('/:vehicleId/list', authenticate, async (req: any, res: any) => {
         data: {
           vehicleId: vehicle._id,
           currentPrice: vehicle.price,
-          listedAt: (vehicle as any).updatedAt,
+          listedAt: vehicle.listedAt || (vehicle as any).updatedAt,
           marketplaceLink: `/marketplace/vehicle/${vehicle._id}`
         }
       });
@@ -281,6 +327,7 @@ router.post('/:vehicleId/list', authenticate, async (req: any, res: any) => {
     vehicle.price = price;
     vehicle.description = description;
     vehicle.listingStatus = 'active';
+    vehicle.listedAt = new Date();
     (vehicle as any).updatedAt = new Date();
 
     await vehicle.save();
@@ -295,7 +342,7 @@ router.post('/:vehicleId/list', authenticate, async (req: any, res: any) => {
         price,
         negotiable,
         description,
-        listedAt: (vehicle as any).updatedAt,
+        listedAt: vehicle.listedAt,
         marketplaceLink: `/marketplace/vehicle/${vehicle._id}`
       }
     });
@@ -12,8 +12,10 @@ import { VehicleTelemetry } from '../../models/core/VehicleTelemetry.model';
 import MileageHistory from '../../models/core/MileageHistory.model';
 import uploadRoutes from './upload.routes';
 import reportRoutes from './report.routes';
+import holdRoutes from './hold.routes';
 import { SaleRecord } from '../../models/SaleRecord.model';
 import { Device } from '../../models/core/Device.model';
+import { VehicleHoldService, VehicleHoldSummary, summarizeHold } from '../../services/core/vehicleHold.service';
 
 const router = Router();
 
@@ -657,6 +659,14 @@ router.get('/:vehicleId',
         logger.warn('Failed to fetch latest telemetry for vehicle', e);
       }
 
+      // Active holds, so the owner sees why the vehicle cannot be sold
+      let holds: VehicleHoldSummary[] = [];
+      try {
+        holds = (await VehicleHoldService.activeHolds(String(vehicle._id))).map(summarizeHold);
+      } catch (e) {
+        logger.warn('Failed to fetch holds for vehicle', e);
+      }
+
       logger.info(`✅ Retrieved vehicle ${vehicleId} for user ${userId}, deviceStatus: ${deviceStatus}, device:`, deviceInfo);
 
       // Build response object (prefer telemetry connection state when available)
@@ -713,7 +723,8 @@ router.get('/:vehicleId',
           createdAt: (vehicle as any).createdAt,
           updatedAt: (vehicle as any).updatedAt,
           deviceStatus: responseDeviceStatus,
-          device: responseDevice
+          device: responseDevice,
+          holds
         }
       });
     } catch (error) {
@@ -926,6 +937,12 @@ router.post('/import', async (req: any, res: any) => {
       return res.status(200).json({ success: true, message: 'Vehicle already linked to this user', data: { vehicleId: vehicle._id } });
     }
 
+    // A held vehicle cannot be claimed onto another account
+    const held = await VehicleHoldService.blockFor(String(vehicle._id), 'import');
+    if (held) {
+      return res.status(held.statusCode).json({ success: false, message: held.message, data: held.details });
+    }
+
     // Not linked: attach to current user by adding ownershipHistory entry and set previous toDate
     const now = new Date();
     if (Array.isArray(vehicle.ownershipHistory) && vehicle.ownershipHistory.length > 0) {
@@ -979,6 +996,12 @@ router.post('/:vehicleId/ownership/transfer', async (req: any, res: any) => {
     const vehicle = await Vehicle.findById(vehicleId);
     if (!vehicle) return res.status(404).json({ success: false, message: 'Vehicle not found' });
 
+    // Holds apply to admins too: release the hold first
+    const held = await VehicleHoldService.blockFor(vehicleId, 'transfer');
+    if (held) {
+      return res.status(held.statusCode).json({ success: false, message: held.message, data: held.details });
+    }
+
     const now = new Date();
     if (Array.isArray(vehicle.ownershipHistory) && vehicle.ownershipHistory.length > 0) {
       const currentIdx = vehicle.ownershipHistory.findIndex((e: any) => !e.toDate);
@@ -1029,6 +1052,9 @@ router.use('/', uploadRoutes);
 // Mount report routes
 router.use('/', reportRoutes);
 
+// Mount hold routes
+router.use('/', holdRoutes);
+
 export default router;
 
 /**
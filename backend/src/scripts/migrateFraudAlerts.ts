@@ -0,0 +1,88 @@
+#!/usr/bin/env node
+
+/**
+ * Migration Script: Fraud Alerts
+ *
+ * Moves fraud alerts embedded in vehicle documents (vehicle.fraudAlerts) into the fraud_alerts
+ * collection so they show up in the investigation queue. Alerts keep their _id, which trust
+ * events already reference through details.fraudAlertId.
+ */
+
+import mongoose from 'mongoose';
+import { config } from '../config/environment';
+import Vehicle from '../models/core/Vehicle.model';
+import { FraudAlert } from '../models/core/FraudAlert.model';
+import { logger } from '../utils/logger';
+
+// Connect to database
+mongoose.connect(config.MONGODB_URI);
+
+const migrateFraudAlerts = async () => {
+  try {
+    logger.info('🚀 Starting fraud alert migration...');
+
+    const vehicles = await Vehicle.find({ 'fraudAlerts.0': { $exists: true } }).select('fraudAlerts').lean();
+    logger.info(`📋 Found ${vehicles.length} vehicles with embedded fraud alerts`);
+
+    let migratedCount = 0;
+    let errorCount = 0;
+
+    for (const vehicle of vehicles) {
+      let failed = false;
+
+      for (const alert of vehicle.fraudAlerts) {
+        try {
+          if (await FraudAlert.exists({ _id: alert._id })) {
+            logger.info(`⏭️  Skipping already migrated alert ${alert._id}`);
+            continue;
+          }
+
+          await FraudAlert.create({
+            _id: alert._id,
+            vehicleId: vehicle._id,
+            alertType: alert.alertType,
+            severity: alert.severity,
+            description: alert.description,
+            reportedBy: alert.reportedBy,
+            reportedAt: alert.reportedAt,
+            status: alert.status,
+            evidence: alert.evidence || [],
+            investigationNotes: alert.investigationNotes,
+            decisionId: alert.decisionId,
+            rule: alert.rule,
+            resolvedAt: alert.resolvedAt,
+            resolvedBy: alert.resolvedBy
+          });
+          migratedCount++;
+        } catch (error) {
+          failed = true;
+          errorCount++;
+          logger.error(`❌ Failed to migrate fraud alert ${alert._id} of vehicle ${vehicle._id}:`, error);
+        }
+      }
+
+      // Clear the embedded copies only once all of them are in the collection; updateOne skips the
+      // save hook that would recalculate the trust score from the (now empty) embedded list
+      if (!failed) {
+        await Vehicle.updateOne({ _id: vehicle._id }, { $set: { fraudAlerts: [] } });
+      }
+    }
+
+    logger.info(`🏁 Migration complete! Successfully migrated ${migratedCount} alerts, ${errorCount} errors`);
+
+    // Close database connection
+    await mongoose.connection.close();
+    process.exit(0);
+  } catch (error) {
+    logger.error('❌ Migration failed:', error);
+    await mongoose.connection.close();
+    process.exit(1);
+  }
+};
+
+// Run migration if script is called directly
+if (require.main === module) {
+  migrateFraudAlerts();
+}
+
+export default migrateFraudAlerts;
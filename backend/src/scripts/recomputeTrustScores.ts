@@ -0,0 +1,62 @@
+#!/usr/bin/env node
+
+/**
+ * Trust Score Recompute
+ *
+ * Replays every vehicle's trust events under a trust policy version and prints how the scores
+ * would change. With --apply the version is activated and the new scores are written, each with
+ * a `recompute` trust event.
+ *
+ *   npm run recompute-trust-scores -- --version 2
+ *   npm run recompute-trust-scores -- --version 2 --apply
+ */
+
+import mongoose from 'mongoose';
+import { config } from '../config/environment';
+import { TrustPolicyService } from '../services/core/trustPolicy.service';
+import { logger } from '../utils/logger';
+
+// Connect to database
+mongoose.connect(config.MONGODB_URI);
+
+const argument = (name: string): string | undefined => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+};
+
+const recomputeTrustScores = async () => {
+  try {
+    const version = argument('version') || String((await TrustPolicyService.getActivePolicy()).version);
+    const apply = process.argv.includes('--apply');
+
+    logger.info(`🚀 ${apply ? 'Applying' : 'Previewing'} trust policy version ${version}...`);
+
+    const preview = await TrustPolicyService.preview(version, { limit: 20 });
+    logger.info(`📋 ${preview.changed} of ${preview.vehicles} vehicles change (${preview.raised} up, ${preview.lowered} down, average ${preview.averageDelta})`);
+    for (const change of preview.changes) {
+      logger.info(`   ${change.vin || change.vehicleId}: ${change.currentScore} -> ${change.recomputedScore}`);
+    }
+
+    if (apply) {
+      const result = await TrustPolicyService.apply(version);
+      logger.info(`🏁 Recompute complete! ${result.changed} vehicles rescored, ${result.failed.length} errors`);
+    } else {
+      logger.info('ℹ️  Nothing written; run again with --apply to rescore');
+    }
+
+    // Close database connection
+    await mongoose.connection.close();
+    process.exit(0);
+  } catch (error) {
+    logger.error('❌ Trust score recompute failed:', error);
+    await mongoose.connection.close();
+    process.exit(1);
+  }
+};
+
+// Run recompute if script is called directly
+if (require.main === module) {
+  recomputeTrustScores();
+}
+
+export default recomputeTrustScores;
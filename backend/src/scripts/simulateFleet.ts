@@ -0,0 +1,153 @@
+#!/usr/bin/env node
+
+/**
+ * Fleet Simulator / Load Test
+ *
+ * Provisions N simulated ESP32 devices (vehicle, device and signing secret each), drives them
+ * against a running API over HTTP in real time and reports request latency and error rates.
+ * A share of the fleet gets injected faults (rollback, VIN swap, unplug, network drop) and the
+ * run fails unless every expected fraud alert was raised.
+ *
+ * Usage:
+ *   npm run simulate -- --devices 50 --ticks 30 --interval 10 --fraud-every 5
+ *
+ * Options:
+ *   --base-url <url>          API to hit (default http://localhost:$PORT)
+ *   --devices <n>             Number of simulated devices (default 10)
+ *   --ticks <n>               Readings per device (default 20)
+ *   --interval <seconds>      Seconds between readings of one device (default 5)
+ *   --fraud-every <n>         Inject a fault into every n-th device, 0 for none (default 4)
+ *   --faults <list>           Fault types to cycle through (default rollback,vin_swap,network_drop,unplug)
+ *   --seed <n>                Seed for the simulated drives (default 1)
+ *   --max-error-rate <ratio>  Fail above this share of failed requests (default 0.01)
+ *   --alert-wait <seconds>    Wait before checking alerts (default 2)
+ *   --keep                    Keep the simulated vehicles, devices and readings
+ *   --allow-production        Run even though NODE_ENV is production
+ *
+ * The simulated fleet is written to the database this process connects to, so the script
+ * refuses to run with NODE_ENV=production unless --allow-production is given.
+ *
+ * Unplug alerts need the device to stay silent past the heartbeat threshold, so they are only
+ * expected on runs long enough (or servers configured with a short threshold).
+ */
+
+import { connectDatabase, disconnectDatabase } from '../config/database';
+import { config } from '../config/environment';
+import {
+  FleetSimulatorService,
+  ProvisionedDevice,
+  createHttpTransport,
+  createRunId
+} from '../services/core/fleetSimulator.service';
+import type { SimulatedFault } from '../utils/telemetrySimulator';
+import { logger } from '../utils/logger';
+
+const FAULT_TYPES: Array<SimulatedFault['type']> = ['rollback', 'vin_swap', 'network_drop', 'unplug'];
+
+const parseArgs = (argv: string[]): Record<string, string | boolean> => {
+  const args: Record<string, string | boolean> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const next = argv[i + 1];
+    if (next === undefined || next.startsWith('--')) {
+      args[arg.slice(2)] = true;
+    } else {
+      args[arg.slice(2)] = next;
+      i++;
+    }
+  }
+  return args;
+};
+
+const numberArg = (args: Record<string, string | boolean>, name: string, fallback: number): number => {
+  const value = args[name];
+  if (value === undefined || value === true) return fallback;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`--${name} must be a non-negative number`);
+  }
+  return parsed;
+};
+
+const simulateFleet = async () => {
+  const args = parseArgs(process.argv.slice(2));
+  if (config.NODE_ENV === 'production' && !args['allow-production']) {
+    throw new Error('Refusing to simulate a fleet with NODE_ENV=production; pass --allow-production to run anyway');
+  }
+  const baseUrl = typeof args['base-url'] === 'string' ? args['base-url'] : `http://localhost:${config.PORT}`;
+  const devices = Math.max(1, Math.floor(numberArg(args, 'devices', 10)));
+  const ticks = Math.max(1, Math.floor(numberArg(args, 'ticks', 20)));
+  const intervalSeconds = numberArg(args, 'interval', 5);
+  const faultEvery = Math.floor(numberArg(args, 'fraud-every', 4));
+  const seed = Math.floor(numberArg(args, 'seed', 1));
+  const maxErrorRate = numberArg(args, 'max-error-rate', 0.01);
+  const alertWaitSeconds = numberArg(args, 'alert-wait', 2);
+  const faultTypes = typeof args.faults === 'string'
+    ? args.faults.split(',').map(type => type.trim()) as Array<SimulatedFault['type']>
+    : FAULT_TYPES;
+
+  const unknown = faultTypes.filter(type => !FAULT_TYPES.includes(type));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown fault type(s): ${unknown.join(', ')}`);
+  }
+
+  const runId = createRunId();
+  let provisioned: ProvisionedDevice[] = [];
+
+  await connectDatabase();
+  try {
+    logger.info(`🚗 Simulating ${devices} device(s) x ${ticks} tick(s) every ${intervalSeconds}s against ${baseUrl} (run ${runId})`);
+    provisioned = await FleetSimulatorService.provision(runId, devices);
+
+    const fleet = FleetSimulatorService.buildFleet(runId, provisioned, {
+      seed,
+      ticks,
+      faultEvery,
+      faultTypes,
+      // The heartbeat job may only run one cron period after the threshold passes
+      silenceThresholdMinutes: config.DEVICE_SILENCE_THRESHOLD_MINUTES + 5,
+      silentMileageToleranceKm: config.DEVICE_SILENT_MILEAGE_TOLERANCE_KM
+    });
+
+    const report = await FleetSimulatorService.run(runId, fleet, createHttpTransport(baseUrl), {
+      ticks,
+      intervalSeconds,
+      alertWaitSeconds
+    });
+
+    console.log(JSON.stringify(report, null, 2));
+
+    const failures: string[] = [];
+    for (const [kind, summary] of [['status', report.status], ['batch', report.batch]] as const) {
+      if (summary.errorRate > maxErrorRate) {
+        failures.push(`${kind} error rate ${summary.errorRate} above ${maxErrorRate}`);
+      }
+    }
+    for (const check of report.alerts.filter(alert => !alert.found)) {
+      failures.push(`expected ${check.type} alert for ${check.deviceID} at tick ${check.tick} was not raised`);
+    }
+
+    if (failures.length > 0) {
+      failures.forEach(failure => logger.error(`❌ ${failure}`));
+      process.exitCode = 1;
+    } else {
+      logger.info(`✅ Fleet simulation passed: ${report.alerts.length} expected alert(s) raised, p95 ${report.status.latencyMs.p95}ms`);
+    }
+  } finally {
+    if (!args.keep && provisioned.length > 0) {
+      await FleetSimulatorService.cleanup(runId, provisioned);
+    }
+    await disconnectDatabase();
+  }
+};
+
+// Run simulation if script is called directly
+if (require.main === module) {
+  simulateFleet().catch(error => {
+    logger.error('❌ Fleet simulation failed:', error);
+    process.exit(1);
+  });
+}
+
+export default simulateFleet;
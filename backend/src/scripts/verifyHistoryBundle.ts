@@ -0,0 +1,97 @@
+#!/usr/bin/env node
+
+/**
+ * Offline History Bundle Verifier
+ *
+ * Checks a vehicle history bundle (GET /api/telemetry/bundle/:vehicleId) without the API, a
+ * database or network access: the platform signature over the bundle, then for every day the
+ * segment leaves re-hashed into the Merkle root and that root against the anchor memo in the
+ * bundled ledger snapshot. Prints a pass/fail line per day and exits non-zero unless all pass.
+ *
+ * Usage:
+ *   npm run verify-bundle -- bundle.json --public-key <base64>
+ *
+ * Options:
+ *   --public-key <base64>  Platform signing key to pin (GET /api/telemetry/bundle/signing-key);
+ *                          without it the bundle is only checked against the key it names
+ *   --json                 Print the full verification report as JSON
+ *
+ * The file may be the bundle itself or the API response wrapping it in "data". The snapshot
+ * comes from the exporter, so cross-check the anchor transactions on the ledger explorer where
+ * independence from the platform matters.
+ *
+ * Exit codes: 0 all days pass, 1 verification failed, 2 unreadable input.
+ */
+
+import fs from 'fs';
+import { BundleVerification, verifyHistoryBundle } from '../utils/historyBundle';
+
+const parseArgs = (argv: string[]): { files: string[]; args: Record<string, string | boolean> } => {
+  const files: string[] = [];
+  const args: Record<string, string | boolean> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      files.push(arg);
+      continue;
+    }
+    const next = argv[i + 1];
+    if (next === undefined || next.startsWith('--')) {
+      args[arg.slice(2)] = true;
+    } else {
+      args[arg.slice(2)] = next;
+      i++;
+    }
+  }
+  return { files, args };
+};
+
+const printReport = (file: string, report: BundleVerification): void => {
+  console.log(`History bundle ${file}`);
+  console.log(`  Vehicle:   ${report.vin ?? 'unknown'} (${report.vehicleId ?? 'unknown'}) on ${report.network ?? 'unknown'}`);
+  console.log(`  Signature: ${report.signature.valid ? 'PASS' : 'FAIL'} ${report.signature.publicKey ?? ''}${report.signature.pinned ? ' (pinned)' : ' (not pinned)'}`);
+  report.signature.reasons.forEach(reason => console.log(`             - ${reason}`));
+
+  for (const day of report.days) {
+    console.log(`  ${day.date}: ${day.passed ? 'PASS' : 'FAIL'} ${day.segmentsCount} segment(s), root ${day.computedRoot ?? '-'}`);
+    day.reasons.forEach(reason => console.log(`             - ${reason}`));
+  }
+
+  const passedDays = report.days.filter(day => day.passed).length;
+  console.log(`  Result:    ${report.passed ? 'PASS' : 'FAIL'} (${passedDays}/${report.days.length} day(s) verified)`);
+  report.reasons.forEach(reason => console.log(`             - ${reason}`));
+};
+
+const verifyBundleFile = (): number => {
+  const { files, args } = parseArgs(process.argv.slice(2));
+  if (files.length !== 1) {
+    console.error('Usage: npm run verify-bundle -- <bundle.json> [--public-key <base64>] [--json]');
+    return 2;
+  }
+
+  let report: BundleVerification;
+  try {
+    const parsed = JSON.parse(fs.readFileSync(files[0], 'utf8'));
+    const bundle = parsed?.success !== undefined && parsed.data ? parsed.data : parsed;
+    report = verifyHistoryBundle(bundle, {
+      publicKey: typeof args['public-key'] === 'string' ? args['public-key'] : undefined
+    });
+  } catch (error) {
+    console.error(`❌ Could not read ${files[0]}: ${error instanceof Error ? error.message : error}`);
+    return 2;
+  }
+
+  if (args.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printReport(files[0], report);
+  }
+  return report.passed ? 0 : 1;
+};
+
+// Run verification if script is called directly
+if (require.main === module) {
+  process.exitCode = verifyBundleFile();
+}
+
+export default verifyBundleFile;
@@ -5,7 +5,19 @@ import { connectDatabase } from './config/database';
 import { app } from './app';
 import { logger } from './utils/logger';
 import { initializeSocketIO } from './utils/socketEmitter';
+import { config } from './config/environment';
 import { DailyMerkleJob } from './jobs/dailyMerkleJob';
+import { DeviceHeartbeatJob } from './jobs/deviceHeartbeatJob';
+import { DrivingScoreJob } from './jobs/drivingScoreJob';
+import { TelemetryRollupJob } from './jobs/telemetryRollupJob';
+import { TelemetryRetentionJob } from './jobs/telemetryRetentionJob';
+import { TrustRecoveryJob } from './jobs/trustRecoveryJob';
+import { DuplicateVinJob } from './jobs/duplicateVinJob';
+import { UsageBaselineJob } from './jobs/usageBaselineJob';
+import { MqttGatewayService } from './services/core/mqttGateway.service';
+import { ObdProfileService } from './services/core/obdProfile.service';
+import { FraudRulesService } from './services/core/fraudRules.service';
+import { LiveTelemetryService } from './services/core/liveTelemetry.service';
 
 // Import models to ensure they are registered with mongoose
 import './models/core/User.model';
@@ -79,6 +91,16 @@ const startServer = async (): Promise<void> => {
     await initializeDatabase();
     console.log('✅ Database connected successfully');
 
+    // Built-in OBD profiles for a fresh database
+    ObdProfileService.ensureDefaultProfiles().catch(error => {
+      logger.error('❌ Failed to seed default OBD profiles:', error);
+    });
+
+    // Version 1 of the built-in fraud rules for a fresh database
+    FraudRulesService.ensureDefaultRules().catch(error => {
+      logger.error('❌ Failed to seed default fraud rules:', error);
+    });
+
     // Start the Express server
     console.log(`🚀 Starting Express server on port ${PORT}...`);
     const server = app.listen(PORT, () => {
@@ -90,15 +112,50 @@ const startServer = async (): Promise<void> => {
 
     // Initialize Socket.IO
     initializeSocketIO(server);
+    LiveTelemetryService.attach();
 
     // Start daily Merkle job
     console.log('🕐 Starting daily Merkle consolidation job...');
     DailyMerkleJob.start();
     console.log('✅ Daily Merkle job started');
 
+    // Start device heartbeat monitor
+    DeviceHeartbeatJob.start();
+
+    // Start driving behaviour scoring
+    DrivingScoreJob.start();
+
+    // Start telemetry rollups and raw retention
+    TelemetryRollupJob.start();
+    TelemetryRetentionJob.start();
+
+    // Start scheduled trust score recovery and decay
+    TrustRecoveryJob.start();
+
+    // Start fleet-wide cloned VIN and plate detection
+    DuplicateVinJob.start();
+
+    // Start per-vehicle usage baseline checks
+    UsageBaselineJob.start();
+
+    // Start MQTT device gateway
+    if (config.MQTT_ENABLED) {
+      MqttGatewayService.start().catch(error => {
+        logger.error('❌ Failed to start MQTT gateway:', error);
+      });
+    }
+
     // Graceful shutdown
     process.on('SIGTERM', () => {
       logger.info('🛑 SIGTERM received, shutting down gracefully');
+      MqttGatewayService.stop().catch(() => undefined);
+      DeviceHeartbeatJob.stop();
+      DrivingScoreJob.stop();
+      TelemetryRollupJob.stop();
+      TelemetryRetentionJob.stop();
+      TrustRecoveryJob.stop();
+      DuplicateVinJob.stop();
+      UsageBaselineJob.stop();
       server.close(() => {
         logger.info('📴 Server closed');
         process.exit(0);
@@ -107,6 +164,14 @@ const startServer = async (): Promise<void> => {
 
     process.on('SIGINT', () => {
       logger.info('🛑 SIGINT received, shutting down gracefully');
+      MqttGatewayService.stop().catch(() => undefined);
+      DeviceHeartbeatJob.stop();
+      DrivingScoreJob.stop();
+      TelemetryRollupJob.stop();
+      TelemetryRetentionJob.stop();
+      TrustRecoveryJob.stop();
+      DuplicateVinJob.stop();
+      UsageBaselineJob.stop();
       server.close(() => {
         logger.info('📴 Server closed');
         process.exit(0);
@@ -298,11 +298,16 @@ export class AnchorService {
   /**
    * Verify anchoring
    */
-  async verifyAnchoring(solanaTx: string, arweaveTx: string): Promise<boolean> {
+  async verifyAnchoring(solanaTx: string, arweaveTx?: string): Promise<boolean> {
     try {
       // Verify Solana transaction
       const solanaVerified = await this.solanaService.verifyRecord(solanaTx);
-      
+
+      // Arweave is optional; an event anchored without it is verified by Solana alone
+      if (!arweaveTx) {
+        return solanaVerified;
+      }
+
       // Verify Arweave transaction
       const arweaveVerified = await this.arweaveService.verifyTransaction(arweaveTx);
       
@@ -0,0 +1,192 @@
+import Arweave from 'arweave';
+import { logger } from '../../../utils/logger';
+import {
+  PermanentStorageAdapter,
+  StorageMetadata,
+  StorageNetworkInfo,
+  StorageTag,
+  StorageUploadResult,
+  StorageVerification
+} from './storage.adapter';
+
+/**
+ * Uploads to an Arweave gateway (testnet outside production)
+ */
+export class ArweaveStorageAdapter implements PermanentStorageAdapter {
+  readonly name = 'arweave' as const;
+  readonly network: string;
+  private arweave: Arweave;
+  private wallet: any;
+  private gatewayBaseUrl: string;
+
+  constructor(private isTestnet: boolean) {
+    this.network = isTestnet ? 'testnet' : 'mainnet';
+
+    // Allow override via env; otherwise choose sensible defaults
+    const gatewayHost = process.env.ARWEAVE_HOST || (isTestnet ? 'testnet.redstone.tools' : 'arweave.net');
+    const gatewayProtocol = process.env.ARWEAVE_PROTOCOL || 'https';
+    const gatewayPort = Number(process.env.ARWEAVE_PORT || 443);
+    this.gatewayBaseUrl = `${gatewayProtocol}://${gatewayHost}${gatewayPort === 443 ? '' : `:${gatewayPort}`}`;
+
+    this.arweave = Arweave.init({
+      host: gatewayHost,
+      port: gatewayPort,
+      protocol: gatewayProtocol,
+      timeout: 20000,
+      logging: process.env.NODE_ENV === 'development'
+    });
+
+    // Keep initialization lightweight: don't perform network calls here
+    // such as balance checks. Wallet is prepared lazily for operations.
+    this.prepareWallet().catch((e) => {
+      logger.warn('⚠️ Arweave wallet preparation deferred:', e?.message || e);
+    });
+  }
+
+  /**
+   * Prepare an in-memory wallet if available. Avoids any network calls.
+   */
+  private async prepareWallet(): Promise<void> {
+    try {
+      if (process.env.ARWEAVE_WALLET_KEY) {
+        this.wallet = JSON.parse(process.env.ARWEAVE_WALLET_KEY);
+      } else if (this.isTestnet) {
+        // Generating a wallet is purely local and does not hit network
+        this.wallet = await this.arweave.wallets.generate();
+        logger.info('🔑 Generated new Arweave testnet wallet');
+      } else {
+        logger.warn('⚠️ No Arweave wallet configured for production');
+        this.wallet = null;
+      }
+      // IMPORTANT: Do NOT fetch balances here to keep startup non-blocking
+    } catch (error) {
+      logger.error('❌ Failed to prepare Arweave wallet:', error);
+      this.wallet = null;
+    }
+  }
+
+  async upload(data: Buffer, tags: StorageTag[]): Promise<StorageUploadResult> {
+    if (!this.wallet) {
+      throw new Error('Arweave wallet not configured');
+    }
+
+    const cost = await this.estimateCost(data.length).catch(() => 0);
+    const transaction = await this.arweave.createTransaction({ data }, this.wallet);
+    tags.forEach(tag => transaction.addTag(tag.name, tag.value));
+
+    // Sign and submit transaction
+    await this.arweave.transactions.sign(transaction, this.wallet);
+
+    // For testnet, we might need to fund the wallet first
+    if (this.isTestnet) {
+      try {
+        const currentBalance = await this.getBalance();
+        if (currentBalance < cost) {
+          logger.warn(`⚠️ Insufficient balance (${currentBalance} AR) for upload cost (${cost} AR)`);
+          // In testnet, you might need to get tokens from a faucet
+          // For now, we'll proceed anyway as testnet might be more lenient
+        }
+      } catch (balanceError) {
+        logger.warn('⚠️ Could not check balance before upload:', balanceError);
+      }
+    }
+
+    const response = await this.arweave.transactions.post(transaction);
+    if (response.status !== 200 && response.status !== 202) {
+      throw new Error(`Upload failed with status: ${response.status}`);
+    }
+
+    return {
+      id: transaction.id,
+      url: `${this.gatewayBaseUrl}/${transaction.id}`,
+      // For testnet, the gateway URL doubles as a viewer; for mainnet recommend ViewBlock
+      explorerUrl: this.isTestnet
+        ? `${this.gatewayBaseUrl}/${transaction.id}`
+        : `https://viewblock.io/arweave/tx/${transaction.id}`,
+      size: data.length,
+      cost
+    };
+  }
+
+  async getData(id: string): Promise<Buffer> {
+    const data = await this.arweave.transactions.getData(id, { decode: true, string: false });
+    return Buffer.from(data as Uint8Array);
+  }
+
+  async getMetadata(id: string): Promise<StorageMetadata> {
+    const transaction = await this.arweave.transactions.get(id);
+    const status = await this.arweave.transactions.getStatus(id);
+
+    return {
+      id: transaction.id,
+      owner: transaction.owner,
+      target: transaction.target,
+      quantity: transaction.quantity,
+      reward: transaction.reward,
+      last_tx: transaction.last_tx,
+      tags: transaction.tags.map(tag => ({
+        name: this.arweave.utils.b64UrlToString(tag.name),
+        value: this.arweave.utils.b64UrlToString(tag.value)
+      })),
+      data_size: transaction.data_size,
+      status: status.status,
+      confirmed: status.confirmed
+    };
+  }
+
+  async verify(id: string): Promise<StorageVerification> {
+    const status = await this.arweave.transactions.getStatus(id);
+
+    return {
+      exists: status.status !== 404,
+      confirmed: status.confirmed ? status.confirmed.number_of_confirmations > 0 : false,
+      status: status.status,
+      blockHeight: status.confirmed?.block_height
+    };
+  }
+
+  async search(tags: StorageTag[], limit: number): Promise<string[]> {
+    const results = await this.arweave.api.post('graphql', {
+      query: `
+        query($tags: [TagFilter!], $first: Int!) {
+          transactions(tags: $tags, first: $first) {
+            edges {
+              node {
+                id
+              }
+            }
+          }
+        }
+      `,
+      variables: {
+        tags: tags.map(tag => ({ name: tag.name, values: [tag.value] })),
+        first: limit
+      }
+    });
+
+    return results.data.data.transactions.edges.map((edge: any) => edge.node.id);
+  }
+
+  async getNetworkInfo(): Promise<StorageNetworkInfo> {
+    const info = await this.arweave.network.getInfo();
+    return {
+      network: this.network,
+      height: info.height,
+      current: info.current,
+      blocks: info.blocks,
+      peers: info.peers
+    };
+  }
+
+  async estimateCost(dataSize: number): Promise<number> {
+    const price = await this.arweave.transactions.getPrice(dataSize);
+    return parseFloat(this.arweave.ar.winstonToAr(price));
+  }
+
+  async getBalance(address?: string): Promise<number> {
+    const walletAddress = address || (this.wallet ? await this.arweave.wallets.jwkToAddress(this.wallet) : undefined);
+    if (!walletAddress) return 0;
+    const winstonBalance = await this.arweave.wallets.getBalance(walletAddress);
+    return parseFloat(this.arweave.ar.winstonToAr(winstonBalance));
+  }
+}
@@ -0,0 +1,35 @@
+import path from 'path';
+import { config } from '../../../config/environment';
+import { logger } from '../../../utils/logger';
+import { LedgerAdapter } from './ledger.adapter';
+import { SolanaLedgerAdapter } from './solanaLedger.adapter';
+import { LocalLedgerAdapter } from './localLedger.adapter';
+import { PermanentStorageAdapter } from './storage.adapter';
+import { ArweaveStorageAdapter } from './arweaveStorage.adapter';
+import { LocalStorageAdapter } from './localStorage.adapter';
+
+export * from './ledger.adapter';
+export * from './storage.adapter';
+export { SolanaLedgerAdapter, LocalLedgerAdapter, ArweaveStorageAdapter, LocalStorageAdapter };
+
+/**
+ * Adapters are picked by LEDGER_ADAPTER and STORAGE_ADAPTER; the test environment defaults to the
+ * local file-backed ones so nothing reaches a live network
+ */
+export const createLedgerAdapter = (): LedgerAdapter => {
+  if (config.LEDGER_ADAPTER === 'local') {
+    const dir = path.resolve(config.LOCAL_LEDGER_DIR);
+    logger.info(`📒 Using local ledger at ${dir}`);
+    return new LocalLedgerAdapter(dir);
+  }
+  return new SolanaLedgerAdapter(config.NODE_ENV !== 'production');
+};
+
+export const createStorageAdapter = (): PermanentStorageAdapter => {
+  if (config.STORAGE_ADAPTER === 'local') {
+    const dir = path.resolve(config.LOCAL_STORAGE_DIR);
+    logger.info(`🗄️ Using local permanent storage at ${dir}`);
+    return new LocalStorageAdapter(dir);
+  }
+  return new ArweaveStorageAdapter(config.NODE_ENV !== 'production');
+};
@@ -0,0 +1,80 @@
+import { Keypair } from '@solana/web3.js';
+
+/**
+ * Ledger adapter
+ *
+ * Everything the platform writes to its ledger is a signed memo: vehicle registrations,
+ * installations, mileage updates, telemetry batch anchors and ownership transfers. The adapter
+ * hides where those memos land, so the same services run against Solana or against a local
+ * file-backed ledger in tests and offline development.
+ */
+
+export const MEMO_PROGRAM_ID = 'MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr';
+
+export type LedgerConfirmationStatus = 'processed' | 'confirmed' | 'finalized';
+
+export interface LedgerReceipt {
+  signature: string;
+  slot: number;
+  network: string;
+}
+
+export interface LedgerTransaction {
+  signature: string;
+  slot: number;
+  blockTime: number | null;
+  signer: string | null;
+  memo: string | null;
+  memoData: any;
+  confirmationStatus: LedgerConfirmationStatus | null;
+  err: any;
+  fee: number;
+}
+
+export interface LedgerStatus {
+  network: string;
+  blockHeight: number;
+  isHealthy: boolean;
+}
+
+export interface LedgerAdapter {
+  readonly name: 'solana' | 'local';
+  readonly network: string;
+
+  /**
+   * Sign and submit a memo, resolving once it is confirmed
+   */
+  submitMemo(memo: string, signer: Keypair): Promise<LedgerReceipt>;
+
+  /**
+   * A submitted transaction with its memo, or null when the ledger has no such signature
+   */
+  getTransaction(signature: string): Promise<LedgerTransaction | null>;
+
+  getConfirmationStatus(signature: string): Promise<LedgerConfirmationStatus | null>;
+
+  /**
+   * Transactions signed by an address, newest first
+   */
+  getSignerTransactions(address: string, limit: number): Promise<LedgerTransaction[]>;
+
+  requestAirdrop(address: string, sol: number): Promise<string>;
+
+  getBalance(address: string): Promise<number>;
+
+  getStatus(): Promise<LedgerStatus>;
+
+  explorerUrl(signature: string): string | null;
+}
+
+/**
+ * Memos are JSON payloads; anything else is kept as raw text only
+ */
+export const parseMemo = (memo: string | null): any => {
+  if (!memo) return null;
+  try {
+    return JSON.parse(memo);
+  } catch {
+    return null;
+  }
+};
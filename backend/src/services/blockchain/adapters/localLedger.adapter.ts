@@ -0,0 +1,150 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Keypair } from '@solana/web3.js';
+import {
+  LedgerAdapter,
+  LedgerConfirmationStatus,
+  LedgerReceipt,
+  LedgerStatus,
+  LedgerTransaction,
+  parseMemo
+} from './ledger.adapter';
+
+// A memo that does not fit in a Solana packet would never land on chain, so it is refused here too
+const MAX_MEMO_BYTES = 1232;
+
+interface LocalLedgerEntry {
+  signature: string;
+  slot: number;
+  blockTime: number;
+  kind: 'memo' | 'airdrop';
+  signer: string | null;
+  memo?: string;
+  recipient?: string;
+  sol?: number;
+}
+
+/**
+ * File-backed ledger for tests, CI and offline development. Entries are appended to
+ * `ledger.jsonl` and chained: each signature is the hash of the previous signature and the entry,
+ * so replaying the same writes always yields the same signatures. Entries are final as soon as
+ * they are written and the local ledger charges no fees.
+ */
+export class LocalLedgerAdapter implements LedgerAdapter {
+  readonly name = 'local' as const;
+  readonly network = 'local';
+  private entries: LocalLedgerEntry[] | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private dir: string) {}
+
+  get file(): string {
+    return path.join(this.dir, 'ledger.jsonl');
+  }
+
+  async submitMemo(memo: string, signer: Keypair): Promise<LedgerReceipt> {
+    const size = Buffer.byteLength(memo);
+    if (size > MAX_MEMO_BYTES) {
+      throw new Error(`Memo of ${size} bytes exceeds the ${MAX_MEMO_BYTES} byte transaction limit`);
+    }
+
+    const entry = await this.append({ kind: 'memo', signer: signer.publicKey.toBase58(), memo });
+    return { signature: entry.signature, slot: entry.slot, network: this.network };
+  }
+
+  async getTransaction(signature: string): Promise<LedgerTransaction | null> {
+    const entries = await this.load();
+    const entry = entries.find(e => e.signature === signature);
+    return entry ? this.toLedgerTransaction(entry) : null;
+  }
+
+  async getConfirmationStatus(signature: string): Promise<LedgerConfirmationStatus | null> {
+    return (await this.getTransaction(signature)) ? 'finalized' : null;
+  }
+
+  async getSignerTransactions(address: string, limit: number): Promise<LedgerTransaction[]> {
+    const entries = await this.load();
+    return entries
+      .filter(e => e.signer === address || e.recipient === address)
+      .reverse()
+      .slice(0, limit)
+      .map(e => this.toLedgerTransaction(e));
+  }
+
+  async requestAirdrop(address: string, sol: number): Promise<string> {
+    const entry = await this.append({ kind: 'airdrop', signer: null, recipient: address, sol });
+    return entry.signature;
+  }
+
+  async getBalance(address: string): Promise<number> {
+    const entries = await this.load();
+    return entries
+      .filter(e => e.kind === 'airdrop' && e.recipient === address)
+      .reduce((sum, e) => sum + (e.sol || 0), 0);
+  }
+
+  async getStatus(): Promise<LedgerStatus> {
+    const entries = await this.load();
+    return { network: this.network, blockHeight: entries.length, isHealthy: true };
+  }
+
+  explorerUrl(): null {
+    return null;
+  }
+
+  private async load(): Promise<LocalLedgerEntry[]> {
+    if (!this.entries) {
+      try {
+        const content = await fs.promises.readFile(this.file, 'utf8');
+        this.entries = content.split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+      } catch (error: any) {
+        if (error?.code !== 'ENOENT') throw error;
+        this.entries = [];
+      }
+    }
+    return this.entries;
+  }
+
+  /**
+   * Writes are queued so concurrent submissions chain onto each other instead of the same parent
+   */
+  private append(fields: Omit<LocalLedgerEntry, 'signature' | 'slot' | 'blockTime'>): Promise<LocalLedgerEntry> {
+    const write = this.queue.then(async () => {
+      const entries = await this.load();
+      const previous = entries.length > 0 ? entries[entries.length - 1].signature : '';
+      const signature = crypto.createHash('sha256')
+        .update([previous, fields.kind, fields.signer ?? '', fields.recipient ?? '', fields.sol ?? '', fields.memo ?? ''].join('|'))
+        .digest('hex');
+
+      const entry: LocalLedgerEntry = {
+        signature,
+        slot: entries.length + 1,
+        blockTime: Math.floor(Date.now() / 1000),
+        ...fields
+      };
+
+      await fs.promises.mkdir(this.dir, { recursive: true });
+      await fs.promises.appendFile(this.file, `${JSON.stringify(entry)}\n`);
+      entries.push(entry);
+      return entry;
+    });
+
+    this.queue = write.catch(() => undefined);
+    return write;
+  }
+
+  private toLedgerTransaction(entry: LocalLedgerEntry): LedgerTransaction {
+    return {
+      signature: entry.signature,
+      slot: entry.slot,
+      blockTime: entry.blockTime,
+      signer: entry.signer,
+      memo: entry.memo ?? null,
+      memoData: parseMemo(entry.memo ?? null),
+      confirmationStatus: 'finalized',
+      err: null,
+      fee: 0
+    };
+  }
+}
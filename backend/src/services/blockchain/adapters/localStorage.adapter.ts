@@ -0,0 +1,152 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import {
+  PermanentStorageAdapter,
+  StorageMetadata,
+  StorageNetworkInfo,
+  StorageTag,
+  StorageUploadResult,
+  StorageVerification
+} from './storage.adapter';
+
+interface LocalUploadRecord {
+  id: string;
+  tags: StorageTag[];
+  size: number;
+  height: number;
+  uploadedAt: string;
+}
+
+// Arweave ids are 43 base64url characters, which a sha256 digest encodes to as well
+const ID_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+
+/**
+ * Content-addressed store on disk standing in for Arweave in tests, CI and offline development.
+ * The id of an upload is the base64url sha256 of its data, so the same data always gets the same
+ * id; the data lives in `<id>` and its tags in `<id>.json`. Uploads are confirmed immediately.
+ */
+export class LocalStorageAdapter implements PermanentStorageAdapter {
+  readonly name = 'local' as const;
+  readonly network = 'local';
+
+  constructor(private dir: string) {}
+
+  async upload(data: Buffer, tags: StorageTag[]): Promise<StorageUploadResult> {
+    const id = crypto.createHash('sha256').update(data).digest('base64url');
+
+    // Permanent storage: a second upload of the same data keeps the first record
+    const existing = await this.readRecord(id);
+    if (!existing) {
+      await fs.promises.mkdir(this.dir, { recursive: true });
+      const record: LocalUploadRecord = {
+        id,
+        tags,
+        size: data.length,
+        height: (await this.records()).length + 1,
+        uploadedAt: new Date().toISOString()
+      };
+      await fs.promises.writeFile(this.dataPath(id), data);
+      await fs.promises.writeFile(this.recordPath(id), JSON.stringify(record, null, 2));
+    }
+
+    return {
+      id,
+      url: `local://storage/${id}`,
+      explorerUrl: `local://storage/${id}`,
+      size: data.length,
+      cost: 0
+    };
+  }
+
+  async getData(id: string): Promise<Buffer> {
+    if (!(await this.readRecord(id))) {
+      throw new Error(`Upload ${id} not found in local storage`);
+    }
+    return fs.promises.readFile(this.dataPath(id));
+  }
+
+  async getMetadata(id: string): Promise<StorageMetadata> {
+    const record = await this.readRecord(id);
+    if (!record) {
+      throw new Error(`Upload ${id} not found in local storage`);
+    }
+
+    return {
+      id,
+      owner: 'local',
+      target: '',
+      quantity: '0',
+      reward: '0',
+      last_tx: '',
+      tags: record.tags,
+      data_size: String(record.size),
+      status: 200,
+      confirmed: { block_height: record.height, number_of_confirmations: 1 }
+    };
+  }
+
+  async verify(id: string): Promise<StorageVerification> {
+    const record = await this.readRecord(id);
+    if (!record) {
+      return { exists: false, confirmed: false, status: 404 };
+    }
+    return { exists: true, confirmed: true, status: 200, blockHeight: record.height };
+  }
+
+  async search(tags: StorageTag[], limit: number): Promise<string[]> {
+    const records = await this.records();
+    return records
+      .filter(record => tags.every(tag => record.tags.some(t => t.name === tag.name && t.value === tag.value)))
+      .sort((a, b) => b.height - a.height)
+      .slice(0, limit)
+      .map(record => record.id);
+  }
+
+  async getNetworkInfo(): Promise<StorageNetworkInfo> {
+    const height = (await this.records()).length;
+    return { network: this.network, height, current: '', blocks: height, peers: 0 };
+  }
+
+  async estimateCost(): Promise<number> {
+    return 0;
+  }
+
+  async getBalance(): Promise<number> {
+    return 0;
+  }
+
+  private dataPath(id: string): string {
+    return path.join(this.dir, id);
+  }
+
+  private recordPath(id: string): string {
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  private async readRecord(id: string): Promise<LocalUploadRecord | null> {
+    // Ids come from request paths; anything else must not reach the filesystem
+    if (!ID_PATTERN.test(id)) return null;
+    try {
+      return JSON.parse(await fs.promises.readFile(this.recordPath(id), 'utf8'));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  private async records(): Promise<LocalUploadRecord[]> {
+    let files: string[];
+    try {
+      files = await fs.promises.readdir(this.dir);
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const records = await Promise.all(files
+      .filter(file => file.endsWith('.json'))
+      .map(file => this.readRecord(file.slice(0, -'.json'.length))));
+    return records.filter((record): record is LocalUploadRecord => record !== null);
+  }
+}
@@ -0,0 +1,170 @@
+import {
+  Connection,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  ParsedTransactionWithMeta,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+  sendAndConfirmTransaction
+} from '@solana/web3.js';
+import { logger } from '../../../utils/logger';
+import {
+  LedgerAdapter,
+  LedgerConfirmationStatus,
+  LedgerReceipt,
+  LedgerStatus,
+  LedgerTransaction,
+  MEMO_PROGRAM_ID,
+  parseMemo
+} from './ledger.adapter';
+
+/**
+ * Memo transactions on Solana devnet or mainnet
+ */
+export class SolanaLedgerAdapter implements LedgerAdapter {
+  readonly name = 'solana' as const;
+  readonly network: string;
+  private connection: Connection;
+
+  constructor(private isDevnet: boolean) {
+    this.network = isDevnet ? 'devnet' : 'mainnet';
+
+    // Use multiple RPC endpoints for better reliability
+    const rpcUrls = isDevnet
+      ? [
+          'https://api.devnet.solana.com',
+          'https://devnet.helius-rpc.com',
+          'https://rpc-devnet.helius.xyz'
+        ]
+      : [
+          process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com',
+          'https://rpc.ankr.com/solana',
+          'https://solana-api.projectserum.com'
+        ];
+
+    // Use the first RPC URL, with fallback capability
+    this.connection = new Connection(rpcUrls[0], {
+      commitment: 'confirmed',
+      confirmTransactionInitialTimeout: 60000,
+      disableRetryOnRateLimit: false
+    });
+  }
+
+  async submitMemo(memo: string, signer: Keypair): Promise<LedgerReceipt> {
+    const transaction = new Transaction().add(new TransactionInstruction({
+      keys: [],
+      programId: new PublicKey(MEMO_PROGRAM_ID),
+      data: Buffer.from(memo)
+    }));
+
+    const signature = await sendAndConfirmTransaction(
+      this.connection,
+      transaction,
+      [signer],
+      { commitment: 'confirmed' }
+    );
+
+    const slot = await this.connection.getSlot().catch(() => 0);
+    return { signature, slot, network: this.network };
+  }
+
+  async getTransaction(signature: string): Promise<LedgerTransaction | null> {
+    const transaction = await this.connection.getParsedTransaction(signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0
+    });
+    if (!transaction) return null;
+
+    const confirmationStatus = await this.getConfirmationStatus(signature);
+    return this.toLedgerTransaction(signature, transaction, confirmationStatus);
+  }
+
+  async getConfirmationStatus(signature: string): Promise<LedgerConfirmationStatus | null> {
+    const status = await this.connection.getSignatureStatus(signature, { searchTransactionHistory: true });
+    return status?.value?.confirmationStatus ?? null;
+  }
+
+  async getSignerTransactions(address: string, limit: number): Promise<LedgerTransaction[]> {
+    const signatures = await this.connection.getSignaturesForAddress(new PublicKey(address), { limit });
+
+    const transactions = await Promise.all(signatures.map(async (info) => {
+      try {
+        const transaction = await this.connection.getParsedTransaction(info.signature, {
+          commitment: 'confirmed',
+          maxSupportedTransactionVersion: 0
+        });
+        if (transaction) {
+          return this.toLedgerTransaction(info.signature, transaction, info.confirmationStatus ?? null);
+        }
+      } catch (error) {
+        logger.warn(`Failed to get transaction details for ${info.signature}:`, error);
+      }
+
+      // Signature listing without the transaction body
+      return {
+        signature: info.signature,
+        slot: info.slot,
+        blockTime: info.blockTime ?? null,
+        signer: address,
+        memo: info.memo,
+        memoData: null,
+        confirmationStatus: info.confirmationStatus ?? null,
+        err: info.err,
+        fee: 0
+      };
+    }));
+
+    return transactions.sort((a, b) => (b.blockTime || 0) - (a.blockTime || 0));
+  }
+
+  async requestAirdrop(address: string, sol: number): Promise<string> {
+    const signature = await this.connection.requestAirdrop(new PublicKey(address), sol * LAMPORTS_PER_SOL);
+    await this.connection.confirmTransaction(signature);
+    return signature;
+  }
+
+  async getBalance(address: string): Promise<number> {
+    const lamports = await this.connection.getBalance(new PublicKey(address));
+    return lamports / LAMPORTS_PER_SOL;
+  }
+
+  async getStatus(): Promise<LedgerStatus> {
+    try {
+      const blockHeight = await this.connection.getBlockHeight();
+      return { network: this.network, blockHeight, isHealthy: true };
+    } catch (error) {
+      logger.error('❌ Failed to get network status:', error);
+      return { network: this.network, blockHeight: 0, isHealthy: false };
+    }
+  }
+
+  explorerUrl(signature: string): string {
+    return `https://explorer.solana.com/tx/${signature}${this.isDevnet ? '?cluster=devnet' : ''}`;
+  }
+
+  private toLedgerTransaction(
+    signature: string,
+    transaction: ParsedTransactionWithMeta,
+    confirmationStatus: LedgerConfirmationStatus | null
+  ): LedgerTransaction {
+    const memoInstruction = transaction.transaction.message.instructions
+      .find(instruction => instruction.programId.toBase58() === MEMO_PROGRAM_ID);
+    const memo = memoInstruction && 'parsed' in memoInstruction && typeof memoInstruction.parsed === 'string'
+      ? memoInstruction.parsed
+      : null;
+    const feePayer = transaction.transaction.message.accountKeys[0];
+
+    return {
+      signature,
+      slot: transaction.slot,
+      blockTime: transaction.blockTime ?? null,
+      signer: feePayer ? feePayer.pubkey.toBase58() : null,
+      memo,
+      memoData: parseMemo(memo),
+      confirmationStatus,
+      err: transaction.meta?.err ?? null,
+      fee: transaction.meta?.fee || 0
+    };
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Permanent storage adapter
+ *
+ * Telemetry batches, mileage histories and vehicle documents are stored permanently and referred
+ * to by their transaction id. The adapter hides whether they go to Arweave or to a local
+ * content-addressed store used in tests and offline development.
+ */
+
+export interface StorageTag {
+  name: string;
+  value: string;
+}
+
+export interface StorageUploadResult {
+  id: string;
+  url: string;
+  explorerUrl: string;
+  size: number; // In bytes
+  cost: number; // In AR tokens
+}
+
+export interface StorageConfirmation {
+  block_height: number;
+  number_of_confirmations: number;
+}
+
+export interface StorageMetadata {
+  id: string;
+  owner: string;
+  target: string;
+  quantity: string;
+  reward: string;
+  last_tx: string;
+  tags: StorageTag[];
+  data_size: string;
+  status: number;
+  confirmed: StorageConfirmation | null;
+}
+
+export interface StorageVerification {
+  exists: boolean;
+  confirmed: boolean;
+  status: number;
+  blockHeight?: number;
+}
+
+export interface StorageNetworkInfo {
+  network: string;
+  height: number;
+  current: string;
+  blocks: number;
+  peers: number;
+}
+
+export interface PermanentStorageAdapter {
+  readonly name: 'arweave' | 'local';
+  readonly network: string;
+
+  upload(data: Buffer, tags: StorageTag[]): Promise<StorageUploadResult>;
+
+  getData(id: string): Promise<Buffer>;
+
+  getMetadata(id: string): Promise<StorageMetadata>;
+
+  verify(id: string): Promise<StorageVerification>;
+
+  /**
+   * Ids of the uploads carrying every one of the tags
+   */
+  search(tags: StorageTag[], limit: number): Promise<string[]>;
+
+  getNetworkInfo(): Promise<StorageNetworkInfo>;
+
+  estimateCost(dataSize: number): Promise<number>;
+
+  getBalance(address?: string): Promise<number>;
+}
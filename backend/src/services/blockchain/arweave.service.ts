@@ -1,6 +1,6 @@
-import Arweave from 'arweave';
 import { logger } from '../../utils/logger';
 import crypto from 'crypto';
+import { PermanentStorageAdapter, StorageMetadata, StorageTag, createStorageAdapter } from './adapters';
 
 // Interfaces
 export interface ArweaveDocument {
@@ -46,77 +46,26 @@ export interface VehicleArweaveRecord {
 }
 
 export class ArweaveService {
-  private arweave: Arweave;
-  private wallet: any;
-  private isTestnet: boolean;
-  private gatewayHost: string;
-  private gatewayProtocol: string;
-  private gatewayPort: number;
-  private gatewayBaseUrl: string;
-
-  constructor() {
-    // Initialize Arweave (mainnet by default, testnet for development)
-    this.isTestnet = process.env.NODE_ENV !== 'production';
-
-    // Allow override via env; otherwise choose sensible defaults
-    this.gatewayHost = process.env.ARWEAVE_HOST || (this.isTestnet ? 'testnet.redstone.tools' : 'arweave.net');
-    this.gatewayProtocol = process.env.ARWEAVE_PROTOCOL || 'https';
-    this.gatewayPort = Number(process.env.ARWEAVE_PORT || 443);
-    this.gatewayBaseUrl = `${this.gatewayProtocol}://${this.gatewayHost}${this.gatewayPort === 443 ? '' : `:${this.gatewayPort}`}`;
-
-    this.arweave = Arweave.init({
-      host: this.gatewayHost,
-      port: this.gatewayPort,
-      protocol: this.gatewayProtocol,
-      timeout: 20000,
-      logging: process.env.NODE_ENV === 'development'
-    });
-
-    // Keep initialization lightweight: don't perform network calls here
-    // such as balance checks. Wallet is prepared lazily for operations.
-    this.prepareWallet().catch((e) => {
-      logger.warn('⚠️ Arweave wallet preparation deferred:', e?.message || e);
-    });
-    logger.info(`🌐 Arweave Service initialized - ${this.isTestnet ? 'TESTNET' : 'MAINNET'}`);
+  private storage: PermanentStorageAdapter;
+
+  constructor(storage: PermanentStorageAdapter = createStorageAdapter()) {
+    this.storage = storage;
+    logger.info(`🌐 Arweave Service initialized - ${storage.network.toUpperCase()}`);
   }
 
   /**
-   * Prepare an in-memory wallet if available. Avoids any network calls.
+   * Network the uploads land on: testnet, mainnet or local
    */
-  private async prepareWallet(): Promise<void> {
-    try {
-      if (process.env.ARWEAVE_WALLET_KEY) {
-        this.wallet = JSON.parse(process.env.ARWEAVE_WALLET_KEY);
-      } else if (this.isTestnet) {
-        // Generating a wallet is purely local and does not hit network
-        this.wallet = await this.arweave.wallets.generate();
-        logger.info('🔑 Generated new Arweave testnet wallet');
-      } else {
-        logger.warn('⚠️ No Arweave wallet configured for production');
-        this.wallet = null;
-      }
-      // IMPORTANT: Do NOT fetch balances here to keep startup non-blocking
-    } catch (error) {
-      logger.error('❌ Failed to prepare Arweave wallet:', error);
-      this.wallet = null;
-    }
+  get network(): string {
+    return this.storage.network;
   }
 
   /**
-   * Get wallet balance (on-demand). Times out fast and returns null on failure.
+   * Get wallet balance (on-demand). Returns 0 on failure.
    */
   async getBalance(address?: string): Promise<number> {
     try {
-      const walletAddress = address || (this.wallet ? await this.arweave.wallets.jwkToAddress(this.wallet) : undefined);
-      if (!walletAddress) return 0;
-      const controller = new AbortController();
-      const timeout = setTimeout(() => controller.abort(), 5000);
-      try {
-        const winstonBalance = await this.arweave.wallets.getBalance(walletAddress);
-        return parseFloat(this.arweave.ar.winstonToAr(winstonBalance));
-      } finally {
-        clearTimeout(timeout);
-      }
+      return await this.storage.getBalance(address);
     } catch (error) {
       logger.warn('⚠️ Arweave balance fetch failed:', error);
       return 0;
@@ -128,8 +77,7 @@ export class ArweaveService {
    */
   async estimateCost(dataSize: number): Promise<number> {
     try {
-      const price = await this.arweave.transactions.getPrice(dataSize);
-      return parseFloat(this.arweave.ar.winstonToAr(price));
+      return await this.storage.estimateCost(dataSize);
     } catch (error) {
       logger.warn('⚠️ Failed to estimate Arweave cost (using 0 AR fallback):', error);
       return 0;
@@ -141,86 +89,51 @@ export class ArweaveService {
    */
   async uploadData(options: ArweaveUploadOptions): Promise<ArweaveUploadResult> {
     try {
-      if (!this.wallet) {
-        throw new Error('Arweave wallet not configured');
-      }
-
       const data = typeof options.data === 'string' ? Buffer.from(options.data) : options.data;
-      const dataSize = data.length;
-
-      // Estimate cost
-      const estimatedCost = await this.estimateCost(dataSize);
-      logger.info(`💰 Estimated Arweave upload cost: ${estimatedCost} AR for ${dataSize} bytes`);
-
-      // Create transaction
-      const transaction = await this.arweave.createTransaction({ data }, this.wallet);
 
       // Add tags for metadata
-      transaction.addTag('Content-Type', options.contentType);
-      transaction.addTag('File-Name', options.fileName);
-      transaction.addTag('App-Name', 'Trivexachain');
-      transaction.addTag('App-Version', '1.0.0');
-      transaction.addTag('Upload-Timestamp', new Date().toISOString());
+      const tags: StorageTag[] = [
+        { name: 'Content-Type', value: options.contentType },
+        { name: 'File-Name', value: options.fileName },
+        { name: 'App-Name', value: 'Trivexachain' },
+        { name: 'App-Version', value: '1.0.0' },
+        { name: 'Upload-Timestamp', value: new Date().toISOString() }
+      ];
 
       if (options.vehicleId) {
-        transaction.addTag('Vehicle-ID', options.vehicleId);
+        tags.push({ name: 'Vehicle-ID', value: options.vehicleId });
       }
       if (options.vin) {
-        transaction.addTag('VIN', options.vin);
+        tags.push({ name: 'VIN', value: options.vin });
       }
       if (options.documentType) {
-        transaction.addTag('Document-Type', options.documentType);
+        tags.push({ name: 'Document-Type', value: options.documentType });
       }
       if (options.userId) {
-        transaction.addTag('Uploaded-By', options.userId);
+        tags.push({ name: 'Uploaded-By', value: options.userId });
       }
 
       // Add custom metadata as tags
       if (options.metadata) {
         Object.entries(options.metadata).forEach(([key, value]) => {
-          transaction.addTag(`Meta-${key}`, String(value));
+          tags.push({ name: `Meta-${key}`, value: String(value) });
         });
       }
 
-      // Sign and submit transaction
-      await this.arweave.transactions.sign(transaction, this.wallet);
-      
-      // For testnet, we might need to fund the wallet first
-      if (this.isTestnet) {
-        try {
-          const walletAddress = await this.arweave.wallets.jwkToAddress(this.wallet);
-          const currentBalance = await this.getBalance(walletAddress);
-          
-          if (currentBalance < estimatedCost) {
-            logger.warn(`⚠️ Insufficient balance (${currentBalance} AR) for upload cost (${estimatedCost} AR)`);
-            // In testnet, you might need to get tokens from a faucet
-            // For now, we'll proceed anyway as testnet might be more lenient
-          }
-        } catch (balanceError) {
-          logger.warn('⚠️ Could not check balance before upload:', balanceError);
-        }
-      }
+      const upload = await this.storage.upload(data, tags);
+      logger.info(`💰 Arweave upload cost: ${upload.cost} AR for ${upload.size} bytes`);
 
-      const response = await this.arweave.transactions.post(transaction);
-      
-      if (response.status === 200 || response.status === 202) {
-        const result: ArweaveUploadResult = {
-          transactionId: transaction.id,
-          url: `${this.gatewayBaseUrl}/${transaction.id}`,
-          size: dataSize,
-          cost: estimatedCost,
-          permanent: true,
-          // For testnet, the gateway URL doubles as a viewer; for mainnet recommend ViewBlock
-          explorerUrl: this.isTestnet 
-            ? `${this.gatewayBaseUrl}/${transaction.id}`
-            : `https://viewblock.io/arweave/tx/${transaction.id}`
-        };
-
-        logger.info(`✅ Data uploaded to Arweave: ${transaction.id} (${dataSize} bytes)`);
-        return result;
-      } else {
-        throw new Error(`Upload failed with status: ${response.status}`);
-      }
+      const result: ArweaveUploadResult = {
+        transactionId: upload.id,
+        url: upload.url,
+        size: upload.size,
+        cost: upload.cost,
+        permanent: true,
+        explorerUrl: upload.explorerUrl
+      };
+
+      logger.info(`✅ Data uploaded to Arweave: ${upload.id} (${upload.size} bytes)`);
+      return result;
     } catch (error: any) {
       logger.error('❌ Failed to upload to Arweave:', error);
       throw new Error(`Arweave upload failed: ${error?.message || String(error)}`);
@@ -342,8 +255,7 @@ export class ArweaveService {
    */
   async getData(transactionId: string): Promise<Buffer> {
     try {
-      const data = await this.arweave.transactions.getData(transactionId, { decode: true, string: false });
-      return Buffer.from(data as Uint8Array);
+      return await this.storage.getData(transactionId);
     } catch (error: any) {
       logger.error(`❌ Failed to retrieve data from Arweave ${transactionId}:`, error);
       throw new Error(`Data retrieval failed: ${error?.message || String(error)}`);
@@ -353,26 +265,9 @@ export class ArweaveService {
   /**
    * Get transaction metadata
    */
-  async getTransactionMetadata(transactionId: string): Promise<any> {
+  async getTransactionMetadata(transactionId: string): Promise<StorageMetadata> {
     try {
-      const transaction = await this.arweave.transactions.get(transactionId);
-      const status = await this.arweave.transactions.getStatus(transactionId);
-      
-      return {
-        id: transaction.id,
-        owner: transaction.owner,
-        target: transaction.target,
-        quantity: transaction.quantity,
-        reward: transaction.reward,
-        last_tx: transaction.last_tx,
-        tags: transaction.tags.map(tag => ({
-          name: this.arweave.utils.b64UrlToString(tag.name),
-          value: this.arweave.utils.b64UrlToString(tag.value)
-        })),
-        data_size: transaction.data_size,
-        status: status.status,
-        confirmed: status.confirmed
-      };
+      return await this.storage.getMetadata(transactionId);
     } catch (error: any) {
       logger.error(`❌ Failed to get transaction metadata for ${transactionId}:`, error);
       throw new Error(`Metadata retrieval failed: ${error?.message || String(error)}`);
@@ -389,14 +284,7 @@ export class ArweaveService {
     blockHeight?: number;
   }> {
     try {
-      const status = await this.arweave.transactions.getStatus(transactionId);
-      
-      return {
-        exists: status.status !== 404,
-        confirmed: status.confirmed ? status.confirmed.number_of_confirmations > 0 : false,
-        status: status.status,
-        blockHeight: status.confirmed?.block_height
-      };
+      return await this.storage.verify(transactionId);
     } catch (error: any) {
       logger.error(`❌ Failed to verify transaction ${transactionId}:`, error);
       return {
@@ -412,51 +300,7 @@ export class ArweaveService {
    */
   async searchTransactions(tags: Array<{ name: string; value: string }>, limit: number = 10): Promise<string[]> {
     try {
-      const query = {
-        op: 'and',
-        expr1: {
-          op: 'equals',
-          expr1: 'App-Name',
-          expr2: 'Trivexachain'
-        },
-        expr2: tags.length > 1 ? {
-          op: 'and',
-          expr1: {
-            op: 'equals',
-            expr1: tags[0].name,
-            expr2: tags[0].value
-          },
-          expr2: tags.length > 1 ? {
-            op: 'equals',
-            expr1: tags[1].name,
-            expr2: tags[1].value
-          } : undefined
-        } : {
-          op: 'equals',
-          expr1: tags[0].name,
-          expr2: tags[0].value
-        }
-      };
-
-      const results = await this.arweave.api.post('graphql', {
-        query: `
-          query($tags: [TagFilter!], $first: Int!) {
-            transactions(tags: $tags, first: $first) {
-              edges {
-                node {
-                  id
-                }
-              }
-            }
-          }
-        `,
-        variables: {
-          tags: tags.map(tag => ({ name: tag.name, values: [tag.value] })),
-          first: limit
-        }
-      });
-
-      return results.data.data.transactions.edges.map((edge: any) => edge.node.id);
+      return await this.storage.search([{ name: 'App-Name', value: 'Trivexachain' }, ...tags], limit);
     } catch (error) {
       logger.error('❌ Failed to search Arweave transactions:', error);
       return [];
@@ -474,18 +318,11 @@ export class ArweaveService {
     peers: number;
   }> {
     try {
-      const info = await this.arweave.network.getInfo();
-      return {
-        network: this.isTestnet ? 'testnet' : 'mainnet',
-        height: info.height,
-        current: info.current,
-        blocks: info.blocks,
-        peers: info.peers
-      };
+      return await this.storage.getNetworkInfo();
     } catch (error) {
       logger.error('❌ Failed to get Arweave network info:', error);
       return {
-        network: this.isTestnet ? 'testnet' : 'mainnet',
+        network: this.storage.network,
         height: 0,
         current: '',
         blocks: 0,
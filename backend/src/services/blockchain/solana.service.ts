@@ -1,15 +1,8 @@
-import { 
-  Connection, 
-  Keypair, 
-  PublicKey, 
-  Transaction, 
-  SystemProgram,
-  sendAndConfirmTransaction,
-  LAMPORTS_PER_SOL,
-  TransactionInstruction
-} from '@solana/web3.js';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { config } from '../../config/environment';
 import { logger } from '../../utils/logger';
-import { Types } from 'mongoose';
+import { FraudRulesService } from '../core/fraudRules.service';
+import { LedgerAdapter, LedgerTransaction, createLedgerAdapter } from './adapters';
 
 // Interfaces
 export interface SolanaWallet {
@@ -40,58 +33,60 @@ export interface MileageBlockchainRecord {
   blockNumber: number;
 }
 
+export interface TelemetryBatchAnchor {
+  vehicleId: string;
+  vin: string;
+  date: string;
+  merkleRoot: string;
+  arweaveTx?: string;
+  totalDistance: number;
+  segmentsCount: number;
+}
+
 export class SolanaService {
-  private connection: Connection;
-  private programId: PublicKey;
+  private ledger: LedgerAdapter;
   private isDevnet: boolean;
 
-  constructor() {
+  constructor(ledger: LedgerAdapter = createLedgerAdapter()) {
     // Use Devnet for free development
     this.isDevnet = process.env.NODE_ENV !== 'production';
-    
-    // Use multiple RPC endpoints for better reliability
-    const rpcUrls = this.isDevnet 
-      ? [
-          'https://api.devnet.solana.com',
-          'https://devnet.helius-rpc.com',
-          'https://rpc-devnet.helius.xyz'
-        ]
-      : [
-          process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com',
-          'https://rpc.ankr.com/solana',
-          'https://solana-api.projectserum.com'
-        ];
-    
-    // Use the first RPC URL, with fallback capability
-    const rpcUrl = rpcUrls[0];
-    this.connection = new Connection(rpcUrl, {
-      commitment: 'confirmed',
-      confirmTransactionInitialTimeout: 60000,
-      disableRetryOnRateLimit: false
-    });
-    
-    // For now, use a placeholder program ID (we'll create the actual program later)
-    this.programId = new PublicKey('11111111111111111111111111111111');
-    
-    logger.info(`🔗 Solana Service initialized - ${this.isDevnet ? 'DEVNET' : 'MAINNET'}`);
-    
-    // Avoid performing any network calls during cold start. Consumers can call
-    // testConnection() on-demand if they need to validate connectivity.
-    // this.testConnection();
+    this.ledger = ledger;
+
+    logger.info(`🔗 Solana Service initialized - ${ledger.name === 'local' ? 'LOCAL LEDGER' : this.isDevnet ? 'DEVNET' : 'MAINNET'}`);
+  }
+
+  /**
+   * Network the memos land on: devnet, mainnet or local
+   */
+  get network(): string {
+    return this.ledger.network;
+  }
+
+  explorerUrl(signature: string): string | null {
+    return this.ledger.explorerUrl(signature);
   }
 
   /**
-   * Test the Solana RPC connection
+   * Platform wallet from PLATFORM_SOLANA_SECRET_KEY (a solana-keygen JSON byte array), or null
+   * when none is configured
    */
-  private async testConnection(): Promise<void> {
+  platformWallet(): SolanaWallet | null {
+    if (!config.PLATFORM_SOLANA_SECRET_KEY) {
+      return null;
+    }
+
+    let bytes: unknown;
     try {
-      const version = await this.connection.getVersion();
-      const slot = await this.connection.getSlot();
-      logger.info(`✅ Solana RPC connected - Version: ${version['solana-core']}, Slot: ${slot}, Network: ${this.isDevnet ? 'devnet' : 'mainnet'}`);
-    } catch (error) {
-      logger.error('❌ Failed to connect to Solana RPC:', error);
-      logger.warn('⚠️ Some blockchain features may not work properly');
+      bytes = JSON.parse(config.PLATFORM_SOLANA_SECRET_KEY);
+    } catch {
+      bytes = null;
     }
+    if (!Array.isArray(bytes) || bytes.length !== 64) {
+      throw new Error('PLATFORM_SOLANA_SECRET_KEY must be a JSON array of 64 bytes');
+    }
+
+    const keypair = Keypair.fromSecretKey(Uint8Array.from(bytes));
+    return { publicKey: keypair.publicKey.toBase58(), secretKey: keypair.secretKey, balance: 0 };
   }
 
   /**
@@ -107,14 +102,10 @@ export class SolanaService {
         balance: 0
       };
 
-      // In devnet, we can request airdrop for testing
-      if (this.isDevnet) {
+      // In devnet (and on the local ledger), we can request airdrop for testing
+      if (this.isDevnet || this.ledger.name === 'local') {
         try {
-          const airdropSignature = await this.connection.requestAirdrop(
-            keypair.publicKey,
-            0.1 * LAMPORTS_PER_SOL // 0.1 SOL for testing
-          );
-          await this.connection.confirmTransaction(airdropSignature);
+          await this.ledger.requestAirdrop(wallet.publicKey, 0.1); // 0.1 SOL for testing
           wallet.balance = 0.1;
           logger.info(`💰 Airdropped 0.1 SOL to wallet ${wallet.publicKey}`);
         } catch (airdropError) {
@@ -135,9 +126,7 @@ export class SolanaService {
    */
   async getBalance(publicKey: string): Promise<number> {
     try {
-      const pubKey = new PublicKey(publicKey);
-      const balance = await this.connection.getBalance(pubKey);
-      return balance / LAMPORTS_PER_SOL;
+      return await this.ledger.getBalance(new PublicKey(publicKey).toBase58());
     } catch (error) {
       logger.error(`❌ Failed to get balance for ${publicKey}:`, error);
       throw new Error(`Failed to get balance: ${error.message}`);
@@ -169,23 +158,7 @@ export class SolanaService {
       };
 
       // For now, we'll create a memo transaction to store the data
-      const transaction = new Transaction();
-      
-      // Add memo instruction with vehicle data
-      const memoInstruction = new TransactionInstruction({
-        keys: [],
-        programId: new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr'), // Memo program
-        data: Buffer.from(JSON.stringify(vehicleData))
-      });
-      
-      transaction.add(memoInstruction);
-
-      // Send transaction
-      const signature = await sendAndConfirmTransaction(
-        this.connection,
-        transaction,
-        [ownerKeypair]
-      );
+      const { signature } = await this.ledger.submitMemo(JSON.stringify(vehicleData), ownerKeypair);
 
       const record: VehicleBlockchainRecord = {
         vehicleId,
@@ -218,7 +191,7 @@ export class SolanaService {
       // Build a buyer-trust focused payload (full fields) and auto-fallback to compact if oversize
       const verboseInstallData = {
         type: 'INSTALLATION_STARTED',
-        network: this.isDevnet ? 'devnet' : 'mainnet',
+        network: this.network,
         vehicleId: (installationData.vehicleId?.toString() || 'unknown').slice(-12), // Keep some length for trust
         vin: (installationData.vin || 'unknown').slice(-12), // Keep some length for trust
         deviceId: (installationData.deviceId || 'unknown').slice(-8), // Truncate device ID
@@ -250,28 +223,13 @@ export class SolanaService {
 
       logger.info(`📝 Installation memo payload:`, JSON.stringify(installMemoPayload, null, 2));
 
-      const transaction = new Transaction();
-      
-      // Add memo instruction with selected payload
-      const memoInstruction = new TransactionInstruction({
-        keys: [],
-        programId: new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr'),
-        data: Buffer.from(JSON.stringify(installMemoPayload))
-      });
-      
-      transaction.add(memoInstruction);
-
-      const signature = await sendAndConfirmTransaction(
-        this.connection,
-        transaction,
-        [signerKeypair]
-      );
+      const { signature } = await this.ledger.submitMemo(JSON.stringify(installMemoPayload), signerKeypair);
 
       logger.info(`✅ Installation recorded on Solana: ${signature}`);
       return {
         transactionHash: signature,
         blockchainAddress: signerKeypair.publicKey.toString(),
-        network: this.isDevnet ? 'devnet' : 'mainnet'
+        network: this.network
       };
     } catch (error) {
       logger.error(`❌ Failed to record installation on Solana:`, error);
@@ -305,7 +263,7 @@ export class SolanaService {
       // FIXED: Build verbose buyer-trust payload with correct field names
       const verboseMileageData = {
         eventType: 'UPDATE_MILEAGE', // FIXED: Use eventType instead of type
-        network: this.isDevnet ? 'devnet' : 'mainnet',
+        network: this.network,
         vehicleId: vehicleId.slice(-12), // Keep some length for trust but not too long
         vin: vin.slice(-12), // Keep some length for trust but not too long
         previousMileage: previousMileage, // FIXED: Use previousMileage (not prevMileage)
@@ -343,25 +301,7 @@ export class SolanaService {
 
       logger.info(`📝 Final mileage memo payload:`, JSON.stringify(mileageMemoPayload, null, 2));
 
-      const transaction = new Transaction();
-      
-      // Add memo instruction with selected payload
-      const memoInstruction = new TransactionInstruction({
-        keys: [],
-        programId: new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr'),
-        data: Buffer.from(JSON.stringify(mileageMemoPayload))
-      });
-      
-      transaction.add(memoInstruction);
-
-      const signature = await sendAndConfirmTransaction(
-        this.connection,
-        transaction,
-        [ownerKeypair]
-      );
-
-      // Get block number for the transaction
-      const latestBlockhash = await this.connection.getLatestBlockhash();
+      const { signature, slot } = await this.ledger.submitMemo(JSON.stringify(mileageMemoPayload), ownerKeypair);
       
       const record: MileageBlockchainRecord = {
         vehicleId,
@@ -372,7 +312,7 @@ export class SolanaService {
         timestamp: new Date(),
         source,
         transactionHash: signature,
-        blockNumber: latestBlockhash.lastValidBlockHeight
+        blockNumber: slot
       };
 
       logger.info(`✅ Mileage recorded on blockchain: ${vin} ${previousMileage}->${newMileage} - TX: ${signature}`);
@@ -384,12 +324,50 @@ export class SolanaService {
   }
 
   /**
-   * Get transaction details from blockchain
+   * Record a consolidated telemetry batch on blockchain. The merkle root in the memo is what
+   * inclusion proofs for the batch's segments are checked against.
    */
-  async getTransaction(signature: string): Promise<any> {
+  async anchorTelemetryBatch(
+    batch: TelemetryBatchAnchor,
+    signerWallet: SolanaWallet
+  ): Promise<{ transactionHash: string; blockchainAddress: string; network: string; slot: number }> {
     try {
-      const transaction = await this.connection.getTransaction(signature);
-      return transaction;
+      const signerKeypair = Keypair.fromSecretKey(signerWallet.secretKey);
+
+      const batchData = {
+        action: 'ANCHOR_TELEMETRY_BATCH',
+        network: this.network,
+        vehicleId: batch.vehicleId,
+        vin: batch.vin,
+        date: batch.date,
+        merkleRoot: batch.merkleRoot,
+        arweaveTx: batch.arweaveTx,
+        totalDistance: batch.totalDistance,
+        segmentsCount: batch.segmentsCount,
+        timestamp: new Date().toISOString()
+      };
+
+      const { signature, slot } = await this.ledger.submitMemo(JSON.stringify(batchData), signerKeypair);
+
+      logger.info(`✅ Telemetry batch ${batch.date} of ${batch.vin} anchored on Solana: ${signature}`);
+      return {
+        transactionHash: signature,
+        blockchainAddress: signerKeypair.publicKey.toString(),
+        network: this.network,
+        slot
+      };
+    } catch (error) {
+      logger.error(`❌ Failed to anchor telemetry batch ${batch.date} of ${batch.vin}:`, error);
+      throw new Error(`Telemetry batch anchoring failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get transaction details, including the memo, from blockchain
+   */
+  async getTransaction(signature: string): Promise<LedgerTransaction | null> {
+    try {
+      return await this.ledger.getTransaction(signature);
     } catch (error) {
       logger.error(`❌ Failed to get transaction ${signature}:`, error);
       throw new Error(`Transaction lookup failed: ${error.message}`);
@@ -434,76 +412,12 @@ export class SolanaService {
         throw new Error('Invalid wallet address format');
       }
 
-      logger.info(`🔍 Creating PublicKey for wallet: ${walletAddress}`);
       const publicKey = new PublicKey(walletAddress);
-      logger.info(`✅ PublicKey created successfully`);
-      
-      // Get confirmed signatures for the wallet
-      const signatures = await this.connection.getSignaturesForAddress(publicKey, {
-        limit: limit
-      });
-
-      // Get transaction details for each signature
-      const transactions = await Promise.all(
-        signatures.map(async (signatureInfo) => {
-          try {
-            const transaction = await this.connection.getTransaction(signatureInfo.signature, {
-              commitment: 'confirmed',
-              maxSupportedTransactionVersion: 0
-            });
-
-            if (!transaction) return null;
-
-            // Extract memo data if it's a memo transaction
-            let memoData = null;
-            if (transaction.meta?.logMessages) {
-              for (const log of transaction.meta.logMessages) {
-                if (log.includes('Program MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr invoke')) {
-                  // This is a memo transaction, try to extract the data
-                  try {
-                    const memoLog = transaction.meta.logMessages.find(l => l.includes('Memo:'));
-                    if (memoLog) {
-                      const memoText = memoLog.split('Memo: ')[1];
-                      memoData = JSON.parse(memoText);
-                    }
-                  } catch (e) {
-                    // Ignore parsing errors
-                  }
-                  break;
-                }
-              }
-            }
-
-            return {
-              signature: signatureInfo.signature,
-              slot: signatureInfo.slot,
-              blockTime: signatureInfo.blockTime,
-              confirmationStatus: signatureInfo.confirmationStatus,
-              err: signatureInfo.err,
-              memo: signatureInfo.memo,
-              memoData: memoData,
-              fee: transaction.meta?.fee || 0,
-              explorerUrl: `https://explorer.solana.com/tx/${signatureInfo.signature}${this.isDevnet ? '?cluster=devnet' : ''}`
-            };
-          } catch (error) {
-            logger.warn(`Failed to get transaction details for ${signatureInfo.signature}:`, error);
-            return {
-              signature: signatureInfo.signature,
-              slot: signatureInfo.slot,
-              blockTime: signatureInfo.blockTime,
-              confirmationStatus: signatureInfo.confirmationStatus,
-              err: signatureInfo.err,
-              memo: signatureInfo.memo,
-              error: 'Failed to fetch transaction details',
-              explorerUrl: `https://explorer.solana.com/tx/${signatureInfo.signature}${this.isDevnet ? '?cluster=devnet' : ''}`
-            };
-          }
-        })
-      );
-
-      // Filter out null results and sort by block time (newest first)
+      const transactions = await this.ledger.getSignerTransactions(publicKey.toBase58(), limit);
+
+      // Newest first, with an explorer link where the network has one
       const validTransactions = transactions
-        .filter(tx => tx !== null)
+        .map(tx => ({ ...tx, explorerUrl: this.ledger.explorerUrl(tx.signature) }))
         .sort((a, b) => (b.blockTime || 0) - (a.blockTime || 0));
 
       logger.info(`📋 Retrieved ${validTransactions.length} transactions for wallet ${walletAddress}`);
@@ -515,41 +429,33 @@ export class SolanaService {
   }
 
   /**
-   * Detect potential fraud patterns
+   * Detect potential fraud patterns (fraud rules for blockchain-recorded mileage)
    */
   async detectFraud(vehicleId: string, newMileage: number, previousMileage: number): Promise<{
     isFraud: boolean;
     riskLevel: 'LOW' | 'MEDIUM' | 'HIGH';
     reasons: string[];
+    decisionId?: string;
   }> {
-    const reasons: string[] = [];
-    let riskLevel: 'LOW' | 'MEDIUM' | 'HIGH' = 'LOW';
-    let isFraud = false;
-
-    // Check for mileage rollback
-    if (newMileage < previousMileage) {
-      reasons.push('Mileage rollback detected');
-      riskLevel = 'HIGH';
-      isFraud = true;
-    }
-
-    // Check for unrealistic mileage jump
-    const mileageDiff = newMileage - previousMileage;
-    if (mileageDiff > 10000) { // More than 10k miles increase
-      reasons.push('Unrealistic mileage increase');
-      riskLevel = riskLevel === 'HIGH' ? 'HIGH' : 'MEDIUM';
-    }
+    const decision = await FraudRulesService.evaluate({
+      source: 'blockchain',
+      reportedMileage: newMileage,
+      previousMileage,
+      recordedAt: new Date()
+    }, { vehicleId });
+    await FraudRulesService.applyDecision(decision, {
+      vehicleId,
+      details: { reportedMileage: newMileage, previousMileage }
+    });
 
-    // Check for zero mileage (suspicious)
-    if (newMileage === 0 && previousMileage > 0) {
-      reasons.push('Mileage reset to zero');
-      riskLevel = 'HIGH';
-      isFraud = true;
-    }
+    const isFraud = decision.blocked;
+    const riskLevel = decision.severity === 'high' || decision.severity === 'critical'
+      ? 'HIGH'
+      : decision.severity === 'medium' ? 'MEDIUM' : 'LOW';
 
     logger.info(`🔍 Fraud detection for vehicle ${vehicleId}: ${isFraud ? 'FRAUD' : 'CLEAN'} - Risk: ${riskLevel}`);
     
-    return { isFraud, riskLevel, reasons };
+    return { isFraud, riskLevel, reasons: decision.matches.map(match => match.reason), decisionId: decision.decisionId };
   }
 
   /**
@@ -560,21 +466,7 @@ export class SolanaService {
     blockHeight: number;
     isHealthy: boolean;
   }> {
-    try {
-      const blockHeight = await this.connection.getBlockHeight();
-      return {
-        network: this.isDevnet ? 'devnet' : 'mainnet',
-        blockHeight,
-        isHealthy: true
-      };
-    } catch (error) {
-      logger.error('❌ Failed to get network status:', error);
-      return {
-        network: this.isDevnet ? 'devnet' : 'mainnet',
-        blockHeight: 0,
-        isHealthy: false
-      };
-    }
+    return this.ledger.getStatus();
   }
 
   /**
@@ -596,7 +488,7 @@ export class SolanaService {
       
       const transferData = {
         type: 'OWNERSHIP_TRANSFER',
-        network: this.isDevnet ? 'devnet' : 'mainnet',
+        network: this.network,
         vehicleId: vehicleId.slice(-12),
         vin: vin.slice(-12),
         fromOwnerId: fromOwnerId.slice(-8),
@@ -610,28 +502,13 @@ export class SolanaService {
 
       logger.info(`📝 Ownership transfer memo payload:`, JSON.stringify(transferData, null, 2));
 
-      const transaction = new Transaction();
-      
-      const memoInstruction = new TransactionInstruction({
-        keys: [],
-        programId: new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr'),
-        data: Buffer.from(JSON.stringify(transferData))
-      });
-      
-      transaction.add(memoInstruction);
-
-      const signature = await sendAndConfirmTransaction(
-        this.connection,
-        transaction,
-        [signerKeypair],
-        { commitment: 'confirmed' }
-      );
+      const { signature } = await this.ledger.submitMemo(JSON.stringify(transferData), signerKeypair);
 
       logger.info(`✅ Ownership transfer recorded on Solana: ${signature}`);
       return {
         transactionHash: signature,
         blockchainAddress: signerKeypair.publicKey.toString(),
-        network: this.isDevnet ? 'devnet' : 'mainnet',
+        network: this.network,
         simulated: false
       };
     } catch (error) {
@@ -646,12 +523,10 @@ export class SolanaService {
   async confirmTransaction(signature: string, maxRetries: number = 3): Promise<boolean> {
     try {
       for (let i = 0; i < maxRetries; i++) {
-        const status = await this.connection.getSignatureStatus(signature);
-        if (status && status.value && status.value.confirmationStatus) {
-          if (status.value.confirmationStatus === 'confirmed' || status.value.confirmationStatus === 'finalized') {
-            logger.info(`✅ Transaction ${signature} confirmed`);
-            return true;
-          }
+        const status = await this.ledger.getConfirmationStatus(signature);
+        if (status === 'confirmed' || status === 'finalized') {
+          logger.info(`✅ Transaction ${signature} confirmed`);
+          return true;
         }
         await new Promise(resolve => setTimeout(resolve, 2000)); // Wait 2s between retries
       }
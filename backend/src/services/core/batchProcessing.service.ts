@@ -4,6 +4,7 @@ import BatchData from '../../models/core/BatchData.model';
 import { Device, Vehicle, MileageHistory } from '../../models';
 import { getSolanaService } from '../blockchain/solana.service';
 import { walletService } from '../blockchain/wallet.service';
+import { FraudRulesService } from './fraudRules.service';
 import mongoose from 'mongoose';
 
 export interface TelemetryDataPoint {
@@ -288,24 +289,31 @@ export class BatchProcessingService {
       // This would require querying the blockchain for the vehicle's transaction history
       // For now, we'll validate against the database record
       
-      if (lastMileageRecord) {
-        // Check if batch start mileage matches last recorded mileage
-        const mileageDifference = Math.abs(batch.summary.startMileage - lastMileageRecord.mileage);
-        
-        if (mileageDifference > 100) { // Allow 100km tolerance
-          return {
-            isValid: false,
-            reason: `Large gap between last recorded mileage (${lastMileageRecord.mileage}) and batch start (${batch.summary.startMileage})`
-          };
-        }
-        
-        // Check for mileage rollback
-        if (batch.summary.endMileage < lastMileageRecord.mileage) {
-          return {
-            isValid: false,
-            reason: `Mileage rollback detected: ${lastMileageRecord.mileage} -> ${batch.summary.endMileage}`
-          };
+      const decision = await FraudRulesService.evaluate({
+        source: 'batch',
+        reportedMileage: batch.summary.endMileage,
+        batchStartMileage: batch.summary.startMileage,
+        previousMileage: lastMileageRecord?.mileage ?? null,
+        previousRecordedAt: lastMileageRecord?.recordedAt ?? null,
+        recordedAt: batch.tripEndTime || new Date()
+      }, { vehicleId: vehicle?._id || batch.vehicleId, subjectType: 'batch', subjectId: batch.batchId });
+      await FraudRulesService.applyDecision(decision, {
+        vehicleId: vehicle?._id || batch.vehicleId,
+        subjectType: 'batch',
+        subjectId: batch.batchId,
+        details: {
+          batchId: batch.batchId,
+          reportedMileage: batch.summary.endMileage,
+          previousMileage: lastMileageRecord?.mileage ?? null
         }
+      });
+
+      const blocking = decision.matches.filter(match => match.blocking);
+      if (blocking.length > 0) {
+        return {
+          isValid: false,
+          reason: blocking.map(match => match.reason).join('; ')
+        };
       }
       
       return { isValid: true };
@@ -0,0 +1,220 @@
+import crypto from 'crypto';
+import { Device, IDevice } from '../../models/core/Device.model';
+import { DeviceNonce } from '../../models/core/DeviceNonce.model';
+import { config } from '../../config/environment';
+import { AuthenticationError, NotFoundError, ServerError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import {
+  generateDeviceSecret,
+  verifyDeviceSignature,
+  isTimestampWithinSkew
+} from '../../utils/deviceSignature';
+
+export interface DeviceRequestCredentials {
+  deviceId: string;
+  timestamp: string;
+  nonce: string;
+  signature: string;
+  rawBody: Buffer | string;
+}
+
+export interface DeviceSecretResult {
+  deviceID: string;
+  secret: string;
+  secretVersion: number;
+  issuedAt: Date;
+  previousSecretExpiresAt?: Date;
+}
+
+const SECRET_FIELDS = '+security.secretCiphertext +security.previousSecretCiphertext';
+const DEV_ENCRYPTION_KEY = 'device-secret-encryption-key-change-this';
+
+let devKeyWarned = false;
+
+export class DeviceAuthService {
+  /**
+   * Encrypt a device secret for storage (AES-256-CBC, ivHex:cipherHex)
+   */
+  private static encryptSecret(secret: string): string {
+    const key = this.encryptionKey();
+    const iv = crypto.randomBytes(16);
+    const cipher = crypto.createCipheriv('aes-256-cbc', key, iv);
+
+    let encrypted = cipher.update(secret, 'utf8', 'hex');
+    encrypted += cipher.final('hex');
+
+    return iv.toString('hex') + ':' + encrypted;
+  }
+
+  /**
+   * Decrypt a stored device secret
+   */
+  private static decryptSecret(ciphertext: string): string {
+    const [ivHex, cipherHex] = ciphertext.split(':');
+    const key = this.encryptionKey();
+    const decipher = crypto.createDecipheriv('aes-256-cbc', key, Buffer.from(ivHex, 'hex'));
+
+    let decrypted = decipher.update(cipherHex, 'hex', 'utf8');
+    decrypted += decipher.final('utf8');
+
+    return decrypted;
+  }
+
+  /**
+   * AES key derived from DEVICE_SECRET_ENCRYPTION_KEY (or WALLET_ENCRYPTION_KEY); production
+   * refuses to store or read device secrets under the well-known development key
+   */
+  private static encryptionKey(): Buffer {
+    let secret = config.DEVICE_SECRET_ENCRYPTION_KEY;
+    if (!secret) {
+      if (config.NODE_ENV === 'production') {
+        throw new ServerError('Device secret encryption key is not configured');
+      }
+      if (!devKeyWarned) {
+        logger.warn('⚠️ DEVICE_SECRET_ENCRYPTION_KEY not set, using the development key');
+        devKeyWarned = true;
+      }
+      secret = DEV_ENCRYPTION_KEY;
+    }
+    return crypto.scryptSync(secret, 'device-secret', 32);
+  }
+
+  /**
+   * Issue the first secret for a device. The plaintext is returned once and never stored.
+   */
+  static async provisionSecret(deviceID: string): Promise<DeviceSecretResult> {
+    const secret = generateDeviceSecret();
+    const issuedAt = new Date();
+
+    const device = await Device.findOneAndUpdate(
+      { deviceID },
+      {
+        $set: {
+          'security.secretCiphertext': this.encryptSecret(secret),
+          'security.secretVersion': 1,
+          'security.secretIssuedAt': issuedAt,
+          'security.failedAuthCount': 0
+        },
+        $unset: {
+          'security.previousSecretCiphertext': '',
+          'security.previousSecretExpiresAt': ''
+        }
+      },
+      { new: true }
+    );
+
+    if (!device) {
+      throw new NotFoundError(`Device ${deviceID} not found`);
+    }
+
+    logger.info(`🔑 Device secret provisioned: ${deviceID}`);
+
+    return { deviceID, secret, secretVersion: 1, issuedAt };
+  }
+
+  /**
+   * Rotate a device secret. The previous secret stays valid for the grace period so
+   * the device can pick up the new one without losing readings.
+   */
+  static async rotateSecret(deviceID: string, graceHours: number = config.DEVICE_SECRET_ROTATION_GRACE_HOURS): Promise<DeviceSecretResult> {
+    const device = await Device.findOne({ deviceID }).select(SECRET_FIELDS);
+    if (!device) {
+      throw new NotFoundError(`Device ${deviceID} not found`);
+    }
+
+    if (!device.security?.secretCiphertext) {
+      return this.provisionSecret(deviceID);
+    }
+
+    const secret = generateDeviceSecret();
+    const issuedAt = new Date();
+    const previousSecretExpiresAt = new Date(issuedAt.getTime() + graceHours * 60 * 60 * 1000);
+    const secretVersion = (device.security.secretVersion || 0) + 1;
+
+    await Device.updateOne(
+      { _id: device._id },
+      {
+        $set: {
+          'security.previousSecretCiphertext': device.security.secretCiphertext,
+          'security.previousSecretExpiresAt': previousSecretExpiresAt,
+          'security.secretCiphertext': this.encryptSecret(secret),
+          'security.secretVersion': secretVersion,
+          'security.secretIssuedAt': issuedAt
+        }
+      }
+    );
+
+    logger.info(`🔄 Device secret rotated: ${deviceID} (v${secretVersion}, previous valid until ${previousSecretExpiresAt.toISOString()})`);
+
+    return { deviceID, secret, secretVersion, issuedAt, previousSecretExpiresAt };
+  }
+
+  /**
+   * Verify a signed device request: known device, fresh timestamp, valid HMAC and unused nonce.
+   * Returns the authenticated device on success.
+   */
+  static async verifyRequest(credentials: DeviceRequestCredentials): Promise<IDevice> {
+    const { deviceId, timestamp, nonce, signature, rawBody } = credentials;
+
+    if (!deviceId || !timestamp || !nonce || !signature) {
+      throw new AuthenticationError('Missing device authentication headers');
+    }
+
+    const timestampSeconds = Number(timestamp);
+    if (!isTimestampWithinSkew(timestampSeconds, config.DEVICE_AUTH_MAX_SKEW_SECONDS)) {
+      throw new AuthenticationError('Device request timestamp outside allowed clock skew');
+    }
+
+    const device = await Device.findOne({ deviceID: deviceId }).select(SECRET_FIELDS);
+    if (!device || !device.security?.secretCiphertext) {
+      throw new AuthenticationError('Unknown or unprovisioned device');
+    }
+
+    if (!device.isActive) {
+      throw new AuthenticationError('Device is deactivated');
+    }
+
+    const input = { deviceId, timestamp, nonce, body: rawBody };
+    let valid = verifyDeviceSignature(this.decryptSecret(device.security.secretCiphertext), input, signature);
+
+    // Accept the previous secret while a rotation grace period is running
+    if (!valid &&
+        device.security.previousSecretCiphertext &&
+        device.security.previousSecretExpiresAt &&
+        device.security.previousSecretExpiresAt > new Date()) {
+      valid = verifyDeviceSignature(this.decryptSecret(device.security.previousSecretCiphertext), input, signature);
+      if (valid) {
+        logger.info(`Device ${deviceId} authenticated with previous secret during rotation grace period`);
+      }
+    }
+
+    if (!valid) {
+      await Device.updateOne({ _id: device._id }, { $inc: { 'security.failedAuthCount': 1 } });
+      throw new AuthenticationError('Invalid device signature');
+    }
+
+    // Record the nonce; a duplicate key means the request was replayed
+    try {
+      await DeviceNonce.create({
+        deviceID: deviceId,
+        nonce,
+        expiresAt: new Date((timestampSeconds + config.DEVICE_AUTH_MAX_SKEW_SECONDS) * 1000 + 60 * 1000)
+      });
+    } catch (error: any) {
+      if (error?.code === 11000) {
+        logger.warn(`🚨 Replayed device request rejected: ${deviceId} nonce=${nonce}`);
+        throw new AuthenticationError('Replayed device request');
+      }
+      throw error;
+    }
+
+    await Device.updateOne(
+      { _id: device._id },
+      { $set: { 'security.lastAuthenticatedAt': new Date() } }
+    );
+
+    return device;
+  }
+}
+
+export default DeviceAuthService;
@@ -0,0 +1,197 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Device } from '../../models/core/Device.model';
+import {
+  DeviceCommand,
+  IDeviceCommand,
+  DeviceCommandType,
+  DeviceCommandStatus
+} from '../../models/core/DeviceCommand.model';
+import { config } from '../../config/environment';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+
+export const DEVICE_COMMAND_TYPES: DeviceCommandType[] = ['config_update', 'reboot', 'pid_rediscovery', 'firmware_check'];
+
+// Maximum number of commands handed to a device in one response
+const MAX_COMMANDS_PER_DELIVERY = 10;
+
+// Command as sent to the firmware
+export interface DeliveredCommand {
+  commandId: string;
+  type: DeviceCommandType;
+  payload?: Record<string, any>;
+}
+
+// Acknowledgement reported back by the firmware
+export interface CommandAck {
+  commandId: string;
+  status: 'ok' | 'error';
+  message?: string;
+  result?: Record<string, any>;
+}
+
+export class DeviceCommandService {
+  /**
+   * Queue a command for a device. A new config_update replaces any config_update
+   * that the device has not acknowledged yet.
+   */
+  static async enqueue(
+    deviceID: string,
+    type: DeviceCommandType,
+    payload?: Record<string, any>,
+    issuedBy?: string
+  ): Promise<IDeviceCommand> {
+    if (!DEVICE_COMMAND_TYPES.includes(type)) {
+      throw new ValidationError(`Unsupported command type: ${type}`);
+    }
+
+    const device = await Device.findOne({ deviceID });
+    if (!device) {
+      throw new NotFoundError(`Device ${deviceID} not found`);
+    }
+
+    if (type === 'config_update') {
+      await DeviceCommand.updateMany(
+        { deviceID, type: 'config_update', status: { $in: ['pending', 'delivered'] } },
+        { $set: { status: 'superseded' } }
+      );
+    }
+
+    const command = await DeviceCommand.create({
+      commandId: uuidv4(),
+      deviceID,
+      device: device._id,
+      type,
+      payload,
+      maxAttempts: config.DEVICE_COMMAND_MAX_ATTEMPTS,
+      expiresAt: new Date(Date.now() + config.DEVICE_COMMAND_TTL_HOURS * 60 * 60 * 1000),
+      issuedBy
+    });
+
+    logger.info(`📨 Command queued for ${deviceID}: ${type} (${command.commandId})`);
+
+    return command;
+  }
+
+  /**
+   * Hand out the commands a device still has to act on. Commands stay in the
+   * delivered state until acknowledged and are re-sent on later check-ins.
+   */
+  static async collectForDelivery(deviceID: string, via: 'http' | 'mqtt'): Promise<DeliveredCommand[]> {
+    const now = new Date();
+
+    await DeviceCommand.updateMany(
+      { deviceID, status: { $in: ['pending', 'delivered'] }, expiresAt: { $lte: now } },
+      { $set: { status: 'expired' } }
+    );
+
+    await DeviceCommand.updateMany(
+      { deviceID, status: 'delivered', $expr: { $gte: ['$deliveryAttempts', '$maxAttempts'] } },
+      { $set: { status: 'failed', error: 'Device did not acknowledge the command' } }
+    );
+
+    const commands = await DeviceCommand.find({ deviceID, status: { $in: ['pending', 'delivered'] } })
+      .sort({ createdAt: 1 })
+      .limit(MAX_COMMANDS_PER_DELIVERY);
+
+    if (commands.length === 0) {
+      return [];
+    }
+
+    await DeviceCommand.updateMany(
+      { _id: { $in: commands.map(c => c._id) } },
+      {
+        $set: { status: 'delivered', deliveredAt: now, deliveredVia: via },
+        $inc: { deliveryAttempts: 1 }
+      }
+    );
+
+    return commands.map(c => ({
+      commandId: c.commandId,
+      type: c.type,
+      ...(c.payload && { payload: c.payload })
+    }));
+  }
+
+  /**
+   * Record acknowledgements reported by a device. Unknown or already settled commands are ignored.
+   */
+  static async acknowledge(deviceID: string, acks: CommandAck[]): Promise<number> {
+    let settled = 0;
+
+    for (const ack of acks) {
+      if (!ack || typeof ack.commandId !== 'string' || (ack.status !== 'ok' && ack.status !== 'error')) {
+        logger.warn(`⚠️ Ignoring malformed command ack from ${deviceID}:`, ack);
+        continue;
+      }
+
+      const result = await DeviceCommand.updateOne(
+        { commandId: ack.commandId, deviceID, status: { $in: ['pending', 'delivered'] } },
+        {
+          $set: {
+            status: ack.status === 'ok' ? 'acknowledged' : 'failed',
+            acknowledgedAt: new Date(),
+            ...(ack.result && { result: ack.result }),
+            ...(ack.status === 'error' && { error: ack.message || 'Device reported an error' })
+          }
+        }
+      );
+
+      if (result.modifiedCount > 0) {
+        settled++;
+        logger.info(`✅ Command ${ack.commandId} ${ack.status === 'ok' ? 'acknowledged' : 'failed'} by ${deviceID}`);
+      }
+    }
+
+    return settled;
+  }
+
+  /**
+   * Settle the acks a device sent with a check-in and return the commands to deliver.
+   * Never throws: command delivery must not fail telemetry ingest.
+   */
+  static async exchange(deviceID: string, acks: unknown, via: 'http' | 'mqtt'): Promise<DeliveredCommand[]> {
+    try {
+      if (Array.isArray(acks) && acks.length > 0) {
+        await this.acknowledge(deviceID, acks as CommandAck[]);
+      }
+      return await this.collectForDelivery(deviceID, via);
+    } catch (error) {
+      logger.warn(`⚠️ Command exchange failed for ${deviceID}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Command history for a device with per-status counts
+   */
+  static async listForDevice(
+    deviceID: string,
+    options: { status?: DeviceCommandStatus; limit?: number } = {}
+  ): Promise<{ commands: IDeviceCommand[]; summary: Record<string, number> }> {
+    const filter: any = { deviceID };
+    if (options.status) {
+      filter.status = options.status;
+    }
+
+    const [commands, counts] = await Promise.all([
+      DeviceCommand.find(filter)
+        .sort({ createdAt: -1 })
+        .limit(Math.min(options.limit || 50, 200))
+        .populate('issuedBy', 'firstName lastName email'),
+      DeviceCommand.aggregate([
+        { $match: { deviceID } },
+        { $group: { _id: '$status', count: { $sum: 1 } } }
+      ])
+    ]);
+
+    const summary: Record<string, number> = { pending: 0, delivered: 0, acknowledged: 0, failed: 0, expired: 0, superseded: 0 };
+    counts.forEach((c: any) => {
+      summary[c._id] = c.count;
+    });
+
+    return { commands, summary };
+  }
+}
+
+export default DeviceCommandService;
@@ -0,0 +1,250 @@
+import mongoose from 'mongoose';
+import { Device, IDevice } from '../../models/core/Device.model';
+import { FraudAlert, IFraudAlert } from '../../models/core/FraudAlert.model';
+import MileageHistory from '../../models/core/MileageHistory.model';
+import Vehicle from '../../models/core/Vehicle.model';
+import { TrustScoreService } from './trustScore.service';
+import { VinBindingService } from './vinBinding.service';
+import { config } from '../../config/environment';
+import { logger } from '../../utils/logger';
+import {
+  evaluateBootCount,
+  isSilent,
+  silenceThresholdMinutes,
+  unreportedDistance
+} from '../../utils/deviceHeartbeat';
+
+// Devices that are fitted to a vehicle and expected to report
+const MONITORED_STATUSES = ['installed', 'active', 'error'];
+
+export interface CheckInReading {
+  status?: string;
+  vin?: string;
+  mileage?: number;
+  bootCount?: number;
+}
+
+export interface HeartbeatCheckResult {
+  markedOffline: number;
+  tamperAlerts: number;
+  failed: number; // Devices whose check threw; the rest of the fleet is still checked
+}
+
+export class DeviceHeartbeatService {
+  /**
+   * Scheduled check: mark installed devices that stopped reporting as offline and raise
+   * a tampering alert when their vehicle is seen elsewhere with higher mileage meanwhile.
+   */
+  static async checkSilentDevices(now: Date = new Date()): Promise<HeartbeatCheckResult> {
+    const result: HeartbeatCheckResult = { markedOffline: 0, tamperAlerts: 0, failed: 0 };
+    const baseThreshold = config.DEVICE_SILENCE_THRESHOLD_MINUTES;
+
+    const candidates = await Device.find({
+      vehicle: { $ne: null },
+      isActive: true,
+      status: { $in: MONITORED_STATUSES },
+      'heartbeat.state': { $ne: 'offline' },
+      lastSeen: { $lt: new Date(now.getTime() - baseThreshold * 60 * 1000) }
+    });
+
+    for (const device of candidates) {
+      const threshold = silenceThresholdMinutes(baseThreshold, device.configuration?.sleepDurationMinutes);
+      if (!isSilent(device.lastSeen, threshold, now)) {
+        continue;
+      }
+
+      try {
+        await Device.updateOne(
+          { _id: device._id },
+          { $set: { 'heartbeat.state': 'offline', 'heartbeat.offlineSince': device.lastSeen } }
+        );
+        result.markedOffline++;
+        logger.warn(`📴 Device ${device.deviceID} silent since ${device.lastSeen.toISOString()} (threshold ${threshold} min)`);
+      } catch (error) {
+        result.failed++;
+        logger.error(`❌ Failed to mark device ${device.deviceID} offline:`, error);
+      }
+    }
+
+    const offline = await Device.find({
+      vehicle: { $ne: null },
+      'heartbeat.state': 'offline',
+      'heartbeat.offlineSince': { $exists: true }
+    });
+
+    for (const device of offline) {
+      if (this.alreadyAlerted(device)) {
+        continue;
+      }
+
+      try {
+        // Mileage recorded by anyone but the device itself while the device was silent
+        const sighting = await MileageHistory.findOne({
+          vehicleId: device.vehicle,
+          source: { $ne: 'automated' },
+          recordedAt: { $gt: device.heartbeat.offlineSince }
+        }).sort({ mileage: -1 });
+
+        const distance = unreportedDistance(
+          device.heartbeat.lastKnownMileage,
+          sighting?.mileage,
+          config.DEVICE_SILENT_MILEAGE_TOLERANCE_KM
+        );
+
+        if (distance !== null) {
+          await this.raiseSilentMileageAlert(device, sighting.mileage, distance, `${sighting.source} record`);
+          result.tamperAlerts++;
+        }
+      } catch (error) {
+        result.failed++;
+        logger.error(`❌ Silent mileage check failed for device ${device.deviceID}:`, error);
+      }
+    }
+
+    if (result.markedOffline > 0 || result.tamperAlerts > 0 || result.failed > 0) {
+      logger.info(`💓 Heartbeat check: ${result.markedOffline} device(s) marked offline, ${result.tamperAlerts} tampering alert(s), ${result.failed} failed`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Evaluate a reading at check-in: boot counter continuity and whether the vehicle
+   * moved while the device was offline. Never throws; monitoring must not block ingest.
+   */
+  static async recordCheckIn(device: IDevice, reading: CheckInReading): Promise<void> {
+    try {
+      const now = new Date();
+      const update: Record<string, any> = {};
+      const unset: Record<string, ''> = {};
+
+      const boot = evaluateBootCount(device.health?.bootCount, reading.bootCount, config.DEVICE_BOOT_GAP_THRESHOLD);
+      if (boot.anomaly) {
+        logger.warn(`⚠️ Boot counter ${boot.anomaly} on ${device.deviceID}: ${device.health?.bootCount} -> ${reading.bootCount}`);
+        if (device.vehicle) {
+          await this.createAlert(device.vehicle, 'medium',
+            boot.anomaly === 'reset'
+              ? `Device ${device.deviceID} boot counter reset from ${device.health.bootCount} to ${reading.bootCount} (firmware reflash or device swap)`
+              : `Device ${device.deviceID} booted ${boot.delta} times between reports (expected 1); readings may be missing`,
+            `bootCount ${device.health.bootCount} -> ${reading.bootCount}`
+          );
+        }
+        update['heartbeat.lastBootAnomalyAt'] = now;
+      }
+
+      // Mileage reported from another vehicle says nothing about the paired one
+      const binding = reading.vin ? await VinBindingService.check(device, reading.vin) : null;
+      const mileage = reading.status === 'obd_connected' && reading.mileage > 0 && !binding?.mismatch
+        ? reading.mileage
+        : undefined;
+
+      if (device.heartbeat?.state === 'offline') {
+        const offlineSince = device.heartbeat.offlineSince || device.lastSeen;
+        const gapMinutes = offlineSince ? Math.round((now.getTime() - offlineSince.getTime()) / 60000) : undefined;
+
+        const distance = unreportedDistance(device.heartbeat.lastKnownMileage, mileage, config.DEVICE_SILENT_MILEAGE_TOLERANCE_KM);
+        if (distance !== null && !this.alreadyAlerted(device)) {
+          await this.raiseSilentMileageAlert(device, mileage, distance, 'device reconnect');
+        }
+
+        logger.info(`📶 Device ${device.deviceID} back online after ${gapMinutes ?? '?'} min`);
+        update['heartbeat.state'] = 'online';
+        update['heartbeat.lastGapMinutes'] = gapMinutes;
+        unset['heartbeat.offlineSince'] = '';
+      }
+
+      if (mileage !== undefined) {
+        update['heartbeat.lastKnownMileage'] = mileage;
+      }
+
+      if (Object.keys(update).length > 0 || Object.keys(unset).length > 0) {
+        await Device.updateOne(
+          { _id: device._id },
+          { ...(Object.keys(update).length > 0 && { $set: update }), ...(Object.keys(unset).length > 0 && { $unset: unset }) }
+        );
+      }
+    } catch (error) {
+      logger.error(`Heartbeat check-in evaluation failed for ${device.deviceID}:`, error);
+    }
+  }
+
+  private static alreadyAlerted(device: IDevice): boolean {
+    const { tamperAlertedAt, offlineSince } = device.heartbeat || ({} as IDevice['heartbeat']);
+    return !!(tamperAlertedAt && offlineSince && tamperAlertedAt >= offlineSince);
+  }
+
+  /**
+   * The vehicle covered distance the device never reported: likely unplugged
+   */
+  private static async raiseSilentMileageAlert(
+    device: IDevice,
+    observedMileage: number,
+    distance: number,
+    seenBy: string
+  ): Promise<void> {
+    const lastKnown = device.heartbeat.lastKnownMileage;
+    const penalty = config.DEVICE_TAMPER_TRUST_PENALTY;
+    const reason = `Device ${device.deviceID} silent while vehicle travelled ${distance} km (${lastKnown} -> ${observedMileage} km, ${seenBy})`;
+
+    const alert = await this.createAlert(device.vehicle, 'high', reason, `Offline since ${device.heartbeat.offlineSince?.toISOString()}`);
+
+    await Device.updateOne({ _id: device._id }, { $set: { 'heartbeat.tamperAlertedAt': new Date() } });
+
+    logger.error(`🚨 DEVICE TAMPERING: ${reason}`);
+
+    try {
+      const vehicleId = device.vehicle.toString();
+      const trustResult = await TrustScoreService.updateTrustScore({
+        vehicleId,
+        change: -penalty,
+        reason,
+        source: 'fraudEngine',
+        details: {
+          deviceId: device.deviceID,
+          fraudAlertId: alert?._id,
+          lastKnownMileage: lastKnown,
+          observedMileage,
+          offlineSince: device.heartbeat.offlineSince
+        },
+        eventTimestamp: new Date()
+      });
+
+      if (trustResult.success) {
+        await TrustScoreService.emitTrustScoreChange(
+          vehicleId,
+          trustResult.previousScore,
+          trustResult.newScore,
+          trustResult.eventId!,
+          reason,
+          -penalty
+        );
+      } else {
+        logger.error('Failed to update TrustScore:', trustResult.error);
+      }
+    } catch (trustError) {
+      logger.error('Failed to create trust event:', trustError);
+    }
+  }
+
+  private static async createAlert(
+    vehicleId: mongoose.Types.ObjectId,
+    severity: 'medium' | 'high',
+    description: string,
+    investigationNotes: string
+  ): Promise<IFraudAlert | null> {
+    const vehicle = await Vehicle.findById(vehicleId).select('ownerId');
+
+    return FraudAlert.create({
+      vehicleId,
+      alertType: 'device_tampering',
+      severity,
+      description,
+      reportedBy: vehicle?.ownerId,
+      reportedAt: new Date(),
+      status: 'active',
+      investigationNotes
+    });
+  }
+}
+
+export default DeviceHeartbeatService;
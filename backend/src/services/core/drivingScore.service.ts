@@ -0,0 +1,206 @@
+import mongoose from 'mongoose';
+import { VehicleTelemetry } from '../../models/core/VehicleTelemetry.model';
+import Vehicle, { IVehicleDocument } from '../../models/core/Vehicle.model';
+import { User } from '../../models/core/User.model';
+import { DrivingScore, IDrivingScore } from '../../models/core/DrivingScore.model';
+import { config } from '../../config/environment';
+import { logger } from '../../utils/logger';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+import {
+  createDrivingMetricsAccumulator,
+  DrivingScoreOptions,
+  scoreDrivingMetrics
+} from '../../utils/drivingScore';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const drivingScoreOptions = (): DrivingScoreOptions => ({
+  engineOnRpm: config.TRIP_ENGINE_ON_RPM,
+  maxIntervalSeconds: config.TRIP_GAP_MINUTES * 60,
+  maxSampleGapSeconds: config.DRIVING_SCORE_MAX_SAMPLE_GAP_SECONDS,
+  harshAccelKmhPerS: config.DRIVING_SCORE_HARSH_ACCEL_KMH_PER_S,
+  harshBrakeKmhPerS: config.DRIVING_SCORE_HARSH_BRAKE_KMH_PER_S,
+  speedLimitKmh: config.DRIVING_SCORE_SPEED_LIMIT_KMH,
+  nightStartHour: config.DRIVING_SCORE_NIGHT_START_HOUR,
+  nightEndHour: config.DRIVING_SCORE_NIGHT_END_HOUR,
+  utcOffsetMinutes: config.DRIVING_SCORE_UTC_OFFSET_MINUTES,
+  minDistanceKm: config.DRIVING_SCORE_MIN_DISTANCE_KM
+});
+
+// Scoring periods end at midnight UTC so reruns on the same day replace the same record
+export const currentPeriodEnd = (now: Date = new Date()): Date =>
+  new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+
+export interface InsurerConsentView {
+  insurerId: string;
+  email: string | null;
+  companyName: string | null;
+  grantedAt: Date;
+}
+
+export interface ConsentedVehicleScore {
+  vehicle: IVehicleDocument;
+  latest: IDrivingScore | null;
+}
+
+export class DrivingScoreService {
+  /**
+   * Score one vehicle over the period ending at periodEnd. Telemetry is streamed so a month of
+   * readings never sits in memory at once.
+   */
+  static async computeForVehicle(vehicleId: string, periodEnd: Date = currentPeriodEnd()): Promise<IDrivingScore> {
+    const options = drivingScoreOptions();
+    const periodStart = new Date(periodEnd.getTime() - config.DRIVING_SCORE_PERIOD_DAYS * DAY_MS);
+    const accumulator = createDrivingMetricsAccumulator(options);
+
+    const cursor = VehicleTelemetry.find({
+      vehicle: new mongoose.Types.ObjectId(vehicleId),
+      'rawData.receivedAt': { $gte: periodStart, $lt: periodEnd }
+    })
+      .sort({ 'rawData.receivedAt': 1 })
+      .select('status obd.rpm obd.speed rawData.receivedAt rawData.recordedAt')
+      .lean()
+      .cursor();
+
+    for await (const record of cursor as AsyncIterable<any>) {
+      const time = new Date(record.rawData?.recordedAt || record.rawData?.receivedAt);
+      if (time < periodStart || time >= periodEnd) continue;
+      accumulator.add({
+        time,
+        connected: record.status === 'obd_connected',
+        rpm: record.obd?.rpm,
+        speed: record.obd?.speed
+      });
+    }
+
+    const metrics = accumulator.result();
+    const { score, riskLevel, breakdown } = scoreDrivingMetrics(metrics, options);
+
+    return DrivingScore.findOneAndUpdate(
+      { vehicle: vehicleId, periodEnd },
+      { $set: { periodStart, score, riskLevel, breakdown, metrics, computedAt: new Date() } },
+      { upsert: true, new: true }
+    );
+  }
+
+  /**
+   * Score every vehicle that reported during the period
+   */
+  static async computeAll(periodEnd: Date = currentPeriodEnd()): Promise<number> {
+    const periodStart = new Date(periodEnd.getTime() - config.DRIVING_SCORE_PERIOD_DAYS * DAY_MS);
+    const vehicleIds = await VehicleTelemetry.distinct('vehicle', {
+      'rawData.receivedAt': { $gte: periodStart, $lt: periodEnd }
+    });
+
+    let scored = 0;
+    for (const vehicleId of vehicleIds) {
+      if (!vehicleId) continue;
+      try {
+        await this.computeForVehicle(String(vehicleId), periodEnd);
+        scored++;
+      } catch (error) {
+        logger.error(`❌ Failed to score driving for vehicle ${vehicleId}:`, error);
+      }
+    }
+
+    logger.info(`🚦 Driving scores computed for ${scored}/${vehicleIds.length} vehicle(s)`);
+    return scored;
+  }
+
+  /**
+   * Latest score first
+   */
+  static async getHistory(vehicleId: string, limit = 6): Promise<IDrivingScore[]> {
+    return DrivingScore.find({ vehicle: vehicleId })
+      .sort({ periodEnd: -1 })
+      .limit(Math.min(Math.max(1, limit), 52));
+  }
+
+  /**
+   * Consents granted by the current owner; grants from previous owners no longer apply
+   */
+  static activeConsents(vehicle: IVehicleDocument) {
+    // ownerId may be populated
+    const ownerId = String((vehicle.ownerId as any)?._id ?? vehicle.ownerId);
+    return (vehicle.insuranceConsents || [])
+      .filter(consent => String(consent.grantedBy) === ownerId);
+  }
+
+  /**
+   * Active consents with the insurer's contact details, for the owner's view
+   */
+  static async describeConsents(vehicle: IVehicleDocument): Promise<InsurerConsentView[]> {
+    const consents = this.activeConsents(vehicle);
+    const insurers = await User.find({ _id: { $in: consents.map(consent => consent.insurer) } })
+      .select('email roleData.companyName')
+      .lean();
+
+    return consents.map(consent => {
+      const insurer: any = insurers.find(user => String(user._id) === String(consent.insurer));
+      return {
+        insurerId: String(consent.insurer),
+        email: insurer?.email || null,
+        companyName: insurer?.roleData?.companyName || null,
+        grantedAt: consent.grantedAt
+      };
+    });
+  }
+
+  static hasInsurerConsent(vehicle: IVehicleDocument, insurerId: string): boolean {
+    return this.activeConsents(vehicle).some(consent => String(consent.insurer) === String(insurerId));
+  }
+
+  /**
+   * Allow an insurance user to read the vehicle's driving score
+   */
+  static async grantConsent(vehicle: IVehicleDocument, ownerId: string, insurerEmail: string): Promise<IVehicleDocument> {
+    if (typeof insurerEmail !== 'string' || insurerEmail.trim().length === 0) {
+      throw new ValidationError('insurerEmail is required');
+    }
+
+    const insurer = await User.findOne({ email: insurerEmail.trim().toLowerCase(), role: 'insurance' });
+    if (!insurer) {
+      throw new NotFoundError('No insurance provider with this email');
+    }
+
+    const consents = this.activeConsents(vehicle)
+      .filter(consent => String(consent.insurer) !== String(insurer._id));
+    consents.push({
+      insurer: new mongoose.Types.ObjectId(String(insurer._id)),
+      grantedBy: new mongoose.Types.ObjectId(ownerId),
+      grantedAt: new Date()
+    });
+    vehicle.insuranceConsents = consents;
+    await vehicle.save();
+
+    logger.info(`🤝 Owner ${ownerId} shared the driving score of vehicle ${vehicle._id} with insurer ${insurer._id}`);
+    return vehicle;
+  }
+
+  static async revokeConsent(vehicle: IVehicleDocument, insurerId: string): Promise<IVehicleDocument> {
+    vehicle.insuranceConsents = this.activeConsents(vehicle)
+      .filter(consent => String(consent.insurer) !== String(insurerId));
+    await vehicle.save();
+
+    logger.info(`🚫 Driving score of vehicle ${vehicle._id} is no longer shared with insurer ${insurerId}`);
+    return vehicle;
+  }
+
+  /**
+   * Vehicles whose current owner shares the driving score with this insurer, with their latest score
+   */
+  static async listForInsurer(insurerId: string): Promise<ConsentedVehicleScore[]> {
+    const vehicles = await Vehicle.find({ 'insuranceConsents.insurer': insurerId })
+      .populate('ownerId', 'firstName lastName email');
+    const consented = vehicles.filter(vehicle =>
+      this.activeConsents(vehicle).some(consent => String(consent.insurer) === String(insurerId))
+    );
+
+    return Promise.all(consented.map(async vehicle => ({
+      vehicle,
+      latest: await DrivingScore.findOne({ vehicle: vehicle._id }).sort({ periodEnd: -1 })
+    })));
+  }
+}
+
+export default DrivingScoreService;
@@ -0,0 +1,206 @@
+import mongoose from 'mongoose';
+import Vehicle, { IVehicleDocument } from '../../models/core/Vehicle.model';
+import { VehicleDtc, IVehicleDtc, DtcStatus } from '../../models/core/VehicleDtc.model';
+import { config } from '../../config/environment';
+import { logger } from '../../utils/logger';
+import { describeDtc, detectCodesCleared, normalizeDtc } from '../../utils/dtcCodes';
+
+// DTC block sent by the firmware with a reading
+export interface DtcScan {
+  confirmed?: string[]; // Mode 03 stored codes
+  pending?: string[]; // Mode 07 pending codes
+  milOn?: boolean;
+  distanceSinceClearedKm?: number; // PID 0x31
+  warmupsSinceCleared?: number; // PID 0x30
+}
+
+export interface DtcScanResult {
+  newCodes: string[];
+  closedCodes: string[];
+  codesCleared: boolean;
+}
+
+export interface ClearedBeforeListingSignal {
+  flagged: boolean;
+  reasons: string[];
+  lastCodesClearedAt?: Date;
+  daysBeforeReference?: number;
+  distanceSinceClearedKm?: number;
+  clearedCodes: Array<{ code: string; description: string; clearedAt: Date }>;
+}
+
+const OPEN_STATUSES: DtcStatus[] = ['pending', 'confirmed'];
+
+const uniqueCodes = (codes?: string[]): string[] =>
+  Array.from(new Set((codes || []).map(normalizeDtc).filter((code): code is string => !!code)));
+
+export class DtcService {
+  /**
+   * Reconcile a scan with the vehicle's open codes: new codes open an occurrence,
+   * pending codes are promoted when confirmed, and codes no longer reported are closed.
+   */
+  static async recordScan(
+    vehicle: IVehicleDocument,
+    deviceID: string,
+    scan: DtcScan,
+    mileage?: number,
+    observedAt: Date = new Date()
+  ): Promise<DtcScanResult> {
+    const confirmed = uniqueCodes(scan.confirmed);
+    const pending = uniqueCodes(scan.pending).filter(code => !confirmed.includes(code));
+    const reported = [...confirmed, ...pending];
+
+    const open = await VehicleDtc.find({ vehicle: vehicle._id, status: { $in: OPEN_STATUSES } });
+    const codesCleared = detectCodesCleared(
+      vehicle.diagnostics?.distanceSinceClearedKm,
+      scan.distanceSinceClearedKm,
+      open.length,
+      reported.length,
+      scan.milOn
+    );
+
+    // After a reset every open occurrence is over, even if the code comes straight back
+    const toClose = codesCleared ? open : open.filter(dtc => !reported.includes(dtc.code));
+    const stillOpen = new Map<string, IVehicleDtc>(
+      open.filter(dtc => !toClose.includes(dtc)).map(dtc => [dtc.code, dtc])
+    );
+
+    for (const dtc of toClose) {
+      dtc.status = 'cleared';
+      dtc.clearedAt = observedAt;
+      dtc.clearedBy = codesCleared ? 'reset' : 'self_healed';
+      dtc.clearedMileage = mileage;
+      await dtc.save();
+    }
+
+    const newCodes: string[] = [];
+    for (const code of reported) {
+      const isConfirmed = confirmed.includes(code);
+      const existing = stillOpen.get(code);
+
+      if (existing) {
+        existing.lastSeenAt = observedAt;
+        existing.lastSeenMileage = mileage ?? existing.lastSeenMileage;
+        existing.occurrences += 1;
+        if (isConfirmed && existing.status !== 'confirmed') {
+          existing.status = 'confirmed';
+          existing.confirmedAt = observedAt;
+        }
+        await existing.save();
+      } else {
+        await VehicleDtc.create({
+          vehicle: vehicle._id,
+          deviceID,
+          code,
+          description: describeDtc(code),
+          status: isConfirmed ? 'confirmed' : 'pending',
+          firstSeenAt: observedAt,
+          lastSeenAt: observedAt,
+          confirmedAt: isConfirmed ? observedAt : undefined,
+          firstSeenMileage: mileage,
+          lastSeenMileage: mileage
+        });
+        newCodes.push(code);
+      }
+    }
+
+    const diagnostics: Record<string, any> = {
+      'diagnostics.activeCodes': reported.length,
+      'diagnostics.lastScanAt': observedAt
+    };
+    if (typeof scan.milOn === 'boolean') {
+      diagnostics['diagnostics.milOn'] = scan.milOn;
+    }
+    if (typeof scan.distanceSinceClearedKm === 'number') {
+      diagnostics['diagnostics.distanceSinceClearedKm'] = scan.distanceSinceClearedKm;
+    }
+    if (codesCleared) {
+      diagnostics['diagnostics.lastCodesClearedAt'] = observedAt;
+      if (typeof mileage === 'number') {
+        diagnostics['diagnostics.lastCodesClearedMileage'] = mileage - (scan.distanceSinceClearedKm || 0);
+      }
+    }
+    await Vehicle.updateOne({ _id: vehicle._id }, { $set: diagnostics });
+
+    if (newCodes.length > 0) {
+      logger.warn(`🔧 New DTCs on vehicle ${vehicle._id}: ${newCodes.join(', ')}`);
+    }
+    if (codesCleared) {
+      logger.warn(`🧹 Trouble codes cleared on vehicle ${vehicle._id} (${toClose.length} open code(s) closed)`);
+    }
+
+    return { newCodes, closedCodes: toClose.map(dtc => dtc.code), codesCleared };
+  }
+
+  /**
+   * DTC history for a vehicle, newest first
+   */
+  static async getHistory(
+    vehicleId: string,
+    options: { status?: DtcStatus; limit?: number } = {}
+  ): Promise<{ codes: IVehicleDtc[]; summary: Record<DtcStatus, number> }> {
+    const filter: Record<string, any> = { vehicle: vehicleId };
+    if (options.status) {
+      filter.status = options.status;
+    }
+
+    const [codes, counts] = await Promise.all([
+      VehicleDtc.find(filter).sort({ lastSeenAt: -1 }).limit(Math.min(options.limit || 100, 500)),
+      VehicleDtc.aggregate([
+        { $match: { vehicle: new mongoose.Types.ObjectId(vehicleId) } },
+        { $group: { _id: '$status', count: { $sum: 1 } } }
+      ])
+    ]);
+
+    const summary: Record<DtcStatus, number> = { pending: 0, confirmed: 0, cleared: 0 };
+    counts.forEach((entry: { _id: DtcStatus; count: number }) => {
+      summary[entry._id] = entry.count;
+    });
+
+    return { codes, summary };
+  }
+
+  /**
+   * Whether trouble codes were wiped shortly before the reference date (usually the listing),
+   * which can hide engine faults from a buyer.
+   */
+  static async assessClearedBeforeListing(
+    vehicle: IVehicleDocument,
+    referenceDate: Date = new Date()
+  ): Promise<ClearedBeforeListingSignal> {
+    const lookbackStart = new Date(referenceDate.getTime() - config.DTC_CLEAR_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const reasons: string[] = [];
+    const diagnostics = vehicle.diagnostics;
+
+    const lastCodesClearedAt = diagnostics?.lastCodesClearedAt;
+    const clearedRecently = !!lastCodesClearedAt && lastCodesClearedAt >= lookbackStart && lastCodesClearedAt <= referenceDate;
+    if (clearedRecently) {
+      reasons.push(`Trouble codes were cleared within ${config.DTC_CLEAR_LOOKBACK_DAYS} days before listing`);
+    }
+
+    const distanceSinceClearedKm = diagnostics?.distanceSinceClearedKm;
+    if (typeof distanceSinceClearedKm === 'number' && distanceSinceClearedKm < config.DTC_CLEAR_MIN_DISTANCE_KM) {
+      reasons.push(`Only ${distanceSinceClearedKm} km driven since codes were last cleared`);
+    }
+
+    const cleared = await VehicleDtc.find({
+      vehicle: vehicle._id,
+      status: 'cleared',
+      clearedBy: 'reset',
+      clearedAt: { $gte: lookbackStart, $lte: referenceDate }
+    }).sort({ clearedAt: -1 });
+
+    return {
+      flagged: reasons.length > 0,
+      reasons,
+      lastCodesClearedAt,
+      daysBeforeReference: lastCodesClearedAt
+        ? Math.floor((referenceDate.getTime() - lastCodesClearedAt.getTime()) / (24 * 60 * 60 * 1000))
+        : undefined,
+      distanceSinceClearedKm,
+      clearedCodes: cleared.map(dtc => ({ code: dtc.code, description: dtc.description, clearedAt: dtc.clearedAt }))
+    };
+  }
+}
+
+export default DtcService;
@@ -0,0 +1,401 @@
+import mongoose from 'mongoose';
+import Vehicle from '../../models/core/Vehicle.model';
+import { VehicleTelemetry } from '../../models/core/VehicleTelemetry.model';
+import { FraudAlert } from '../../models/core/FraudAlert.model';
+import {
+  DuplicateRegistrationReport,
+  IDuplicateFinding,
+  IDuplicateRegistrationReport,
+  ITravelSighting
+} from '../../models/core/DuplicateRegistrationReport.model';
+import { config } from '../../config/environment';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import { emitToRoom } from '../../utils/socketEmitter';
+import { Sighting, TravelConflict, findImpossibleTravel, findNearDuplicateVins } from '../../utils/duplicateVin';
+
+const HOUR_MS = 60 * 60 * 1000;
+// Sightings of one identifier from one device closer together than this add nothing
+const SIGHTING_SAMPLE_MS = 5 * 60 * 1000;
+const FINDING_KINDS = ['impossible_travel', 'near_duplicate_vin', 'shared_registration'];
+
+interface RegisteredVehicle {
+  _id: mongoose.Types.ObjectId;
+  vin: string;
+  vehicleNumber: string;
+  ownerId: mongoose.Types.ObjectId;
+}
+
+interface SightingIndex {
+  byKey: Map<string, Sighting[]>;
+  lastKept: Map<string, number>;
+}
+
+export interface DuplicateReportQuery {
+  page?: number;
+  limit?: number;
+}
+
+const unique = (values: unknown[]): string[] => [...new Set(values.filter(Boolean).map(String))];
+
+const toObjectIds = (ids: unknown[]): mongoose.Types.ObjectId[] =>
+  unique(ids).map(id => new mongoose.Types.ObjectId(id));
+
+const addSighting = (index: SightingIndex, key: string, sighting: Sighting): void => {
+  const sampleKey = `${key}|${sighting.deviceId}`;
+  const time = sighting.at.getTime();
+  const last = index.lastKept.get(sampleKey);
+  if (last !== undefined && Math.abs(time - last) < SIGHTING_SAMPLE_MS) return;
+
+  index.lastKept.set(sampleKey, time);
+  const list = index.byKey.get(key);
+  if (list) list.push(sighting);
+  else index.byKey.set(key, [sighting]);
+};
+
+const toTravelSighting = (sighting: Sighting): ITravelSighting => ({
+  deviceId: sighting.deviceId,
+  vehicleId: sighting.vehicleId ? new mongoose.Types.ObjectId(sighting.vehicleId) : undefined,
+  latitude: sighting.latitude,
+  longitude: sighting.longitude,
+  at: sighting.at
+});
+
+export class DuplicateVinService {
+  /**
+   * Scan the fleet for cloned VINs and number plates, raise `duplicate_vin` alerts for new
+   * findings and store the run as a report
+   */
+  static async runDetection(now: Date = new Date()): Promise<IDuplicateRegistrationReport> {
+    const windowEnd = now;
+    const windowStart = new Date(now.getTime() - config.DUPLICATE_VIN_LOOKBACK_HOURS * HOUR_MS);
+    const settings = {
+      maxSpeedKmh: config.DUPLICATE_VIN_MAX_SPEED_KMH,
+      minDistanceKm: config.DUPLICATE_VIN_MIN_DISTANCE_KM
+    };
+
+    const vehicles = await Vehicle.find({}).select('vin vehicleNumber ownerId').lean<RegisteredVehicle[]>();
+    const byId = new Map(vehicles.map(vehicle => [String(vehicle._id), vehicle]));
+    const byVin = new Map(vehicles.map(vehicle => [vehicle.vin, vehicle]));
+
+    // Plates registered more than once are the only ones a plate clone can show up on
+    const byPlate = new Map<string, RegisteredVehicle[]>();
+    for (const vehicle of vehicles) {
+      if (!vehicle.vehicleNumber) continue;
+      byPlate.set(vehicle.vehicleNumber, [...(byPlate.get(vehicle.vehicleNumber) || []), vehicle]);
+    }
+    const sharedPlates = new Map([...byPlate].filter(([, registered]) => registered.length > 1));
+
+    const sightings = await this.collectSightings(windowStart, windowEnd, byId, sharedPlates);
+
+    const findings: IDuplicateFinding[] = [
+      ...this.travelFindings(sightings, byVin, byId, settings),
+      ...this.nearDuplicateFindings(vehicles, byVin),
+      ...this.sharedRegistrationFindings(sightings, sharedPlates, byVin, byId)
+    ];
+
+    let alertsCreated = 0;
+    for (const finding of findings) {
+      finding.fraudAlertIds = await this.raiseAlerts(finding, byId);
+      alertsCreated += finding.fraudAlertIds.length;
+    }
+
+    const report = await DuplicateRegistrationReport.create({
+      windowStart,
+      windowEnd,
+      settings,
+      vehiclesScanned: vehicles.length,
+      sightingsScanned: sightings.scanned,
+      findings,
+      alertsCreated
+    });
+
+    if (alertsCreated > 0) {
+      emitToRoom('admin', 'duplicate_registrations_detected', {
+        reportId: report._id.toString(),
+        findings: findings.length,
+        alertsCreated,
+        timestamp: new Date()
+      });
+    }
+
+    logger.info(`🪪 Duplicate registration scan: ${findings.length} finding(s), ${alertsCreated} new alert(s) across ${vehicles.length} vehicle(s) and ${sightings.scanned} sighting(s)`);
+    return report;
+  }
+
+  /**
+   * Reports, newest first, without their findings
+   */
+  static async listReports(query: DuplicateReportQuery = {}) {
+    const page = Math.max(1, Number(query.page) || 1);
+    const limit = Math.min(Math.max(1, Number(query.limit) || 20), 100);
+
+    const [reports, total] = await Promise.all([
+      DuplicateRegistrationReport.aggregate([
+        { $sort: { createdAt: -1 } },
+        { $skip: (page - 1) * limit },
+        { $limit: limit },
+        {
+          $project: {
+            windowStart: 1,
+            windowEnd: 1,
+            settings: 1,
+            vehiclesScanned: 1,
+            sightingsScanned: 1,
+            alertsCreated: 1,
+            createdAt: 1,
+            findingCount: { $size: '$findings' },
+            criticalCount: {
+              $size: { $filter: { input: '$findings', cond: { $eq: ['$$this.severity', 'critical'] } } }
+            }
+          }
+        }
+      ]),
+      DuplicateRegistrationReport.countDocuments()
+    ]);
+
+    return { reports, pagination: { page, limit, total, pages: Math.ceil(total / limit) } };
+  }
+
+  /**
+   * One report with its findings; `latest` returns the most recent run
+   */
+  static async getReport(reportId: string, kind?: string) {
+    if (kind && !FINDING_KINDS.includes(kind)) {
+      throw new ValidationError(`kind must be one of ${FINDING_KINDS.join(', ')}`);
+    }
+
+    if (reportId !== 'latest' && !mongoose.Types.ObjectId.isValid(reportId)) {
+      throw new ValidationError('Invalid report ID');
+    }
+
+    const query = reportId === 'latest'
+      ? DuplicateRegistrationReport.findOne().sort({ createdAt: -1 })
+      : DuplicateRegistrationReport.findById(reportId);
+    const report = await query
+      .populate('findings.vehicleIds', 'vin vehicleNumber make vehicleModel year')
+      .populate('findings.ownerIds', 'firstName lastName email')
+      .lean();
+
+    if (!report) {
+      throw new NotFoundError('Duplicate registration report not found');
+    }
+    if (kind) {
+      report.findings = report.findings.filter(finding => finding.kind === kind);
+    }
+    return report;
+  }
+
+  /**
+   * Readings with a location in the window, keyed by reported VIN and by shared plate
+   */
+  private static async collectSightings(
+    windowStart: Date,
+    windowEnd: Date,
+    byId: Map<string, RegisteredVehicle>,
+    sharedPlates: Map<string, RegisteredVehicle[]>
+  ): Promise<{ byVin: Map<string, Sighting[]>; byPlate: Map<string, Sighting[]>; scanned: number }> {
+    const vins: SightingIndex = { byKey: new Map(), lastKept: new Map() };
+    const plates: SightingIndex = { byKey: new Map(), lastKept: new Map() };
+    const plateVehicleIds = [...sharedPlates.values()].flat().map(vehicle => vehicle._id);
+
+    const cursor = VehicleTelemetry.find({
+      'rawData.receivedAt': { $gte: windowStart, $lt: windowEnd },
+      'location.latitude': { $exists: true },
+      $or: [
+        { vin: { $exists: true, $nin: [null, ''] } },
+        { vehicle: { $in: plateVehicleIds } }
+      ]
+    })
+      .sort({ 'rawData.receivedAt': 1 })
+      .select('deviceID vin vehicle quarantine.boundVehicle location rawData.recordedAt rawData.receivedAt')
+      .lean()
+      .cursor();
+
+    let scanned = 0;
+    for await (const reading of cursor as AsyncIterable<any>) {
+      scanned++;
+      // Quarantined readings are detached from the vehicle but remember which one the device is paired with
+      const vehicleId = reading.vehicle ? String(reading.vehicle)
+        : reading.quarantine?.boundVehicle ? String(reading.quarantine.boundVehicle) : undefined;
+      const sighting: Sighting = {
+        deviceId: reading.deviceID,
+        vehicleId,
+        latitude: reading.location.latitude,
+        longitude: reading.location.longitude,
+        accuracy: reading.location.accuracy,
+        at: new Date(reading.rawData?.recordedAt || reading.rawData?.receivedAt)
+      };
+
+      const vin = reading.vin?.trim().toUpperCase();
+      if (vin) addSighting(vins, vin, sighting);
+
+      const plate = vehicleId ? byId.get(vehicleId)?.vehicleNumber : undefined;
+      if (plate && sharedPlates.has(plate)) addSighting(plates, plate, sighting);
+    }
+
+    return { byVin: vins.byKey, byPlate: plates.byKey, scanned };
+  }
+
+  private static travelFindings(
+    sightings: { byVin: Map<string, Sighting[]>; byPlate: Map<string, Sighting[]> },
+    byVin: Map<string, RegisteredVehicle>,
+    byId: Map<string, RegisteredVehicle>,
+    settings: { maxSpeedKmh: number; minDistanceKm: number }
+  ): IDuplicateFinding[] {
+    const options = { ...settings, maxFixAccuracyM: config.GPS_ODOMETER_MAX_FIX_ACCURACY_M };
+    const findings: IDuplicateFinding[] = [];
+
+    const build = (identifierType: 'vin' | 'vehicleNumber', identifier: string, list: Sighting[], conflicts: TravelConflict[]) => {
+      const [fastest] = conflicts;
+      const registered = identifierType === 'vin' ? [byVin.get(identifier)].filter(Boolean) : [];
+      const vehicleIds = toObjectIds([
+        ...registered.map(vehicle => vehicle._id),
+        ...list.map(sighting => sighting.vehicleId)
+      ]);
+      const label = identifierType === 'vin' ? 'VIN' : 'Number plate';
+
+      findings.push({
+        kind: 'impossible_travel',
+        identifierType,
+        identifier,
+        severity: 'critical',
+        summary: `${label} ${identifier} reported by devices ${fastest.from.deviceId} and ${fastest.to.deviceId} ` +
+          `${fastest.distanceKm} km apart within ${fastest.hours} h (${fastest.speedKmh} km/h)`,
+        vins: identifierType === 'vin' ? [identifier] : unique(vehicleIds.map(id => byId.get(String(id))?.vin)),
+        vehicleIds,
+        ownerIds: toObjectIds(vehicleIds.map(id => byId.get(String(id))?.ownerId)),
+        deviceIds: unique(list.map(sighting => sighting.deviceId)),
+        travel: {
+          from: toTravelSighting(fastest.from),
+          to: toTravelSighting(fastest.to),
+          distanceKm: fastest.distanceKm,
+          hours: fastest.hours,
+          speedKmh: fastest.speedKmh,
+          conflicts: conflicts.length
+        },
+        fingerprint: `impossible_travel:${identifierType}:${identifier}`,
+        fraudAlertIds: []
+      });
+    };
+
+    for (const [vin, list] of sightings.byVin) {
+      const conflicts = findImpossibleTravel(list, options);
+      if (conflicts.length > 0) build('vin', vin, list, conflicts);
+    }
+    for (const [plate, list] of sightings.byPlate) {
+      const conflicts = findImpossibleTravel(list, options);
+      if (conflicts.length > 0) build('vehicleNumber', plate, list, conflicts);
+    }
+
+    return findings;
+  }
+
+  private static nearDuplicateFindings(vehicles: RegisteredVehicle[], byVin: Map<string, RegisteredVehicle>): IDuplicateFinding[] {
+    return findNearDuplicateVins(vehicles.map(vehicle => vehicle.vin)).map(pair => {
+      const registered = pair.vins.map(vin => byVin.get(vin));
+      const ownerIds = toObjectIds(registered.map(vehicle => vehicle.ownerId));
+      const suspect = pair.invalidCheckDigit;
+      const other = pair.vins.find(vin => vin !== suspect);
+
+      return {
+        kind: 'near_duplicate_vin' as const,
+        identifierType: 'vin' as const,
+        identifier: suspect,
+        // A near copy of someone else's VIN is worse than a typo between one owner's vehicles
+        severity: ownerIds.length > 1 ? 'high' as const : 'medium' as const,
+        summary: `VIN ${suspect} fails the check digit and differs from registered VIN ${other} only at position ${pair.position}` +
+          (ownerIds.length > 1 ? '; the two are registered by different owners' : ''),
+        vins: pair.vins,
+        vehicleIds: toObjectIds(registered.map(vehicle => vehicle._id)),
+        ownerIds,
+        deviceIds: [],
+        fingerprint: `near_duplicate_vin:${pair.vins.join(':')}`,
+        fraudAlertIds: []
+      };
+    });
+  }
+
+  /**
+   * One identifier in use on vehicles of different owners: a plate registered twice, or a VIN
+   * reported by devices paired with other owners' vehicles
+   */
+  private static sharedRegistrationFindings(
+    sightings: { byVin: Map<string, Sighting[]> },
+    sharedPlates: Map<string, RegisteredVehicle[]>,
+    byVin: Map<string, RegisteredVehicle>,
+    byId: Map<string, RegisteredVehicle>
+  ): IDuplicateFinding[] {
+    const findings: IDuplicateFinding[] = [];
+
+    const build = (identifierType: 'vin' | 'vehicleNumber', identifier: string, registered: RegisteredVehicle[], deviceIds: string[]) => {
+      const ownerIds = toObjectIds(registered.map(vehicle => vehicle.ownerId));
+      if (ownerIds.length < 2) return;
+
+      const label = identifierType === 'vin' ? 'VIN' : 'Number plate';
+      findings.push({
+        kind: 'shared_registration',
+        identifierType,
+        identifier,
+        severity: 'high',
+        summary: `${label} ${identifier} is in use on ${registered.length} vehicles of ${ownerIds.length} different owners`,
+        vins: unique(registered.map(vehicle => vehicle.vin)),
+        vehicleIds: toObjectIds(registered.map(vehicle => vehicle._id)),
+        ownerIds,
+        deviceIds,
+        fingerprint: `shared_registration:${identifierType}:${identifier}`,
+        fraudAlertIds: []
+      });
+    };
+
+    for (const [plate, registered] of sharedPlates) {
+      build('vehicleNumber', plate, registered, []);
+    }
+
+    for (const [vin, list] of sightings.byVin) {
+      const registered = unique([byVin.get(vin)?._id, ...list.map(sighting => sighting.vehicleId)])
+        .map(id => byId.get(id))
+        .filter(Boolean);
+      build('vin', vin, registered, unique(list.map(sighting => sighting.deviceId)));
+    }
+
+    return findings;
+  }
+
+  /**
+   * One alert per vehicle in the finding, unless an open or dismissed one already covers it
+   */
+  private static async raiseAlerts(finding: IDuplicateFinding, byId: Map<string, RegisteredVehicle>): Promise<mongoose.Types.ObjectId[]> {
+    const raised: mongoose.Types.ObjectId[] = [];
+
+    for (const vehicleId of finding.vehicleIds) {
+      const known = await FraudAlert.exists({
+        vehicleId,
+        alertType: 'duplicate_vin',
+        fingerprint: finding.fingerprint,
+        status: { $in: ['active', 'investigating', 'false_positive'] }
+      });
+      if (known) continue;
+
+      const alert = await FraudAlert.create({
+        vehicleId,
+        alertType: 'duplicate_vin',
+        severity: finding.severity,
+        description: finding.summary,
+        reportedBy: byId.get(String(vehicleId))?.ownerId,
+        reportedAt: new Date(),
+        status: 'active',
+        fingerprint: finding.fingerprint,
+        investigationNotes: [
+          finding.vins.length > 0 && `VINs: ${finding.vins.join(', ')}`,
+          finding.deviceIds.length > 0 && `Devices: ${finding.deviceIds.join(', ')}`
+        ].filter(Boolean).join('; ') || undefined
+      });
+
+      logger.error(`🚨 FRAUD ALERT: ${finding.summary} (alert ${alert._id})`);
+      raised.push(alert._id as mongoose.Types.ObjectId);
+    }
+
+    return raised;
+  }
+}
@@ -0,0 +1,389 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import Vehicle from '../../models/core/Vehicle.model';
+import { Device } from '../../models/core/Device.model';
+import { VehicleTelemetry } from '../../models/core/VehicleTelemetry.model';
+import { FraudAlert } from '../../models/core/FraudAlert.model';
+import { FraudDecision } from '../../models/core/FraudDecision.model';
+import { TrustEvent } from '../../models/core/TrustEvent.model';
+import MileageHistory from '../../models/core/MileageHistory.model';
+import { DeviceCommand } from '../../models/core/DeviceCommand.model';
+import { DeviceNonce } from '../../models/core/DeviceNonce.model';
+import { VehicleTrip } from '../../models/core/VehicleTrip.model';
+import { DrivingScore } from '../../models/core/DrivingScore.model';
+import { HourlyTelemetryRollup, DailyTelemetryRollup } from '../../models/core/TelemetryRollup.model';
+import { VehicleDtc } from '../../models/core/VehicleDtc.model';
+import { UsageBaseline } from '../../models/core/UsageBaseline.model';
+import BatchData from '../../models/core/BatchData.model';
+import { TelemetryBatch } from '../../models/TelemetryBatch.model';
+import { DeviceAuthService } from './deviceAuth.service';
+import { buildDeviceAuthHeaders } from '../../utils/deviceSignature';
+import { logger } from '../../utils/logger';
+import {
+  ExpectedAlert,
+  ExpectedAlertType,
+  SimulatedDevice,
+  SimulatedDeviceProfile,
+  SimulatedFault,
+  SimulatorEvent
+} from '../../utils/telemetrySimulator';
+
+// Characters allowed in a VIN (no I, O or Q)
+const VIN_ALPHABET = 'ABCDEFGHJKLMNPRSTUVWXYZ0123456789';
+
+export interface SimulatorResponse {
+  status: number;
+  body: any;
+}
+
+/**
+ * How simulated devices reach the ingest API: real HTTP for load tests, supertest in integration tests
+ */
+export interface SimulatorTransport {
+  post(path: string, body: string, headers: Record<string, string>): Promise<SimulatorResponse>;
+}
+
+export interface ProvisionedDevice {
+  deviceID: string;
+  vin: string;
+  vehicleId: string;
+  secret: string;
+}
+
+export interface SimulatedFleetDevice {
+  device: SimulatedDevice;
+  provisioned: ProvisionedDevice;
+}
+
+export interface LatencySummary {
+  requests: number;
+  accepted: number;
+  flagged: number;
+  errors: number;
+  errorRate: number;
+  latencyMs: { mean: number; p50: number; p95: number; p99: number; max: number };
+  byStatus: Record<string, number>;
+}
+
+export interface AlertCheck {
+  deviceID: string;
+  type: ExpectedAlertType;
+  tick: number;
+  found: boolean;
+}
+
+export interface SimulationReport {
+  runId: string;
+  devices: number;
+  durationSeconds: number;
+  throughputPerSecond: number;
+  status: LatencySummary;
+  batch: LatencySummary;
+  alerts: AlertCheck[];
+}
+
+interface RequestSample {
+  kind: SimulatorEvent['kind'];
+  status: number; // 0 when the request never got a response
+  latencyMs: number;
+}
+
+export const createHttpTransport = (baseUrl: string, timeoutMs = 10000): SimulatorTransport => {
+  const client = axios.create({ baseURL: baseUrl, timeout: timeoutMs, validateStatus: () => true });
+  return {
+    async post(path, body, headers) {
+      const response = await client.post(path, body, { headers: { 'Content-Type': 'application/json', ...headers } });
+      return { status: response.status, body: response.data };
+    }
+  };
+};
+
+/**
+ * Short random run ID usable inside device IDs and VINs
+ */
+export const createRunId = (): string =>
+  Array.from(crypto.randomBytes(5), byte => VIN_ALPHABET[byte % VIN_ALPHABET.length]).join('');
+
+export const simulatedVin = (runId: string, index: number, prefix = 'SMX'): string =>
+  `${prefix}${runId}${String(index).padStart(9, '0')}`;
+
+export const simulatedDeviceId = (runId: string, index: number): string =>
+  `SIM-${runId}-${String(index).padStart(4, '0')}`;
+
+const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+  return sorted[Math.max(0, index)];
+};
+
+/**
+ * Latency and outcome summary. 422 is the ingest API flagging fraud, not a failure.
+ */
+export const summarizeRequests = (samples: Array<{ status: number; latencyMs: number }>): LatencySummary => {
+  const latencies = samples.map(sample => sample.latencyMs).sort((a, b) => a - b);
+  const byStatus: Record<string, number> = {};
+  let accepted = 0;
+  let flagged = 0;
+
+  for (const sample of samples) {
+    byStatus[sample.status] = (byStatus[sample.status] || 0) + 1;
+    if (sample.status >= 200 && sample.status < 300) accepted++;
+    else if (sample.status === 422) flagged++;
+  }
+
+  const errors = samples.length - accepted - flagged;
+  const round = (value: number) => Math.round(value * 10) / 10;
+  return {
+    requests: samples.length,
+    accepted,
+    flagged,
+    errors,
+    errorRate: samples.length > 0 ? round((errors / samples.length) * 100) / 100 : 0,
+    latencyMs: {
+      mean: latencies.length > 0 ? round(latencies.reduce((sum, value) => sum + value, 0) / latencies.length) : 0,
+      p50: round(percentile(latencies, 50)),
+      p95: round(percentile(latencies, 95)),
+      p99: round(percentile(latencies, 99)),
+      max: round(latencies[latencies.length - 1] || 0)
+    },
+    byStatus
+  };
+};
+
+/**
+ * True when the ingest API flagged an odometer rollback in this response
+ */
+const reportsRollback = (event: SimulatorEvent, response: SimulatorResponse): boolean => {
+  if (event.kind === 'status') {
+    return response.status === 422 && response.body?.data?.validationStatus === 'ROLLBACK_DETECTED';
+  }
+  const results: Array<{ validationStatus?: string }> = response.body?.data?.results || [];
+  return results.some(result => result.validationStatus === 'ROLLBACK_DETECTED');
+};
+
+export class FleetSimulatorService {
+  /**
+   * Create a vehicle and a paired device with a fresh signing secret for each simulated dongle
+   */
+  static async provision(runId: string, count: number, startMileage = 40000): Promise<ProvisionedDevice[]> {
+    const provisioned: ProvisionedDevice[] = [];
+
+    for (let index = 0; index < count; index++) {
+      const vin = simulatedVin(runId, index);
+      const deviceID = simulatedDeviceId(runId, index);
+      const ownerId = new mongoose.Types.ObjectId();
+
+      const vehicle = await Vehicle.create({
+        vin,
+        vehicleNumber: `SIM${runId}${index}`,
+        ownerId,
+        make: 'Simulated',
+        vehicleModel: 'Fleet',
+        year: 2022,
+        color: 'White',
+        bodyType: 'sedan',
+        fuelType: 'gasoline',
+        transmission: 'automatic',
+        currentMileage: startMileage,
+        lastVerifiedMileage: startMileage,
+        condition: 'good'
+      });
+
+      await Device.create({
+        deviceID,
+        deviceType: 'ESP32_Telematics',
+        status: 'installed',
+        vehicle: vehicle._id,
+        installationRequest: {
+          requestedBy: ownerId,
+          requestedAt: new Date(),
+          priority: 'medium'
+        }
+      });
+      const { secret } = await DeviceAuthService.provisionSecret(deviceID);
+
+      provisioned.push({ deviceID, vin, vehicleId: vehicle._id.toString(), secret });
+    }
+
+    logger.info(`🧪 Provisioned ${count} simulated device(s) for run ${runId}`);
+    return provisioned;
+  }
+
+  /**
+   * Remove everything a run created, including what the API derived from its readings
+   */
+  static async cleanup(runId: string, provisioned: ProvisionedDevice[]): Promise<void> {
+    const vehicleIds = provisioned.map(device => new mongoose.Types.ObjectId(device.vehicleId));
+    const deviceIds = provisioned.map(device => device.deviceID);
+
+    await Promise.all([
+      VehicleTelemetry.deleteMany({ deviceID: { $in: deviceIds } }),
+      FraudAlert.deleteMany({ vehicleId: { $in: vehicleIds } }),
+      FraudDecision.deleteMany({ vehicleId: { $in: vehicleIds } }),
+      TrustEvent.deleteMany({ vehicleId: { $in: vehicleIds } }),
+      MileageHistory.deleteMany({ vehicleId: { $in: vehicleIds } }),
+      DeviceCommand.deleteMany({ deviceID: { $in: deviceIds } }),
+      DeviceNonce.deleteMany({ deviceID: { $in: deviceIds } }),
+      VehicleTrip.deleteMany({ vehicle: { $in: vehicleIds } }),
+      DrivingScore.deleteMany({ vehicle: { $in: vehicleIds } }),
+      HourlyTelemetryRollup.deleteMany({ vehicle: { $in: vehicleIds } }),
+      DailyTelemetryRollup.deleteMany({ vehicle: { $in: vehicleIds } }),
+      VehicleDtc.deleteMany({ vehicle: { $in: vehicleIds } }),
+      UsageBaseline.deleteMany({ vehicleId: { $in: vehicleIds } }),
+      BatchData.deleteMany({ deviceID: { $in: deviceIds } }),
+      TelemetryBatch.deleteMany({ vehicleId: { $in: vehicleIds } }),
+      Device.deleteMany({ deviceID: { $in: deviceIds } }),
+      Vehicle.deleteMany({ _id: { $in: vehicleIds } })
+    ]);
+
+    logger.info(`🧹 Removed simulated fleet ${runId}`);
+  }
+
+  /**
+   * Build the simulated devices; every `faultEvery`-th device gets one fault, cycling through the types
+   */
+  static buildFleet(
+    runId: string,
+    provisioned: ProvisionedDevice[],
+    options: {
+      seed: number;
+      ticks: number;
+      faultEvery: number;
+      faultTypes: Array<SimulatedFault['type']>;
+      startMileage?: number;
+    } & Pick<SimulatedDeviceProfile, 'silenceThresholdMinutes' | 'silentMileageToleranceKm'>
+  ): SimulatedFleetDevice[] {
+    let faultIndex = 0;
+
+    return provisioned.map((device, index) => {
+      const faults: SimulatedFault[] = [];
+      if (options.faultEvery > 0 && options.faultTypes.length > 0 && index % options.faultEvery === 0) {
+        const type = options.faultTypes[faultIndex++ % options.faultTypes.length];
+        const atTick = Math.max(1, Math.floor(options.ticks / 3));
+        const ticks = Math.max(1, Math.floor(options.ticks / 3));
+        if (type === 'rollback') faults.push({ type, atTick, km: 5000 });
+        else if (type === 'vin_swap') faults.push({ type, atTick, ticks, vin: simulatedVin(runId, index, 'SMY') });
+        else faults.push({ type, atTick, ticks });
+      }
+
+      return {
+        provisioned: device,
+        device: new SimulatedDevice({
+          deviceID: device.deviceID,
+          vin: device.vin,
+          startMileage: options.startMileage ?? 40000,
+          // Spread the fleet around Bengaluru
+          location: { latitude: 12.97 + (index % 10) * 0.01, longitude: 77.59 + Math.floor(index / 10) * 0.01 },
+          seed: options.seed + index,
+          faults,
+          silenceThresholdMinutes: options.silenceThresholdMinutes,
+          silentMileageToleranceKm: options.silentMileageToleranceKm
+        })
+      };
+    });
+  }
+
+  /**
+   * Sign and send one simulator event
+   */
+  static async send(transport: SimulatorTransport, fleetDevice: SimulatedFleetDevice, event: SimulatorEvent): Promise<SimulatorResponse> {
+    const { deviceID, secret } = fleetDevice.provisioned;
+    const path = event.kind === 'status' ? '/api/device/status' : '/api/device/status/batch';
+    const body = JSON.stringify(event.kind === 'status' ? event.reading : event.body);
+    return transport.post(path, body, buildDeviceAuthHeaders(secret, deviceID, body));
+  }
+
+  /**
+   * Drive the fleet in real time: each device sends every `intervalSeconds`, staggered across the
+   * interval so requests do not arrive in bursts. Then check that the expected fraud alerts exist.
+   */
+  static async run(
+    runId: string,
+    fleet: SimulatedFleetDevice[],
+    transport: SimulatorTransport,
+    options: { ticks: number; intervalSeconds: number; alertWaitSeconds?: number }
+  ): Promise<SimulationReport> {
+    const samples: RequestSample[] = [];
+    const rollbackTicks = new Map<string, number[]>();
+    const intervalMs = options.intervalSeconds * 1000;
+    const startedAt = Date.now();
+
+    await Promise.all(fleet.map(async (fleetDevice, index) => {
+      const offset = Math.floor((index / fleet.length) * intervalMs);
+      for (let tick = 0; tick < options.ticks; tick++) {
+        const wait = startedAt + offset + tick * intervalMs - Date.now();
+        if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+
+        for (const event of fleetDevice.device.next(new Date())) {
+          const sentAt = Date.now();
+          try {
+            const response = await this.send(transport, fleetDevice, event);
+            samples.push({ kind: event.kind, status: response.status, latencyMs: Date.now() - sentAt });
+            if (reportsRollback(event, response)) {
+              const ticks = rollbackTicks.get(fleetDevice.provisioned.deviceID) || [];
+              ticks.push(event.tick);
+              rollbackTicks.set(fleetDevice.provisioned.deviceID, ticks);
+            }
+          } catch (error) {
+            samples.push({ kind: event.kind, status: 0, latencyMs: Date.now() - sentAt });
+            logger.warn(`Simulated ${event.kind} request from ${fleetDevice.provisioned.deviceID} failed: ${error instanceof Error ? error.message : error}`);
+          }
+        }
+      }
+    }));
+
+    const durationSeconds = (Date.now() - startedAt) / 1000;
+
+    // Alerts raised outside the request path may land a moment later
+    if (options.alertWaitSeconds) {
+      await new Promise(resolve => setTimeout(resolve, options.alertWaitSeconds! * 1000));
+    }
+    const alerts = await this.checkAlerts(fleet, rollbackTicks);
+
+    return {
+      runId,
+      devices: fleet.length,
+      durationSeconds: Math.round(durationSeconds * 10) / 10,
+      throughputPerSecond: durationSeconds > 0 ? Math.round((samples.length / durationSeconds) * 10) / 10 : 0,
+      status: summarizeRequests(samples.filter(sample => sample.kind === 'status')),
+      batch: summarizeRequests(samples.filter(sample => sample.kind === 'batch')),
+      alerts
+    };
+  }
+
+  /**
+   * Rollbacks are confirmed by the ingest response; VIN swaps and unplugs by the FraudAlert they raise
+   */
+  static async checkAlerts(fleet: SimulatedFleetDevice[], rollbackTicks: Map<string, number[]>): Promise<AlertCheck[]> {
+    const checks: AlertCheck[] = [];
+
+    for (const { device, provisioned } of fleet) {
+      for (const expected of device.expectedAlerts) {
+        checks.push({
+          deviceID: provisioned.deviceID,
+          type: expected.type,
+          tick: expected.tick,
+          found: await this.alertRaised(provisioned, expected, rollbackTicks.get(provisioned.deviceID) || [])
+        });
+      }
+    }
+
+    return checks;
+  }
+
+  private static async alertRaised(provisioned: ProvisionedDevice, expected: ExpectedAlert, rollbackTicks: number[]): Promise<boolean> {
+    if (expected.type === 'odometer_rollback') {
+      return rollbackTicks.some(tick => tick >= expected.tick);
+    }
+
+    const alert = await FraudAlert.exists({
+      vehicleId: new mongoose.Types.ObjectId(provisioned.vehicleId),
+      alertType: expected.type,
+      reportedAt: { $gte: new Date(expected.at.getTime() - 60 * 1000) }
+    });
+    return !!alert;
+  }
+}
+
+export default FleetSimulatorService;
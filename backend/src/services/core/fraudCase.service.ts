@@ -0,0 +1,348 @@
+import mongoose from 'mongoose';
+import { FraudAlert, IFraudAlert } from '../../models/core/FraudAlert.model';
+import { ITrustEvent, TrustEvent } from '../../models/core/TrustEvent.model';
+import { User } from '../../models/core/User.model';
+import { ConflictError, NotFoundError, ValidationError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import { FRAUD_RULE_SEVERITIES } from '../../utils/fraudRules';
+import {
+  CLOSED_FRAUD_CASE_STATUSES,
+  FRAUD_CASE_SORTS,
+  FRAUD_CASE_STATUSES,
+  FraudCaseSort,
+  FraudCaseStatus,
+  canTransition,
+  trustAdjustmentFor
+} from '../../utils/fraudCases';
+import { TrustScoreService } from './trustScore.service';
+
+const MAX_PAGE_SIZE = 100;
+
+export interface FraudCaseQuery {
+  status?: string; // Comma-separated; defaults to open cases
+  severity?: string; // Comma-separated
+  alertType?: string;
+  assignedTo?: string; // 'me', 'unassigned' or a user id
+  vehicleId?: string;
+  sort?: string;
+  page?: number | string;
+  limit?: number | string;
+}
+
+export interface FraudCaseQueue {
+  alerts: IFraudAlert[];
+  counts: Record<string, number>; // Per severity, for the filters in effect apart from severity
+  pagination: { page: number; limit: number; total: number; pages: number };
+}
+
+export interface TrustSyncResult {
+  change: number;
+  eventId?: string;
+  previousScore?: number;
+  newScore?: number;
+}
+
+const CASE_POPULATE = [
+  { path: 'vehicleId', select: 'vin make vehicleModel year trustScore ownerId' },
+  { path: 'assignedTo', select: 'firstName lastName email' },
+  { path: 'resolvedBy', select: 'firstName lastName email' },
+  { path: 'notes.author', select: 'firstName lastName email' },
+  { path: 'statusHistory.changedBy', select: 'firstName lastName email' }
+];
+
+const parseList = <T extends string>(value: string | undefined, allowed: readonly T[], field: string): T[] | undefined => {
+  if (!value) return undefined;
+  const items = value.split(',').map(item => item.trim()).filter(Boolean);
+  const unknown = items.filter(item => !allowed.includes(item as T));
+  if (unknown.length > 0) {
+    throw new ValidationError(`Unknown ${field} ${unknown.join(', ')}; expected ${allowed.join(', ')}`);
+  }
+  return items as T[];
+};
+
+const toObjectId = (id: string, field: string): mongoose.Types.ObjectId => {
+  if (!mongoose.isValidObjectId(id)) {
+    throw new ValidationError(`${field} must be a valid id`);
+  }
+  return new mongoose.Types.ObjectId(id);
+};
+
+export class FraudCaseService {
+  /**
+   * Alert queue for investigators. Open cases (active and investigating) by default,
+   * most severe first and oldest first within a severity.
+   */
+  static async listQueue(query: FraudCaseQuery, userId?: string): Promise<FraudCaseQueue> {
+    const statuses = parseList(query.status, FRAUD_CASE_STATUSES, 'status') || ['active', 'investigating'];
+    const severities = parseList(query.severity, FRAUD_RULE_SEVERITIES, 'severity');
+    const sort = (query.sort || 'severity') as FraudCaseSort;
+    if (!FRAUD_CASE_SORTS.includes(sort)) {
+      throw new ValidationError(`sort must be one of ${FRAUD_CASE_SORTS.join(', ')}`);
+    }
+
+    const page = Math.max(1, parseInt(String(query.page ?? 1), 10) || 1);
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(String(query.limit ?? 20), 10) || 20));
+
+    const match: Record<string, unknown> = { status: { $in: statuses } };
+    if (query.alertType) match.alertType = query.alertType;
+    if (query.vehicleId) match.vehicleId = toObjectId(query.vehicleId, 'vehicleId');
+    if (query.assignedTo === 'unassigned') {
+      match.assignedTo = null;
+    } else if (query.assignedTo === 'me') {
+      match.assignedTo = toObjectId(userId || '', 'assignedTo');
+    } else if (query.assignedTo) {
+      match.assignedTo = toObjectId(query.assignedTo, 'assignedTo');
+    }
+
+    const filtered = severities ? { ...match, severity: { $in: severities } } : match;
+    const order: Record<string, 1 | -1> = sort === 'severity'
+      ? { severityRank: -1, reportedAt: 1, _id: 1 }
+      : { reportedAt: sort === 'newest' ? -1 : 1, _id: 1 };
+
+    const [rows, total, severityCounts] = await Promise.all([
+      FraudAlert.aggregate([
+        { $match: filtered },
+        { $addFields: { severityRank: { $indexOfArray: [FRAUD_RULE_SEVERITIES, '$severity'] } } },
+        { $sort: order },
+        { $skip: (page - 1) * limit },
+        { $limit: limit },
+        { $project: { severityRank: 0 } }
+      ]),
+      FraudAlert.countDocuments(filtered),
+      FraudAlert.aggregate([
+        { $match: match },
+        { $group: { _id: '$severity', count: { $sum: 1 } } }
+      ])
+    ]);
+
+    const alerts = await FraudAlert.populate(rows, CASE_POPULATE.slice(0, 2)) as unknown as IFraudAlert[];
+    const counts = Object.fromEntries(FRAUD_RULE_SEVERITIES.map(severity => [
+      severity,
+      severityCounts.find(row => row._id === severity)?.count || 0
+    ]));
+
+    return {
+      alerts,
+      counts,
+      pagination: { page, limit, total, pages: Math.ceil(total / limit) }
+    };
+  }
+
+  /**
+   * A case with its notes, history and the trust events it caused
+   */
+  static async getCase(alertId: string): Promise<{ alert: IFraudAlert; trustEvents: ITrustEvent[] }> {
+    const alert = await this.findAlert(alertId);
+    await alert.populate(CASE_POPULATE);
+    const trustEvents = await TrustEvent.find({ 'details.fraudAlertId': alert._id }).sort({ createdAt: 1 });
+    return { alert, trustEvents };
+  }
+
+  /**
+   * Hand a case to an admin, or pass null to unassign. Picking up an active case starts the investigation.
+   */
+  static async assign(alertId: string, assigneeId: string | null, userId?: string): Promise<IFraudAlert> {
+    const alert = await this.findAlert(alertId);
+
+    let update: Record<string, unknown> = { $set: { assignedTo: null, assignedAt: null } };
+    if (assigneeId) {
+      const assignee = mongoose.isValidObjectId(assigneeId)
+        ? await User.findOne({ _id: assigneeId, role: 'admin', isActive: { $ne: false } }).select('_id')
+        : null;
+      if (!assignee) {
+        throw new ValidationError('Fraud alerts can only be assigned to an active admin');
+      }
+      update = { $set: { assignedTo: assignee._id, assignedAt: new Date() } };
+      if (alert.status === 'active') {
+        (update.$set as Record<string, unknown>).status = 'investigating';
+        update.$push = { statusHistory: this.transition('active', 'investigating', userId, 'Assigned for investigation') };
+      }
+    }
+
+    const saved = await FraudAlert.findOneAndUpdate({ _id: alert._id, status: alert.status }, update, { new: true });
+    if (!saved) {
+      throw new ConflictError('The alert was changed by someone else; reload and try again');
+    }
+
+    logger.info(`🕵️ Fraud alert ${saved._id} ${assigneeId ? `assigned to ${assigneeId}` : 'unassigned'}`);
+    return saved.populate(CASE_POPULATE);
+  }
+
+  static async addNote(alertId: string, text: unknown, userId: string): Promise<IFraudAlert> {
+    if (typeof text !== 'string' || !text.trim()) {
+      throw new ValidationError('Note text is required');
+    }
+    const alert = await this.updateAlert(alertId, {
+      $push: { notes: { author: new mongoose.Types.ObjectId(userId), text: text.trim(), createdAt: new Date() } }
+    });
+    return alert.populate(CASE_POPULATE);
+  }
+
+  /**
+   * Attach links to evidence (photos, documents, reports) stored elsewhere
+   */
+  static async addEvidence(alertId: string, urls: unknown): Promise<IFraudAlert> {
+    const list = (Array.isArray(urls) ? urls : [urls]).map(url => (typeof url === 'string' ? url.trim() : url));
+    if (list.length === 0 || list.some(url => typeof url !== 'string' || !/^https?:\/\/\S+$/.test(url))) {
+      throw new ValidationError('Evidence must be one or more http(s) URLs');
+    }
+
+    const alert = await this.updateAlert(alertId, { $addToSet: { evidence: { $each: list } } });
+    return alert.populate(CASE_POPULATE);
+  }
+
+  /**
+   * Move a case through the workflow and bring the vehicle's trust score in line with the outcome
+   */
+  static async changeStatus(
+    alertId: string,
+    status: unknown,
+    note: unknown,
+    userId?: string
+  ): Promise<{ alert: IFraudAlert; trust: TrustSyncResult }> {
+    if (!FRAUD_CASE_STATUSES.includes(status as FraudCaseStatus)) {
+      throw new ValidationError(`status must be one of ${FRAUD_CASE_STATUSES.join(', ')}`);
+    }
+    const to = status as FraudCaseStatus;
+    const text = typeof note === 'string' ? note.trim() : '';
+    if (CLOSED_FRAUD_CASE_STATUSES.includes(to) && !text) {
+      throw new ValidationError(`A note is required to mark an alert ${to}`);
+    }
+
+    const alert = await this.findAlert(alertId);
+    const from = alert.status;
+    if (!canTransition(from, to)) {
+      throw new ValidationError(`Cannot move a fraud alert from ${from} to ${to}`);
+    }
+
+    const closed = CLOSED_FRAUD_CASE_STATUSES.includes(to);
+    const entry = this.transition(from, to, userId, text || undefined);
+
+    // Only the request that still sees the old status wins, so two reviewers cannot both apply a reversal
+    const saved = await FraudAlert.findOneAndUpdate(
+      { _id: alert._id, status: from },
+      {
+        $set: {
+          status: to,
+          resolvedAt: closed ? entry.changedAt : null,
+          resolvedBy: closed ? entry.changedBy : null
+        },
+        $push: { statusHistory: entry }
+      },
+      { new: true }
+    );
+    if (!saved) {
+      throw new ConflictError('The alert was changed by someone else; reload and try again');
+    }
+
+    logger.info(`🕵️ Fraud alert ${saved._id} moved from ${from} to ${to}`);
+    const trust = await this.syncTrustImpact(saved, userId);
+    return { alert: await saved.populate(CASE_POPULATE), trust };
+  }
+
+  /**
+   * Close a case as a false positive because an owner dispute against it was accepted.
+   * Unlike changeStatus this also closes resolved cases, since the dispute overrules that finding.
+   */
+  static async dismissForDispute(
+    alertId: string,
+    disputeId: string,
+    note: string,
+    userId?: string,
+    details: Record<string, unknown> = {}
+  ): Promise<TrustSyncResult> {
+    const alert = await this.findAlert(alertId);
+    let current = alert;
+
+    if (alert.status !== 'false_positive') {
+      const saved = await FraudAlert.findOneAndUpdate(
+        { _id: alert._id, status: alert.status },
+        {
+          $set: { status: 'false_positive', resolvedAt: new Date(), resolvedBy: userId || null },
+          $push: { statusHistory: this.transition(alert.status, 'false_positive', userId, `Owner dispute ${disputeId} accepted: ${note}`) }
+        },
+        { new: true }
+      );
+      if (!saved) {
+        throw new ConflictError('The alert was changed by someone else; reload and try again');
+      }
+      current = saved;
+    }
+
+    return this.syncTrustImpact(current, userId, {
+      reason: `Owner dispute accepted: ${current.alertType}`,
+      details: { ...details, disputeId }
+    });
+  }
+
+  /**
+   * Reverse (or re-apply) the trust score change an alert caused so it matches the case status
+   */
+  static async syncTrustImpact(
+    alert: IFraudAlert,
+    userId?: string,
+    context: { reason?: string; details?: Record<string, unknown> } = {}
+  ): Promise<TrustSyncResult> {
+    const events = await TrustEvent.find({ 'details.fraudAlertId': alert._id }).select('source previousScore newScore');
+    const change = trustAdjustmentFor(alert.status, events);
+    if (change === 0) {
+      return { change };
+    }
+
+    const reason = context.reason || (change > 0
+      ? `Fraud alert marked false positive: ${alert.alertType}`
+      : `Fraud alert reopened: ${alert.alertType}`);
+    const result = await TrustScoreService.updateTrustScore({
+      vehicleId: alert.vehicleId.toString(),
+      change,
+      reason,
+      source: 'admin',
+      details: { ...context.details, fraudAlertId: alert._id },
+      createdBy: userId
+    });
+    if (!result.success) {
+      throw new Error(`Failed to adjust trust score for fraud alert ${alert._id}: ${result.error}`);
+    }
+
+    await TrustScoreService.emitTrustScoreChange(
+      alert.vehicleId.toString(),
+      result.previousScore,
+      result.newScore,
+      result.eventId!,
+      reason,
+      change
+    );
+    logger.info(`📈 Trust score for vehicle ${alert.vehicleId} adjusted by ${change} for fraud alert ${alert._id} (${result.previousScore} → ${result.newScore})`);
+    return { change, eventId: result.eventId, previousScore: result.previousScore, newScore: result.newScore };
+  }
+
+  private static transition(from: FraudCaseStatus, to: FraudCaseStatus, userId?: string, note?: string) {
+    return {
+      from,
+      to,
+      changedBy: userId ? new mongoose.Types.ObjectId(userId) : undefined,
+      changedAt: new Date(),
+      note
+    };
+  }
+
+  private static async updateAlert(alertId: string, update: Record<string, unknown>): Promise<IFraudAlert> {
+    const alert = mongoose.isValidObjectId(alertId)
+      ? await FraudAlert.findByIdAndUpdate(alertId, update, { new: true, runValidators: true })
+      : null;
+    if (!alert) {
+      throw new NotFoundError(`Fraud alert ${alertId} not found`);
+    }
+    return alert;
+  }
+
+  private static async findAlert(alertId: string): Promise<IFraudAlert> {
+    const alert = mongoose.isValidObjectId(alertId) ? await FraudAlert.findById(alertId) : null;
+    if (!alert) {
+      throw new NotFoundError(`Fraud alert ${alertId} not found`);
+    }
+    return alert;
+  }
+}
+
+export default FraudCaseService;
@@ -0,0 +1,393 @@
+import mongoose from 'mongoose';
+import { FraudRule, IFraudRule } from '../../models/core/FraudRule.model';
+import { FraudDecision, IFraudDecision } from '../../models/core/FraudDecision.model';
+import { FraudAlert } from '../../models/core/FraudAlert.model';
+import Vehicle from '../../models/core/Vehicle.model';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import {
+  FRAUD_RULES,
+  FRAUD_RULE_SEVERITIES,
+  FRAUD_RULE_SOURCES,
+  FraudEvaluation,
+  FraudRuleConfig,
+  FraudRuleSettings,
+  MileageCheckInput,
+  evaluateFraudRules,
+  getFraudRuleDefinition
+} from '../../utils/fraudRules';
+import { TrustScoreService } from './trustScore.service';
+
+// Active rule versions are re-read at most this often; updates through this service clear it at once
+const RULE_CACHE_TTL_MS = 30 * 1000;
+
+// Fields an admin can change; anything omitted is carried over from the current version
+export interface FraudRuleInput {
+  enabled?: boolean;
+  severity?: string;
+  trustImpact?: number;
+  blocking?: boolean;
+  sources?: string[];
+  thresholds?: Record<string, number>;
+  notes?: string;
+}
+
+export interface FraudDecisionContext {
+  vehicleId?: string | mongoose.Types.ObjectId;
+  subjectType?: IFraudDecision['subjectType'];
+  subjectId?: string;
+}
+
+export interface FraudDecisionResult extends FraudEvaluation {
+  decisionId?: string; // Only set when a rule fired and the decision was stored
+}
+
+// What the alert and trust event of a decision are raised against
+export interface FraudImpactContext extends FraudDecisionContext {
+  vehicleId: string | mongoose.Types.ObjectId;
+  telemetryId?: string | mongoose.Types.ObjectId;
+  reportedBy?: string | mongoose.Types.ObjectId; // Defaults to the vehicle owner
+  description?: string; // Defaults to the reason of the rule that decided
+  investigationNotes?: string;
+  details?: Record<string, unknown>; // Extra trust event details
+}
+
+let cachedRules: { rules: FraudRuleConfig[]; loadedAt: number } | null = null;
+
+const toConfig = (rule: IFraudRule): FraudRuleConfig => ({
+  key: rule.key,
+  version: rule.version,
+  enabled: rule.enabled,
+  severity: rule.severity,
+  trustImpact: rule.trustImpact,
+  blocking: rule.blocking,
+  sources: rule.sources,
+  thresholds: rule.thresholds || {}
+});
+
+export class FraudRulesService {
+  /**
+   * Validate admin changes to a rule against its definition and merge them over the current settings
+   */
+  static validate(key: string, input: FraudRuleInput, current: FraudRuleSettings): FraudRuleSettings {
+    const definition = getFraudRuleDefinition(key);
+    if (!definition) {
+      throw new NotFoundError(`Fraud rule ${key} not found`);
+    }
+
+    const settings: FraudRuleSettings = {
+      enabled: current.enabled,
+      severity: current.severity,
+      trustImpact: current.trustImpact,
+      blocking: current.blocking,
+      sources: [...current.sources],
+      thresholds: { ...current.thresholds }
+    };
+
+    for (const field of ['enabled', 'blocking'] as const) {
+      if (input[field] === undefined) continue;
+      if (typeof input[field] !== 'boolean') {
+        throw new ValidationError(`${field} must be a boolean`);
+      }
+      settings[field] = input[field];
+    }
+
+    if (input.severity !== undefined) {
+      if (!FRAUD_RULE_SEVERITIES.includes(input.severity as FraudRuleSettings['severity'])) {
+        throw new ValidationError(`severity must be one of ${FRAUD_RULE_SEVERITIES.join(', ')}`);
+      }
+      settings.severity = input.severity as FraudRuleSettings['severity'];
+    }
+
+    if (input.trustImpact !== undefined) {
+      if (!Number.isInteger(input.trustImpact) || input.trustImpact > 0 || input.trustImpact < -100) {
+        throw new ValidationError('trustImpact must be an integer between -100 and 0');
+      }
+      settings.trustImpact = input.trustImpact;
+    }
+
+    if (input.sources !== undefined) {
+      if (!Array.isArray(input.sources) || input.sources.some(source => !FRAUD_RULE_SOURCES.includes(source as any))) {
+        throw new ValidationError(`sources must be a list of ${FRAUD_RULE_SOURCES.join(', ')}`);
+      }
+      settings.sources = Array.from(new Set(input.sources)) as FraudRuleSettings['sources'];
+    }
+
+    if (input.thresholds !== undefined) {
+      if (!input.thresholds || typeof input.thresholds !== 'object' || Array.isArray(input.thresholds)) {
+        throw new ValidationError('thresholds must be an object');
+      }
+      for (const [name, value] of Object.entries(input.thresholds)) {
+        if (!(name in definition.defaults.thresholds)) {
+          throw new ValidationError(`Unknown threshold ${name} for rule ${key}; expected one of ${Object.keys(definition.defaults.thresholds).join(', ')}`);
+        }
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+          throw new ValidationError(`thresholds.${name} must be a non-negative number`);
+        }
+        settings.thresholds[name] = value;
+      }
+    }
+
+    return settings;
+  }
+
+  /**
+   * Insert version 1 of every built-in rule that has no version yet
+   */
+  static async ensureDefaultRules(): Promise<void> {
+    const existing = new Set<string>(await FraudRule.distinct('key'));
+    const missing = FRAUD_RULES.filter(rule => !existing.has(rule.key));
+    for (const rule of missing) {
+      try {
+        await FraudRule.create({ key: rule.key, version: 1, ...rule.defaults, isActive: true });
+      } catch (error) {
+        // Another instance seeded it first
+        if (error?.code !== 11000) throw error;
+      }
+    }
+    if (missing.length > 0) {
+      cachedRules = null;
+      logger.info(`🛡️ Seeded ${missing.length} default fraud rule(s)`);
+    }
+  }
+
+  /**
+   * Active version of every rule, in definition order
+   */
+  static async getActiveRules(): Promise<FraudRuleConfig[]> {
+    if (cachedRules && Date.now() - cachedRules.loadedAt < RULE_CACHE_TTL_MS) {
+      return cachedRules.rules;
+    }
+
+    let active = await FraudRule.find({ isActive: true });
+    if (active.length < FRAUD_RULES.length) {
+      await this.ensureDefaultRules();
+      active = await FraudRule.find({ isActive: true });
+    }
+
+    const byKey = new Map(active.map(rule => [rule.key, toConfig(rule)]));
+    const rules = FRAUD_RULES.map(rule => byKey.get(rule.key)).filter((rule): rule is FraudRuleConfig => !!rule);
+    cachedRules = { rules, loadedAt: Date.now() };
+    return rules;
+  }
+
+  static clearCache(): void {
+    cachedRules = null;
+  }
+
+  /**
+   * Rules with their definitions and active settings, for the admin screen
+   */
+  static async list(): Promise<Array<FraudRuleConfig & { name: string; description: string; updatedAt?: Date; notes?: string }>> {
+    await this.ensureDefaultRules();
+    const active = await FraudRule.find({ isActive: true });
+    const byKey = new Map(active.map(rule => [rule.key, rule]));
+
+    return FRAUD_RULES.filter(rule => byKey.has(rule.key)).map(rule => {
+      const version = byKey.get(rule.key)!;
+      return {
+        ...toConfig(version),
+        name: rule.name,
+        description: rule.description,
+        notes: version.notes,
+        updatedAt: version.createdAt
+      };
+    });
+  }
+
+  static async history(key: string): Promise<IFraudRule[]> {
+    if (!getFraudRuleDefinition(key)) {
+      throw new NotFoundError(`Fraud rule ${key} not found`);
+    }
+    return FraudRule.find({ key }).sort({ version: -1 });
+  }
+
+  /**
+   * Save changed settings as the next version of a rule and make it the active one
+   */
+  static async update(key: string, input: FraudRuleInput, userId?: string): Promise<IFraudRule> {
+    await this.ensureDefaultRules();
+    const current = await FraudRule.findOne({ key }).sort({ version: -1 });
+    if (!current) {
+      throw new NotFoundError(`Fraud rule ${key} not found`);
+    }
+
+    const settings = this.validate(key, input, toConfig(current));
+    if (input.notes !== undefined && typeof input.notes !== 'string') {
+      throw new ValidationError('notes must be a string');
+    }
+
+    // The unique {key, version} index makes a concurrent update fail instead of forking the history
+    const next = await FraudRule.create({
+      key,
+      version: current.version + 1,
+      ...settings,
+      isActive: true,
+      notes: input.notes,
+      createdBy: userId
+    });
+    await FraudRule.updateMany({ key, _id: { $ne: next._id } }, { $set: { isActive: false } });
+    cachedRules = null;
+
+    logger.info(`🛡️ Fraud rule ${key} updated to version ${next.version}`);
+    return next;
+  }
+
+  /**
+   * Run the active rules over a mileage reading. Decisions that fire a rule are stored with the
+   * input and rule versions so they can be explained later.
+   */
+  static async evaluate(input: MileageCheckInput, context: FraudDecisionContext = {}): Promise<FraudDecisionResult> {
+    const evaluation = evaluateFraudRules(input, await this.getActiveRules());
+    if (!evaluation.flagged) {
+      return evaluation;
+    }
+
+    try {
+      const decision = await FraudDecision.create({
+        vehicleId: context.vehicleId,
+        source: input.source,
+        subjectType: context.subjectType,
+        subjectId: context.subjectId,
+        input: {
+          ...input,
+          recordedAt: input.recordedAt ? new Date(input.recordedAt) : undefined,
+          previousRecordedAt: input.previousRecordedAt ? new Date(input.previousRecordedAt) : undefined
+        },
+        rules: evaluation.rules,
+        matches: evaluation.matches,
+        blocked: evaluation.blocked,
+        severity: evaluation.severity,
+        trustImpact: evaluation.trustImpact
+      });
+      return { ...evaluation, decisionId: decision._id.toString() };
+    } catch (error) {
+      // Losing the audit record must not let a flagged reading through
+      logger.error(`❌ Failed to store fraud decision for ${input.source} reading:`, error);
+      return evaluation;
+    }
+  }
+
+  /**
+   * Raise the alert for a decision that blocked a reading or costs trust, and apply its trust
+   * impact linked to that alert, so resolving the alert as a false positive gives it back. Every
+   * source goes through here; failures are logged and never undo the decision itself.
+   */
+  static async applyDecision(
+    decision: FraudDecisionResult,
+    context: FraudImpactContext
+  ): Promise<{ alertId?: string; trustEventId?: string }> {
+    if (!decision.flagged || (!decision.blocked && decision.trustImpact >= 0)) {
+      return {};
+    }
+
+    const rollback = decision.matches.find(match => match.ruleKey === 'odometer_rollback');
+    const primary = rollback || decision.matches.find(match => match.blocking) || decision.matches[0];
+    // Retried subjects (batches, telemetry) must not be penalised twice for the same decision
+    const fingerprint = context.subjectType && context.subjectId
+      ? `fraud_decision:${context.subjectType}:${context.subjectId}`
+      : undefined;
+
+    try {
+      const vehicle = await Vehicle.findById(context.vehicleId).select('ownerId');
+      if (!vehicle) {
+        logger.warn(`⚠️ Fraud decision ${decision.decisionId ?? ''} is for unknown vehicle ${context.vehicleId}`);
+        return {};
+      }
+      if (fingerprint && await FraudAlert.exists({ vehicleId: vehicle._id, fingerprint })) {
+        return {};
+      }
+
+      const reportedBy = context.reportedBy || vehicle.ownerId;
+      const fraudAlert = await FraudAlert.create({
+        vehicleId: vehicle._id,
+        telemetryId: context.telemetryId,
+        alertType: rollback ? 'odometer_rollback' : 'other',
+        severity: decision.severity,
+        description: context.description || primary.reason,
+        reportedBy,
+        reportedAt: new Date(),
+        status: 'active',
+        investigationNotes: context.investigationNotes,
+        decisionId: decision.decisionId,
+        rule: { key: primary.ruleKey, version: primary.ruleVersion },
+        fingerprint
+      });
+      logger.error(`🚨 FRAUD ALERT CREATED for vehicle ${vehicle._id}: ${fraudAlert.description}`);
+
+      if (decision.trustImpact >= 0) {
+        return { alertId: fraudAlert._id.toString() };
+      }
+
+      const trustResult = await TrustScoreService.updateTrustScore({
+        vehicleId: vehicle._id.toString(),
+        change: decision.trustImpact,
+        reason: primary.reason,
+        source: 'fraudEngine',
+        details: {
+          ...context.details,
+          fraudAlertId: fraudAlert._id,
+          fraudDecisionId: decision.decisionId,
+          rules: decision.matches.map(match => `${match.ruleKey}@${match.ruleVersion}`)
+        },
+        createdBy: reportedBy.toString(),
+        eventTimestamp: new Date()
+      });
+      if (!trustResult.success) {
+        logger.error('Failed to update TrustScore:', trustResult.error);
+        return { alertId: fraudAlert._id.toString() };
+      }
+
+      await TrustScoreService.emitTrustScoreChange(
+        vehicle._id.toString(),
+        trustResult.previousScore,
+        trustResult.newScore,
+        trustResult.eventId!,
+        primary.reason,
+        decision.trustImpact
+      );
+      logger.info(`📉 TRUST EVENT CREATED: Score changed by ${decision.trustImpact} points for vehicle ${vehicle._id} (${trustResult.previousScore} → ${trustResult.newScore})`);
+      return { alertId: fraudAlert._id.toString(), trustEventId: trustResult.eventId };
+    } catch (error) {
+      logger.error(`❌ Failed to apply fraud decision ${decision.decisionId ?? ''} to vehicle ${context.vehicleId}:`, error);
+      return {};
+    }
+  }
+
+  /**
+   * Point a decision at the record it was made for, when that record is only created afterwards
+   */
+  static async linkSubject(decisionId: string, subjectId: string): Promise<void> {
+    await FraudDecision.updateOne({ _id: decisionId }, { $set: { subjectId } });
+  }
+
+  /**
+   * A stored decision, the rule versions it used, and whether re-running those versions over
+   * the stored input gives the same matches
+   */
+  static async explain(decisionId: string): Promise<{
+    decision: IFraudDecision;
+    rules: IFraudRule[];
+    replay: FraudEvaluation;
+    reproduced: boolean;
+  }> {
+    const decision = mongoose.isValidObjectId(decisionId) ? await FraudDecision.findById(decisionId) : null;
+    if (!decision) {
+      throw new NotFoundError(`Fraud decision ${decisionId} not found`);
+    }
+
+    const rules = decision.rules.length > 0
+      ? await FraudRule.find({ $or: decision.rules.map(rule => ({ key: rule.key, version: rule.version })) })
+      : [];
+    const replay = evaluateFraudRules(decision.input, rules.map(toConfig));
+
+    const summary = (matches: FraudEvaluation['matches']) =>
+      matches.map(match => `${match.ruleKey}@${match.ruleVersion}:${match.reason}`).sort();
+    const reproduced = rules.length === decision.rules.length &&
+      JSON.stringify(summary(replay.matches)) === JSON.stringify(summary(decision.matches));
+
+    return { decision, rules, replay, reproduced };
+  }
+}
+
+export default FraudRulesService;
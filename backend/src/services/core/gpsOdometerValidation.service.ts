@@ -0,0 +1,217 @@
+import { IVehicleDocument } from '../../models/core/Vehicle.model';
+import Vehicle from '../../models/core/Vehicle.model';
+import { FraudAlert } from '../../models/core/FraudAlert.model';
+import { IVehicleTelemetry } from '../../models/core/VehicleTelemetry.model';
+import { TrustScoreService } from './trustScore.service';
+import { config } from '../../config/environment';
+import { logger } from '../../utils/logger';
+import {
+  assessDivergence,
+  DistanceSeverity,
+  GeoFix,
+  isUsableFix,
+  segmentDistanceKm
+} from '../../utils/gpsOdometer';
+
+// Trust impact per alert grade
+const SEVERITY_PENALTY: Record<DistanceSeverity, number> = {
+  low: 5,
+  medium: 10,
+  high: 20,
+  critical: 30
+};
+
+export interface GpsOdometerReading {
+  deviceID: string;
+  mileage?: number;
+  location?: GeoFix;
+}
+
+export interface GpsOdometerResult {
+  gpsDistanceKm: number;
+  odometerDistanceKm: number;
+  segments: number;
+  divergencePct: number;
+  direction: 'under' | 'over' | null;
+  severity: DistanceSeverity | null;
+  fraudAlertId?: string;
+}
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+export class GpsOdometerValidationService {
+  /**
+   * Add the segment since the vehicle's previous fix to its distance window and, once the
+   * window is long enough, compare GPS distance with the odometer delta.
+   * Returns the assessment when a window was evaluated, null otherwise. Never throws.
+   */
+  static async validateReading(
+    vehicle: IVehicleDocument,
+    reading: GpsOdometerReading,
+    telemetryRecord: IVehicleTelemetry
+  ): Promise<GpsOdometerResult | null> {
+    try {
+      const state = vehicle.distanceValidation;
+      const recordedAt = telemetryRecord.rawData?.recordedAt || telemetryRecord.rawData?.receivedAt || new Date();
+
+      if (!isUsableFix(reading.location, config.GPS_ODOMETER_MAX_FIX_ACCURACY_M) || !(reading.mileage > 0)) {
+        // Without a fix the chain of consecutive fixes is broken; keep the window totals
+        if (state?.lastFix?.recordedAt) {
+          await Vehicle.updateOne({ _id: vehicle._id }, { $unset: { 'distanceValidation.lastFix': '' } });
+        }
+        return null;
+      }
+
+      let gpsDistanceKm = state?.gpsDistanceKm || 0;
+      let odometerDistanceKm = state?.odometerDistanceKm || 0;
+      let segments = state?.segments || 0;
+      let windowStartedAt = state?.windowStartedAt;
+
+      const last = state?.lastFix;
+      if (last?.recordedAt && typeof last.latitude === 'number') {
+        const gapMinutes = (recordedAt.getTime() - new Date(last.recordedAt).getTime()) / 60000;
+        const odometerDelta = reading.mileage - last.mileage;
+
+        // Long gaps hide the route taken and a decreasing odometer is the rollback check's job
+        if (gapMinutes >= 0 && gapMinutes <= config.GPS_ODOMETER_MAX_FIX_GAP_MINUTES && odometerDelta >= 0) {
+          gpsDistanceKm += segmentDistanceKm(last, reading.location);
+          odometerDistanceKm += odometerDelta;
+          segments++;
+          windowStartedAt = windowStartedAt || last.recordedAt;
+        }
+      }
+
+      let result: GpsOdometerResult | null = null;
+      const update: Record<string, any> = {
+        'distanceValidation.lastFix': {
+          latitude: reading.location.latitude,
+          longitude: reading.location.longitude,
+          accuracy: reading.location.accuracy,
+          mileage: reading.mileage,
+          recordedAt
+        }
+      };
+
+      if (Math.max(gpsDistanceKm, odometerDistanceKm) >= config.GPS_ODOMETER_WINDOW_KM) {
+        const assessment = assessDivergence(gpsDistanceKm, odometerDistanceKm, {
+          tolerancePct: config.GPS_ODOMETER_TOLERANCE_PCT,
+          routeFactor: config.GPS_ODOMETER_ROUTE_FACTOR
+        });
+
+        result = {
+          gpsDistanceKm: round(gpsDistanceKm),
+          odometerDistanceKm: round(odometerDistanceKm),
+          segments,
+          ...assessment
+        };
+
+        logger.info(`📍 GPS/odometer window for vehicle ${vehicle._id}: GPS ${result.gpsDistanceKm} km vs odometer ${result.odometerDistanceKm} km over ${segments} segments (${assessment.divergencePct}% divergence)`);
+
+        if (assessment.severity) {
+          result.fraudAlertId = await this.raiseDivergenceAlert(vehicle, reading, telemetryRecord, result, windowStartedAt, recordedAt);
+        }
+
+        // Start the next window from this fix
+        gpsDistanceKm = 0;
+        odometerDistanceKm = 0;
+        segments = 0;
+        windowStartedAt = undefined;
+        update['distanceValidation.lastEvaluatedAt'] = new Date();
+        update['distanceValidation.lastDivergencePct'] = assessment.divergencePct;
+      }
+
+      update['distanceValidation.gpsDistanceKm'] = round(gpsDistanceKm);
+      update['distanceValidation.odometerDistanceKm'] = round(odometerDistanceKm);
+      update['distanceValidation.segments'] = segments;
+
+      await Vehicle.updateOne(
+        { _id: vehicle._id },
+        windowStartedAt
+          ? { $set: { ...update, 'distanceValidation.windowStartedAt': windowStartedAt } }
+          : { $set: update, $unset: { 'distanceValidation.windowStartedAt': '' } }
+      );
+
+      return result;
+    } catch (error) {
+      logger.error(`GPS/odometer validation failed for vehicle ${vehicle?._id}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Raise a graded alert and apply the matching trust penalty, with the window as evidence
+   */
+  private static async raiseDivergenceAlert(
+    vehicle: IVehicleDocument,
+    reading: GpsOdometerReading,
+    telemetryRecord: IVehicleTelemetry,
+    result: GpsOdometerResult,
+    windowStartedAt: Date | undefined,
+    windowEndedAt: Date
+  ): Promise<string | undefined> {
+    const penalty = SEVERITY_PENALTY[result.severity];
+    const reason = result.direction === 'under'
+      ? `Odometer advanced ${result.odometerDistanceKm} km while GPS tracked ${result.gpsDistanceKm} km (${result.divergencePct}% short)`
+      : `Odometer advanced ${result.odometerDistanceKm} km while GPS tracked only ${result.gpsDistanceKm} km (${result.divergencePct}% beyond expected route)`;
+
+    logger.error(`🚨 FRAUD ALERT: GPS/odometer divergence on ${reading.deviceID} (${result.severity}): ${reason}`);
+
+    const alert = await FraudAlert.create({
+      vehicleId: vehicle._id,
+      telemetryId: telemetryRecord._id,
+      alertType: 'odometer_spoofing',
+      severity: result.severity,
+      description: `GPS/odometer mismatch: ${reason}`,
+      reportedBy: vehicle.ownerId,
+      reportedAt: new Date(),
+      status: 'active',
+      investigationNotes: `Window ${windowStartedAt?.toISOString() || 'n/a'} - ${windowEndedAt.toISOString()}, ${result.segments} segments`
+    });
+
+    try {
+      const trustResult = await TrustScoreService.updateTrustScore({
+        vehicleId: vehicle._id.toString(),
+        change: -penalty,
+        reason,
+        source: 'fraudEngine',
+        details: {
+          telemetryId: telemetryRecord._id,
+          deviceId: reading.deviceID,
+          fraudAlertId: alert._id,
+          check: 'gps_odometer',
+          severity: result.severity,
+          direction: result.direction,
+          gpsDistanceKm: result.gpsDistanceKm,
+          odometerDistanceKm: result.odometerDistanceKm,
+          divergencePct: result.divergencePct,
+          segments: result.segments,
+          windowStartedAt,
+          windowEndedAt,
+          tolerancePct: config.GPS_ODOMETER_TOLERANCE_PCT,
+          routeFactor: config.GPS_ODOMETER_ROUTE_FACTOR
+        },
+        createdBy: vehicle.ownerId?.toString(),
+        eventTimestamp: new Date()
+      });
+
+      if (trustResult.success) {
+        await TrustScoreService.emitTrustScoreChange(
+          vehicle._id.toString(),
+          trustResult.previousScore,
+          trustResult.newScore,
+          trustResult.eventId!,
+          reason,
+          -penalty
+        );
+      } else {
+        logger.error('Failed to update TrustScore:', trustResult.error);
+      }
+    } catch (trustError) {
+      logger.error('Failed to create trust event:', trustError);
+    }
+
+    return alert._id.toString();
+  }
+}
+
+export default GpsOdometerValidationService;
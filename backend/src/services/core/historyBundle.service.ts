@@ -0,0 +1,177 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import Vehicle from '../../models/core/Vehicle.model';
+import { TelemetryBatch } from '../../models/TelemetryBatch.model';
+import { config } from '../../config/environment';
+import { MerkleTreeBuilder } from '../../utils/merkle';
+import {
+  BundleDay,
+  BundleSegmentLeaf,
+  HISTORY_BUNDLE_FORMAT,
+  HISTORY_BUNDLE_VERSION,
+  HistoryBundle,
+  LedgerSnapshotEntry,
+  bundlePublicKey,
+  signHistoryBundle
+} from '../../utils/historyBundle';
+import { ExternalServiceError, NotFoundError, ServerError, ValidationError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import { getSolanaService } from '../blockchain/solana.service';
+import { ProofViewer, TelemetryProofService } from './telemetryProof.service';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const SEED_PATTERN = /^[0-9a-f]{64}$/i;
+
+// One bundle covers at most a year of days; longer histories are exported in ranges
+export const MAX_BUNDLE_DAYS = 366;
+
+export interface ExportBundleOptions {
+  from?: string;
+  to?: string;
+}
+
+let devSeedWarned = false;
+
+export class HistoryBundleService {
+  /**
+   * Signed bundle of a vehicle's telemetry days with their anchor transactions, for checking
+   * offline with the verify-bundle script. Same access as the inclusion proofs.
+   */
+  static async exportBundle(
+    vehicleId: string,
+    options: ExportBundleOptions,
+    viewer: ProofViewer | undefined
+  ): Promise<HistoryBundle> {
+    if (!mongoose.isValidObjectId(vehicleId)) {
+      throw new ValidationError('Invalid vehicle ID');
+    }
+    const { from, to } = options;
+    for (const [name, value] of [['from', from], ['to', to]] as const) {
+      if (value !== undefined && !DATE_PATTERN.test(value)) {
+        throw new ValidationError(`${name} must be formatted as YYYY-MM-DD`);
+      }
+    }
+    if (from && to && from > to) {
+      throw new ValidationError('from must not be after to');
+    }
+
+    const vehicle = await Vehicle.findById(vehicleId);
+    if (!vehicle) {
+      throw new NotFoundError('Vehicle not found');
+    }
+    TelemetryProofService.assertCanView(vehicle, viewer);
+
+    const dateFilter: Record<string, string> = {};
+    if (from) dateFilter.$gte = from;
+    if (to) dateFilter.$lte = to;
+    const batches = await TelemetryBatch.find({
+      vehicleId: vehicle._id,
+      merkleRoot: { $nin: [null, ''] },
+      'segments.0': { $exists: true },
+      ...(from || to ? { date: dateFilter } : {})
+    })
+      .sort({ date: 1 })
+      .limit(MAX_BUNDLE_DAYS + 1);
+
+    if (batches.length === 0) {
+      throw new NotFoundError('No telemetry batches to export');
+    }
+    if (batches.length > MAX_BUNDLE_DAYS) {
+      throw new ValidationError(`A bundle covers at most ${MAX_BUNDLE_DAYS} days; narrow it with from and to`);
+    }
+
+    const days: BundleDay[] = batches.map(batch => ({
+      date: batch.date,
+      status: batch.status,
+      merkleRoot: batch.merkleRoot,
+      solanaTx: batch.solanaTx || null,
+      arweaveTx: batch.arweaveTx || null,
+      totalDistance: batch.totalDistance,
+      segments: MerkleTreeBuilder.buildTree(batch.segments).leaves.map(leaf => leaf.data as BundleSegmentLeaf)
+    }));
+
+    const solana = getSolanaService();
+    const ledger = await this.ledgerSnapshot(days);
+    const anchorSigners = await TelemetryProofService.anchorSigners(vehicle);
+    const bundle = signHistoryBundle({
+      format: HISTORY_BUNDLE_FORMAT,
+      version: HISTORY_BUNDLE_VERSION,
+      network: solana.network,
+      report: {
+        vehicleId: String(vehicle._id),
+        vin: vehicle.vin,
+        make: vehicle.make || null,
+        model: vehicle.vehicleModel || null,
+        year: vehicle.year ?? null,
+        currentMileage: vehicle.currentMileage ?? null,
+        trustScore: vehicle.trustScore ?? null,
+        from: from || null,
+        to: to || null,
+        daysCount: days.length,
+        anchoredDays: days.filter(day => day.solanaTx).length,
+        totalDistance: days.reduce((sum, day) => sum + (day.totalDistance || 0), 0),
+        generatedAt: new Date().toISOString()
+      },
+      anchorSigners,
+      days,
+      ledger
+    }, this.signingSeed());
+
+    logger.info(`📦 Exported history bundle of ${vehicle.vin}: ${days.length} day(s), ${ledger.length} anchor(s)`);
+    return bundle;
+  }
+
+  /**
+   * Public key bundles are signed with, for auditors to pin when verifying
+   */
+  static signingKey(): { algorithm: 'ed25519'; publicKey: string } {
+    return { algorithm: 'ed25519', publicKey: bundlePublicKey(this.signingSeed()) };
+  }
+
+  private static async ledgerSnapshot(days: BundleDay[]): Promise<LedgerSnapshotEntry[]> {
+    const solana = getSolanaService();
+    const signatures = [...new Set(days.map(day => day.solanaTx).filter((tx): tx is string => !!tx))];
+
+    const entries = await Promise.all(signatures.map(async signature => {
+      try {
+        return await solana.getTransaction(signature);
+      } catch (error) {
+        logger.error(`❌ Failed to fetch anchor ${signature} for a history bundle:`, error);
+        throw new ExternalServiceError('Could not reach the ledger to read the anchors');
+      }
+    }));
+
+    // Anchors the ledger no longer knows are left out; the verifier reports those days as failed
+    return entries
+      .filter((transaction): transaction is NonNullable<typeof transaction> => !!transaction)
+      .map(transaction => ({
+        signature: transaction.signature,
+        slot: transaction.slot,
+        blockTime: transaction.blockTime,
+        signer: transaction.signer,
+        memo: transaction.memo,
+        confirmationStatus: transaction.confirmationStatus,
+        err: transaction.err ?? null
+      }));
+  }
+
+  private static signingSeed(): Buffer {
+    const key = config.HISTORY_BUNDLE_SIGNING_KEY;
+    if (key) {
+      if (!SEED_PATTERN.test(key)) {
+        throw new ServerError('HISTORY_BUNDLE_SIGNING_KEY must be 64 hex characters');
+      }
+      return Buffer.from(key, 'hex');
+    }
+    if (config.NODE_ENV === 'production') {
+      throw new ServerError('History bundle signing key is not configured');
+    }
+
+    // Stable across restarts so a pinned development key keeps verifying
+    if (!devSeedWarned) {
+      logger.warn('⚠️ HISTORY_BUNDLE_SIGNING_KEY not set, deriving a development key from JWT_SECRET');
+      devSeedWarned = true;
+    }
+    return crypto.createHash('sha256').update(`history-bundle:${config.JWT_SECRET}`).digest();
+  }
+}
@@ -0,0 +1,189 @@
+import { Socket } from 'socket.io';
+import mongoose from 'mongoose';
+import Vehicle from '../../models/core/Vehicle.model';
+import { User } from '../../models/core/User.model';
+import { VehicleTelemetry, IVehicleTelemetry } from '../../models/core/VehicleTelemetry.model';
+import { JWTService } from './jwt.service';
+import { DrivingScoreService } from './drivingScore.service';
+import { config } from '../../config/environment';
+import { logger } from '../../utils/logger';
+import { getSocketServer } from '../../utils/socketEmitter';
+import { AuthenticationError, AuthorizationError, NotFoundError, ValidationError, ApiError } from '../../utils/errors';
+
+export const LIVE_TELEMETRY_EVENT = 'vehicle_telemetry';
+
+export interface LiveTelemetryReading {
+  vehicleId: string;
+  deviceID: string;
+  status: string;
+  speed: number | null;
+  rpm: number | null;
+  mileage: number | null;
+  engineTemp: number | null;
+  fuelLevel: number | null;
+  batteryVoltage: number | null;
+  location: { latitude: number; longitude: number; accuracy?: number } | null;
+  validationStatus: string | null;
+  recordedAt: Date;
+}
+
+interface ThrottleState {
+  lastSentAt: number;
+  pending?: LiveTelemetryReading;
+  timer?: NodeJS.Timeout;
+}
+
+type SubscribeAck = (response: { success: boolean; message?: string }) => void;
+
+export const vehicleRoom = (vehicleId: string): string => `vehicle_${vehicleId}`;
+
+const asNumber = (value: unknown): number | null => typeof value === 'number' ? value : null;
+
+export class LiveTelemetryService {
+  private static throttles = new Map<string, ThrottleState>();
+
+  /**
+   * Register subscribe/unsubscribe handlers on every socket connection
+   */
+  static attach(): void {
+    const io = getSocketServer();
+    if (!io) {
+      logger.warn('Socket.IO not initialized, live telemetry stream disabled');
+      return;
+    }
+
+    io.on('connection', (socket: Socket) => {
+      socket.on('subscribe_vehicle', (vehicleId: string, ack?: SubscribeAck) => {
+        this.subscribe(socket, vehicleId)
+          .then(() => ack?.({ success: true }))
+          .catch(error => {
+            const message = error instanceof ApiError ? error.message : 'Subscription failed';
+            if (!(error instanceof ApiError)) {
+              logger.error(`Live telemetry subscription failed for socket ${socket.id}:`, error);
+            }
+            ack?.({ success: false, message });
+          });
+      });
+
+      socket.on('unsubscribe_vehicle', (vehicleId: string, ack?: SubscribeAck) => {
+        socket.leave(vehicleRoom(String(vehicleId)));
+        ack?.({ success: true });
+      });
+    });
+
+    logger.info('📡 Live telemetry stream attached to Socket.IO');
+  }
+
+  /**
+   * Join the vehicle's room after checking the token sent in the handshake
+   * (owner, admin, or insurer with the owner's consent), then send the latest reading
+   */
+  static async subscribe(socket: Socket, vehicleId: string): Promise<void> {
+    if (!mongoose.isValidObjectId(vehicleId)) {
+      throw new ValidationError('Invalid vehicle ID');
+    }
+
+    const token = socket.handshake.auth?.token;
+    if (typeof token !== 'string' || token.length === 0) {
+      throw new AuthenticationError('Access token is required');
+    }
+    let userId: string;
+    try {
+      userId = JWTService.verifyAccessToken(token).userId;
+    } catch {
+      throw new AuthenticationError('Invalid access token');
+    }
+
+    const [user, vehicle] = await Promise.all([User.findById(userId), Vehicle.findById(vehicleId)]);
+    if (!user || user.accountStatus !== 'active') {
+      throw new AuthenticationError('Account is not active');
+    }
+    if (!vehicle) {
+      throw new NotFoundError('Vehicle not found');
+    }
+
+    const isOwner = String(vehicle.ownerId) === String(user._id);
+    const isAdmin = user.role === 'admin';
+    const isConsentedInsurer = user.role === 'insurance' && DrivingScoreService.hasInsurerConsent(vehicle, String(user._id));
+    if (!(isOwner || isAdmin || isConsentedInsurer)) {
+      throw new AuthorizationError('Access denied');
+    }
+
+    const vehicleRooms = [...socket.rooms].filter(room => room.startsWith('vehicle_'));
+    if (!vehicleRooms.includes(vehicleRoom(vehicleId)) && vehicleRooms.length >= config.LIVE_TELEMETRY_MAX_SUBSCRIPTIONS) {
+      throw new ValidationError(`At most ${config.LIVE_TELEMETRY_MAX_SUBSCRIPTIONS} vehicles can be watched at once`);
+    }
+
+    socket.join(vehicleRoom(vehicleId));
+    logger.info(`📡 User ${user._id} is watching vehicle ${vehicleId}`);
+
+    const latest = await VehicleTelemetry.findOne({ vehicle: vehicleId }).sort({ 'rawData.receivedAt': -1 });
+    if (latest) {
+      socket.emit(LIVE_TELEMETRY_EVENT, this.toReading(vehicleId, latest));
+    }
+  }
+
+  static toReading(vehicleId: string, telemetry: IVehicleTelemetry): LiveTelemetryReading {
+    const location = telemetry.location as any;
+    return {
+      vehicleId,
+      deviceID: telemetry.deviceID,
+      status: telemetry.status,
+      speed: asNumber(telemetry.obd?.speed),
+      rpm: asNumber(telemetry.obd?.rpm),
+      mileage: asNumber(telemetry.obd?.mileage),
+      engineTemp: asNumber(telemetry.obd?.engineTemp),
+      fuelLevel: asNumber(telemetry.obd?.fuelLevel),
+      batteryVoltage: asNumber(telemetry.deviceHealth?.batteryVoltage),
+      location: typeof location?.latitude === 'number' && typeof location?.longitude === 'number'
+        ? { latitude: location.latitude, longitude: location.longitude, accuracy: location.accuracy }
+        : null,
+      validationStatus: telemetry.validation?.validationStatus || null,
+      recordedAt: telemetry.rawData?.recordedAt || telemetry.rawData?.receivedAt || new Date()
+    };
+  }
+
+  /**
+   * Stream an ingested reading to the vehicle's room. At most one reading per vehicle goes out
+   * per throttle window; readings arriving inside the window are coalesced and the newest one is
+   * sent when it closes.
+   */
+  static publish(vehicleId: string, telemetry: IVehicleTelemetry): void {
+    const io = getSocketServer();
+    const room = vehicleRoom(vehicleId);
+    if (!io || !io.sockets.adapter.rooms.get(room)?.size) return;
+
+    const reading = this.toReading(vehicleId, telemetry);
+    const now = Date.now();
+    const state = this.throttles.get(vehicleId) || { lastSentAt: 0 };
+    this.throttles.set(vehicleId, state);
+
+    if (state.timer) {
+      state.pending = reading;
+      return;
+    }
+
+    const wait = state.lastSentAt + config.LIVE_TELEMETRY_THROTTLE_MS - now;
+    if (wait <= 0) {
+      this.send(vehicleId, reading);
+      return;
+    }
+
+    state.pending = reading;
+    state.timer = setTimeout(() => {
+      state.timer = undefined;
+      if (state.pending) {
+        this.send(vehicleId, state.pending);
+        state.pending = undefined;
+      }
+    }, wait);
+  }
+
+  private static send(vehicleId: string, reading: LiveTelemetryReading): void {
+    const state = this.throttles.get(vehicleId);
+    if (state) state.lastSentAt = Date.now();
+    getSocketServer()?.to(vehicleRoom(vehicleId)).emit(LIVE_TELEMETRY_EVENT, reading);
+  }
+}
+
+export default LiveTelemetryService;
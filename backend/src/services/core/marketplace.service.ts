@@ -1,7 +1,11 @@
 import { logger } from '../../utils/logger';
 import { ApiError, ValidationError, NotFoundError } from '../../utils/errors';
 import { Vehicle, MileageHistory, User } from '../../models';
+import { FraudAlert } from '../../models/core/FraudAlert.model';
 import { getSolanaService } from '../blockchain/solana.service';
+import { DtcService, ClearedBeforeListingSignal } from './dtc.service';
+import { TrustDisputeService, DisputeAnnotation } from './trustDispute.service';
+import { VehicleHoldService } from './vehicleHold.service';
 import mongoose from 'mongoose';
 
 export interface VehicleListingData {
@@ -24,6 +28,7 @@ export interface VehicleHistoryReport {
     year: number;
     currentMileage: number;
     trustScore: number;
+    trustPolicyVersion: number | null;
     verificationStatus: string;
   };
   
@@ -59,6 +64,9 @@ export interface VehicleHistoryReport {
     }>;
   };
   
+  // Deductions reversed after the owner's dispute was accepted
+  disputeAnnotations: DisputeAnnotation[];
+  
   serviceHistory: {
     totalServices: number;
     verifiedServices: number;
@@ -88,6 +96,19 @@ export interface VehicleHistoryReport {
     }>;
   };
   
+  diagnostics: {
+    milOn: boolean | null;
+    lastScanAt?: Date;
+    activeCodes: Array<{
+      code: string;
+      description: string;
+      status: string;
+      firstSeenAt: Date;
+    }>;
+    historicalCodes: number;
+    codesClearedBeforeListing: ClearedBeforeListingSignal;
+  };
+  
   blockchainVerification: {
     isOnBlockchain: boolean;
     totalTransactions: number;
@@ -150,6 +171,9 @@ export class MarketplaceService {
         throw new NotFoundError('Vehicle not found or not owned by user');
       }
       
+      // Stolen, court order and other holds block the sale
+      await VehicleHoldService.assertNotHeld(String(vehicle._id), 'listing');
+      
       // Check if vehicle is already listed
       if (vehicle.isForSale && vehicle.listingStatus === 'active') {
         throw new ValidationError('Vehicle is already listed for sale');
@@ -161,6 +185,7 @@ export class MarketplaceService {
       // Update vehicle listing status
       vehicle.isForSale = true;
       vehicle.listingStatus = 'active';
+      vehicle.listedAt = new Date();
       vehicle.description = listingData.description || vehicle.description;
       vehicle.features = listingData.features || vehicle.features;
       vehicle.condition = listingData.condition;
@@ -172,7 +197,7 @@ export class MarketplaceService {
         contactPreference: listingData.contactPreference,
         availableForInspection: listingData.availableForInspection,
         inspectionLocation: listingData.inspectionLocation,
-        listedAt: new Date(),
+        listedAt: vehicle.listedAt,
         historyReportGenerated: true,
         historyReport: historyReport
       };
@@ -216,8 +241,10 @@ export class MarketplaceService {
       // Get blockchain verification data
       const blockchainData = await this.getBlockchainVerificationData(vehicle.vin);
       
-      // Analyze fraud alerts
-      const fraudAnalysis = this.analyzeFraudAlerts(vehicle.fraudAlerts);
+      // Analyze fraud alerts (alerts raised before the fraud_alerts collection may still be embedded)
+      const fraudAlerts = await this.getFraudAlerts(vehicle);
+      const fraudAnalysis = this.analyzeFraudAlerts(fraudAlerts);
+      const disputeAnnotations = await TrustDisputeService.getReportAnnotations(vehicle._id as mongoose.Types.ObjectId);
       
       // Analyze service history
       const serviceAnalysis = this.analyzeServiceHistory(vehicle.serviceHistory);
@@ -225,6 +252,9 @@ export class MarketplaceService {
       // Analyze accident history
       const accidentAnalysis = this.analyzeAccidentHistory(vehicle.accidentHistory);
       
+      // Analyze diagnostic trouble codes
+      const diagnosticsAnalysis = await this.analyzeDiagnostics(vehicle);
+      
       // Get market analysis
       const marketAnalysis = await this.getMarketAnalysisInternal(vehicle);
       
@@ -237,6 +267,13 @@ export class MarketplaceService {
         marketAnalysis
       );
       
+      if (diagnosticsAnalysis.activeCodes.length > 0) {
+        recommendations.maintenanceRecommendations.push('Repair active engine fault codes before listing, or disclose them to buyers');
+      }
+      if (diagnosticsAnalysis.codesClearedBeforeListing.flagged) {
+        recommendations.trustImprovements.push('Drive the vehicle normally after clearing fault codes so buyers can see a full diagnostic history');
+      }
+      
       const report: VehicleHistoryReport = {
         vehicleInfo: {
           vin: vehicle.vin,
@@ -245,13 +282,16 @@ export class MarketplaceService {
           year: vehicle.year,
           currentMileage: vehicle.currentMileage,
           trustScore: vehicle.trustScore,
+          trustPolicyVersion: vehicle.trustPolicyVersion ?? null,
           verificationStatus: vehicle.verificationStatus
         },
         
         mileageHistory: mileageAnalysis,
         fraudAlerts: fraudAnalysis,
+        disputeAnnotations,
         serviceHistory: serviceAnalysis,
         accidentHistory: accidentAnalysis,
+        diagnostics: diagnosticsAnalysis,
         blockchainVerification: blockchainData,
         marketAnalysis,
         recommendations,
@@ -259,8 +299,8 @@ export class MarketplaceService {
         reportMetadata: {
           generatedAt: new Date(),
           reportVersion: '1.0',
-          dataSourcesCount: this.countDataSources(mileageRecords, vehicle),
-          confidenceLevel: this.calculateConfidenceLevel(vehicle, mileageRecords),
+          dataSourcesCount: this.countDataSources(mileageRecords, vehicle, fraudAlerts),
+          confidenceLevel: this.calculateConfidenceLevel(vehicle, mileageRecords, fraudAlerts),
           validUntil: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000) // Valid for 30 days
         }
       };
@@ -389,11 +429,23 @@ export class MarketplaceService {
     }
   }
   
+  /**
+   * Fraud alerts of a vehicle, newest first, without those dismissed as false positives
+   */
+  private static async getFraudAlerts(vehicle: any): Promise<any[]> {
+    const alerts = await FraudAlert.find({ vehicleId: vehicle._id }).sort({ reportedAt: -1 });
+    const seen = new Set(alerts.map(alert => alert._id.toString()));
+    const embedded = vehicle.fraudAlerts.filter((alert: any) => !seen.has(String(alert._id)));
+
+    return [...alerts, ...embedded].filter(alert => alert.status !== 'false_positive');
+  }
+
   /**
    * Analyze fraud alerts
    */
   private static analyzeFraudAlerts(fraudAlerts: any[]): any {
-    const activeAlerts = fraudAlerts.filter(alert => alert.status === 'active');
+    // Alerts still under investigation are as open as new ones
+    const activeAlerts = fraudAlerts.filter(alert => alert.status === 'active' || alert.status === 'investigating');
     const resolvedAlerts = fraudAlerts.filter(alert => alert.status === 'resolved');
     const criticalAlerts = fraudAlerts.filter(alert => alert.severity === 'critical');
     
@@ -484,6 +536,27 @@ export class MarketplaceService {
     };
   }
   
+  /**
+   * Analyze diagnostic trouble codes, including codes cleared shortly before listing
+   */
+  private static async analyzeDiagnostics(vehicle: any): Promise<VehicleHistoryReport['diagnostics']> {
+    const { codes, summary } = await DtcService.getHistory(vehicle._id.toString(), { limit: 500 });
+    const activeCodes = codes.filter(dtc => dtc.status !== 'cleared');
+    
+    return {
+      milOn: vehicle.diagnostics?.milOn ?? null,
+      lastScanAt: vehicle.diagnostics?.lastScanAt,
+      activeCodes: activeCodes.map(dtc => ({
+        code: dtc.code,
+        description: dtc.description,
+        status: dtc.status,
+        firstSeenAt: dtc.firstSeenAt
+      })),
+      historicalCodes: summary.cleared,
+      codesClearedBeforeListing: await DtcService.assessClearedBeforeListing(vehicle, vehicle.listedAt)
+    };
+  }
+  
   /**
    * Get market analysis for the vehicle
    */
@@ -668,13 +741,13 @@ export class MarketplaceService {
   /**
    * Count data sources for confidence calculation
    */
-  private static countDataSources(mileageRecords: any[], vehicle: any): number {
+  private static countDataSources(mileageRecords: any[], vehicle: any, fraudAlerts: any[]): number {
     let sources = 0;
     
     if (mileageRecords.length > 0) sources++;
     if (vehicle.serviceHistory.length > 0) sources++;
     if (vehicle.accidentHistory.length > 0) sources++;
-    if (vehicle.fraudAlerts.length > 0) sources++;
+    if (fraudAlerts.length > 0) sources++;
     if (vehicle.blockchainHash) sources++;
     
     return sources;
@@ -683,7 +756,7 @@ export class MarketplaceService {
   /**
    * Calculate confidence level based on data quality
    */
-  private static calculateConfidenceLevel(vehicle: any, mileageRecords: any[]): number {
+  private static calculateConfidenceLevel(vehicle: any, mileageRecords: any[], fraudAlerts: any[]): number {
     let confidence = 50; // Base confidence
     
     // Add confidence based on data availability
@@ -693,7 +766,7 @@ export class MarketplaceService {
     if (vehicle.verificationStatus === 'verified') confidence += 5;
     
     // Reduce confidence for issues
-    if (vehicle.fraudAlerts.filter((a: any) => a.status === 'active').length > 0) confidence -= 20;
+    if (fraudAlerts.some((a: any) => a.status === 'active' || a.status === 'investigating')) confidence -= 20;
     if (vehicle.trustScore < 50) confidence -= 15;
     
     return Math.max(0, Math.min(100, confidence));
@@ -739,7 +812,7 @@ export class MarketplaceService {
         price: vehicle.price || 25000, // Use vehicle price field or default
         negotiable: true,
         description: vehicle.description,
-        listedAt: (vehicle as any).createdAt,
+        listedAt: vehicle.listedAt || (vehicle as any).createdAt,
         views: 0,
         inquiries: 0
       }));
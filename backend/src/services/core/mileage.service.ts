@@ -14,6 +14,8 @@ import {
   BadRequestError 
 } from '../../utils/errors';
 import { logger } from '../../utils/logger';
+import { FraudDecisionResult, FraudRulesService } from './fraudRules.service';
+import { FRAUD_SEVERITY_SCORE } from '../../utils/fraudRules';
 
 // Additional type definitions
 export interface MileageUpdateData {
@@ -111,6 +113,22 @@ export class MileageService {
       });
 
       await mileageRecord.save();
+      if (fraudCheck.decision) {
+        if (fraudCheck.decision.decisionId) {
+          await FraudRulesService.linkSubject(fraudCheck.decision.decisionId, mileageRecord._id.toString());
+        }
+        await FraudRulesService.applyDecision(fraudCheck.decision, {
+          vehicleId,
+          subjectType: 'mileage_history',
+          subjectId: mileageRecord._id.toString(),
+          reportedBy: userId,
+          details: {
+            mileageHistoryId: mileageRecord._id,
+            reportedMileage: mileageData.mileage,
+            previousMileage: vehicle.currentMileage
+          }
+        });
+      }
 
       // Update vehicle mileage
       await Vehicle.findByIdAndUpdate(vehicleId, {
@@ -397,83 +415,44 @@ export class MileageService {
   }
 
   /**
-   * Detect fraud in mileage updates
+   * Run the fraud rules over a manual mileage update
    */
   private static async detectFraud(
     vehicleId: string,
     newMileage: number
-  ): Promise<{ isSuspicious: boolean; score: number; reasons: string[] }> {
-    const result = {
-      isSuspicious: false,
-      score: 0,
-      reasons: [] as string[]
-    };
-
+  ): Promise<{ isSuspicious: boolean; score: number; reasons: string[]; decision?: FraudDecisionResult }> {
     try {
       // Get recent mileage history
       const recentRecords = await MileageHistory.find({ vehicleId })
         .sort({ recordedAt: -1 })
         .limit(10);
 
-      if (recentRecords.length > 0) {
-        const latestRecord = recentRecords[0];
-        
-        // Check for rollback
-        if (newMileage < latestRecord.mileage) {
-          result.score += 0.8;
-          result.reasons.push('Mileage rollback detected');
-        }
-
-        // Check for unrealistic increases
-        if (recentRecords.length > 1) {
-          const timeDiff = Date.now() - latestRecord.recordedAt.getTime();
-          const daysSinceLastUpdate = timeDiff / (1000 * 60 * 60 * 24);
-          const mileageIncrease = newMileage - latestRecord.mileage;
-
-          if (daysSinceLastUpdate > 0 && mileageIncrease > 0) {
-            const dailyMileage = mileageIncrease / daysSinceLastUpdate;
-            
-            // Unrealistic daily mileage (>500 miles/day)
-            if (dailyMileage > 500) {
-              result.score += 0.6;
-              result.reasons.push('Unrealistic daily mileage');
-            }
-            
-            // Very high daily mileage (>200 miles/day)
-            if (dailyMileage > 200) {
-              result.score += 0.3;
-              result.reasons.push('High daily mileage');
-            }
-          }
-        }
-
-        // Check for pattern inconsistencies
-        if (recentRecords.length >= 3) {
-          const increases = [];
-          for (let i = 1; i < recentRecords.length; i++) {
-            const increase = recentRecords[i - 1].mileage - recentRecords[i].mileage;
-            if (increase > 0) increases.push(increase);
-          }
-          
-          if (increases.length > 0) {
-            const avgIncrease = increases.reduce((a, b) => a + b, 0) / increases.length;
-            const currentIncrease = newMileage - latestRecord.mileage;
-            
-            // Sudden large increase compared to average
-            if (currentIncrease > avgIncrease * 3) {
-              result.score += 0.4;
-              result.reasons.push('Sudden large mileage increase');
-            }
-          }
-        }
+      const latestRecord = recentRecords[0];
+      const recentIncreases: number[] = [];
+      for (let i = 1; i < recentRecords.length; i++) {
+        recentIncreases.push(recentRecords[i - 1].mileage - recentRecords[i].mileage);
       }
 
-      result.isSuspicious = result.score > 0.5;
-      return result;
+      const decision = await FraudRulesService.evaluate({
+        source: 'manual',
+        reportedMileage: newMileage,
+        previousMileage: latestRecord?.mileage ?? null,
+        previousRecordedAt: latestRecord?.recordedAt ?? null,
+        recordedAt: new Date(),
+        recentIncreases
+      }, { vehicleId, subjectType: 'mileage_history' });
+
+      const score = decision.severity ? FRAUD_SEVERITY_SCORE[decision.severity] : 0;
+      return {
+        isSuspicious: decision.blocked || score >= FRAUD_SEVERITY_SCORE.medium,
+        score,
+        reasons: decision.matches.map(match => match.reason),
+        decision
+      };
 
     } catch (error) {
       logger.error('Fraud detection failed:', error);
-      return result;
+      return { isSuspicious: false, score: 0, reasons: [] };
     }
   }
 
@@ -0,0 +1,360 @@
+import mqtt, { MqttClient, IClientOptions, IPublishPacket } from 'mqtt';
+import { Device, IDevice } from '../../models/core/Device.model';
+import { DeviceController, ESP32DeviceData } from '../../controllers/device/device.controller';
+import { DeviceAuthService } from './deviceAuth.service';
+import { DeviceCommandService } from './deviceCommand.service';
+import { config } from '../../config/environment';
+import { ApiError, AuthenticationError, ValidationError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+
+export type MqttChannel = 'status' | 'batch' | 'presence';
+
+/**
+ * Signed envelope published by devices on the status and batch topics.
+ * `body` is the exact JSON string that was signed, the same bytes the HTTP endpoint signs.
+ */
+export interface MqttDeviceEnvelope {
+  timestamp: string | number;
+  nonce: string;
+  signature: string;
+  body: string;
+}
+
+export interface MqttGatewayOptions {
+  url?: string;
+  topicPrefix?: string;
+  clientId?: string;
+  username?: string;
+  password?: string;
+}
+
+/**
+ * MQTT Gateway - ingests ESP32 readings published over MQTT into the same
+ * pipeline as the HTTP device endpoint.
+ *
+ * Topics (per device):
+ *   {prefix}/{deviceID}/status    signed single reading (QoS 1)
+ *   {prefix}/{deviceID}/batch     signed buffered upload (QoS 1)
+ *   {prefix}/{deviceID}/presence  signed "online" / last-will "offline"
+ *   {prefix}/{deviceID}/ack       processing result (and queued commands) published back to the device
+ *   {prefix}/{deviceID}/commands  queued commands pushed when the device comes online
+ *
+ * The PUBACK for a QoS 1 message is only sent once the reading has been stored,
+ * so a reading that hits a transient failure stays unacknowledged and is redelivered
+ * by the broker when the session resumes.
+ */
+export class MqttGatewayService {
+  private static client: MqttClient | null = null;
+  private static topicPrefix: string = config.MQTT_TOPIC_PREFIX;
+
+  /**
+   * Connect to the broker and subscribe to device topics
+   */
+  static async start(options: MqttGatewayOptions = {}): Promise<void> {
+    if (this.client) {
+      return;
+    }
+
+    this.topicPrefix = options.topicPrefix || config.MQTT_TOPIC_PREFIX;
+    const url = options.url || config.MQTT_URL;
+
+    const clientOptions: IClientOptions = {
+      clientId: options.clientId || config.MQTT_CLIENT_ID,
+      username: options.username ?? config.MQTT_USERNAME,
+      password: options.password ?? config.MQTT_PASSWORD,
+      // Persistent session so QoS 1 readings queued while we are down are delivered on reconnect
+      clean: false,
+      reconnectPeriod: 5000
+    };
+
+    const client = mqtt.connect(url, clientOptions);
+    this.client = client;
+
+    // Messages are handled one at a time; the PUBACK goes out when the callback runs
+    client.handleMessage = (packet: IPublishPacket, callback: (error?: Error) => void) => {
+      this.handlePublish(packet.topic, packet.payload as Buffer)
+        .then(() => callback())
+        .catch(error => callback(error));
+    };
+
+    // Subscribe on every connect where the broker kept no session (the first one, or after the
+    // session expired), so a gateway that connects late still ends up subscribed
+    let subscribed: Promise<void> = Promise.resolve();
+    client.on('connect', connack => {
+      logger.info(`📡 MQTT gateway connected to ${url}`);
+      if (!connack.sessionPresent) {
+        subscribed = this.subscribe(client);
+        subscribed.catch(error => logger.error('❌ MQTT gateway failed to subscribe:', error));
+      }
+    });
+    client.on('reconnect', () => logger.warn('📡 MQTT gateway reconnecting...'));
+    client.on('error', error => logger.error('❌ MQTT gateway error:', error));
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const onConnect = () => {
+          client.off('error', onError);
+          resolve();
+        };
+        const onError = (error: Error) => {
+          client.off('connect', onConnect);
+          reject(error);
+        };
+        client.once('connect', onConnect);
+        client.once('error', onError);
+      });
+      await subscribed;
+    } catch (error) {
+      // Drop the half-started client so it stops reconnecting and start() can be retried
+      if (this.client === client) {
+        this.client = null;
+      }
+      client.end(true);
+      throw error;
+    }
+  }
+
+  private static async subscribe(client: MqttClient): Promise<void> {
+    const subscriptions = ['status', 'batch', 'presence'].map(channel => `${this.topicPrefix}/+/${channel}`);
+    await client.subscribeAsync(subscriptions, { qos: 1 });
+
+    logger.info(`✅ MQTT gateway subscribed: ${subscriptions.join(', ')}`);
+  }
+
+  /**
+   * Disconnect from the broker
+   */
+  static async stop(): Promise<void> {
+    if (!this.client) {
+      return;
+    }
+
+    const client = this.client;
+    this.client = null;
+    await client.endAsync();
+    logger.info('🛑 MQTT gateway stopped');
+  }
+
+  /**
+   * Split a device topic into its deviceID and channel
+   */
+  static parseTopic(topic: string, prefix: string = this.topicPrefix): { deviceID: string; channel: MqttChannel } | null {
+    if (!topic.startsWith(`${prefix}/`)) {
+      return null;
+    }
+
+    const parts = topic.slice(prefix.length + 1).split('/');
+    if (parts.length !== 2 || !parts[0]) {
+      return null;
+    }
+
+    const [deviceID, channel] = parts;
+    if (channel !== 'status' && channel !== 'batch' && channel !== 'presence') {
+      return null;
+    }
+
+    return { deviceID, channel };
+  }
+
+  /**
+   * Route one published message. Resolves when the message may be acknowledged;
+   * rejects only for transient failures that should be redelivered.
+   */
+  private static async handlePublish(topic: string, payload: Buffer): Promise<void> {
+    const route = this.parseTopic(topic);
+    if (!route) {
+      logger.warn(`⚠️ Ignoring MQTT message on unexpected topic: ${topic}`);
+      return;
+    }
+
+    const { deviceID, channel } = route;
+
+    if (channel === 'presence') {
+      await this.handlePresence(deviceID, payload);
+      return;
+    }
+
+    let nonce: string | undefined;
+
+    try {
+      const { device, data, envelope } = await this.authenticate(deviceID, payload);
+      nonce = envelope?.nonce;
+
+      const result = channel === 'status'
+        ? await DeviceController.processStatusMessage(data as ESP32DeviceData, device)
+        : await DeviceController.processBufferedUpload(
+            data,
+            device,
+            Number(envelope?.timestamp) || Math.floor(Date.now() / 1000)
+          );
+
+      const commands = await DeviceCommandService.exchange(device.deviceID, data?.commandAcks, 'mqtt');
+
+      this.publishAck(deviceID, { channel, nonce, status: 'success', data: result, commands });
+    } catch (error) {
+      // Rejected messages are acknowledged so the broker does not redeliver them forever
+      if (error instanceof ApiError) {
+        logger.warn(`⚠️ MQTT ${channel} message from ${deviceID} rejected: ${error.message}`);
+        this.publishAck(deviceID, { channel, nonce, status: 'error', message: error.message });
+        return;
+      }
+
+      logger.error(`❌ Failed to process MQTT ${channel} message from ${deviceID}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Verify the signed envelope and bind the payload to the device named in the topic
+   */
+  private static async authenticate(
+    deviceID: string,
+    payload: Buffer
+  ): Promise<{ device: IDevice; data: any; envelope?: MqttDeviceEnvelope }> {
+    let message: any;
+    try {
+      message = JSON.parse(payload.toString('utf8'));
+    } catch {
+      throw new ValidationError('MQTT payload must be JSON');
+    }
+
+    // Legacy unsigned devices are only let through when enforcement is switched off
+    if (!message?.signature && !config.DEVICE_AUTH_ENFORCED) {
+      const device = await Device.findOne({ deviceID });
+      if (!device) {
+        throw new AuthenticationError('Unknown device');
+      }
+      logger.warn(`⚠️ Unsigned MQTT message accepted (DEVICE_AUTH_ENFORCED=false): ${deviceID}`);
+      return { device, data: this.bindToDevice(typeof message?.body === 'string' ? this.parseBody(message.body) : message, deviceID) };
+    }
+
+    const envelope = message as MqttDeviceEnvelope;
+    if (typeof envelope?.body !== 'string') {
+      throw new ValidationError('Signed MQTT envelope must carry the payload as a JSON string in body');
+    }
+
+    const device = await DeviceAuthService.verifyRequest({
+      deviceId: deviceID,
+      timestamp: envelope.timestamp !== undefined ? String(envelope.timestamp) : undefined,
+      nonce: envelope.nonce,
+      signature: envelope.signature,
+      rawBody: envelope.body
+    });
+
+    return { device, data: this.bindToDevice(this.parseBody(envelope.body), device.deviceID), envelope };
+  }
+
+  private static parseBody(body: string): any {
+    try {
+      return JSON.parse(body);
+    } catch {
+      throw new ValidationError('MQTT envelope body must be JSON');
+    }
+  }
+
+  /**
+   * The payload may only speak for the device whose topic it was published on
+   */
+  private static bindToDevice(data: any, deviceID: string): any {
+    const claimedIds = [data?.deviceID, data?.deviceId]
+      .filter((id): id is string => typeof id === 'string' && id.trim().length > 0)
+      .map(id => id.trim());
+
+    if (claimedIds.some(id => id !== deviceID)) {
+      logger.warn(`🚨 Device ${deviceID} attempted to publish data for ${claimedIds.join(', ')}`);
+      throw new AuthenticationError('Payload deviceID does not match topic device');
+    }
+
+    return data;
+  }
+
+  /**
+   * Track connectivity from presence messages. "online" marks the device connected and hands it
+   * its queued commands, so it must be signed like a reading; the "offline" last will is taken
+   * unsigned because the broker publishes it long after the device could sign anything.
+   */
+  private static async handlePresence(deviceID: string, payload: Buffer): Promise<void> {
+    let message: any = payload.toString('utf8').trim();
+    try {
+      message = JSON.parse(message);
+    } catch {
+      // Plain-text presence payload
+    }
+
+    let state: unknown;
+    if (message && typeof message === 'object' && message.signature) {
+      try {
+        const { data } = await this.authenticate(deviceID, payload);
+        state = data?.status;
+      } catch (error) {
+        if (error instanceof ApiError) {
+          logger.warn(`⚠️ MQTT presence message from ${deviceID} rejected: ${error.message}`);
+          return;
+        }
+        throw error;
+      }
+    } else {
+      state = typeof message === 'string' ? message : message?.status;
+      if (state === 'online' && config.DEVICE_AUTH_ENFORCED) {
+        logger.warn(`⚠️ Ignoring unsigned online presence from ${deviceID}`);
+        return;
+      }
+    }
+
+    if (state !== 'online' && state !== 'offline') {
+      logger.warn(`⚠️ Ignoring presence message from ${deviceID}: ${payload.toString('utf8')}`);
+      return;
+    }
+
+    const now = new Date();
+    const update = state === 'online'
+      ? { 'network.transport': 'mqtt', 'network.mqttConnected': true, 'network.lastConnectedAt': now }
+      : { 'network.mqttConnected': false, 'network.lastDisconnectedAt': now };
+
+    const result = await Device.updateOne({ deviceID }, { $set: update });
+    if (result.matchedCount === 0) {
+      logger.warn(`⚠️ Presence message for unknown device: ${deviceID}`);
+      return;
+    }
+
+    logger.info(`📶 Device ${deviceID} is ${state} (MQTT)`);
+
+    // Push anything queued while the device was away
+    if (state === 'online') {
+      const commands = await DeviceCommandService.exchange(deviceID, undefined, 'mqtt');
+      if (commands.length > 0) {
+        this.publish(`${this.topicPrefix}/${deviceID}/commands`, { commands });
+      }
+    }
+  }
+
+  /**
+   * Publish the processing result back to the device
+   */
+  private static publishAck(deviceID: string, ack: Record<string, any>): void {
+    this.publish(`${this.topicPrefix}/${deviceID}/ack`, ack);
+  }
+
+  /**
+   * Publish to a device topic. Not awaited: the broker's PUBACK arrives on the
+   * inbound stream, which is paused while a message is being handled.
+   */
+  private static publish(topic: string, message: Record<string, any>): void {
+    if (!this.client) {
+      return;
+    }
+
+    this.client.publish(
+      topic,
+      JSON.stringify({ ...message, timestamp: new Date().toISOString() }),
+      { qos: 1 },
+      error => {
+        if (error) {
+          logger.warn(`⚠️ Failed to publish MQTT message to ${topic}:`, error);
+        }
+      }
+    );
+  }
+}
+
+export default MqttGatewayService;
@@ -0,0 +1,399 @@
+import mongoose from 'mongoose';
+import { ObdProfile, IObdProfile } from '../../models/core/ObdProfile.model';
+import { Device, IDevice } from '../../models/core/Device.model';
+import Vehicle, { IVehicleDocument } from '../../models/core/Vehicle.model';
+import { IDeviceCommand } from '../../models/core/DeviceCommand.model';
+import { DeviceCommandService } from './deviceCommand.service';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import { compilePidFormula, decodeOdometerResponse, normalizePidCommand } from '../../utils/obdPid';
+
+// Fields an admin can set on a profile
+export interface ObdProfileInput {
+  name?: string;
+  make?: string | null;
+  vehicleModel?: string | null;
+  yearFrom?: number | null;
+  yearTo?: number | null;
+  header?: string | null;
+  odometer?: {
+    command?: string;
+    formula?: string;
+    unit?: 'km' | 'mi';
+  };
+  legacyProfileId?: number | null;
+  priority?: number;
+  isActive?: boolean;
+  notes?: string;
+}
+
+// Profile as delivered to the firmware in a config_update
+export interface DeviceObdProfilePayload {
+  profileId: string;
+  name: string;
+  header?: string;
+  command: string;
+  formula: string;
+  unit: 'km' | 'mi';
+}
+
+export interface OdometerDecodeResult {
+  mileage: number;
+  profileId: string;
+  command: string;
+  raw: string;
+}
+
+// Reading fields involved in odometer decoding
+interface OdometerReading {
+  odometerRaw?: string;
+  odometerPID?: string;
+  mileage?: number;
+}
+
+// Profiles matching the PID sequences the firmware has hardcoded so far
+const DEFAULT_PROFILES: ObdProfileInput[] = [
+  {
+    name: 'SAE J1979 odometer (PID A6)',
+    odometer: { command: '01A6', formula: '(A*16777216+B*65536+C*256+D)/10', unit: 'km' },
+    priority: 0,
+    notes: 'Standard OBD-II odometer, supported by most cars from model year 2019'
+  },
+  {
+    name: 'Hyundai i20 (UDS F190)',
+    make: 'Hyundai',
+    vehicleModel: 'i20',
+    yearFrom: 2019,
+    yearTo: 2023,
+    header: '7E0',
+    odometer: { command: '22F190', formula: '(A*16777216+B*65536+C*256+D)/10', unit: 'km' },
+    legacyProfileId: 1,
+    priority: 10
+  },
+  {
+    name: 'Maruti Vitara Brezza (22A6)',
+    make: 'Maruti',
+    vehicleModel: 'Vitara Brezza',
+    yearFrom: 2016,
+    yearTo: 2023,
+    odometer: { command: '22A6', formula: 'A*65536+B*256+C', unit: 'km' },
+    legacyProfileId: 2,
+    priority: 10
+  }
+];
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const sameText = (a?: string, b?: string): boolean =>
+  !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export class ObdProfileService {
+  /**
+   * Validate admin input. For updates only the provided fields are checked; `existing`
+   * supplies the rest so cross-field rules (year range, formula vs command) still hold.
+   */
+  static validate(input: ObdProfileInput, existing?: IObdProfile): Record<string, any> {
+    const update: Record<string, any> = {};
+    const unset: string[] = [];
+
+    if (input.name !== undefined) {
+      if (typeof input.name !== 'string' || input.name.trim().length === 0) {
+        throw new ValidationError('name is required');
+      }
+      update.name = input.name.trim();
+    } else if (!existing) {
+      throw new ValidationError('name is required');
+    }
+
+    for (const field of ['make', 'vehicleModel', 'notes'] as const) {
+      const value = input[field];
+      if (value === undefined) continue;
+      if (value === null || value === '') {
+        unset.push(field);
+      } else if (typeof value !== 'string') {
+        throw new ValidationError(`${field} must be a string`);
+      } else {
+        update[field] = value.trim();
+      }
+    }
+
+    if (input.header !== undefined) {
+      if (input.header === null || input.header === '') {
+        unset.push('header');
+      } else if (typeof input.header !== 'string' || !/^[0-9A-F]{3}([0-9A-F]{5})?$/i.test(input.header.trim())) {
+        throw new ValidationError('header must be an 11-bit (3 hex) or 29-bit (8 hex) CAN ID');
+      } else {
+        update.header = input.header.trim().toUpperCase();
+      }
+    }
+
+    for (const field of ['yearFrom', 'yearTo', 'legacyProfileId'] as const) {
+      const value = input[field];
+      if (value === undefined) continue;
+      if (value === null) {
+        unset.push(field);
+        continue;
+      }
+      const [min, max] = field === 'legacyProfileId' ? [1, 99] : [1980, new Date().getFullYear() + 2];
+      if (!Number.isInteger(value) || value < min || value > max) {
+        throw new ValidationError(`${field} must be an integer between ${min} and ${max}`);
+      }
+      update[field] = value;
+    }
+
+    const yearFrom = unset.includes('yearFrom') ? undefined : update.yearFrom ?? existing?.yearFrom;
+    const yearTo = unset.includes('yearTo') ? undefined : update.yearTo ?? existing?.yearTo;
+    if (yearFrom !== undefined && yearTo !== undefined && yearFrom > yearTo) {
+      throw new ValidationError('yearFrom cannot be after yearTo');
+    }
+
+    if (input.priority !== undefined) {
+      if (!Number.isInteger(input.priority)) {
+        throw new ValidationError('priority must be an integer');
+      }
+      update.priority = input.priority;
+    }
+    if (input.isActive !== undefined) {
+      if (typeof input.isActive !== 'boolean') {
+        throw new ValidationError('isActive must be a boolean');
+      }
+      update.isActive = input.isActive;
+    }
+
+    if (input.odometer !== undefined || !existing) {
+      const odometer = {
+        command: existing?.odometer?.command,
+        formula: existing?.odometer?.formula,
+        unit: existing?.odometer?.unit,
+        ...input.odometer
+      };
+      const command = normalizePidCommand(odometer.command);
+      if (!command) {
+        throw new ValidationError('odometer.command must be a service byte followed by a PID, e.g. "01A6" or "22F190"');
+      }
+      try {
+        compilePidFormula(odometer.formula);
+      } catch (formulaError) {
+        throw new ValidationError(`odometer.formula is invalid: ${formulaError.message}`);
+      }
+      if (odometer.unit !== undefined && !['km', 'mi'].includes(odometer.unit)) {
+        throw new ValidationError('odometer.unit must be km or mi');
+      }
+      update.odometer = { command, formula: odometer.formula.trim(), unit: odometer.unit || 'km' };
+    }
+
+    return unset.length > 0
+      ? { $set: update, $unset: Object.fromEntries(unset.map(field => [field, ''])) }
+      : { $set: update };
+  }
+
+  static async list(filter: { make?: string; active?: boolean } = {}): Promise<IObdProfile[]> {
+    const query: Record<string, any> = {};
+    if (filter.make) {
+      query.make = new RegExp(`^${escapeRegex(filter.make.trim())}$`, 'i');
+    }
+    if (filter.active !== undefined) {
+      query.isActive = filter.active;
+    }
+    return ObdProfile.find(query).sort({ make: 1, vehicleModel: 1, yearFrom: 1, name: 1 });
+  }
+
+  static async create(input: ObdProfileInput, userId?: string): Promise<IObdProfile> {
+    const { $set } = this.validate(input);
+    const profile = await ObdProfile.create({ ...$set, createdBy: userId, updatedBy: userId });
+    logger.info(`🧭 OBD profile created: ${profile.name}`);
+    return profile;
+  }
+
+  static async update(profileId: string, input: ObdProfileInput, userId?: string): Promise<IObdProfile> {
+    const existing = mongoose.isValidObjectId(profileId) ? await ObdProfile.findById(profileId) : null;
+    if (!existing) {
+      throw new NotFoundError(`OBD profile ${profileId} not found`);
+    }
+
+    const update = this.validate(input, existing);
+    update.$set.updatedBy = userId;
+    const profile = await ObdProfile.findByIdAndUpdate(profileId, update, { new: true, runValidators: true });
+    logger.info(`🧭 OBD profile updated: ${profile.name}`);
+    return profile;
+  }
+
+  /**
+   * Pick the most specific active profile for a vehicle: make and model beat make only,
+   * which beats a generic profile; ties go to the higher priority.
+   */
+  static async resolveForVehicle(vehicle: Pick<IVehicleDocument, 'make' | 'vehicleModel' | 'year'>): Promise<IObdProfile | null> {
+    const candidates = await ObdProfile.find({
+      isActive: true,
+      $or: [
+        { make: { $exists: false } },
+        { make: null },
+        { make: new RegExp(`^${escapeRegex((vehicle.make || '').trim())}$`, 'i') }
+      ]
+    });
+
+    const ranked = candidates
+      .filter(profile => !profile.vehicleModel || sameText(profile.vehicleModel, vehicle.vehicleModel))
+      .filter(profile => !vehicle.year || (
+        (profile.yearFrom === undefined || profile.yearFrom === null || vehicle.year >= profile.yearFrom) &&
+        (profile.yearTo === undefined || profile.yearTo === null || vehicle.year <= profile.yearTo)
+      ))
+      .map(profile => ({
+        profile,
+        specificity: (profile.make ? 1 : 0) + (profile.vehicleModel ? 1 : 0)
+      }))
+      .sort((a, b) => b.specificity - a.specificity || (b.profile.priority || 0) - (a.profile.priority || 0));
+
+    return ranked[0]?.profile || null;
+  }
+
+  /**
+   * Profile for a device: the one pinned in its configuration, or the best match for its vehicle
+   */
+  static async resolveForDevice(device: IDevice): Promise<IObdProfile | null> {
+    if (device.configuration?.obdProfile) {
+      const pinned = await ObdProfile.findById(device.configuration.obdProfile);
+      if (pinned?.isActive) {
+        return pinned;
+      }
+      logger.warn(`Device ${device.deviceID} is pinned to a missing or inactive OBD profile; falling back to its vehicle`);
+    }
+
+    if (!device.vehicle) {
+      return null;
+    }
+    const vehicle = await Vehicle.findById(device.vehicle).select('make vehicleModel year');
+    return vehicle ? this.resolveForVehicle(vehicle) : null;
+  }
+
+  static toDevicePayload(profile: IObdProfile): DeviceObdProfilePayload {
+    return {
+      profileId: profile._id.toString(),
+      name: profile.name,
+      ...(profile.header && { header: profile.header }),
+      command: profile.odometer.command,
+      formula: profile.odometer.formula,
+      unit: profile.odometer.unit
+    };
+  }
+
+  /**
+   * Configuration as sent to the firmware, including the resolved odometer profile
+   */
+  static async buildDeviceConfiguration(device: IDevice): Promise<Record<string, any>> {
+    const profile = await this.resolveForDevice(device);
+    return {
+      selectedVehicle: device.configuration.selectedVehicle,
+      sleepDurationMinutes: device.configuration.sleepDurationMinutes,
+      maxRetryAttempts: device.configuration.maxRetryAttempts,
+      enableDataBuffering: device.configuration.enableDataBuffering,
+      enableSSL: device.configuration.enableSSL,
+      obdProfile: profile ? this.toDevicePayload(profile) : null
+    };
+  }
+
+  /**
+   * Pin a profile to a device (or re-resolve it from the vehicle when no profile is given)
+   * and queue the resulting configuration for delivery.
+   */
+  static async assignToDevice(
+    deviceID: string,
+    profileId?: string | null,
+    issuedBy?: string
+  ): Promise<{ profile: IObdProfile | null; command: IDeviceCommand | null }> {
+    const device = await Device.findOne({ deviceID });
+    if (!device) {
+      throw new NotFoundError(`Device ${deviceID} not found`);
+    }
+
+    let pinned: IObdProfile | null = null;
+    if (profileId) {
+      pinned = mongoose.isValidObjectId(profileId) ? await ObdProfile.findById(profileId) : null;
+      if (!pinned || !pinned.isActive) {
+        throw new NotFoundError(`Active OBD profile ${profileId} not found`);
+      }
+    }
+
+    device.configuration.obdProfile = pinned?._id as mongoose.Types.ObjectId;
+    const profile = pinned || await this.resolveForDevice(device);
+    if (!profile) {
+      await device.save();
+      logger.warn(`No OBD profile matches device ${deviceID}; it keeps its current PID settings`);
+      return { profile: null, command: null };
+    }
+
+    // Firmware without profile support still understands the legacy selector
+    if (profile.legacyProfileId) {
+      device.configuration.selectedVehicle = profile.legacyProfileId;
+    }
+    await device.save();
+
+    const command = await DeviceCommandService.enqueue(
+      deviceID,
+      'config_update',
+      await this.buildDeviceConfiguration(device),
+      issuedBy
+    );
+    logger.info(`🧭 OBD profile "${profile.name}" assigned to device ${deviceID}`);
+
+    return { profile, command };
+  }
+
+  /**
+   * Decode a reading's raw odometer response with the given profile. The decoded value replaces
+   * the mileage computed by the firmware. Returns null when there is nothing to decode or decoding fails.
+   */
+  static decodeReading(profile: IObdProfile | null, reading: OdometerReading): OdometerDecodeResult | null {
+    if (!reading.odometerRaw || !profile) {
+      return null;
+    }
+
+    try {
+      const { mileageKm } = decodeOdometerResponse(profile.odometer, reading.odometerRaw);
+      if (typeof reading.mileage === 'number' && Math.abs(reading.mileage - mileageKm) > 1) {
+        logger.warn(`Device mileage ${reading.mileage} differs from decoded ${mileageKm} (profile ${profile.name}); using decoded value`);
+      }
+      reading.mileage = mileageKm;
+      reading.odometerPID = profile.odometer.command;
+      return {
+        mileage: mileageKm,
+        profileId: profile._id.toString(),
+        command: profile.odometer.command,
+        raw: reading.odometerRaw
+      };
+    } catch (decodeError) {
+      logger.warn(`Could not decode odometer response with profile ${profile.name}: ${decodeError.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Resolve the device's profile and decode a single reading. Never throws.
+   */
+  static async applyToReading(device: IDevice, reading: OdometerReading): Promise<OdometerDecodeResult | null> {
+    if (!reading.odometerRaw) {
+      return null;
+    }
+    try {
+      return this.decodeReading(await this.resolveForDevice(device), reading);
+    } catch (error) {
+      logger.warn(`OBD profile lookup failed for device ${device.deviceID}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Insert the built-in profiles on a fresh database
+   */
+  static async ensureDefaultProfiles(): Promise<void> {
+    if (await ObdProfile.estimatedDocumentCount() > 0) {
+      return;
+    }
+    for (const input of DEFAULT_PROFILES) {
+      await ObdProfile.create(this.validate(input).$set);
+    }
+    logger.info(`🧭 Seeded ${DEFAULT_PROFILES.length} default OBD profiles`);
+  }
+}
+
+export default ObdProfileService;
@@ -0,0 +1,271 @@
+import mongoose from 'mongoose';
+import Vehicle, { IVehicleDocument } from '../../models/core/Vehicle.model';
+import { User } from '../../models/core/User.model';
+import { TelemetryBatch } from '../../models/TelemetryBatch.model';
+import { SaleRecord } from '../../models/SaleRecord.model';
+import { MerkleTreeBuilder } from '../../utils/merkle';
+import { AuthorizationError, ConflictError, ExternalServiceError, NotFoundError, ValidationError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import { getSolanaService } from '../blockchain/solana.service';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+export interface ProofViewer {
+  id?: string;
+  role?: string;
+}
+
+// The exact leaf that was hashed into the batch root
+export interface SegmentLeaf {
+  index: number;
+  startTime: string;
+  endTime: string;
+  distance: number;
+  rawDataCID: string | null;
+}
+
+export interface SegmentProof {
+  segment: SegmentLeaf;
+  proof: string[];
+}
+
+export interface BatchProof {
+  vehicleId: string;
+  date: string;
+  status: string;
+  totalDistance: number;
+  segmentsCount: number;
+  merkleRoot: string;
+  solanaTx: string | null;
+  arweaveTx: string | null;
+  network: string;
+  explorerUrl: string | null;
+  segments: SegmentProof[];
+}
+
+export interface VerifySegmentInput {
+  vehicleId?: any;
+  date?: any;
+  segment?: any;
+  proof?: any;
+  solanaTx?: any;
+}
+
+export interface SegmentVerification {
+  verified: boolean;
+  computedRoot: string;
+  anchoredRoot: string | null;
+  reasons: string[];
+  anchor: {
+    solanaTx: string;
+    network: string;
+    confirmationStatus: string | null;
+    slot: number;
+    blockTime: number | null;
+    signer: string | null;
+    vehicleId: string | null;
+    date: string | null;
+    explorerUrl: string | null;
+  } | null;
+}
+
+const isValidLeaf = (segment: any): segment is SegmentLeaf =>
+  !!segment && typeof segment === 'object' &&
+  Number.isInteger(segment.index) && segment.index >= 0 &&
+  typeof segment.startTime === 'string' && typeof segment.endTime === 'string' &&
+  typeof segment.distance === 'number' &&
+  (segment.rawDataCID === null || typeof segment.rawDataCID === 'string');
+
+export class TelemetryProofService {
+  /**
+   * Inclusion proofs of a day's segments against the batch's anchored Merkle root, optionally for
+   * one segment only. Owners and admins always; anyone else only while the vehicle is listed.
+   */
+  static async getBatchProof(
+    vehicleId: string,
+    date: string,
+    viewer: ProofViewer | undefined,
+    segmentIndex?: number
+  ): Promise<BatchProof> {
+    if (!mongoose.isValidObjectId(vehicleId)) {
+      throw new ValidationError('Invalid vehicle ID');
+    }
+    if (!DATE_PATTERN.test(date)) {
+      throw new ValidationError('date must be formatted as YYYY-MM-DD');
+    }
+
+    const vehicle = await Vehicle.findById(vehicleId);
+    if (!vehicle) {
+      throw new NotFoundError('Vehicle not found');
+    }
+    this.assertCanView(vehicle, viewer);
+
+    const batch = await TelemetryBatch.findOne({ vehicleId: vehicle._id, date });
+    if (!batch || !batch.merkleRoot || !batch.segments?.length) {
+      throw new NotFoundError('No telemetry batch for this date');
+    }
+    if (segmentIndex !== undefined && (!Number.isInteger(segmentIndex) || segmentIndex < 0 || segmentIndex >= batch.segments.length)) {
+      throw new ValidationError(`segmentIndex must be between 0 and ${batch.segments.length - 1}`);
+    }
+
+    const tree = MerkleTreeBuilder.buildTree(batch.segments);
+    if (tree.root.hash !== batch.merkleRoot) {
+      // Proofs from segments that no longer hash to the root would never verify
+      logger.error(`❌ Batch ${batch._id} (${vehicleId} on ${date}) does not reproduce its Merkle root`);
+      throw new ConflictError('Stored segments do not reproduce the batch Merkle root');
+    }
+
+    const indexes = segmentIndex === undefined ? batch.segments.map((_, i) => i) : [segmentIndex];
+    const solana = getSolanaService();
+
+    return {
+      vehicleId,
+      date,
+      status: batch.status,
+      totalDistance: batch.totalDistance,
+      segmentsCount: batch.segmentsCount,
+      merkleRoot: batch.merkleRoot,
+      solanaTx: batch.solanaTx || null,
+      arweaveTx: batch.arweaveTx || null,
+      network: solana.network,
+      explorerUrl: batch.solanaTx ? solana.explorerUrl(batch.solanaTx) : null,
+      segments: indexes.map(index => ({
+        segment: tree.leaves[index].data as SegmentLeaf,
+        proof: MerkleTreeBuilder.generateProof(tree, index)
+      }))
+    };
+  }
+
+  /**
+   * Recompute the root from a segment and its sibling path and check it against the Merkle root
+   * in the anchor memo on chain. The anchor must be signed by one of the vehicle's anchor wallets
+   * and name the vehicle and day being proven. Needs nothing but the proof, so anyone can run it.
+   */
+  static async verifySegment(input: VerifySegmentInput): Promise<SegmentVerification> {
+    const { vehicleId, date, segment, proof, solanaTx } = input;
+    if (typeof vehicleId !== 'string' || !mongoose.isValidObjectId(vehicleId)) {
+      throw new ValidationError('vehicleId must be a valid vehicle ID');
+    }
+    if (typeof date !== 'string' || !DATE_PATTERN.test(date)) {
+      throw new ValidationError('date must be formatted as YYYY-MM-DD');
+    }
+    if (!isValidLeaf(segment)) {
+      throw new ValidationError('segment must be a leaf with index, startTime, endTime, distance and rawDataCID');
+    }
+    if (!Array.isArray(proof) || !proof.every(hash => typeof hash === 'string' && HASH_PATTERN.test(hash))) {
+      throw new ValidationError('proof must be an array of sha256 hex hashes');
+    }
+    if (typeof solanaTx !== 'string' || !solanaTx.trim()) {
+      throw new ValidationError('solanaTx is required');
+    }
+
+    const vehicle = await Vehicle.findById(vehicleId);
+    if (!vehicle) {
+      throw new NotFoundError('Vehicle not found');
+    }
+
+    const leaf: SegmentLeaf = {
+      index: segment.index,
+      startTime: segment.startTime,
+      endTime: segment.endTime,
+      distance: segment.distance,
+      rawDataCID: segment.rawDataCID
+    };
+    const computedRoot = MerkleTreeBuilder.computeRoot(leaf, proof);
+
+    const solana = getSolanaService();
+    let transaction;
+    try {
+      transaction = await solana.getTransaction(solanaTx.trim());
+    } catch (error) {
+      logger.error(`❌ Failed to fetch anchor ${solanaTx}:`, error);
+      throw new ExternalServiceError('Could not reach the ledger to read the anchor');
+    }
+
+    if (!transaction) {
+      return { verified: false, computedRoot, anchoredRoot: null, reasons: ['Anchor transaction not found'], anchor: null };
+    }
+
+    const memo = transaction.memoData || {};
+    const anchoredRoot = typeof memo.merkleRoot === 'string' ? memo.merkleRoot : null;
+    const signers = await this.anchorSigners(vehicle);
+    const reasons: string[] = [];
+    if (transaction.err) {
+      reasons.push('Anchor transaction failed on chain');
+    }
+    if (transaction.confirmationStatus !== 'confirmed' && transaction.confirmationStatus !== 'finalized') {
+      reasons.push('Anchor transaction is not confirmed');
+    }
+    if (!transaction.signer || !signers.includes(transaction.signer)) {
+      reasons.push('Anchor was not signed by an anchor wallet of this vehicle');
+    }
+    if (String(memo.vehicleId) !== vehicleId) {
+      reasons.push('Anchor memo is for a different vehicle');
+    }
+    if (memo.date !== date) {
+      reasons.push('Anchor memo is for a different date');
+    }
+    if (!anchoredRoot) {
+      reasons.push('Anchor memo carries no Merkle root');
+    } else if (anchoredRoot !== computedRoot) {
+      reasons.push('Recomputed root does not match the anchored root');
+    }
+
+    return {
+      verified: reasons.length === 0,
+      computedRoot,
+      anchoredRoot,
+      reasons,
+      anchor: {
+        solanaTx: transaction.signature,
+        network: solana.network,
+        confirmationStatus: transaction.confirmationStatus,
+        slot: transaction.slot,
+        blockTime: transaction.blockTime,
+        signer: transaction.signer,
+        vehicleId: memo.vehicleId ?? null,
+        date: memo.date ?? null,
+        explorerUrl: solana.explorerUrl(transaction.signature)
+      }
+    };
+  }
+
+  /**
+   * Wallets that may sign a vehicle's telemetry anchors: the wallet of every owner it has had
+   * (anchors are signed by the owner at the time) and the platform wallet when one is configured
+   */
+  static async anchorSigners(vehicle: IVehicleDocument): Promise<string[]> {
+    const history = vehicle.ownershipHistory || [];
+    const sales = await SaleRecord.find({ vehicleId: vehicle._id }).select('buyerId sellerId');
+    const ownerIds = [
+      vehicle.ownerId,
+      vehicle.ownerUserId,
+      ...history.map(entry => entry.ownerUserId),
+      ...sales.flatMap(sale => [sale.buyerId, sale.sellerId])
+    ].filter(Boolean).map(String);
+    const owners = await User.find({ _id: { $in: [...new Set(ownerIds)] } }).select('blockchainWallet');
+
+    const signers = new Set([
+      ...owners.map(owner => owner.blockchainWallet?.walletAddress),
+      ...history.map(entry => entry.ownerWallet)
+    ].filter((address): address is string => !!address));
+    const platform = getSolanaService().platformWallet();
+    if (platform) {
+      signers.add(platform.publicKey);
+    }
+    return [...signers].sort();
+  }
+
+  /**
+   * Owners and admins always; anyone else only while the vehicle is listed
+   */
+  static assertCanView(vehicle: IVehicleDocument, viewer: ProofViewer | undefined): void {
+    const isOwner = !!viewer?.id && String(vehicle.ownerId) === String(viewer.id);
+    const isAdmin = (viewer?.role || '').toLowerCase() === 'admin';
+    const isListed = vehicle.isForSale && vehicle.listingStatus === 'active';
+    if (!(isOwner || isAdmin || isListed)) {
+      throw new AuthorizationError('Access denied');
+    }
+  }
+}
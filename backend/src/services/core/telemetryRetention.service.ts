@@ -0,0 +1,162 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import zlib from 'zlib';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { VehicleTelemetry } from '../../models/core/VehicleTelemetry.model';
+import { TelemetryBatch, ITelemetryBatch } from '../../models/TelemetryBatch.model';
+import { TelemetryRollupService, readingsBetween } from './telemetryRollup.service';
+import { MerkleTreeBuilder } from '../../utils/merkle';
+import { config } from '../../config/environment';
+import { logger } from '../../utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RetentionRunResult {
+  archived: number;
+  skipped: number;
+  failed: number;
+  expiringReadings: number;
+}
+
+export const archiveFilePath = (vehicleId: string, date: string): string =>
+  path.join(config.TELEMETRY_ARCHIVE_PATH, vehicleId, `${date}.ndjson.gz`);
+
+/**
+ * True when the batch's stored segments still hash to its anchored Merkle root, so the leaves
+ * can be rebuilt after the raw readings are gone
+ */
+export const isReproducibleAnchor = (batch: Pick<ITelemetryBatch, 'status' | 'merkleRoot' | 'solanaTx' | 'segments'>): boolean => {
+  if (batch.status !== 'anchored' || !batch.merkleRoot || !batch.solanaTx || !batch.segments?.length) {
+    return false;
+  }
+  const segments = batch.segments.map(segment => ({
+    startTime: new Date(segment.startTime),
+    endTime: new Date(segment.endTime),
+    distance: segment.distance,
+    rawDataCID: segment.rawDataCID
+  }));
+  return MerkleTreeBuilder.buildTree(segments).root.hash === batch.merkleRoot;
+};
+
+export class TelemetryRetentionService {
+  /**
+   * Archive and expire the raw readings of every anchored day older than the retention window.
+   * Days without an anchored batch keep their raw readings indefinitely.
+   */
+  static async runRetention(now: Date = new Date()): Promise<RetentionRunResult> {
+    const cutoff = new Date(now.getTime() - config.TELEMETRY_RAW_RETENTION_DAYS * DAY_MS)
+      .toISOString()
+      .split('T')[0];
+
+    const batches = await TelemetryBatch.find({
+      status: 'anchored',
+      date: { $lt: cutoff },
+      'archive.archivedAt': { $exists: false }
+    }).sort({ date: 1 });
+
+    const result: RetentionRunResult = { archived: 0, skipped: 0, failed: 0, expiringReadings: 0 };
+    for (const batch of batches) {
+      try {
+        if (!isReproducibleAnchor(batch)) {
+          logger.warn(`⚠️ Batch ${batch._id} (${batch.vehicleId} on ${batch.date}) does not reproduce its Merkle root, keeping raw telemetry`);
+          result.skipped++;
+          continue;
+        }
+        result.expiringReadings += await this.archiveBatchDay(batch, now);
+        result.archived++;
+      } catch (error) {
+        logger.error(`❌ Failed to archive telemetry for batch ${batch._id}:`, error);
+        result.failed++;
+      }
+    }
+
+    logger.info(`🗄️ Telemetry retention: ${result.archived} day(s) archived, ${result.expiringReadings} raw reading(s) set to expire, ${result.skipped} skipped, ${result.failed} failed`);
+    return result;
+  }
+
+  /**
+   * Make sure the day's rollups exist, write the raw readings the anchored root was built from to
+   * a gzip NDJSON archive and give them an expiry date. Readings stored after the day was
+   * consolidated (late buffered uploads) are not covered by the anchor and stay raw. Returns the
+   * number of readings archived.
+   */
+  static async archiveBatchDay(batch: ITelemetryBatch, now: Date = new Date()): Promise<number> {
+    const vehicleId = String(batch.vehicleId);
+    const dayStart = new Date(`${batch.date}T00:00:00.000Z`);
+    const dayEnd = new Date(dayStart.getTime() + DAY_MS);
+
+    await TelemetryRollupService.rollupRange(vehicleId, dayStart, dayEnd);
+
+    // Batches from before consolidatedAt was kept only know when they were first built
+    const consolidatedAt = batch.consolidatedAt || batch.recordedAt;
+    const filter = { ...readingsBetween(vehicleId, dayStart, dayEnd), createdAt: { $lt: consolidatedAt } };
+    const { records, bytes, sha256, filePath } = await this.writeArchive(vehicleId, batch.date, filter);
+
+    const lateReadings = await VehicleTelemetry.countDocuments({
+      ...readingsBetween(vehicleId, dayStart, dayEnd),
+      createdAt: { $gte: consolidatedAt }
+    });
+    if (lateReadings > 0) {
+      logger.warn(`⚠️ Keeping ${lateReadings} raw reading(s) of vehicle ${vehicleId} on ${batch.date} stored after it was anchored`);
+    }
+
+    const rawExpiresAt = new Date(now.getTime() + config.TELEMETRY_EXPIRY_GRACE_DAYS * DAY_MS);
+    await VehicleTelemetry.updateMany(filter, { $set: { expiresAt: rawExpiresAt } });
+
+    batch.archive = { path: filePath, sha256, records, bytes, archivedAt: now, rawExpiresAt };
+    await batch.save();
+
+    logger.info(`🗄️ Archived ${records} raw reading(s) for vehicle ${vehicleId} on ${batch.date} (sha256 ${sha256})`);
+    return records;
+  }
+
+  /**
+   * Open an archive written by the retention job
+   */
+  static async openArchive(vehicleId: string, date: string): Promise<{ stream: fs.ReadStream; batch: ITelemetryBatch } | null> {
+    const batch = await TelemetryBatch.findOne({ vehicleId, date });
+    if (!batch?.archive?.path || !fs.existsSync(batch.archive.path)) {
+      return null;
+    }
+    return { stream: fs.createReadStream(batch.archive.path), batch };
+  }
+
+  private static async writeArchive(
+    vehicleId: string,
+    date: string,
+    filter: ReturnType<typeof readingsBetween> & { createdAt: { $lt: Date } }
+  ): Promise<{ records: number; bytes: number; sha256: string; filePath: string }> {
+    const filePath = archiveFilePath(vehicleId, date);
+    const tempPath = `${filePath}.tmp`;
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+    const cursor = VehicleTelemetry.find(filter).sort({ 'rawData.receivedAt': 1 }).lean().cursor();
+    let records = 0;
+    async function* lines() {
+      for await (const record of cursor as AsyncIterable<any>) {
+        records++;
+        yield `${JSON.stringify(record)}\n`;
+      }
+    }
+
+    // Hash the compressed bytes so the digest matches the file as downloaded
+    const hash = crypto.createHash('sha256');
+    let bytes = 0;
+    const digest = new Transform({
+      transform(chunk, _encoding, callback) {
+        hash.update(chunk);
+        bytes += chunk.length;
+        callback(null, chunk);
+      }
+    });
+
+    await pipeline(Readable.from(lines()), zlib.createGzip(), digest, fs.createWriteStream(tempPath));
+    await fs.promises.rename(tempPath, filePath);
+
+    return { records, bytes, sha256: hash.digest('hex'), filePath };
+  }
+}
+
+export default TelemetryRetentionService;
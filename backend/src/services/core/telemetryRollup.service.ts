@@ -0,0 +1,146 @@
+import mongoose from 'mongoose';
+import { VehicleTelemetry } from '../../models/core/VehicleTelemetry.model';
+import { HourlyTelemetryRollup, DailyTelemetryRollup, ITelemetryRollup } from '../../models/core/TelemetryRollup.model';
+import { config } from '../../config/environment';
+import { logger } from '../../utils/logger';
+import {
+  RollupBucket,
+  RollupGranularity,
+  bucketSize,
+  bucketStart,
+  createRollupAccumulator,
+  mergeRollupBuckets
+} from '../../utils/telemetryRollup';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// At most this many buckets per history query (one year of days, two weeks of hours)
+const MAX_BUCKETS: Record<RollupGranularity, number> = { hour: 14 * 24, day: 366 };
+
+/**
+ * Readings of a vehicle taken in [from, to): the device's clock when known, otherwise arrival time
+ */
+export const readingsBetween = (vehicleId: string, from: Date, to: Date) => ({
+  vehicle: new mongoose.Types.ObjectId(vehicleId),
+  $or: [
+    { 'rawData.recordedAt': { $gte: from, $lt: to } },
+    { 'rawData.recordedAt': null, 'rawData.receivedAt': { $gte: from, $lt: to } }
+  ]
+});
+
+const isFlagged = (record: any): boolean =>
+  Boolean(record.validation?.tamperingDetected || record.mileageValidation?.flagged);
+
+export class TelemetryRollupService {
+  /**
+   * Recompute the hourly rollups of [from, to) from raw readings, then the daily rollups of the
+   * days touched. Bounds are widened to whole hours.
+   */
+  static async rollupRange(vehicleId: string, from: Date, to: Date): Promise<number> {
+    const start = bucketStart(from, 'hour');
+    const end = new Date(Math.ceil(to.getTime() / HOUR_MS) * HOUR_MS);
+    const accumulator = createRollupAccumulator('hour');
+
+    const cursor = VehicleTelemetry.find(readingsBetween(vehicleId, start, end))
+      .select('obd.speed obd.rpm obd.mileage validation.tamperingDetected mileageValidation.flagged rawData.receivedAt rawData.recordedAt')
+      .lean()
+      .cursor();
+
+    for await (const record of cursor as AsyncIterable<any>) {
+      accumulator.add({
+        time: new Date(record.rawData?.recordedAt || record.rawData?.receivedAt),
+        speed: record.obd?.speed,
+        rpm: record.obd?.rpm,
+        mileage: record.obd?.mileage,
+        flagged: isFlagged(record)
+      });
+    }
+
+    const hours = accumulator.result();
+    await this.saveBuckets(HourlyTelemetryRollup, vehicleId, hours);
+
+    const dayStart = bucketStart(start, 'day');
+    const dayEnd = new Date(Math.ceil(end.getTime() / DAY_MS) * DAY_MS);
+    const dayHours = await HourlyTelemetryRollup.find({
+      vehicle: vehicleId,
+      bucketStart: { $gte: dayStart, $lt: dayEnd }
+    }).sort({ bucketStart: 1 }).lean();
+    await this.saveBuckets(DailyTelemetryRollup, vehicleId, mergeRollupBuckets(dayHours as RollupBucket[], 'day'));
+
+    return hours.length;
+  }
+
+  /**
+   * Roll up the hours that received readings recently. Buffered uploads can carry readings from
+   * earlier hours, so the recompute starts at the oldest reading that arrived.
+   */
+  static async rollupRecent(now: Date = new Date()): Promise<number> {
+    const since = new Date(now.getTime() - config.TELEMETRY_ROLLUP_LOOKBACK_HOURS * HOUR_MS);
+    // Days past retention may already have lost raw readings; their rollups are final
+    const floor = new Date(now.getTime() - config.TELEMETRY_RAW_RETENTION_DAYS * DAY_MS);
+
+    const arrivals = await VehicleTelemetry.aggregate([
+      { $match: { vehicle: { $ne: null }, 'rawData.receivedAt': { $gte: since } } },
+      {
+        $group: {
+          _id: '$vehicle',
+          oldest: { $min: { $ifNull: ['$rawData.recordedAt', '$rawData.receivedAt'] } }
+        }
+      }
+    ]);
+
+    let rolled = 0;
+    for (const arrival of arrivals) {
+      const from = new Date(Math.max(new Date(arrival.oldest).getTime(), floor.getTime()));
+      try {
+        await this.rollupRange(String(arrival._id), from, now);
+        rolled++;
+      } catch (error) {
+        logger.error(`❌ Failed to roll up telemetry for vehicle ${arrival._id}:`, error);
+      }
+    }
+
+    logger.info(`📊 Telemetry rollups refreshed for ${rolled}/${arrivals.length} vehicle(s)`);
+    return rolled;
+  }
+
+  /**
+   * Rollup series for the history charts, oldest first
+   */
+  static async getSeries(
+    vehicleId: string,
+    granularity: RollupGranularity,
+    from?: Date,
+    to?: Date
+  ): Promise<ITelemetryRollup[]> {
+    const end = to || new Date();
+    const start = from || new Date(end.getTime() - MAX_BUCKETS[granularity] * bucketSize(granularity));
+    const model = granularity === 'hour' ? HourlyTelemetryRollup : DailyTelemetryRollup;
+
+    return model.find({
+      vehicle: vehicleId,
+      bucketStart: { $gte: bucketStart(start, granularity), $lt: end }
+    })
+      .sort({ bucketStart: 1 })
+      .limit(MAX_BUCKETS[granularity]);
+  }
+
+  private static async saveBuckets(
+    model: mongoose.Model<ITelemetryRollup>,
+    vehicleId: string,
+    buckets: RollupBucket[]
+  ): Promise<void> {
+    if (buckets.length === 0) return;
+    const computedAt = new Date();
+    await model.bulkWrite(buckets.map(({ bucketStart: start, ...bucket }) => ({
+      updateOne: {
+        filter: { vehicle: new mongoose.Types.ObjectId(vehicleId), bucketStart: start },
+        update: { $set: { ...bucket, computedAt } },
+        upsert: true
+      }
+    })));
+  }
+}
+
+export default TelemetryRollupService;
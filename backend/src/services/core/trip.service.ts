@@ -0,0 +1,132 @@
+import mongoose from 'mongoose';
+import { VehicleTelemetry } from '../../models/core/VehicleTelemetry.model';
+import { VehicleTrip, IVehicleTrip } from '../../models/core/VehicleTrip.model';
+import { config } from '../../config/environment';
+import { logger } from '../../utils/logger';
+import { detectTrips, TripDetectionOptions, TripPoint } from '../../utils/tripDetection';
+
+// Readings processed per refresh; the next refresh continues after the last completed trip
+const MAX_READINGS_PER_REFRESH = 5000;
+
+export interface TripListOptions {
+  page?: number;
+  limit?: number;
+  from?: Date;
+  to?: Date;
+}
+
+export const tripDetectionOptions = (): TripDetectionOptions => ({
+  gapMinutes: config.TRIP_GAP_MINUTES,
+  engineOnRpm: config.TRIP_ENGINE_ON_RPM,
+  minDistanceKm: config.TRIP_MIN_DISTANCE_KM,
+  minDurationMinutes: config.TRIP_MIN_DURATION_MINUTES,
+  maxFixAccuracyM: config.GPS_ODOMETER_MAX_FIX_ACCURACY_M
+});
+
+export class TripService {
+  /**
+   * Detect trips from telemetry received since the last completed trip. Completed trips are
+   * stored once; the trip still in progress is replaced on every refresh.
+   * Buffered readings recorded before the last completed trip ended are not revisited.
+   */
+  static async refreshVehicle(vehicleId: string, now: Date = new Date()): Promise<number> {
+    const vehicleObjectId = new mongoose.Types.ObjectId(vehicleId);
+    const lastCompleted = await VehicleTrip.findOne({ vehicle: vehicleObjectId, status: 'completed' })
+      .sort({ endTime: -1 })
+      .select('endTime');
+    const since = lastCompleted?.endTime;
+
+    const records = await VehicleTelemetry.find({
+      vehicle: vehicleObjectId,
+      ...(since && { 'rawData.receivedAt': { $gt: since } })
+    })
+      .sort({ 'rawData.receivedAt': 1 })
+      .limit(MAX_READINGS_PER_REFRESH)
+      .select('deviceID status obd.rpm obd.speed obd.mileage location rawData.receivedAt rawData.recordedAt')
+      .lean();
+
+    const points: TripPoint[] = records
+      .map((record: any) => ({
+        time: new Date(record.rawData?.recordedAt || record.rawData?.receivedAt),
+        connected: record.status === 'obd_connected',
+        rpm: record.obd?.rpm,
+        speed: record.obd?.speed,
+        mileage: record.obd?.mileage,
+        location: record.location
+      }))
+      .filter(point => !since || point.time > since)
+      .sort((a, b) => a.time.getTime() - b.time.getTime());
+
+    // When the batch was cut at the cap the last trip may continue in the next batch
+    const truncated = records.length === MAX_READINGS_PER_REFRESH;
+    const lastPointTime = points[points.length - 1]?.time;
+    const trips = detectTrips(points, tripDetectionOptions(), truncated && lastPointTime ? lastPointTime : now);
+    const deviceID = records[records.length - 1]?.deviceID;
+
+    await VehicleTrip.deleteMany({ vehicle: vehicleObjectId, status: 'in_progress' });
+    for (const trip of trips) {
+      const { completed, ...summary } = trip;
+      await VehicleTrip.updateOne(
+        { vehicle: vehicleObjectId, startTime: trip.startTime },
+        { $set: { ...summary, deviceID, status: completed ? 'completed' : 'in_progress' } },
+        { upsert: true }
+      );
+    }
+
+    const completedCount = trips.filter(trip => trip.completed).length;
+    if (completedCount > 0) {
+      logger.info(`🚗 Detected ${completedCount} completed trip(s) for vehicle ${vehicleId}`);
+    }
+    return completedCount;
+  }
+
+  /**
+   * Trips for a vehicle, newest first, with totals over the whole filtered range
+   */
+  static async listTrips(vehicleId: string, options: TripListOptions = {}): Promise<{
+    trips: IVehicleTrip[];
+    total: number;
+    summary: { totalDistanceKm: number; totalDurationSeconds: number; totalIdleSeconds: number; maxSpeedKmh: number };
+  }> {
+    const page = Math.max(1, options.page || 1);
+    const limit = Math.min(Math.max(1, options.limit || 20), 100);
+
+    const filter: Record<string, any> = { vehicle: new mongoose.Types.ObjectId(vehicleId) };
+    if (options.from || options.to) {
+      filter.startTime = {
+        ...(options.from && { $gte: options.from }),
+        ...(options.to && { $lte: options.to })
+      };
+    }
+
+    const [trips, total, totals] = await Promise.all([
+      VehicleTrip.find(filter).sort({ startTime: -1 }).skip((page - 1) * limit).limit(limit),
+      VehicleTrip.countDocuments(filter),
+      VehicleTrip.aggregate([
+        { $match: filter },
+        {
+          $group: {
+            _id: null,
+            totalDistanceKm: { $sum: '$distanceKm' },
+            totalDurationSeconds: { $sum: '$durationSeconds' },
+            totalIdleSeconds: { $sum: '$idleSeconds' },
+            maxSpeedKmh: { $max: '$maxSpeedKmh' }
+          }
+        }
+      ])
+    ]);
+
+    return {
+      trips,
+      total,
+      summary: {
+        totalDistanceKm: Math.round((totals[0]?.totalDistanceKm || 0) * 10) / 10,
+        totalDurationSeconds: totals[0]?.totalDurationSeconds || 0,
+        totalIdleSeconds: totals[0]?.totalIdleSeconds || 0,
+        maxSpeedKmh: totals[0]?.maxSpeedKmh || 0
+      }
+    };
+  }
+}
+
+export default TripService;
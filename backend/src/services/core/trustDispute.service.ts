@@ -0,0 +1,473 @@
+import mongoose from 'mongoose';
+import { TrustDispute, ITrustDispute, ITrustDisputeDocument } from '../../models/core/TrustDispute.model';
+import { TrustEvent } from '../../models/core/TrustEvent.model';
+import { FraudAlert } from '../../models/core/FraudAlert.model';
+import VehicleDocument from '../../models/core/VehicleDocument.model';
+import Vehicle from '../../models/core/Vehicle.model';
+import { AuthorizationError, ConflictError, NotFoundError, ValidationError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import {
+  OPEN_TRUST_DISPUTE_STATUSES,
+  TRUST_DISPUTE_REVIEWER_ROLES,
+  TRUST_DISPUTE_REVIEW_STATUSES,
+  TRUST_DISPUTE_STATUSES,
+  TrustDisputeStatus,
+  canMoveDispute,
+  disputeCompensationFor,
+  isDisputeDocumentUrl
+} from '../../utils/trustDisputes';
+import { FraudCaseService } from './fraudCase.service';
+import { TrustScoreService } from './trustScore.service';
+import { NotificationService } from '../notificationService';
+
+const MAX_DOCUMENTS = 10;
+const MAX_PAGE_SIZE = 100;
+
+export interface DisputeActor {
+  id: string;
+  role: string;
+}
+
+// A document is either an uploaded vehicle document or a link
+export interface DisputeDocumentInput {
+  documentId?: string;
+  url?: string;
+  name?: string;
+}
+
+export interface OpenDisputeInput {
+  trustEventId?: string;
+  fraudAlertId?: string;
+  reason?: string;
+  documents?: DisputeDocumentInput[];
+}
+
+export interface ReviewDisputeInput {
+  status?: string;
+  note?: string;
+  annotation?: string;
+}
+
+export interface DisputeAnnotation {
+  disputeId: string;
+  trustEventId?: string;
+  fraudAlertId?: string;
+  annotation: string;
+  change: number;
+  decidedAt?: Date;
+}
+
+const DISPUTE_POPULATE = [
+  { path: 'vehicleId', select: 'vin make vehicleModel year trustScore' },
+  { path: 'raisedBy', select: 'firstName lastName email' },
+  { path: 'reviewer', select: 'firstName lastName email' },
+  { path: 'trustEventId', select: 'change previousScore newScore reason source createdAt' },
+  { path: 'fraudAlertId', select: 'alertType severity description status reportedAt' }
+];
+
+const isReviewer = (actor: DisputeActor) => TRUST_DISPUTE_REVIEWER_ROLES.includes(actor.role);
+
+const objectId = (id: string | undefined, field: string): mongoose.Types.ObjectId => {
+  if (!id || !mongoose.isValidObjectId(id)) {
+    throw new ValidationError(`${field} must be a valid id`);
+  }
+  return new mongoose.Types.ObjectId(id);
+};
+
+export class TrustDisputeService {
+  /**
+   * Open a dispute against a trust deduction or a fraud alert on one of the owner's vehicles.
+   * A deduction raised by a fraud alert is disputed as that alert, so both routes end up in
+   * the same dispute.
+   */
+  static async open(input: OpenDisputeInput, actor: DisputeActor): Promise<ITrustDispute> {
+    if (!!input.trustEventId === !!input.fraudAlertId) {
+      throw new ValidationError('Provide either trustEventId or fraudAlertId');
+    }
+    const reason = typeof input.reason === 'string' ? input.reason.trim() : '';
+    if (!reason) {
+      throw new ValidationError('A reason is required');
+    }
+
+    let vehicleId: mongoose.Types.ObjectId;
+    let trustEventId: mongoose.Types.ObjectId | undefined;
+    let fraudAlertId: mongoose.Types.ObjectId | undefined;
+
+    if (input.trustEventId) {
+      const event = await TrustEvent.findById(objectId(input.trustEventId, 'trustEventId'));
+      if (!event) {
+        throw new NotFoundError(`Trust event ${input.trustEventId} not found`);
+      }
+      if (event.newScore >= event.previousScore) {
+        throw new ValidationError('Only trust events that lowered the score can be disputed');
+      }
+      vehicleId = event.vehicleId;
+      trustEventId = event._id as mongoose.Types.ObjectId;
+      fraudAlertId = event.details?.fraudAlertId;
+    } else {
+      const alert = await FraudAlert.findById(objectId(input.fraudAlertId, 'fraudAlertId'));
+      if (!alert) {
+        throw new NotFoundError(`Fraud alert ${input.fraudAlertId} not found`);
+      }
+      vehicleId = alert.vehicleId;
+      fraudAlertId = alert._id as mongoose.Types.ObjectId;
+    }
+
+    if (fraudAlertId && (await FraudAlert.exists({ _id: fraudAlertId, status: 'false_positive' }))) {
+      throw new ValidationError('This fraud alert has already been dismissed as a false positive');
+    }
+
+    const vehicle = await Vehicle.findById(vehicleId).select('ownerId');
+    if (!vehicle || String(vehicle.ownerId) !== actor.id) {
+      throw new AuthorizationError('Only the vehicle owner can dispute its trust score');
+    }
+
+    const documents = await this.resolveDocuments(vehicleId, input.documents || []);
+    const subjectKey = fraudAlertId ? `alert:${fraudAlertId}` : `event:${trustEventId}`;
+
+    try {
+      const dispute = await TrustDispute.create({
+        vehicleId,
+        raisedBy: actor.id,
+        trustEventId,
+        fraudAlertId,
+        openSubjectKey: subjectKey,
+        reason,
+        documents,
+        status: 'open'
+      });
+      logger.info(`⚖️ Trust dispute ${dispute._id} opened for vehicle ${vehicleId} (${subjectKey})`);
+      return dispute;
+    } catch (error) {
+      if (error?.code === 11000) {
+        throw new ConflictError('There is already an open dispute for this deduction');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Owners see their own disputes; reviewers see all of them, oldest open ones first
+   */
+  static async list(
+    query: { status?: string; vehicleId?: string; page?: number | string; limit?: number | string },
+    actor: DisputeActor
+  ): Promise<{ disputes: ITrustDispute[]; pagination: { page: number; limit: number; total: number; pages: number } }> {
+    const filter: Record<string, unknown> = {};
+    if (!isReviewer(actor)) filter.raisedBy = objectId(actor.id, 'user');
+    if (query.vehicleId) filter.vehicleId = objectId(query.vehicleId, 'vehicleId');
+    if (query.status) {
+      const statuses = query.status.split(',').map(status => status.trim());
+      if (statuses.some(status => !TRUST_DISPUTE_STATUSES.includes(status as TrustDisputeStatus))) {
+        throw new ValidationError(`status must be one of ${TRUST_DISPUTE_STATUSES.join(', ')}`);
+      }
+      filter.status = { $in: statuses };
+    }
+
+    const page = Math.max(1, parseInt(String(query.page ?? 1), 10) || 1);
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(String(query.limit ?? 20), 10) || 20));
+
+    const [disputes, total] = await Promise.all([
+      TrustDispute.find(filter)
+        .sort(isReviewer(actor) ? { createdAt: 1 } : { createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate(DISPUTE_POPULATE),
+      TrustDispute.countDocuments(filter)
+    ]);
+
+    return { disputes, pagination: { page, limit, total, pages: Math.ceil(total / limit) } };
+  }
+
+  static async get(disputeId: string, actor: DisputeActor): Promise<ITrustDispute> {
+    const dispute = await this.findVisible(disputeId, actor);
+    return dispute.populate(DISPUTE_POPULATE);
+  }
+
+  /**
+   * Attach more documents while the dispute is still open
+   */
+  static async addDocuments(disputeId: string, documents: DisputeDocumentInput[], actor: DisputeActor): Promise<ITrustDispute> {
+    const dispute = await this.findOwn(disputeId, actor);
+    if (!OPEN_TRUST_DISPUTE_STATUSES.includes(dispute.status)) {
+      throw new ValidationError(`Documents cannot be added to a ${dispute.status} dispute`);
+    }
+    if (!Array.isArray(documents) || documents.length === 0) {
+      throw new ValidationError('documents must be a non-empty list');
+    }
+    if (dispute.documents.length + documents.length > MAX_DOCUMENTS) {
+      throw new ValidationError(`A dispute can have at most ${MAX_DOCUMENTS} documents`);
+    }
+
+    const resolved = await this.resolveDocuments(dispute.vehicleId, documents);
+    const saved = await TrustDispute.findOneAndUpdate(
+      { _id: dispute._id, status: { $in: OPEN_TRUST_DISPUTE_STATUSES } },
+      { $push: { documents: { $each: resolved } } },
+      { new: true }
+    );
+    if (!saved) {
+      throw new ConflictError('The dispute was decided in the meantime');
+    }
+    return saved.populate(DISPUTE_POPULATE);
+  }
+
+  static async withdraw(disputeId: string, actor: DisputeActor): Promise<ITrustDispute> {
+    const dispute = await this.findOwn(disputeId, actor);
+    const saved = await this.move(dispute, 'withdrawn', actor.id, 'Withdrawn by owner');
+    return saved.populate(DISPUTE_POPULATE);
+  }
+
+  /**
+   * Take a dispute under review, or decide it. Accepting gives the deducted points back and
+   * adds the annotation shown on the vehicle history report.
+   */
+  static async review(disputeId: string, input: ReviewDisputeInput, actor: DisputeActor): Promise<ITrustDispute> {
+    if (!isReviewer(actor)) {
+      throw new AuthorizationError('Only admins and government reviewers can decide disputes');
+    }
+    const to = input.status as TrustDisputeStatus;
+    if (!TRUST_DISPUTE_REVIEW_STATUSES.includes(to)) {
+      throw new ValidationError(`status must be one of ${TRUST_DISPUTE_REVIEW_STATUSES.join(', ')}`);
+    }
+    const note = typeof input.note === 'string' ? input.note.trim() : '';
+    if (to !== 'under_review' && !note) {
+      throw new ValidationError(`A note is required to mark a dispute ${to}`);
+    }
+
+    const dispute = await this.findVisible(disputeId, actor);
+    const from = dispute.status;
+    const decided = await this.move(dispute, to, actor.id, note || undefined, {
+      reviewer: new mongoose.Types.ObjectId(actor.id),
+      ...(to !== 'under_review' && { reviewedAt: new Date(), decisionNote: note })
+    });
+
+    if (to === 'accepted') {
+      try {
+        const compensation = await this.compensate(decided, note, actor.id);
+        const annotation = (typeof input.annotation === 'string' && input.annotation.trim()) ||
+          `Deduction reversed after the owner's dispute was accepted: ${note}`;
+        await TrustDispute.updateOne({ _id: decided._id }, { $set: { compensation, annotation: annotation.slice(0, 500) } });
+      } catch (error) {
+        // Put the dispute back so the decision can be retried
+        await TrustDispute.updateOne(
+          { _id: decided._id, status: 'accepted' },
+          {
+            $set: { status: from, openSubjectKey: this.subjectKey(decided) },
+            $unset: { reviewedAt: 1, decisionNote: 1 },
+            $pop: { history: 1 }
+          }
+        );
+        throw error;
+      }
+    }
+
+    if (to !== 'under_review') {
+      await this.notifyOwner(decided, to, note);
+    }
+    return (await TrustDispute.findById(decided._id).populate(DISPUTE_POPULATE))!;
+  }
+
+  /**
+   * Open and accepted disputes of a vehicle, for marking deductions on the history report
+   */
+  static async getReportDisputes(vehicleId: string | mongoose.Types.ObjectId): Promise<ITrustDispute[]> {
+    return TrustDispute.find({ vehicleId, status: { $in: [...OPEN_TRUST_DISPUTE_STATUSES, 'accepted'] } })
+      .select('trustEventId fraudAlertId status annotation decisionNote reviewer reviewedAt')
+      .populate('reviewer', 'firstName lastName');
+  }
+
+  /**
+   * Accepted disputes of a vehicle, for the history report
+   */
+  static async getReportAnnotations(vehicleId: string | mongoose.Types.ObjectId): Promise<DisputeAnnotation[]> {
+    const disputes = await TrustDispute.find({ vehicleId, status: 'accepted' }).sort({ reviewedAt: -1 });
+    return disputes.map(dispute => ({
+      disputeId: dispute._id.toString(),
+      trustEventId: dispute.trustEventId?.toString(),
+      fraudAlertId: dispute.fraudAlertId?.toString(),
+      annotation: dispute.annotation || dispute.decisionNote || 'Deduction reversed after owner dispute',
+      change: dispute.compensation?.change || 0,
+      decidedAt: dispute.reviewedAt
+    }));
+  }
+
+  /**
+   * Give the points back. Alerts are dismissed through the fraud case workflow, which nets the
+   * reversal against any earlier one; a bare deduction is compensated directly.
+   */
+  private static async compensate(
+    dispute: ITrustDispute,
+    note: string,
+    reviewerId: string
+  ): Promise<{ trustEventId?: mongoose.Types.ObjectId; change: number }> {
+    const disputeId = dispute._id.toString();
+
+    if (dispute.fraudAlertId) {
+      const result = await FraudCaseService.dismissForDispute(
+        dispute.fraudAlertId.toString(),
+        disputeId,
+        note,
+        reviewerId,
+        dispute.trustEventId ? { disputedEventId: dispute.trustEventId } : {}
+      );
+      return {
+        trustEventId: result.eventId ? new mongoose.Types.ObjectId(result.eventId) : undefined,
+        change: result.change
+      };
+    }
+
+    const disputed = await TrustEvent.findById(dispute.trustEventId);
+    if (!disputed) {
+      throw new NotFoundError(`Trust event ${dispute.trustEventId} not found`);
+    }
+    const earlier = await TrustEvent.find({ 'details.disputedEventId': disputed._id }).select('previousScore newScore');
+    const change = disputeCompensationFor(disputed, earlier);
+    if (change === 0) {
+      return { change };
+    }
+
+    const reason = `Owner dispute accepted: ${disputed.reason}`.slice(0, 200);
+    const result = await TrustScoreService.updateTrustScore({
+      vehicleId: dispute.vehicleId.toString(),
+      change,
+      reason,
+      source: 'admin',
+      details: { disputeId: dispute._id, disputedEventId: disputed._id },
+      createdBy: reviewerId
+    });
+    if (!result.success) {
+      throw new Error(`Failed to compensate trust event ${disputed._id}: ${result.error}`);
+    }
+
+    await TrustScoreService.emitTrustScoreChange(
+      dispute.vehicleId.toString(),
+      result.previousScore,
+      result.newScore,
+      result.eventId!,
+      reason,
+      change
+    );
+    logger.info(`📈 Trust score for vehicle ${dispute.vehicleId} raised by ${change} after dispute ${disputeId}`);
+    return { trustEventId: new mongoose.Types.ObjectId(result.eventId), change };
+  }
+
+  /**
+   * Record a status change, but only if nobody else changed the dispute first
+   */
+  private static async move(
+    dispute: ITrustDispute,
+    to: TrustDisputeStatus,
+    userId: string,
+    note?: string,
+    set: Record<string, unknown> = {}
+  ): Promise<ITrustDispute> {
+    if (!canMoveDispute(dispute.status, to)) {
+      throw new ValidationError(`Cannot move a dispute from ${dispute.status} to ${to}`);
+    }
+
+    const closing = !OPEN_TRUST_DISPUTE_STATUSES.includes(to);
+    const saved = await TrustDispute.findOneAndUpdate(
+      { _id: dispute._id, status: dispute.status },
+      {
+        $set: { status: to, ...set },
+        ...(closing && { $unset: { openSubjectKey: 1 } }),
+        $push: {
+          history: {
+            from: dispute.status,
+            to,
+            changedBy: new mongoose.Types.ObjectId(userId),
+            changedAt: new Date(),
+            note
+          }
+        }
+      },
+      { new: true }
+    );
+    if (!saved) {
+      throw new ConflictError('The dispute was changed by someone else; reload and try again');
+    }
+
+    logger.info(`⚖️ Trust dispute ${saved._id} moved from ${dispute.status} to ${to}`);
+    return saved;
+  }
+
+  private static subjectKey(dispute: ITrustDispute): string {
+    return dispute.fraudAlertId ? `alert:${dispute.fraudAlertId}` : `event:${dispute.trustEventId}`;
+  }
+
+  private static async resolveDocuments(
+    vehicleId: mongoose.Types.ObjectId,
+    documents: DisputeDocumentInput[]
+  ): Promise<Omit<ITrustDisputeDocument, '_id'>[]> {
+    if (!Array.isArray(documents)) {
+      throw new ValidationError('documents must be a list');
+    }
+    if (documents.length > MAX_DOCUMENTS) {
+      throw new ValidationError(`A dispute can have at most ${MAX_DOCUMENTS} documents`);
+    }
+
+    const resolved: Omit<ITrustDisputeDocument, '_id'>[] = [];
+    for (const document of documents) {
+      if (document?.documentId) {
+        const stored = mongoose.isValidObjectId(document.documentId)
+          ? await VehicleDocument.findOne({ _id: document.documentId, vehicleId })
+          : null;
+        if (!stored) {
+          throw new ValidationError(`Document ${document.documentId} is not a document of this vehicle`);
+        }
+        resolved.push({
+          name: document.name || stored.title,
+          url: stored.publicUrl || stored.fileUrl,
+          documentId: stored._id as mongoose.Types.ObjectId,
+          addedAt: new Date()
+        });
+      } else if (isDisputeDocumentUrl(document?.url)) {
+        resolved.push({
+          name: (document.name || document.url.split('/').pop() || 'Document').slice(0, 200),
+          url: document.url,
+          addedAt: new Date()
+        });
+      } else {
+        throw new ValidationError('Each document needs a documentId or an http(s) or /uploads/ url');
+      }
+    }
+    return resolved;
+  }
+
+  private static async notifyOwner(dispute: ITrustDispute, status: TrustDisputeStatus, note: string): Promise<void> {
+    try {
+      await NotificationService.createNotification({
+        userId: dispute.raisedBy.toString(),
+        userRole: 'owner',
+        title: status === 'accepted' ? 'Trust score dispute accepted' : 'Trust score dispute rejected',
+        message: note,
+        type: 'verification',
+        priority: 'medium',
+        data: { vehicleId: dispute.vehicleId.toString(), disputeId: dispute._id.toString() },
+        actionUrl: `/vehicles/${dispute.vehicleId}`,
+        actionLabel: 'View vehicle'
+      });
+    } catch (error) {
+      // The decision stands even if the owner could not be notified
+      logger.warn(`⚠️ Could not notify owner about dispute ${dispute._id}:`, error);
+    }
+  }
+
+  private static async findVisible(disputeId: string, actor: DisputeActor): Promise<ITrustDispute> {
+    const dispute = mongoose.isValidObjectId(disputeId) ? await TrustDispute.findById(disputeId) : null;
+    if (!dispute || (!isReviewer(actor) && String(dispute.raisedBy) !== actor.id)) {
+      throw new NotFoundError(`Dispute ${disputeId} not found`);
+    }
+    return dispute;
+  }
+
+  private static async findOwn(disputeId: string, actor: DisputeActor): Promise<ITrustDispute> {
+    const dispute = await this.findVisible(disputeId, actor);
+    if (String(dispute.raisedBy) !== actor.id) {
+      throw new AuthorizationError('Only the owner who opened the dispute can change it');
+    }
+    return dispute;
+  }
+}
+
+export default TrustDisputeService;
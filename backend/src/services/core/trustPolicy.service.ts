@@ -0,0 +1,405 @@
+import mongoose from 'mongoose';
+import { TrustPolicy, ITrustPolicy } from '../../models/core/TrustPolicy.model';
+import { TrustEvent } from '../../models/core/TrustEvent.model';
+import Vehicle from '../../models/core/Vehicle.model';
+import { ConflictError, NotFoundError, ValidationError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import {
+  DEFAULT_TRUST_POLICY,
+  TrustPolicyConfig,
+  TrustPolicySettings,
+  WEIGHTED_TRUST_SOURCES,
+  replayTrustEvents
+} from '../../utils/trustPolicy';
+
+// The active policy is re-read at most this often; changes through this service clear it at once
+const POLICY_CACHE_TTL_MS = 30 * 1000;
+const MAX_WEIGHT = 5;
+const MAX_PREVIEW_CHANGES = 500;
+
+// Integer range of each scheduled step setting
+const STEP_LIMITS: Record<'recovery' | 'inactivity', Record<string, [number, number]>> = {
+  recovery: {
+    windowDays: [1, 365],
+    minDrivingDays: [0, 365],
+    drivingPoints: [0, 20],
+    minAnchoredDays: [0, 365],
+    anchoredPoints: [0, 20]
+  },
+  inactivity: {
+    graceDays: [1, 3650],
+    stepDays: [1, 365],
+    pointsPerStep: [0, 20],
+    floor: [0, 100]
+  }
+};
+
+// Fields an admin can change; anything omitted is carried over from the active policy
+export interface TrustPolicyInput {
+  weights?: Partial<Record<string, number>>;
+  caps?: Partial<Record<string, number>>;
+  decay?: Partial<Record<string, number>>;
+  recovery?: Partial<Record<string, number>>;
+  inactivity?: Partial<Record<string, number>>;
+  notes?: string;
+}
+
+export interface TrustScoreDiff {
+  vehicleId: string;
+  vin?: string;
+  currentScore: number;
+  recomputedScore: number;
+  delta: number;
+  replayedEvents: number;
+  currentPolicyVersion: number | null;
+}
+
+export interface RecomputeSummary {
+  policyVersion: number;
+  vehicles: number;
+  changed: number;
+  raised: number;
+  lowered: number;
+  averageDelta: number;
+}
+
+export interface RecomputePreview extends RecomputeSummary {
+  changes: TrustScoreDiff[]; // Largest moves first
+}
+
+export interface RecomputeResult extends RecomputeSummary {
+  failed: Array<{ vehicleId: string; error: string }>;
+}
+
+let cachedPolicy: { policy: TrustPolicyConfig; loadedAt: number } | null = null;
+let applying = false;
+
+const toConfig = (document: ITrustPolicy): TrustPolicyConfig => {
+  const policy = document.toObject();
+  return {
+    version: policy.version,
+    weights: { ...DEFAULT_TRUST_POLICY.weights, ...(policy.weights || {}) },
+    caps: { ...DEFAULT_TRUST_POLICY.caps, ...(policy.caps || {}) },
+    decay: { ...DEFAULT_TRUST_POLICY.decay, ...(policy.decay || {}) },
+    recovery: { ...DEFAULT_TRUST_POLICY.recovery, ...(policy.recovery || {}) },
+    inactivity: { ...DEFAULT_TRUST_POLICY.inactivity, ...(policy.inactivity || {}) }
+  };
+};
+
+const summarize = (policyVersion: number, diffs: TrustScoreDiff[]): RecomputeSummary => {
+  const changed = diffs.filter(diff => diff.delta !== 0);
+  return {
+    policyVersion,
+    vehicles: diffs.length,
+    changed: changed.length,
+    raised: changed.filter(diff => diff.delta > 0).length,
+    lowered: changed.filter(diff => diff.delta < 0).length,
+    averageDelta: changed.length > 0
+      ? Math.round((changed.reduce((sum, diff) => sum + diff.delta, 0) / changed.length) * 10) / 10
+      : 0
+  };
+};
+
+export class TrustPolicyService {
+  /**
+   * Validate admin changes and merge them over the current settings
+   */
+  static validate(input: TrustPolicyInput, current: TrustPolicySettings): TrustPolicySettings {
+    const settings: TrustPolicySettings = {
+      weights: { ...current.weights },
+      caps: { ...current.caps },
+      decay: { ...current.decay },
+      recovery: { ...current.recovery },
+      inactivity: { ...current.inactivity }
+    };
+
+    const section = (name: keyof TrustPolicyInput): Record<string, unknown> => {
+      const value = input[name];
+      if (value === undefined) return {};
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new ValidationError(`${name} must be an object`);
+      }
+      return value as Record<string, unknown>;
+    };
+    const number = (path: string, value: unknown, min: number, max: number, integer = false): number => {
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max || (integer && !Number.isInteger(value))) {
+        throw new ValidationError(`${path} must be ${integer ? 'an integer' : 'a number'} between ${min} and ${max}`);
+      }
+      return value;
+    };
+
+    for (const [source, value] of Object.entries(section('weights'))) {
+      if (!WEIGHTED_TRUST_SOURCES.includes(source as any)) {
+        throw new ValidationError(`Unknown weight ${source}; expected one of ${WEIGHTED_TRUST_SOURCES.join(', ')}`);
+      }
+      settings.weights[source] = number(`weights.${source}`, value, 0, MAX_WEIGHT);
+    }
+
+    for (const [name, value] of Object.entries(section('caps'))) {
+      if (!(name in DEFAULT_TRUST_POLICY.caps)) {
+        throw new ValidationError(`Unknown cap ${name}; expected one of ${Object.keys(DEFAULT_TRUST_POLICY.caps).join(', ')}`);
+      }
+      settings.caps[name] = number(`caps.${name}`, value, 0, 100, true);
+    }
+    if (settings.caps.minScore >= settings.caps.maxScore) {
+      throw new ValidationError('caps.minScore must be below caps.maxScore');
+    }
+
+    for (const [name, value] of Object.entries(section('decay'))) {
+      if (name === 'penaltyHalfLifeDays') {
+        settings.decay.penaltyHalfLifeDays = number('decay.penaltyHalfLifeDays', value, 0, 3650);
+      } else if (name === 'minPenaltyFactor') {
+        settings.decay.minPenaltyFactor = number('decay.minPenaltyFactor', value, 0, 1);
+      } else {
+        throw new ValidationError(`Unknown decay setting ${name}; expected penaltyHalfLifeDays or minPenaltyFactor`);
+      }
+    }
+
+    for (const name of ['recovery', 'inactivity'] as const) {
+      for (const [field, value] of Object.entries(section(name))) {
+        const limits = STEP_LIMITS[name][field];
+        if (!limits) {
+          throw new ValidationError(`Unknown ${name} setting ${field}; expected one of ${Object.keys(STEP_LIMITS[name]).join(', ')}`);
+        }
+        settings[name][field] = number(`${name}.${field}`, value, limits[0], limits[1], true);
+      }
+    }
+
+    if (input.notes !== undefined && typeof input.notes !== 'string') {
+      throw new ValidationError('notes must be a string');
+    }
+
+    return settings;
+  }
+
+  /**
+   * Insert version 1 (the scoring before policies existed) if there is no policy yet
+   */
+  static async ensureDefaultPolicy(): Promise<void> {
+    if (await TrustPolicy.exists({})) return;
+    try {
+      await TrustPolicy.create({ version: 1, ...DEFAULT_TRUST_POLICY, isActive: true, activatedAt: new Date() });
+      cachedPolicy = null;
+      logger.info('⚖️ Seeded default trust policy');
+    } catch (error) {
+      // Another instance seeded it first
+      if (error?.code !== 11000) throw error;
+    }
+  }
+
+  /**
+   * The policy live trust score updates are weighed with
+   */
+  static async getActivePolicy(): Promise<TrustPolicyConfig> {
+    if (cachedPolicy && Date.now() - cachedPolicy.loadedAt < POLICY_CACHE_TTL_MS) {
+      return cachedPolicy.policy;
+    }
+
+    let active = await TrustPolicy.findOne({ isActive: true });
+    if (!active) {
+      await this.ensureDefaultPolicy();
+      active = await TrustPolicy.findOne({ isActive: true });
+    }
+
+    const policy = active ? toConfig(active) : { version: 1, ...DEFAULT_TRUST_POLICY };
+    cachedPolicy = { policy, loadedAt: Date.now() };
+    return policy;
+  }
+
+  static clearCache(): void {
+    cachedPolicy = null;
+  }
+
+  // Settings of a stored version, with defaults for anything it predates
+  static configOf(policy: ITrustPolicy): TrustPolicyConfig {
+    return toConfig(policy);
+  }
+
+  static async list(): Promise<ITrustPolicy[]> {
+    await this.ensureDefaultPolicy();
+    return TrustPolicy.find().sort({ version: -1 });
+  }
+
+  static async get(version: number | string): Promise<ITrustPolicy> {
+    const number = Number(version);
+    const policy = Number.isInteger(number) ? await TrustPolicy.findOne({ version: number }) : null;
+    if (!policy) {
+      throw new NotFoundError(`Trust policy version ${version} not found`);
+    }
+    return policy;
+  }
+
+  /**
+   * Save a new policy version. It only takes effect once applied to the fleet.
+   */
+  static async create(input: TrustPolicyInput, userId?: string): Promise<ITrustPolicy> {
+    await this.ensureDefaultPolicy();
+    const active = await this.getActivePolicy();
+    const settings = this.validate(input, active);
+    const latest = await TrustPolicy.findOne().sort({ version: -1 }).select('version');
+
+    // The unique version index makes a concurrent create fail instead of sharing a number
+    const policy = await TrustPolicy.create({
+      version: (latest?.version || 0) + 1,
+      ...settings,
+      isActive: false,
+      notes: input.notes,
+      createdBy: userId
+    });
+
+    logger.info(`⚖️ Trust policy version ${policy.version} created`);
+    return policy;
+  }
+
+  /**
+   * What a vehicle's score would be if its ledger were replayed under a policy
+   */
+  static async replayVehicle(
+    vehicleId: string | mongoose.Types.ObjectId,
+    policy: TrustPolicyConfig,
+    session?: mongoose.ClientSession
+  ): Promise<TrustScoreDiff | null> {
+    const vehicle = await Vehicle.findById(vehicleId).select('vin trustScore trustPolicyVersion').session(session || null);
+    if (!vehicle) return null;
+
+    const events = await TrustEvent.find({ vehicleId: vehicle._id })
+      .sort({ createdAt: 1, _id: 1 })
+      .select('source change previousScore newScore createdAt details.fraudAlertId details.disputedEventId')
+      .session(session || null)
+      .lean();
+    if (events.length === 0) return null;
+
+    const replay = replayTrustEvents(events as any, policy);
+    const currentScore = vehicle.trustScore ?? 100;
+    return {
+      vehicleId: vehicle._id.toString(),
+      vin: vehicle.vin,
+      currentScore,
+      recomputedScore: replay.score,
+      delta: replay.score - currentScore,
+      replayedEvents: replay.replayedEvents,
+      currentPolicyVersion: vehicle.trustPolicyVersion ?? null
+    };
+  }
+
+  /**
+   * Replay every vehicle with trust events under a policy version without changing anything
+   */
+  static async preview(
+    version: number | string,
+    options: { vehicleIds?: string[]; limit?: number | string } = {}
+  ): Promise<RecomputePreview> {
+    const policy = toConfig(await this.get(version));
+    const limit = Math.min(MAX_PREVIEW_CHANGES, Math.max(1, parseInt(String(options.limit ?? 50), 10) || 50));
+
+    const diffs: TrustScoreDiff[] = [];
+    for (const vehicleId of await this.vehicleIds(options.vehicleIds)) {
+      const diff = await this.replayVehicle(vehicleId, policy);
+      if (diff) diffs.push(diff);
+    }
+
+    const changes = diffs
+      .filter(diff => diff.delta !== 0)
+      .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta))
+      .slice(0, limit);
+    return { ...summarize(policy.version, diffs), changes };
+  }
+
+  /**
+   * Make a policy version the active one and rescore the fleet with it. Each vehicle is
+   * rescored in its own transaction with a `recompute` event, so a live update cannot slip
+   * in between reading the ledger and writing the score.
+   */
+  static async apply(version: number | string, userId?: string): Promise<RecomputeResult> {
+    if (applying) {
+      throw new ConflictError('A trust score recompute is already running');
+    }
+
+    applying = true;
+    try {
+      const target = await this.get(version);
+      const previous = await this.getActivePolicy();
+
+      // Activate first so live updates during the run already use the new weights
+      await TrustPolicy.updateOne({ _id: target._id }, { $set: { isActive: true, activatedAt: new Date() } });
+      await TrustPolicy.updateMany({ _id: { $ne: target._id } }, { $set: { isActive: false } });
+      cachedPolicy = null;
+      const policy = toConfig(target);
+
+      const diffs: TrustScoreDiff[] = [];
+      const failed: RecomputeResult['failed'] = [];
+      for (const vehicleId of await this.vehicleIds()) {
+        try {
+          const diff = await this.recomputeVehicle(vehicleId, policy, previous.version, userId);
+          if (diff) diffs.push(diff);
+        } catch (error) {
+          logger.error(`❌ Trust recompute failed for vehicle ${vehicleId}:`, error);
+          failed.push({ vehicleId: String(vehicleId), error: error.message });
+        }
+      }
+
+      const summary = summarize(policy.version, diffs);
+      logger.info(`⚖️ Trust policy ${policy.version} applied: ${summary.changed}/${summary.vehicles} vehicles rescored, ${failed.length} failed`);
+      return { ...summary, failed };
+    } finally {
+      applying = false;
+    }
+  }
+
+  /**
+   * Rescore one vehicle under a policy, recording the correction as a `recompute` event
+   */
+  static async recomputeVehicle(
+    vehicleId: string | mongoose.Types.ObjectId,
+    policy: TrustPolicyConfig,
+    previousPolicyVersion?: number,
+    userId?: string
+  ): Promise<TrustScoreDiff | null> {
+    const session = await mongoose.startSession();
+    try {
+      let result: TrustScoreDiff | null = null;
+      await session.withTransaction(async () => {
+        result = await this.replayVehicle(vehicleId, policy, session);
+        if (!result) return;
+
+        const update: Record<string, unknown> = { $set: { trustPolicyVersion: policy.version } };
+        if (result.delta !== 0) {
+          const [event] = await TrustEvent.create([{
+            vehicleId: result.vehicleId,
+            change: result.delta,
+            previousScore: result.currentScore,
+            newScore: result.recomputedScore,
+            reason: `Recomputed under trust policy v${policy.version}`,
+            source: 'recompute',
+            policyVersion: policy.version,
+            details: {
+              previousPolicyVersion: result.currentPolicyVersion ?? previousPolicyVersion,
+              replayedEvents: result.replayedEvents
+            },
+            createdBy: userId
+          }], { session });
+
+          update.$set = { ...(update.$set as object), trustScore: result.recomputedScore, lastTrustScoreUpdate: event.createdAt };
+          update.$inc = { trustHistoryCount: 1 };
+        }
+        await Vehicle.updateOne({ _id: result.vehicleId }, update, { session });
+      });
+      return result;
+    } finally {
+      await session.endSession();
+    }
+  }
+
+  // Vehicles that have a trust ledger, optionally narrowed to a list
+  private static async vehicleIds(only?: string[]): Promise<mongoose.Types.ObjectId[]> {
+    if (only !== undefined) {
+      if (!Array.isArray(only) || only.some(id => !mongoose.isValidObjectId(id))) {
+        throw new ValidationError('vehicleIds must be a list of vehicle ids');
+      }
+      return only.map(id => new mongoose.Types.ObjectId(id));
+    }
+    return TrustEvent.distinct('vehicleId');
+  }
+}
+
+export default TrustPolicyService;
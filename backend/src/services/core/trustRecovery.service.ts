@@ -0,0 +1,132 @@
+import { TelemetryBatch } from '../../models/TelemetryBatch.model';
+import { TrustEvent } from '../../models/core/TrustEvent.model';
+import Vehicle from '../../models/core/Vehicle.model';
+import { logger } from '../../utils/logger';
+import { TrustPolicyConfig } from '../../utils/trustPolicy';
+import { TrustStep, TrustStepInput, decideTrustStep } from '../../utils/trustRecovery';
+import { TrustPolicyService } from './trustPolicy.service';
+import { TrustScoreService } from './trustScore.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TrustStepResult extends TrustStep {
+  vehicleId: string;
+  previousScore: number;
+  newScore: number;
+  eventId?: string;
+}
+
+export interface TrustRecoveryRun {
+  policyVersion: number;
+  vehicles: number;
+  recovered: number;
+  decayed: number;
+  failed: number;
+}
+
+// Batch days are UTC calendar days
+const dayStart = (date: string): Date => new Date(`${date}T00:00:00.000Z`);
+const toDay = (time: Date): string => time.toISOString().slice(0, 10);
+
+export class TrustRecoveryService {
+  /**
+   * Gather what the step rules look at for one vehicle
+   */
+  static async collectInput(vehicleId: string, score: number, policy: TrustPolicyConfig, now: Date = new Date()): Promise<TrustStepInput> {
+    const windowStart = toDay(new Date(now.getTime() - policy.recovery.windowDays * DAY_MS));
+
+    const [batches, latestBatch, lastPenalty, lastRecovery, lastDecay] = await Promise.all([
+      TelemetryBatch.find({ vehicleId, date: { $gte: windowStart, $lte: toDay(now) } })
+        .select('date totalDistance status')
+        .lean(),
+      TelemetryBatch.findOne({ vehicleId }).sort({ date: -1 }).select('date').lean(),
+      // Scheduled steps and recompute corrections are not new penalties
+      TrustEvent.findOne({ vehicleId, change: { $lt: 0 }, source: { $nin: ['policy', 'recompute'] } })
+        .sort({ createdAt: -1 })
+        .select('createdAt')
+        .lean(),
+      TrustEvent.findOne({ vehicleId, 'details.policyRule': 'recovery' }).sort({ createdAt: -1 }).select('createdAt').lean(),
+      TrustEvent.findOne({ vehicleId, 'details.policyRule': 'inactivity' }).sort({ createdAt: -1 }).select('createdAt').lean()
+    ]);
+
+    const drivingDays = new Set(batches.filter(batch => batch.totalDistance > 0).map(batch => batch.date));
+    const anchoredDays = new Set(
+      batches.filter(batch => batch.totalDistance > 0 && batch.status === 'anchored').map(batch => batch.date)
+    );
+
+    return {
+      now,
+      score,
+      lastDataAt: latestBatch ? dayStart(latestBatch.date) : null,
+      drivingDays: drivingDays.size,
+      anchoredDays: anchoredDays.size,
+      lastPenaltyAt: lastPenalty?.createdAt ?? null,
+      lastRecoveryAt: lastRecovery?.createdAt ?? null,
+      lastDecayAt: lastDecay?.createdAt ?? null
+    };
+  }
+
+  /**
+   * Apply the step a vehicle is due, if any, as a `policy` trust event
+   */
+  static async evaluateVehicle(vehicleId: string, policy: TrustPolicyConfig, now: Date = new Date()): Promise<TrustStepResult | null> {
+    const vehicle = await Vehicle.findById(vehicleId).select('trustScore').lean();
+    if (!vehicle) return null;
+
+    const input = await this.collectInput(vehicleId, vehicle.trustScore ?? 100, policy, now);
+    const step = decideTrustStep(input, policy);
+    if (!step) return null;
+
+    const result = await TrustScoreService.updateTrustScore({
+      vehicleId,
+      change: step.change,
+      reason: step.reason,
+      source: 'policy',
+      details: {
+        policyRule: step.rule,
+        drivingDays: input.drivingDays,
+        anchoredDays: input.anchoredDays,
+        windowDays: policy.recovery.windowDays,
+        lastDataAt: input.lastDataAt
+      }
+    });
+    if (!result.success) {
+      throw new Error(result.error || 'Trust score update failed');
+    }
+
+    await TrustScoreService.emitTrustScoreChange(
+      vehicleId,
+      result.previousScore,
+      result.newScore,
+      result.eventId!,
+      step.reason,
+      result.newScore - result.previousScore
+    );
+
+    return { ...step, vehicleId, previousScore: result.previousScore, newScore: result.newScore, eventId: result.eventId };
+  }
+
+  /**
+   * Run the step rules for every vehicle that has ever sent a telemetry batch
+   */
+  static async runAll(now: Date = new Date()): Promise<TrustRecoveryRun> {
+    const policy = await TrustPolicyService.getActivePolicy();
+    const vehicleIds = await TelemetryBatch.distinct('vehicleId');
+    const run: TrustRecoveryRun = { policyVersion: policy.version, vehicles: vehicleIds.length, recovered: 0, decayed: 0, failed: 0 };
+
+    for (const vehicleId of vehicleIds) {
+      if (!vehicleId) continue;
+      try {
+        const step = await this.evaluateVehicle(String(vehicleId), policy, now);
+        if (step?.rule === 'recovery') run.recovered++;
+        if (step?.rule === 'inactivity') run.decayed++;
+      } catch (error) {
+        run.failed++;
+        logger.error(`❌ Trust recovery step failed for vehicle ${vehicleId}:`, error);
+      }
+    }
+
+    logger.info(`🌱 Trust recovery (policy v${policy.version}): ${run.recovered} recovered, ${run.decayed} decayed, ${run.failed} failed of ${run.vehicles} vehicle(s)`);
+    return run;
+  }
+}
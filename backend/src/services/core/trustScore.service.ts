@@ -3,12 +3,14 @@ import { TrustEvent } from '../../models/core/TrustEvent.model';
 import Vehicle from '../../models/core/Vehicle.model';
 import { logger } from '../../utils/logger';
 import { emitToUser } from '../../utils/socketEmitter';
+import { clampTrustScore, isReversalEvent, replayTrustEvents, weighTrustChange } from '../../utils/trustPolicy';
+import { TrustPolicyService } from './trustPolicy.service';
 
 export interface TrustScoreUpdateData {
   vehicleId: string;
   change: number;
   reason: string;
-  source: 'telemetry' | 'admin' | 'manual' | 'fraudEngine' | 'anchor';
+  source: 'telemetry' | 'admin' | 'manual' | 'fraudEngine' | 'anchor' | 'policy';
   details?: any;
   createdBy?: string;
   eventTimestamp?: Date;
@@ -29,12 +31,17 @@ export class TrustScoreService {
   /**
    * Atomically update TrustScore with proper concurrency handling
    * This is the single source of truth for TrustScore updates
+   * The requested change is weighed and capped by the active trust policy
    */
   static async updateTrustScore(data: TrustScoreUpdateData): Promise<TrustScoreResult> {
     const { vehicleId, change, reason, source, details = {}, createdBy, eventTimestamp } = data;
     
     logger.info(`🔄 TrustScore update initiated: vehicle=${vehicleId}, change=${change}, reason=${reason}`);
 
+    const policy = await TrustPolicyService.getActivePolicy();
+    // Reversals already give back exactly what a penalty took
+    const delta = isReversalEvent({ source, details }) ? change : weighTrustChange(change, source, policy);
+
     for (let attempt = 1; attempt <= this.MAX_RETRIES; attempt++) {
       try {
         // Use MongoDB transaction for atomicity
@@ -49,7 +56,7 @@ export class TrustScoreService {
             }
 
             const previousScore = vehicle.trustScore || 100;
-            const newScore = Math.max(0, Math.min(100, previousScore + change));
+            const newScore = clampTrustScore(previousScore + delta, policy);
 
             // Check for out-of-order events
             if (eventTimestamp) {
@@ -73,6 +80,7 @@ export class TrustScoreService {
               reason,
               details,
               source,
+              policyVersion: policy.version,
               createdBy,
               createdAt: eventTimestamp || new Date()
             });
@@ -86,6 +94,7 @@ export class TrustScoreService {
               {
                 $set: { 
                   trustScore: newScore,
+                  trustPolicyVersion: policy.version,
                   lastTrustScoreUpdate: new Date()
                 },
                 $inc: { trustHistoryCount: 1 }
@@ -93,7 +102,7 @@ export class TrustScoreService {
               { session }
             );
 
-            logger.info(`✅ TrustScore updated: vehicle=${vehicleId}, prev=${previousScore}, delta=${change}, new=${newScore}, reason=${reason}`);
+            logger.info(`✅ TrustScore updated: vehicle=${vehicleId}, prev=${previousScore}, delta=${delta}, new=${newScore}, policy=v${policy.version}, reason=${reason}`);
             
             return {
               success: true,
@@ -191,21 +200,21 @@ export class TrustScoreService {
   }
 
   /**
-   * Recompute TrustScore from scratch using all history (for verification)
+   * Recompute TrustScore from scratch using all history under the active policy (for verification).
+   * Use TrustPolicyService.recomputeVehicle to record the correction as a `recompute` event.
    */
   static async recomputeTrustScore(vehicleId: string): Promise<number> {
     const events = await TrustEvent.find({ vehicleId })
-      .sort({ createdAt: 1 }); // Chronological order
+      .sort({ createdAt: 1, _id: 1 }) // Chronological order
+      .lean();
 
-    let score = 100; // Initial score
-    
-    for (const event of events) {
-      score = Math.max(0, Math.min(100, score + event.change));
-    }
+    const policy = await TrustPolicyService.getActivePolicy();
+    const score = events.length > 0 ? replayTrustEvents(events as any, policy).score : 100;
 
     // Update vehicle with recomputed score
     await Vehicle.findByIdAndUpdate(vehicleId, { 
       trustScore: score,
+      trustPolicyVersion: policy.version,
       lastTrustScoreUpdate: new Date()
     });
 
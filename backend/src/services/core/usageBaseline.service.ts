@@ -0,0 +1,160 @@
+import mongoose from 'mongoose';
+import { TelemetryBatch } from '../../models/TelemetryBatch.model';
+import { FraudAlert } from '../../models/core/FraudAlert.model';
+import { UsageBaseline, IUsageBaseline } from '../../models/core/UsageBaseline.model';
+import Vehicle from '../../models/core/Vehicle.model';
+import { config } from '../../config/environment';
+import { logger } from '../../utils/logger';
+import {
+  DailyUsage,
+  UsageAnomaly,
+  UsageBaselineOptions,
+  assessUsageDay,
+  buildUsageBaseline,
+  dailyUsageOf
+} from '../../utils/usageBaseline';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const usageBaselineOptions = (): UsageBaselineOptions => ({
+  minDays: config.USAGE_BASELINE_MIN_DAYS,
+  lowZ: config.USAGE_BASELINE_LOW_Z,
+  mediumZ: config.USAGE_BASELINE_MEDIUM_Z,
+  minStallHours: config.USAGE_BASELINE_MIN_STALL_HOURS,
+  stallRatio: config.USAGE_BASELINE_STALL_RATIO
+});
+
+// Batch days are UTC calendar days
+const shiftDay = (date: string, days: number): string =>
+  new Date(new Date(`${date}T00:00:00.000Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+
+export interface UsageDayResult {
+  vehicleId: string;
+  usage: DailyUsage;
+  anomalies: UsageAnomaly[];
+  alertIds: string[];
+}
+
+export class UsageBaselineService {
+  /**
+   * Daily usage of the days with a batch in the window before `date`
+   */
+  static async history(vehicleId: string, date: string): Promise<DailyUsage[]> {
+    const batches = await TelemetryBatch.find({
+      vehicleId,
+      date: { $gte: shiftDay(date, -config.USAGE_BASELINE_WINDOW_DAYS), $lt: date }
+    })
+      .select('date totalDistance segments.startTime segments.endTime')
+      .lean();
+
+    return batches.map(dailyUsageOf);
+  }
+
+  /**
+   * Check one day's batch against the vehicle's baseline of the days before it, store the new
+   * baseline and raise an alert per anomaly
+   */
+  static async evaluateDay(vehicleId: string, date: string): Promise<UsageDayResult | null> {
+    const batch = await TelemetryBatch.findOne({ vehicleId, date })
+      .select('date totalDistance segments.startTime segments.endTime')
+      .lean();
+    if (!batch) return null;
+
+    const options = usageBaselineOptions();
+    const usage = dailyUsageOf(batch);
+    const history = await this.history(vehicleId, date);
+    const baseline = buildUsageBaseline(history, options);
+    const anomalies = assessUsageDay(usage, baseline, options);
+
+    await UsageBaseline.findOneAndUpdate(
+      { vehicleId },
+      {
+        $set: {
+          ...baseline,
+          lastEvaluated: { usage, anomalies, evaluatedAt: new Date() }
+        }
+      },
+      { upsert: true, setDefaultsOnInsert: true }
+    );
+
+    const alertIds: string[] = [];
+    for (const anomaly of anomalies) {
+      const alertId = await this.raiseAlert(vehicleId, usage, anomaly, baseline.days);
+      if (alertId) alertIds.push(alertId);
+    }
+
+    return { vehicleId, usage, anomalies, alertIds };
+  }
+
+  /**
+   * Check every vehicle with a batch for `date` (yesterday by default)
+   */
+  static async runAll(date: string = shiftDay(new Date().toISOString().slice(0, 10), -1)): Promise<number> {
+    const vehicleIds = await TelemetryBatch.distinct('vehicleId', { date });
+
+    let anomalies = 0;
+    let evaluated = 0;
+    for (const vehicleId of vehicleIds) {
+      if (!vehicleId) continue;
+      try {
+        const result = await this.evaluateDay(String(vehicleId), date);
+        if (result) {
+          evaluated++;
+          anomalies += result.anomalies.length;
+        }
+      } catch (error) {
+        logger.error(`❌ Failed to check usage baseline for vehicle ${vehicleId}:`, error);
+      }
+    }
+
+    logger.info(`📈 Usage baselines checked for ${evaluated}/${vehicleIds.length} vehicle(s) on ${date}: ${anomalies} anomal${anomalies === 1 ? 'y' : 'ies'}`);
+    return anomalies;
+  }
+
+  static async getBaseline(vehicleId: string): Promise<IUsageBaseline | null> {
+    return UsageBaseline.findOne({ vehicleId });
+  }
+
+  /**
+   * Usage anomaly alerts of a vehicle, newest first
+   */
+  static async listAnomalyAlerts(vehicleId: string, limit = 20) {
+    return FraudAlert.find({ vehicleId, alertType: 'usage_anomaly' })
+      .sort({ reportedAt: -1 })
+      .limit(Math.min(Math.max(1, limit), 100))
+      .select('severity description status statistics reportedAt')
+      .lean();
+  }
+
+  private static async raiseAlert(vehicleId: string, usage: DailyUsage, anomaly: UsageAnomaly, baselineDays: number): Promise<string | null> {
+    const fingerprint = `usage_anomaly:${usage.date}:${anomaly.kind}:${anomaly.metric}`;
+    if (await FraudAlert.exists({ vehicleId, fingerprint })) {
+      return null;
+    }
+
+    const vehicle = await Vehicle.findById(vehicleId).select('ownerId');
+    const alert = await FraudAlert.create({
+      vehicleId: new mongoose.Types.ObjectId(vehicleId),
+      alertType: 'usage_anomaly',
+      severity: anomaly.severity,
+      description: anomaly.reason,
+      reportedBy: vehicle?.ownerId,
+      reportedAt: new Date(),
+      status: 'active',
+      fingerprint,
+      statistics: {
+        date: usage.date,
+        metric: anomaly.metric,
+        value: anomaly.value,
+        mean: anomaly.mean,
+        stdDev: anomaly.stdDev,
+        zScore: anomaly.zScore,
+        baselineDays
+      },
+      investigationNotes: `Day: ${usage.distanceKm} km, ${usage.trips} trip(s), ${usage.operatingHours} h of operation`
+    });
+
+    logger.warn(`📈 Usage anomaly for vehicle ${vehicleId}: ${anomaly.reason} (alert ${alert._id})`);
+    return String(alert._id);
+  }
+}
@@ -0,0 +1,201 @@
+import mongoose from 'mongoose';
+import { VehicleHold, IVehicleHold } from '../../models/core/VehicleHold.model';
+import Vehicle from '../../models/core/Vehicle.model';
+import { AuthorizationError, NotFoundError, ValidationError, VehicleHoldError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import {
+  HeldAction,
+  VEHICLE_HOLD_LABELS,
+  VEHICLE_HOLD_PLACER_ROLES,
+  VEHICLE_HOLD_TYPES,
+  VehicleHoldType,
+  holdBlockMessage,
+  isHoldActive
+} from '../../utils/vehicleHolds';
+import { NotificationService } from '../notificationService';
+
+const MAX_REASON_LENGTH = 1000;
+
+export interface HoldActor {
+  id: string;
+  role: string;
+}
+
+export interface PlaceHoldInput {
+  type?: string;
+  reason?: string;
+  reference?: string;
+  expiresAt?: string | Date | null;
+}
+
+// What the owner and the blocked request get to see of a hold
+export interface VehicleHoldSummary {
+  id: string;
+  type: VehicleHoldType;
+  label: string;
+  reason: string;
+  reference?: string;
+  expiresAt: Date | null;
+  placedAt: Date;
+}
+
+const isPlacer = (actor: HoldActor) => VEHICLE_HOLD_PLACER_ROLES.includes(actor.role);
+
+const objectId = (id: string | undefined, field: string): mongoose.Types.ObjectId => {
+  if (!id || !mongoose.isValidObjectId(id)) {
+    throw new ValidationError(`${field} must be a valid id`);
+  }
+  return new mongoose.Types.ObjectId(id);
+};
+
+const activeFilter = (vehicleId: string | mongoose.Types.ObjectId, now: Date = new Date()) => ({
+  vehicleId,
+  status: 'active',
+  $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }]
+});
+
+export const summarizeHold = (hold: IVehicleHold): VehicleHoldSummary => ({
+  id: String(hold._id),
+  type: hold.type,
+  label: VEHICLE_HOLD_LABELS[hold.type],
+  reason: hold.reason,
+  reference: hold.reference,
+  expiresAt: hold.expiresAt ?? null,
+  placedAt: hold.createdAt
+});
+
+export class VehicleHoldService {
+  /**
+   * Place a hold on a vehicle (admin and government only). A vehicle listed for sale is taken off
+   * the marketplace and the owner is notified.
+   */
+  static async place(vehicleId: string, input: PlaceHoldInput, actor: HoldActor): Promise<IVehicleHold> {
+    if (!isPlacer(actor)) {
+      throw new AuthorizationError('Only admin and government users can place holds');
+    }
+
+    const vehicleObjectId = objectId(vehicleId, 'vehicleId');
+    if (!input.type || !VEHICLE_HOLD_TYPES.includes(input.type as VehicleHoldType)) {
+      throw new ValidationError(`type must be one of ${VEHICLE_HOLD_TYPES.join(', ')}`);
+    }
+    const reason = typeof input.reason === 'string' ? input.reason.trim() : '';
+    if (!reason || reason.length > MAX_REASON_LENGTH) {
+      throw new ValidationError(`reason is required and must be at most ${MAX_REASON_LENGTH} characters`);
+    }
+    let expiresAt: Date | null = null;
+    if (input.expiresAt) {
+      expiresAt = new Date(input.expiresAt);
+      if (isNaN(expiresAt.getTime()) || expiresAt.getTime() <= Date.now()) {
+        throw new ValidationError('expiresAt must be a date in the future');
+      }
+    }
+
+    const vehicle = await Vehicle.findById(vehicleObjectId);
+    if (!vehicle) {
+      throw new NotFoundError('Vehicle not found');
+    }
+
+    const hold = await VehicleHold.create({
+      vehicleId: vehicleObjectId,
+      type: input.type,
+      reason,
+      reference: input.reference,
+      expiresAt,
+      placedBy: objectId(actor.id, 'user'),
+      placedByRole: actor.role
+    });
+
+    if (vehicle.isForSale) {
+      vehicle.isForSale = false;
+      vehicle.listingStatus = 'inactive';
+      await vehicle.save();
+      logger.info(`🏪 Vehicle ${vehicleId} taken off the marketplace by hold ${hold._id}`);
+    }
+
+    logger.warn(`🔒 ${VEHICLE_HOLD_LABELS[hold.type]} hold ${hold._id} placed on vehicle ${vehicleId} by ${actor.role} ${actor.id}`);
+
+    try {
+      await NotificationService.createNotification({
+        userId: vehicle.ownerId.toString(),
+        userRole: 'owner',
+        title: `${VEHICLE_HOLD_LABELS[hold.type]} hold placed on your vehicle`,
+        message: `${reason}. The vehicle cannot be listed, sold or transferred while the hold is active.`,
+        type: 'security',
+        priority: 'high',
+        data: { vehicleId, holdId: hold._id.toString() },
+        actionUrl: `/vehicles/${vehicleId}`,
+        actionLabel: 'View vehicle'
+      });
+    } catch (error) {
+      // The hold stands even if the owner could not be notified
+      logger.warn(`⚠️ Failed to notify owner of hold ${hold._id}:`, error);
+    }
+
+    return hold;
+  }
+
+  /**
+   * Lift an active hold before its expiry
+   */
+  static async release(vehicleId: string, holdId: string, note: string | undefined, actor: HoldActor): Promise<IVehicleHold> {
+    if (!isPlacer(actor)) {
+      throw new AuthorizationError('Only admin and government users can release holds');
+    }
+
+    const hold = await VehicleHold.findOne({ _id: objectId(holdId, 'holdId'), vehicleId: objectId(vehicleId, 'vehicleId') });
+    if (!hold) {
+      throw new NotFoundError('Hold not found');
+    }
+    if (!isHoldActive(hold)) {
+      throw new ValidationError(hold.status === 'released' ? 'Hold has already been released' : 'Hold has already expired');
+    }
+
+    hold.status = 'released';
+    hold.releasedBy = objectId(actor.id, 'user');
+    hold.releasedAt = new Date();
+    hold.releaseNote = typeof note === 'string' ? note.trim().slice(0, MAX_REASON_LENGTH) : undefined;
+    await hold.save();
+
+    logger.info(`🔓 Hold ${hold._id} on vehicle ${vehicleId} released by ${actor.role} ${actor.id}`);
+    return hold;
+  }
+
+  /**
+   * Holds of a vehicle, newest first. Owners see the holds on their own vehicles.
+   */
+  static async listForVehicle(vehicleId: string, actor: HoldActor, includeReleased = false): Promise<IVehicleHold[]> {
+    const vehicle = await Vehicle.findById(objectId(vehicleId, 'vehicleId')).select('ownerId');
+    if (!vehicle) {
+      throw new NotFoundError('Vehicle not found');
+    }
+    if (!isPlacer(actor) && String(vehicle.ownerId) !== String(actor.id)) {
+      throw new AuthorizationError('Access denied');
+    }
+
+    const filter = includeReleased ? { vehicleId: vehicle._id } : activeFilter(vehicle._id as mongoose.Types.ObjectId);
+    return VehicleHold.find(filter)
+      .sort({ createdAt: -1 })
+      .populate('placedBy', 'firstName lastName role')
+      .populate('releasedBy', 'firstName lastName role');
+  }
+
+  static async activeHolds(vehicleId: string | mongoose.Types.ObjectId): Promise<IVehicleHold[]> {
+    return VehicleHold.find(activeFilter(vehicleId)).sort({ createdAt: -1 });
+  }
+
+  /**
+   * The error to refuse the action with, or null when the vehicle is free
+   */
+  static async blockFor(vehicleId: string | mongoose.Types.ObjectId, action: HeldAction): Promise<VehicleHoldError | null> {
+    const holds = await this.activeHolds(vehicleId);
+    if (holds.length === 0) return null;
+
+    logger.warn(`🔒 Refused ${action} of vehicle ${vehicleId}: ${holds.length} active hold(s)`);
+    return new VehicleHoldError(holdBlockMessage(holds, action), { holds: holds.map(summarizeHold) });
+  }
+
+  static async assertNotHeld(vehicleId: string | mongoose.Types.ObjectId, action: HeldAction): Promise<void> {
+    const blocked = await this.blockFor(vehicleId, action);
+    if (blocked) throw blocked;
+  }
+}
@@ -0,0 +1,173 @@
+import { Device, IDevice } from '../../models/core/Device.model';
+import Vehicle, { IVehicleDocument } from '../../models/core/Vehicle.model';
+import { FraudAlert } from '../../models/core/FraudAlert.model';
+import { User } from '../../models/core/User.model';
+import { IVehicleTelemetry } from '../../models/core/VehicleTelemetry.model';
+import { NotificationService } from '../notificationService';
+import { emitToRoom, emitToUser } from '../../utils/socketEmitter';
+import { logger } from '../../utils/logger';
+
+export interface VinBindingCheck {
+  bound: boolean; // Device is paired with a vehicle
+  mismatch: boolean; // Reported VIN differs from the paired vehicle's VIN
+  boundVehicle?: IVehicleDocument;
+  reportedVin?: string;
+  boundVin?: string;
+}
+
+export const normalizeVin = (vin?: string): string | undefined => {
+  const normalized = vin?.trim().toUpperCase();
+  return normalized ? normalized : undefined;
+};
+
+export class VinBindingService {
+  /**
+   * Compare a reported VIN with the vehicle the device is paired to. Has no side effects.
+   */
+  static async check(device: IDevice, reportedVin?: string): Promise<VinBindingCheck> {
+    const vin = normalizeVin(reportedVin);
+    if (!device?.vehicle) {
+      return { bound: false, mismatch: false, reportedVin: vin };
+    }
+
+    const boundVehicle = await Vehicle.findById(device.vehicle);
+    if (!boundVehicle) {
+      logger.warn(`Device ${device.deviceID} is paired with missing vehicle ${device.vehicle}`);
+      return { bound: false, mismatch: false, reportedVin: vin };
+    }
+
+    const boundVin = normalizeVin(boundVehicle.vin);
+    return {
+      bound: true,
+      // Readings without a VIN (not read yet, or not supported) cannot be checked
+      mismatch: !!vin && vin !== boundVin,
+      boundVehicle,
+      reportedVin: vin,
+      boundVin
+    };
+  }
+
+  /**
+   * Hold a mismatched reading back from both vehicles. The first reading of a new
+   * mismatch raises a high-severity alert and notifies the owner and admins.
+   */
+  static async quarantine(device: IDevice, binding: VinBindingCheck, telemetryRecord: IVehicleTelemetry): Promise<void> {
+    const now = new Date();
+    const reason = `Device ${device.deviceID} reported VIN ${binding.reportedVin} but is paired with ${binding.boundVin}`;
+
+    await telemetryRecord.updateOne({
+      $set: {
+        quarantine: {
+          reason,
+          reportedVin: binding.reportedVin,
+          boundVin: binding.boundVin,
+          boundVehicle: binding.boundVehicle._id,
+          quarantinedAt: now
+        },
+        'validation.tamperingDetected': true,
+        'validation.validationStatus': 'QUARANTINED',
+        'mileageValidation.flagged': true,
+        'mileageValidation.validationStatus': 'QUARANTINED',
+        'mileageValidation.reason': reason
+      },
+      $unset: { vehicle: '' }
+    });
+
+    const previous = await Device.findOneAndUpdate(
+      { _id: device._id },
+      {
+        $set: { 'vinBinding.mismatchVin': binding.reportedVin, 'vinBinding.lastMismatchAt': now },
+        $inc: { 'vinBinding.quarantinedReadings': 1 }
+      }
+    ).select('vinBinding');
+
+    logger.warn(`🚧 Quarantined reading ${telemetryRecord._id}: ${reason}`);
+
+    // Alert once per mismatch episode, not on every reading
+    if (previous?.vinBinding?.mismatchVin === binding.reportedVin) {
+      return;
+    }
+
+    await Device.updateOne({ _id: device._id }, { $set: { 'vinBinding.mismatchSince': now } });
+
+    const vehicle = binding.boundVehicle;
+    const alert = await FraudAlert.create({
+      vehicleId: vehicle._id,
+      telemetryId: telemetryRecord._id,
+      alertType: 'vin_mismatch',
+      severity: 'high',
+      description: `VIN mismatch: ${reason}. Readings are quarantined until the device reports the paired vehicle again.`,
+      reportedBy: vehicle.ownerId,
+      reportedAt: now,
+      status: 'active',
+      investigationNotes: `Reported VIN ${binding.reportedVin}, paired VIN ${binding.boundVin}`
+    });
+
+    logger.error(`🚨 FRAUD ALERT: ${reason} (alert ${alert._id})`);
+
+    await this.notify(device, binding, alert._id.toString());
+  }
+
+  /**
+   * Close the mismatch episode once the device reports its paired vehicle again
+   */
+  static async clearMismatch(device: IDevice): Promise<void> {
+    if (!device.vinBinding?.mismatchVin) {
+      return;
+    }
+
+    await Device.updateOne(
+      { _id: device._id },
+      { $unset: { 'vinBinding.mismatchVin': '', 'vinBinding.mismatchSince': '' } }
+    );
+    logger.info(`✅ Device ${device.deviceID} reports its paired vehicle again; VIN mismatch cleared`);
+  }
+
+  private static async notify(device: IDevice, binding: VinBindingCheck, fraudAlertId: string): Promise<void> {
+    const vehicle = binding.boundVehicle;
+    const payload = {
+      deviceId: device.deviceID,
+      vehicleId: vehicle._id.toString(),
+      reportedVin: binding.reportedVin,
+      boundVin: binding.boundVin,
+      fraudAlertId,
+      timestamp: new Date()
+    };
+
+    emitToUser(vehicle.ownerId.toString(), 'device_vin_mismatch', payload);
+    emitToRoom('admin', 'device_vin_mismatch', payload);
+
+    try {
+      await NotificationService.createNotification({
+        userId: vehicle.ownerId.toString(),
+        userRole: 'owner',
+        title: 'Device reporting another vehicle',
+        message: `The device paired with ${vehicle.vin} is reporting VIN ${binding.reportedVin}. Its readings are on hold until it is back in your vehicle.`,
+        type: 'fraud_alert',
+        priority: 'high',
+        data: payload,
+        actionUrl: `/vehicles/${vehicle._id}`,
+        actionLabel: 'View vehicle'
+      });
+
+      const admins = await User.find({ role: 'admin' }).select('_id');
+      for (const admin of admins) {
+        await NotificationService.createNotification({
+          userId: admin._id.toString(),
+          userRole: 'admin',
+          title: 'Device VIN mismatch',
+          message: `Device ${device.deviceID} paired with ${vehicle.vin} reported VIN ${binding.reportedVin}. Readings quarantined.`,
+          type: 'fraud_alert',
+          priority: 'urgent',
+          data: payload,
+          actionUrl: '/admin/devices',
+          actionLabel: 'Review device'
+        });
+      }
+    } catch (notifyErr) {
+      logger.warn('Failed to create VIN mismatch notifications:', notifyErr);
+    }
+  }
+}
+
+export default VinBindingService;
@@ -7,6 +7,7 @@ import { getArweaveService } from './blockchain/arweave.service';
 import { getSolanaService } from './blockchain/solana.service';
 import { MerkleTreeBuilder } from '../utils/merkle';
 import { walletService } from './blockchain/wallet.service';
+import { config } from '../config/environment';
 import mongoose from 'mongoose';
 
 export interface ConsolidationResult {
@@ -74,6 +75,9 @@ export class TelemetryConsolidationService {
         logger.warn(`⚠️ Vehicle ${vehicleId} currentMileage is not a number: ${typeof vehicle.currentMileage}, value: ${vehicle.currentMileage}`);
       }
 
+      // Taken before reading, so anything stored after it is known not to be in this root
+      const consolidatedAt = new Date();
+
       // Query telemetry segments for the day (robust: try multiple selectors)
       const startOfDay = new Date(date + 'T00:00:00.000Z');
       const endOfDay = new Date(date + 'T23:59:59.999Z');
@@ -215,6 +219,7 @@ export class TelemetryConsolidationService {
         batch.merkleRoot = merkleRoot;
         batch.lastRecordedMileage = currentMileage;
         batch.distanceDelta = totalDistance;
+        batch.consolidatedAt = consolidatedAt;
       } else {
         batch = new TelemetryBatch({
           installId: installId || new mongoose.Types.ObjectId(),
@@ -228,6 +233,7 @@ export class TelemetryConsolidationService {
           status: 'consolidating',
           lastRecordedMileage: currentMileage,
           distanceDelta: totalDistance,
+          consolidatedAt,
           recordedAt: new Date()
         });
       }
@@ -523,35 +529,23 @@ export class TelemetryConsolidationService {
     try {
       const solanaService = getSolanaService();
       
-      // Get owner's wallet
-      const ownerWallet = await walletService.getUserWallet(vehicle.ownerId.toString());
-      if (!ownerWallet) {
+      // The platform signs when configured to, otherwise the owner's wallet
+      const platformWallet = config.SOLANA_ANCHOR_SIGNER === 'platform' ? solanaService.platformWallet() : null;
+      const signerWallet = platformWallet || await walletService.getUserWallet(vehicle.ownerId.toString());
+      if (!signerWallet) {
         throw new Error('Owner wallet not found');
       }
       
-      // Create Solana transaction data
-      const solanaData = {
+      // Record the batch's merkle root so its segments can be proven against the chain
+      const result = await solanaService.anchorTelemetryBatch({
         vehicleId: batch.vehicleId.toString(),
         vin: vehicle.vin,
         date: batch.date,
         merkleRoot: batch.merkleRoot,
         arweaveTx: batch.arweaveTx,
         totalDistance: batch.totalDistance,
-        segmentsCount: batch.segmentsCount,
-        timestamp: Date.now(),
-        action: 'ANCHOR_TELEMETRY_BATCH'
-      };
-      
-      // Use existing Solana service to record the batch
-      const result = await solanaService.recordMileage(
-        batch.vehicleId.toString(),
-        vehicle.vin,
-        batch.totalDistance,
-        0, // previous distance
-        'system',
-        'automated',
-        ownerWallet
-      );
+        segmentsCount: batch.segmentsCount
+      }, signerWallet);
       
       return {
         success: true,
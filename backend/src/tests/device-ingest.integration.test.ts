@@ -1,11 +1,59 @@
+import fs from 'fs';
 import request from 'supertest';
 import { app } from '../app';
 import mongoose from 'mongoose';
-import { Vehicle, Device } from '../models';
+import { User, Vehicle, Device, VehicleTelemetry, DeviceCommand, TrustDispute, TrustPolicy, UsageBaseline } from '../models';
+import { FraudAlert } from '../models/core/FraudAlert.model';
+import { TrustEvent } from '../models/core/TrustEvent.model';
+import { ObdProfile } from '../models/core/ObdProfile.model';
+import { VehicleTrip } from '../models/core/VehicleTrip.model';
+import { DrivingScore } from '../models/core/DrivingScore.model';
+import { HourlyTelemetryRollup, DailyTelemetryRollup } from '../models/core/TelemetryRollup.model';
+import { FraudRule } from '../models/core/FraudRule.model';
+import { TelemetryBatch } from '../models/TelemetryBatch.model';
+import { DeviceAuthService } from '../services/core/deviceAuth.service';
+import { DeviceCommandService } from '../services/core/deviceCommand.service';
+import { ObdProfileService } from '../services/core/obdProfile.service';
+import { TripService } from '../services/core/trip.service';
+import { DrivingScoreService } from '../services/core/drivingScore.service';
+import { TelemetryRollupService } from '../services/core/telemetryRollup.service';
+import { TelemetryRetentionService, archiveFilePath } from '../services/core/telemetryRetention.service';
+import { FraudRulesService } from '../services/core/fraudRules.service';
+import { FraudCaseService } from '../services/core/fraudCase.service';
+import { TrustDisputeService } from '../services/core/trustDispute.service';
+import { TrustPolicyService } from '../services/core/trustPolicy.service';
+import { TrustRecoveryService } from '../services/core/trustRecovery.service';
+import { DuplicateVinService } from '../services/core/duplicateVin.service';
+import { UsageBaselineService } from '../services/core/usageBaseline.service';
+import { VehicleHoldService } from '../services/core/vehicleHold.service';
+import MarketplaceService from '../services/core/marketplace.service';
+import { VehicleHoldError } from '../utils/errors';
+import { walletService } from '../services/blockchain/wallet.service';
+import { getSolanaService } from '../services/blockchain/solana.service';
+import { getArweaveService } from '../services/blockchain/arweave.service';
+import { getAnchorService } from '../services/anchor.service';
+import { TelemetryConsolidationService } from '../services/telemetryConsolidation.service';
+import { TelemetryProofService } from '../services/core/telemetryProof.service';
+import { HistoryBundleService } from '../services/core/historyBundle.service';
+import { FleetSimulatorService, ProvisionedDevice, SimulatorTransport, createRunId, simulatedVin } from '../services/core/fleetSimulator.service';
+import { buildDeviceAuthHeaders } from '../utils/deviceSignature';
+import { verifyHistoryBundle } from '../utils/historyBundle';
+import { generateTimeline } from '../utils/telemetrySimulator';
 
 describe('Device Ingest Integration Tests', () => {
   let testVehicle: any;
   let testDevice: any;
+  let deviceSecret: string;
+
+  // Send a payload signed with the test device's secret
+  const postSigned = (payload: any, secret: string = deviceSecret, deviceID = 'INTEGRATION_DEVICE') => {
+    const body = JSON.stringify(payload);
+    return request(app)
+      .post('/api/device/status')
+      .set('Content-Type', 'application/json')
+      .set(buildDeviceAuthHeaders(secret, deviceID, body))
+      .send(body);
+  };
 
   beforeAll(async () => {
     // Create test vehicle
@@ -24,31 +72,44 @@ describe('Device Ingest Integration Tests', () => {
       lastVerifiedMileage: 65000,
       condition: 'good'
     });
+
+    testDevice = await Device.create({
+      deviceID: 'INTEGRATION_DEVICE',
+      deviceType: 'ESP32_Telematics',
+      status: 'installed',
+      vehicle: testVehicle._id,
+      installationRequest: {
+        requestedBy: new mongoose.Types.ObjectId(),
+        requestedAt: new Date(),
+        priority: 'medium'
+      }
+    });
+    deviceSecret = (await DeviceAuthService.provisionSecret('INTEGRATION_DEVICE')).secret;
   });
 
   afterAll(async () => {
     await Vehicle.deleteMany({ vin: 'INTEGRATION_TEST_VIN' });
     await Device.deleteMany({ deviceID: 'INTEGRATION_DEVICE' });
+    await DeviceCommand.deleteMany({ deviceID: 'INTEGRATION_DEVICE' });
+    await FraudAlert.deleteMany({ vehicleId: testVehicle._id });
   });
 
   describe('Valid Telemetry Flow', () => {
     it('should accept valid mileage progression', async () => {
-      const response = await request(app)
-        .post('/api/device/status')
-        .send({
-          deviceID: 'INTEGRATION_DEVICE',
-          status: 'obd_connected',
-          vin: 'INTEGRATION_TEST_VIN',
-          mileage: 65100,
-          speed: 45,
-          rpm: 2200,
-          engineTemp: 88,
-          fuelLevel: 75,
-          dataQuality: 98,
-          timestamp: Date.now(),
-          dataSource: 'device_status',
-          message: 'Valid progression test'
-        });
+      const response = await postSigned({
+        deviceID: 'INTEGRATION_DEVICE',
+        status: 'obd_connected',
+        vin: 'INTEGRATION_TEST_VIN',
+        mileage: 65100,
+        speed: 45,
+        rpm: 2200,
+        engineTemp: 88,
+        fuelLevel: 75,
+        dataQuality: 98,
+        timestamp: Date.now(),
+        dataSource: 'device_status',
+        message: 'Valid progression test'
+      });
 
       expect(response.status).toBe(200);
       expect(response.body.success).toBe(true);
@@ -62,22 +123,20 @@ describe('Device Ingest Integration Tests', () => {
 
   describe('Fraud Detection Flow', () => {
     it('should detect rollback and return 422', async () => {
-      const response = await request(app)
-        .post('/api/device/status')
-        .send({
-          deviceID: 'INTEGRATION_DEVICE',
-          status: 'obd_connected',
-          vin: 'INTEGRATION_TEST_VIN',
-          mileage: 45000, // Rollback from 65100
-          speed: 0,
-          rpm: 0,
-          engineTemp: 85,
-          fuelLevel: 60,
-          dataQuality: 95,
-          timestamp: Date.now(),
-          dataSource: 'device_status',
-          message: 'Fraud test - rollback'
-        });
+      const response = await postSigned({
+        deviceID: 'INTEGRATION_DEVICE',
+        status: 'obd_connected',
+        vin: 'INTEGRATION_TEST_VIN',
+        mileage: 45000, // Rollback from 65100
+        speed: 0,
+        rpm: 0,
+        engineTemp: 85,
+        fuelLevel: 60,
+        dataQuality: 95,
+        timestamp: Date.now(),
+        dataSource: 'device_status',
+        message: 'Fraud test - rollback'
+      });
 
       expect(response.status).toBe(422);
       expect(response.body.success).toBe(false);
@@ -89,29 +148,843 @@ describe('Device Ingest Integration Tests', () => {
       expect(updatedVehicle?.lastVerifiedMileage).toBe(65100); // Unchanged
     });
 
-    it('should create fraud alert in vehicle record', async () => {
-      const response = await request(app)
-        .post('/api/device/status')
-        .send({
-          deviceID: 'INTEGRATION_DEVICE',
-          status: 'obd_connected',
-          vin: 'INTEGRATION_TEST_VIN',
-          mileage: 40000, // Another rollback
-          timestamp: Date.now(),
-          dataSource: 'device_status',
-          message: 'Fraud test - another rollback'
-        });
+    it('should open a fraud alert case for the rollback', async () => {
+      const response = await postSigned({
+        deviceID: 'INTEGRATION_DEVICE',
+        status: 'obd_connected',
+        vin: 'INTEGRATION_TEST_VIN',
+        mileage: 40000, // Another rollback
+        timestamp: Date.now(),
+        dataSource: 'device_status',
+        message: 'Fraud test - another rollback'
+      });
 
       expect(response.status).toBe(422);
 
-      // Check fraud alert was created
-      const updatedVehicle = await Vehicle.findById(testVehicle._id);
-      expect(updatedVehicle?.fraudAlerts.length).toBeGreaterThan(0);
-      
-      const latestAlert = updatedVehicle?.fraudAlerts[updatedVehicle.fraudAlerts.length - 1];
+      // Check fraud alert was created in the collection, not on the vehicle
+      const latestAlert = await FraudAlert.findOne({ vehicleId: testVehicle._id }).sort({ reportedAt: -1 });
       expect(latestAlert?.alertType).toBe('odometer_rollback');
       expect(latestAlert?.severity).toBe('high');
       expect(latestAlert?.status).toBe('active');
+      expect(String(latestAlert?.telemetryId)).toBe(String(response.body.telemetryId));
+
+      const trustEvent = await TrustEvent.findOne({ 'details.fraudAlertId': latestAlert?._id });
+      expect(trustEvent?.change).toBe(-30);
+    });
+  });
+
+  describe('Buffered Upload', () => {
+    it('should process buffered readings in order and skip duplicates', async () => {
+      const base = { deviceID: 'INTEGRATION_DEVICE', vin: 'INTEGRATION_TEST_VIN', dataSource: 'veepeak_obd', message: 'Buffered', bootCount: 7 };
+      const body = JSON.stringify({
+        deviceID: 'INTEGRATION_DEVICE',
+        bootCount: 7,
+        uploadMillis: 900000,
+        readings: [
+          { ...base, status: 'obd_connected', mileage: 70300, timestamp: 300000 },
+          { ...base, status: 'obd_connected', mileage: 70100, timestamp: 100000 },
+          { ...base, status: 'obd_connected', mileage: 70200, timestamp: 200000 },
+          { ...base, status: 'obd_connected', mileage: 70200, timestamp: 200000 }
+        ]
+      });
+
+      const response = await request(app)
+        .post('/api/device/status/batch')
+        .set('Content-Type', 'application/json')
+        .set(buildDeviceAuthHeaders(deviceSecret, 'INTEGRATION_DEVICE', body))
+        .send(body);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.accepted).toBe(3);
+      expect(response.body.data.duplicates).toBe(1);
+      expect(response.body.data.flagged).toBe(0);
+
+      const updatedVehicle = await Vehicle.findById(testVehicle._id);
+      expect(updatedVehicle?.lastVerifiedMileage).toBe(70300);
+    });
+  });
+
+  describe('Command Delivery', () => {
+    const reading = (mileage: number, extra: any = {}) => ({
+      deviceID: 'INTEGRATION_DEVICE',
+      status: 'obd_connected',
+      vin: 'INTEGRATION_TEST_VIN',
+      mileage,
+      timestamp: Date.now(),
+      dataSource: 'veepeak_obd',
+      message: 'Command test',
+      ...extra
+    });
+
+    it('should deliver queued commands with the ingest response until acknowledged', async () => {
+      const command = await DeviceCommandService.enqueue('INTEGRATION_DEVICE', 'reboot');
+
+      const first = await postSigned(reading(70400));
+      expect(first.status).toBe(200);
+      expect(first.body.data.commands).toEqual([{ commandId: command.commandId, type: 'reboot' }]);
+
+      const second = await postSigned(reading(70500, { commandAcks: [{ commandId: command.commandId, status: 'ok' }] }));
+      expect(second.status).toBe(200);
+      expect(second.body.data.commands).toEqual([]);
+
+      const stored = await DeviceCommand.findOne({ commandId: command.commandId });
+      expect(stored?.status).toBe('acknowledged');
+      expect(stored?.deliveryAttempts).toBe(1);
+    });
+
+    it('should supersede an unacknowledged config update with a newer one', async () => {
+      const older = await DeviceCommandService.enqueue('INTEGRATION_DEVICE', 'config_update', { sleepDurationMinutes: 5 });
+      const newer = await DeviceCommandService.enqueue('INTEGRATION_DEVICE', 'config_update', { sleepDurationMinutes: 10 });
+
+      expect((await DeviceCommand.findOne({ commandId: older.commandId }))?.status).toBe('superseded');
+      expect((await DeviceCommand.findOne({ commandId: newer.commandId }))?.status).toBe('pending');
+
+      await DeviceCommandService.acknowledge('INTEGRATION_DEVICE', [{ commandId: newer.commandId, status: 'error', message: 'NVS write failed' }]);
+      const failed = await DeviceCommand.findOne({ commandId: newer.commandId });
+      expect(failed?.status).toBe('failed');
+      expect(failed?.error).toBe('NVS write failed');
+    });
+  });
+
+  describe('VIN Binding', () => {
+    it('should quarantine readings reporting another vehicle\'s VIN', async () => {
+      const before = await Vehicle.findById(testVehicle._id);
+
+      const response = await postSigned({
+        deviceID: 'INTEGRATION_DEVICE',
+        status: 'obd_connected',
+        vin: 'SOME_OTHER_CAR_VIN',
+        mileage: 120000,
+        timestamp: Date.now(),
+        dataSource: 'veepeak_obd',
+        message: 'Dongle moved to another car'
+      });
+
+      expect(response.status).toBe(422);
+      expect(response.body.reason).toBe('QUARANTINED');
+
+      const telemetry = await VehicleTelemetry.findById(response.body.telemetryId);
+      expect(telemetry?.vehicle).toBeUndefined();
+      expect(telemetry?.quarantine?.reportedVin).toBe('SOME_OTHER_CAR_VIN');
+      expect(telemetry?.mileageValidation.validationStatus).toBe('QUARANTINED');
+
+      const after = await Vehicle.findById(testVehicle._id);
+      expect(after?.lastVerifiedMileage).toBe(before?.lastVerifiedMileage);
+
+      const alerts = await FraudAlert.find({ vehicleId: testVehicle._id, alertType: 'vin_mismatch' });
+      expect(alerts).toHaveLength(1);
+      expect(alerts[0].severity).toBe('high');
+    });
+
+    it('should raise one alert per mismatch episode', async () => {
+      await postSigned({
+        deviceID: 'INTEGRATION_DEVICE',
+        status: 'obd_connected',
+        vin: 'SOME_OTHER_CAR_VIN',
+        mileage: 120010,
+        timestamp: Date.now(),
+        dataSource: 'veepeak_obd',
+        message: 'Still in the other car'
+      });
+
+      expect(await FraudAlert.countDocuments({ vehicleId: testVehicle._id, alertType: 'vin_mismatch' })).toBe(1);
+      const device = await Device.findOne({ deviceID: 'INTEGRATION_DEVICE' });
+      expect(device?.vinBinding?.quarantinedReadings).toBe(2);
+    });
+  });
+
+  describe('OBD Profiles', () => {
+    afterAll(async () => {
+      await ObdProfile.deleteMany({ name: 'Integration Test Model' });
+    });
+
+    it('should decode the raw odometer response with the vehicle\'s profile', async () => {
+      const profile = await ObdProfileService.create({
+        name: 'Integration Test Model',
+        make: 'test',
+        vehicleModel: 'Model',
+        odometer: { command: '22 F1 90', formula: '(A*256+B)*10', unit: 'km' }
+      });
+
+      const response = await postSigned({
+        deviceID: 'INTEGRATION_DEVICE',
+        status: 'obd_connected',
+        vin: 'INTEGRATION_TEST_VIN',
+        mileage: 1, // Firmware-side value is ignored once the backend decodes the raw response
+        odometerRaw: '7E8 05 62 F1 90 1B 94',
+        timestamp: Date.now(),
+        dataSource: 'veepeak_obd',
+        message: 'Raw odometer'
+      });
+
+      expect(response.status).toBe(200);
+      const telemetry = await VehicleTelemetry.findById(response.body.data.telemetryId);
+      expect(telemetry?.obd.mileage).toBe(70600);
+      expect(telemetry?.obd.odometerPID).toBe('22F190');
+      expect(telemetry?.obd.obdProfile?.toString()).toBe(profile._id.toString());
+    });
+
+    it('should queue the resolved profile with the device configuration', async () => {
+      const { profile, command } = await ObdProfileService.assignToDevice('INTEGRATION_DEVICE');
+
+      expect(profile?.name).toBe('Integration Test Model');
+      expect(command?.type).toBe('config_update');
+      expect(command?.payload?.obdProfile).toMatchObject({ command: '22F190', formula: '(A*256+B)*10', unit: 'km' });
+    });
+  });
+
+  describe('Trips', () => {
+    afterAll(async () => {
+      await VehicleTrip.deleteMany({ vehicle: testVehicle._id });
+    });
+
+    it('should require authentication', async () => {
+      const response = await request(app).get(`/api/telemetry/trips/${testVehicle._id}`);
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should store completed trips once across refreshes', async () => {
+      // An hour later every trip so far has ended
+      const later = new Date(Date.now() + 60 * 60 * 1000);
+      await TripService.refreshVehicle(testVehicle._id.toString(), later);
+      const completed = await VehicleTrip.countDocuments({ vehicle: testVehicle._id, status: 'completed' });
+
+      await TripService.refreshVehicle(testVehicle._id.toString(), later);
+
+      expect(await VehicleTrip.countDocuments({ vehicle: testVehicle._id, status: 'completed' })).toBe(completed);
+      expect(await VehicleTrip.countDocuments({ vehicle: testVehicle._id, status: 'in_progress' })).toBe(0);
+    });
+  });
+
+  describe('Driving Score', () => {
+    afterAll(async () => {
+      await DrivingScore.deleteMany({ vehicle: testVehicle._id });
+    });
+
+    it('should require authentication', async () => {
+      const response = await request(app).get(`/api/driving-scores/${testVehicle._id}`);
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should keep one score per vehicle and period', async () => {
+      const periodEnd = new Date(Date.now() + 24 * 60 * 60 * 1000);
+      const first = await DrivingScoreService.computeForVehicle(testVehicle._id.toString(), periodEnd);
+      const second = await DrivingScoreService.computeForVehicle(testVehicle._id.toString(), periodEnd);
+
+      expect(second._id.toString()).toBe(first._id.toString());
+      expect(second.metrics.readings).toBeGreaterThan(0);
+      expect(await DrivingScore.countDocuments({ vehicle: testVehicle._id })).toBe(1);
+    });
+
+    it('should only honour consent granted by the current owner', async () => {
+      const vehicle = await Vehicle.findById(testVehicle._id);
+      const insurerId = new mongoose.Types.ObjectId();
+      vehicle!.insuranceConsents = [{ insurer: insurerId, grantedBy: new mongoose.Types.ObjectId(), grantedAt: new Date() }];
+
+      expect(DrivingScoreService.hasInsurerConsent(vehicle!, insurerId.toString())).toBe(false);
+
+      vehicle!.insuranceConsents[0].grantedBy = vehicle!.ownerId;
+      expect(DrivingScoreService.hasInsurerConsent(vehicle!, insurerId.toString())).toBe(true);
+    });
+  });
+
+  describe('Telemetry Rollups', () => {
+    afterAll(async () => {
+      await HourlyTelemetryRollup.deleteMany({ vehicle: testVehicle._id });
+      await DailyTelemetryRollup.deleteMany({ vehicle: testVehicle._id });
+      await TelemetryBatch.deleteMany({ vehicleId: testVehicle._id });
+    });
+
+    it('should serve daily rollups from the history endpoint', async () => {
+      const now = new Date();
+      await TelemetryRollupService.rollupRange(testVehicle._id.toString(), new Date(now.getTime() - 24 * 60 * 60 * 1000), now);
+
+      const response = await request(app)
+        .get(`/api/telemetry/history/${testVehicle._id}?granularity=day`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.granularity).toBe('day');
+      expect(response.body.data.length).toBeGreaterThan(0);
+      expect(response.body.data[0].readings).toBeGreaterThan(0);
+    });
+
+    it('should keep raw readings of days without an anchored batch', async () => {
+      const today = new Date().toISOString().split('T')[0];
+      await TelemetryBatch.create({
+        installId: new mongoose.Types.ObjectId(),
+        vehicleId: testVehicle._id,
+        deviceId: testDevice.deviceID,
+        date: today,
+        segments: [],
+        status: 'error',
+        lastRecordedMileage: 0,
+        distanceDelta: 0
+      });
+
+      // Far enough ahead that today is past the retention window
+      const later = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000);
+      await TelemetryRetentionService.runRetention(later);
+
+      expect(await VehicleTelemetry.countDocuments({ vehicle: testVehicle._id, expiresAt: { $exists: true } })).toBe(0);
+    });
+
+    it('should not expire readings stored after the day was consolidated', async () => {
+      const today = new Date().toISOString().split('T')[0];
+      const batch = await TelemetryBatch.create({
+        installId: new mongoose.Types.ObjectId(),
+        vehicleId: testVehicle._id,
+        deviceId: testDevice.deviceID,
+        date: today,
+        segments: [],
+        status: 'anchored',
+        lastRecordedMileage: 0,
+        distanceDelta: 0,
+        consolidatedAt: new Date(Date.now() - 24 * 60 * 60 * 1000)
+      });
+
+      try {
+        expect(await TelemetryRetentionService.archiveBatchDay(batch)).toBe(0);
+        expect(await VehicleTelemetry.countDocuments({ vehicle: testVehicle._id, expiresAt: { $exists: true } })).toBe(0);
+      } finally {
+        await fs.promises.rm(archiveFilePath(testVehicle._id.toString(), today), { force: true });
+      }
+    });
+  });
+
+  describe('Simulated Fleet', () => {
+    const runId = createRunId();
+    let provisioned: ProvisionedDevice[] = [];
+
+    const supertestTransport: SimulatorTransport = {
+      async post(path, body, headers) {
+        const response = await request(app)
+          .post(path)
+          .set('Content-Type', 'application/json')
+          .set(headers)
+          .send(body);
+        return { status: response.status, body: response.body };
+      }
+    };
+
+    beforeAll(async () => {
+      provisioned = await FleetSimulatorService.provision(runId, 1);
+    });
+
+    afterAll(async () => {
+      await FleetSimulatorService.cleanup(runId, provisioned);
+    });
+
+    it('should ingest a simulated timeline and raise the injected fraud alerts', async () => {
+      const ticks = 12;
+      const { events, expectedAlerts, device } = generateTimeline({
+        deviceID: provisioned[0].deviceID,
+        vin: provisioned[0].vin,
+        startMileage: 40000,
+        location: { latitude: 12.97, longitude: 77.59 },
+        seed: 3,
+        faults: [
+          { type: 'network_drop', atTick: 2, ticks: 2 },
+          { type: 'vin_swap', atTick: 6, ticks: 2, vin: simulatedVin(runId, 0, 'SMY') },
+          { type: 'rollback', atTick: 9, km: 5000 }
+        ]
+      }, ticks, new Date(Date.now() - ticks * 10 * 1000), 10);
+
+      const fleetDevice = { device, provisioned: provisioned[0] };
+      const rollbackTicks: number[] = [];
+      for (const event of events) {
+        const response = await FleetSimulatorService.send(supertestTransport, fleetDevice, event);
+        expect([200, 422]).toContain(response.status);
+        if (response.status === 422) rollbackTicks.push(event.tick);
+        if (event.kind === 'batch') expect(response.body.data.accepted).toBe(2);
+      }
+
+      expect(expectedAlerts.map(alert => alert.type)).toEqual(['vin_mismatch', 'odometer_rollback']);
+      const checks = await FleetSimulatorService.checkAlerts([fleetDevice], new Map([[provisioned[0].deviceID, rollbackTicks]]));
+      expect(checks.every(check => check.found)).toBe(true);
+    });
+  });
+
+  describe('Fraud Rules', () => {
+    afterAll(async () => {
+      await FraudRule.deleteMany({ key: 'odometer_rollback', version: { $gt: 1 } });
+      await FraudRule.updateOne({ key: 'odometer_rollback', version: 1 }, { $set: { isActive: true } });
+      FraudRulesService.clearCache();
+    });
+
+    it('should record the rule version behind a rollback so it can be replayed', async () => {
+      const rule = await FraudRulesService.update('odometer_rollback', { thresholds: { toleranceKm: 1 }, notes: 'Integration test' });
+      const vehicle = await Vehicle.findById(testVehicle._id);
+
+      const response = await postSigned({
+        deviceID: 'INTEGRATION_DEVICE',
+        status: 'obd_connected',
+        vin: 'INTEGRATION_TEST_VIN',
+        mileage: vehicle!.lastVerifiedMileage - 100,
+        timestamp: Date.now(),
+        dataSource: 'veepeak_obd',
+        message: 'Rules engine test'
+      });
+      expect(response.status).toBe(422);
+
+      const alert = (await FraudAlert.findOne({ vehicleId: testVehicle._id, alertType: 'odometer_rollback' }).sort({ reportedAt: -1 }))!;
+      expect(alert.rule).toMatchObject({ key: 'odometer_rollback', version: rule.version });
+
+      const explanation = await FraudRulesService.explain(String(alert.decisionId));
+      expect(explanation.decision.subjectId).toBe(String(response.body.telemetryId));
+      expect(explanation.reproduced).toBe(true);
+    });
+  });
+
+  describe('Fraud Alert Cases', () => {
+    it('should give back the trust score of a rollback marked false positive, once', async () => {
+      const vehicle = await Vehicle.findById(testVehicle._id);
+      const response = await postSigned({
+        deviceID: 'INTEGRATION_DEVICE',
+        status: 'obd_connected',
+        vin: 'INTEGRATION_TEST_VIN',
+        mileage: vehicle!.lastVerifiedMileage - 500,
+        timestamp: Date.now(),
+        dataSource: 'veepeak_obd',
+        message: 'Case workflow test'
+      });
+      expect(response.status).toBe(422);
+
+      const alert = (await FraudAlert.findOne({ telemetryId: response.body.telemetryId }))!;
+      const penalized = (await Vehicle.findById(testVehicle._id))!.trustScore;
+
+      const queue = await FraudCaseService.listQueue({ vehicleId: String(testVehicle._id), sort: 'severity' });
+      expect(queue.alerts.map(item => String(item._id))).toContain(String(alert._id));
+
+      const { trust } = await FraudCaseService.changeStatus(String(alert._id), 'false_positive', 'Cluster was swapped at a dealer');
+      const restored = (await Vehicle.findById(testVehicle._id))!.trustScore;
+      expect(trust.change).toBeGreaterThan(0);
+      expect(restored).toBe(penalized + trust.change);
+
+      const reopened = await FraudCaseService.changeStatus(String(alert._id), 'investigating', undefined);
+      expect(reopened.trust.change).toBe(-trust.change);
+      expect(reopened.alert.statusHistory.map(entry => entry.to)).toEqual(['false_positive', 'investigating']);
+      await expect(FraudCaseService.changeStatus(String(alert._id), 'investigating', undefined)).rejects.toThrow('Cannot move');
+    });
+  });
+
+  describe('Trust Disputes', () => {
+    afterAll(async () => {
+      await TrustDispute.deleteMany({ vehicleId: testVehicle._id });
+    });
+
+    it('should compensate a rollback deduction once the owner dispute is accepted', async () => {
+      const vehicle = await Vehicle.findById(testVehicle._id);
+      const owner = { id: String(vehicle!.ownerId), role: 'owner' };
+      const reviewer = { id: String(new mongoose.Types.ObjectId()), role: 'government' };
+      const response = await postSigned({
+        deviceID: 'INTEGRATION_DEVICE',
+        status: 'obd_connected',
+        vin: 'INTEGRATION_TEST_VIN',
+        mileage: vehicle!.lastVerifiedMileage - 500,
+        timestamp: Date.now(),
+        dataSource: 'veepeak_obd',
+        message: 'Dispute workflow test'
+      });
+      expect(response.status).toBe(422);
+
+      const alert = (await FraudAlert.findOne({ telemetryId: response.body.telemetryId }))!;
+      const deduction = (await TrustEvent.findOne({ 'details.fraudAlertId': alert._id }))!;
+      const penalized = (await Vehicle.findById(testVehicle._id))!.trustScore;
+
+      await expect(TrustDisputeService.open({ trustEventId: String(deduction._id), reason: 'Cluster replaced' }, reviewer))
+        .rejects.toThrow('Only the vehicle owner');
+      const dispute = await TrustDisputeService.open({
+        trustEventId: String(deduction._id),
+        reason: 'Instrument cluster was replaced at the dealer',
+        documents: [{ url: '/uploads/invoices/cluster.pdf', name: 'Dealer invoice' }]
+      }, owner);
+      expect(String(dispute.fraudAlertId)).toBe(String(alert._id));
+      await expect(TrustDisputeService.open({ fraudAlertId: String(alert._id), reason: 'Same alert' }, owner))
+        .rejects.toThrow('already an open dispute');
+
+      const accepted = await TrustDisputeService.review(String(dispute._id), {
+        status: 'accepted',
+        note: 'Dealer invoice confirms the cluster swap',
+        annotation: 'Mileage drop explained by a documented instrument cluster replacement'
+      }, reviewer);
+      expect(accepted.status).toBe('accepted');
+      expect(accepted.compensation!.change).toBe(deduction.previousScore - deduction.newScore);
+      expect((await Vehicle.findById(testVehicle._id))!.trustScore).toBe(penalized + accepted.compensation!.change);
+      expect((await FraudAlert.findById(alert._id))!.status).toBe('false_positive');
+
+      const annotations = await TrustDisputeService.getReportAnnotations(testVehicle._id);
+      expect(annotations.map(item => item.disputeId)).toContain(String(dispute._id));
+      await expect(TrustDisputeService.review(String(dispute._id), { status: 'rejected', note: 'Changed my mind' }, reviewer))
+        .rejects.toThrow('Cannot move');
+    });
+  });
+
+  describe('Trust Policy Recompute', () => {
+    afterAll(async () => {
+      // Rescore under the default policy again so later tests see unweighted deltas
+      await TrustPolicy.deleteMany({ version: { $gt: 1 } });
+      await TrustPolicy.updateOne({ version: 1 }, { $set: { isActive: true } });
+      TrustPolicyService.clearCache();
+      await TrustPolicyService.recomputeVehicle(testVehicle._id, await TrustPolicyService.getActivePolicy());
+    });
+
+    it('should preview and then record a recompute under a new policy version', async () => {
+      const vehicle = await Vehicle.findById(testVehicle._id);
+      await postSigned({
+        deviceID: 'INTEGRATION_DEVICE',
+        status: 'obd_connected',
+        vin: 'INTEGRATION_TEST_VIN',
+        mileage: vehicle!.lastVerifiedMileage - 500,
+        timestamp: Date.now(),
+        dataSource: 'veepeak_obd',
+        message: 'Policy recompute test'
+      });
+
+      const policy = await TrustPolicyService.create({ weights: { fraudEngine: 0.5 }, notes: 'Halve fraud penalties' });
+      const preview = await TrustPolicyService.preview(policy.version, { vehicleIds: [String(testVehicle._id)] });
+      const [diff] = preview.changes;
+      expect(diff.vehicleId).toBe(String(testVehicle._id));
+      expect(diff.delta).toBeGreaterThan(0);
+      expect((await Vehicle.findById(testVehicle._id))!.trustScore).toBe(diff.currentScore);
+
+      const applied = await TrustPolicyService.recomputeVehicle(testVehicle._id, TrustPolicyService.configOf(policy));
+      expect(applied!.recomputedScore).toBe(diff.recomputedScore);
+
+      const rescored = (await Vehicle.findById(testVehicle._id))!;
+      expect(rescored.trustScore).toBe(diff.recomputedScore);
+      expect(rescored.trustPolicyVersion).toBe(policy.version);
+
+      const event = (await TrustEvent.findOne({ vehicleId: testVehicle._id, source: 'recompute' }).sort({ createdAt: -1 }))!;
+      expect(event.change).toBe(diff.delta);
+      expect(event.policyVersion).toBe(policy.version);
+
+      const again = await TrustPolicyService.preview(policy.version, { vehicleIds: [String(testVehicle._id)] });
+      expect(again.changed).toBe(0);
+    });
+  });
+
+  describe('Scheduled Trust Recovery', () => {
+    it('should decay a silent vehicle once per step period with a policy event', async () => {
+      const silent = await Vehicle.create({
+        vin: 'SILENT_TRUST_VIN',
+        vehicleNumber: 'SILENT_001',
+        ownerId: new mongoose.Types.ObjectId(),
+        make: 'Test',
+        vehicleModel: 'Model',
+        year: 2023,
+        color: 'Grey',
+        bodyType: 'sedan',
+        fuelType: 'gasoline',
+        transmission: 'automatic',
+        currentMileage: 0,
+        lastVerifiedMileage: 0,
+        condition: 'good',
+        trustScore: 90
+      });
+      await TelemetryBatch.create({
+        installId: new mongoose.Types.ObjectId(),
+        vehicleId: silent._id,
+        deviceId: 'SILENT_DEVICE',
+        date: new Date(Date.now() - 60 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+        segments: [],
+        status: 'anchored',
+        lastRecordedMileage: 0,
+        distanceDelta: 0
+      });
+
+      const policy = await TrustPolicyService.getActivePolicy();
+      const step = await TrustRecoveryService.evaluateVehicle(String(silent._id), policy);
+      expect(step).toMatchObject({ rule: 'inactivity', previousScore: 90, newScore: 89 });
+
+      const event = (await TrustEvent.findOne({ vehicleId: silent._id, source: 'policy' }))!;
+      expect(event.details.policyRule).toBe('inactivity');
+      expect(event.reason).toMatch(/^No verified data for \d+ days$/);
+
+      expect(await TrustRecoveryService.evaluateVehicle(String(silent._id), policy)).toBeNull();
+    });
+  });
+
+  describe('Duplicate Registration Scan', () => {
+    const registration = (vin: string, vehicleNumber: string) => ({
+      vin,
+      vehicleNumber,
+      ownerId: new mongoose.Types.ObjectId(),
+      make: 'Test',
+      vehicleModel: 'Model',
+      year: 2022,
+      color: 'White',
+      bodyType: 'sedan',
+      fuelType: 'gasoline',
+      transmission: 'manual',
+      currentMileage: 0,
+      lastVerifiedMileage: 0,
+      condition: 'good'
+    });
+
+    afterAll(async () => {
+      await Vehicle.deleteMany({ vehicleNumber: { $in: ['CLONE001', 'CLONE002', 'MH12CL0001'] } });
+    });
+
+    it('should report near-duplicate VINs and shared plates once per finding', async () => {
+      const genuine = await Vehicle.create(registration('1M8GDM9AXKP042788', 'CLONE001'));
+      const copy = await Vehicle.create(registration('1M8GDM9AXKP042789', 'CLONE002'));
+      await Vehicle.create(registration('1HGCM82633A004352', 'MH12CL0001'));
+      await Vehicle.create(registration('2HGCM82633A004352', 'MH12CL0001'));
+
+      const report = await DuplicateVinService.runDetection();
+
+      const nearDuplicate = report.findings.find(finding => finding.kind === 'near_duplicate_vin' && finding.identifier === copy.vin)!;
+      expect(nearDuplicate.severity).toBe('high');
+      expect(nearDuplicate.vins).toEqual([genuine.vin, copy.vin]);
+      expect(nearDuplicate.fraudAlertIds).toHaveLength(2);
+
+      const sharedPlate = report.findings.find(finding => finding.kind === 'shared_registration' && finding.identifier === 'MH12CL0001')!;
+      expect(sharedPlate.ownerIds).toHaveLength(2);
+
+      const alert = (await FraudAlert.findOne({ vehicleId: copy._id, alertType: 'duplicate_vin' }))!;
+      expect(alert.fingerprint).toBe(nearDuplicate.fingerprint);
+
+      const again = await DuplicateVinService.runDetection();
+      expect(again.alertsCreated).toBe(0);
+
+      const latest = await DuplicateVinService.getReport('latest', 'near_duplicate_vin');
+      expect(String(latest._id)).toBe(String(again._id));
+      expect(latest.findings.every(finding => finding.kind === 'near_duplicate_vin')).toBe(true);
+    });
+  });
+
+  describe('Usage Baseline', () => {
+    it('should raise one alert for a day the engine ran without distance', async () => {
+      const commuter = await Vehicle.create({
+        vin: 'USAGE_BASELINE_VIN',
+        vehicleNumber: 'USAGE_001',
+        ownerId: new mongoose.Types.ObjectId(),
+        make: 'Test',
+        vehicleModel: 'Model',
+        year: 2023,
+        color: 'Blue',
+        bodyType: 'sedan',
+        fuelType: 'gasoline',
+        transmission: 'automatic',
+        currentMileage: 0,
+        lastVerifiedMileage: 0,
+        condition: 'good'
+      });
+      const day = (offset: number) => new Date(Date.UTC(2026, 4, 1 + offset)).toISOString().split('T')[0];
+      const batch = (offset: number, distance: number, hours: number) => {
+        const start = new Date(`${day(offset)}T08:00:00.000Z`);
+        return {
+          installId: new mongoose.Types.ObjectId(),
+          vehicleId: commuter._id,
+          deviceId: 'USAGE_DEVICE',
+          date: day(offset),
+          segments: [{ startTime: start, endTime: new Date(start.getTime() + hours * 60 * 60 * 1000), distance }],
+          totalDistance: distance,
+          segmentsCount: 1,
+          status: 'anchored',
+          lastRecordedMileage: 0,
+          distanceDelta: distance
+        };
+      };
+      await TelemetryBatch.create(Array.from({ length: 20 }, (_, i) => batch(i, 40 + (i % 5) * 5, 1 + (i % 2) * 0.5)));
+      await TelemetryBatch.create(batch(20, 1, 1.5));
+
+      const result = (await UsageBaselineService.evaluateDay(String(commuter._id), day(20)))!;
+      expect(result.anomalies.map(anomaly => anomaly.kind)).toEqual(['distance_stall']);
+      expect(result.alertIds).toHaveLength(1);
+
+      const alert = (await FraudAlert.findById(result.alertIds[0]))!;
+      expect(alert.alertType).toBe('usage_anomaly');
+      expect(alert.severity).toBe('medium');
+      expect(alert.statistics).toMatchObject({ date: day(20), metric: 'kmPerHour', baselineDays: 20 });
+
+      const baseline = (await UsageBaseline.findOne({ vehicleId: commuter._id }))!;
+      expect(baseline.days).toBe(20);
+      expect(baseline.distanceKm.mean).toBe(50);
+
+      const again = (await UsageBaselineService.evaluateDay(String(commuter._id), day(20)))!;
+      expect(again.alertIds).toHaveLength(0);
+    });
+  });
+
+  describe('Vehicle Holds', () => {
+    it('should block listing and transfer until the hold is released', async () => {
+      const owner = new mongoose.Types.ObjectId();
+      const held = await Vehicle.create({
+        vin: 'HELD_VEHICLE_VIN',
+        vehicleNumber: 'HELD_001',
+        ownerId: owner,
+        make: 'Test',
+        vehicleModel: 'Model',
+        year: 2021,
+        color: 'Black',
+        bodyType: 'sedan',
+        fuelType: 'gasoline',
+        transmission: 'manual',
+        currentMileage: 0,
+        lastVerifiedMileage: 0,
+        condition: 'good',
+        isForSale: true,
+        listingStatus: 'active'
+      });
+      const government = { id: String(new mongoose.Types.ObjectId()), role: 'government' };
+
+      const hold = await VehicleHoldService.place(String(held._id), {
+        type: 'stolen',
+        reason: 'FIR 118/2026 filed by the owner',
+        reference: 'FIR-118-2026'
+      }, government);
+      expect((await Vehicle.findById(held._id))!.isForSale).toBe(false);
+
+      await expect(MarketplaceService.listVehicleForSale(String(owner), {
+        vehicleId: String(held._id),
+        askingPrice: 500000,
+        condition: 'good',
+        negotiable: true,
+        contactPreference: 'email',
+        availableForInspection: true
+      })).rejects.toBeInstanceOf(VehicleHoldError);
+
+      const blocked = (await VehicleHoldService.blockFor(String(held._id), 'transfer'))!;
+      expect(blocked.statusCode).toBe(409);
+      expect(blocked.message).toContain('FIR 118/2026 filed by the owner');
+      expect(blocked.details.holds[0]).toMatchObject({ type: 'stolen', reference: 'FIR-118-2026' });
+
+      await expect(VehicleHoldService.place(String(held._id), { type: 'stolen', reason: 'Again' }, { id: String(owner), role: 'owner' }))
+        .rejects.toThrow('Only admin and government users can place holds');
+
+      await VehicleHoldService.release(String(held._id), String(hold._id), 'Vehicle recovered', government);
+      expect(await VehicleHoldService.blockFor(String(held._id), 'transfer')).toBeNull();
+    });
+  });
+
+  describe('Offline Anchoring', () => {
+    let anchored: { ownerId: string; vehicleId: string; date: string; solanaTx: string };
+
+    afterAll(async () => {
+      await User.deleteMany({ email: 'ledger.owner@example.com' });
+      await Vehicle.deleteMany({ vin: 'LEDGER_TEST_VIN' });
+      await Device.deleteMany({ deviceID: 'LEDGER_DEVICE' });
+      await VehicleTelemetry.deleteMany({ deviceID: 'LEDGER_DEVICE' });
+    });
+
+    it('should register, install, ingest, anchor and verify on the local ledger', async () => {
+      const owner = await User.create({
+        firstName: 'Ledger',
+        lastName: 'Owner',
+        email: 'ledger.owner@example.com',
+        password: 'TestPassword123!',
+        role: 'owner'
+      });
+      await walletService.createWallet(String(owner._id));
+      const wallet = (await walletService.getUserWallet(String(owner._id)))!;
+      expect(wallet.balance).toBeCloseTo(0.1);
+
+      const vehicle = await Vehicle.create({
+        vin: 'LEDGER_TEST_VIN',
+        vehicleNumber: 'LEDGER001',
+        ownerId: owner._id,
+        make: 'Test',
+        vehicleModel: 'Model',
+        year: 2024,
+        color: 'Grey',
+        bodyType: 'sedan',
+        fuelType: 'gasoline',
+        transmission: 'automatic',
+        currentMileage: 40000,
+        lastVerifiedMileage: 40000,
+        condition: 'good'
+      });
+      const solana = getSolanaService();
+      const registration = await solana.registerVehicle(String(vehicle._id), vehicle.vin, vehicle.vehicleNumber, 40000, wallet);
+      const installation = await solana.recordInstallation({ vehicleId: vehicle._id, vin: vehicle.vin, deviceId: 'LEDGER_DEVICE', mileage: 40000 }, wallet);
+      expect(installation.network).toBe('local');
+
+      await Device.create({
+        deviceID: 'LEDGER_DEVICE',
+        deviceType: 'ESP32_Telematics',
+        status: 'installed',
+        vehicle: vehicle._id,
+        installationRequest: { requestedBy: owner._id, requestedAt: new Date(), priority: 'medium' }
+      });
+      const { secret } = await DeviceAuthService.provisionSecret('LEDGER_DEVICE');
+      const startedAt = Date.now() - 20 * 60 * 1000;
+      for (const [i, mileage] of [40004, 40009, 40015].entries()) {
+        const response = await postSigned({
+          deviceID: 'LEDGER_DEVICE',
+          status: 'obd_connected',
+          vin: vehicle.vin,
+          mileage,
+          speed: 40,
+          rpm: 2000,
+          dataQuality: 98,
+          timestamp: startedAt + i * 5 * 60 * 1000,
+          dataSource: 'device_status'
+        }, secret, 'LEDGER_DEVICE');
+        expect(response.status).toBe(200);
+      }
+
+      const date = new Date(startedAt).toISOString().split('T')[0];
+      const result = await TelemetryConsolidationService.consolidateDayBatch(String(vehicle._id), date);
+      expect(result.success).toBe(true);
+
+      const anchor = (await solana.getTransaction(result.solanaTx!))!;
+      expect(anchor.confirmationStatus).toBe('finalized');
+      expect(anchor.signer).toBe(wallet.publicKey);
+      expect(anchor.memoData).toMatchObject({ action: 'ANCHOR_TELEMETRY_BATCH', network: 'local', date, merkleRoot: result.merkleRoot });
+
+      const stored = JSON.parse((await getArweaveService().getData(result.arweaveTx!)).toString());
+      expect(stored.merkleRoot).toBe(result.merkleRoot);
+      expect(await getAnchorService().verifyAnchoring(result.solanaTx!, result.arweaveTx!)).toBe(true);
+
+      const history = await solana.getWalletTransactions(wallet.publicKey);
+      expect(history.map(tx => tx.signature)).toEqual(expect.arrayContaining([registration.transactionHash, installation.transactionHash, result.solanaTx]));
+
+      anchored = { ownerId: String(owner._id), vehicleId: String(vehicle._id), date, solanaTx: result.solanaTx! };
+    });
+
+    it('should prove a segment against the anchored root', async () => {
+      const denied = await request(app).get(`/api/telemetry/proof/${anchored.vehicleId}/${anchored.date}`);
+      expect(denied.status).toBe(403);
+
+      const batchProof = await TelemetryProofService.getBatchProof(anchored.vehicleId, anchored.date, { id: anchored.ownerId, role: 'owner' });
+      expect(batchProof.solanaTx).toBe(anchored.solanaTx);
+      expect(batchProof.segments.length).toBe(batchProof.segmentsCount);
+
+      const { segment, proof } = batchProof.segments[0];
+      const verified = await request(app)
+        .post('/api/telemetry/proof/verify')
+        .send({ vehicleId: anchored.vehicleId, date: anchored.date, segment, proof, solanaTx: anchored.solanaTx });
+      expect(verified.status).toBe(200);
+      expect(verified.body.data).toMatchObject({ verified: true, anchoredRoot: batchProof.merkleRoot, reasons: [] });
+
+      const forged = await request(app)
+        .post('/api/telemetry/proof/verify')
+        .send({ vehicleId: anchored.vehicleId, date: anchored.date, segment: { ...segment, distance: segment.distance + 100 }, proof, solanaTx: anchored.solanaTx });
+      expect(forged.body.data.verified).toBe(false);
+      expect(forged.body.data.reasons).toEqual(['Recomputed root does not match the anchored root']);
+
+      const otherDay = await request(app)
+        .post('/api/telemetry/proof/verify')
+        .send({ vehicleId: anchored.vehicleId, date: '2020-01-01', segment, proof, solanaTx: anchored.solanaTx });
+      expect(otherDay.body.data.reasons).toEqual(['Anchor memo is for a different date']);
+    });
+
+    it('should export a history bundle that verifies offline', async () => {
+      const bundle = await HistoryBundleService.exportBundle(anchored.vehicleId, { from: anchored.date, to: anchored.date }, { id: anchored.ownerId, role: 'owner' });
+      expect(bundle.ledger.map(entry => entry.signature)).toEqual([anchored.solanaTx]);
+
+      const { publicKey } = HistoryBundleService.signingKey();
+      const report = verifyHistoryBundle(JSON.parse(JSON.stringify(bundle)), { publicKey });
+      expect(report.passed).toBe(true);
+      expect(report.days).toEqual([expect.objectContaining({ date: anchored.date, passed: true, reasons: [] })]);
+
+      const keyResponse = await request(app).get('/api/telemetry/bundle/signing-key');
+      expect(keyResponse.body.data.publicKey).toBe(publicKey);
+      const denied = await request(app).get(`/api/telemetry/bundle/${anchored.vehicleId}`);
+      expect(denied.status).toBe(403);
     });
   });
 
@@ -158,15 +1031,84 @@ describe('Device Ingest Integration Tests', () => {
     });
   });
 
-  describe('Error Handling', () => {
-    it('should return 400 for missing required fields', async () => {
+  describe('Device Authentication', () => {
+    const payload = () => ({
+      deviceID: 'INTEGRATION_DEVICE',
+      status: 'obd_connected',
+      vin: 'INTEGRATION_TEST_VIN',
+      mileage: 65200,
+      timestamp: Date.now(),
+      dataSource: 'device_status',
+      message: 'Auth test'
+    });
+
+    it('should reject unsigned requests', async () => {
       const response = await request(app)
         .post('/api/device/status')
-        .send({
-          // Missing deviceID and status
-          vin: 'INTEGRATION_TEST_VIN',
-          mileage: 65100
-        });
+        .send(payload());
+
+      expect(response.status).toBe(401);
+      expect(response.body.message).toBe('Missing device authentication headers');
+    });
+
+    it('should reject requests signed with the wrong secret', async () => {
+      const response = await postSigned(payload(), 'f'.repeat(64));
+
+      expect(response.status).toBe(401);
+      expect(response.body.message).toBe('Invalid device signature');
+    });
+
+    it('should reject replayed requests', async () => {
+      const body = JSON.stringify(payload());
+      const headers = buildDeviceAuthHeaders(deviceSecret, 'INTEGRATION_DEVICE', body);
+
+      const first = await request(app).post('/api/device/status').set('Content-Type', 'application/json').set(headers).send(body);
+      const replay = await request(app).post('/api/device/status').set('Content-Type', 'application/json').set(headers).send(body);
+
+      expect(first.status).not.toBe(401);
+      expect(replay.status).toBe(401);
+      expect(replay.body.message).toBe('Replayed device request');
+    });
+
+    it('should reject requests outside the clock skew window', async () => {
+      const body = JSON.stringify(payload());
+      const headers = buildDeviceAuthHeaders(deviceSecret, 'INTEGRATION_DEVICE', body, {
+        timestamp: Math.floor(Date.now() / 1000) - 3600
+      });
+
+      const response = await request(app).post('/api/device/status').set('Content-Type', 'application/json').set(headers).send(body);
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should reject payloads claiming another deviceID', async () => {
+      const body = JSON.stringify({ ...payload(), deviceID: 'SOMEONE_ELSES_DEVICE' });
+      const headers = buildDeviceAuthHeaders(deviceSecret, 'INTEGRATION_DEVICE', body);
+
+      const response = await request(app).post('/api/device/status').set('Content-Type', 'application/json').set(headers).send(body);
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should accept the previous secret during the rotation grace period', async () => {
+      const oldSecret = deviceSecret;
+      deviceSecret = (await DeviceAuthService.rotateSecret('INTEGRATION_DEVICE', 1)).secret;
+
+      const withOld = await postSigned(payload(), oldSecret);
+      const withNew = await postSigned(payload());
+
+      expect(withOld.status).not.toBe(401);
+      expect(withNew.status).not.toBe(401);
+    });
+  });
+
+  describe('Error Handling', () => {
+    it('should return 400 for missing required fields', async () => {
+      const response = await postSigned({
+        // Missing deviceID and status
+        vin: 'INTEGRATION_TEST_VIN',
+        mileage: 65100
+      });
 
       expect(response.status).toBe(400);
       expect(response.body.status).toBe('error');
@@ -178,17 +1120,15 @@ describe('Device Ingest Integration Tests', () => {
       const originalCreate = VehicleTelemetry.create;
       VehicleTelemetry.create = jest.fn().mockRejectedValue(new Error('Database error'));
 
-      const response = await request(app)
-        .post('/api/device/status')
-        .send({
-          deviceID: 'INTEGRATION_DEVICE',
-          status: 'obd_connected',
-          vin: 'INTEGRATION_TEST_VIN',
-          mileage: 65100,
-          timestamp: Date.now(),
-          dataSource: 'device_status',
-          message: 'Error test'
-        });
+      const response = await postSigned({
+        deviceID: 'INTEGRATION_DEVICE',
+        status: 'obd_connected',
+        vin: 'INTEGRATION_TEST_VIN',
+        mileage: 65100,
+        timestamp: Date.now(),
+        dataSource: 'device_status',
+        message: 'Error test'
+      });
 
       expect(response.status).toBe(500);
       expect(response.body.status).toBe('error');
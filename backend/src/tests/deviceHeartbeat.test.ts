@@ -0,0 +1,64 @@
+import { evaluateBootCount, isSilent, silenceThresholdMinutes, unreportedDistance } from '../utils/deviceHeartbeat';
+
+describe('deviceHeartbeat', () => {
+  describe('silenceThresholdMinutes', () => {
+    it('should use the base threshold for short sleep cycles', () => {
+      expect(silenceThresholdMinutes(60, 2)).toBe(60);
+      expect(silenceThresholdMinutes(60)).toBe(60);
+    });
+
+    it('should allow three sleep cycles for long-sleeping devices', () => {
+      expect(silenceThresholdMinutes(60, 30)).toBe(90);
+    });
+  });
+
+  describe('isSilent', () => {
+    const now = new Date('2026-01-01T12:00:00Z');
+
+    it('should flag devices not seen within the threshold', () => {
+      expect(isSilent(new Date('2026-01-01T10:30:00Z'), 60, now)).toBe(true);
+      expect(isSilent(new Date('2026-01-01T11:30:00Z'), 60, now)).toBe(false);
+    });
+
+    it('should not flag devices that never reported', () => {
+      expect(isSilent(undefined, 60, now)).toBe(false);
+    });
+  });
+
+  describe('evaluateBootCount', () => {
+    it('should accept consecutive boots', () => {
+      expect(evaluateBootCount(10, 11, 5)).toEqual({ anomaly: null, delta: 1 });
+      expect(evaluateBootCount(10, 10, 5)).toEqual({ anomaly: null, delta: 0 });
+    });
+
+    it('should detect a counter reset', () => {
+      expect(evaluateBootCount(40, 1, 5).anomaly).toBe('reset');
+    });
+
+    it('should detect boots that never reported', () => {
+      expect(evaluateBootCount(10, 30, 5)).toEqual({ anomaly: 'jump', delta: 20 });
+    });
+
+    it('should ignore devices without a previous counter', () => {
+      expect(evaluateBootCount(0, 50, 5).anomaly).toBeNull();
+      expect(evaluateBootCount(undefined, 50, 5).anomaly).toBeNull();
+      expect(evaluateBootCount(10, undefined, 5).anomaly).toBeNull();
+    });
+  });
+
+  describe('unreportedDistance', () => {
+    it('should return the distance beyond the tolerance', () => {
+      expect(unreportedDistance(50000, 50120, 5)).toBe(120);
+    });
+
+    it('should ignore small or negative differences', () => {
+      expect(unreportedDistance(50000, 50003, 5)).toBeNull();
+      expect(unreportedDistance(50000, 49000, 5)).toBeNull();
+    });
+
+    it('should ignore unknown mileage', () => {
+      expect(unreportedDistance(undefined, 50120, 5)).toBeNull();
+      expect(unreportedDistance(50000, undefined, 5)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  buildDeviceAuthHeaders,
+  buildSigningString,
+  generateDeviceSecret,
+  isTimestampWithinSkew,
+  signDeviceRequest,
+  verifyDeviceSignature,
+  DEVICE_AUTH_HEADERS
+} from '../utils/deviceSignature';
+
+describe('deviceSignature', () => {
+  const secret = 'a'.repeat(64);
+  const body = JSON.stringify({ deviceID: 'OBD3001', status: 'obd_connected', mileage: 65100, timestamp: 123 });
+  const input = { deviceId: 'OBD3001', timestamp: 1760000000, nonce: 'n-1', body };
+
+  it('should generate 256-bit hex secrets', () => {
+    const generated = generateDeviceSecret();
+    expect(generated).toMatch(/^[0-9a-f]{64}$/);
+    expect(generateDeviceSecret()).not.toBe(generated);
+  });
+
+  it('should include device, timestamp, nonce and body hash in the signing string', () => {
+    const parts = buildSigningString(input).split('\n');
+    expect(parts).toHaveLength(4);
+    expect(parts.slice(0, 3)).toEqual(['OBD3001', '1760000000', 'n-1']);
+    expect(parts[3]).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should verify a valid signature', () => {
+    const signature = signDeviceRequest(secret, input);
+    expect(verifyDeviceSignature(secret, input, signature)).toBe(true);
+    expect(verifyDeviceSignature(secret, input, signature.toUpperCase())).toBe(true);
+  });
+
+  it('should reject a signature when the body is tampered with', () => {
+    const signature = signDeviceRequest(secret, input);
+    const tampered = { ...input, body: body.replace('65100', '45000') };
+    expect(verifyDeviceSignature(secret, tampered, signature)).toBe(false);
+  });
+
+  it('should reject a signature made with another secret or for another device', () => {
+    const signature = signDeviceRequest(secret, input);
+    expect(verifyDeviceSignature('b'.repeat(64), input, signature)).toBe(false);
+    expect(verifyDeviceSignature(secret, { ...input, deviceId: 'OBD3002' }, signature)).toBe(false);
+  });
+
+  it('should reject malformed signatures', () => {
+    expect(verifyDeviceSignature(secret, input, '')).toBe(false);
+    expect(verifyDeviceSignature(secret, input, 'not-hex')).toBe(false);
+    expect(verifyDeviceSignature(secret, input, 'ab')).toBe(false);
+  });
+
+  it('should enforce the clock skew window', () => {
+    const now = 1760000000 * 1000;
+    expect(isTimestampWithinSkew(1760000000, 300, now)).toBe(true);
+    expect(isTimestampWithinSkew(1760000000 - 299, 300, now)).toBe(true);
+    expect(isTimestampWithinSkew(1760000000 - 301, 300, now)).toBe(false);
+    expect(isTimestampWithinSkew(1760000000 + 301, 300, now)).toBe(false);
+    expect(isTimestampWithinSkew(NaN, 300, now)).toBe(false);
+    // millis() uptime values from the firmware are not epoch seconds
+    expect(isTimestampWithinSkew(123456, 300, now)).toBe(false);
+  });
+
+  it('should build verifiable auth headers', () => {
+    const headers = buildDeviceAuthHeaders(secret, 'OBD3001', body);
+    expect(headers[DEVICE_AUTH_HEADERS.deviceId]).toBe('OBD3001');
+    expect(verifyDeviceSignature(secret, {
+      deviceId: 'OBD3001',
+      timestamp: headers[DEVICE_AUTH_HEADERS.timestamp],
+      nonce: headers[DEVICE_AUTH_HEADERS.nonce],
+      body
+    }, headers[DEVICE_AUTH_HEADERS.signature])).toBe(true);
+  });
+});
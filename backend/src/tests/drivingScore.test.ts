@@ -0,0 +1,102 @@
+import { computeDrivingMetrics, DrivingSample, isNightTime, scoreDrivingMetrics } from '../utils/drivingScore';
+
+describe('drivingScore', () => {
+  const options = {
+    engineOnRpm: 400,
+    maxIntervalSeconds: 600,
+    maxSampleGapSeconds: 10,
+    harshAccelKmhPerS: 10,
+    harshBrakeKmhPerS: 12,
+    speedLimitKmh: 100,
+    nightStartHour: 22,
+    nightEndHour: 5,
+    utcOffsetMinutes: 0,
+    minDistanceKm: 25
+  };
+  // Noon UTC
+  const base = new Date('2026-03-01T12:00:00Z').getTime();
+  const at = (seconds: number) => new Date(base + seconds * 1000);
+  const sample = (seconds: number, speed: number, rpm = 2000): DrivingSample =>
+    ({ time: at(seconds), connected: true, rpm, speed });
+
+  describe('isNightTime', () => {
+    it('should wrap the night window past midnight in local time', () => {
+      expect(isNightTime(new Date('2026-03-01T23:30:00Z'), options)).toBe(true);
+      expect(isNightTime(new Date('2026-03-01T04:59:00Z'), options)).toBe(true);
+      expect(isNightTime(new Date('2026-03-01T05:00:00Z'), options)).toBe(false);
+      // 17:00 UTC is 22:30 at UTC+5:30
+      expect(isNightTime(new Date('2026-03-01T17:00:00Z'), { ...options, utcOffsetMinutes: 330 })).toBe(true);
+    });
+  });
+
+  describe('computeDrivingMetrics', () => {
+    it('should attribute intervals to the state of the earlier reading', () => {
+      const metrics = computeDrivingMetrics([
+        sample(0, 0, 800), // 60 s idle
+        sample(60, 60), // 60 s at 60 km/h = 1 km
+        sample(120, 120), // 60 s over the limit = 2 km
+        sample(180, 0, 0) // engine off
+      ], options);
+
+      expect(metrics.readings).toBe(4);
+      expect(metrics.engineOnSeconds).toBe(180);
+      expect(metrics.idleSeconds).toBe(60);
+      expect(metrics.movingSeconds).toBe(120);
+      expect(metrics.overSpeedSeconds).toBe(60);
+      expect(metrics.distanceKm).toBe(3);
+      expect(metrics.nightSeconds).toBe(0);
+    });
+
+    it('should count a harsh manoeuvre spanning several readings once', () => {
+      const metrics = computeDrivingMetrics([
+        sample(0, 10), sample(2, 35), sample(4, 60), // +12.5 km/h/s twice
+        sample(6, 62),
+        sample(8, 30), // -16 km/h/s
+        sample(30, 0) // -1.4 km/h/s over a gap too long to rate
+      ], options);
+
+      expect(metrics.harshAccelerationCount).toBe(1);
+      expect(metrics.harshBrakingCount).toBe(1);
+    });
+
+    it('should not rate speed changes across reporting gaps', () => {
+      const metrics = computeDrivingMetrics([sample(0, 0, 800), sample(60, 90)], options);
+
+      expect(metrics.harshAccelerationCount).toBe(0);
+    });
+  });
+
+  describe('scoreDrivingMetrics', () => {
+    const metrics = {
+      readings: 1000,
+      distanceKm: 100,
+      engineOnSeconds: 10000,
+      movingSeconds: 8000,
+      idleSeconds: 2000,
+      overSpeedSeconds: 400,
+      nightSeconds: 1000,
+      harshAccelerationCount: 2,
+      harshBrakingCount: 1
+    };
+
+    it('should combine the weighted components', () => {
+      const result = scoreDrivingMetrics(metrics, options);
+
+      expect(result.breakdown.harshAcceleration).toMatchObject({ value: 2, score: 80 });
+      expect(result.breakdown.harshBraking).toMatchObject({ value: 1, score: 90 });
+      expect(result.breakdown.overSpeeding).toMatchObject({ value: 5, score: 80 });
+      expect(result.breakdown.nightDriving).toMatchObject({ value: 10, score: 90 });
+      expect(result.breakdown.idling).toMatchObject({ value: 20, score: 60 });
+      // 80*0.2 + 90*0.25 + 80*0.25 + 90*0.15 + 60*0.15
+      expect(result.score).toBe(81);
+      expect(result.riskLevel).toBe('low');
+    });
+
+    it('should not score vehicles that drove too little', () => {
+      const result = scoreDrivingMetrics({ ...metrics, distanceKm: 10 }, options);
+
+      expect(result.score).toBeNull();
+      expect(result.riskLevel).toBeNull();
+    });
+  });
+});
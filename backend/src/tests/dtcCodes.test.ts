@@ -0,0 +1,42 @@
+import { describeDtc, detectCodesCleared, normalizeDtc } from '../utils/dtcCodes';
+
+describe('dtcCodes', () => {
+  describe('normalizeDtc', () => {
+    it('should normalise valid codes', () => {
+      expect(normalizeDtc(' p0420 ')).toBe('P0420');
+      expect(normalizeDtc('U0100')).toBe('U0100');
+    });
+
+    it('should reject malformed codes', () => {
+      expect(normalizeDtc('P04')).toBeNull();
+      expect(normalizeDtc('X0420')).toBeNull();
+      expect(normalizeDtc('P4420')).toBeNull();
+      expect(normalizeDtc(420)).toBeNull();
+    });
+  });
+
+  describe('describeDtc', () => {
+    it('should use the bundled table for known codes', () => {
+      expect(describeDtc('P0420')).toBe('Catalyst System Efficiency Below Threshold (Bank 1)');
+      expect(describeDtc('p0301')).toBe('Cylinder 1 Misfire Detected');
+    });
+
+    it('should describe unknown codes from their structure', () => {
+      expect(describeDtc('P1234')).toBe('Manufacturer-specific powertrain fault (fuel and air metering, injector circuit)');
+      expect(describeDtc('C0035')).toBe('Generic chassis fault');
+    });
+  });
+
+  describe('detectCodesCleared', () => {
+    it('should trust the distance-since-cleared counter when available', () => {
+      expect(detectCodesCleared(1500, 3, 0, 0)).toBe(true);
+      expect(detectCodesCleared(1500, 1520, 2, 0)).toBe(false);
+    });
+
+    it('should treat all open codes vanishing at once as a reset', () => {
+      expect(detectCodesCleared(undefined, undefined, 2, 0, false)).toBe(true);
+      expect(detectCodesCleared(undefined, undefined, 2, 1, false)).toBe(false);
+      expect(detectCodesCleared(undefined, undefined, 0, 0, false)).toBe(false);
+    });
+  });
+});
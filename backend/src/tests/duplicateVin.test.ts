@@ -0,0 +1,105 @@
+import { Sighting, findImpossibleTravel, findNearDuplicateVins, hasValidCheckDigit, vinCheckDigit } from '../utils/duplicateVin';
+
+const options = { maxSpeedKmh: 250, minDistanceKm: 50, maxFixAccuracyM: 50 };
+const start = new Date('2026-06-01T08:00:00Z');
+const minutesLater = (minutes: number) => new Date(start.getTime() + minutes * 60 * 1000);
+
+const MUMBAI = { latitude: 19.076, longitude: 72.8777 };
+const PUNE = { latitude: 18.5204, longitude: 73.8567 }; // About 120 km from Mumbai
+const DELHI = { latitude: 28.6139, longitude: 77.209 };
+
+const sighting = (deviceId: string, place: { latitude: number; longitude: number }, minutes: number): Sighting => ({
+  deviceId,
+  ...place,
+  at: minutesLater(minutes)
+});
+
+describe('duplicateVin', () => {
+  describe('vinCheckDigit', () => {
+    it('should compute the ISO 3779 check digit', () => {
+      expect(vinCheckDigit('1M8GDM9AXKP042788')).toBe('X');
+      expect(vinCheckDigit('1HGCM82633A004352')).toBe('3');
+      expect(hasValidCheckDigit('1M8GDM9AXKP042788')).toBe(true);
+      expect(hasValidCheckDigit('1M8GDM9AXKP042789')).toBe(false);
+    });
+
+    it('should reject malformed VINs', () => {
+      expect(vinCheckDigit('1M8GDM9AXKP04278')).toBeNull();
+      expect(vinCheckDigit('1M8GDM9AXKP04278O')).toBeNull();
+    });
+  });
+
+  describe('findNearDuplicateVins', () => {
+    it('should pair VINs one character apart when one fails the check digit', () => {
+      expect(findNearDuplicateVins(['1M8GDM9AXKP042788', '1M8GDM9AXKP042789', '1HGCM82633A004352'])).toEqual([
+        { vins: ['1M8GDM9AXKP042788', '1M8GDM9AXKP042789'], position: 17, invalidCheckDigit: '1M8GDM9AXKP042789' }
+      ]);
+    });
+
+    it('should catch an altered check digit', () => {
+      expect(findNearDuplicateVins(['1M8GDM9AXKP042788', '1M8GDM9A1KP042788'])).toEqual([
+        { vins: ['1M8GDM9A1KP042788', '1M8GDM9AXKP042788'], position: 9, invalidCheckDigit: '1M8GDM9A1KP042788' }
+      ]);
+    });
+
+    it('should not pair sequential VINs of makers that do not use the check digit', () => {
+      const vins = ['WVWZZZ1JZXW000001', 'WVWZZZ1JZXW000002', 'WVWZZZ1JZXW000003', 'VF1RFB00X56000041', 'VF1RFB00X56000042'];
+
+      expect(vins.filter(hasValidCheckDigit)).toEqual([]);
+      expect(findNearDuplicateVins(vins)).toEqual([]);
+    });
+
+    it('should ignore VINs further apart and repeated VINs', () => {
+      expect(findNearDuplicateVins(['1M8GDM9AXKP042788', '1M8GDM9AXKP042788', '1M8GDM9AXKP042711'])).toEqual([]);
+    });
+  });
+
+  describe('findImpossibleTravel', () => {
+    it('should flag two devices reporting one identifier too far apart in too little time', () => {
+      const conflicts = findImpossibleTravel([
+        sighting('DEV_A', MUMBAI, 0),
+        sighting('DEV_B', DELHI, 30)
+      ], options);
+
+      expect(conflicts).toHaveLength(1);
+      expect(conflicts[0].from.deviceId).toBe('DEV_A');
+      expect(conflicts[0].to.deviceId).toBe('DEV_B');
+      expect(conflicts[0].distanceKm).toBeGreaterThan(1000);
+      expect(conflicts[0].speedKmh).toBeGreaterThan(2000);
+    });
+
+    it('should accept a drive that is possible in the time between sightings', () => {
+      expect(findImpossibleTravel([
+        sighting('DEV_A', MUMBAI, 0),
+        sighting('DEV_B', PUNE, 150)
+      ], options)).toEqual([]);
+    });
+
+    it('should ignore one device moving, nearby devices and unusable fixes', () => {
+      expect(findImpossibleTravel([
+        sighting('DEV_A', MUMBAI, 0),
+        sighting('DEV_A', DELHI, 10)
+      ], options)).toEqual([]);
+
+      expect(findImpossibleTravel([
+        sighting('DEV_A', MUMBAI, 0),
+        sighting('DEV_B', { latitude: 19.2, longitude: 72.9 }, 0)
+      ], options)).toEqual([]);
+
+      expect(findImpossibleTravel([
+        sighting('DEV_A', MUMBAI, 0),
+        sighting('DEV_B', { latitude: 0, longitude: 0 }, 5)
+      ], options)).toEqual([]);
+    });
+
+    it('should keep simultaneous sightings finite', () => {
+      const [conflict] = findImpossibleTravel([
+        sighting('DEV_A', MUMBAI, 0),
+        sighting('DEV_B', PUNE, 0)
+      ], options);
+
+      expect(conflict.hours).toBe(0);
+      expect(Number.isFinite(conflict.speedKmh)).toBe(true);
+    });
+  });
+});
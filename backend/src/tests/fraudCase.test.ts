@@ -0,0 +1,63 @@
+import { canTransition, trustAdjustmentFor } from '../utils/fraudCases';
+import { FraudCaseService } from '../services/core/fraudCase.service';
+import { ValidationError } from '../utils/errors';
+
+jest.mock('../utils/logger');
+
+describe('fraudCases', () => {
+  describe('canTransition', () => {
+    it('should allow closing open cases and reopening closed ones for investigation', () => {
+      expect(canTransition('active', 'investigating')).toBe(true);
+      expect(canTransition('investigating', 'false_positive')).toBe(true);
+      expect(canTransition('resolved', 'investigating')).toBe(true);
+      expect(canTransition('false_positive', 'investigating')).toBe(true);
+    });
+
+    it('should not jump between closed statuses or stay put', () => {
+      expect(canTransition('resolved', 'false_positive')).toBe(false);
+      expect(canTransition('false_positive', 'active')).toBe(false);
+      expect(canTransition('active', 'active')).toBe(false);
+    });
+  });
+
+  describe('trustAdjustmentFor', () => {
+    const penalty = { source: 'fraudEngine', previousScore: 90, newScore: 60 };
+
+    it('should give back the applied penalty for a false positive', () => {
+      expect(trustAdjustmentFor('false_positive', [penalty])).toBe(30);
+    });
+
+    it('should only give back what the clamped score actually lost', () => {
+      expect(trustAdjustmentFor('false_positive', [{ source: 'fraudEngine', previousScore: 10, newScore: 0 }])).toBe(10);
+    });
+
+    it('should not reverse twice and should re-apply the penalty on reopen', () => {
+      const reversal = { source: 'admin', previousScore: 55, newScore: 85 };
+
+      expect(trustAdjustmentFor('false_positive', [penalty, reversal])).toBe(0);
+      expect(trustAdjustmentFor('investigating', [penalty, reversal])).toBe(-30);
+      expect(trustAdjustmentFor('resolved', [penalty])).toBe(0);
+    });
+
+    it('should leave alerts without trust events alone', () => {
+      expect(trustAdjustmentFor('false_positive', [])).toBe(0);
+    });
+  });
+
+  describe('FraudCaseService input checks', () => {
+    it('should reject unknown queue filters before querying', async () => {
+      await expect(FraudCaseService.listQueue({ severity: 'urgent' })).rejects.toThrow(ValidationError);
+      await expect(FraudCaseService.listQueue({ sort: 'vin' })).rejects.toThrow(ValidationError);
+    });
+
+    it('should require a note to close a case and a known status', async () => {
+      await expect(FraudCaseService.changeStatus('a1', 'false_positive', '  ')).rejects.toThrow('A note is required to mark an alert false_positive');
+      await expect(FraudCaseService.changeStatus('a1', 'closed', 'done')).rejects.toThrow(ValidationError);
+    });
+
+    it('should only accept http(s) evidence links', async () => {
+      await expect(FraudCaseService.addEvidence('a1', ['ftp://files/report.pdf'])).rejects.toThrow(ValidationError);
+      await expect(FraudCaseService.addEvidence('a1', [])).rejects.toThrow(ValidationError);
+    });
+  });
+});
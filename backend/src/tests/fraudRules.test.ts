@@ -0,0 +1,185 @@
+import { FRAUD_RULES, FraudRuleConfig, evaluateFraudRules } from '../utils/fraudRules';
+import { FraudRulesService } from '../services/core/fraudRules.service';
+import { TrustScoreService } from '../services/core/trustScore.service';
+import { FraudAlert } from '../models/core/FraudAlert.model';
+import Vehicle from '../models/core/Vehicle.model';
+import { ValidationError } from '../utils/errors';
+
+jest.mock('../utils/logger');
+jest.mock('../services/core/trustScore.service');
+jest.mock('../models/core/FraudAlert.model', () => ({
+  FraudAlert: { exists: jest.fn(), create: jest.fn() }
+}));
+jest.mock('../models/core/Vehicle.model', () => ({
+  __esModule: true,
+  default: { findById: jest.fn() }
+}));
+
+describe('fraudRules', () => {
+  const defaults = (): FraudRuleConfig[] =>
+    FRAUD_RULES.map(rule => ({ key: rule.key, version: 1, ...rule.defaults, thresholds: { ...rule.defaults.thresholds } }));
+
+  const withRule = (key: string, change: Partial<FraudRuleConfig>): FraudRuleConfig[] =>
+    defaults().map(rule => (rule.key === key ? { ...rule, ...change } : rule));
+
+  describe('evaluateFraudRules', () => {
+    it('should block a rollback from every source and record the rule version', () => {
+      for (const source of ['device', 'manual', 'blockchain', 'batch'] as const) {
+        const result = evaluateFraudRules(
+          { source, reportedMileage: 45000, previousMileage: 50000 },
+          withRule('odometer_rollback', { version: 4 })
+        );
+
+        expect(result).toMatchObject({ flagged: true, blocked: true, severity: 'high', trustImpact: -30 });
+        expect(result.matches).toEqual([expect.objectContaining({
+          ruleKey: 'odometer_rollback',
+          ruleVersion: 4,
+          reason: 'Odometer rollback: 45000 < 50000 (5000 km decrease)'
+        })]);
+        expect(result.rules).toContainEqual({ key: 'odometer_rollback', version: 4 });
+      }
+    });
+
+    it('should only evaluate rules enabled for the source', () => {
+      const device = evaluateFraudRules({ source: 'device', reportedMileage: 80000, previousMileage: 50000 }, defaults());
+      const manual = evaluateFraudRules({ source: 'manual', reportedMileage: 80000, previousMileage: 50000 }, defaults());
+
+      expect(device.flagged).toBe(false);
+      expect(device.rules.map(rule => rule.key)).toEqual(['odometer_rollback']);
+      expect(manual.matches.map(match => match.ruleKey)).toEqual(['mileage_jump']);
+      expect(manual.blocked).toBe(false);
+    });
+
+    it('should measure daily distance in km and skip short intervals', () => {
+      const input = {
+        source: 'manual' as const,
+        reportedMileage: 11000,
+        previousMileage: 10000,
+        previousRecordedAt: '2026-03-01T00:00:00Z',
+        recordedAt: '2026-03-03T00:00:00Z'
+      };
+
+      // 500 km/day: high but not unrealistic
+      expect(evaluateFraudRules(input, defaults()).matches.map(match => match.ruleKey)).toEqual(['high_daily_distance']);
+
+      // The same distance in one evening is a long drive, not a daily rate
+      const evening = evaluateFraudRules({ ...input, reportedMileage: 10400, recordedAt: '2026-03-01T06:00:00Z' }, defaults());
+      expect(evening.flagged).toBe(false);
+    });
+
+    it('should use admin thresholds and skip disabled rules', () => {
+      const input = { source: 'device' as const, reportedMileage: 49990, previousMileage: 50000 };
+
+      expect(evaluateFraudRules(input, withRule('odometer_rollback', { thresholds: { toleranceKm: 20 } })).flagged).toBe(false);
+      expect(evaluateFraudRules(input, withRule('odometer_rollback', { enabled: false })).rules).toEqual([]);
+    });
+
+    it('should add up trust impact and keep the worst severity', () => {
+      const result = evaluateFraudRules({
+        source: 'manual',
+        reportedMileage: 40000,
+        previousMileage: 10000,
+        previousRecordedAt: '2026-03-01T00:00:00Z',
+        recordedAt: '2026-03-03T00:00:00Z'
+      }, defaults());
+
+      expect(result.matches.map(match => match.ruleKey)).toEqual(['unrealistic_daily_distance', 'high_daily_distance', 'mileage_jump']);
+      expect(result).toMatchObject({ severity: 'high', trustImpact: -35, blocked: false });
+    });
+
+    it('should reject batches that do not start where the last record ended', () => {
+      const result = evaluateFraudRules(
+        { source: 'batch', reportedMileage: 50400, batchStartMileage: 50300, previousMileage: 50000 },
+        defaults()
+      );
+
+      expect(result.blocked).toBe(true);
+      expect(result.matches[0].reason).toBe('Large gap between last recorded mileage (50000) and batch start (50300)');
+    });
+  });
+
+  describe('FraudRulesService.applyDecision', () => {
+    const vehicleId = '64b7f0c2a1b2c3d4e5f60718';
+    const ownerId = '64b7f0c2a1b2c3d4e5f60719';
+
+    const decide = (key: string, input: Parameters<typeof evaluateFraudRules>[0]) => ({
+      ...evaluateFraudRules(input, defaults().map(rule => (rule.key === key ? rule : { ...rule, enabled: false }))),
+      decisionId: 'decision-1'
+    });
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      (Vehicle.findById as jest.Mock).mockReturnValue({ select: jest.fn().mockResolvedValue({ _id: vehicleId, ownerId }) });
+      (FraudAlert.exists as jest.Mock).mockResolvedValue(null);
+      (FraudAlert.create as jest.Mock).mockImplementation(async alert => ({ ...alert, _id: 'alert-1' }));
+      (TrustScoreService.updateTrustScore as jest.Mock).mockResolvedValue({ success: true, previousScore: 100, newScore: 90, eventId: 'event-1' });
+    });
+
+    it('should charge a flagged reading that was not blocked and link it to the alert and decision', async () => {
+      const decision = decide('high_daily_distance', {
+        source: 'manual',
+        reportedMileage: 10500,
+        previousMileage: 10000,
+        previousRecordedAt: '2026-10-18T00:00:00.000Z',
+        recordedAt: '2026-10-19T00:00:00.000Z'
+      });
+      expect(decision).toMatchObject({ flagged: true, blocked: false });
+
+      const result = await FraudRulesService.applyDecision(decision, {
+        vehicleId,
+        subjectType: 'mileage_history',
+        subjectId: 'record-1',
+        details: { mileageHistoryId: 'record-1' }
+      });
+
+      expect(result).toEqual({ alertId: 'alert-1', trustEventId: 'event-1' });
+      expect(FraudAlert.create).toHaveBeenCalledWith(expect.objectContaining({
+        alertType: 'other',
+        decisionId: 'decision-1',
+        reportedBy: ownerId,
+        fingerprint: 'fraud_decision:mileage_history:record-1'
+      }));
+      expect(TrustScoreService.updateTrustScore).toHaveBeenCalledWith(expect.objectContaining({
+        change: decision.trustImpact,
+        source: 'fraudEngine',
+        details: expect.objectContaining({ mileageHistoryId: 'record-1', fraudAlertId: 'alert-1', fraudDecisionId: 'decision-1' })
+      }));
+    });
+
+    it('should not apply a decision twice for the same subject or one that fired nothing', async () => {
+      (FraudAlert.exists as jest.Mock).mockResolvedValue({ _id: 'alert-0' });
+      const rollback = decide('odometer_rollback', { source: 'batch', reportedMileage: 45000, previousMileage: 50000 });
+
+      expect(await FraudRulesService.applyDecision(rollback, { vehicleId, subjectType: 'batch', subjectId: 'batch-1' })).toEqual({});
+      expect(await FraudRulesService.applyDecision(
+        decide('odometer_rollback', { source: 'batch', reportedMileage: 50010, previousMileage: 50000 }),
+        { vehicleId }
+      )).toEqual({});
+      expect(FraudAlert.create).not.toHaveBeenCalled();
+      expect(TrustScoreService.updateTrustScore).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('FraudRulesService.validate', () => {
+    const rollback = defaults()[0];
+
+    it('should merge changes over the current version', () => {
+      const settings = FraudRulesService.validate('odometer_rollback', { severity: 'critical', thresholds: { toleranceKm: 2 } }, rollback);
+
+      expect(settings).toEqual({
+        enabled: true,
+        severity: 'critical',
+        trustImpact: -30,
+        blocking: true,
+        sources: ['device', 'manual', 'blockchain', 'batch'],
+        thresholds: { toleranceKm: 2 }
+      });
+    });
+
+    it('should reject unknown thresholds, positive trust impact and unknown sources', () => {
+      expect(() => FraudRulesService.validate('odometer_rollback', { thresholds: { maxGapKm: 5 } }, rollback)).toThrow(ValidationError);
+      expect(() => FraudRulesService.validate('odometer_rollback', { trustImpact: 10 }, rollback)).toThrow(ValidationError);
+      expect(() => FraudRulesService.validate('odometer_rollback', { sources: ['sms'] }, rollback)).toThrow(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { assessDivergence, haversineKm, isUsableFix, segmentDistanceKm } from '../utils/gpsOdometer';
+
+describe('gpsOdometer', () => {
+  const options = { tolerancePct: 20, routeFactor: 1.5 };
+
+  describe('haversineKm', () => {
+    it('should measure great-circle distance', () => {
+      // One degree of latitude is ~111.2 km
+      expect(haversineKm({ latitude: 10, longitude: 20 }, { latitude: 11, longitude: 20 })).toBeCloseTo(111.19, 1);
+    });
+
+    it('should be zero for the same point', () => {
+      expect(haversineKm({ latitude: 12.97, longitude: 77.59 }, { latitude: 12.97, longitude: 77.59 })).toBe(0);
+    });
+  });
+
+  describe('isUsableFix', () => {
+    it('should accept accurate fixes', () => {
+      expect(isUsableFix({ latitude: 12.97, longitude: 77.59, accuracy: 8 }, 50)).toBe(true);
+      expect(isUsableFix({ latitude: 12.97, longitude: 77.59 }, 50)).toBe(true);
+    });
+
+    it('should reject missing, null-island and inaccurate fixes', () => {
+      expect(isUsableFix(undefined, 50)).toBe(false);
+      expect(isUsableFix({ latitude: 0, longitude: 0 }, 50)).toBe(false);
+      expect(isUsableFix({ latitude: 12.97, longitude: 77.59, accuracy: 400 }, 50)).toBe(false);
+    });
+  });
+
+  describe('segmentDistanceKm', () => {
+    it('should treat movement within the accuracy as jitter', () => {
+      const from = { latitude: 12.97, longitude: 77.59, accuracy: 30 };
+      const to = { latitude: 12.9702, longitude: 77.59, accuracy: 30 };
+      expect(segmentDistanceKm(from, to)).toBe(0);
+    });
+
+    it('should count real movement', () => {
+      const from = { latitude: 12.97, longitude: 77.59, accuracy: 10 };
+      const to = { latitude: 12.98, longitude: 77.59, accuracy: 10 };
+      expect(segmentDistanceKm(from, to)).toBeCloseTo(1.11, 2);
+    });
+  });
+
+  describe('assessDivergence', () => {
+    it('should accept an odometer within the route factor of GPS', () => {
+      expect(assessDivergence(20, 20, options).severity).toBeNull();
+      expect(assessDivergence(20, 28, options).severity).toBeNull();
+      expect(assessDivergence(25, 22, options).severity).toBeNull();
+    });
+
+    it('should grade an odometer falling behind GPS', () => {
+      expect(assessDivergence(30, 21, options)).toEqual({ direction: 'under', divergencePct: 30, severity: 'low' });
+      expect(assessDivergence(30, 16, options).severity).toBe('medium');
+      expect(assessDivergence(30, 10, options).severity).toBe('high');
+      expect(assessDivergence(30, 0, options).severity).toBe('critical');
+    });
+
+    it('should flag an odometer running far ahead of GPS', () => {
+      expect(assessDivergence(10, 20, options)).toEqual({ direction: 'over', divergencePct: 33.3, severity: 'low' });
+      expect(assessDivergence(0, 30, options)).toEqual({ direction: 'over', divergencePct: 100, severity: 'critical' });
+    });
+  });
+});
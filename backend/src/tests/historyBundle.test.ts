@@ -0,0 +1,159 @@
+import { MerkleTreeBuilder } from '../utils/merkle';
+import {
+  BundleDay,
+  HISTORY_BUNDLE_FORMAT,
+  HISTORY_BUNDLE_VERSION,
+  UnsignedHistoryBundle,
+  bundlePublicKey,
+  canonicalJson,
+  signHistoryBundle,
+  verifyHistoryBundle
+} from '../utils/historyBundle';
+
+const platformSeed = Buffer.alloc(32, 7);
+const otherSeed = Buffer.alloc(32, 8);
+const vehicleId = '64b7f0c2a1b2c3d4e5f60718';
+
+const buildDay = (date: string, distances: number[]): BundleDay => {
+  const segments = distances.map((distance, i) => ({
+    startTime: new Date(`${date}T0${i}:00:00.000Z`),
+    endTime: new Date(`${date}T0${i}:30:00.000Z`),
+    distance
+  }));
+  const tree = MerkleTreeBuilder.buildTree(segments);
+
+  return {
+    date,
+    status: 'anchored',
+    merkleRoot: tree.root.hash,
+    solanaTx: `tx-${date}`,
+    arweaveTx: null,
+    totalDistance: distances.reduce((sum, distance) => sum + distance, 0),
+    segments: tree.leaves.map(leaf => leaf.data)
+  };
+};
+
+const anchorOf = (day: BundleDay, memo: Record<string, any> = {}) => ({
+  signature: day.solanaTx!,
+  slot: 1,
+  blockTime: null,
+  signer: 'owner-wallet',
+  memo: JSON.stringify({ action: 'ANCHOR_TELEMETRY_BATCH', vehicleId, date: day.date, merkleRoot: day.merkleRoot, ...memo }),
+  confirmationStatus: 'finalized',
+  err: null
+});
+
+const unsignedBundle = (days: BundleDay[], ledger = days.map(day => anchorOf(day))): UnsignedHistoryBundle => ({
+  format: HISTORY_BUNDLE_FORMAT,
+  version: HISTORY_BUNDLE_VERSION,
+  network: 'local',
+  report: {
+    vehicleId,
+    vin: '1HGCM82633A004352',
+    make: 'Honda',
+    model: 'Accord',
+    year: 2020,
+    currentMileage: 40015,
+    trustScore: 100,
+    from: null,
+    to: null,
+    daysCount: days.length,
+    anchoredDays: days.length,
+    totalDistance: days.reduce((sum, day) => sum + day.totalDistance, 0),
+    generatedAt: '2026-10-19T00:00:00.000Z'
+  },
+  anchorSigners: ['owner-wallet'],
+  days,
+  ledger
+});
+
+describe('history bundle verification', () => {
+  const days = [buildDay('2026-10-01', [5, 6, 7]), buildDay('2026-10-02', [12])];
+  const publicKey = bundlePublicKey(platformSeed);
+
+  it('should pass a signed bundle day by day against the pinned key', () => {
+    const bundle = signHistoryBundle(unsignedBundle(days), platformSeed);
+
+    const report = verifyHistoryBundle(JSON.parse(JSON.stringify(bundle)), { publicKey });
+
+    expect(report.passed).toBe(true);
+    expect(report.signature).toEqual({ valid: true, publicKey, pinned: true, reasons: [] });
+    expect(report.days.map(day => [day.date, day.passed, day.computedRoot])).toEqual([
+      ['2026-10-01', true, days[0].merkleRoot],
+      ['2026-10-02', true, days[1].merkleRoot]
+    ]);
+  });
+
+  it('should reject a bundle edited after signing', () => {
+    const bundle = signHistoryBundle(unsignedBundle(days), platformSeed);
+    bundle.report.currentMileage = 1000;
+
+    const report = verifyHistoryBundle(bundle, { publicKey });
+
+    expect(report.passed).toBe(false);
+    expect(report.signature.reasons).toEqual(['Signature does not match the bundle contents']);
+    expect(report.days.every(day => day.passed)).toBe(true);
+  });
+
+  it('should reject a bundle signed by another key than the pinned one', () => {
+    const bundle = signHistoryBundle(unsignedBundle(days), otherSeed);
+
+    expect(verifyHistoryBundle(bundle).signature.valid).toBe(true);
+    expect(verifyHistoryBundle(bundle, { publicKey }).signature.reasons)
+      .toEqual(['Bundle was signed by a different key than the expected platform key']);
+  });
+
+  it('should fail only the day whose leaves no longer hash to the anchored root', () => {
+    const forged = { ...days[0], segments: days[0].segments.map(segment => ({ ...segment, distance: segment.distance + 100 })) };
+    const bundle = signHistoryBundle(unsignedBundle([forged, days[1]], days.map(day => anchorOf(day))), platformSeed);
+
+    const report = verifyHistoryBundle(bundle, { publicKey });
+
+    expect(report.passed).toBe(false);
+    expect(report.reasons).toEqual(['1 of 2 day(s) failed']);
+    expect(report.days[0].reasons).toEqual([
+      'Recomputed root does not match the exported Merkle root',
+      'Recomputed root does not match the anchored root'
+    ]);
+    expect(report.days[1].passed).toBe(true);
+  });
+
+  it('should fail days anchored by a wallet that is not an anchor wallet of the vehicle', () => {
+    const ledger = [{ ...anchorOf(days[0]), signer: 'someone-else' }, anchorOf(days[1], { vehicleId: 'another-vehicle' })];
+    const bundle = signHistoryBundle(unsignedBundle(days, ledger), platformSeed);
+
+    const report = verifyHistoryBundle(bundle, { publicKey });
+
+    expect(report.days[0].reasons).toEqual(['Anchor was not signed by an anchor wallet of this vehicle']);
+    expect(report.days[1].reasons).toEqual(['Anchor memo is for a different vehicle']);
+  });
+
+  it('should fail days whose anchor is missing, unconfirmed or for another date', () => {
+    const ledger = [
+      { ...anchorOf(days[0], { date: '2026-09-30' }), confirmationStatus: 'processed' }
+    ];
+    const bundle = signHistoryBundle(unsignedBundle(days, ledger), platformSeed);
+
+    const report = verifyHistoryBundle(bundle, { publicKey });
+
+    expect(report.days[0].reasons).toEqual([
+      'Anchor transaction is not confirmed',
+      'Anchor memo is for 2026-09-30, not 2026-10-01'
+    ]);
+    expect(report.days[1].reasons).toEqual(['Anchor transaction is missing from the ledger snapshot']);
+  });
+
+  it('should hash leaves the same way regardless of key order', () => {
+    const leaf = days[0].segments[0];
+    const reordered = { rawDataCID: leaf.rawDataCID, distance: leaf.distance, endTime: leaf.endTime, startTime: leaf.startTime, index: leaf.index };
+
+    expect(MerkleTreeBuilder.hashSegment(reordered)).toBe(MerkleTreeBuilder.hashSegment(leaf));
+    expect(MerkleTreeBuilder.rootFromLeaves(days[0].segments)).toBe(days[0].merkleRoot);
+    expect(canonicalJson({ b: [2, { d: 1, c: undefined }], a: null })).toBe('{"a":null,"b":[2,{"d":1}]}');
+  });
+
+  it('should refuse files that are not history bundles', () => {
+    expect(() => verifyHistoryBundle({ days: [] })).toThrow('Not a vehicle history bundle');
+    expect(() => verifyHistoryBundle({ format: HISTORY_BUNDLE_FORMAT, version: 2 })).toThrow('Unsupported history bundle version 2');
+  });
+});
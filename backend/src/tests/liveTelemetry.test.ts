@@ -0,0 +1,130 @@
+import { LiveTelemetryService, LIVE_TELEMETRY_EVENT } from '../services/core/liveTelemetry.service';
+import { getSocketServer, joinUserRoom } from '../utils/socketEmitter';
+import { JWTService } from '../services/core/jwt.service';
+
+// Mock dependencies
+jest.mock('../utils/socketEmitter', () => ({
+  ...jest.requireActual('../utils/socketEmitter'),
+  getSocketServer: jest.fn()
+}));
+jest.mock('../services/core/jwt.service');
+jest.mock('../utils/logger');
+jest.mock('../config/environment', () => ({
+  config: {
+    LIVE_TELEMETRY_THROTTLE_MS: 1000,
+    LIVE_TELEMETRY_MAX_SUBSCRIPTIONS: 2
+  }
+}));
+
+describe('LiveTelemetryService', () => {
+  const emit = jest.fn();
+  const rooms = new Map<string, Set<string>>();
+  const io = {
+    sockets: { adapter: { rooms } },
+    to: jest.fn(() => ({ emit }))
+  };
+
+  const reading = (speed: number) => ({
+    deviceID: 'LIVE_DEVICE',
+    status: 'obd_connected',
+    obd: { speed, rpm: 2100, mileage: 42000 },
+    location: { latitude: 12.97, longitude: 77.59 },
+    deviceHealth: { batteryVoltage: 12.6 },
+    validation: { validationStatus: 'VALID' },
+    rawData: { receivedAt: new Date('2026-03-01T08:00:00Z') }
+  }) as any;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    emit.mockClear();
+    io.to.mockClear();
+    rooms.clear();
+    (getSocketServer as jest.Mock).mockReturnValue(io);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('publish', () => {
+    it('should skip vehicles nobody is watching', () => {
+      LiveTelemetryService.publish('vehicle-a', reading(40));
+
+      expect(emit).not.toHaveBeenCalled();
+    });
+
+    it('should send the first reading and coalesce the rest of the window', () => {
+      rooms.set('vehicle_vehicle-b', new Set(['socket-1']));
+
+      LiveTelemetryService.publish('vehicle-b', reading(40));
+      LiveTelemetryService.publish('vehicle-b', reading(45));
+      LiveTelemetryService.publish('vehicle-b', reading(50));
+
+      expect(io.to).toHaveBeenCalledWith('vehicle_vehicle-b');
+      expect(emit).toHaveBeenCalledTimes(1);
+      expect(emit).toHaveBeenLastCalledWith(LIVE_TELEMETRY_EVENT, expect.objectContaining({
+        vehicleId: 'vehicle-b',
+        speed: 40,
+        rpm: 2100,
+        batteryVoltage: 12.6,
+        location: { latitude: 12.97, longitude: 77.59, accuracy: undefined }
+      }));
+
+      jest.advanceTimersByTime(1000);
+
+      expect(emit).toHaveBeenCalledTimes(2);
+      expect(emit).toHaveBeenLastCalledWith(LIVE_TELEMETRY_EVENT, expect.objectContaining({ speed: 50 }));
+    });
+  });
+
+  describe('subscribe', () => {
+    const socket = (auth: Record<string, unknown> = {}) => ({
+      id: 'socket-1',
+      handshake: { auth },
+      rooms: new Set(['socket-1']),
+      join: jest.fn(),
+      emit: jest.fn()
+    }) as any;
+
+    it('should reject malformed vehicle IDs', async () => {
+      await expect(LiveTelemetryService.subscribe(socket({ token: 'x' }), 'not-an-id'))
+        .rejects.toThrow('Invalid vehicle ID');
+    });
+
+    it('should require a token in the handshake', async () => {
+      await expect(LiveTelemetryService.subscribe(socket(), '64b7f0c2a1b2c3d4e5f60718'))
+        .rejects.toThrow('Access token is required');
+    });
+  });
+
+  describe('join_user', () => {
+    const socket = () => ({
+      id: 'socket-2',
+      handshake: { auth: { token: 'user-token' } },
+      join: jest.fn((room: string) => rooms.set(room, new Set([...(rooms.get(room) || []), 'socket-2'])))
+    }) as any;
+
+    beforeEach(() => {
+      (JWTService.verifyAccessToken as jest.Mock).mockReturnValue({ userId: 'user-1' });
+    });
+
+    it('should not let join_user reach a vehicle stream', () => {
+      const client = socket();
+
+      expect(joinUserRoom(client, 'vehicle_vehicle-x')).toBe(false);
+      LiveTelemetryService.publish('vehicle-x', reading(40));
+
+      expect(client.join).not.toHaveBeenCalled();
+      expect(emit).not.toHaveBeenCalledWith(LIVE_TELEMETRY_EVENT, expect.anything());
+    });
+
+    it('should only join the room of the token user', () => {
+      const client = socket();
+
+      expect(joinUserRoom(client, 'user-2')).toBe(false);
+      expect(joinUserRoom(client, 'user-1')).toBe(true);
+      expect(client.join).toHaveBeenCalledTimes(1);
+      expect(client.join).toHaveBeenCalledWith('user-1');
+    });
+  });
+});
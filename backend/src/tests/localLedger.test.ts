@@ -0,0 +1,126 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Keypair } from '@solana/web3.js';
+import { LocalLedgerAdapter } from '../services/blockchain/adapters/localLedger.adapter';
+import { LocalStorageAdapter } from '../services/blockchain/adapters/localStorage.adapter';
+
+// Fixed signers so signatures are the same on every run
+const owner = Keypair.fromSeed(new Uint8Array(32).fill(1));
+const service = Keypair.fromSeed(new Uint8Array(32).fill(2));
+
+const tempDir = () => fs.mkdtempSync(path.join(os.tmpdir(), 'ledger-test-'));
+
+describe('local adapters', () => {
+  const dirs: string[] = [];
+  const newDir = () => {
+    const dir = tempDir();
+    dirs.push(dir);
+    return dir;
+  };
+
+  afterAll(() => {
+    dirs.forEach(dir => fs.rmSync(dir, { recursive: true, force: true }));
+  });
+
+  describe('LocalLedgerAdapter', () => {
+    it('should give the same signatures when the same memos are replayed', async () => {
+      const replay = async () => {
+        const ledger = new LocalLedgerAdapter(newDir());
+        const first = await ledger.submitMemo('{"action":"REGISTER_VEHICLE"}', owner);
+        const second = await ledger.submitMemo('{"action":"INSTALL"}', service);
+        return [first.signature, second.signature];
+      };
+
+      const [a, b] = await Promise.all([replay(), replay()]);
+
+      expect(a).toEqual(b);
+      expect(a[0]).not.toBe(a[1]);
+      expect(a[0]).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should return the memo of a submitted transaction as finalized', async () => {
+      const ledger = new LocalLedgerAdapter(newDir());
+      const receipt = await ledger.submitMemo(JSON.stringify({ action: 'ANCHOR_TELEMETRY_BATCH', merkleRoot: 'abc' }), owner);
+
+      const transaction = await ledger.getTransaction(receipt.signature);
+
+      expect(receipt).toMatchObject({ slot: 1, network: 'local' });
+      expect(transaction).toMatchObject({
+        signature: receipt.signature,
+        signer: owner.publicKey.toBase58(),
+        memoData: { action: 'ANCHOR_TELEMETRY_BATCH', merkleRoot: 'abc' },
+        confirmationStatus: 'finalized',
+        err: null
+      });
+      expect(await ledger.getConfirmationStatus(receipt.signature)).toBe('finalized');
+      expect(await ledger.getTransaction('0'.repeat(64))).toBeNull();
+      expect(await ledger.getConfirmationStatus('0'.repeat(64))).toBeNull();
+    });
+
+    it('should chain concurrent submissions and read them back from disk', async () => {
+      const dir = newDir();
+      const ledger = new LocalLedgerAdapter(dir);
+      const receipts = await Promise.all([1, 2, 3].map(n => ledger.submitMemo(`{"n":${n}}`, owner)));
+
+      expect(receipts.map(r => r.slot).sort()).toEqual([1, 2, 3]);
+
+      const reopened = new LocalLedgerAdapter(dir);
+      const history = await reopened.getSignerTransactions(owner.publicKey.toBase58(), 10);
+
+      expect(history.map(t => t.slot)).toEqual([3, 2, 1]);
+      expect(await reopened.getStatus()).toEqual({ network: 'local', blockHeight: 3, isHealthy: true });
+    });
+
+    it('should credit airdrops to the recipient balance', async () => {
+      const ledger = new LocalLedgerAdapter(newDir());
+      await ledger.requestAirdrop(owner.publicKey.toBase58(), 0.1);
+      await ledger.requestAirdrop(owner.publicKey.toBase58(), 0.2);
+
+      expect(await ledger.getBalance(owner.publicKey.toBase58())).toBeCloseTo(0.3);
+      expect(await ledger.getBalance(service.publicKey.toBase58())).toBe(0);
+    });
+
+    it('should refuse a memo too large for a transaction', async () => {
+      const ledger = new LocalLedgerAdapter(newDir());
+
+      await expect(ledger.submitMemo('x'.repeat(2000), owner)).rejects.toThrow('exceeds the 1232 byte transaction limit');
+    });
+  });
+
+  describe('LocalStorageAdapter', () => {
+    const tags = [
+      { name: 'App-Name', value: 'Trivexachain' },
+      { name: 'Document-Type', value: 'telemetry_batch' }
+    ];
+
+    it('should address uploads by their content', async () => {
+      const storage = new LocalStorageAdapter(newDir());
+      const first = await storage.upload(Buffer.from('{"merkleRoot":"abc"}'), tags);
+      const again = await storage.upload(Buffer.from('{"merkleRoot":"abc"}'), tags);
+
+      expect(first.id).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(again.id).toBe(first.id);
+      expect(first).toMatchObject({ size: 20, cost: 0, url: `local://storage/${first.id}` });
+      expect((await storage.getData(first.id)).toString()).toBe('{"merkleRoot":"abc"}');
+    });
+
+    it('should verify, describe and find uploads', async () => {
+      const storage = new LocalStorageAdapter(newDir());
+      const batch = await storage.upload(Buffer.from('batch'), tags);
+      await storage.upload(Buffer.from('document'), [{ name: 'App-Name', value: 'Trivexachain' }]);
+
+      expect(await storage.verify(batch.id)).toEqual({ exists: true, confirmed: true, status: 200, blockHeight: 1 });
+      expect((await storage.getMetadata(batch.id)).tags).toEqual(tags);
+      expect(await storage.search([{ name: 'Document-Type', value: 'telemetry_batch' }], 10)).toEqual([batch.id]);
+      expect(await storage.search([{ name: 'App-Name', value: 'Trivexachain' }], 10)).toHaveLength(2);
+    });
+
+    it('should not find ids outside the store', async () => {
+      const storage = new LocalStorageAdapter(newDir());
+
+      expect(await storage.verify('missing')).toEqual({ exists: false, confirmed: false, status: 404 });
+      await expect(storage.getData('../../etc/passwd')).rejects.toThrow('not found in local storage');
+    });
+  });
+});
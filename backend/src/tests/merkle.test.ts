@@ -41,7 +41,7 @@ describe('MerkleTreeBuilder', () => {
     });
 
     it('should produce different roots for different segments', () => {
-      const modifiedSegments = [...sampleSegments];
+      const modifiedSegments = sampleSegments.map(segment => ({ ...segment }));
       modifiedSegments[0].distance = 20.0; // Change distance
       
       const tree1 = MerkleTreeBuilder.buildTree(sampleSegments);
@@ -71,7 +71,7 @@ describe('MerkleTreeBuilder', () => {
       const tree = MerkleTreeBuilder.buildTree(sampleSegments);
       const segmentIndex = 1;
       const proof = MerkleTreeBuilder.generateProof(tree, segmentIndex);
-      const segment = sampleSegments[segmentIndex];
+      const segment = tree.leaves[segmentIndex].data;
       
       const isValid = MerkleTreeBuilder.verifySegment(segment, tree.root.hash, proof);
       expect(isValid).toBe(true);
@@ -81,7 +81,7 @@ describe('MerkleTreeBuilder', () => {
       const tree = MerkleTreeBuilder.buildTree(sampleSegments);
       const segmentIndex = 1;
       const proof = MerkleTreeBuilder.generateProof(tree, segmentIndex);
-      const invalidSegment = { ...sampleSegments[segmentIndex], distance: 999 }; // Wrong distance
+      const invalidSegment = { ...tree.leaves[segmentIndex].data, distance: 999 }; // Wrong distance
       
       const isValid = MerkleTreeBuilder.verifySegment(invalidSegment, tree.root.hash, proof);
       expect(isValid).toBe(false);
@@ -108,6 +108,22 @@ describe('MerkleTreeBuilder', () => {
       }
     });
 
+    it('should prove every leaf of odd and even sized trees', () => {
+      for (let count = 1; count <= 7; count++) {
+        const segments = Array.from({ length: count }, (_, i) => ({
+          startTime: new Date(Date.UTC(2025, 0, 1, i)),
+          endTime: new Date(Date.UTC(2025, 0, 1, i, 30)),
+          distance: 10 + i
+        }));
+        const tree = MerkleTreeBuilder.buildTree(segments);
+
+        tree.leaves.forEach((leaf, i) => {
+          const proof = MerkleTreeBuilder.generateProof(tree, i);
+          expect(MerkleTreeBuilder.computeRoot(leaf.data, proof)).toBe(tree.root.hash);
+        });
+      }
+    });
+
     it('should throw error for invalid segment index', () => {
       const tree = MerkleTreeBuilder.buildTree(sampleSegments);
       
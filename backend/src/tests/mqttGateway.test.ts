@@ -0,0 +1,203 @@
+import { createServer, Server } from 'net';
+import { AddressInfo } from 'net';
+import { createBroker } from 'aedes';
+import mqtt, { MqttClient } from 'mqtt';
+import { MqttGatewayService } from '../services/core/mqttGateway.service';
+import { DeviceAuthService } from '../services/core/deviceAuth.service';
+import { DeviceCommandService } from '../services/core/deviceCommand.service';
+import { DeviceController } from '../controllers/device/device.controller';
+import { Device } from '../models/core/Device.model';
+import { AuthenticationError } from '../utils/errors';
+
+// Mock dependencies
+jest.mock('../services/core/deviceAuth.service', () => ({
+  DeviceAuthService: { verifyRequest: jest.fn() }
+}));
+jest.mock('../services/core/deviceCommand.service', () => ({
+  DeviceCommandService: { exchange: jest.fn() }
+}));
+jest.mock('../controllers/device/device.controller', () => ({
+  DeviceController: { processStatusMessage: jest.fn(), processBufferedUpload: jest.fn() }
+}));
+jest.mock('../models/core/Device.model', () => ({
+  Device: { findOne: jest.fn(), updateOne: jest.fn() }
+}));
+jest.mock('../utils/logger');
+jest.mock('../config/environment', () => ({
+  config: {
+    DEVICE_AUTH_ENFORCED: true,
+    MQTT_URL: 'mqtt://localhost:1883',
+    MQTT_CLIENT_ID: 'gateway-test',
+    MQTT_TOPIC_PREFIX: 'test/devices'
+  }
+}));
+
+const PREFIX = 'test/devices';
+
+const waitFor = async (condition: () => boolean, timeoutMs = 3000): Promise<void> => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+};
+
+const envelope = (body: object, nonce = 'nonce-1') => JSON.stringify({
+  timestamp: Math.floor(Date.now() / 1000),
+  nonce,
+  signature: 'ab'.repeat(32),
+  body: JSON.stringify(body)
+});
+
+describe('MqttGatewayService', () => {
+  const broker = createBroker();
+  let server: Server;
+  let url: string;
+  let device: MqttClient;
+  const acks: any[] = [];
+  const deviceRecord = { _id: 'device123', deviceID: 'OBD3001' };
+
+  beforeAll(async () => {
+    server = createServer(broker.handle);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `mqtt://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    await MqttGatewayService.start({ url, topicPrefix: PREFIX, clientId: 'gateway-test' });
+
+    device = mqtt.connect(url, {
+      clientId: 'OBD3001',
+      will: { topic: `${PREFIX}/OBD3001/presence`, payload: Buffer.from('offline'), qos: 1, retain: true }
+    });
+    await new Promise<void>(resolve => device.once('connect', () => resolve()));
+    device.on('message', (_topic, payload) => acks.push(JSON.parse(payload.toString())));
+    await device.subscribeAsync(`${PREFIX}/OBD3001/ack`, { qos: 1 });
+  });
+
+  afterAll(async () => {
+    await device.endAsync(true);
+    await MqttGatewayService.stop();
+    await new Promise<void>(resolve => broker.close(() => resolve()));
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    acks.length = 0;
+    jest.clearAllMocks();
+    (DeviceAuthService.verifyRequest as jest.Mock).mockResolvedValue(deviceRecord);
+    (Device.updateOne as jest.Mock).mockResolvedValue({ matchedCount: 1 });
+    (DeviceCommandService.exchange as jest.Mock).mockResolvedValue([]);
+  });
+
+  it('should parse device topics', () => {
+    expect(MqttGatewayService.parseTopic(`${PREFIX}/OBD3001/status`, PREFIX)).toEqual({ deviceID: 'OBD3001', channel: 'status' });
+    expect(MqttGatewayService.parseTopic(`${PREFIX}/OBD3001/batch`, PREFIX)).toEqual({ deviceID: 'OBD3001', channel: 'batch' });
+    expect(MqttGatewayService.parseTopic(`${PREFIX}/OBD3001/ack`, PREFIX)).toBeNull();
+    expect(MqttGatewayService.parseTopic(`${PREFIX}/OBD3001/status/extra`, PREFIX)).toBeNull();
+    expect(MqttGatewayService.parseTopic('other/OBD3001/status', PREFIX)).toBeNull();
+  });
+
+  it('should verify signed status messages and run them through the device pipeline', async () => {
+    (DeviceController.processStatusMessage as jest.Mock).mockResolvedValue({ telemetryId: 't1', fraudDetected: false });
+    const reading = { deviceID: 'OBD3001', status: 'obd_connected', mileage: 65100, timestamp: 1000 };
+
+    await device.publishAsync(`${PREFIX}/OBD3001/status`, envelope(reading), { qos: 1 });
+    await waitFor(() => acks.length > 0);
+
+    expect(DeviceAuthService.verifyRequest).toHaveBeenCalledWith(expect.objectContaining({
+      deviceId: 'OBD3001',
+      nonce: 'nonce-1',
+      rawBody: JSON.stringify(reading)
+    }));
+    expect(DeviceController.processStatusMessage).toHaveBeenCalledWith(reading, deviceRecord);
+    expect(acks[0]).toMatchObject({ channel: 'status', nonce: 'nonce-1', status: 'success', data: { telemetryId: 't1' } });
+  });
+
+  it('should settle command acks and deliver queued commands with the ack', async () => {
+    (DeviceController.processStatusMessage as jest.Mock).mockResolvedValue({ telemetryId: 't2', fraudDetected: false });
+    (DeviceCommandService.exchange as jest.Mock).mockResolvedValue([{ commandId: 'c2', type: 'reboot' }]);
+    const commandAcks = [{ commandId: 'c1', status: 'ok' }];
+
+    await device.publishAsync(`${PREFIX}/OBD3001/status`, envelope({ status: 'obd_connected', timestamp: 2000, commandAcks }), { qos: 1 });
+    await waitFor(() => acks.length > 0);
+
+    expect(DeviceCommandService.exchange).toHaveBeenCalledWith('OBD3001', commandAcks, 'mqtt');
+    expect(acks[0].commands).toEqual([{ commandId: 'c2', type: 'reboot' }]);
+  });
+
+  it('should route batch messages to buffered upload processing', async () => {
+    (DeviceController.processBufferedUpload as jest.Mock).mockResolvedValue({ batchId: 'b1', accepted: 2 });
+    const body = { deviceID: 'OBD3001', readings: [{ status: 'obd_connected', timestamp: 1 }, { status: 'obd_connected', timestamp: 2 }] };
+
+    await device.publishAsync(`${PREFIX}/OBD3001/batch`, envelope(body, 'nonce-2'), { qos: 1 });
+    await waitFor(() => acks.length > 0);
+
+    expect(DeviceController.processBufferedUpload).toHaveBeenCalledWith(body, deviceRecord, expect.any(Number));
+    expect(acks[0]).toMatchObject({ channel: 'batch', status: 'success', data: { batchId: 'b1' } });
+  });
+
+  it('should reject payloads that claim another device', async () => {
+    await device.publishAsync(`${PREFIX}/OBD3001/status`, envelope({ deviceID: 'OBD9999', status: 'obd_connected', timestamp: 1 }), { qos: 1 });
+    await waitFor(() => acks.length > 0);
+
+    expect(DeviceController.processStatusMessage).not.toHaveBeenCalled();
+    expect(acks[0]).toMatchObject({ status: 'error', message: 'Payload deviceID does not match topic device' });
+  });
+
+  it('should report authentication failures on the ack topic', async () => {
+    (DeviceAuthService.verifyRequest as jest.Mock).mockRejectedValue(new AuthenticationError('Invalid device signature'));
+
+    await device.publishAsync(`${PREFIX}/OBD3001/status`, envelope({ status: 'obd_connected', timestamp: 1 }), { qos: 1 });
+    await waitFor(() => acks.length > 0);
+
+    expect(DeviceController.processStatusMessage).not.toHaveBeenCalled();
+    expect(acks[0]).toMatchObject({ status: 'error', message: 'Invalid device signature' });
+  });
+
+  it('should mark the device online and offline from presence and last will', async () => {
+    // Unsigned "online" could come from any broker client, so only the signed one counts
+    await device.publishAsync(`${PREFIX}/OBD3001/presence`, 'online', { qos: 1 });
+    await device.publishAsync(`${PREFIX}/OBD3001/presence`, envelope({ status: 'online' }, 'nonce-online'), { qos: 1 });
+    await waitFor(() => (Device.updateOne as jest.Mock).mock.calls.length > 0);
+
+    expect(DeviceAuthService.verifyRequest).toHaveBeenCalledWith(expect.objectContaining({ deviceId: 'OBD3001', nonce: 'nonce-online' }));
+    expect(DeviceCommandService.exchange).toHaveBeenCalledTimes(1);
+    expect(Device.updateOne).toHaveBeenCalledTimes(1);
+    expect(Device.updateOne).toHaveBeenCalledWith(
+      { deviceID: 'OBD3001' },
+      { $set: expect.objectContaining({ 'network.mqttConnected': true, 'network.transport': 'mqtt' }) }
+    );
+
+    // Drop the connection without DISCONNECT so the broker publishes the last will
+    device.stream.destroy();
+    await waitFor(() => (Device.updateOne as jest.Mock).mock.calls.length > 1);
+
+    expect(Device.updateOne).toHaveBeenLastCalledWith(
+      { deviceID: 'OBD3001' },
+      { $set: expect.objectContaining({ 'network.mqttConnected': false }) }
+    );
+  });
+
+  it('should drop a client that cannot connect and start again later', async () => {
+    await MqttGatewayService.stop();
+
+    await expect(MqttGatewayService.start({ url: 'mqtt://127.0.0.1:1', topicPrefix: PREFIX, clientId: 'gateway-down' }))
+      .rejects.toThrow();
+    await MqttGatewayService.start({ url, topicPrefix: PREFIX, clientId: 'gateway-retry' });
+
+    (DeviceController.processStatusMessage as jest.Mock).mockResolvedValue({ telemetryId: 't3', fraudDetected: false });
+    const reader = mqtt.connect(url, { clientId: 'OBD3001-retry' });
+    await new Promise<void>(resolve => reader.once('connect', () => resolve()));
+    try {
+      reader.on('message', (_topic, payload) => acks.push(JSON.parse(payload.toString())));
+      await reader.subscribeAsync(`${PREFIX}/OBD3001/ack`, { qos: 1 });
+      await reader.publishAsync(`${PREFIX}/OBD3001/status`, envelope({ status: 'obd_connected', timestamp: 3000 }, 'nonce-3'), { qos: 1 });
+      await waitFor(() => acks.length > 0);
+
+      expect(acks[0]).toMatchObject({ nonce: 'nonce-3', status: 'success', data: { telemetryId: 't3' } });
+    } finally {
+      await reader.endAsync(true);
+    }
+  });
+});
@@ -0,0 +1,57 @@
+import { compilePidFormula, decodeOdometerResponse, extractResponseBytes, normalizePidCommand } from '../utils/obdPid';
+
+describe('obdPid', () => {
+  describe('normalizePidCommand', () => {
+    it('should normalise spaced and lowercase commands', () => {
+      expect(normalizePidCommand('22 f1 90')).toBe('22F190');
+      expect(normalizePidCommand('01A6')).toBe('01A6');
+    });
+
+    it('should reject commands it cannot decode', () => {
+      expect(normalizePidCommand('A6')).toBeNull();
+      expect(normalizePidCommand('ATSH7E0')).toBeNull();
+      expect(normalizePidCommand(42)).toBeNull();
+    });
+  });
+
+  describe('compilePidFormula', () => {
+    it('should evaluate arithmetic over response bytes', () => {
+      const formula = compilePidFormula('(A*256+B)/4');
+      expect(formula.bytesRequired).toBe(2);
+      expect(formula.evaluate([0x1a, 0xf8])).toBe(1726);
+      expect(compilePidFormula('-40 + A').evaluate([100])).toBe(60);
+    });
+
+    it('should reject anything other than numbers, bytes and arithmetic', () => {
+      expect(() => compilePidFormula('process.exit()')).toThrow();
+      expect(() => compilePidFormula('(A*256')).toThrow('Missing closing parenthesis');
+      expect(() => compilePidFormula('42')).toThrow('at least one response byte');
+    });
+
+    it('should fail when the response is too short for the formula', () => {
+      expect(() => compilePidFormula('A*256+B').evaluate([1])).toThrow('needs 2 data byte(s)');
+    });
+  });
+
+  describe('extractResponseBytes', () => {
+    it('should find the positive response in raw ELM327 output', () => {
+      expect(extractResponseBytes('01A6', 'SEARCHING...\r41 A6 00 01 E2 40\r\r>')).toEqual([0x00, 0x01, 0xe2, 0x40]);
+      expect(extractResponseBytes('22F190', '7E8 07 62 F1 90 00 00 4E 20')).toEqual([0x00, 0x00, 0x4e, 0x20]);
+    });
+
+    it('should ignore matches that are not byte aligned or negative responses', () => {
+      expect(extractResponseBytes('01A6', '7F 01 12')).toBeNull();
+      expect(extractResponseBytes('01A6', '0 41 A6')).toBeNull();
+    });
+  });
+
+  describe('decodeOdometerResponse', () => {
+    it('should decode and convert miles to kilometres', () => {
+      const kmProfile = { command: '01A6', formula: '(A*16777216+B*65536+C*256+D)/10', unit: 'km' as const };
+      expect(decodeOdometerResponse(kmProfile, '41 A6 00 01 E2 40').mileageKm).toBe(12345.6);
+
+      const miProfile = { command: '22F190', formula: 'A*256+B', unit: 'mi' as const };
+      expect(decodeOdometerResponse(miProfile, '62F1900064').mileageKm).toBe(160.9);
+    });
+  });
+});
@@ -0,0 +1,31 @@
+import { ScheduledJob } from '../jobs/scheduledJob';
+
+jest.mock('../utils/logger');
+
+describe('ScheduledJob', () => {
+  it('should skip a tick while the previous run is still in progress', async () => {
+    let finish: () => void = () => undefined;
+    const task = jest.fn()
+      .mockReturnValueOnce(new Promise<void>(resolve => { finish = resolve; }))
+      .mockResolvedValue(undefined);
+    const job = new ScheduledJob('Test', '0 * * * *', task);
+
+    const first = job.run();
+    await job.run();
+    finish();
+    await first;
+    await job.run();
+
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep running after a failed run', async () => {
+    const task = jest.fn().mockRejectedValueOnce(new Error('boom')).mockResolvedValue(undefined);
+    const job = new ScheduledJob('Test', '0 * * * *', task);
+
+    await expect(job.run()).resolves.toBeUndefined();
+    await job.run();
+
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,72 @@
+import { orderBufferedReadings, readingKey, resolveRecordedAt } from '../utils/telemetryBuffer';
+
+describe('telemetryBuffer', () => {
+  describe('orderBufferedReadings', () => {
+    it('should sort readings by boot and device timestamp', () => {
+      const readings = [
+        { timestamp: 5000, bootCount: 2, mileage: 103 },
+        { timestamp: 9000, bootCount: 1, mileage: 101 },
+        { timestamp: 1000, bootCount: 2, mileage: 102 },
+        { timestamp: 3000, bootCount: 1, mileage: 100 }
+      ];
+
+      const { ordered, duplicates } = orderBufferedReadings(readings);
+
+      expect(ordered.map(r => r.reading.mileage)).toEqual([100, 101, 102, 103]);
+      expect(ordered.map(r => r.index)).toEqual([3, 1, 2, 0]);
+      expect(duplicates).toHaveLength(0);
+    });
+
+    it('should drop duplicates within the upload', () => {
+      const readings = [
+        { timestamp: 1000, bootCount: 1, mileage: 100 },
+        { timestamp: 1000, bootCount: 1, mileage: 100 },
+        { timestamp: 1000, bootCount: 2, mileage: 150 }
+      ];
+
+      const { ordered, duplicates } = orderBufferedReadings(readings);
+
+      expect(ordered).toHaveLength(2);
+      expect(duplicates).toHaveLength(1);
+      expect(duplicates[0].index).toBe(1);
+    });
+
+    it('should drop readings that were already stored', () => {
+      const readings = [
+        { timestamp: 1000, bootCount: 1 },
+        { timestamp: 2000, bootCount: 1 }
+      ];
+      const existing = new Set([readingKey({ timestamp: 1000, bootCount: 1 })]);
+
+      const { ordered, duplicates } = orderBufferedReadings(readings, {}, existing);
+
+      expect(ordered.map(r => r.reading.timestamp)).toEqual([2000]);
+      expect(duplicates.map(r => r.reading.timestamp)).toEqual([1000]);
+    });
+  });
+
+  describe('resolveRecordedAt', () => {
+    it('should prefer an explicit recordedAt in seconds, milliseconds or ISO form', () => {
+      expect(resolveRecordedAt({ timestamp: 1, recordedAt: 1760000000 })?.toISOString())
+        .toBe(new Date(1760000000 * 1000).toISOString());
+      expect(resolveRecordedAt({ timestamp: 1, recordedAt: 1760000000123 })?.getTime()).toBe(1760000000123);
+      expect(resolveRecordedAt({ timestamp: 1, recordedAt: '2025-10-09T08:00:00Z' })?.toISOString())
+        .toBe('2025-10-09T08:00:00.000Z');
+      expect(resolveRecordedAt({ timestamp: 1, recordedAt: 'garbage' })).toBeUndefined();
+    });
+
+    it('should back-date readings from the current boot using the upload clock', () => {
+      const clock = { uploadedAt: 1760000000, uploadMillis: 600000, bootCount: 4 };
+
+      expect(resolveRecordedAt({ timestamp: 540000, bootCount: 4 }, clock)?.getTime())
+        .toBe(1760000000 * 1000 - 60000);
+    });
+
+    it('should leave readings from earlier boots undated', () => {
+      const clock = { uploadedAt: 1760000000, uploadMillis: 600000, bootCount: 4 };
+
+      expect(resolveRecordedAt({ timestamp: 540000, bootCount: 3 }, clock)).toBeUndefined();
+      expect(resolveRecordedAt({ timestamp: 700000, bootCount: 4 }, clock)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { bucketStart, mergeRollupBuckets, rollupSamples, RollupSample } from '../utils/telemetryRollup';
+import { isReproducibleAnchor } from '../services/core/telemetryRetention.service';
+import { MerkleTreeBuilder } from '../utils/merkle';
+
+jest.mock('../utils/logger');
+jest.mock('../config/environment', () => ({
+  config: {
+    TELEMETRY_ARCHIVE_PATH: 'archives/telemetry/',
+    TELEMETRY_RAW_RETENTION_DAYS: 90,
+    TELEMETRY_EXPIRY_GRACE_DAYS: 7
+  }
+}));
+
+describe('telemetryRollup', () => {
+  const sample = (iso: string, speed: number, mileage: number, flagged = false): RollupSample =>
+    ({ time: new Date(iso), speed, rpm: speed * 30, mileage, flagged });
+
+  describe('bucketStart', () => {
+    it('should truncate to the UTC hour or day', () => {
+      const time = new Date('2026-03-01T08:42:17Z');
+      expect(bucketStart(time, 'hour').toISOString()).toBe('2026-03-01T08:00:00.000Z');
+      expect(bucketStart(time, 'day').toISOString()).toBe('2026-03-01T00:00:00.000Z');
+    });
+  });
+
+  describe('rollupSamples', () => {
+    it('should aggregate readings per hour regardless of arrival order', () => {
+      const buckets = rollupSamples([
+        sample('2026-03-01T08:30:00Z', 60, 1010),
+        sample('2026-03-01T08:05:00Z', 20, 1000), // Buffered, arrived late
+        sample('2026-03-01T08:50:00Z', 100, 1030, true),
+        sample('2026-03-01T09:10:00Z', 40, 1040)
+      ], 'hour');
+
+      expect(buckets).toHaveLength(2);
+      expect(buckets[0]).toMatchObject({
+        bucketStart: new Date('2026-03-01T08:00:00Z'),
+        readings: 3,
+        flaggedReadings: 1,
+        speed: { avg: 60, max: 100, samples: 3 },
+        openingMileage: 1000,
+        closingMileage: 1030,
+        distanceKm: 30,
+        firstReadingAt: new Date('2026-03-01T08:05:00Z'),
+        lastReadingAt: new Date('2026-03-01T08:50:00Z')
+      });
+      expect(buckets[1]).toMatchObject({ readings: 1, distanceKm: 0, closingMileage: 1040 });
+    });
+
+    it('should ignore missing odometer values', () => {
+      const [bucket] = rollupSamples([
+        sample('2026-03-01T08:00:00Z', 0, 0),
+        { time: new Date('2026-03-01T08:10:00Z'), flagged: false }
+      ], 'hour');
+
+      expect(bucket).toMatchObject({
+        readings: 2,
+        openingMileage: null,
+        closingMileage: null,
+        distanceKm: 0,
+        speed: { avg: 0, max: 0, samples: 1 }
+      });
+    });
+  });
+
+  describe('mergeRollupBuckets', () => {
+    it('should produce the same daily bucket as rolling up the raw readings', () => {
+      const samples = [
+        sample('2026-03-01T08:05:00Z', 20, 1000),
+        sample('2026-03-01T08:50:00Z', 100, 1030),
+        sample('2026-03-01T17:20:00Z', 45, 1080, true),
+        sample('2026-03-01T23:59:00Z', 15, 1082)
+      ];
+
+      const merged = mergeRollupBuckets(rollupSamples(samples, 'hour'), 'day');
+      const direct = rollupSamples(samples, 'day');
+
+      expect(merged).toHaveLength(1);
+      expect(merged[0]).toEqual(direct[0]);
+      expect(merged[0]).toMatchObject({ readings: 4, flaggedReadings: 1, distanceKm: 82 });
+    });
+  });
+
+  describe('isReproducibleAnchor', () => {
+    const segments = [
+      { startTime: new Date('2026-03-01T08:05:00Z'), endTime: new Date('2026-03-01T08:50:00Z'), distance: 30 },
+      { startTime: new Date('2026-03-01T17:20:00Z'), endTime: new Date('2026-03-01T23:59:00Z'), distance: 2 }
+    ];
+    const merkleRoot = MerkleTreeBuilder.buildTree(segments).root.hash;
+
+    it('should accept an anchored batch whose segments rebuild its root', () => {
+      expect(isReproducibleAnchor({ status: 'anchored', merkleRoot, solanaTx: 'tx', segments })).toBe(true);
+    });
+
+    it('should keep raw readings of batches that are not anchored or do not reproduce', () => {
+      expect(isReproducibleAnchor({ status: 'error', merkleRoot, solanaTx: 'tx', segments })).toBe(false);
+      expect(isReproducibleAnchor({ status: 'anchored', merkleRoot, solanaTx: '', segments })).toBe(false);
+      expect(isReproducibleAnchor({
+        status: 'anchored',
+        merkleRoot,
+        solanaTx: 'tx',
+        segments: [{ ...segments[0], distance: 31 }, segments[1]]
+      })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { generateTimeline, SimulatedDeviceProfile } from '../utils/telemetrySimulator';
+import { summarizeRequests, simulatedVin } from '../services/core/fleetSimulator.service';
+
+jest.mock('../utils/logger');
+jest.mock('../config/environment', () => ({ config: {} }));
+
+describe('telemetrySimulator', () => {
+  const start = new Date('2026-03-01T08:00:00Z');
+  const profile = (overrides: Partial<SimulatedDeviceProfile> = {}): SimulatedDeviceProfile => ({
+    deviceID: 'SIM-TEST-0001',
+    vin: simulatedVin('TEST1', 1),
+    startMileage: 40000,
+    location: { latitude: 12.97, longitude: 77.59 },
+    seed: 42,
+    ...overrides
+  });
+
+  describe('generateTimeline', () => {
+    it('should replay identically for the same seed', () => {
+      const first = generateTimeline(profile(), 50, start, 10);
+      const second = generateTimeline(profile(), 50, start, 10);
+      const other = generateTimeline(profile({ seed: 7 }), 50, start, 10);
+
+      expect(first.events).toEqual(second.events);
+      expect(first.events).not.toEqual(other.events);
+    });
+
+    it('should send one reading per tick with a non-decreasing odometer', () => {
+      const { events } = generateTimeline(profile(), 200, start, 30);
+      const mileages = events.map(event => event.kind === 'status' ? event.reading.mileage : 0);
+
+      expect(events).toHaveLength(200);
+      expect(events.every(event => event.kind === 'status' && event.reading.vin === profile().vin)).toBe(true);
+      expect(mileages.every((mileage, i) => i === 0 || mileage >= mileages[i - 1])).toBe(true);
+      expect(mileages[mileages.length - 1]).toBeGreaterThan(40000);
+    });
+  });
+
+  describe('faults', () => {
+    it('should buffer readings during a network drop and upload them as one batch', () => {
+      const { events, expectedAlerts } = generateTimeline(
+        profile({ faults: [{ type: 'network_drop', atTick: 5, ticks: 4 }] }), 12, start, 10
+      );
+
+      const batch = events.find(event => event.kind === 'batch');
+      expect(events.filter(event => event.kind === 'status')).toHaveLength(8);
+      expect(batch).toMatchObject({ kind: 'batch', tick: 9 });
+      if (batch?.kind !== 'batch') throw new Error('expected a batch');
+      expect(batch.body.readings).toHaveLength(4);
+      expect(batch.body.readings[0].recordedAt).toBe(Math.floor(start.getTime() / 1000) + 50);
+      expect(expectedAlerts).toHaveLength(0);
+    });
+
+    it('should reboot after an unplug and expect an alert only past the silence threshold', () => {
+      const unplug = { type: 'unplug' as const, atTick: 2, ticks: 8 };
+      const long = generateTimeline(profile({ faults: [unplug] }), 12, start, 600);
+      const short = generateTimeline(profile({ faults: [unplug] }), 12, start, 60);
+
+      const statuses = long.events.filter(event => event.kind === 'status');
+      expect(statuses).toHaveLength(4);
+      const resumed = statuses[2];
+      if (resumed.kind !== 'status') throw new Error('expected a status');
+      expect(resumed.reading.bootCount).toBe(2);
+      expect(resumed.reading.timestamp).toBe(600 * 1000);
+      expect(long.expectedAlerts).toEqual([{ type: 'device_tampering', tick: 10, at: resumed.at }]);
+
+      // 9 minutes of silence is not enough for the server to notice
+      expect(short.expectedAlerts).toHaveLength(0);
+    });
+
+    it('should expect rollback and VIN mismatch alerts where they are injected', () => {
+      const { events, expectedAlerts } = generateTimeline(profile({
+        faults: [
+          { type: 'rollback', atTick: 3, km: 5000 },
+          { type: 'vin_swap', atTick: 6, ticks: 2, vin: simulatedVin('TEST1', 1, 'SMY') }
+        ]
+      }), 10, start, 10);
+
+      const readings = events.map(event => event.kind === 'status' ? event.reading : null);
+      expect(readings[3]!.mileage).toBeLessThan(readings[2]!.mileage - 4000);
+      expect(readings.map(reading => reading!.vin.startsWith('SMY'))).toEqual(
+        [false, false, false, false, false, false, true, true, false, false]
+      );
+      expect(expectedAlerts.map(alert => [alert.type, alert.tick])).toEqual([
+        ['odometer_rollback', 3],
+        ['vin_mismatch', 6]
+      ]);
+    });
+  });
+
+  describe('summarizeRequests', () => {
+    it('should count 422 as flagged, not as an error, and report percentiles', () => {
+      const summary = summarizeRequests([
+        ...Array.from({ length: 97 }, (_, i) => ({ status: 200, latencyMs: i + 1 })),
+        { status: 422, latencyMs: 120 },
+        { status: 500, latencyMs: 300 },
+        { status: 0, latencyMs: 10000 }
+      ]);
+
+      expect(summary).toMatchObject({
+        requests: 100,
+        accepted: 97,
+        flagged: 1,
+        errors: 2,
+        errorRate: 0.02,
+        byStatus: { 0: 1, 200: 97, 422: 1, 500: 1 }
+      });
+      expect(summary.latencyMs).toMatchObject({ p50: 50, p95: 95, p99: 300, max: 10000 });
+    });
+  });
+});
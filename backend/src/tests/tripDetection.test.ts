@@ -0,0 +1,86 @@
+import { detectTrips, isEngineOn, summarizeTrip, TripPoint } from '../utils/tripDetection';
+
+describe('tripDetection', () => {
+  const options = { gapMinutes: 10, engineOnRpm: 400, minDistanceKm: 0.2, minDurationMinutes: 2, maxFixAccuracyM: 50 };
+  const base = new Date('2026-03-01T08:00:00Z').getTime();
+  const at = (minutes: number) => new Date(base + minutes * 60 * 1000);
+
+  const driving = (minutes: number, mileage: number, speed = 40): TripPoint =>
+    ({ time: at(minutes), connected: true, rpm: 1800, speed, mileage });
+  const off = (minutes: number, mileage: number): TripPoint =>
+    ({ time: at(minutes), connected: true, rpm: 0, speed: 0, mileage });
+
+  describe('isEngineOn', () => {
+    it('should use rpm or movement while the OBD link is up', () => {
+      expect(isEngineOn({ time: at(0), connected: true, rpm: 800, speed: 0 }, 400)).toBe(true);
+      expect(isEngineOn({ time: at(0), connected: true, rpm: 0, speed: 12 }, 400)).toBe(true);
+      expect(isEngineOn({ time: at(0), connected: true, rpm: 0, speed: 0 }, 400)).toBe(false);
+      expect(isEngineOn({ time: at(0), connected: false, rpm: 900, speed: 30 }, 400)).toBe(false);
+    });
+  });
+
+  describe('summarizeTrip', () => {
+    it('should summarise distance, speed and idle time', () => {
+      const trip = summarizeTrip([
+        { time: at(0), connected: true, rpm: 800, speed: 0, mileage: 1000 }, // idle 2 min
+        driving(2, 1000, 30),
+        driving(8, 1004, 60),
+        off(12, 1006)
+      ], options, true);
+
+      expect(trip.durationSeconds).toBe(12 * 60);
+      expect(trip.distanceKm).toBe(6);
+      expect(trip.distanceSource).toBe('odometer');
+      expect(trip.maxSpeedKmh).toBe(60);
+      expect(trip.avgSpeedKmh).toBe(30);
+      expect(trip.idleSeconds).toBe(120);
+      expect(trip.startMileage).toBe(1000);
+      expect(trip.endMileage).toBe(1006);
+    });
+
+    it('should fall back to GPS when the odometer is missing', () => {
+      const trip = summarizeTrip([
+        { time: at(0), connected: true, rpm: 1500, speed: 20, location: { latitude: 12.97, longitude: 77.59 } },
+        { time: at(5), connected: true, rpm: 1500, speed: 20, location: { latitude: 12.98, longitude: 77.59 } }
+      ], options, true);
+
+      expect(trip.distanceSource).toBe('gps');
+      expect(trip.distanceKm).toBeCloseTo(1.1, 1);
+      expect(trip.startLocation).toEqual({ latitude: 12.97, longitude: 77.59 });
+      expect(trip.endLocation).toEqual({ latitude: 12.98, longitude: 77.59 });
+    });
+  });
+
+  describe('detectTrips', () => {
+    it('should split trips on engine off and on reporting gaps', () => {
+      const trips = detectTrips([
+        driving(0, 1000), driving(5, 1003), off(10, 1006),
+        off(20, 1006),
+        driving(30, 1006), driving(35, 1009),
+        // 30 minute silence closes the second trip
+        driving(65, 1020), driving(70, 1024), off(75, 1025)
+      ], options, at(120));
+
+      expect(trips).toHaveLength(3);
+      expect(trips.map(trip => trip.distanceKm)).toEqual([6, 3, 5]);
+      expect(trips[1].endTime).toEqual(at(35));
+      expect(trips.every(trip => trip.completed)).toBe(true);
+    });
+
+    it('should keep the last trip in progress while readings are recent', () => {
+      const trips = detectTrips([driving(0, 1000), driving(5, 1003)], options, at(8));
+
+      expect(trips).toHaveLength(1);
+      expect(trips[0].completed).toBe(false);
+    });
+
+    it('should drop engine starts that go nowhere', () => {
+      const trips = detectTrips([
+        { time: at(0), connected: true, rpm: 800, speed: 0, mileage: 1000 },
+        off(1, 1000)
+      ], options, at(60));
+
+      expect(trips).toHaveLength(0);
+    });
+  });
+});
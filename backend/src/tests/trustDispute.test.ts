@@ -0,0 +1,81 @@
+import { canMoveDispute, disputeCompensationFor, isDisputeDocumentUrl } from '../utils/trustDisputes';
+import { TrustDisputeService } from '../services/core/trustDispute.service';
+import { AuthorizationError, ValidationError } from '../utils/errors';
+
+jest.mock('../utils/logger');
+
+const owner = { id: '64b7f0c2a1b2c3d4e5f60718', role: 'owner' };
+const reviewer = { id: '64b7f0c2a1b2c3d4e5f60719', role: 'government' };
+
+describe('trustDisputes', () => {
+  describe('canMoveDispute', () => {
+    it('should let open disputes be reviewed, decided or withdrawn', () => {
+      expect(canMoveDispute('open', 'under_review')).toBe(true);
+      expect(canMoveDispute('open', 'accepted')).toBe(true);
+      expect(canMoveDispute('under_review', 'rejected')).toBe(true);
+      expect(canMoveDispute('under_review', 'withdrawn')).toBe(true);
+    });
+
+    it('should treat decisions as final', () => {
+      expect(canMoveDispute('accepted', 'rejected')).toBe(false);
+      expect(canMoveDispute('rejected', 'open')).toBe(false);
+      expect(canMoveDispute('withdrawn', 'under_review')).toBe(false);
+      expect(canMoveDispute('under_review', 'open')).toBe(false);
+    });
+  });
+
+  describe('isDisputeDocumentUrl', () => {
+    it('should accept uploads and http(s) links only', () => {
+      expect(isDisputeDocumentUrl('/uploads/invoices/cluster-replacement.pdf')).toBe(true);
+      expect(isDisputeDocumentUrl('https://dealer.example.com/invoice/42')).toBe(true);
+      expect(isDisputeDocumentUrl('ftp://dealer.example.com/invoice.pdf')).toBe(false);
+      expect(isDisputeDocumentUrl('/etc/passwd')).toBe(false);
+      expect(isDisputeDocumentUrl(undefined)).toBe(false);
+    });
+  });
+
+  describe('disputeCompensationFor', () => {
+    const rollback = { previousScore: 90, newScore: 60 };
+
+    it('should give back what the deduction took', () => {
+      expect(disputeCompensationFor(rollback, [])).toBe(30);
+    });
+
+    it('should only give back what the clamped score actually lost', () => {
+      expect(disputeCompensationFor({ previousScore: 20, newScore: 0 }, [])).toBe(20);
+    });
+
+    it('should not compensate the same deduction twice', () => {
+      expect(disputeCompensationFor(rollback, [{ previousScore: 60, newScore: 90 }])).toBe(0);
+      expect(disputeCompensationFor(rollback, [{ previousScore: 90, newScore: 100 }])).toBe(20);
+    });
+  });
+
+  describe('TrustDisputeService input checks', () => {
+    it('should require exactly one subject and a reason', async () => {
+      await expect(TrustDisputeService.open({ reason: 'Cluster replaced' }, owner)).rejects.toThrow(ValidationError);
+      await expect(TrustDisputeService.open({
+        trustEventId: '64b7f0c2a1b2c3d4e5f60720',
+        fraudAlertId: '64b7f0c2a1b2c3d4e5f60721',
+        reason: 'Cluster replaced'
+      }, owner)).rejects.toThrow('Provide either trustEventId or fraudAlertId');
+      await expect(TrustDisputeService.open({ trustEventId: '64b7f0c2a1b2c3d4e5f60720', reason: ' ' }, owner))
+        .rejects.toThrow('A reason is required');
+      await expect(TrustDisputeService.open({ trustEventId: 'not-an-id', reason: 'Cluster replaced' }, owner))
+        .rejects.toThrow(ValidationError);
+    });
+
+    it('should only let reviewers decide, with a note', async () => {
+      await expect(TrustDisputeService.review('d1', { status: 'accepted', note: 'Invoice checks out' }, owner))
+        .rejects.toThrow(AuthorizationError);
+      await expect(TrustDisputeService.review('d1', { status: 'withdrawn' }, reviewer)).rejects.toThrow(ValidationError);
+      await expect(TrustDisputeService.review('d1', { status: 'accepted', note: '' }, reviewer))
+        .rejects.toThrow('A note is required to mark a dispute accepted');
+    });
+
+    it('should reject unknown list filters before querying', async () => {
+      await expect(TrustDisputeService.list({ status: 'pending' }, reviewer)).rejects.toThrow(ValidationError);
+      await expect(TrustDisputeService.list({ vehicleId: 'abc' }, owner)).rejects.toThrow(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { DEFAULT_TRUST_POLICY, LedgerEvent, TrustPolicySettings, replayTrustEvents, weighTrustChange } from '../utils/trustPolicy';
+import { TrustPolicyService } from '../services/core/trustPolicy.service';
+import { ValidationError } from '../utils/errors';
+
+jest.mock('../utils/logger');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const asOf = new Date('2026-06-01T00:00:00Z');
+const daysAgo = (days: number) => new Date(asOf.getTime() - days * DAY_MS);
+
+const policy = (overrides: Partial<TrustPolicySettings> = {}): TrustPolicySettings => ({
+  weights: { ...DEFAULT_TRUST_POLICY.weights, ...overrides.weights },
+  caps: { ...DEFAULT_TRUST_POLICY.caps, ...overrides.caps },
+  decay: { ...DEFAULT_TRUST_POLICY.decay, ...overrides.decay },
+  recovery: { ...DEFAULT_TRUST_POLICY.recovery, ...overrides.recovery },
+  inactivity: { ...DEFAULT_TRUST_POLICY.inactivity, ...overrides.inactivity }
+});
+
+// A ledger as the live service writes it under the default policy
+const ledger = (entries: Array<Omit<LedgerEvent, 'previousScore' | 'newScore' | 'createdAt'> & { createdAt?: Date }>, opening = 100): LedgerEvent[] => {
+  let score = opening;
+  return entries.map((entry, index) => {
+    const newScore = Math.max(0, Math.min(100, score + entry.change));
+    const event = { createdAt: daysAgo(entries.length - index), ...entry, previousScore: score, newScore };
+    score = newScore;
+    return event;
+  });
+};
+
+describe('trustPolicy', () => {
+  describe('weighTrustChange', () => {
+    it('should weigh, round and cap a single event', () => {
+      expect(weighTrustChange(-30, 'fraudEngine', policy({ weights: { fraudEngine: 0.5 } as any }))).toBe(-15);
+      expect(weighTrustChange(-25, 'fraudEngine', policy({ weights: { fraudEngine: 0.5 } as any }))).toBe(-12);
+      expect(weighTrustChange(-60, 'fraudEngine', policy({ caps: { maxPenalty: 40 } as any }))).toBe(-40);
+      expect(weighTrustChange(30, 'admin', policy({ caps: { maxGain: 10 } as any }))).toBe(10);
+    });
+
+    it('should fade penalties with age but not below the floor', () => {
+      const fading = policy({ decay: { penaltyHalfLifeDays: 180, minPenaltyFactor: 0.25 } });
+
+      expect(weighTrustChange(-40, 'fraudEngine', fading, 0)).toBe(-40);
+      expect(weighTrustChange(-40, 'fraudEngine', fading, 180)).toBe(-20);
+      expect(weighTrustChange(-40, 'fraudEngine', fading, 3650)).toBe(-10);
+      expect(weighTrustChange(20, 'telemetry', fading, 3650)).toBe(20);
+    });
+  });
+
+  describe('replayTrustEvents', () => {
+    it('should reproduce the live ledger under the default policy', () => {
+      const events = ledger([
+        { _id: 'e1', source: 'fraudEngine', change: -30 },
+        { _id: 'e2', source: 'telemetry', change: 5 },
+        { _id: 'e3', source: 'admin', change: -80 }
+      ], 90);
+
+      expect(replayTrustEvents(events, DEFAULT_TRUST_POLICY, asOf)).toEqual({
+        openingScore: 90,
+        score: events[events.length - 1].newScore,
+        replayedEvents: 3
+      });
+    });
+
+    it('should skip earlier recompute corrections', () => {
+      const events = ledger([
+        { _id: 'e1', source: 'fraudEngine', change: -30 },
+        { _id: 'r1', source: 'recompute', change: 15 }
+      ]);
+
+      expect(replayTrustEvents(events, DEFAULT_TRUST_POLICY, asOf).score).toBe(70);
+      expect(replayTrustEvents(events, policy({ weights: { fraudEngine: 0.5 } as any }), asOf).score).toBe(85);
+    });
+
+    it('should give back exactly the re-weighed penalty when an alert is dismissed', () => {
+      const events = ledger([
+        { _id: 'e1', source: 'fraudEngine', change: -30, details: { fraudAlertId: 'a1' } },
+        { _id: 'e2', source: 'admin', change: 30, details: { fraudAlertId: 'a1' } },
+        { _id: 'e3', source: 'admin', change: -30, details: { fraudAlertId: 'a1' } }
+      ]);
+      const halved = policy({ weights: { fraudEngine: 0.5 } as any });
+
+      expect(replayTrustEvents(events.slice(0, 2), halved, asOf).score).toBe(100);
+      expect(replayTrustEvents(events, halved, asOf).score).toBe(85);
+    });
+
+    it('should compensate an accepted dispute by what the deduction took under the policy', () => {
+      const events = ledger([
+        { _id: 'e1', source: 'fraudEngine', change: -30 },
+        { _id: 'e2', source: 'admin', change: 30, details: { disputedEventId: 'e1' } }
+      ]);
+
+      expect(replayTrustEvents(events, policy({ weights: { fraudEngine: 2 } as any }), asOf).score).toBe(100);
+      expect(replayTrustEvents(events, policy({ caps: { maxPenalty: 10 } as any }), asOf).score).toBe(100);
+    });
+
+    it('should keep the score inside the policy range', () => {
+      const events = ledger([{ _id: 'e1', source: 'fraudEngine', change: -90 }]);
+
+      expect(replayTrustEvents(events, policy({ caps: { minScore: 20 } as any }), asOf).score).toBe(20);
+    });
+  });
+
+  describe('TrustPolicyService.validate', () => {
+    it('should merge valid changes over the current policy', () => {
+      const settings = TrustPolicyService.validate(
+        { weights: { fraudEngine: 0.5 }, decay: { penaltyHalfLifeDays: 365 } },
+        DEFAULT_TRUST_POLICY
+      );
+
+      expect(settings.weights).toEqual({ ...DEFAULT_TRUST_POLICY.weights, fraudEngine: 0.5 });
+      expect(settings.decay.penaltyHalfLifeDays).toBe(365);
+      expect(settings.caps).toEqual(DEFAULT_TRUST_POLICY.caps);
+    });
+
+    it('should reject unknown settings and out of range values', () => {
+      expect(() => TrustPolicyService.validate({ weights: { recompute: 1 } }, DEFAULT_TRUST_POLICY)).toThrow(ValidationError);
+      expect(() => TrustPolicyService.validate({ weights: { telemetry: 9 } }, DEFAULT_TRUST_POLICY)).toThrow('weights.telemetry');
+      expect(() => TrustPolicyService.validate({ caps: { maxPenalty: 12.5 } }, DEFAULT_TRUST_POLICY)).toThrow(ValidationError);
+      expect(() => TrustPolicyService.validate({ caps: { minScore: 100 } }, DEFAULT_TRUST_POLICY)).toThrow('caps.minScore must be below caps.maxScore');
+      expect(() => TrustPolicyService.validate({ decay: { halfLife: 30 } }, DEFAULT_TRUST_POLICY)).toThrow(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { DEFAULT_TRUST_POLICY } from '../utils/trustPolicy';
+import { TrustStepInput, decideTrustStep } from '../utils/trustRecovery';
+import { TrustPolicyService } from '../services/core/trustPolicy.service';
+
+jest.mock('../utils/logger');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2026-06-01T04:30:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * DAY_MS);
+
+// A vehicle that drove and anchored every day of the last window with no penalties
+const input = (overrides: Partial<TrustStepInput> = {}): TrustStepInput => ({
+  now,
+  score: 80,
+  lastDataAt: daysAgo(1),
+  drivingDays: 28,
+  anchoredDays: 25,
+  lastPenaltyAt: daysAgo(45),
+  lastRecoveryAt: null,
+  lastDecayAt: null,
+  ...overrides
+});
+
+describe('trustRecovery', () => {
+  describe('recovery', () => {
+    it('should restore points for sustained verified driving and anchored batches', () => {
+      expect(decideTrustStep(input(), DEFAULT_TRUST_POLICY)).toEqual({
+        rule: 'recovery',
+        change: 3,
+        reason: 'Clean record: 28 days of verified driving and 25 anchored daily batches in 30 days'
+      });
+    });
+
+    it('should give only the driving points when too few batches were anchored', () => {
+      const step = decideTrustStep(input({ anchoredDays: 5 }), DEFAULT_TRUST_POLICY);
+
+      expect(step?.change).toBe(2);
+      expect(step?.reason).toBe('Clean record: 28 days of verified driving in 30 days');
+    });
+
+    it('should wait a full window after a penalty or the previous recovery', () => {
+      expect(decideTrustStep(input({ lastPenaltyAt: daysAgo(10) }), DEFAULT_TRUST_POLICY)).toBeNull();
+      expect(decideTrustStep(input({ lastRecoveryAt: daysAgo(29) }), DEFAULT_TRUST_POLICY)).toBeNull();
+      expect(decideTrustStep(input({ lastRecoveryAt: daysAgo(30) }), DEFAULT_TRUST_POLICY)?.rule).toBe('recovery');
+    });
+
+    it('should not recover without enough driving or above the maximum score', () => {
+      expect(decideTrustStep(input({ drivingDays: 12, anchoredDays: 12 }), DEFAULT_TRUST_POLICY)).toBeNull();
+      expect(decideTrustStep(input({ score: 100 }), DEFAULT_TRUST_POLICY)).toBeNull();
+      expect(decideTrustStep(input({ score: 99 }), DEFAULT_TRUST_POLICY)?.change).toBe(1);
+    });
+  });
+
+  describe('inactivity', () => {
+    it('should decay once the grace period without data has passed', () => {
+      expect(decideTrustStep(input({ lastDataAt: daysAgo(29), drivingDays: 0, anchoredDays: 0 }), DEFAULT_TRUST_POLICY)).toBeNull();
+      expect(decideTrustStep(input({ lastDataAt: daysAgo(40), drivingDays: 0, anchoredDays: 0 }), DEFAULT_TRUST_POLICY)).toEqual({
+        rule: 'inactivity',
+        change: -1,
+        reason: 'No verified data for 40 days'
+      });
+    });
+
+    it('should take one step per step period and stop at the floor', () => {
+      const silent = { lastDataAt: daysAgo(90), drivingDays: 0, anchoredDays: 0 };
+
+      expect(decideTrustStep(input({ ...silent, lastDecayAt: daysAgo(10) }), DEFAULT_TRUST_POLICY)).toBeNull();
+      expect(decideTrustStep(input({ ...silent, lastDecayAt: daysAgo(30) }), DEFAULT_TRUST_POLICY)?.change).toBe(-1);
+      expect(decideTrustStep(input({ ...silent, score: 50 }), DEFAULT_TRUST_POLICY)).toBeNull();
+    });
+
+    it('should leave vehicles that never sent data alone', () => {
+      expect(decideTrustStep(input({ lastDataAt: null, drivingDays: 0, anchoredDays: 0 }), DEFAULT_TRUST_POLICY)).toBeNull();
+    });
+  });
+
+  describe('TrustPolicyService.validate', () => {
+    it('should accept and range check the scheduled step settings', () => {
+      const settings = TrustPolicyService.validate(
+        { recovery: { drivingPoints: 4 }, inactivity: { floor: 60 } },
+        DEFAULT_TRUST_POLICY
+      );
+
+      expect(settings.recovery).toEqual({ ...DEFAULT_TRUST_POLICY.recovery, drivingPoints: 4 });
+      expect(settings.inactivity.floor).toBe(60);
+      expect(() => TrustPolicyService.validate({ recovery: { windowDays: 0 } }, DEFAULT_TRUST_POLICY)).toThrow('recovery.windowDays');
+      expect(() => TrustPolicyService.validate({ inactivity: { everyDays: 7 } }, DEFAULT_TRUST_POLICY)).toThrow('Unknown inactivity setting');
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import {
+  DailyUsage,
+  UsageBaselineOptions,
+  assessUsageDay,
+  buildUsageBaseline,
+  dailyUsageOf,
+  metricStats
+} from '../utils/usageBaseline';
+
+const options: UsageBaselineOptions = {
+  minDays: 14,
+  lowZ: 3,
+  mediumZ: 4,
+  minStallHours: 0.5,
+  stallRatio: 0.2
+};
+
+// A commuter car: 40-60 km a day over 2-4 trips and 1-1.5 h of driving
+const history: DailyUsage[] = Array.from({ length: 20 }, (_, i) => ({
+  date: `2026-05-${String(i + 1).padStart(2, '0')}`,
+  distanceKm: 40 + (i % 5) * 5,
+  trips: 2 + (i % 3),
+  operatingHours: 1 + (i % 2) * 0.5
+}));
+
+const day = (overrides: Partial<DailyUsage> = {}): DailyUsage => ({
+  date: '2026-05-21',
+  distanceKm: 50,
+  trips: 3,
+  operatingHours: 1.2,
+  ...overrides
+});
+
+describe('usageBaseline', () => {
+  describe('dailyUsageOf', () => {
+    it('should count segments as trips and sum their durations', () => {
+      expect(dailyUsageOf({
+        date: '2026-05-01',
+        totalDistance: 42.345,
+        segments: [
+          { startTime: '2026-05-01T07:00:00Z', endTime: '2026-05-01T07:45:00Z' },
+          { startTime: new Date('2026-05-01T17:00:00Z'), endTime: new Date('2026-05-01T17:30:00Z') }
+        ]
+      })).toEqual({ date: '2026-05-01', distanceKm: 42.3, trips: 2, operatingHours: 1.25 });
+    });
+  });
+
+  describe('metricStats', () => {
+    it('should compute mean, population standard deviation and range', () => {
+      expect(metricStats([2, 4, 4, 4, 5, 5, 7, 9])).toEqual({ mean: 5, stdDev: 2, min: 2, max: 9 });
+    });
+
+    it('should return zeros for an empty history', () => {
+      expect(metricStats([])).toEqual({ mean: 0, stdDev: 0, min: 0, max: 0 });
+    });
+  });
+
+  describe('assessUsageDay', () => {
+    const baseline = buildUsageBaseline(history, options);
+
+    it('should build the baseline over the days of history', () => {
+      expect(baseline.days).toBe(20);
+      expect(baseline.from).toBe('2026-05-01');
+      expect(baseline.to).toBe('2026-05-20');
+      expect(baseline.distanceKm.mean).toBe(50);
+    });
+
+    it('should not flag a typical day', () => {
+      expect(assessUsageDay(day(), baseline, options)).toEqual([]);
+    });
+
+    it('should give no verdict before enough history', () => {
+      const young = buildUsageBaseline(history.slice(0, 10), options);
+
+      expect(assessUsageDay(day({ distanceKm: 500 }), young, options)).toEqual([]);
+    });
+
+    it('should flag a distance spike as medium when far outside the baseline', () => {
+      const anomalies = assessUsageDay(day({ distanceKm: 120, operatingHours: 1.4 }), baseline, options);
+
+      expect(anomalies).toHaveLength(1);
+      expect(anomalies[0]).toMatchObject({ kind: 'distance_spike', metric: 'distanceKm', severity: 'medium', value: 120, mean: 50 });
+      expect(anomalies[0].zScore).toBeGreaterThanOrEqual(4);
+    });
+
+    it('should flag a moderate distance spike as low', () => {
+      const anomalies = assessUsageDay(day({ distanceKm: 75, operatingHours: 1.4 }), baseline, options);
+
+      expect(anomalies).toHaveLength(1);
+      expect(anomalies[0].severity).toBe('low');
+    });
+
+    it('should not flag a quiet day with little driving', () => {
+      expect(assessUsageDay(day({ distanceKm: 2, trips: 1, operatingHours: 0.1 }), baseline, options)).toEqual([]);
+    });
+
+    it('should flag distance stalling while the engine runs', () => {
+      const anomalies = assessUsageDay(day({ distanceKm: 1, operatingHours: 1.5 }), baseline, options);
+
+      expect(anomalies).toHaveLength(1);
+      expect(anomalies[0]).toMatchObject({ kind: 'distance_stall', metric: 'kmPerHour', severity: 'medium' });
+      expect(anomalies[0].reason).toContain('Engine ran for 1.5 h on 2026-05-21');
+    });
+
+    it('should call a short stall low', () => {
+      const anomalies = assessUsageDay(day({ distanceKm: 0.5, operatingHours: 0.6 }), baseline, options);
+
+      expect(anomalies.map(a => [a.kind, a.severity])).toEqual([['distance_stall', 'low']]);
+    });
+  });
+});
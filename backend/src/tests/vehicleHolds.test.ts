@@ -0,0 +1,45 @@
+import { VehicleHoldLike, holdBlockMessage, isHoldActive } from '../utils/vehicleHolds';
+
+const now = new Date('2026-06-01T12:00:00Z');
+
+const hold = (overrides: Partial<VehicleHoldLike> = {}): VehicleHoldLike => ({
+  type: 'stolen',
+  reason: 'Reported stolen at Pune police station',
+  status: 'active',
+  expiresAt: null,
+  ...overrides
+});
+
+describe('vehicleHolds', () => {
+  describe('isHoldActive', () => {
+    it('should keep a hold without expiry active until released', () => {
+      expect(isHoldActive(hold(), now)).toBe(true);
+      expect(isHoldActive(hold({ status: 'released' }), now)).toBe(false);
+    });
+
+    it('should end a hold once its expiry passes', () => {
+      expect(isHoldActive(hold({ expiresAt: new Date('2026-06-02T00:00:00Z') }), now)).toBe(true);
+      expect(isHoldActive(hold({ expiresAt: new Date('2026-06-01T12:00:00Z') }), now)).toBe(false);
+    });
+  });
+
+  describe('holdBlockMessage', () => {
+    it('should name the refused action and the hold reason', () => {
+      expect(holdBlockMessage([hold()], 'transfer')).toBe(
+        'Vehicle cannot be transferred while on hold. Reported stolen: Reported stolen at Pune police station'
+      );
+    });
+
+    it('should list every hold with its expiry', () => {
+      const message = holdBlockMessage([
+        hold(),
+        hold({ type: 'court_order', reason: 'Attachment order 42/2026', expiresAt: new Date('2026-09-30T00:00:00Z') })
+      ], 'listing');
+
+      expect(message).toBe(
+        'Vehicle cannot be listed for sale while on hold. Reported stolen: Reported stolen at Pune police station; ' +
+        'Court order: Attachment order 42/2026 (until 2026-09-30)'
+      );
+    });
+  });
+});
@@ -1,4 +1,5 @@
 import { IUserInfo } from './auth.types';
+import type { IDevice } from '../models/core/Device.model';
 
 declare global {
   namespace Express {
@@ -7,6 +8,8 @@ declare global {
       sessionId?: string;
       permissions?: string[];
       activeRole?: string; // Active role from X-Active-Role header for multi-role users
+      rawBody?: Buffer; // Unparsed JSON body, kept for device signature verification
+      device?: IDevice; // Authenticated ESP32 device (set by authenticateDevice)
       rateLimit?: {
         limit: number;
         remaining: number;
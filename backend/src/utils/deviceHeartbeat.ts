@@ -0,0 +1,60 @@
+/**
+ * Helpers for device heartbeat monitoring
+ *
+ * The firmware increments its NVS boot counter on every wake and reports once per
+ * wake, so consecutive readings normally differ by exactly one boot.
+ */
+
+export type BootCountAnomaly = 'jump' | 'reset';
+
+/**
+ * Silence threshold for a device: never shorter than a few of its own sleep cycles,
+ * so devices configured to sleep for long periods are not reported as offline.
+ */
+export const silenceThresholdMinutes = (baseMinutes: number, sleepDurationMinutes?: number): number => {
+  return Math.max(baseMinutes, (sleepDurationMinutes || 0) * 3);
+};
+
+/**
+ * Whether a device has been silent for longer than the threshold
+ */
+export const isSilent = (lastSeen: Date | undefined, thresholdMinutes: number, now: Date = new Date()): boolean => {
+  if (!lastSeen) return false;
+  return now.getTime() - lastSeen.getTime() > thresholdMinutes * 60 * 1000;
+};
+
+/**
+ * Compare the reported boot counter with the last one we stored.
+ * A decrease means the counter was wiped (reflash or device swap); a jump means
+ * the device booted several times without any reading reaching us.
+ */
+export const evaluateBootCount = (
+  previous: number | undefined,
+  current: number | undefined,
+  maxGap: number
+): { anomaly: BootCountAnomaly | null; delta: number } => {
+  if (typeof previous !== 'number' || typeof current !== 'number' || previous <= 0) {
+    return { anomaly: null, delta: 0 };
+  }
+
+  const delta = current - previous;
+  if (delta < 0) return { anomaly: 'reset', delta };
+  if (delta > maxGap) return { anomaly: 'jump', delta };
+  return { anomaly: null, delta };
+};
+
+/**
+ * Distance the vehicle covered while its device was silent, if beyond the tolerance
+ */
+export const unreportedDistance = (
+  lastKnownMileage: number | undefined,
+  observedMileage: number | undefined,
+  toleranceKm: number
+): number | null => {
+  if (typeof lastKnownMileage !== 'number' || typeof observedMileage !== 'number' || lastKnownMileage <= 0) {
+    return null;
+  }
+
+  const delta = observedMileage - lastKnownMileage;
+  return delta > toleranceKm ? delta : null;
+};
@@ -0,0 +1,96 @@
+import crypto from 'crypto';
+
+/**
+ * Device request signing helpers
+ *
+ * ESP32 devices sign every ingest request with their per-device secret:
+ *
+ *   signature = hex(HMAC-SHA256(secret, deviceID + "\n" + timestamp + "\n" + nonce + "\n" + hex(SHA256(body))))
+ *
+ * and send it in the X-Device-* headers below. The timestamp is unix epoch
+ * seconds (network time from the modem, not millis()), the nonce is a random
+ * string that must never be reused by the same device.
+ */
+
+export const DEVICE_AUTH_HEADERS = {
+  deviceId: 'x-device-id',
+  timestamp: 'x-device-timestamp',
+  nonce: 'x-device-nonce',
+  signature: 'x-device-signature'
+} as const;
+
+export interface DeviceSignatureInput {
+  deviceId: string;
+  timestamp: number | string;
+  nonce: string;
+  body: Buffer | string;
+}
+
+/**
+ * Generate a new random device secret (hex encoded, 256 bits)
+ */
+export const generateDeviceSecret = (): string => {
+  return crypto.randomBytes(32).toString('hex');
+};
+
+/**
+ * Build the canonical string that is signed by the device
+ */
+export const buildSigningString = ({ deviceId, timestamp, nonce, body }: DeviceSignatureInput): string => {
+  const bodyHash = crypto.createHash('sha256').update(body || '').digest('hex');
+  return [deviceId, String(timestamp), nonce, bodyHash].join('\n');
+};
+
+/**
+ * Compute the hex HMAC-SHA256 signature for a request
+ */
+export const signDeviceRequest = (secret: string, input: DeviceSignatureInput): string => {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(buildSigningString(input))
+    .digest('hex');
+};
+
+/**
+ * Constant-time comparison of a received signature against the expected one
+ */
+export const verifyDeviceSignature = (secret: string, input: DeviceSignatureInput, signature: string): boolean => {
+  if (!signature || !/^[0-9a-fA-F]{64}$/.test(signature)) {
+    return false;
+  }
+
+  const expected = Buffer.from(signDeviceRequest(secret, input), 'hex');
+  const received = Buffer.from(signature.toLowerCase(), 'hex');
+
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+};
+
+/**
+ * Check that a device timestamp (epoch seconds) is within the allowed clock skew
+ */
+export const isTimestampWithinSkew = (timestamp: number, maxSkewSeconds: number, now: number = Date.now()): boolean => {
+  if (!Number.isFinite(timestamp) || timestamp <= 0) {
+    return false;
+  }
+  return Math.abs(now / 1000 - timestamp) <= maxSkewSeconds;
+};
+
+/**
+ * Build the full set of auth headers for a signed request (used by tests and tools)
+ */
+export const buildDeviceAuthHeaders = (
+  secret: string,
+  deviceId: string,
+  body: Buffer | string,
+  options: { timestamp?: number; nonce?: string } = {}
+): Record<string, string> => {
+  const timestamp = options.timestamp ?? Math.floor(Date.now() / 1000);
+  const nonce = options.nonce ?? crypto.randomBytes(12).toString('hex');
+
+  return {
+    [DEVICE_AUTH_HEADERS.deviceId]: deviceId,
+    [DEVICE_AUTH_HEADERS.timestamp]: String(timestamp),
+    [DEVICE_AUTH_HEADERS.nonce]: nonce,
+    [DEVICE_AUTH_HEADERS.signature]: signDeviceRequest(secret, { deviceId, timestamp, nonce, body })
+  };
+};
@@ -0,0 +1,200 @@
+/**
+ * Driving behaviour metrics and score for usage-based insurance
+ *
+ * Readings are consumed in time order. Each interval between two readings is attributed to the
+ * state of the first one, so distance and durations only cover time the device was observing.
+ * Harsh acceleration and braking come from the speed change between readings close enough
+ * together for the rate to be meaningful.
+ */
+import { isEngineOn } from './tripDetection';
+
+export interface DrivingSample {
+  time: Date;
+  connected: boolean;
+  rpm?: number;
+  speed?: number; // km/h
+}
+
+export interface DrivingScoreOptions {
+  engineOnRpm: number;
+  maxIntervalSeconds: number; // Longer silences are not attributed to either reading
+  maxSampleGapSeconds: number; // Longest interval a speed change is rated over
+  harshAccelKmhPerS: number;
+  harshBrakeKmhPerS: number;
+  speedLimitKmh: number;
+  nightStartHour: number;
+  nightEndHour: number;
+  utcOffsetMinutes: number;
+  minDistanceKm: number;
+}
+
+export interface DrivingMetrics {
+  readings: number;
+  distanceKm: number;
+  engineOnSeconds: number;
+  movingSeconds: number;
+  idleSeconds: number;
+  overSpeedSeconds: number;
+  nightSeconds: number;
+  harshAccelerationCount: number;
+  harshBrakingCount: number;
+}
+
+export interface DrivingScoreComponent {
+  value: number; // Events per 100 km, or share of time in percent
+  score: number; // 0-100
+  weight: number;
+}
+
+export type DrivingRiskLevel = 'low' | 'medium' | 'high';
+
+export interface DrivingScoreResult {
+  score: number | null; // Null while there is too little driving to score
+  riskLevel: DrivingRiskLevel | null;
+  breakdown: {
+    harshAcceleration: DrivingScoreComponent;
+    harshBraking: DrivingScoreComponent;
+    overSpeeding: DrivingScoreComponent;
+    nightDriving: DrivingScoreComponent;
+    idling: DrivingScoreComponent;
+  };
+}
+
+const WEIGHTS = {
+  harshAcceleration: 0.2,
+  harshBraking: 0.25,
+  overSpeeding: 0.25,
+  nightDriving: 0.15,
+  idling: 0.15
+};
+
+const clampScore = (value: number): number => Math.round(Math.min(100, Math.max(0, value)));
+
+const round = (value: number, decimals = 1): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+export const isNightTime = (time: Date, options: Pick<DrivingScoreOptions, 'nightStartHour' | 'nightEndHour' | 'utcOffsetMinutes'>): boolean => {
+  const localMinutes = (time.getUTCHours() * 60 + time.getUTCMinutes() + options.utcOffsetMinutes + 1440) % 1440;
+  const hour = Math.floor(localMinutes / 60);
+  return options.nightStartHour > options.nightEndHour
+    ? hour >= options.nightStartHour || hour < options.nightEndHour
+    : hour >= options.nightStartHour && hour < options.nightEndHour;
+};
+
+/**
+ * Accumulate metrics over a stream of readings without holding them in memory
+ */
+export const createDrivingMetricsAccumulator = (options: DrivingScoreOptions) => {
+  const metrics: DrivingMetrics = {
+    readings: 0,
+    distanceKm: 0,
+    engineOnSeconds: 0,
+    movingSeconds: 0,
+    idleSeconds: 0,
+    overSpeedSeconds: 0,
+    nightSeconds: 0,
+    harshAccelerationCount: 0,
+    harshBrakingCount: 0
+  };
+  let previous: DrivingSample | null = null;
+  // A harsh manoeuvre spanning several readings counts once
+  let accelerating = false;
+  let braking = false;
+
+  const add = (sample: DrivingSample): void => {
+    metrics.readings++;
+    if (!previous || sample.time <= previous.time) {
+      previous = sample;
+      accelerating = braking = false;
+      return;
+    }
+
+    const seconds = (sample.time.getTime() - previous.time.getTime()) / 1000;
+    const engineOn = isEngineOn(previous, options.engineOnRpm);
+    const previousSpeed = previous.speed || 0;
+
+    if (seconds <= options.maxIntervalSeconds && engineOn) {
+      metrics.engineOnSeconds += seconds;
+      if (previousSpeed > 0) {
+        metrics.movingSeconds += seconds;
+        metrics.distanceKm += previousSpeed * seconds / 3600;
+      } else {
+        metrics.idleSeconds += seconds;
+      }
+      if (previousSpeed > options.speedLimitKmh) {
+        metrics.overSpeedSeconds += seconds;
+      }
+      if (isNightTime(previous.time, options)) {
+        metrics.nightSeconds += seconds;
+      }
+    }
+
+    if (seconds <= options.maxSampleGapSeconds && previous.connected && sample.connected) {
+      const rate = ((sample.speed || 0) - previousSpeed) / seconds;
+      const harshAcceleration = rate >= options.harshAccelKmhPerS;
+      const harshBraking = -rate >= options.harshBrakeKmhPerS;
+      if (harshAcceleration && !accelerating) metrics.harshAccelerationCount++;
+      if (harshBraking && !braking) metrics.harshBrakingCount++;
+      accelerating = harshAcceleration;
+      braking = harshBraking;
+    } else {
+      accelerating = braking = false;
+    }
+
+    previous = sample;
+  };
+
+  const result = (): DrivingMetrics => ({
+    ...metrics,
+    distanceKm: round(metrics.distanceKm),
+    engineOnSeconds: Math.round(metrics.engineOnSeconds),
+    movingSeconds: Math.round(metrics.movingSeconds),
+    idleSeconds: Math.round(metrics.idleSeconds),
+    overSpeedSeconds: Math.round(metrics.overSpeedSeconds),
+    nightSeconds: Math.round(metrics.nightSeconds)
+  });
+
+  return { add, result };
+};
+
+export const computeDrivingMetrics = (samples: DrivingSample[], options: DrivingScoreOptions): DrivingMetrics => {
+  const accumulator = createDrivingMetricsAccumulator(options);
+  samples.forEach(sample => accumulator.add(sample));
+  return accumulator.result();
+};
+
+/**
+ * Score the metrics. Each component maps to 0-100 and the score is their weighted average:
+ * - harsh acceleration / braking: 10 points per event per 100 km
+ * - over-speeding: 4 points per percent of moving time above the limit
+ * - night driving: 1 point per percent of engine-on time at night
+ * - idling: 2 points per percent of engine-on time at standstill
+ */
+export const scoreDrivingMetrics = (metrics: DrivingMetrics, options: Pick<DrivingScoreOptions, 'minDistanceKm'>): DrivingScoreResult => {
+  const per100Km = (count: number) => metrics.distanceKm > 0 ? count / metrics.distanceKm * 100 : 0;
+  const percentOf = (part: number, whole: number) => whole > 0 ? part / whole * 100 : 0;
+
+  const accelPer100 = per100Km(metrics.harshAccelerationCount);
+  const brakePer100 = per100Km(metrics.harshBrakingCount);
+  const overSpeedPct = percentOf(metrics.overSpeedSeconds, metrics.movingSeconds);
+  const nightPct = percentOf(metrics.nightSeconds, metrics.engineOnSeconds);
+  const idlePct = percentOf(metrics.idleSeconds, metrics.engineOnSeconds);
+
+  const breakdown: DrivingScoreResult['breakdown'] = {
+    harshAcceleration: { value: round(accelPer100, 2), score: clampScore(100 - accelPer100 * 10), weight: WEIGHTS.harshAcceleration },
+    harshBraking: { value: round(brakePer100, 2), score: clampScore(100 - brakePer100 * 10), weight: WEIGHTS.harshBraking },
+    overSpeeding: { value: round(overSpeedPct), score: clampScore(100 - overSpeedPct * 4), weight: WEIGHTS.overSpeeding },
+    nightDriving: { value: round(nightPct), score: clampScore(100 - nightPct), weight: WEIGHTS.nightDriving },
+    idling: { value: round(idlePct), score: clampScore(100 - idlePct * 2), weight: WEIGHTS.idling }
+  };
+
+  if (metrics.distanceKm < options.minDistanceKm) {
+    return { score: null, riskLevel: null, breakdown };
+  }
+
+  const score = clampScore(Object.values(breakdown).reduce((sum, component) => sum + component.score * component.weight, 0));
+  const riskLevel: DrivingRiskLevel = score >= 80 ? 'low' : score >= 60 ? 'medium' : 'high';
+  return { score, riskLevel, breakdown };
+};
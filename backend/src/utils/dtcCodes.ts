@@ -0,0 +1,192 @@
+/**
+ * OBD-II diagnostic trouble code helpers
+ *
+ * Descriptions cover the common SAE J2012 generic codes. Anything else (including
+ * manufacturer-specific codes) is described from the code structure.
+ */
+
+const DTC_PATTERN = /^[PCBU][0-3][0-9A-F]{3}$/;
+
+const DTC_DESCRIPTIONS: Record<string, string> = {
+  // Fuel and air metering
+  P0100: 'Mass or Volume Air Flow Circuit Malfunction',
+  P0101: 'Mass or Volume Air Flow Circuit Range/Performance',
+  P0102: 'Mass or Volume Air Flow Circuit Low Input',
+  P0103: 'Mass or Volume Air Flow Circuit High Input',
+  P0106: 'Manifold Absolute Pressure/Barometric Pressure Circuit Range/Performance',
+  P0107: 'Manifold Absolute Pressure/Barometric Pressure Circuit Low Input',
+  P0108: 'Manifold Absolute Pressure/Barometric Pressure Circuit High Input',
+  P0110: 'Intake Air Temperature Circuit Malfunction',
+  P0112: 'Intake Air Temperature Circuit Low Input',
+  P0113: 'Intake Air Temperature Circuit High Input',
+  P0115: 'Engine Coolant Temperature Circuit Malfunction',
+  P0116: 'Engine Coolant Temperature Circuit Range/Performance',
+  P0117: 'Engine Coolant Temperature Circuit Low Input',
+  P0118: 'Engine Coolant Temperature Circuit High Input',
+  P0120: 'Throttle Position Sensor/Switch A Circuit Malfunction',
+  P0121: 'Throttle Position Sensor/Switch A Circuit Range/Performance',
+  P0122: 'Throttle Position Sensor/Switch A Circuit Low Input',
+  P0123: 'Throttle Position Sensor/Switch A Circuit High Input',
+  P0125: 'Insufficient Coolant Temperature for Closed Loop Fuel Control',
+  P0128: 'Coolant Thermostat (Coolant Temperature Below Thermostat Regulating Temperature)',
+  P0130: 'O2 Sensor Circuit Malfunction (Bank 1 Sensor 1)',
+  P0131: 'O2 Sensor Circuit Low Voltage (Bank 1 Sensor 1)',
+  P0132: 'O2 Sensor Circuit High Voltage (Bank 1 Sensor 1)',
+  P0133: 'O2 Sensor Circuit Slow Response (Bank 1 Sensor 1)',
+  P0134: 'O2 Sensor Circuit No Activity Detected (Bank 1 Sensor 1)',
+  P0135: 'O2 Sensor Heater Circuit Malfunction (Bank 1 Sensor 1)',
+  P0136: 'O2 Sensor Circuit Malfunction (Bank 1 Sensor 2)',
+  P0137: 'O2 Sensor Circuit Low Voltage (Bank 1 Sensor 2)',
+  P0138: 'O2 Sensor Circuit High Voltage (Bank 1 Sensor 2)',
+  P0140: 'O2 Sensor Circuit No Activity Detected (Bank 1 Sensor 2)',
+  P0141: 'O2 Sensor Heater Circuit Malfunction (Bank 1 Sensor 2)',
+  P0151: 'O2 Sensor Circuit Low Voltage (Bank 2 Sensor 1)',
+  P0155: 'O2 Sensor Heater Circuit Malfunction (Bank 2 Sensor 1)',
+  P0171: 'System Too Lean (Bank 1)',
+  P0172: 'System Too Rich (Bank 1)',
+  P0174: 'System Too Lean (Bank 2)',
+  P0175: 'System Too Rich (Bank 2)',
+
+  // Fuel and air metering (injector circuit)
+  P0200: 'Injector Circuit Malfunction',
+  P0201: 'Injector Circuit Malfunction - Cylinder 1',
+  P0202: 'Injector Circuit Malfunction - Cylinder 2',
+  P0203: 'Injector Circuit Malfunction - Cylinder 3',
+  P0204: 'Injector Circuit Malfunction - Cylinder 4',
+  P0217: 'Engine Overtemperature Condition',
+  P0219: 'Engine Overspeed Condition',
+  P0230: 'Fuel Pump Primary Circuit Malfunction',
+  P0234: 'Engine Overboost Condition',
+  P0299: 'Turbocharger/Supercharger Underboost Condition',
+
+  // Ignition system or misfire
+  P0300: 'Random/Multiple Cylinder Misfire Detected',
+  P0301: 'Cylinder 1 Misfire Detected',
+  P0302: 'Cylinder 2 Misfire Detected',
+  P0303: 'Cylinder 3 Misfire Detected',
+  P0304: 'Cylinder 4 Misfire Detected',
+  P0305: 'Cylinder 5 Misfire Detected',
+  P0306: 'Cylinder 6 Misfire Detected',
+  P0325: 'Knock Sensor 1 Circuit Malfunction (Bank 1)',
+  P0335: 'Crankshaft Position Sensor A Circuit Malfunction',
+  P0336: 'Crankshaft Position Sensor A Circuit Range/Performance',
+  P0340: 'Camshaft Position Sensor Circuit Malfunction',
+  P0341: 'Camshaft Position Sensor Circuit Range/Performance',
+  P0351: 'Ignition Coil A Primary/Secondary Circuit Malfunction',
+
+  // Auxiliary emission controls
+  P0400: 'Exhaust Gas Recirculation Flow Malfunction',
+  P0401: 'Exhaust Gas Recirculation Flow Insufficient Detected',
+  P0402: 'Exhaust Gas Recirculation Flow Excessive Detected',
+  P0411: 'Secondary Air Injection System Incorrect Flow Detected',
+  P0420: 'Catalyst System Efficiency Below Threshold (Bank 1)',
+  P0421: 'Warm Up Catalyst Efficiency Below Threshold (Bank 1)',
+  P0430: 'Catalyst System Efficiency Below Threshold (Bank 2)',
+  P0440: 'Evaporative Emission Control System Malfunction',
+  P0441: 'Evaporative Emission Control System Incorrect Purge Flow',
+  P0442: 'Evaporative Emission Control System Leak Detected (Small Leak)',
+  P0443: 'Evaporative Emission Control System Purge Control Valve Circuit Malfunction',
+  P0446: 'Evaporative Emission Control System Vent Control Circuit Malfunction',
+  P0455: 'Evaporative Emission Control System Leak Detected (Gross Leak)',
+  P0456: 'Evaporative Emission Control System Leak Detected (Very Small Leak)',
+
+  // Vehicle speed, idle control
+  P0500: 'Vehicle Speed Sensor Malfunction',
+  P0501: 'Vehicle Speed Sensor Range/Performance',
+  P0505: 'Idle Control System Malfunction',
+  P0506: 'Idle Control System RPM Lower Than Expected',
+  P0507: 'Idle Control System RPM Higher Than Expected',
+  P0520: 'Engine Oil Pressure Sensor/Switch Circuit Malfunction',
+  P0562: 'System Voltage Low',
+  P0563: 'System Voltage High',
+
+  // Computer output circuit
+  P0600: 'Serial Communication Link Malfunction',
+  P0601: 'Internal Control Module Memory Check Sum Error',
+  P0603: 'Internal Control Module Keep Alive Memory (KAM) Error',
+  P0605: 'Internal Control Module Read Only Memory (ROM) Error',
+  P0606: 'PCM Processor Fault',
+
+  // Transmission
+  P0700: 'Transmission Control System Malfunction',
+  P0705: 'Transmission Range Sensor Circuit Malfunction (PRNDL Input)',
+  P0715: 'Input/Turbine Speed Sensor Circuit Malfunction',
+  P0720: 'Output Speed Sensor Circuit Malfunction',
+  P0730: 'Incorrect Gear Ratio',
+  P0740: 'Torque Converter Clutch Circuit Malfunction',
+  P0750: 'Shift Solenoid A Malfunction',
+  P0755: 'Shift Solenoid B Malfunction',
+
+  // Network
+  U0001: 'High Speed CAN Communication Bus',
+  U0100: 'Lost Communication With ECM/PCM A',
+  U0101: 'Lost Communication With TCM',
+  U0121: 'Lost Communication With Anti-Lock Brake System (ABS) Control Module',
+  U0140: 'Lost Communication With Body Control Module',
+  U0155: 'Lost Communication With Instrument Panel Cluster (IPC) Control Module'
+};
+
+const SYSTEMS: Record<string, string> = {
+  P: 'Powertrain',
+  C: 'Chassis',
+  B: 'Body',
+  U: 'Network'
+};
+
+const POWERTRAIN_SUBSYSTEMS: Record<string, string> = {
+  '0': 'fuel and air metering / auxiliary emission controls',
+  '1': 'fuel and air metering',
+  '2': 'fuel and air metering, injector circuit',
+  '3': 'ignition system or misfire',
+  '4': 'auxiliary emission controls',
+  '5': 'vehicle speed, idle control and auxiliary inputs',
+  '6': 'computer and output circuits',
+  '7': 'transmission',
+  '8': 'transmission',
+  '9': 'transmission',
+  A: 'hybrid propulsion',
+  B: 'hybrid propulsion',
+  C: 'hybrid propulsion'
+};
+
+/**
+ * Normalise a reported code (e.g. "p0420", " P0420 ") or return null if it is not a valid DTC
+ */
+export const normalizeDtc = (code: unknown): string | null => {
+  if (typeof code !== 'string') return null;
+  const normalized = code.trim().toUpperCase();
+  return DTC_PATTERN.test(normalized) ? normalized : null;
+};
+
+/**
+ * Human readable description for a code
+ */
+export const describeDtc = (code: string): string => {
+  const normalized = normalizeDtc(code);
+  if (!normalized) return 'Unknown code';
+  if (DTC_DESCRIPTIONS[normalized]) return DTC_DESCRIPTIONS[normalized];
+
+  const system = SYSTEMS[normalized[0]];
+  const generic = normalized[1] === '0' || normalized[1] === '2';
+  const subsystem = normalized[0] === 'P' ? POWERTRAIN_SUBSYSTEMS[normalized[2]] : undefined;
+
+  return `${generic ? 'Generic' : 'Manufacturer-specific'} ${system.toLowerCase()} fault${subsystem ? ` (${subsystem})` : ''}`;
+};
+
+/**
+ * Whether a scan shows the codes were wiped (scan tool "clear codes" or battery disconnect).
+ * The "distance since codes cleared" counter (PID 0x31) restarting is conclusive; without it,
+ * every open code disappearing at once with the MIL off is treated as a reset.
+ */
+export const detectCodesCleared = (
+  previousDistanceSinceClearedKm: number | undefined,
+  distanceSinceClearedKm: number | undefined,
+  openCodes: number,
+  reportedCodes: number,
+  milOn?: boolean
+): boolean => {
+  if (typeof distanceSinceClearedKm === 'number' && typeof previousDistanceSinceClearedKm === 'number') {
+    return distanceSinceClearedKm < previousDistanceSinceClearedKm;
+  }
+  return openCodes > 0 && reportedCodes === 0 && milOn !== true;
+};
@@ -0,0 +1,138 @@
+/**
+ * Helpers for finding cloned VINs and number plates across the fleet
+ *
+ * A clone shows up in three ways: the same identifier reported from places no vehicle could
+ * travel between in time, a VIN one character away from a registered one where only one of the
+ * two passes the ISO 3779 check digit (a copied VIN with a typo, or an altered one), and the same
+ * identifier on registrations of different owners.
+ */
+
+import { GeoFix, haversineKm, isUsableFix } from './gpsOdometer';
+
+export interface Sighting extends GeoFix {
+  deviceId: string;
+  vehicleId?: string;
+  at: Date;
+}
+
+export interface TravelConflict {
+  from: Sighting;
+  to: Sighting;
+  distanceKm: number;
+  hours: number;
+  speedKmh: number;
+}
+
+export interface TravelOptions {
+  maxSpeedKmh: number; // Faster than this between two devices is impossible travel
+  minDistanceKm: number; // Closer sightings are never a conflict (GPS error, same car park)
+  maxFixAccuracyM: number;
+}
+
+export interface NearDuplicateVin {
+  vins: [string, string];
+  position: number; // 1-based position of the differing character
+  invalidCheckDigit: string; // The one of the two that fails the check digit
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const VIN_LENGTH = 17;
+const CHECK_DIGIT_INDEX = 8;
+const WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9
+};
+
+/**
+ * The check digit a VIN should carry in position 9, or null if it is not a well-formed VIN
+ */
+export const vinCheckDigit = (vin: string): string | null => {
+  if (!/^[A-HJ-NPR-Z0-9]{17}$/.test(vin)) return null;
+
+  let sum = 0;
+  for (let index = 0; index < VIN_LENGTH; index++) {
+    const char = vin[index];
+    const value = /\d/.test(char) ? Number(char) : TRANSLITERATION[char];
+    sum += value * WEIGHTS[index];
+  }
+
+  const remainder = sum % 11;
+  return remainder === 10 ? 'X' : String(remainder);
+};
+
+export const hasValidCheckDigit = (vin: string): boolean => vinCheckDigit(vin) === vin[CHECK_DIGIT_INDEX];
+
+/**
+ * Pairs of VINs that differ in exactly one character where one passes the check digit and the
+ * other fails it. Two genuine check-digit VINs that close almost never both pass, so the failing
+ * one is suspect. Pairs failing both are skipped: outside North America the check digit is
+ * optional, and sequential VINs of those makers fail it together.
+ */
+export const findNearDuplicateVins = (vins: string[]): NearDuplicateVin[] => {
+  const unique = [...new Set(vins.filter(vin => vin?.length === VIN_LENGTH))];
+
+  // Masking one position at a time puts one-character neighbours in the same bucket
+  const buckets = new Map<string, string[]>();
+  for (const vin of unique) {
+    for (let index = 0; index < VIN_LENGTH; index++) {
+      const key = `${index}:${vin.slice(0, index)}${vin.slice(index + 1)}`;
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(vin);
+      else buckets.set(key, [vin]);
+    }
+  }
+
+  const pairs: NearDuplicateVin[] = [];
+  for (const [key, bucket] of buckets) {
+    if (bucket.length < 2) continue;
+    const position = Number(key.slice(0, key.indexOf(':'))) + 1;
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const pair = [bucket[i], bucket[j]].sort() as [string, string];
+        const invalid = pair.filter(vin => !hasValidCheckDigit(vin));
+        if (invalid.length === 1) {
+          pairs.push({ vins: pair, position, invalidCheckDigit: invalid[0] });
+        }
+      }
+    }
+  }
+
+  return pairs.sort((a, b) => a.vins[0].localeCompare(b.vins[0]) || a.vins[1].localeCompare(b.vins[1]));
+};
+
+/**
+ * Consecutive sightings of one identifier from different devices that no vehicle could
+ * have covered in the time between them, fastest first
+ */
+export const findImpossibleTravel = (sightings: Sighting[], options: TravelOptions): TravelConflict[] => {
+  const usable = sightings
+    .filter(sighting => isUsableFix(sighting, options.maxFixAccuracyM))
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+
+  const conflicts: TravelConflict[] = [];
+  for (let index = 1; index < usable.length; index++) {
+    const from = usable[index - 1];
+    const to = usable[index];
+    if (from.deviceId === to.deviceId) continue;
+
+    const distanceKm = haversineKm(from, to);
+    if (distanceKm < options.minDistanceKm) continue;
+
+    const hours = (to.at.getTime() - from.at.getTime()) / HOUR_MS;
+    // Simultaneous sightings count as one second apart so the speed stays a number
+    const speedKmh = distanceKm / Math.max(hours, 1 / 3600);
+    if (speedKmh > options.maxSpeedKmh) {
+      conflicts.push({
+        from,
+        to,
+        distanceKm: Math.round(distanceKm * 10) / 10,
+        hours: Math.round(hours * 100) / 100,
+        speedKmh: Math.round(speedKmh)
+      });
+    }
+  }
+
+  return conflicts.sort((a, b) => b.speedKmh - a.speedKmh);
+};
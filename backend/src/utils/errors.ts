@@ -71,6 +71,15 @@ export class ConflictError extends ApiError {
   }
 }
 
+/**
+ * Vehicle Hold Error class - the vehicle is under a hold that blocks the action
+ */
+export class VehicleHoldError extends ApiError {
+  constructor(message: string, details?: any) {
+    super(409, message, 'VEHICLE_HOLD_ERROR', details);
+  }
+}
+
 /**
  * Rate Limit Error class
  */
@@ -0,0 +1,52 @@
+/**
+ * Fraud alert case workflow
+ *
+ * Alerts open as `active`, move to `investigating` once someone picks them up and close as
+ * `resolved` (fraud confirmed or otherwise dealt with) or `false_positive`. Closed cases can be
+ * reopened into `investigating`.
+ *
+ * A false positive must not keep costing the vehicle trust score, so the trust events raised
+ * for an alert are netted against admin reversals whenever its status changes.
+ */
+
+export type FraudCaseStatus = 'active' | 'investigating' | 'resolved' | 'false_positive';
+
+export const FRAUD_CASE_STATUSES: FraudCaseStatus[] = ['active', 'investigating', 'resolved', 'false_positive'];
+
+export const FRAUD_CASE_TRANSITIONS: Record<FraudCaseStatus, FraudCaseStatus[]> = {
+  active: ['investigating', 'resolved', 'false_positive'],
+  investigating: ['active', 'resolved', 'false_positive'],
+  resolved: ['investigating'],
+  false_positive: ['investigating']
+};
+
+// Closing a case needs a note saying why
+export const CLOSED_FRAUD_CASE_STATUSES: FraudCaseStatus[] = ['resolved', 'false_positive'];
+
+export const FRAUD_CASE_SORTS = ['severity', 'newest', 'oldest'] as const;
+export type FraudCaseSort = typeof FRAUD_CASE_SORTS[number];
+
+export const canTransition = (from: FraudCaseStatus, to: FraudCaseStatus): boolean =>
+  FRAUD_CASE_TRANSITIONS[from]?.includes(to) ?? false;
+
+// Trust events linked to an alert, as stored
+export interface AlertTrustEvent {
+  source: string;
+  previousScore: number;
+  newScore: number;
+}
+
+/**
+ * Trust score change still needed so the alert's net effect matches its status.
+ *
+ * Uses the applied change (newScore - previousScore) rather than the requested one, because the
+ * score is clamped to 0-100 and reversing the requested amount could over-credit the vehicle.
+ * Admin events are earlier reversals; everything else is the penalty the alert caused.
+ */
+export const trustAdjustmentFor = (status: FraudCaseStatus, events: AlertTrustEvent[]): number => {
+  const applied = (event: AlertTrustEvent) => event.newScore - event.previousScore;
+  const penalty = events.filter(event => event.source !== 'admin').reduce((sum, event) => sum + applied(event), 0);
+  const net = events.reduce((sum, event) => sum + applied(event), 0);
+  const target = status === 'false_positive' ? 0 : penalty;
+  return target - net;
+};
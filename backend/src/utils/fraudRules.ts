@@ -0,0 +1,262 @@
+/**
+ * Odometer fraud rules
+ *
+ * Each rule has a key, a severity, a trust-score impact, whether it blocks the reading and
+ * numeric thresholds. Admins tune these per rule; each change is stored as a new version, and
+ * decisions record the versions they were evaluated against so they can be replayed.
+ *
+ * All distances are kilometres.
+ */
+
+export type FraudRuleSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+// Where a mileage reading comes from
+export type FraudRuleSource = 'device' | 'manual' | 'blockchain' | 'batch';
+
+export const FRAUD_RULE_SEVERITIES: FraudRuleSeverity[] = ['low', 'medium', 'high', 'critical'];
+export const FRAUD_RULE_SOURCES: FraudRuleSource[] = ['device', 'manual', 'blockchain', 'batch'];
+
+// Tunable part of a rule
+export interface FraudRuleSettings {
+  enabled: boolean;
+  severity: FraudRuleSeverity;
+  trustImpact: number; // Trust score change when the rule fires (zero or negative)
+  blocking: boolean; // Reject the reading instead of only flagging it
+  sources: FraudRuleSource[];
+  thresholds: Record<string, number>;
+}
+
+export interface FraudRuleConfig extends FraudRuleSettings {
+  key: string;
+  version: number;
+}
+
+// Everything the rules look at; stored with each decision so it can be replayed
+export interface MileageCheckInput {
+  source: FraudRuleSource;
+  reportedMileage: number;
+  previousMileage?: number | null;
+  previousRecordedAt?: Date | string | null;
+  recordedAt?: Date | string;
+  recentIncreases?: number[]; // Earlier increases between consecutive records, newest first
+  batchStartMileage?: number; // Opening odometer of a trip batch
+}
+
+export interface FraudRuleMatch {
+  ruleKey: string;
+  ruleVersion: number;
+  severity: FraudRuleSeverity;
+  trustImpact: number;
+  blocking: boolean;
+  reason: string;
+}
+
+export interface FraudEvaluation {
+  flagged: boolean;
+  blocked: boolean;
+  severity: FraudRuleSeverity | null;
+  trustImpact: number;
+  matches: FraudRuleMatch[];
+  rules: Array<{ key: string; version: number }>; // Every rule version evaluated, fired or not
+}
+
+export interface FraudRuleDefinition {
+  key: string;
+  name: string;
+  description: string;
+  defaults: FraudRuleSettings;
+  // Reason the rule fires, or null
+  evaluate(input: MileageCheckInput, thresholds: Record<string, number>): string | null;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const elapsedHours = (input: MileageCheckInput): number | null => {
+  if (!input.previousRecordedAt) return null;
+  const from = new Date(input.previousRecordedAt).getTime();
+  const to = new Date(input.recordedAt || Date.now()).getTime();
+  if (!Number.isFinite(from) || !Number.isFinite(to) || to <= from) return null;
+  return (to - from) / HOUR_MS;
+};
+
+const hasPrevious = (input: MileageCheckInput): boolean =>
+  input.previousMileage !== undefined && input.previousMileage !== null;
+
+const dailyDistanceRule = (
+  key: string,
+  name: string,
+  defaults: Pick<FraudRuleSettings, 'severity' | 'trustImpact'> & { maxKmPerDay: number }
+): FraudRuleDefinition => ({
+  key,
+  name,
+  description: 'Average distance per day since the previous reading is above maxKmPerDay. Only checked once minElapsedHours have passed, so a single long drive does not count as a daily rate.',
+  defaults: {
+    enabled: true,
+    severity: defaults.severity,
+    trustImpact: defaults.trustImpact,
+    blocking: false,
+    sources: ['manual', 'blockchain'],
+    thresholds: { maxKmPerDay: defaults.maxKmPerDay, minElapsedHours: 24 }
+  },
+  evaluate(input, thresholds) {
+    const hours = elapsedHours(input);
+    if (!hasPrevious(input) || hours === null || hours < thresholds.minElapsedHours) return null;
+    const perDay = (input.reportedMileage - input.previousMileage!) / (hours / 24);
+    return perDay > thresholds.maxKmPerDay
+      ? `${name}: ${Math.round(perDay)} km/day over ${Math.round(hours)} h (limit ${thresholds.maxKmPerDay})`
+      : null;
+  }
+});
+
+/**
+ * Built-in rules. Their defaults become version 1 on a fresh database.
+ */
+export const FRAUD_RULES: FraudRuleDefinition[] = [
+  {
+    key: 'odometer_rollback',
+    name: 'Odometer rollback',
+    description: 'Reported odometer is below the last verified value by more than toleranceKm.',
+    defaults: {
+      enabled: true,
+      severity: 'high',
+      trustImpact: -30,
+      blocking: true,
+      sources: ['device', 'manual', 'blockchain', 'batch'],
+      thresholds: { toleranceKm: 0 }
+    },
+    evaluate(input, thresholds) {
+      if (!hasPrevious(input) || input.reportedMileage >= input.previousMileage! - thresholds.toleranceKm) return null;
+      if (input.reportedMileage === 0) {
+        return `Odometer reset to zero from ${input.previousMileage} km`;
+      }
+      const delta = input.previousMileage! - input.reportedMileage;
+      return `Odometer rollback: ${input.reportedMileage} < ${input.previousMileage} (${delta} km decrease)`;
+    }
+  },
+  dailyDistanceRule('unrealistic_daily_distance', 'Unrealistic daily distance', {
+    severity: 'high',
+    trustImpact: -20,
+    maxKmPerDay: 800
+  }),
+  dailyDistanceRule('high_daily_distance', 'High daily distance', {
+    severity: 'medium',
+    trustImpact: -5,
+    maxKmPerDay: 320
+  }),
+  {
+    key: 'mileage_jump',
+    name: 'Mileage jump',
+    description: 'Odometer increased by more than maxIncreaseKm in a single update.',
+    defaults: {
+      enabled: true,
+      severity: 'medium',
+      trustImpact: -10,
+      blocking: false,
+      sources: ['manual', 'blockchain'],
+      thresholds: { maxIncreaseKm: 16000 }
+    },
+    evaluate(input, thresholds) {
+      if (!hasPrevious(input)) return null;
+      const increase = input.reportedMileage - input.previousMileage!;
+      return increase > thresholds.maxIncreaseKm
+        ? `Mileage jump: +${increase} km in one update (limit ${thresholds.maxIncreaseKm})`
+        : null;
+    }
+  },
+  {
+    key: 'sudden_increase',
+    name: 'Sudden increase',
+    description: 'Increase is more than factor times the average of recent increases (needs minHistory earlier increases).',
+    defaults: {
+      enabled: true,
+      severity: 'low',
+      trustImpact: 0,
+      blocking: false,
+      sources: ['manual'],
+      thresholds: { factor: 3, minHistory: 2 }
+    },
+    evaluate(input, thresholds) {
+      const increases = (input.recentIncreases || []).filter(increase => increase > 0);
+      if (!hasPrevious(input) || increases.length < thresholds.minHistory) return null;
+      const average = increases.reduce((sum, increase) => sum + increase, 0) / increases.length;
+      const increase = input.reportedMileage - input.previousMileage!;
+      return increase > average * thresholds.factor
+        ? `Sudden increase: +${increase} km vs ${Math.round(average)} km on average`
+        : null;
+    }
+  },
+  {
+    key: 'batch_start_gap',
+    name: 'Batch start gap',
+    description: 'Opening odometer of a trip batch is more than maxGapKm away from the last recorded value.',
+    defaults: {
+      enabled: true,
+      severity: 'medium',
+      trustImpact: -10,
+      blocking: true,
+      sources: ['batch'],
+      thresholds: { maxGapKm: 100 }
+    },
+    evaluate(input, thresholds) {
+      if (!hasPrevious(input) || input.batchStartMileage === undefined) return null;
+      const gap = Math.abs(input.batchStartMileage - input.previousMileage!);
+      return gap > thresholds.maxGapKm
+        ? `Large gap between last recorded mileage (${input.previousMileage}) and batch start (${input.batchStartMileage})`
+        : null;
+    }
+  }
+];
+
+export const getFraudRuleDefinition = (key: string): FraudRuleDefinition | undefined =>
+  FRAUD_RULES.find(rule => rule.key === key);
+
+export const severityRank = (severity: FraudRuleSeverity): number => FRAUD_RULE_SEVERITIES.indexOf(severity);
+
+// 0-1 fraud score for records that store one (mileage history treats above 0.7 as high risk)
+export const FRAUD_SEVERITY_SCORE: Record<FraudRuleSeverity, number> = {
+  low: 0.25,
+  medium: 0.5,
+  high: 0.8,
+  critical: 1
+};
+
+/**
+ * Run every enabled rule that applies to the input's source
+ */
+export const evaluateFraudRules = (input: MileageCheckInput, configs: FraudRuleConfig[]): FraudEvaluation => {
+  const matches: FraudRuleMatch[] = [];
+  const rules: Array<{ key: string; version: number }> = [];
+
+  for (const config of configs) {
+    const definition = getFraudRuleDefinition(config.key);
+    if (!definition || !config.enabled || !config.sources.includes(input.source)) continue;
+
+    rules.push({ key: config.key, version: config.version });
+    // Thresholds added to a rule after a version was saved fall back to their defaults
+    const reason = definition.evaluate(input, { ...definition.defaults.thresholds, ...config.thresholds });
+    if (reason) {
+      matches.push({
+        ruleKey: config.key,
+        ruleVersion: config.version,
+        severity: config.severity,
+        trustImpact: config.trustImpact,
+        blocking: config.blocking,
+        reason
+      });
+    }
+  }
+
+  const severity = matches.reduce<FraudRuleSeverity | null>(
+    (worst, match) => (worst === null || severityRank(match.severity) > severityRank(worst) ? match.severity : worst),
+    null
+  );
+
+  return {
+    flagged: matches.length > 0,
+    blocked: matches.some(match => match.blocking),
+    severity,
+    trustImpact: matches.reduce((sum, match) => sum + match.trustImpact, 0),
+    matches,
+    rules
+  };
+};
@@ -0,0 +1,94 @@
+/**
+ * Helpers for cross-checking GPS distance against the odometer
+ *
+ * Straight lines between fixes always under-estimate the road distance, so the odometer
+ * is allowed to run ahead of GPS by a route factor; it should never fall behind it.
+ */
+
+export type DistanceSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export interface GeoFix {
+  latitude?: number;
+  longitude?: number;
+  accuracy?: number;
+}
+
+export interface DivergenceOptions {
+  tolerancePct: number;
+  routeFactor: number;
+}
+
+export interface DivergenceAssessment {
+  direction: 'under' | 'over' | null; // odometer behind GPS, or ahead of it beyond the route factor
+  divergencePct: number;
+  severity: DistanceSeverity | null;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two fixes in kilometres
+ */
+export const haversineKm = (from: GeoFix, to: GeoFix): number => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+/**
+ * A fix is usable when it has coordinates, is not the (0, 0) "no fix" value and is accurate enough
+ */
+export const isUsableFix = (fix: GeoFix | undefined, maxAccuracyM: number): boolean => {
+  if (!fix || typeof fix.latitude !== 'number' || typeof fix.longitude !== 'number') return false;
+  if (fix.latitude === 0 && fix.longitude === 0) return false;
+  if (Math.abs(fix.latitude) > 90 || Math.abs(fix.longitude) > 180) return false;
+  return typeof fix.accuracy !== 'number' || fix.accuracy <= maxAccuracyM;
+};
+
+/**
+ * Distance to add for one segment; movement within the combined accuracy is treated as GPS jitter
+ */
+export const segmentDistanceKm = (from: GeoFix, to: GeoFix): number => {
+  const distance = haversineKm(from, to);
+  const jitterKm = ((from.accuracy || 0) + (to.accuracy || 0)) / 1000;
+  return distance <= jitterKm ? 0 : distance;
+};
+
+/**
+ * Grade how far the odometer distance diverges from the GPS distance over a window.
+ * Severity steps up with each multiple of the tolerance.
+ */
+export const assessDivergence = (
+  gpsKm: number,
+  odometerKm: number,
+  options: DivergenceOptions
+): DivergenceAssessment => {
+  const tolerance = options.tolerancePct / 100;
+  let direction: DivergenceAssessment['direction'] = null;
+  let divergence = 0;
+
+  if (odometerKm < gpsKm) {
+    direction = 'under';
+    divergence = (gpsKm - odometerKm) / gpsKm;
+  } else {
+    const expectedMaxKm = gpsKm * options.routeFactor;
+    if (odometerKm > expectedMaxKm) {
+      direction = 'over';
+      divergence = expectedMaxKm > 0 ? (odometerKm - expectedMaxKm) / expectedMaxKm : Infinity;
+    }
+  }
+
+  const divergencePct = Number.isFinite(divergence) ? Math.round(divergence * 1000) / 10 : 100;
+
+  let severity: DistanceSeverity | null = null;
+  if (divergence > tolerance * 4) severity = 'critical';
+  else if (divergence > tolerance * 3) severity = 'high';
+  else if (divergence > tolerance * 2) severity = 'medium';
+  else if (divergence > tolerance) severity = 'low';
+
+  return { direction: severity ? direction : null, divergencePct, severity };
+};
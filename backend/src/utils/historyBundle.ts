@@ -0,0 +1,335 @@
+import crypto from 'crypto';
+import { MerkleTreeBuilder } from './merkle';
+
+/**
+ * Vehicle history bundles
+ *
+ * A bundle is everything needed to check a vehicle's telemetry history without our API: the
+ * anchored days (segment leaves, Merkle root, anchor tx ids), a snapshot of the anchor
+ * transactions on the ledger, the wallets allowed to sign them, and a summary report. The
+ * platform signs the whole bundle:
+ *
+ *   signature = base64(Ed25519(signingKey, canonicalJson(bundle without "signature")))
+ *
+ * where canonicalJson sorts object keys at every level. Verification re-hashes the leaves with
+ * MerkleTreeBuilder.hashSegment, rebuilds each day's root and checks it against the root in the
+ * anchor memo of the snapshot, which must be signed by one of the listed wallets and name the
+ * vehicle and day. It runs fully offline.
+ */
+
+export const HISTORY_BUNDLE_FORMAT = 'trivexachain.history-bundle';
+export const HISTORY_BUNDLE_VERSION = 1;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// DER headers of an Ed25519 PKCS#8 private key and SPKI public key around the raw 32 bytes
+const PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+const SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+export interface BundleSegmentLeaf {
+  index: number;
+  startTime: string;
+  endTime: string;
+  distance: number;
+  rawDataCID: string | null;
+}
+
+export interface BundleDay {
+  date: string;
+  status: string;
+  merkleRoot: string;
+  solanaTx: string | null;
+  arweaveTx: string | null;
+  totalDistance: number;
+  segments: BundleSegmentLeaf[];
+}
+
+// An anchor transaction as the ledger returned it at export time
+export interface LedgerSnapshotEntry {
+  signature: string;
+  slot: number;
+  blockTime: number | null;
+  signer: string | null;
+  memo: string | null;
+  confirmationStatus: string | null;
+  err: any;
+}
+
+export interface HistoryReport {
+  vehicleId: string;
+  vin: string;
+  make: string | null;
+  model: string | null;
+  year: number | null;
+  currentMileage: number | null;
+  trustScore: number | null;
+  from: string | null;
+  to: string | null;
+  daysCount: number;
+  anchoredDays: number;
+  totalDistance: number;
+  generatedAt: string;
+}
+
+export interface BundleSignature {
+  algorithm: 'ed25519';
+  publicKey: string; // base64 of the raw 32 byte key
+  value: string; // base64
+}
+
+export interface HistoryBundle {
+  format: typeof HISTORY_BUNDLE_FORMAT;
+  version: number;
+  network: string;
+  report: HistoryReport;
+  anchorSigners: string[];
+  days: BundleDay[];
+  ledger: LedgerSnapshotEntry[];
+  signature: BundleSignature;
+}
+
+export type UnsignedHistoryBundle = Omit<HistoryBundle, 'signature'>;
+
+export interface DayVerification {
+  date: string;
+  passed: boolean;
+  merkleRoot: string | null;
+  computedRoot: string | null;
+  anchoredRoot: string | null;
+  solanaTx: string | null;
+  segmentsCount: number;
+  reasons: string[];
+}
+
+export interface BundleVerification {
+  passed: boolean;
+  vehicleId: string | null;
+  vin: string | null;
+  network: string | null;
+  signature: {
+    valid: boolean;
+    publicKey: string | null;
+    pinned: boolean;
+    reasons: string[];
+  };
+  days: DayVerification[];
+  reasons: string[];
+}
+
+export interface VerifyBundleOptions {
+  // Platform key the auditor obtained out of band; without it any well-formed signature passes
+  publicKey?: string;
+}
+
+/**
+ * JSON with object keys sorted at every level, so the signed bytes do not depend on key order
+ */
+export const canonicalJson = (value: any): string => {
+  if (value !== null && typeof value === 'object' && typeof value.toJSON === 'function') {
+    return canonicalJson(value.toJSON());
+  }
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => (item === undefined ? 'null' : canonicalJson(item))).join(',')}]`;
+  }
+
+  const keys = Object.keys(value).filter(key => value[key] !== undefined).sort();
+  return `{${keys.map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`).join(',')}}`;
+};
+
+/**
+ * Base64 public key of an Ed25519 signing key given as its 32 byte seed
+ */
+export const bundlePublicKey = (seed: Buffer): string => {
+  const publicKey = crypto.createPublicKey(privateKeyFromSeed(seed)).export({ format: 'der', type: 'spki' });
+  return publicKey.subarray(SPKI_PREFIX.length).toString('base64');
+};
+
+/**
+ * Sign a bundle with the platform's Ed25519 seed
+ */
+export const signHistoryBundle = (bundle: UnsignedHistoryBundle, seed: Buffer): HistoryBundle => {
+  const value = crypto.sign(null, Buffer.from(canonicalJson(bundle)), privateKeyFromSeed(seed));
+
+  return {
+    ...bundle,
+    signature: {
+      algorithm: 'ed25519',
+      publicKey: bundlePublicKey(seed),
+      value: value.toString('base64')
+    }
+  };
+};
+
+/**
+ * Check a bundle offline: its signature, then every day's leaves against its anchor memo in the
+ * ledger snapshot. Each day passes or fails on its own; the bundle passes only if all do.
+ */
+export const verifyHistoryBundle = (input: any, options: VerifyBundleOptions = {}): BundleVerification => {
+  if (!input || typeof input !== 'object' || input.format !== HISTORY_BUNDLE_FORMAT) {
+    throw new Error('Not a vehicle history bundle');
+  }
+  if (input.version !== HISTORY_BUNDLE_VERSION) {
+    throw new Error(`Unsupported history bundle version ${input.version}`);
+  }
+
+  const bundle = input as HistoryBundle;
+  const signature = verifySignature(bundle, options.publicKey);
+  const days = Array.isArray(bundle.days) ? bundle.days : [];
+  const ledger = new Map((Array.isArray(bundle.ledger) ? bundle.ledger : []).map(entry => [entry?.signature, entry]));
+  const vehicleId = typeof bundle.report?.vehicleId === 'string' ? bundle.report.vehicleId : null;
+  const anchorSigners = Array.isArray(bundle.anchorSigners) ? bundle.anchorSigners : [];
+
+  const dayResults = days.map(day => verifyDay(day, ledger, vehicleId, anchorSigners));
+
+  const reasons: string[] = [];
+  if (!signature.valid) {
+    reasons.push('Bundle signature is not valid');
+  }
+  if (dayResults.length === 0) {
+    reasons.push('Bundle contains no days');
+  }
+  const failedDays = dayResults.filter(day => !day.passed).length;
+  if (failedDays > 0) {
+    reasons.push(`${failedDays} of ${dayResults.length} day(s) failed`);
+  }
+
+  return {
+    passed: reasons.length === 0,
+    vehicleId,
+    vin: typeof bundle.report?.vin === 'string' ? bundle.report.vin : null,
+    network: typeof bundle.network === 'string' ? bundle.network : null,
+    signature,
+    days: dayResults,
+    reasons
+  };
+};
+
+const privateKeyFromSeed = (seed: Buffer): crypto.KeyObject => {
+  if (seed.length !== 32) {
+    throw new Error('Ed25519 signing key must be a 32 byte seed');
+  }
+  return crypto.createPrivateKey({ key: Buffer.concat([PKCS8_PREFIX, seed]), format: 'der', type: 'pkcs8' });
+};
+
+const publicKeyFromBase64 = (publicKey: string): crypto.KeyObject | null => {
+  const raw = Buffer.from(publicKey, 'base64');
+  if (raw.length !== 32) return null;
+  return crypto.createPublicKey({ key: Buffer.concat([SPKI_PREFIX, raw]), format: 'der', type: 'spki' });
+};
+
+const verifySignature = (bundle: HistoryBundle, pinnedKey?: string): BundleVerification['signature'] => {
+  const { signature, ...unsigned } = bundle;
+  const publicKey = typeof signature?.publicKey === 'string' ? signature.publicKey : null;
+  const reasons: string[] = [];
+
+  if (!signature || signature.algorithm !== 'ed25519' || !publicKey || typeof signature.value !== 'string') {
+    reasons.push('Bundle is not signed with ed25519');
+  } else {
+    const key = publicKeyFromBase64(publicKey);
+    if (!key) {
+      reasons.push('Signer public key is malformed');
+    } else if (!crypto.verify(null, Buffer.from(canonicalJson(unsigned)), key, Buffer.from(signature.value, 'base64'))) {
+      reasons.push('Signature does not match the bundle contents');
+    }
+  }
+  if (pinnedKey && publicKey !== pinnedKey) {
+    reasons.push('Bundle was signed by a different key than the expected platform key');
+  }
+
+  return { valid: reasons.length === 0, publicKey, pinned: !!pinnedKey, reasons };
+};
+
+const isLeaf = (segment: any): segment is BundleSegmentLeaf =>
+  !!segment && typeof segment === 'object' &&
+  Number.isInteger(segment.index) &&
+  typeof segment.startTime === 'string' && typeof segment.endTime === 'string' &&
+  typeof segment.distance === 'number' &&
+  (segment.rawDataCID === null || typeof segment.rawDataCID === 'string');
+
+const parseMemoData = (memo: string | null): any => {
+  if (!memo) return null;
+  try {
+    const data = JSON.parse(memo);
+    return data && typeof data === 'object' ? data : null;
+  } catch {
+    return null;
+  }
+};
+
+const verifyDay = (
+  day: any,
+  ledger: Map<string, LedgerSnapshotEntry>,
+  vehicleId: string | null,
+  anchorSigners: string[]
+): DayVerification => {
+  const date = typeof day?.date === 'string' ? day.date : 'unknown';
+  const segments: any[] = Array.isArray(day?.segments) ? day.segments : [];
+  const merkleRoot = typeof day?.merkleRoot === 'string' ? day.merkleRoot : null;
+  const solanaTx = typeof day?.solanaTx === 'string' && day.solanaTx ? day.solanaTx : null;
+  const reasons: string[] = [];
+
+  if (!DATE_PATTERN.test(date)) {
+    reasons.push('Day has no YYYY-MM-DD date');
+  }
+
+  // Leaves are hashed exactly as exported; an index out of place changes the root
+  let computedRoot: string | null = null;
+  if (segments.length === 0) {
+    reasons.push('Day has no segments');
+  } else if (!segments.every(isLeaf)) {
+    reasons.push('Day has malformed segment leaves');
+  } else if (segments.some((segment, position) => segment.index !== position)) {
+    reasons.push('Segment leaves are out of order');
+  } else {
+    computedRoot = MerkleTreeBuilder.rootFromLeaves(segments);
+    if (computedRoot !== merkleRoot) {
+      reasons.push('Recomputed root does not match the exported Merkle root');
+    }
+  }
+
+  let anchoredRoot: string | null = null;
+  const anchor = solanaTx ? ledger.get(solanaTx) : undefined;
+  if (!solanaTx) {
+    reasons.push('Day is not anchored');
+  } else if (!anchor) {
+    reasons.push('Anchor transaction is missing from the ledger snapshot');
+  } else {
+    const memo = parseMemoData(anchor.memo);
+    anchoredRoot = typeof memo?.merkleRoot === 'string' ? memo.merkleRoot : null;
+
+    if (anchor.err) {
+      reasons.push('Anchor transaction failed on chain');
+    }
+    if (anchor.confirmationStatus !== 'confirmed' && anchor.confirmationStatus !== 'finalized') {
+      reasons.push('Anchor transaction is not confirmed');
+    }
+    if (!anchoredRoot) {
+      reasons.push('Anchor memo carries no Merkle root');
+    } else if (computedRoot && anchoredRoot !== computedRoot) {
+      reasons.push('Recomputed root does not match the anchored root');
+    }
+    if (!anchor.signer || !anchorSigners.includes(anchor.signer)) {
+      reasons.push('Anchor was not signed by an anchor wallet of this vehicle');
+    }
+    if (memo?.date !== date) {
+      reasons.push(`Anchor memo is for ${memo?.date ?? 'no date'}, not ${date}`);
+    }
+    if (!vehicleId || String(memo?.vehicleId) !== vehicleId) {
+      reasons.push('Anchor memo is for a different vehicle');
+    }
+  }
+
+  return {
+    date,
+    passed: reasons.length === 0,
+    merkleRoot,
+    computedRoot,
+    anchoredRoot,
+    solanaTx,
+    segmentsCount: segments.length,
+    reasons
+  };
+};
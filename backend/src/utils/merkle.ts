@@ -59,13 +59,25 @@ export class MerkleTreeBuilder {
   }
 
   /**
-   * Hash a single segment for Merkle tree
+   * Hash a single segment for Merkle tree (top-level keys sorted, so key order never matters)
    */
-  private static hashSegment(segmentData: any): string {
+  static hashSegment(segmentData: any): string {
     const dataString = JSON.stringify(segmentData, Object.keys(segmentData).sort());
     return crypto.createHash('sha256').update(dataString).digest('hex');
   }
 
+  /**
+   * Root of a tree over segment leaves exactly as given, e.g. leaves read back from an export
+   */
+  static rootFromLeaves(leafData: any[]): string {
+    if (leafData.length === 0) {
+      throw new Error('Cannot build Merkle tree from empty segments');
+    }
+
+    const leaves = leafData.map(data => ({ hash: this.hashSegment(data), data }));
+    return this.buildTreeFromLeaves(leaves).root.hash;
+  }
+
   /**
    * Build tree from leaf nodes
    */
@@ -118,6 +130,19 @@ export class MerkleTreeBuilder {
     return crypto.createHash('sha256').update(combined).digest('hex');
   }
 
+  /**
+   * Root reached by hashing a segment leaf up its sibling path
+   */
+  static computeRoot(segment: any, proof: string[]): string {
+    let currentHash = this.hashSegment(segment);
+
+    for (const proofHash of proof) {
+      currentHash = this.hashNodes(currentHash, proofHash);
+    }
+
+    return currentHash;
+  }
+
   /**
    * Verify a segment against Merkle tree
    */
@@ -127,14 +152,7 @@ export class MerkleTreeBuilder {
     proof: string[]
   ): boolean {
     try {
-      const segmentHash = this.hashSegment(segment);
-      let currentHash = segmentHash;
-      
-      for (const proofHash of proof) {
-        currentHash = this.hashNodes(currentHash, proofHash);
-      }
-      
-      return currentHash === merkleRoot;
+      return this.computeRoot(segment, proof) === merkleRoot;
     } catch (error) {
       logger.error('❌ Merkle verification failed:', error);
       return false;
@@ -157,9 +175,8 @@ export class MerkleTreeBuilder {
     while (currentLevel.length > 1) {
       const siblingIndex = currentIndex % 2 === 0 ? currentIndex + 1 : currentIndex - 1;
       
-      if (siblingIndex < currentLevel.length) {
-        proof.push(currentLevel[siblingIndex].hash);
-      }
+      // The last node of an odd level is paired with itself
+      proof.push(currentLevel[siblingIndex < currentLevel.length ? siblingIndex : currentIndex].hash);
       
       // Move to parent level
       currentIndex = Math.floor(currentIndex / 2);
@@ -0,0 +1,216 @@
+/**
+ * OBD PID request and response helpers
+ *
+ * A PID command is the request as sent to the ELM327 without spaces: the service byte followed by
+ * the PID or DID (e.g. "01A6" for the SAE odometer, "22F190" for a UDS data identifier). Scaling
+ * formulas are arithmetic expressions over the response data bytes A, B, C, ... (SAE notation),
+ * for example "(A*16777216+B*65536+C*256+D)/10".
+ */
+
+const COMMAND_PATTERN = /^(0[1-9]|2[1-2])([0-9A-F]{2}){1,2}$/;
+const FORMULA_MAX_LENGTH = 200;
+const BYTE_NAMES = 'ABCDEFGH';
+
+export type OdometerUnit = 'km' | 'mi';
+
+export const MILES_TO_KM = 1.609344;
+
+type Token = { type: 'number'; value: number } | { type: 'byte'; index: number } | { type: 'op'; value: string };
+
+type Node =
+  | { kind: 'number'; value: number }
+  | { kind: 'byte'; index: number }
+  | { kind: 'negate'; operand: Node }
+  | { kind: 'binary'; op: string; left: Node; right: Node };
+
+export interface CompiledFormula {
+  bytesRequired: number;
+  evaluate: (bytes: number[]) => number;
+}
+
+/**
+ * Normalise a PID command (e.g. "22 f1 90" -> "22F190") or return null if it is not one we can decode
+ */
+export const normalizePidCommand = (command: unknown): string | null => {
+  if (typeof command !== 'string') return null;
+  const normalized = command.replace(/\s+/g, '').toUpperCase();
+  return COMMAND_PATTERN.test(normalized) ? normalized : null;
+};
+
+const tokenize = (formula: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < formula.length) {
+    const char = formula[i];
+    if (char === ' ') {
+      i++;
+    } else if (/[0-9.]/.test(char)) {
+      const match = /^\d*\.?\d+|^\d+\.?/.exec(formula.slice(i));
+      if (!match) throw new Error(`Invalid number at position ${i}`);
+      tokens.push({ type: 'number', value: Number(match[0]) });
+      i += match[0].length;
+    } else if (BYTE_NAMES.includes(char)) {
+      tokens.push({ type: 'byte', index: BYTE_NAMES.indexOf(char) });
+      i++;
+    } else if ('+-*/()'.includes(char)) {
+      tokens.push({ type: 'op', value: char });
+      i++;
+    } else {
+      throw new Error(`Unexpected "${char}" at position ${i}`);
+    }
+  }
+  return tokens;
+};
+
+// Recursive descent: expression = term (+|- term)*, term = factor (*|/ factor)*
+const parse = (tokens: Token[]): Node => {
+  let position = 0;
+  const peekOp = (): string | undefined => {
+    const token = tokens[position];
+    return token?.type === 'op' ? token.value : undefined;
+  };
+
+  const factor = (): Node => {
+    const token = tokens[position++];
+    if (!token) throw new Error('Unexpected end of formula');
+    if (token.type === 'number') return { kind: 'number', value: token.value };
+    if (token.type === 'byte') return { kind: 'byte', index: token.index };
+    if (token.value === '-') return { kind: 'negate', operand: factor() };
+    if (token.value === '(') {
+      const inner = expression();
+      if (peekOp() !== ')') throw new Error('Missing closing parenthesis');
+      position++;
+      return inner;
+    }
+    throw new Error(`Unexpected "${token.value}"`);
+  };
+
+  const term = (): Node => {
+    let node = factor();
+    while (peekOp() === '*' || peekOp() === '/') {
+      const op = (tokens[position++] as { value: string }).value;
+      node = { kind: 'binary', op, left: node, right: factor() };
+    }
+    return node;
+  };
+
+  const expression = (): Node => {
+    let node = term();
+    while (peekOp() === '+' || peekOp() === '-') {
+      const op = (tokens[position++] as { value: string }).value;
+      node = { kind: 'binary', op, left: node, right: term() };
+    }
+    return node;
+  };
+
+  const root = expression();
+  if (position < tokens.length) throw new Error('Unexpected trailing input');
+  return root;
+};
+
+const highestByte = (node: Node): number => {
+  switch (node.kind) {
+    case 'number': return -1;
+    case 'byte': return node.index;
+    case 'negate': return highestByte(node.operand);
+    default: return Math.max(highestByte(node.left), highestByte(node.right));
+  }
+};
+
+const evaluateNode = (node: Node, bytes: number[]): number => {
+  switch (node.kind) {
+    case 'number': return node.value;
+    case 'byte': return bytes[node.index];
+    case 'negate': return -evaluateNode(node.operand, bytes);
+    default: {
+      const left = evaluateNode(node.left, bytes);
+      const right = evaluateNode(node.right, bytes);
+      if (node.op === '+') return left + right;
+      if (node.op === '-') return left - right;
+      if (node.op === '*') return left * right;
+      return left / right;
+    }
+  }
+};
+
+/**
+ * Parse a scaling formula. Throws with a readable message if the formula is invalid.
+ * Formulas are never passed to eval; only numbers, bytes A-H, + - * / and parentheses are allowed.
+ */
+export const compilePidFormula = (formula: string): CompiledFormula => {
+  if (typeof formula !== 'string' || formula.trim().length === 0) {
+    throw new Error('Formula is required');
+  }
+  if (formula.length > FORMULA_MAX_LENGTH) {
+    throw new Error(`Formula cannot exceed ${FORMULA_MAX_LENGTH} characters`);
+  }
+
+  const root = parse(tokenize(formula.toUpperCase()));
+  const bytesRequired = highestByte(root) + 1;
+  if (bytesRequired === 0) {
+    throw new Error('Formula must use at least one response byte (A-H)');
+  }
+
+  return {
+    bytesRequired,
+    evaluate: (bytes: number[]) => {
+      if (bytes.length < bytesRequired) {
+        throw new Error(`Formula needs ${bytesRequired} data byte(s), response has ${bytes.length}`);
+      }
+      return evaluateNode(root, bytes);
+    }
+  };
+};
+
+/**
+ * Data bytes of the positive response to a command, or null if the raw ELM327 output has none.
+ * Accepts spaced or unspaced hex, multiple lines, CAN headers and the ">" prompt.
+ */
+export const extractResponseBytes = (command: string, raw: string): number[] | null => {
+  const normalizedCommand = normalizePidCommand(command);
+  if (!normalizedCommand || typeof raw !== 'string') return null;
+
+  const service = parseInt(normalizedCommand.slice(0, 2), 16);
+  const responseKey = (service + 0x40).toString(16).toUpperCase() + normalizedCommand.slice(2);
+
+  for (const line of raw.toUpperCase().split(/[\r\n>]+/)) {
+    // With spaces on, keep byte tokens only so an 11-bit CAN header ("7E8") does not shift alignment
+    const tokens = line.trim().split(/\s+/);
+    const hex = tokens.length > 1
+      ? tokens.filter(token => /^[0-9A-F]{2}$/.test(token)).join('')
+      : line.replace(/[^0-9A-F]/g, '');
+    // Only byte-aligned matches count, so "41A6" inside another byte pair is not picked up
+    for (let start = 0; start + responseKey.length <= hex.length; start += 2) {
+      if (hex.startsWith(responseKey, start)) {
+        const data = hex.slice(start + responseKey.length);
+        const bytes: number[] = [];
+        for (let i = 0; i + 2 <= data.length; i += 2) {
+          bytes.push(parseInt(data.slice(i, i + 2), 16));
+        }
+        return bytes.length > 0 ? bytes : null;
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Decode a raw odometer response into kilometres
+ */
+export const decodeOdometerResponse = (
+  profile: { command: string; formula: string; unit: OdometerUnit },
+  raw: string
+): { bytes: number[]; value: number; mileageKm: number } => {
+  const bytes = extractResponseBytes(profile.command, raw);
+  if (!bytes) {
+    throw new Error(`No positive response to ${profile.command} in "${raw}"`);
+  }
+
+  const value = compilePidFormula(profile.formula).evaluate(bytes);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`Formula produced an invalid odometer value (${value})`);
+  }
+
+  const mileageKm = profile.unit === 'mi' ? value * MILES_TO_KM : value;
+  return { bytes, value, mileageKm: Math.round(mileageKm * 10) / 10 };
+};
@@ -1,4 +1,5 @@
-import { Server } from 'socket.io';
+import { Server, Socket } from 'socket.io';
+import { JWTService } from '../services/core/jwt.service';
 import { logger } from './logger';
 
 let io: Server | null = null;
@@ -19,10 +20,7 @@ export const initializeSocketIO = (server: any) => {
       logger.info(`Socket client connected: ${socket.id}`);
       
       // Handle join_user event from frontend
-      socket.on('join_user', (userId) => {
-        socket.join(userId.toString());
-        logger.info(`User ${userId} joined their room`);
-      });
+      socket.on('join_user', (userId) => joinUserRoom(socket, userId));
       
       socket.on('disconnect', () => {
         logger.info(`Socket client disconnected: ${socket.id}`);
@@ -35,6 +33,39 @@ export const initializeSocketIO = (server: any) => {
   }
 };
 
+/**
+ * Join the caller's own user room. The handshake token must belong to that user, so no client can
+ * join another user's room or any other room (vehicle streams, admin) by naming it.
+ */
+export const joinUserRoom = (socket: Socket, userId: unknown): boolean => {
+  const token = socket.handshake.auth?.token;
+  if (typeof token !== 'string' || token.length === 0 || userId === undefined || userId === null) {
+    logger.warn(`Socket ${socket.id} tried to join a user room without a token`);
+    return false;
+  }
+
+  let tokenUserId: string;
+  try {
+    tokenUserId = String(JWTService.verifyAccessToken(token).userId);
+  } catch {
+    logger.warn(`Socket ${socket.id} tried to join a user room with an invalid token`);
+    return false;
+  }
+  if (tokenUserId !== String(userId)) {
+    logger.warn(`Socket ${socket.id} of user ${tokenUserId} tried to join room ${userId}`);
+    return false;
+  }
+
+  socket.join(tokenUserId);
+  logger.info(`User ${tokenUserId} joined their room`);
+  return true;
+};
+
+/**
+ * The socket.io server, or null before initialization
+ */
+export const getSocketServer = (): Server | null => io;
+
 /**
  * Emit event to all connected clients
  */
@@ -0,0 +1,95 @@
+/**
+ * Helpers for buffered (offline) telemetry uploads
+ *
+ * The firmware stamps readings with millis(), which restarts at every boot,
+ * so buffered readings are ordered by (bootCount, timestamp) rather than by
+ * timestamp alone.
+ */
+
+export interface BufferedReading {
+  timestamp: number;
+  bootCount?: number;
+  recordedAt?: number | string;
+  [key: string]: any;
+}
+
+export interface UploadClock {
+  // Epoch seconds at which the device sent the batch (signed X-Device-Timestamp)
+  uploadedAt?: number;
+  // Device millis() at the moment the batch was sent
+  uploadMillis?: number;
+  // Boot counter at the moment the batch was sent
+  bootCount?: number;
+}
+
+export interface OrderedReading<T extends BufferedReading> {
+  reading: T;
+  index: number; // position in the uploaded array
+  recordedAt?: Date;
+}
+
+/**
+ * Identity of a reading for de-duplication
+ */
+export const readingKey = (reading: BufferedReading): string => {
+  return `${reading.bootCount ?? 0}:${reading.timestamp}`;
+};
+
+/**
+ * Resolve the wall-clock time a buffered reading was taken.
+ * Uses an explicit recordedAt (epoch seconds/ms or ISO string) when present, otherwise
+ * back-dates from the upload clock for readings taken during the current boot.
+ */
+export const resolveRecordedAt = (reading: BufferedReading, clock: UploadClock = {}): Date | undefined => {
+  if (reading.recordedAt !== undefined && reading.recordedAt !== null) {
+    if (typeof reading.recordedAt === 'number') {
+      // Accept both epoch seconds and epoch milliseconds
+      const ms = reading.recordedAt < 1e12 ? reading.recordedAt * 1000 : reading.recordedAt;
+      return new Date(ms);
+    }
+    const parsed = new Date(reading.recordedAt);
+    return isNaN(parsed.getTime()) ? undefined : parsed;
+  }
+
+  const sameBoot = clock.bootCount === undefined || (reading.bootCount ?? clock.bootCount) === clock.bootCount;
+  if (clock.uploadedAt && clock.uploadMillis !== undefined && sameBoot && reading.timestamp <= clock.uploadMillis) {
+    return new Date(clock.uploadedAt * 1000 - (clock.uploadMillis - reading.timestamp));
+  }
+
+  return undefined;
+};
+
+/**
+ * Sort buffered readings chronologically and drop duplicates within the upload
+ * and against keys that were already stored.
+ */
+export const orderBufferedReadings = <T extends BufferedReading>(
+  readings: T[],
+  clock: UploadClock = {},
+  existingKeys: Set<string> = new Set()
+): { ordered: OrderedReading<T>[]; duplicates: OrderedReading<T>[] } => {
+  const seen = new Set(existingKeys);
+  const ordered: OrderedReading<T>[] = [];
+  const duplicates: OrderedReading<T>[] = [];
+
+  const sorted = readings
+    .map((reading, index) => ({ reading, index, recordedAt: resolveRecordedAt(reading, clock) }))
+    .sort((a, b) => {
+      const bootDiff = (a.reading.bootCount ?? 0) - (b.reading.bootCount ?? 0);
+      if (bootDiff !== 0) return bootDiff;
+      const timeDiff = a.reading.timestamp - b.reading.timestamp;
+      return timeDiff !== 0 ? timeDiff : a.index - b.index;
+    });
+
+  for (const item of sorted) {
+    const key = readingKey(item.reading);
+    if (seen.has(key)) {
+      duplicates.push(item);
+      continue;
+    }
+    seen.add(key);
+    ordered.push(item);
+  }
+
+  return { ordered, duplicates };
+};
@@ -0,0 +1,206 @@
+/**
+ * Hourly and daily telemetry rollups
+ *
+ * Readings are bucketed by the UTC hour or day they were taken in. Averages keep their sample
+ * count so hourly buckets can be merged into a daily one without going back to the raw readings.
+ * Distance is the odometer movement between the first and last reading of the bucket.
+ */
+
+export type RollupGranularity = 'hour' | 'day';
+
+export interface RollupSample {
+  time: Date;
+  speed?: number; // km/h
+  rpm?: number;
+  mileage?: number; // km
+  flagged: boolean;
+}
+
+export interface RollupStat {
+  avg: number | null;
+  max: number | null;
+  samples: number;
+}
+
+export interface RollupBucket {
+  bucketStart: Date;
+  readings: number;
+  flaggedReadings: number;
+  speed: RollupStat;
+  rpm: RollupStat;
+  openingMileage: number | null;
+  closingMileage: number | null;
+  distanceKm: number;
+  firstReadingAt: Date;
+  lastReadingAt: Date;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const bucketSize = (granularity: RollupGranularity): number =>
+  granularity === 'hour' ? HOUR_MS : DAY_MS;
+
+export const bucketStart = (time: Date, granularity: RollupGranularity): Date => {
+  const size = bucketSize(granularity);
+  return new Date(Math.floor(time.getTime() / size) * size);
+};
+
+const round = (value: number, digits = 2): number => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+const isReading = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+interface StatState {
+  sum: number;
+  max: number | null;
+  samples: number;
+}
+
+const emptyStat = (): StatState => ({ sum: 0, max: null, samples: 0 });
+
+const addToStat = (stat: StatState, value: number): void => {
+  stat.sum += value;
+  stat.samples++;
+  stat.max = stat.max === null ? value : Math.max(stat.max, value);
+};
+
+const mergeStat = (stat: StatState, other: RollupStat): void => {
+  if (other.samples === 0 || other.avg === null || other.max === null) return;
+  stat.sum += other.avg * other.samples;
+  stat.samples += other.samples;
+  stat.max = stat.max === null ? other.max : Math.max(stat.max, other.max);
+};
+
+const finishStat = (stat: StatState): RollupStat => ({
+  avg: stat.samples > 0 ? round(stat.sum / stat.samples) : null,
+  max: stat.max,
+  samples: stat.samples
+});
+
+interface BucketState {
+  bucketStart: Date;
+  readings: number;
+  flaggedReadings: number;
+  speed: StatState;
+  rpm: StatState;
+  openingMileage: number | null;
+  closingMileage: number | null;
+  openingAt?: Date;
+  closingAt?: Date;
+  firstReadingAt: Date;
+  lastReadingAt: Date;
+}
+
+const finishBucket = (state: BucketState): RollupBucket => ({
+  bucketStart: state.bucketStart,
+  readings: state.readings,
+  flaggedReadings: state.flaggedReadings,
+  speed: finishStat(state.speed),
+  rpm: finishStat(state.rpm),
+  openingMileage: state.openingMileage,
+  closingMileage: state.closingMileage,
+  distanceKm: state.openingMileage !== null && state.closingMileage !== null
+    ? round(Math.max(0, state.closingMileage - state.openingMileage))
+    : 0,
+  firstReadingAt: state.firstReadingAt,
+  lastReadingAt: state.lastReadingAt
+});
+
+/**
+ * Streaming accumulator; samples may arrive in any order (buffered uploads are late)
+ */
+export const createRollupAccumulator = (granularity: RollupGranularity) => {
+  const buckets = new Map<number, BucketState>();
+
+  return {
+    add(sample: RollupSample): void {
+      const start = bucketStart(sample.time, granularity);
+      let state = buckets.get(start.getTime());
+      if (!state) {
+        state = {
+          bucketStart: start,
+          readings: 0,
+          flaggedReadings: 0,
+          speed: emptyStat(),
+          rpm: emptyStat(),
+          openingMileage: null,
+          closingMileage: null,
+          firstReadingAt: sample.time,
+          lastReadingAt: sample.time
+        };
+        buckets.set(start.getTime(), state);
+      }
+
+      state.readings++;
+      if (sample.flagged) state.flaggedReadings++;
+      if (isReading(sample.speed)) addToStat(state.speed, sample.speed);
+      if (isReading(sample.rpm)) addToStat(state.rpm, sample.rpm);
+      // Zero means the reading carried no odometer value
+      if (isReading(sample.mileage) && sample.mileage > 0) {
+        if (!state.openingAt || sample.time < state.openingAt) {
+          state.openingMileage = sample.mileage;
+          state.openingAt = sample.time;
+        }
+        if (!state.closingAt || sample.time >= state.closingAt) {
+          state.closingMileage = sample.mileage;
+          state.closingAt = sample.time;
+        }
+      }
+      if (sample.time < state.firstReadingAt) state.firstReadingAt = sample.time;
+      if (sample.time > state.lastReadingAt) state.lastReadingAt = sample.time;
+    },
+
+    result(): RollupBucket[] {
+      return [...buckets.values()]
+        .sort((a, b) => a.bucketStart.getTime() - b.bucketStart.getTime())
+        .map(finishBucket);
+    }
+  };
+};
+
+export const rollupSamples = (samples: RollupSample[], granularity: RollupGranularity): RollupBucket[] => {
+  const accumulator = createRollupAccumulator(granularity);
+  samples.forEach(sample => accumulator.add(sample));
+  return accumulator.result();
+};
+
+/**
+ * Merge finer buckets (e.g. the hours of a day) into buckets of the given granularity
+ */
+export const mergeRollupBuckets = (buckets: RollupBucket[], granularity: RollupGranularity): RollupBucket[] => {
+  const merged = new Map<number, BucketState>();
+  const ordered = [...buckets].sort((a, b) => a.bucketStart.getTime() - b.bucketStart.getTime());
+
+  for (const bucket of ordered) {
+    const start = bucketStart(bucket.bucketStart, granularity);
+    let state = merged.get(start.getTime());
+    if (!state) {
+      state = {
+        bucketStart: start,
+        readings: 0,
+        flaggedReadings: 0,
+        speed: emptyStat(),
+        rpm: emptyStat(),
+        openingMileage: null,
+        closingMileage: null,
+        firstReadingAt: bucket.firstReadingAt,
+        lastReadingAt: bucket.lastReadingAt
+      };
+      merged.set(start.getTime(), state);
+    }
+
+    state.readings += bucket.readings;
+    state.flaggedReadings += bucket.flaggedReadings;
+    mergeStat(state.speed, bucket.speed);
+    mergeStat(state.rpm, bucket.rpm);
+    if (bucket.openingMileage !== null && state.openingMileage === null) state.openingMileage = bucket.openingMileage;
+    if (bucket.closingMileage !== null) state.closingMileage = bucket.closingMileage;
+    state.lastReadingAt = bucket.lastReadingAt;
+  }
+
+  return [...merged.values()].map(finishBucket);
+};
@@ -0,0 +1,312 @@
+/**
+ * Simulated ESP32 telematics device
+ *
+ * Produces the payloads a real dongle would send, one tick at a time: parked periods and trips
+ * with acceleration, cruising, braking and idling, an odometer driven by the simulated speed and
+ * a GPS track that agrees with it. Faults can be injected at a given tick:
+ *
+ * - network_drop: readings are buffered and uploaded in one batch when the link returns
+ * - unplug: the device is silent while the vehicle keeps driving, then reboots
+ * - rollback: the odometer is wound back and stays back
+ * - vin_swap: the dongle is moved to another vehicle for a while
+ *
+ * Randomness comes from a seeded generator so a scenario replays identically, which lets the
+ * same timelines serve as integration test fixtures.
+ */
+import type { ESP32DeviceData } from '../controllers/device/device.controller';
+
+export type SimulatedFault =
+  | { type: 'network_drop'; atTick: number; ticks: number }
+  | { type: 'unplug'; atTick: number; ticks: number }
+  | { type: 'rollback'; atTick: number; km: number }
+  | { type: 'vin_swap'; atTick: number; ticks: number; vin: string };
+
+export type ExpectedAlertType = 'odometer_rollback' | 'vin_mismatch' | 'device_tampering';
+
+export interface ExpectedAlert {
+  type: ExpectedAlertType;
+  tick: number;
+  at: Date;
+}
+
+export interface SimulatedDeviceProfile {
+  deviceID: string;
+  vin: string;
+  startMileage: number; // km
+  location: { latitude: number; longitude: number };
+  seed: number;
+  bootCount?: number;
+  faults?: SimulatedFault[];
+  /** Silence after which the server treats the device as offline (threshold plus heartbeat period) */
+  silenceThresholdMinutes?: number;
+  /** Distance driven while offline that the server tolerates without an alert */
+  silentMileageToleranceKm?: number;
+}
+
+export type SimulatorEvent =
+  | { kind: 'status'; tick: number; at: Date; reading: ESP32DeviceData }
+  | {
+      kind: 'batch';
+      tick: number;
+      at: Date;
+      body: { deviceID: string; readings: ESP32DeviceData[]; uploadMillis: number; bootCount: number };
+    };
+
+type DrivePhase = 'parked' | 'accelerating' | 'cruising' | 'braking' | 'idling';
+
+const KM_PER_DEGREE_LAT = 111.32;
+
+/**
+ * Mulberry32: small, fast and good enough for test data
+ */
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const round = (value: number, digits: number): number => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+export class SimulatedDevice {
+  readonly deviceID: string;
+  readonly vin: string;
+  readonly expectedAlerts: ExpectedAlert[] = [];
+
+  private readonly random: () => number;
+  private readonly faults: SimulatedFault[];
+  private readonly silenceThresholdMinutes: number;
+  private readonly silentMileageToleranceKm: number;
+  private readonly silentSince = new Map<number, { at: Date; odometerKm: number }>();
+  private tick = 0;
+  private bootCount: number;
+  private bootedAt?: Date;
+  private lastTickAt?: Date;
+  private odometerKm: number;
+  private rollbackKm = 0;
+  private latitude: number;
+  private longitude: number;
+  private heading: number;
+  private speed = 0;
+  private targetSpeed = 0;
+  private phase: DrivePhase = 'parked';
+  private phaseTicks = 0;
+  private fuelLevel = 80;
+  private engineTemp = 25;
+  private buffer: ESP32DeviceData[] = [];
+
+  constructor(profile: SimulatedDeviceProfile) {
+    this.deviceID = profile.deviceID;
+    this.vin = profile.vin;
+    this.random = createRandom(profile.seed);
+    this.faults = profile.faults || [];
+    this.silenceThresholdMinutes = profile.silenceThresholdMinutes ?? 65;
+    this.silentMileageToleranceKm = profile.silentMileageToleranceKm ?? 5;
+    this.bootCount = profile.bootCount ?? 1;
+    this.odometerKm = profile.startMileage;
+    this.latitude = profile.location.latitude;
+    this.longitude = profile.location.longitude;
+    this.heading = this.random() * 2 * Math.PI;
+  }
+
+  /**
+   * Odometer value the device would report now (after any rollback)
+   */
+  get reportedMileage(): number {
+    return Math.floor(this.odometerKm - this.rollbackKm);
+  }
+
+  /**
+   * Advance the simulation to `now` and return what the device sends at this tick
+   */
+  next(now: Date): SimulatorEvent[] {
+    const tick = this.tick++;
+    const previousTickAt = this.lastTickAt;
+    const seconds = previousTickAt ? Math.max(0, (now.getTime() - previousTickAt.getTime()) / 1000) : 0;
+    this.lastTickAt = now;
+    if (!this.bootedAt) this.bootedAt = now;
+
+    const unplug = this.activeFault('unplug', tick);
+    // Unplugging is only worth it to drive unrecorded, so an unplugged vehicle is on the move
+    this.drive(seconds, !!unplug);
+    this.applyFaults(tick, now, previousTickAt);
+
+    if (unplug) {
+      // Power is gone: nothing is measured or buffered. Reboot on the last silent tick.
+      if (tick === unplug.atTick + unplug.ticks - 1) {
+        this.bootCount++;
+        this.bootedAt = now;
+      }
+      return [];
+    }
+
+    const reading = this.read(tick, now);
+    const drop = this.activeFault('network_drop', tick);
+    if (drop) {
+      this.buffer.push({ ...reading, recordedAt: Math.floor(now.getTime() / 1000) });
+      return [];
+    }
+
+    const events: SimulatorEvent[] = [];
+    if (this.buffer.length > 0) {
+      events.push({
+        kind: 'batch',
+        tick,
+        at: now,
+        body: { deviceID: this.deviceID, readings: this.buffer, uploadMillis: this.millis(now), bootCount: this.bootCount }
+      });
+      this.buffer = [];
+    }
+    events.push({ kind: 'status', tick, at: now, reading });
+    return events;
+  }
+
+  private activeFault<T extends SimulatedFault['type']>(type: T, tick: number): Extract<SimulatedFault, { type: T }> | undefined {
+    return this.faults.find(fault =>
+      fault.type === type && 'ticks' in fault && tick >= fault.atTick && tick < fault.atTick + fault.ticks
+    ) as Extract<SimulatedFault, { type: T }> | undefined;
+  }
+
+  private applyFaults(tick: number, now: Date, previousTickAt?: Date): void {
+    for (const fault of this.faults) {
+      if (fault.type === 'rollback' && fault.atTick === tick) {
+        this.rollbackKm += fault.km;
+        this.expectedAlerts.push({ type: 'odometer_rollback', tick, at: now });
+      } else if (fault.type === 'vin_swap' && fault.atTick === tick) {
+        this.expectedAlerts.push({ type: 'vin_mismatch', tick, at: now });
+      } else if (fault.type === 'unplug' && fault.atTick === tick) {
+        this.silentSince.set(fault.atTick, { at: previousTickAt || now, odometerKm: this.odometerKm });
+      } else if (fault.type === 'unplug' && fault.atTick + fault.ticks === tick) {
+        // The server only notices once it marked the device offline and the odometer moved on
+        const silent = this.silentSince.get(fault.atTick);
+        const silentMinutes = silent ? (now.getTime() - silent.at.getTime()) / 60000 : 0;
+        const silentKm = silent ? this.odometerKm - silent.odometerKm : 0;
+        if (silentMinutes >= this.silenceThresholdMinutes && silentKm > this.silentMileageToleranceKm) {
+          this.expectedAlerts.push({ type: 'device_tampering', tick, at: now });
+        }
+      }
+    }
+  }
+
+  private millis(now: Date): number {
+    return now.getTime() - (this.bootedAt || now).getTime();
+  }
+
+  private read(tick: number, now: Date): ESP32DeviceData {
+    const swap = this.activeFault('vin_swap', tick);
+    const engineOn = this.phase !== 'parked';
+    const rpm = engineOn ? Math.round(750 + this.speed * 28 + this.random() * 150) : 0;
+
+    return {
+      deviceID: this.deviceID,
+      status: 'obd_connected',
+      message: engineOn ? 'Simulated drive' : 'Simulated parked',
+      vin: swap ? swap.vin : this.vin,
+      mileage: this.reportedMileage,
+      rpm,
+      speed: Math.round(this.speed),
+      engineTemp: Math.round(this.engineTemp),
+      fuelLevel: round(this.fuelLevel, 1),
+      batteryVoltage: round(engineOn ? 13.9 + this.random() * 0.4 : 12.4 + this.random() * 0.3, 2),
+      dataQuality: 95 + Math.floor(this.random() * 5),
+      bootCount: this.bootCount,
+      timestamp: this.millis(now),
+      dataSource: 'veepeak_obd',
+      veepeakConnected: true,
+      location: {
+        latitude: round(this.latitude, 6),
+        longitude: round(this.longitude, 6),
+        accuracy: round(3 + this.random() * 5, 1)
+      }
+    };
+  }
+
+  /**
+   * Move the vehicle forward by `seconds` of simulated time
+   */
+  private drive(seconds: number, keepDriving: boolean): void {
+    if (seconds > 0) {
+      const previousSpeed = this.speed;
+      if (keepDriving && (this.phase === 'parked' || this.phase === 'idling' || this.phase === 'braking')) {
+        this.targetSpeed = 50 + this.random() * 50;
+        this.enter('accelerating');
+      }
+      this.updatePhase(seconds);
+      const distanceKm = ((previousSpeed + this.speed) / 2) * (seconds / 3600);
+      this.odometerKm += distanceKm;
+      this.move(distanceKm);
+      this.fuelLevel = Math.max(5, this.fuelLevel - distanceKm * 0.08);
+    }
+
+    const warm = this.phase !== 'parked';
+    this.engineTemp += ((warm ? 90 : 25) - this.engineTemp) * Math.min(1, seconds / 600);
+  }
+
+  private updatePhase(seconds: number): void {
+    this.phaseTicks++;
+    const maxChange = 2.5 * seconds; // km/h per tick; well under the harsh thresholds
+
+    switch (this.phase) {
+      case 'parked':
+        if (this.phaseTicks > 3 && this.random() < 0.15) this.enter('idling');
+        break;
+      case 'idling':
+        this.speed = 0;
+        if (this.phaseTicks > 2 && this.random() < 0.4) {
+          this.targetSpeed = 30 + this.random() * 70;
+          this.enter('accelerating');
+        } else if (this.phaseTicks > 8 && this.random() < 0.1) {
+          this.enter('parked');
+        }
+        break;
+      case 'accelerating':
+        this.speed = Math.min(this.targetSpeed, this.speed + maxChange);
+        if (this.speed >= this.targetSpeed) this.enter('cruising');
+        break;
+      case 'cruising':
+        this.speed = Math.max(10, this.speed + (this.random() - 0.5) * maxChange);
+        this.heading += (this.random() - 0.5) * 0.3;
+        if (this.phaseTicks > 10 && this.random() < 0.08) this.enter('braking');
+        break;
+      case 'braking':
+        this.speed = Math.max(0, this.speed - maxChange);
+        if (this.speed === 0) this.enter('idling');
+        break;
+    }
+  }
+
+  private enter(phase: DrivePhase): void {
+    this.phase = phase;
+    this.phaseTicks = 0;
+  }
+
+  private move(distanceKm: number): void {
+    this.latitude += (distanceKm * Math.cos(this.heading)) / KM_PER_DEGREE_LAT;
+    this.longitude += (distanceKm * Math.sin(this.heading)) / (KM_PER_DEGREE_LAT * Math.cos(this.latitude * Math.PI / 180));
+  }
+}
+
+/**
+ * Run a device over `ticks` readings spaced `intervalSeconds` apart, starting at `start`.
+ * Used to build fixtures without a clock.
+ */
+export const generateTimeline = (
+  profile: SimulatedDeviceProfile,
+  ticks: number,
+  start: Date,
+  intervalSeconds: number
+): { events: SimulatorEvent[]; expectedAlerts: ExpectedAlert[]; device: SimulatedDevice } => {
+  const device = new SimulatedDevice(profile);
+  const events: SimulatorEvent[] = [];
+  for (let tick = 0; tick < ticks; tick++) {
+    events.push(...device.next(new Date(start.getTime() + tick * intervalSeconds * 1000)));
+  }
+  return { events, expectedAlerts: device.expectedAlerts, device };
+};
@@ -0,0 +1,165 @@
+/**
+ * Trip detection from telemetry readings
+ *
+ * The ignition is considered on while the OBD link is up and the engine turns (rpm at or above
+ * the threshold) or the vehicle moves. A trip runs from the first engine-on reading until an
+ * engine-off reading, or until no reading arrives for the gap threshold.
+ */
+import { GeoFix, isUsableFix, segmentDistanceKm } from './gpsOdometer';
+
+export interface TripPoint {
+  time: Date;
+  connected: boolean; // OBD link up (status obd_connected)
+  rpm?: number;
+  speed?: number; // km/h
+  mileage?: number; // km
+  location?: GeoFix;
+}
+
+export interface TripDetectionOptions {
+  gapMinutes: number;
+  engineOnRpm: number;
+  minDistanceKm: number;
+  minDurationMinutes: number;
+  maxFixAccuracyM: number;
+}
+
+export interface TripLocation {
+  latitude: number;
+  longitude: number;
+}
+
+export interface DetectedTrip {
+  startTime: Date;
+  endTime: Date;
+  durationSeconds: number;
+  distanceKm: number;
+  distanceSource: 'odometer' | 'gps' | 'none';
+  maxSpeedKmh: number;
+  avgSpeedKmh: number;
+  idleSeconds: number;
+  startLocation?: TripLocation;
+  endLocation?: TripLocation;
+  startMileage?: number;
+  endMileage?: number;
+  readings: number;
+  completed: boolean; // False while the last reading is recent and the engine is still on
+}
+
+const round = (value: number, decimals = 1): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+export const isEngineOn = (point: TripPoint, engineOnRpm: number): boolean =>
+  point.connected && ((point.rpm || 0) >= engineOnRpm || (point.speed || 0) > 0);
+
+/**
+ * Summarise the readings of one trip. Distance comes from the odometer when both ends have a
+ * reading and it did not go backwards, otherwise from GPS fixes.
+ */
+export const summarizeTrip = (points: TripPoint[], options: TripDetectionOptions, completed: boolean): DetectedTrip => {
+  const start = points[0];
+  const end = points[points.length - 1];
+  const durationSeconds = Math.round((end.time.getTime() - start.time.getTime()) / 1000);
+  const gapSeconds = options.gapMinutes * 60;
+
+  const withMileage = points.filter(p => typeof p.mileage === 'number' && p.mileage > 0);
+  const startMileage = withMileage[0]?.mileage;
+  const endMileage = withMileage[withMileage.length - 1]?.mileage;
+
+  const fixes = points
+    .map(p => p.location)
+    .filter(fix => isUsableFix(fix, options.maxFixAccuracyM));
+  let gpsKm = 0;
+  for (let i = 1; i < fixes.length; i++) {
+    gpsKm += segmentDistanceKm(fixes[i - 1], fixes[i]);
+  }
+
+  let distanceKm = 0;
+  let distanceSource: DetectedTrip['distanceSource'] = 'none';
+  if (withMileage.length >= 2 && endMileage >= startMileage) {
+    distanceKm = endMileage - startMileage;
+    distanceSource = 'odometer';
+  } else if (fixes.length >= 2) {
+    distanceKm = gpsKm;
+    distanceSource = 'gps';
+  }
+
+  // Time between two readings counts as idle when the first shows the engine on at standstill
+  let idleSeconds = 0;
+  for (let i = 1; i < points.length; i++) {
+    const previous = points[i - 1];
+    if (isEngineOn(previous, options.engineOnRpm) && !(previous.speed > 0)) {
+      const interval = (points[i].time.getTime() - previous.time.getTime()) / 1000;
+      idleSeconds += Math.min(interval, gapSeconds);
+    }
+  }
+
+  const toLocation = (fix?: GeoFix): TripLocation | undefined =>
+    fix ? { latitude: fix.latitude, longitude: fix.longitude } : undefined;
+
+  return {
+    startTime: start.time,
+    endTime: end.time,
+    durationSeconds,
+    distanceKm: round(distanceKm),
+    distanceSource,
+    maxSpeedKmh: Math.max(0, ...points.map(p => p.speed || 0)),
+    avgSpeedKmh: durationSeconds > 0 ? round(distanceKm / (durationSeconds / 3600)) : 0,
+    idleSeconds: Math.round(idleSeconds),
+    startLocation: toLocation(fixes[0]),
+    endLocation: toLocation(fixes[fixes.length - 1]),
+    startMileage,
+    endMileage,
+    readings: points.length,
+    completed
+  };
+};
+
+/**
+ * Split chronologically ordered readings into trips. Completed trips that are both shorter than
+ * the minimum distance and the minimum duration (engine started and stopped) are dropped.
+ */
+export const detectTrips = (
+  points: TripPoint[],
+  options: TripDetectionOptions,
+  now: Date = new Date()
+): DetectedTrip[] => {
+  const gapMs = options.gapMinutes * 60 * 1000;
+  const trips: DetectedTrip[] = [];
+  let current: TripPoint[] | null = null;
+
+  const close = (completed: boolean) => {
+    const trip = summarizeTrip(current, options, completed);
+    const tooShort = trip.distanceKm < options.minDistanceKm && trip.durationSeconds < options.minDurationMinutes * 60;
+    if (!completed || !tooShort) {
+      trips.push(trip);
+    }
+    current = null;
+  };
+
+  for (const point of points) {
+    if (current && point.time.getTime() - current[current.length - 1].time.getTime() > gapMs) {
+      close(true);
+    }
+
+    if (isEngineOn(point, options.engineOnRpm)) {
+      if (current) {
+        current.push(point);
+      } else {
+        current = [point];
+      }
+    } else if (current) {
+      // The engine-off reading ends the trip
+      current.push(point);
+      close(true);
+    }
+  }
+
+  if (current) {
+    close(now.getTime() - current[current.length - 1].time.getTime() > gapMs);
+  }
+
+  return trips;
+};
@@ -0,0 +1,49 @@
+/**
+ * Owner disputes against trust score deductions
+ *
+ * An owner disputes a TrustEvent that lowered the score, or the FraudAlert behind it, and
+ * attaches supporting documents. A reviewer (admin or government) takes the dispute
+ * `under_review` and accepts or rejects it. The owner can withdraw it until it is decided.
+ * Accepting gives the deducted points back through a compensating TrustEvent.
+ */
+
+export type TrustDisputeStatus = 'open' | 'under_review' | 'accepted' | 'rejected' | 'withdrawn';
+
+export const TRUST_DISPUTE_STATUSES: TrustDisputeStatus[] = ['open', 'under_review', 'accepted', 'rejected', 'withdrawn'];
+
+export const OPEN_TRUST_DISPUTE_STATUSES: TrustDisputeStatus[] = ['open', 'under_review'];
+
+// Decisions a reviewer can record
+export const TRUST_DISPUTE_REVIEW_STATUSES: TrustDisputeStatus[] = ['under_review', 'accepted', 'rejected'];
+
+export const TRUST_DISPUTE_REVIEWER_ROLES = ['admin', 'government'];
+
+const TRANSITIONS: Record<TrustDisputeStatus, TrustDisputeStatus[]> = {
+  open: ['under_review', 'accepted', 'rejected', 'withdrawn'],
+  under_review: ['accepted', 'rejected', 'withdrawn'],
+  accepted: [],
+  rejected: [],
+  withdrawn: []
+};
+
+export const canMoveDispute = (from: TrustDisputeStatus, to: TrustDisputeStatus): boolean =>
+  TRANSITIONS[from]?.includes(to) ?? false;
+
+// Documents are links to uploads (/uploads/...) or to files stored elsewhere
+export const isDisputeDocumentUrl = (url: unknown): url is string =>
+  typeof url === 'string' && /^(https?:\/\/|\/uploads\/)\S+$/.test(url);
+
+interface AppliedEvent {
+  previousScore: number;
+  newScore: number;
+}
+
+/**
+ * Points to give back for a disputed deduction: what the score actually lost (it is clamped
+ * to 0-100), less whatever earlier accepted disputes already returned for it
+ */
+export const disputeCompensationFor = (disputed: AppliedEvent, compensations: AppliedEvent[]): number => {
+  const lost = disputed.previousScore - disputed.newScore;
+  const returned = compensations.reduce((sum, event) => sum + (event.newScore - event.previousScore), 0);
+  return Math.max(0, lost - returned);
+};
@@ -0,0 +1,164 @@
+/**
+ * Trust scoring policy
+ *
+ * A policy decides how far each TrustEvent moves the score: a weight per event source, caps
+ * on a single event and on the score, and how fast penalties fade with age. It also sets the
+ * scheduled steps: points restored for sustained verified driving, and confidence lost while
+ * no verified data arrives. Policies are versioned like fraud rules.
+ *
+ * A TrustEvent keeps the change its producer asked for in `change`; what the score actually
+ * moved is `newScore - previousScore`. That lets the ledger be replayed under another policy.
+ */
+
+export type TrustEventSource = 'telemetry' | 'admin' | 'manual' | 'fraudEngine' | 'anchor' | 'policy' | 'recompute';
+
+// Sources a policy weighs; `recompute` events are corrections written by the policy itself
+export type WeightedTrustSource = Exclude<TrustEventSource, 'recompute'>;
+
+export const TRUST_EVENT_SOURCES: TrustEventSource[] = ['telemetry', 'admin', 'manual', 'fraudEngine', 'anchor', 'policy', 'recompute'];
+export const WEIGHTED_TRUST_SOURCES: WeightedTrustSource[] = ['telemetry', 'admin', 'manual', 'fraudEngine', 'anchor', 'policy'];
+
+export interface TrustPolicySettings {
+  weights: Record<WeightedTrustSource, number>; // Multiplier on the requested change
+  caps: {
+    maxPenalty: number; // Most points a single event can take
+    maxGain: number; // Most points a single event can add
+    minScore: number;
+    maxScore: number;
+  };
+  decay: {
+    penaltyHalfLifeDays: number; // 0 keeps penalties at full weight forever
+    minPenaltyFactor: number; // Share of a penalty that never fades
+  };
+  // At most one step per window, and only after a window without new penalties
+  recovery: {
+    windowDays: number;
+    minDrivingDays: number; // Days with verified (batched) driving in the window
+    drivingPoints: number;
+    minAnchoredDays: number; // Days whose batch was anchored on chain
+    anchoredPoints: number;
+  };
+  // Once no verified data has arrived for graceDays, lose points every stepDays down to floor
+  inactivity: {
+    graceDays: number;
+    stepDays: number;
+    pointsPerStep: number;
+    floor: number;
+  };
+}
+
+export interface TrustPolicyConfig extends TrustPolicySettings {
+  version: number;
+}
+
+// Version 1: events count exactly as requested, as before policies existed
+export const DEFAULT_TRUST_POLICY: TrustPolicySettings = {
+  weights: { telemetry: 1, admin: 1, manual: 1, fraudEngine: 1, anchor: 1, policy: 1 },
+  caps: { maxPenalty: 100, maxGain: 100, minScore: 0, maxScore: 100 },
+  decay: { penaltyHalfLifeDays: 0, minPenaltyFactor: 1 },
+  recovery: { windowDays: 30, minDrivingDays: 20, drivingPoints: 2, minAnchoredDays: 20, anchoredPoints: 1 },
+  inactivity: { graceDays: 30, stepDays: 30, pointsPerStep: 1, floor: 50 }
+};
+
+// The parts of a TrustEvent a replay looks at
+export interface LedgerEvent {
+  _id?: unknown;
+  source: TrustEventSource;
+  change: number;
+  previousScore: number;
+  newScore: number;
+  createdAt: Date;
+  details?: {
+    fraudAlertId?: unknown;
+    disputedEventId?: unknown;
+  };
+}
+
+export interface TrustReplay {
+  openingScore: number;
+  score: number;
+  replayedEvents: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Fraud case reversals and dispute compensations give back what a penalty took, so they are
+ * derived from the penalty rather than weighed on their own
+ */
+export const isReversalEvent = (event: Pick<LedgerEvent, 'source' | 'details'>): boolean =>
+  event.source === 'admin' && !!(event.details?.fraudAlertId || event.details?.disputedEventId);
+
+export const clampTrustScore = (score: number, policy: TrustPolicySettings): number =>
+  Math.max(policy.caps.minScore, Math.min(policy.caps.maxScore, score));
+
+/**
+ * Points an event moves the score by under a policy, before the score range is applied
+ */
+export const weighTrustChange = (
+  change: number,
+  source: WeightedTrustSource,
+  policy: TrustPolicySettings,
+  ageDays = 0
+): number => {
+  let delta = change * (policy.weights[source] ?? 1);
+
+  const { penaltyHalfLifeDays, minPenaltyFactor } = policy.decay;
+  if (delta < 0 && penaltyHalfLifeDays > 0 && ageDays > 0) {
+    delta *= Math.max(minPenaltyFactor, Math.pow(0.5, ageDays / penaltyHalfLifeDays));
+  }
+
+  const capped = Math.max(-policy.caps.maxPenalty, Math.min(policy.caps.maxGain, Math.round(delta)));
+  return capped || 0; // No negative zero
+};
+
+/**
+ * Replay a vehicle's ledger, oldest event first, under a policy. The score before the first
+ * event is the opening balance; earlier recompute corrections are skipped.
+ */
+export const replayTrustEvents = (events: LedgerEvent[], policy: TrustPolicySettings, asOf: Date = new Date()): TrustReplay => {
+  const openingScore = events.length > 0 ? clampTrustScore(events[0].previousScore, policy) : policy.caps.maxScore;
+  let score = openingScore;
+  let replayedEvents = 0;
+
+  const appliedById = new Map<string, number>();
+  const alerts = new Map<string, { penalty: number; net: number }>();
+  const returnedByEvent = new Map<string, number>();
+
+  for (const event of events) {
+    if (event.source === 'recompute') continue;
+
+    const alertId = event.details?.fraudAlertId ? String(event.details.fraudAlertId) : null;
+    const disputedId = event.details?.disputedEventId ? String(event.details.disputedEventId) : null;
+    const alert = alertId ? alerts.get(alertId) || { penalty: 0, net: 0 } : null;
+
+    let delta: number;
+    if (isReversalEvent(event) && alert) {
+      // Same rule as fraud case status changes: dismissed gives the penalty back, reopened takes it again
+      delta = (event.change > 0 ? 0 : alert.penalty) - alert.net;
+    } else if (isReversalEvent(event)) {
+      const lost = -(appliedById.get(disputedId!) ?? 0);
+      delta = Math.max(0, lost - (returnedByEvent.get(disputedId!) ?? 0));
+    } else {
+      const ageDays = Math.max(0, (asOf.getTime() - new Date(event.createdAt).getTime()) / DAY_MS);
+      delta = weighTrustChange(event.change, event.source as WeightedTrustSource, policy, ageDays);
+    }
+
+    const next = clampTrustScore(score + delta, policy);
+    const applied = next - score;
+    score = next;
+    replayedEvents++;
+
+    if (event._id) appliedById.set(String(event._id), applied);
+    if (alert) {
+      alert.net += applied;
+      if (!isReversalEvent(event)) alert.penalty += applied;
+      alerts.set(alertId!, alert);
+    }
+    if (disputedId) {
+      returnedByEvent.set(disputedId, (returnedByEvent.get(disputedId) ?? 0) + applied);
+    }
+  }
+
+  return { openingScore, score, replayedEvents };
+};
@@ -0,0 +1,80 @@
+/**
+ * Scheduled trust score steps
+ *
+ * Once a day every vehicle that has sent verified data gets at most one step:
+ * - recovery: a window of sustained verified driving (and anchored daily batches) without new
+ *   penalties restores a few points;
+ * - inactivity: when verified data has stopped arriving, confidence slowly decays to a floor.
+ *
+ * The amounts come from the active trust policy. Each step is recorded as a TrustEvent with
+ * source `policy`.
+ */
+
+import { TrustPolicySettings } from './trustPolicy';
+
+export type TrustStepRule = 'recovery' | 'inactivity';
+
+export interface TrustStepInput {
+  now: Date;
+  score: number;
+  lastDataAt: Date | null; // Most recent day with a telemetry batch
+  drivingDays: number; // Days with verified driving in the recovery window
+  anchoredDays: number; // Of those, days whose batch was anchored
+  lastPenaltyAt: Date | null;
+  lastRecoveryAt: Date | null;
+  lastDecayAt: Date | null;
+}
+
+export interface TrustStep {
+  rule: TrustStepRule;
+  change: number;
+  reason: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysSince = (from: Date | null, now: Date): number =>
+  from ? (now.getTime() - from.getTime()) / DAY_MS : Infinity;
+
+/**
+ * The step a vehicle is due, if any
+ */
+export const decideTrustStep = (input: TrustStepInput, policy: TrustPolicySettings): TrustStep | null => {
+  const { now, score } = input;
+  const { recovery, inactivity } = policy;
+
+  const silentDays = daysSince(input.lastDataAt, now);
+  if (input.lastDataAt && silentDays >= inactivity.graceDays) {
+    if (inactivity.pointsPerStep <= 0 || score <= inactivity.floor || daysSince(input.lastDecayAt, now) < inactivity.stepDays) {
+      return null;
+    }
+    const points = Math.min(inactivity.pointsPerStep, score - inactivity.floor);
+    return {
+      rule: 'inactivity',
+      change: -points,
+      reason: `No verified data for ${Math.floor(silentDays)} days`
+    };
+  }
+
+  if (score >= policy.caps.maxScore) return null;
+  if (daysSince(input.lastRecoveryAt, now) < recovery.windowDays) return null;
+  if (daysSince(input.lastPenaltyAt, now) < recovery.windowDays) return null;
+
+  const driving = recovery.drivingPoints > 0 && input.drivingDays >= recovery.minDrivingDays;
+  const anchored = recovery.anchoredPoints > 0 && input.anchoredDays >= recovery.minAnchoredDays;
+  const points = Math.min(
+    (driving ? recovery.drivingPoints : 0) + (anchored ? recovery.anchoredPoints : 0),
+    policy.caps.maxScore - score
+  );
+  if (points <= 0) return null;
+
+  const evidence = [
+    driving && `${input.drivingDays} days of verified driving`,
+    anchored && `${input.anchoredDays} anchored daily batches`
+  ].filter(Boolean).join(' and ');
+  return {
+    rule: 'recovery',
+    change: points,
+    reason: `Clean record: ${evidence} in ${recovery.windowDays} days`
+  };
+};
@@ -0,0 +1,189 @@
+/**
+ * Per-vehicle usage baseline
+ *
+ * Each vehicle is compared with its own history instead of fleet-wide thresholds: a taxi that
+ * drives 300 km a day is normal, a weekend car doing the same is not. The baseline is the mean
+ * and spread of daily distance, trip count and operating hours over the days the vehicle was
+ * used (days with a telemetry batch), and a day is scored by how many standard deviations it
+ * sits from that mean.
+ *
+ * Distance per operating hour gets its own check: an engine that runs for hours while the
+ * odometer barely moves is what a disconnected or tampered odometer looks like.
+ */
+
+export type UsageMetric = 'distanceKm' | 'trips' | 'operatingHours' | 'kmPerHour';
+export type UsageAnomalyKind = 'distance_spike' | 'usage_spike' | 'distance_stall';
+
+export const USAGE_METRICS: UsageMetric[] = ['distanceKm', 'trips', 'operatingHours', 'kmPerHour'];
+
+export interface DailyUsage {
+  date: string; // yyyy-mm-dd
+  distanceKm: number;
+  trips: number;
+  operatingHours: number;
+}
+
+export interface MetricStats {
+  mean: number;
+  stdDev: number;
+  min: number;
+  max: number;
+}
+
+export interface UsageBaseline {
+  days: number;
+  from: string | null;
+  to: string | null;
+  distanceKm: MetricStats;
+  trips: MetricStats;
+  operatingHours: MetricStats;
+  kmPerHour: MetricStats; // Over days with at least minStallHours of operation
+}
+
+export interface UsageBaselineOptions {
+  minDays: number; // Fewer days of history than this: no verdicts yet
+  lowZ: number;
+  mediumZ: number;
+  minStallHours: number; // Below this, too little running time to call a stall
+  stallRatio: number; // Share of the usual km per hour under which distance has stalled
+}
+
+export interface UsageAnomaly {
+  kind: UsageAnomalyKind;
+  metric: UsageMetric;
+  severity: 'low' | 'medium';
+  value: number;
+  mean: number;
+  stdDev: number;
+  zScore: number;
+  reason: string;
+}
+
+// Spread never counts as smaller than this, so a very regular vehicle is not flagged for noise
+const MIN_STD_DEV: Record<UsageMetric, number> = {
+  distanceKm: 5,
+  trips: 1,
+  operatingHours: 0.5,
+  kmPerHour: 5
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const round = (value: number, places = 2): number => {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Daily usage from a telemetry batch: segments are stretches of continuous reporting, so their
+ * count is the day's trips and their duration its operating time
+ */
+export const dailyUsageOf = (batch: {
+  date: string;
+  totalDistance?: number;
+  segments?: Array<{ startTime: Date | string; endTime: Date | string }>;
+}): DailyUsage => {
+  const segments = batch.segments || [];
+  const operatingMs = segments.reduce(
+    (sum, segment) => sum + Math.max(0, new Date(segment.endTime).getTime() - new Date(segment.startTime).getTime()),
+    0
+  );
+
+  return {
+    date: batch.date,
+    distanceKm: round(batch.totalDistance || 0, 1),
+    trips: segments.length,
+    operatingHours: round(operatingMs / HOUR_MS)
+  };
+};
+
+export const metricStats = (values: number[]): MetricStats => {
+  if (values.length === 0) return { mean: 0, stdDev: 0, min: 0, max: 0 };
+
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return {
+    mean: round(mean),
+    stdDev: round(Math.sqrt(variance)),
+    min: round(Math.min(...values)),
+    max: round(Math.max(...values))
+  };
+};
+
+export const kmPerHourOf = (day: DailyUsage): number =>
+  day.operatingHours > 0 ? day.distanceKm / day.operatingHours : 0;
+
+export const buildUsageBaseline = (history: DailyUsage[], options: Pick<UsageBaselineOptions, 'minStallHours'>): UsageBaseline => {
+  const dates = history.map(day => day.date).sort();
+  const running = history.filter(day => day.operatingHours >= options.minStallHours);
+
+  return {
+    days: history.length,
+    from: dates[0] ?? null,
+    to: dates[dates.length - 1] ?? null,
+    distanceKm: metricStats(history.map(day => day.distanceKm)),
+    trips: metricStats(history.map(day => day.trips)),
+    operatingHours: metricStats(history.map(day => day.operatingHours)),
+    kmPerHour: metricStats(running.map(kmPerHourOf))
+  };
+};
+
+const zScoreOf = (value: number, stats: MetricStats, metric: UsageMetric): number =>
+  round((value - stats.mean) / Math.max(stats.stdDev, MIN_STD_DEV[metric]));
+
+/**
+ * Anomalies of one day against the baseline of the days before it
+ */
+export const assessUsageDay = (day: DailyUsage, baseline: UsageBaseline, options: UsageBaselineOptions): UsageAnomaly[] => {
+  if (baseline.days < options.minDays) return [];
+
+  const anomalies: UsageAnomaly[] = [];
+  const severityOf = (z: number): 'low' | 'medium' | null =>
+    Math.abs(z) >= options.mediumZ ? 'medium' : Math.abs(z) >= options.lowZ ? 'low' : null;
+
+  const spike = (kind: UsageAnomalyKind, metric: Exclude<UsageMetric, 'kmPerHour'>, label: string, unit: string) => {
+    const stats = baseline[metric];
+    const zScore = zScoreOf(day[metric], stats, metric);
+    const severity = zScore > 0 ? severityOf(zScore) : null;
+    if (!severity) return;
+
+    anomalies.push({
+      kind,
+      metric,
+      severity,
+      value: day[metric],
+      mean: stats.mean,
+      stdDev: stats.stdDev,
+      zScore,
+      reason: `${label} of ${day[metric]}${unit} on ${day.date} is ${zScore} standard deviations above this vehicle's ` +
+        `${baseline.days}-day average of ${stats.mean}${unit}`
+    });
+  };
+
+  spike('distance_spike', 'distanceKm', 'Distance', ' km');
+  spike('usage_spike', 'trips', 'Trip count', '');
+  spike('usage_spike', 'operatingHours', 'Operating time', ' h');
+
+  // The engine ran but the odometer hardly moved
+  const usual = baseline.kmPerHour;
+  if (day.operatingHours >= options.minStallHours && usual.mean > 0) {
+    const value = round(kmPerHourOf(day));
+    const zScore = zScoreOf(value, usual, 'kmPerHour');
+    if (value < usual.mean * options.stallRatio && zScore <= -options.lowZ) {
+      anomalies.push({
+        kind: 'distance_stall',
+        metric: 'kmPerHour',
+        // A full hour of running with the odometer stalled is a stronger signal than a few minutes
+        severity: day.operatingHours >= 2 * options.minStallHours || zScore <= -options.mediumZ ? 'medium' : 'low',
+        value,
+        mean: usual.mean,
+        stdDev: usual.stdDev,
+        zScore,
+        reason: `Engine ran for ${day.operatingHours} h on ${day.date} but distance grew only ${day.distanceKm} km ` +
+          `(${value} km/h against a usual ${usual.mean} km/h)`
+      });
+    }
+  }
+
+  return anomalies;
+};
@@ -0,0 +1,52 @@
+/**
+ * Vehicle holds
+ *
+ * A hold is placed by a government or admin user on a vehicle that must not change hands: a
+ * reported theft, a court order, a disputed lien or an open investigation. While a hold is active
+ * the vehicle cannot be listed, requested, transferred or imported onto another account. A hold
+ * ends when it is released or when its expiry passes.
+ */
+
+export type VehicleHoldType = 'stolen' | 'court_order' | 'lien_dispute' | 'investigation';
+export type VehicleHoldStatus = 'active' | 'released';
+export type HeldAction = 'listing' | 'purchase_request' | 'transfer' | 'import';
+
+export const VEHICLE_HOLD_TYPES: VehicleHoldType[] = ['stolen', 'court_order', 'lien_dispute', 'investigation'];
+
+export const VEHICLE_HOLD_PLACER_ROLES = ['admin', 'government'];
+
+export const VEHICLE_HOLD_LABELS: Record<VehicleHoldType, string> = {
+  stolen: 'Reported stolen',
+  court_order: 'Court order',
+  lien_dispute: 'Lien dispute',
+  investigation: 'Under investigation'
+};
+
+const ACTION_PHRASES: Record<HeldAction, string> = {
+  listing: 'listed for sale',
+  purchase_request: 'purchased',
+  transfer: 'transferred',
+  import: 'imported to another account'
+};
+
+export interface VehicleHoldLike {
+  type: VehicleHoldType;
+  reason: string;
+  status: VehicleHoldStatus;
+  expiresAt?: Date | null;
+}
+
+export const isHoldActive = (hold: VehicleHoldLike, now: Date = new Date()): boolean =>
+  hold.status === 'active' && (!hold.expiresAt || new Date(hold.expiresAt).getTime() > now.getTime());
+
+/**
+ * Why the action is refused, naming every active hold
+ */
+export const holdBlockMessage = (holds: VehicleHoldLike[], action: HeldAction): string => {
+  const reasons = holds.map(hold => {
+    const until = hold.expiresAt ? ` (until ${new Date(hold.expiresAt).toISOString().slice(0, 10)})` : '';
+    return `${VEHICLE_HOLD_LABELS[hold.type]}: ${hold.reason}${until}`;
+  });
+
+  return `Vehicle cannot be ${ACTION_PHRASES[action]} while on hold. ${reasons.join('; ')}`;
+};
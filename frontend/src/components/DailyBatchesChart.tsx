@@ -1,7 +1,14 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
-import VehicleService from '../services/vehicle';
-import type { TelemetryBatchData } from '../services/vehicle';
+import TelemetryService from '../services/telemetry';
+import { handleApiError } from '../services/api';
+
+// One day of the vehicle's daily telemetry rollup
+interface DayPoint {
+  recordedAt: string;
+  distanceDelta: number;
+  lastRecordedMileage: number;
+}
 
 interface DailyBatchesChartProps {
   vehicleId: string;
@@ -18,35 +25,34 @@ const PADDING_TOP = 16;
 const PADDING_BOTTOM = 40;
 
 const DailyBatchesChart: React.FC<DailyBatchesChartProps> = ({ vehicleId }) => {
-  const [batches, setBatches] = useState<TelemetryBatchData[]>([]);
+  const [days, setDays] = useState<DayPoint[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [view, setView] = useState<ViewMode>('distance');
   const [range, setRange] = useState<RangeMode>('7d');
 
-  const fetchBatches = async () => {
+  const fetchDays = async () => {
     setLoading(true);
     setError(null);
     try {
-      const response = await VehicleService.getTelemetryBatches(vehicleId, 365);
-      if (response.success) {
-        // Sort ascending by recordedAt for left-to-right timeline
-        const sorted = [...response.data.batches].sort(
-          (a, b) => new Date(a.recordedAt).getTime() - new Date(b.recordedAt).getTime()
-        );
-        setBatches(sorted);
-      } else {
-        setError(response.message || 'Failed to fetch telemetry batches');
-      }
+      const response = await TelemetryService.getTelemetryRollups(vehicleId, 'day');
+      // Days without an odometer reading have no distance or mileage to plot
+      setDays(response.data
+        .filter(day => day.closingMileage !== null)
+        .map(day => ({
+          recordedAt: day.bucketStart,
+          distanceDelta: day.distanceKm,
+          lastRecordedMileage: day.closingMileage as number
+        })));
     } catch (err) {
-      setError('Failed to load telemetry data');
+      setError(handleApiError(err));
     } finally {
       setLoading(false);
     }
   };
 
   useEffect(() => {
-    if (vehicleId) fetchBatches();
+    if (vehicleId) fetchDays();
   }, [vehicleId]);
 
   const chartData = useMemo(() => {
@@ -54,7 +60,7 @@ const DailyBatchesChart: React.FC<DailyBatchesChartProps> = ({ vehicleId }) => {
     const now = Date.now();
     const windowMs = range === '7d' ? 7*24*3600*1000 : range === '30d' ? 30*24*3600*1000 : 365*24*3600*1000;
     const windowStart = now - windowMs;
-    const filtered = batches.filter(b => new Date(b.recordedAt).getTime() >= windowStart);
+    const filtered = days.filter(b => new Date(b.recordedAt).getTime() >= windowStart);
 
     const innerWidth = SVG_WIDTH - PADDING_LEFT - PADDING_RIGHT;
     const innerHeight = SVG_HEIGHT - PADDING_TOP - PADDING_BOTTOM;
@@ -104,7 +110,7 @@ const DailyBatchesChart: React.FC<DailyBatchesChartProps> = ({ vehicleId }) => {
     const mileageTicks = makeTicks(minMileage, maxMileage);
 
     return { innerWidth, innerHeight, distanceBars, mileagePoints, mileagePath, maxDistance, minMileage, maxMileage, distanceTicks, mileageTicks, filtered };
-  }, [batches, range]);
+  }, [days, range]);
 
   if (loading) {
     return (
@@ -124,10 +130,10 @@ const DailyBatchesChart: React.FC<DailyBatchesChartProps> = ({ vehicleId }) => {
     );
   }
 
-  if (batches.length === 0) {
+  if (days.length === 0) {
     return (
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 text-center text-gray-500">
-        No telemetry batches to display.
+        No telemetry history to display.
       </div>
     );
   }
@@ -23,6 +23,11 @@ interface TrustEvent {
     previousMileage?: number;
     deviceId?: string;
     fraudAlertId?: string;
+    policyRule?: 'recovery' | 'inactivity';
+    drivingDays?: number;
+    anchoredDays?: number;
+    windowDays?: number;
+    lastDataAt?: string;
   };
 }
 
@@ -59,7 +64,9 @@ export const TrustEventDetail: React.FC<TrustEventDetailProps> = ({
       admin: 'Admin',
       manual: 'Manual',
       fraudEngine: 'Fraud Detection',
-      anchor: 'Blockchain'
+      anchor: 'Blockchain',
+      policy: 'Scheduled Policy',
+      recompute: 'Policy Recompute'
     };
     return labels[source as keyof typeof labels] || source;
   };
@@ -72,6 +79,8 @@ export const TrustEventDetail: React.FC<TrustEventDetailProps> = ({
         return <Zap className="w-5 h-5 text-blue-500" />;
       case 'anchor':
         return <Shield className="w-5 h-5 text-purple-500" />;
+      case 'policy':
+        return <Clock className="w-5 h-5 text-teal-500" />;
       default:
         return <User className="w-5 h-5 text-gray-500" />;
     }
@@ -325,6 +334,42 @@ export const TrustEventDetail: React.FC<TrustEventDetailProps> = ({
                     </div>
                   </motion.div>
                 )}
+
+                {/* Scheduled Policy Step */}
+                {event.details.policyRule && (
+                  <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 0.6 }}
+                    className="bg-gradient-to-r from-teal-50 to-emerald-50 rounded-2xl p-5 border border-teal-200"
+                  >
+                    <div className="flex items-center space-x-3 mb-4">
+                      <Clock className="w-5 h-5 text-teal-600" />
+                      <p className="text-sm font-semibold text-teal-800">
+                        {event.details.policyRule === 'recovery' ? 'Clean Record Recovery' : 'Inactivity Decay'}
+                      </p>
+                    </div>
+                    {event.details.policyRule === 'recovery' ? (
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="bg-white/60 rounded-xl p-3">
+                          <p className="text-xs text-teal-700 font-medium mb-1">Days of Verified Driving</p>
+                          <p className="text-lg font-bold text-teal-900">{event.details.drivingDays} of {event.details.windowDays}</p>
+                        </div>
+                        <div className="bg-white/60 rounded-xl p-3">
+                          <p className="text-xs text-teal-700 font-medium mb-1">Anchored Daily Batches</p>
+                          <p className="text-lg font-bold text-teal-900">{event.details.anchoredDays}</p>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="bg-white/60 rounded-xl p-3">
+                        <p className="text-xs text-teal-700 font-medium mb-1">Last Verified Data</p>
+                        <p className="text-lg font-bold text-teal-900">
+                          {event.details.lastDataAt ? new Date(event.details.lastDataAt).toLocaleDateString() : 'Never'}
+                        </p>
+                      </div>
+                    )}
+                  </motion.div>
+                )}
               </div>
 
               {/* Footer */}
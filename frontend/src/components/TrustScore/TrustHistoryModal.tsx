@@ -88,7 +88,9 @@ export const TrustHistoryModal: React.FC<TrustHistoryModalProps> = ({
       admin: 'Admin',
       manual: 'Manual',
       fraudEngine: 'Fraud Detection',
-      anchor: 'Blockchain'
+      anchor: 'Blockchain',
+      policy: 'Scheduled Policy',
+      recompute: 'Policy Recompute'
     };
     return labels[source as keyof typeof labels] || source;
   };
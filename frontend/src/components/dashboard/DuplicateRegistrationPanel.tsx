@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { Copy, MapPin, AlertTriangle, Loader2 } from 'lucide-react';
+import { DuplicateRegistrationService } from '../../services/duplicateRegistrations';
+import type { DuplicateRegistrationReport, DuplicateFindingKind } from '../../services/duplicateRegistrations';
+import { handleApiError } from '../../services/api';
+
+const KIND_LABELS: Record<DuplicateFindingKind, string> = {
+  impossible_travel: 'Impossible Travel',
+  near_duplicate_vin: 'Near-Duplicate VIN',
+  shared_registration: 'Shared Registration'
+};
+
+const getSeverityColor = (severity: string) => {
+  switch (severity) {
+    case 'critical': return 'text-red-700 bg-red-50 border-red-200';
+    case 'high': return 'text-orange-600 bg-orange-50 border-orange-200';
+    default: return 'text-yellow-600 bg-yellow-50 border-yellow-200';
+  }
+};
+
+/**
+ * Findings of the latest fleet-wide cloned VIN and number plate scan
+ */
+export const DuplicateRegistrationPanel: React.FC = () => {
+  const [report, setReport] = useState<DuplicateRegistrationReport | null>(null);
+  const [kind, setKind] = useState<DuplicateFindingKind | ''>('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    DuplicateRegistrationService.getLatestReport(kind || undefined)
+      .then(latest => {
+        if (!cancelled) {
+          setReport(latest);
+          setError(null);
+        }
+      })
+      .catch(err => {
+        if (!cancelled) setError(handleApiError(err));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [kind]);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+      <div className="p-6 border-b border-gray-200">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center">
+            <Copy className="w-5 h-5 text-gray-400 mr-2" />
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Cloned VINs &amp; Duplicate Registrations</h2>
+              {report && (
+                <p className="text-sm text-gray-600">
+                  Scan of {new Date(report.createdAt).toLocaleString()} • {report.vehiclesScanned} vehicles • {report.alertsCreated} new alerts
+                </p>
+              )}
+            </div>
+          </div>
+          <select
+            value={kind}
+            onChange={e => setKind(e.target.value as DuplicateFindingKind | '')}
+            className="text-sm border border-gray-300 rounded-lg px-3 py-2"
+          >
+            <option value="">All findings</option>
+            {Object.entries(KIND_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div className="p-6">
+        {loading ? (
+          <div className="flex items-center justify-center py-8 text-gray-500">
+            <Loader2 className="w-5 h-5 animate-spin mr-2" />
+            Loading latest scan...
+          </div>
+        ) : error ? (
+          <p className="text-sm text-gray-600">{error}</p>
+        ) : !report || report.findings.length === 0 ? (
+          <p className="text-sm text-gray-600">No cloned VINs or duplicate registrations in the latest scan.</p>
+        ) : (
+          <div className="space-y-4">
+            {report.findings.map(finding => (
+              <div key={finding.fingerprint} className="p-4 bg-gray-50 rounded-lg">
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center">
+                    {finding.kind === 'impossible_travel'
+                      ? <MapPin className="w-4 h-4 text-red-500 mr-2" />
+                      : <AlertTriangle className="w-4 h-4 text-orange-500 mr-2" />}
+                    <h4 className="font-medium text-gray-900">{KIND_LABELS[finding.kind]}</h4>
+                  </div>
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium border ${getSeverityColor(finding.severity)}`}>
+                    {finding.severity}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-700 mb-2">{finding.summary}</p>
+                <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600">
+                  {finding.vehicleIds.filter(Boolean).map(vehicle => (
+                    <span key={vehicle._id} className="font-mono">{vehicle.vin} • {vehicle.vehicleNumber}</span>
+                  ))}
+                  {finding.ownerIds.length > 0 && (
+                    <span>Owners: {finding.ownerIds.filter(Boolean).map(owner => `${owner.firstName} ${owner.lastName}`).join(', ')}</span>
+                  )}
+                  {finding.deviceIds.length > 0 && <span>Devices: {finding.deviceIds.join(', ')}</span>}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateRegistrationPanel;
@@ -11,6 +11,7 @@ import {
   Eye,
   Activity
 } from 'lucide-react';
+import { DuplicateRegistrationPanel } from './DuplicateRegistrationPanel';
 
 interface GovernmentDashboardProps {
   user: {
@@ -382,6 +383,9 @@ export const GovernmentDashboard: React.FC<GovernmentDashboardProps> = ({ user }
         </div>
       </div>
 
+      {/* Cloned VIN and plate scan */}
+      <DuplicateRegistrationPanel />
+
       {/* Quick Actions */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200">
         <div className="p-6 border-b border-gray-200">
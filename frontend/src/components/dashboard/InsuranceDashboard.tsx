@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { 
   Shield, 
   FileText, 
@@ -13,6 +13,9 @@ import {
   Activity,
   Target
 } from 'lucide-react';
+import DrivingScoreService from '../../services/drivingScore';
+import type { ConsentedVehicleScore, DrivingScore } from '../../services/drivingScore';
+import { handleApiError } from '../../services/api';
 
 interface InsuranceDashboardProps {
   user: {
@@ -103,32 +106,43 @@ export const InsuranceDashboard: React.FC<InsuranceDashboardProps> = ({ user })
     }
   ];
 
-  const riskAssessments = [
-    {
-      id: 1,
-      vehicle: '2019 Ford Mustang',
-      owner: 'Alex Thompson',
-      riskLevel: 'High',
-      factors: ['Young driver', 'Sports car', 'High theft area'],
-      premiumAdjustment: '+25%'
-    },
-    {
-      id: 2,
-      vehicle: '2021 Volvo XC90',
-      owner: 'Jennifer Martinez',
-      riskLevel: 'Low',
-      factors: ['Experienced driver', 'Safety features', 'Low crime area'],
-      premiumAdjustment: '-15%'
-    },
-    {
-      id: 3,
-      vehicle: '2020 Tesla Model S',
-      owner: 'David Brown',
-      riskLevel: 'Medium',
-      factors: ['Electric vehicle', 'Advanced safety', 'Moderate usage'],
-      premiumAdjustment: '+5%'
-    }
-  ];
+  const [scoredVehicles, setScoredVehicles] = useState<ConsentedVehicleScore[]>([]);
+  const [scoresLoading, setScoresLoading] = useState(true);
+  const [scoresError, setScoresError] = useState<string | null>(null);
+
+  useEffect(() => {
+    DrivingScoreService.getConsentedVehicles()
+      .then(res => setScoredVehicles(res.data.vehicles))
+      .catch(error => setScoresError(handleApiError(error)))
+      .finally(() => setScoresLoading(false));
+  }, []);
+
+  // Driving behaviour components that pull the score down
+  const riskFactors = (score: DrivingScore | null): string[] => {
+    if (!score) return [];
+    const labels: Record<keyof DrivingScore['breakdown'], string> = {
+      harshAcceleration: 'Harsh acceleration',
+      harshBraking: 'Harsh braking',
+      overSpeeding: 'Over-speeding',
+      nightDriving: 'Night driving',
+      idling: 'Long idling'
+    };
+    const factors = (Object.keys(labels) as Array<keyof DrivingScore['breakdown']>)
+      .filter(key => score.breakdown[key] && score.breakdown[key].score < 70)
+      .map(key => labels[key]);
+    return factors.length > 0 ? factors : ['Smooth driving'];
+  };
+
+  const riskAssessments = scoredVehicles.map(entry => ({
+    id: entry.vehicleId,
+    vehicle: `${entry.year} ${entry.make} ${entry.model}`,
+    owner: entry.owner || entry.vehicleNumber,
+    riskLevel: entry.latest?.riskLevel
+      ? entry.latest.riskLevel.charAt(0).toUpperCase() + entry.latest.riskLevel.slice(1)
+      : 'Unscored',
+    factors: riskFactors(entry.latest),
+    drivingScore: entry.latest?.score != null ? `${entry.latest.score}/100` : 'Not enough driving'
+  }));
 
   const insuranceActions = [
     {
@@ -317,6 +331,11 @@ export const InsuranceDashboard: React.FC<InsuranceDashboardProps> = ({ user })
           </div>
           <div className="p-6">
             <div className="space-y-4">
+              {scoresLoading && <p className="text-sm text-gray-500">Loading driving scores...</p>}
+              {scoresError && <p className="text-sm text-red-600">{scoresError}</p>}
+              {!scoresLoading && !scoresError && riskAssessments.length === 0 && (
+                <p className="text-sm text-gray-500">No policyholders have shared their driving score yet</p>
+              )}
               {riskAssessments.map((assessment, index) => (
                 <div key={index} className="p-4 bg-gray-50 rounded-lg">
                   <div className="flex items-center justify-between mb-3">
@@ -328,7 +347,7 @@ export const InsuranceDashboard: React.FC<InsuranceDashboardProps> = ({ user })
                       <span className={`px-2 py-1 rounded-full text-xs font-medium border ${getRiskLevelColor(assessment.riskLevel)}`}>
                         {assessment.riskLevel} Risk
                       </span>
-                      <p className="text-sm font-medium text-gray-900 mt-1">{assessment.premiumAdjustment}</p>
+                      <p className="text-sm font-medium text-gray-900 mt-1">{assessment.drivingScore}</p>
                     </div>
                   </div>
                   <div className="flex flex-wrap gap-1">
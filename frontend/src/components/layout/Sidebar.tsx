@@ -53,6 +53,8 @@ export const Sidebar: React.FC<SidebarProps> = ({
       if (path.includes('/admin/dashboard')) dispatch(setActiveSidebarItem('dashboard'));
       else if (path.includes('/admin/marketplace')) dispatch(setActiveSidebarItem('marketplace'));
       else if (path.includes('/admin/installs')) dispatch(setActiveSidebarItem('installs'));
+      else if (path.includes('/admin/devices')) dispatch(setActiveSidebarItem('devices'));
+      else if (path.includes('/admin/fraud-alerts')) dispatch(setActiveSidebarItem('fraudAlerts'));
       else if (path.includes('/admin/history')) dispatch(setActiveSidebarItem('history'));
       else if (path.includes('/admin/users')) dispatch(setActiveSidebarItem('users'));
     } else if (role === 'owner') {
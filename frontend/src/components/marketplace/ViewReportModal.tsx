@@ -764,6 +764,9 @@ export const ViewReportModal: React.FC<ViewReportModalProps> = ({
                                   </div>
                                 </div>
                                 <p className="text-xs text-slate-400 mt-2">{event.detectionReason}</p>
+                                {event.annotation && (
+                                  <p className="text-xs text-green-400 mt-1">{event.annotation}</p>
+                                )}
                               </div>
                             ))}
                           </motion.div>
@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ShieldCheck, AlertCircle, Share2, X } from 'lucide-react';
+import DrivingScoreService from '../../services/drivingScore';
+import type { DrivingScore, InsurerConsent } from '../../services/drivingScore';
+import { handleApiError } from '../../services/api';
+
+const COMPONENT_LABELS: Record<keyof DrivingScore['breakdown'], { label: string; unit: string }> = {
+  harshAcceleration: { label: 'Harsh acceleration', unit: 'per 100 km' },
+  harshBraking: { label: 'Harsh braking', unit: 'per 100 km' },
+  overSpeeding: { label: 'Over-speeding', unit: '% of moving time' },
+  nightDriving: { label: 'Night driving', unit: '% of driving time' },
+  idling: { label: 'Idling', unit: '% of engine-on time' }
+};
+
+const scoreColor = (score: number) =>
+  score >= 80 ? 'bg-green-500' : score >= 60 ? 'bg-yellow-500' : 'bg-red-500';
+
+export const DrivingScoreCard: React.FC<{ vehicleId: string }> = ({ vehicleId }) => {
+  const [latest, setLatest] = useState<DrivingScore | null>(null);
+  const [consents, setConsents] = useState<InsurerConsent[]>([]);
+  const [insurerEmail, setInsurerEmail] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!vehicleId) return;
+    setLoading(true);
+    DrivingScoreService.getVehicleScore(vehicleId, 1)
+      .then(res => {
+        setLatest(res.data.latest);
+        setConsents(res.data.consents || []);
+      })
+      .catch(e => setError(handleApiError(e)))
+      .finally(() => setLoading(false));
+  }, [vehicleId]);
+
+  const share = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      const res = await DrivingScoreService.grantConsent(vehicleId, insurerEmail);
+      setConsents(res.data.consents);
+      setInsurerEmail('');
+    } catch (e) {
+      setError(handleApiError(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const revoke = async (insurerId: string) => {
+    try {
+      setSaving(true);
+      setError(null);
+      const res = await DrivingScoreService.revokeConsent(vehicleId, insurerId);
+      setConsents(res.data.consents);
+    } catch (e) {
+      setError(handleApiError(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white/95 backdrop-blur-xl rounded-3xl border-2 border-white/40 p-8 shadow-2xl"
+    >
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-4">
+          <div className="p-3 bg-gradient-to-r from-indigo-500 to-blue-500 rounded-2xl shadow-lg">
+            <ShieldCheck className="w-7 h-7 text-white" />
+          </div>
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Driving Score</h2>
+            <p className="text-gray-600">
+              {latest
+                ? `${new Date(latest.periodStart).toLocaleDateString()} – ${new Date(latest.periodEnd).toLocaleDateString()}`
+                : 'Driving behaviour over the last period'}
+            </p>
+          </div>
+        </div>
+        {latest && (
+          <div className="text-right">
+            <p className="text-4xl font-bold text-gray-900">{latest.score ?? '–'}</p>
+            <p className="text-sm text-gray-500">
+              {latest.score === null ? `Only ${latest.metrics.distanceKm} km driven` : `${latest.riskLevel} risk`}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="flex items-center p-4 mb-6 rounded-xl bg-red-50 text-red-700 border border-red-200">
+          <AlertCircle className="w-5 h-5 mr-2" /> {error}
+        </div>
+      )}
+
+      {loading && <p className="text-gray-500">Loading driving score...</p>}
+
+      {latest && (
+        <div className="space-y-3 mb-8">
+          {(Object.keys(COMPONENT_LABELS) as Array<keyof DrivingScore['breakdown']>).map(key => {
+            const component = latest.breakdown[key];
+            if (!component) return null;
+            return (
+              <div key={key}>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="text-gray-700">{COMPONENT_LABELS[key].label}</span>
+                  <span className="text-gray-500">{component.value} {COMPONENT_LABELS[key].unit}</span>
+                </div>
+                <div className="h-2 rounded-full bg-gray-100">
+                  <div className={`h-2 rounded-full ${scoreColor(component.score)}`} style={{ width: `${component.score}%` }} />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="border-t border-gray-200 pt-6">
+        <h3 className="text-lg font-bold text-gray-900 mb-1">Shared with insurers</h3>
+        <p className="text-sm text-gray-600 mb-4">Insurers you add can read this score until you stop sharing or sell the vehicle.</p>
+
+        <div className="space-y-2 mb-4">
+          {consents.length === 0 && <p className="text-sm text-gray-500">Not shared with any insurer</p>}
+          {consents.map(consent => (
+            <div key={consent.insurerId} className="flex items-center justify-between p-3 rounded-xl bg-gray-50">
+              <div>
+                <p className="font-semibold text-gray-900">{consent.companyName || consent.email || consent.insurerId}</p>
+                <p className="text-xs text-gray-500">Since {new Date(consent.grantedAt).toLocaleDateString()}</p>
+              </div>
+              <button
+                onClick={() => revoke(consent.insurerId)}
+                disabled={saving}
+                className="inline-flex items-center px-3 py-1 rounded-lg text-sm text-red-600 hover:bg-red-50 disabled:opacity-50"
+              >
+                <X className="w-4 h-4 mr-1" /> Stop sharing
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <input
+            type="email"
+            value={insurerEmail}
+            onChange={e => setInsurerEmail(e.target.value)}
+            placeholder="Insurer account email"
+            className="flex-1 px-4 py-2 rounded-xl border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            onClick={share}
+            disabled={saving || insurerEmail.trim().length === 0}
+            className="inline-flex items-center px-4 py-2 rounded-xl bg-gradient-to-r from-blue-600 to-purple-600 text-white font-semibold disabled:opacity-50"
+          >
+            <Share2 className="w-4 h-4 mr-2" /> Share
+          </button>
+        </div>
+      </div>
+    </motion.div>
+  );
+};
+
+export default DrivingScoreCard;
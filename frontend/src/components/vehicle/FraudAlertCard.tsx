@@ -5,7 +5,7 @@ import { AlertTriangle, Shield, CheckCircle, XCircle, Clock, TrendingDown, Alert
 interface FraudAlert {
   id: string;
   type: string;
-  severity: 'high' | 'medium' | 'low';
+  severity: 'critical' | 'high' | 'medium' | 'low';
   message: string;
   detectedAt: string;
   status: 'active' | 'resolved' | 'investigating';
@@ -24,6 +24,7 @@ interface FraudAlertCardProps {
 export const FraudAlertCard: React.FC<FraudAlertCardProps> = ({ alerts, loading }) => {
   const getSeverityColor = (severity: string) => {
     switch (severity) {
+      case 'critical':
       case 'high':
         return 'bg-gradient-to-r from-red-500/20 to-red-600/20 text-red-800 border-red-300/50 backdrop-blur-sm';
       case 'medium':
@@ -37,6 +38,7 @@ export const FraudAlertCard: React.FC<FraudAlertCardProps> = ({ alerts, loading
 
   const getSeverityIcon = (severity: string) => {
     switch (severity) {
+      case 'critical':
       case 'high':
         return <motion.div
           animate={{ rotate: [0, -10, 10, 0] }}
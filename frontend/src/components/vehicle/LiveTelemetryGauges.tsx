@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Radio, Battery, MapPin, Gauge, AlertCircle } from 'lucide-react';
+import useSocket from '../../hooks/useSocket';
+import type { LiveTelemetryReading } from '../../hooks/useSocket';
+import { useAppSelector } from '../../hooks/redux';
+
+// Readings older than this are shown as stale
+const STALE_AFTER_MS = 2 * 60 * 1000;
+
+interface DialProps {
+  label: string;
+  value: number | null;
+  max: number;
+  unit: string;
+  color: string;
+}
+
+// Half-circle dial; the arc fills in proportion to value / max
+const Dial: React.FC<DialProps> = ({ label, value, max, unit, color }) => {
+  const radius = 60;
+  const circumference = Math.PI * radius;
+  const fraction = value === null ? 0 : Math.min(Math.max(value / max, 0), 1);
+
+  return (
+    <div className="flex flex-col items-center">
+      <svg width="150" height="90" viewBox="0 0 150 90">
+        <path d="M 15 75 A 60 60 0 0 1 135 75" fill="none" stroke="#e5e7eb" strokeWidth="12" strokeLinecap="round" />
+        <path
+          d="M 15 75 A 60 60 0 0 1 135 75"
+          fill="none"
+          stroke={color}
+          strokeWidth="12"
+          strokeLinecap="round"
+          strokeDasharray={circumference}
+          strokeDashoffset={circumference * (1 - fraction)}
+          style={{ transition: 'stroke-dashoffset 0.5s ease-out' }}
+        />
+        <text x="75" y="70" textAnchor="middle" className="fill-gray-900" fontSize="22" fontWeight="700">
+          {value === null ? '–' : Math.round(value)}
+        </text>
+      </svg>
+      <p className="text-sm font-semibold text-gray-700">{label}</p>
+      <p className="text-xs text-gray-500">{unit}</p>
+    </div>
+  );
+};
+
+export const LiveTelemetryGauges: React.FC<{ vehicleId: string }> = ({ vehicleId }) => {
+  const { subscribeVehicle } = useSocket();
+  const { user } = useAppSelector((state) => state.auth);
+  const [reading, setReading] = useState<LiveTelemetryReading | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    setError(null);
+    return subscribeVehicle(vehicleId, setReading, setError);
+  }, [vehicleId, user?.id]);
+
+  // Re-evaluate staleness while no readings arrive
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 15000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const recordedAt = reading ? new Date(reading.recordedAt).getTime() : 0;
+  const live = reading !== null && now - recordedAt < STALE_AFTER_MS && reading.status === 'obd_connected';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white/95 backdrop-blur-xl rounded-3xl border-2 border-white/40 p-8 shadow-2xl"
+    >
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-4">
+          <div className="p-3 bg-gradient-to-r from-cyan-500 to-blue-500 rounded-2xl shadow-lg">
+            <Gauge className="w-7 h-7 text-white" />
+          </div>
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Live Telemetry</h2>
+            <p className="text-gray-600">
+              {reading ? `Last reading ${new Date(reading.recordedAt).toLocaleTimeString()}` : 'Waiting for the device...'}
+            </p>
+          </div>
+        </div>
+        <span className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-bold ${
+          live ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+        }`}>
+          <Radio className={`w-3 h-3 mr-1 ${live ? 'animate-pulse' : ''}`} />
+          {live ? 'LIVE' : 'OFFLINE'}
+        </span>
+      </div>
+
+      {error && (
+        <div className="flex items-center p-4 mb-6 rounded-xl bg-red-50 text-red-700 border border-red-200">
+          <AlertCircle className="w-5 h-5 mr-2" /> {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-6 items-end">
+        <Dial label="Speed" value={reading?.speed ?? null} max={200} unit="km/h" color="#3b82f6" />
+        <Dial label="Engine" value={reading?.rpm ?? null} max={8000} unit="rpm" color="#8b5cf6" />
+        <div className="flex flex-col items-center justify-end h-full">
+          <p className="text-2xl font-bold text-gray-900">
+            {reading?.mileage != null ? reading.mileage.toLocaleString() : '–'}
+          </p>
+          <p className="text-sm font-semibold text-gray-700">Odometer</p>
+          <p className="text-xs text-gray-500">km</p>
+        </div>
+        <div className="flex flex-col items-center justify-end h-full">
+          <p className="text-2xl font-bold text-gray-900 flex items-center">
+            <Battery className="w-5 h-5 mr-1 text-gray-500" />
+            {reading?.batteryVoltage != null ? reading.batteryVoltage.toFixed(1) : '–'}
+          </p>
+          <p className="text-sm font-semibold text-gray-700">Battery</p>
+          <p className="text-xs text-gray-500">V</p>
+        </div>
+      </div>
+
+      {reading?.location && (
+        <a
+          href={`https://www.google.com/maps?q=${reading.location.latitude},${reading.location.longitude}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="mt-6 inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+        >
+          <MapPin className="w-4 h-4 mr-1" />
+          {reading.location.latitude.toFixed(5)}, {reading.location.longitude.toFixed(5)}
+        </a>
+      )}
+    </motion.div>
+  );
+};
+
+export default LiveTelemetryGauges;
@@ -2,6 +2,8 @@ import React from 'react';
 import { motion } from 'framer-motion';
 import { DollarSign, ExternalLink, CheckCircle, Minus, Calendar } from 'lucide-react';
 import { formatPrice } from '../../utils/formatCurrency';
+import { VehicleHoldBanner } from './VehicleHoldBanner';
+import type { VehicleHoldSummary } from '../../services/vehicleHolds';
 
 interface MarketplaceStatusCardProps {
   vehicle: {
@@ -11,6 +13,7 @@ interface MarketplaceStatusCardProps {
     price?: number;
     description?: string;
     updatedAt?: string;
+    holds?: VehicleHoldSummary[];
   };
   onListForSale?: () => void;
 }
@@ -20,7 +23,8 @@ export const MarketplaceStatusCard: React.FC<MarketplaceStatusCardProps> = ({
   onListForSale
 }) => {
   const isListed = vehicle.isForSale && vehicle.listingStatus === 'active';
-  const canList = !isListed && onListForSale;
+  const holds = vehicle.holds || [];
+  const canList = !isListed && holds.length === 0 && onListForSale;
 
   return (
     <motion.div
@@ -120,6 +124,9 @@ export const MarketplaceStatusCard: React.FC<MarketplaceStatusCardProps> = ({
           </div>
         )}
 
+        {/* Active holds */}
+        <VehicleHoldBanner holds={holds} />
+
         {/* List for Sale Button */}
         {canList && (
           <motion.button
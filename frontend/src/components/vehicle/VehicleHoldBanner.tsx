@@ -0,0 +1,40 @@
+import React from 'react';
+import { Lock } from 'lucide-react';
+import type { VehicleHoldSummary } from '../../services/vehicleHolds';
+
+interface VehicleHoldBannerProps {
+  holds: VehicleHoldSummary[];
+}
+
+/**
+ * Why the vehicle cannot be listed, sold or transferred
+ */
+export const VehicleHoldBanner: React.FC<VehicleHoldBannerProps> = ({ holds }) => {
+  if (holds.length === 0) return null;
+
+  return (
+    <div className="p-4 bg-red-500/10 border border-red-500/30 rounded-xl space-y-3">
+      <div className="flex items-center space-x-2">
+        <Lock className="w-5 h-5 text-red-400" />
+        <span className="text-red-300 font-semibold text-sm">
+          Sale and transfer blocked
+        </span>
+      </div>
+      {holds.map(hold => (
+        <div key={hold.id} className="text-sm">
+          <p className="text-white font-medium">
+            {hold.label}
+            {hold.reference && <span className="text-slate-400 font-normal"> • Ref. {hold.reference}</span>}
+          </p>
+          <p className="text-slate-300">{hold.reason}</p>
+          <p className="text-slate-500 text-xs mt-1">
+            Placed {new Date(hold.placedAt).toLocaleDateString()}
+            {hold.expiresAt ? ` • Until ${new Date(hold.expiresAt).toLocaleDateString()}` : ' • Until released'}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default VehicleHoldBanner;
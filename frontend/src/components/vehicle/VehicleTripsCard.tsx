@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Route, RefreshCw, MapPin, Clock, Gauge, AlertCircle, ChevronLeft, ChevronRight } from 'lucide-react';
+import TelemetryService from '../../services/telemetry';
+import type { TripPage, TripLocation } from '../../services/telemetry';
+import { handleApiError } from '../../services/api';
+
+const PAGE_SIZE = 10;
+
+const formatDuration = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.round((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
+const formatLocation = (location: TripLocation | null) =>
+  location ? `${location.latitude.toFixed(4)}, ${location.longitude.toFixed(4)}` : 'Unknown';
+
+export const VehicleTripsCard: React.FC<{ vehicleId: string }> = ({ vehicleId }) => {
+  const [tripPage, setTripPage] = useState<TripPage | null>(null);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async (pageToLoad: number) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const res = await TelemetryService.getTrips(vehicleId, pageToLoad, PAGE_SIZE);
+      setTripPage(res.data);
+    } catch (e) {
+      console.error('Error loading trips:', e);
+      setError(handleApiError(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (vehicleId) load(page);
+  }, [vehicleId, page]);
+
+  const summary = tripPage?.summary;
+  const pagination = tripPage?.pagination;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white/95 backdrop-blur-xl rounded-3xl border-2 border-white/40 p-8 shadow-2xl"
+    >
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-4">
+          <div className="p-3 bg-gradient-to-r from-emerald-500 to-teal-500 rounded-2xl shadow-lg">
+            <Route className="w-7 h-7 text-white" />
+          </div>
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Trips</h2>
+            <p className="text-gray-600">Detected from ignition and movement</p>
+          </div>
+        </div>
+        <button
+          onClick={() => load(page)}
+          disabled={loading}
+          className="inline-flex items-center px-3 py-2 rounded-xl bg-gray-100 hover:bg-gray-200 text-gray-700 disabled:opacity-50"
+        >
+          <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} /> Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="flex items-center p-4 mb-6 rounded-xl bg-red-50 text-red-700 border border-red-200">
+          <AlertCircle className="w-5 h-5 mr-2" /> {error}
+        </div>
+      )}
+
+      {summary && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+          <div className="p-4 rounded-2xl bg-gray-50">
+            <p className="text-sm text-gray-500">Trips</p>
+            <p className="text-xl font-bold text-gray-900">{summary.totalTrips}</p>
+          </div>
+          <div className="p-4 rounded-2xl bg-gray-50">
+            <p className="text-sm text-gray-500">Distance</p>
+            <p className="text-xl font-bold text-gray-900">{summary.totalDistanceKm.toLocaleString()} km</p>
+          </div>
+          <div className="p-4 rounded-2xl bg-gray-50">
+            <p className="text-sm text-gray-500">Driving time</p>
+            <p className="text-xl font-bold text-gray-900">{formatDuration(summary.totalDurationSeconds)}</p>
+          </div>
+          <div className="p-4 rounded-2xl bg-gray-50">
+            <p className="text-sm text-gray-500">Idle time</p>
+            <p className="text-xl font-bold text-gray-900">{formatDuration(summary.totalIdleSeconds)}</p>
+          </div>
+        </div>
+      )}
+
+      {!loading && tripPage && tripPage.trips.length === 0 && (
+        <p className="text-center text-gray-500 py-8">No trips detected yet</p>
+      )}
+
+      <div className="space-y-4">
+        {tripPage?.trips.map(trip => (
+          <div key={trip.id} className="p-4 rounded-2xl border border-gray-200">
+            <div className="flex items-center justify-between mb-3">
+              <div className="flex items-center text-gray-900 font-semibold">
+                <Clock className="w-4 h-4 mr-2 text-gray-500" />
+                {new Date(trip.startTime).toLocaleString()} – {new Date(trip.endTime).toLocaleTimeString()}
+              </div>
+              {trip.status === 'in_progress' ? (
+                <span className="px-3 py-1 text-xs font-bold bg-blue-100 text-blue-800 rounded-full">In progress</span>
+              ) : (
+                <span className="px-3 py-1 text-xs font-bold bg-green-100 text-green-800 rounded-full">Completed</span>
+              )}
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-sm">
+              <div>
+                <p className="text-gray-500">Distance</p>
+                <p className="font-semibold text-gray-900">
+                  {trip.distanceKm} km{trip.distanceSource === 'gps' && <span className="text-gray-400"> (GPS)</span>}
+                </p>
+              </div>
+              <div>
+                <p className="text-gray-500">Duration</p>
+                <p className="font-semibold text-gray-900">{formatDuration(trip.durationSeconds)}</p>
+              </div>
+              <div>
+                <p className="text-gray-500 flex items-center"><Gauge className="w-3 h-3 mr-1" /> Max / avg</p>
+                <p className="font-semibold text-gray-900">{trip.maxSpeedKmh} / {trip.avgSpeedKmh} km/h</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Idle</p>
+                <p className="font-semibold text-gray-900">{formatDuration(trip.idleSeconds)}</p>
+              </div>
+              <div>
+                <p className="text-gray-500 flex items-center"><MapPin className="w-3 h-3 mr-1" /> From → to</p>
+                <p className="font-semibold text-gray-900 text-xs">
+                  {formatLocation(trip.startLocation)} → {formatLocation(trip.endLocation)}
+                </p>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {pagination && pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between mt-6">
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={!pagination.hasPrevPage || loading}
+            className="inline-flex items-center px-3 py-2 rounded-xl bg-gray-100 hover:bg-gray-200 text-gray-700 disabled:opacity-50"
+          >
+            <ChevronLeft className="w-4 h-4 mr-1" /> Newer
+          </button>
+          <span className="text-sm text-gray-600">
+            Page {pagination.currentPage} of {pagination.totalPages}
+          </span>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={!pagination.hasNextPage || loading}
+            className="inline-flex items-center px-3 py-2 rounded-xl bg-gray-100 hover:bg-gray-200 text-gray-700 disabled:opacity-50"
+          >
+            Older <ChevronRight className="w-4 h-4 ml-1" />
+          </button>
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default VehicleTripsCard;
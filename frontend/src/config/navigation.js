@@ -11,7 +11,8 @@ import {
   ShieldCheck,
   Building,
   FileText,
-  ShoppingCart
+  ShoppingCart,
+  AlertTriangle
 } from 'lucide-react';
 
 export const roleNavigation = {
@@ -104,6 +105,20 @@ export const roleNavigation = {
       icon: Settings,
       visibleForRoles: ['admin']
     },
+    { 
+      key: 'devices', 
+      label: 'Devices', 
+      path: '/admin/devices', 
+      icon: Smartphone,
+      visibleForRoles: ['admin']
+    },
+    { 
+      key: 'fraudAlerts', 
+      label: 'Fraud Alerts', 
+      path: '/admin/fraud-alerts', 
+      icon: AlertTriangle,
+      visibleForRoles: ['admin']
+    },
     { 
       key: 'history', 
       label: 'History', 
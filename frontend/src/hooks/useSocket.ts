@@ -3,9 +3,28 @@ import io, { Socket } from 'socket.io-client';
 import { useAppSelector } from './redux';
 import { config } from '../config/env';
 
+export interface LiveTelemetryReading {
+  vehicleId: string;
+  deviceID: string;
+  status: string;
+  speed: number | null;
+  rpm: number | null;
+  mileage: number | null;
+  engineTemp: number | null;
+  fuelLevel: number | null;
+  batteryVoltage: number | null;
+  location: { latitude: number; longitude: number; accuracy?: number } | null;
+  validationStatus: string | null;
+  recordedAt: string;
+}
+
 interface UseSocketReturn {
   socket: Socket | null;
-  joinVehicleRoom: (vehicleId: string) => void;
+  subscribeVehicle: (
+    vehicleId: string,
+    onReading: (reading: LiveTelemetryReading) => void,
+    onError?: (message: string) => void
+  ) => () => void;
   on: (event: string, callback: (...args: any[]) => void) => void;
   off: (event: string, callback?: (...args: any[]) => void) => void;
 }
@@ -30,6 +49,8 @@ const useSocket = (): UseSocketReturn => {
       path: '/socket.io',
       transports: ['websocket', 'polling'],
       withCredentials: false,
+      // Read on every (re)connect so refreshed tokens are picked up
+      auth: (cb) => cb({ token: localStorage.getItem('token') }),
     });
     
     if (user?.id) {
@@ -43,10 +64,36 @@ const useSocket = (): UseSocketReturn => {
     };
   }, [user?.id]);
   
-  const joinVehicleRoom = (vehicleId: string) => {
-    if (socketRef.current && vehicleId) {
-      socketRef.current.emit('join_vehicle', vehicleId);
+  // Watch a vehicle's live readings; returns a function that stops watching.
+  // Rooms are lost on reconnect, so the subscription is repeated on every connect.
+  const subscribeVehicle = (
+    vehicleId: string,
+    onReading: (reading: LiveTelemetryReading) => void,
+    onError?: (message: string) => void
+  ) => {
+    const socket = socketRef.current;
+    if (!socket || !vehicleId) {
+      return () => undefined;
     }
+
+    const handleReading = (reading: LiveTelemetryReading) => {
+      if (reading?.vehicleId === vehicleId) onReading(reading);
+    };
+    const subscribe = () => {
+      socket.emit('subscribe_vehicle', vehicleId, (res: { success: boolean; message?: string }) => {
+        if (!res?.success) onError?.(res?.message || 'Live telemetry unavailable');
+      });
+    };
+
+    socket.on('vehicle_telemetry', handleReading);
+    socket.on('connect', subscribe);
+    if (socket.connected) subscribe();
+
+    return () => {
+      socket.off('vehicle_telemetry', handleReading);
+      socket.off('connect', subscribe);
+      socket.emit('unsubscribe_vehicle', vehicleId);
+    };
   };
   
   const on = (event: string, callback: (...args: any[]) => void) => {
@@ -61,7 +108,7 @@ const useSocket = (): UseSocketReturn => {
     }
   };
   
-  return { socket: socketRef.current, joinVehicleRoom, on, off };
+  return { socket: socketRef.current, subscribeVehicle, on, off };
 };
 
 export default useSocket;
\ No newline at end of file
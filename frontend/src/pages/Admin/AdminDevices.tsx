@@ -0,0 +1,437 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Smartphone, Search, RotateCcw, Cpu, Download, Save, Loader2, X, Wifi, WifiOff } from 'lucide-react';
+import { DeviceService } from '../../services/device';
+import { handleApiError } from '../../services/api';
+import type { Device, DeviceCommand, DeviceCommandStatus, DeviceCommandType, ObdProfile } from '../../services/device';
+import toast from 'react-hot-toast';
+
+type ConfigForm = Device['configuration'];
+
+const COMMAND_LABELS: Record<DeviceCommandType, string> = {
+  config_update: 'Config update',
+  reboot: 'Reboot',
+  pid_rediscovery: 'PID rediscovery',
+  firmware_check: 'Firmware check'
+};
+
+// selectedVehicle values understood by firmware without OBD profile support
+const LEGACY_VEHICLE_PROFILES: Array<{ value: number; label: string }> = [
+  { value: 1, label: '1 - Hyundai' },
+  { value: 2, label: '2 - Maruti' },
+  { value: 3, label: '3 - Manual' },
+  { value: 4, label: '4 - Auto' },
+  { value: 99, label: '99 - Discovery' }
+];
+
+const getCommandStatusColor = (status: DeviceCommandStatus) => {
+  switch (status) {
+    case 'acknowledged': return 'bg-green-100 text-green-800';
+    case 'delivered': return 'bg-blue-100 text-blue-800';
+    case 'pending': return 'bg-yellow-100 text-yellow-800';
+    case 'failed': return 'bg-red-100 text-red-800';
+    default: return 'bg-gray-100 text-gray-800';
+  }
+};
+
+const AdminDevices: React.FC = () => {
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedDevice, setSelectedDevice] = useState<Device | null>(null);
+  const [commands, setCommands] = useState<DeviceCommand[]>([]);
+  const [commandSummary, setCommandSummary] = useState<Partial<Record<DeviceCommandStatus, number>>>({});
+  const [commandFilter, setCommandFilter] = useState<DeviceCommandStatus | 'all'>('all');
+  const [commandsLoading, setCommandsLoading] = useState(false);
+  const [configForm, setConfigForm] = useState<ConfigForm | null>(null);
+  const [savingConfig, setSavingConfig] = useState(false);
+  const [queueing, setQueueing] = useState<Record<string, boolean>>({});
+  const [obdProfiles, setObdProfiles] = useState<ObdProfile[]>([]);
+
+  useEffect(() => {
+    fetchDevices();
+    fetchObdProfiles();
+  }, []);
+
+  useEffect(() => {
+    if (selectedDevice) {
+      fetchCommands(selectedDevice.deviceID, commandFilter);
+    }
+  }, [selectedDevice, commandFilter]);
+
+  const fetchDevices = async () => {
+    try {
+      setLoading(true);
+      const response = await DeviceService.listDevices({ limit: 100 });
+      setDevices(response.data.devices);
+    } catch (error) {
+      console.error('Failed to fetch devices:', error);
+      toast.error('Failed to fetch devices');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchObdProfiles = async () => {
+    try {
+      const response = await DeviceService.listObdProfiles(true);
+      setObdProfiles(response.data.profiles);
+    } catch (error) {
+      console.error('Failed to fetch OBD profiles:', error);
+    }
+  };
+
+  const getProfileName = (profileId?: string) =>
+    profileId ? obdProfiles.find(p => p._id === profileId)?.name || 'Pinned profile' : 'Automatic';
+
+  const fetchCommands = async (deviceId: string, status: DeviceCommandStatus | 'all') => {
+    try {
+      setCommandsLoading(true);
+      const response = await DeviceService.getDeviceCommands(deviceId, status === 'all' ? undefined : status);
+      setCommands(response.data.commands);
+      setCommandSummary(response.data.summary);
+    } catch (error) {
+      console.error('Failed to fetch device commands:', error);
+      toast.error('Failed to fetch device commands');
+    } finally {
+      setCommandsLoading(false);
+    }
+  };
+
+  const openDevice = (device: Device) => {
+    setSelectedDevice(device);
+    setConfigForm({ ...device.configuration });
+    setCommandFilter('all');
+  };
+
+  const handleSaveConfig = async () => {
+    if (!selectedDevice || !configForm) return;
+
+    try {
+      setSavingConfig(true);
+      const { obdProfile, ...fields } = configForm;
+      const response = await DeviceService.updateDeviceConfiguration(selectedDevice.deviceID, {
+        ...fields,
+        obdProfileId: obdProfile || null
+      });
+      const delivered = response.data.configuration;
+      const updated = {
+        ...selectedDevice,
+        configuration: { ...delivered, obdProfile: obdProfile || undefined }
+      };
+      setSelectedDevice(updated);
+      setDevices(prev => prev.map(d => d.deviceID === updated.deviceID ? updated : d));
+      toast.success(delivered.obdProfile
+        ? `Configuration queued with OBD profile ${delivered.obdProfile.name}`
+        : 'Configuration queued; no OBD profile matches this device');
+    } catch (error) {
+      console.error('Failed to update configuration:', error);
+      toast.error(handleApiError(error));
+    } finally {
+      setSavingConfig(false);
+    }
+  };
+
+  const handleQueueCommand = async (type: Exclude<DeviceCommandType, 'config_update'>) => {
+    if (!selectedDevice) return;
+
+    try {
+      setQueueing(prev => ({ ...prev, [type]: true }));
+      await DeviceService.queueDeviceCommand(selectedDevice.deviceID, type);
+      toast.success(`${COMMAND_LABELS[type]} queued`);
+      fetchCommands(selectedDevice.deviceID, commandFilter);
+    } catch (error) {
+      console.error('Failed to queue command:', error);
+      toast.error(handleApiError(error));
+    } finally {
+      setQueueing(prev => ({ ...prev, [type]: false }));
+    }
+  };
+
+  const filteredDevices = devices.filter(device =>
+    device.deviceID.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    (device.description || '').toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  if (loading) {
+    return (
+      <div className="space-y-4">
+        {[...Array(3)].map((_, i) => (
+          <div key={i} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 animate-pulse">
+            <div className="flex justify-between">
+              <div className="h-4 bg-gray-200 rounded w-1/3"></div>
+              <div className="h-4 bg-gray-200 rounded w-1/6"></div>
+            </div>
+            <div className="mt-4 h-3 bg-gray-200 rounded w-2/3"></div>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Devices</h1>
+          <p className="text-gray-600">Configure devices and track queued commands</p>
+        </div>
+        <button
+          onClick={fetchDevices}
+          className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+        >
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Refresh
+        </button>
+      </div>
+
+      {/* Search */}
+      <div className="relative">
+        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+          <Search className="h-5 w-5 text-gray-400" />
+        </div>
+        <input
+          type="text"
+          className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+          placeholder="Search by device ID or description..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+        />
+      </div>
+
+      {/* Devices List */}
+      {filteredDevices.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-12 text-center">
+          <Smartphone className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No devices found</h3>
+          <p className="text-gray-500">Registered devices will appear here.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Device</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Seen</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Configuration</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {filteredDevices.map((device, index) => (
+                  <motion.tr
+                    key={device.deviceID}
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ duration: 0.3, delay: index * 0.05 }}
+                    className={`hover:bg-gray-50 ${selectedDevice?.deviceID === device.deviceID ? 'bg-primary-50' : ''}`}
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{device.deviceID}</div>
+                      <div className="text-sm text-gray-500">{device.description || device.deviceType}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className="inline-flex items-center text-sm text-gray-700">
+                        {device.isOnline ? (
+                          <Wifi className="w-4 h-4 mr-1 text-green-600" />
+                        ) : (
+                          <WifiOff className="w-4 h-4 mr-1 text-gray-400" />
+                        )}
+                        <span className="capitalize">{device.status}</span>
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {device.lastSeen ? new Date(device.lastSeen).toLocaleString() : 'Never'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {getProfileName(device.configuration?.obdProfile)} · Sleep {device.configuration?.sleepDurationMinutes}m · Retries {device.configuration?.maxRetryAttempts}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <button
+                        onClick={() => openDevice(device)}
+                        className="inline-flex items-center px-3 py-1 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+                      >
+                        Manage
+                      </button>
+                    </td>
+                  </motion.tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Selected Device */}
+      {selectedDevice && configForm && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-6">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">{selectedDevice.deviceID}</h2>
+            <button onClick={() => setSelectedDevice(null)} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {/* Configuration */}
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-3">Configuration</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <label className="block text-sm text-gray-600">
+                OBD profile
+                <select
+                  value={configForm.obdProfile || ''}
+                  onChange={(e) => setConfigForm({ ...configForm, obdProfile: e.target.value || undefined })}
+                  className="mt-1 block w-full pl-3 pr-10 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                >
+                  <option value="">Automatic (from vehicle make/model)</option>
+                  {obdProfiles.map(profile => (
+                    <option key={profile._id} value={profile._id}>
+                      {profile.name} · {profile.odometer.command}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block text-sm text-gray-600">
+                Legacy firmware profile
+                <select
+                  value={configForm.selectedVehicle}
+                  onChange={(e) => setConfigForm({ ...configForm, selectedVehicle: Number(e.target.value) })}
+                  className="mt-1 block w-full pl-3 pr-10 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                >
+                  {LEGACY_VEHICLE_PROFILES.map(profile => (
+                    <option key={profile.value} value={profile.value}>{profile.label}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="block text-sm text-gray-600">
+                Sleep (minutes)
+                <input
+                  type="number"
+                  min={1}
+                  max={1440}
+                  value={configForm.sleepDurationMinutes}
+                  onChange={(e) => setConfigForm({ ...configForm, sleepDurationMinutes: Number(e.target.value) })}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                />
+              </label>
+              <label className="block text-sm text-gray-600">
+                Max retry attempts
+                <input
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={configForm.maxRetryAttempts}
+                  onChange={(e) => setConfigForm({ ...configForm, maxRetryAttempts: Number(e.target.value) })}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                />
+              </label>
+              <label className="flex items-center text-sm text-gray-600 md:mt-6">
+                <input
+                  type="checkbox"
+                  checked={configForm.enableDataBuffering}
+                  onChange={(e) => setConfigForm({ ...configForm, enableDataBuffering: e.target.checked })}
+                  className="mr-2 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                Offline buffering
+              </label>
+            </div>
+            <button
+              onClick={handleSaveConfig}
+              disabled={savingConfig}
+              className="mt-4 inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+            >
+              {savingConfig ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+              Save & send to device
+            </button>
+          </div>
+
+          {/* Commands */}
+          <div>
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-3">
+              <h3 className="text-sm font-medium text-gray-700">Commands</h3>
+              <div className="flex flex-wrap gap-2">
+                {([
+                  ['reboot', RotateCcw],
+                  ['pid_rediscovery', Cpu],
+                  ['firmware_check', Download]
+                ] as const).map(([type, Icon]) => (
+                  <button
+                    key={type}
+                    onClick={() => handleQueueCommand(type)}
+                    disabled={queueing[type]}
+                    className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    {queueing[type] ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Icon className="w-4 h-4 mr-1" />}
+                    {COMMAND_LABELS[type]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2 mb-3">
+              {(['all', 'pending', 'delivered', 'acknowledged', 'failed', 'expired'] as const).map(status => (
+                <button
+                  key={status}
+                  onClick={() => setCommandFilter(status)}
+                  className={`px-3 py-1 rounded-full text-xs font-medium border ${
+                    commandFilter === status ? 'bg-primary-600 text-white border-primary-600' : 'bg-white text-gray-700 border-gray-300'
+                  }`}
+                >
+                  <span className="capitalize">{status}</span>
+                  {status !== 'all' && ` (${commandSummary[status] || 0})`}
+                </button>
+              ))}
+            </div>
+
+            {commandsLoading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+              </div>
+            ) : commands.length === 0 ? (
+              <p className="text-sm text-gray-500 py-4">No commands</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Command</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Deliveries</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Queued</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {commands.map(command => (
+                      <tr key={command.commandId}>
+                        <td className="px-4 py-2 text-sm text-gray-900">{COMMAND_LABELS[command.type]}</td>
+                        <td className="px-4 py-2">
+                          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getCommandStatusColor(command.status)}`}>
+                            {command.status}
+                          </span>
+                        </td>
+                        <td className="px-4 py-2 text-sm text-gray-500">
+                          {command.deliveryAttempts}/{command.maxAttempts}
+                          {command.deliveredVia && ` via ${command.deliveredVia.toUpperCase()}`}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-gray-500">{new Date(command.createdAt).toLocaleString()}</td>
+                        <td className="px-4 py-2 text-sm text-gray-500">
+                          {command.error || (command.acknowledgedAt && `Acknowledged ${new Date(command.acknowledgedAt).toLocaleString()}`) || '—'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminDevices;
@@ -0,0 +1,534 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { AlertTriangle, RotateCcw, Loader2, X, Link as LinkIcon, MessageSquare, UserCheck } from 'lucide-react';
+import { FraudCaseService } from '../../services/fraudCases';
+import { handleApiError } from '../../services/api';
+import type {
+  FraudAlertCase,
+  FraudAlertSeverity,
+  FraudAlertStatus,
+  FraudCaseTrustEvent,
+  FraudCaseUser,
+  FraudQueueSort
+} from '../../services/fraudCases';
+import toast from 'react-hot-toast';
+
+const PAGE_SIZE = 20;
+
+const SEVERITIES: FraudAlertSeverity[] = ['critical', 'high', 'medium', 'low'];
+
+const STATUS_LABELS: Record<FraudAlertStatus, string> = {
+  active: 'Active',
+  investigating: 'Investigating',
+  resolved: 'Resolved',
+  false_positive: 'False positive'
+};
+
+// Queue views; "open" is what still needs work
+const STATUS_VIEWS: Array<{ key: string; label: string }> = [
+  { key: 'active,investigating', label: 'Open' },
+  { key: 'active', label: 'Active' },
+  { key: 'investigating', label: 'Investigating' },
+  { key: 'resolved', label: 'Resolved' },
+  { key: 'false_positive', label: 'False positive' }
+];
+
+// Mirrors the backend workflow
+const TRANSITIONS: Record<FraudAlertStatus, FraudAlertStatus[]> = {
+  active: ['investigating', 'resolved', 'false_positive'],
+  investigating: ['active', 'resolved', 'false_positive'],
+  resolved: ['investigating'],
+  false_positive: ['investigating']
+};
+
+const getSeverityColor = (severity: FraudAlertSeverity) => {
+  switch (severity) {
+    case 'critical': return 'bg-red-600 text-white';
+    case 'high': return 'bg-red-100 text-red-800';
+    case 'medium': return 'bg-yellow-100 text-yellow-800';
+    case 'low': return 'bg-blue-100 text-blue-800';
+    default: return 'bg-gray-100 text-gray-800';
+  }
+};
+
+const getStatusColor = (status: FraudAlertStatus) => {
+  switch (status) {
+    case 'active': return 'bg-red-100 text-red-800';
+    case 'investigating': return 'bg-yellow-100 text-yellow-800';
+    case 'resolved': return 'bg-green-100 text-green-800';
+    case 'false_positive': return 'bg-gray-100 text-gray-800';
+    default: return 'bg-gray-100 text-gray-800';
+  }
+};
+
+const userName = (user?: FraudCaseUser | null) => (user ? `${user.firstName} ${user.lastName}` : '—');
+
+const AdminFraudAlerts: React.FC = () => {
+  const [alerts, setAlerts] = useState<FraudAlertCase[]>([]);
+  const [counts, setCounts] = useState<Partial<Record<FraudAlertSeverity, number>>>({});
+  const [loading, setLoading] = useState(true);
+  const [statusView, setStatusView] = useState('active,investigating');
+  const [severityFilter, setSeverityFilter] = useState<FraudAlertSeverity | 'all'>('all');
+  const [assigneeFilter, setAssigneeFilter] = useState('');
+  const [sort, setSort] = useState<FraudQueueSort>('severity');
+  const [page, setPage] = useState(1);
+  const [pages, setPages] = useState(1);
+  const [investigators, setInvestigators] = useState<FraudCaseUser[]>([]);
+  const [selectedAlert, setSelectedAlert] = useState<FraudAlertCase | null>(null);
+  const [trustEvents, setTrustEvents] = useState<FraudCaseTrustEvent[]>([]);
+  const [noteText, setNoteText] = useState('');
+  const [evidenceUrl, setEvidenceUrl] = useState('');
+  const [statusNote, setStatusNote] = useState('');
+  const [saving, setSaving] = useState<Record<string, boolean>>({});
+
+  useEffect(() => {
+    fetchInvestigators();
+  }, []);
+
+  useEffect(() => {
+    fetchAlerts();
+  }, [statusView, severityFilter, assigneeFilter, sort, page]);
+
+  const fetchAlerts = async () => {
+    try {
+      setLoading(true);
+      const response = await FraudCaseService.listAlerts({
+        status: statusView,
+        severity: severityFilter === 'all' ? undefined : severityFilter,
+        assignedTo: assigneeFilter || undefined,
+        sort,
+        page,
+        limit: PAGE_SIZE
+      });
+      setAlerts(response.data.alerts);
+      setCounts(response.data.counts);
+      setPages(Math.max(1, response.data.pagination.pages));
+    } catch (error) {
+      console.error('Failed to fetch fraud alerts:', error);
+      toast.error('Failed to fetch fraud alerts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchInvestigators = async () => {
+    try {
+      setInvestigators(await FraudCaseService.listInvestigators());
+    } catch (error) {
+      console.error('Failed to fetch investigators:', error);
+    }
+  };
+
+  const openAlert = async (alert: FraudAlertCase) => {
+    setSelectedAlert(alert);
+    setNoteText('');
+    setEvidenceUrl('');
+    setStatusNote('');
+    try {
+      const response = await FraudCaseService.getAlert(alert._id);
+      setSelectedAlert(response.data.alert);
+      setTrustEvents(response.data.trustEvents);
+    } catch (error) {
+      console.error('Failed to fetch fraud alert:', error);
+      toast.error(handleApiError(error));
+    }
+  };
+
+  const updateSelected = (updated: FraudAlertCase) => {
+    setSelectedAlert(updated);
+    setAlerts(prev => prev.map(a => (a._id === updated._id ? { ...a, ...updated } : a)));
+  };
+
+  const runAction = async (key: string, action: () => Promise<void>) => {
+    try {
+      setSaving(prev => ({ ...prev, [key]: true }));
+      await action();
+    } catch (error) {
+      console.error(`Failed to ${key} fraud alert:`, error);
+      toast.error(handleApiError(error));
+    } finally {
+      setSaving(prev => ({ ...prev, [key]: false }));
+    }
+  };
+
+  const handleAssign = (assigneeId: string) => runAction('assign', async () => {
+    if (!selectedAlert) return;
+    const response = await FraudCaseService.assign(selectedAlert._id, assigneeId || null);
+    updateSelected(response.data.alert);
+    toast.success(response.message);
+  });
+
+  const handleAddNote = () => runAction('note', async () => {
+    if (!selectedAlert || !noteText.trim()) return;
+    const response = await FraudCaseService.addNote(selectedAlert._id, noteText.trim());
+    updateSelected(response.data.alert);
+    setNoteText('');
+  });
+
+  const handleAddEvidence = () => runAction('evidence', async () => {
+    if (!selectedAlert || !evidenceUrl.trim()) return;
+    const response = await FraudCaseService.addEvidence(selectedAlert._id, [evidenceUrl.trim()]);
+    updateSelected(response.data.alert);
+    setEvidenceUrl('');
+  });
+
+  const handleStatus = (status: FraudAlertStatus) => runAction('status', async () => {
+    if (!selectedAlert) return;
+    const response = await FraudCaseService.changeStatus(selectedAlert._id, status, statusNote.trim() || undefined);
+    updateSelected(response.data.alert);
+    setStatusNote('');
+    toast.success(response.message);
+    const detail = await FraudCaseService.getAlert(selectedAlert._id);
+    setTrustEvents(detail.data.trustEvents);
+  });
+
+  const selectFilter = (apply: () => void) => {
+    apply();
+    setPage(1);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Fraud Alerts</h1>
+          <p className="text-gray-600">Investigate alerts, record findings and close cases</p>
+        </div>
+        <button
+          onClick={fetchAlerts}
+          className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+        >
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Refresh
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 space-y-3">
+        <div className="flex flex-wrap gap-2">
+          {STATUS_VIEWS.map(view => (
+            <button
+              key={view.key}
+              onClick={() => selectFilter(() => setStatusView(view.key))}
+              className={`px-3 py-1 rounded-full text-xs font-medium border ${
+                statusView === view.key ? 'bg-primary-600 text-white border-primary-600' : 'bg-white text-gray-700 border-gray-300'
+              }`}
+            >
+              {view.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+          <div className="flex flex-wrap gap-2">
+            {(['all', ...SEVERITIES] as const).map(severity => (
+              <button
+                key={severity}
+                onClick={() => selectFilter(() => setSeverityFilter(severity))}
+                className={`px-3 py-1 rounded-full text-xs font-medium border ${
+                  severityFilter === severity ? 'bg-primary-600 text-white border-primary-600' : 'bg-white text-gray-700 border-gray-300'
+                }`}
+              >
+                <span className="capitalize">{severity}</span>
+                {severity !== 'all' && ` (${counts[severity] || 0})`}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <select
+              value={assigneeFilter}
+              onChange={(e) => selectFilter(() => setAssigneeFilter(e.target.value))}
+              className="pl-3 pr-8 py-1.5 border border-gray-300 rounded-md text-sm focus:ring-primary-500 focus:border-primary-500"
+            >
+              <option value="">Anyone</option>
+              <option value="me">Assigned to me</option>
+              <option value="unassigned">Unassigned</option>
+              {investigators.map(user => (
+                <option key={user._id} value={user._id}>{userName(user)}</option>
+              ))}
+            </select>
+            <select
+              value={sort}
+              onChange={(e) => selectFilter(() => setSort(e.target.value as FraudQueueSort))}
+              className="pl-3 pr-8 py-1.5 border border-gray-300 rounded-md text-sm focus:ring-primary-500 focus:border-primary-500"
+            >
+              <option value="severity">Most severe first</option>
+              <option value="newest">Newest first</option>
+              <option value="oldest">Oldest first</option>
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {/* Queue */}
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-gray-400" />
+        </div>
+      ) : alerts.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-12 text-center">
+          <AlertTriangle className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No fraud alerts</h3>
+          <p className="text-gray-500">Alerts matching these filters will appear here.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Severity</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Alert</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Vehicle</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Investigator</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reported</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {alerts.map((alert, index) => (
+                  <motion.tr
+                    key={alert._id}
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ duration: 0.3, delay: index * 0.05 }}
+                    className={`hover:bg-gray-50 ${selectedAlert?._id === alert._id ? 'bg-primary-50' : ''}`}
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${getSeverityColor(alert.severity)}`}>
+                        {alert.severity}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="text-sm font-medium text-gray-900">{alert.alertType.replace(/_/g, ' ')}</div>
+                      <div className="text-sm text-gray-500 max-w-md truncate">{alert.description}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      <div className="font-mono text-gray-900">{alert.vehicleId?.vin || '—'}</div>
+                      {alert.vehicleId && `Trust ${alert.vehicleId.trustScore ?? '—'}`}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(alert.status)}`}>
+                        {STATUS_LABELS[alert.status]}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{userName(alert.assignedTo)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{new Date(alert.reportedAt).toLocaleString()}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <button
+                        onClick={() => openAlert(alert)}
+                        className="inline-flex items-center px-3 py-1 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+                      >
+                        Open case
+                      </button>
+                    </td>
+                  </motion.tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {pages > 1 && (
+            <div className="flex items-center justify-between px-6 py-3 border-t border-gray-200 text-sm text-gray-600">
+              <span>Page {page} of {pages}</span>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setPage(p => Math.max(1, p - 1))}
+                  disabled={page <= 1}
+                  className="px-3 py-1 border border-gray-300 rounded-md bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => setPage(p => Math.min(pages, p + 1))}
+                  disabled={page >= pages}
+                  className="px-3 py-1 border border-gray-300 rounded-md bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Selected Case */}
+      {selectedAlert && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-6">
+          <div className="flex items-start justify-between">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">{selectedAlert.alertType.replace(/_/g, ' ')}</h2>
+              <p className="text-sm text-gray-600">{selectedAlert.description}</p>
+              <p className="text-xs text-gray-500 mt-1">
+                {selectedAlert.vehicleId?.vin} · Reported {new Date(selectedAlert.reportedAt).toLocaleString()}
+                {selectedAlert.rule && ` · Rule ${selectedAlert.rule.key} v${selectedAlert.rule.version}`}
+              </p>
+            </div>
+            <button onClick={() => setSelectedAlert(null)} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {/* Assignment & Status */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-3 flex items-center">
+                <UserCheck className="w-4 h-4 mr-1" />
+                Investigator
+              </h3>
+              <select
+                value={selectedAlert.assignedTo?._id || ''}
+                onChange={(e) => handleAssign(e.target.value)}
+                disabled={saving.assign}
+                className="block w-full pl-3 pr-10 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500 disabled:opacity-50"
+              >
+                <option value="">Unassigned</option>
+                {investigators.map(user => (
+                  <option key={user._id} value={user._id}>{userName(user)}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-3">
+                Status: <span className={`ml-1 px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(selectedAlert.status)}`}>{STATUS_LABELS[selectedAlert.status]}</span>
+              </h3>
+              <textarea
+                value={statusNote}
+                onChange={(e) => setStatusNote(e.target.value)}
+                rows={2}
+                placeholder="Finding (required to resolve or dismiss)"
+                className="block w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-primary-500 focus:border-primary-500"
+              />
+              <div className="flex flex-wrap gap-2 mt-2">
+                {TRANSITIONS[selectedAlert.status].map(status => (
+                  <button
+                    key={status}
+                    onClick={() => handleStatus(status)}
+                    disabled={saving.status}
+                    className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    {saving.status && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                    {selectedAlert.status === 'resolved' || selectedAlert.status === 'false_positive' ? 'Reopen' : `Mark ${STATUS_LABELS[status].toLowerCase()}`}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-2">Marking a false positive gives back the trust score the alert took.</p>
+            </div>
+          </div>
+
+          {/* Notes */}
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-3 flex items-center">
+              <MessageSquare className="w-4 h-4 mr-1" />
+              Notes
+            </h3>
+            {selectedAlert.investigationNotes && (
+              <p className="text-sm text-gray-500 mb-2">Detector: {selectedAlert.investigationNotes}</p>
+            )}
+            <ul className="space-y-2 mb-3">
+              {(selectedAlert.notes || []).map(note => (
+                <li key={note._id} className="text-sm bg-gray-50 rounded-md p-3">
+                  <div className="text-gray-900 whitespace-pre-wrap">{note.text}</div>
+                  <div className="text-xs text-gray-500 mt-1">{userName(note.author)} · {new Date(note.createdAt).toLocaleString()}</div>
+                </li>
+              ))}
+            </ul>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={noteText}
+                onChange={(e) => setNoteText(e.target.value)}
+                placeholder="Add a note..."
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-primary-500 focus:border-primary-500"
+              />
+              <button
+                onClick={handleAddNote}
+                disabled={saving.note || !noteText.trim()}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+              >
+                {saving.note && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Add
+              </button>
+            </div>
+          </div>
+
+          {/* Evidence */}
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-3 flex items-center">
+              <LinkIcon className="w-4 h-4 mr-1" />
+              Evidence
+            </h3>
+            {selectedAlert.evidence.length === 0 ? (
+              <p className="text-sm text-gray-500 mb-3">No evidence attached</p>
+            ) : (
+              <ul className="space-y-1 mb-3">
+                {selectedAlert.evidence.map(url => (
+                  <li key={url}>
+                    <a href={url} target="_blank" rel="noopener noreferrer" className="text-sm text-primary-600 hover:underline break-all">{url}</a>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex gap-2">
+              <input
+                type="url"
+                value={evidenceUrl}
+                onChange={(e) => setEvidenceUrl(e.target.value)}
+                placeholder="https://..."
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-primary-500 focus:border-primary-500"
+              />
+              <button
+                onClick={handleAddEvidence}
+                disabled={saving.evidence || !evidenceUrl.trim()}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                {saving.evidence && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Attach
+              </button>
+            </div>
+          </div>
+
+          {/* History */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-3">Status history</h3>
+              {(selectedAlert.statusHistory || []).length === 0 ? (
+                <p className="text-sm text-gray-500">No changes yet</p>
+              ) : (
+                <ul className="space-y-2">
+                  {(selectedAlert.statusHistory || []).map((entry, index) => (
+                    <li key={index} className="text-sm text-gray-700">
+                      {STATUS_LABELS[entry.from]} → {STATUS_LABELS[entry.to]}
+                      <span className="text-xs text-gray-500"> · {userName(entry.changedBy)} · {new Date(entry.changedAt).toLocaleString()}</span>
+                      {entry.note && <div className="text-xs text-gray-500">{entry.note}</div>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-3">Trust score impact</h3>
+              {trustEvents.length === 0 ? (
+                <p className="text-sm text-gray-500">No trust score change</p>
+              ) : (
+                <ul className="space-y-2">
+                  {trustEvents.map(event => (
+                    <li key={event._id} className="text-sm text-gray-700">
+                      <span className={event.newScore < event.previousScore ? 'text-red-600' : 'text-green-600'}>
+                        {event.newScore > event.previousScore ? '+' : ''}{event.newScore - event.previousScore}
+                      </span>
+                      {' '}({event.previousScore} → {event.newScore}) {event.reason}
+                      <span className="text-xs text-gray-500"> · {new Date(event.createdAt).toLocaleString()}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminFraudAlerts;
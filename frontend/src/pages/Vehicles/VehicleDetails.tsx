@@ -23,7 +23,8 @@ import {
   Zap,
   Star,
   FileText,
-  Eye
+  Eye,
+  Route
 } from 'lucide-react';
 import OwnershipHistoryModal from '../../components/vehicle/OwnershipHistoryModal';
 import { VehicleReportModal } from '../../components/Report/VehicleReportModal';
@@ -41,9 +42,13 @@ import { FraudAlertCard } from '../../components/vehicle/FraudAlertCard';
 import { OBDDataValidationCard } from '../../components/vehicle/OBDDataValidationCard';
 import { TrustScoreCard } from '../../components/TrustScore/TrustScoreCard';
 import { MarketplaceStatusCard } from '../../components/vehicle/MarketplaceStatusCard';
+import { VehicleTripsCard } from '../../components/vehicle/VehicleTripsCard';
+import { DrivingScoreCard } from '../../components/vehicle/DrivingScoreCard';
+import { LiveTelemetryGauges } from '../../components/vehicle/LiveTelemetryGauges';
 import TrustService from '../../services/trust';
 import useSocket from '../../hooks/useSocket';
 import TelemetryService from '../../services/telemetry';
+import type { VehicleHoldSummary } from '../../services/vehicleHolds';
 
 interface Vehicle {
   id: string;
@@ -63,6 +68,7 @@ interface Vehicle {
   listingStatus?: string;
   price?: number;
   description?: string;
+  holds?: VehicleHoldSummary[];
   createdAt: string;
   blockchainAddress?: string;
   lastMileageUpdate?: string;
@@ -511,6 +517,9 @@ const VehicleDetails: React.FC = () => {
   const [showReportModal, setShowReportModal] = useState(false);
   const [showListModal, setShowListModal] = useState(false);
   const [showOwnershipModal, setShowOwnershipModal] = useState(false);
+  const [activeTab, setActiveTab] = useState<'overview' | 'trips'>('overview');
+  // Overview sections stay mounted behind other tabs, so switching back does not refetch them
+  const overviewClass = activeTab === 'overview' ? '' : 'hidden';
 
   // Socket for real-time updates
   const { socket } = useSocket();
@@ -970,7 +979,37 @@ const VehicleDetails: React.FC = () => {
           </div>
         </motion.div>
 
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Section tabs */}
+        <div className="flex items-center gap-2">
+          {([
+            { key: 'overview', label: 'Overview', icon: Car },
+            { key: 'trips', label: 'Trips & Driving', icon: Route }
+          ] as const).map(({ key, label, icon: Icon }) => (
+            <button
+              key={key}
+              onClick={() => setActiveTab(key)}
+              className={`inline-flex items-center px-4 py-2 rounded-xl font-semibold transition-all duration-200 ${
+                activeTab === key
+                  ? 'bg-gradient-to-r from-blue-600 to-purple-600 text-white shadow-lg'
+                  : 'bg-white/80 text-gray-700 hover:bg-white'
+              }`}
+            >
+              <Icon className="w-4 h-4 mr-2" />
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {activeTab === 'trips' && (
+          <>
+            <DrivingScoreCard vehicleId={vehicle.id} />
+            <VehicleTripsCard vehicleId={vehicle.id} />
+          </>
+        )}
+
+        {activeTab === 'overview' && isDeviceInstalled && <LiveTelemetryGauges vehicleId={vehicle.id} />}
+
+        <div className={`grid grid-cols-1 lg:grid-cols-3 gap-8 ${overviewClass}`}>
           {/* Vehicle Info */}
           <div className="lg:col-span-2 space-y-8">
             {/* Basic Information */}
@@ -1336,7 +1375,7 @@ const VehicleDetails: React.FC = () => {
         </div>
 
         {/* Combined row: Daily Batches (left) + Driving Insights Chart (right) */}
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div className={`grid grid-cols-1 lg:grid-cols-2 gap-8 ${overviewClass}`}>
           <DailyBatchesCard vehicleId={vehicle.id} />
           <DailyBatchesChart vehicleId={vehicle.id} />
         </div>
@@ -1346,7 +1385,7 @@ const VehicleDetails: React.FC = () => {
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: 0.2 }}
-          className="space-y-8"
+          className={`space-y-8 ${overviewClass}`}
         >
           {/* Section Header */}
           <div className="flex justify-between items-center">
@@ -1493,7 +1532,7 @@ const VehicleDetails: React.FC = () => {
         </motion.div>
 
         {/* Mileage History */}
-        <div>
+        <div className={overviewClass}>
           <MileageHistoryCard vehicleId={vehicle.id} />
         </div>
       </div>
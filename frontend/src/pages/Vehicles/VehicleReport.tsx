@@ -32,6 +32,7 @@ import { ReportHeader } from './components/ReportHeader';
 import { ReportBatches } from './components/ReportBatches';
 import { ReportRollbackList } from './components/ReportRollbackList';
 import { ReportTrustSummary } from './components/ReportTrustSummary';
+import { VehicleHoldBanner } from '../../components/vehicle/VehicleHoldBanner';
 import toast from 'react-hot-toast';
 
 const VehicleReportPage: React.FC = () => {
@@ -304,7 +305,7 @@ const VehicleReportPage: React.FC = () => {
               {generatingPDF ? 'Generating...' : 'Download PDF'}
             </motion.button>
             
-            {!report.listing.isListed && (
+            {!report.listing.isListed && !report.listing.holds?.length && (
               <motion.button
                 whileHover={{ scale: 1.05 }}
                 whileTap={{ scale: 0.95 }}
@@ -334,6 +335,9 @@ const VehicleReportPage: React.FC = () => {
 
           {/* Right Column - Sidebar */}
           <div className="space-y-8">
+            {/* Holds blocking sale and transfer */}
+            <VehicleHoldBanner holds={report.listing.holds || []} />
+
             {/* TrustScore Summary */}
             <ReportTrustSummary trustScore={report.trustScore} />
             
@@ -1,6 +1,6 @@
 import React from 'react';
 import { motion } from 'framer-motion';
-import { AlertTriangle, TrendingDown, Clock, User, CheckCircle, XCircle } from 'lucide-react';
+import { AlertTriangle, TrendingDown, Clock, User, CheckCircle, XCircle, FileText } from 'lucide-react';
 import type { RollbackEvent } from '../../../services/report';
 
 interface ReportRollbackListProps {
@@ -102,6 +102,13 @@ export const ReportRollbackList: React.FC<ReportRollbackListProps> = ({ events }
                 </div>
               </div>
 
+              {event.annotation && (
+                <div className="flex items-start mb-3 p-3 bg-green-600/10 rounded-lg border border-green-600/30 text-sm text-green-300">
+                  <FileText className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                  <span>{event.annotation}</span>
+                </div>
+              )}
+
               {event.resolvedBy && (
                 <div className="flex items-center text-sm text-gray-400">
                   <User className="w-4 h-4 mr-2" />
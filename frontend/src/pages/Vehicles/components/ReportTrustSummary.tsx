@@ -81,6 +81,9 @@ export const ReportTrustSummary: React.FC<ReportTrustSummaryProps> = ({ trustSco
         <p className="text-gray-400 text-sm">
           {new Date(trustScore.lastUpdated).toLocaleTimeString()}
         </p>
+        {trustScore.policyVersion != null && (
+          <p className="text-gray-400 text-xs mt-2">Scored under trust policy v{trustScore.policyVersion}</p>
+        )}
       </div>
 
       {/* Recent Trust Events */}
@@ -15,6 +15,8 @@ const MileageHistory = lazy(() => import('../pages/Vehicles/MileageHistory'));
 const MyVehicles = lazy(() => import('../pages/vehicles/MyVehicles'));
 const DevicesList = lazy(() => import('../pages/Devices/DevicesList'));
 const AdminInstalls = lazy(() => import('../pages/Admin/AdminInstalls'));
+const AdminDevices = lazy(() => import('../pages/Admin/AdminDevices'));
+const AdminFraudAlerts = lazy(() => import('../pages/Admin/AdminFraudAlerts'));
 const SPInstalls = lazy(() => import('../pages/SP/SPInstalls'));
 const History = lazy(() => import('../pages/History/History'));
 const VehicleMarketplace = lazy(() => import('../components/marketplace/VehicleMarketplace'));
@@ -69,6 +71,22 @@ export const adminRoutes: Array<{ path: string; element: React.ReactElement }> =
       </Suspense>
     )
   },
+  {
+    path: '/admin/devices',
+    element: (
+      <Suspense fallback={<PageLoader />}>
+        <AdminDevices />
+      </Suspense>
+    )
+  },
+  {
+    path: '/admin/fraud-alerts',
+    element: (
+      <Suspense fallback={<PageLoader />}>
+        <AdminFraudAlerts />
+      </Suspense>
+    )
+  },
   {
     path: '/admin/history',
     element: (
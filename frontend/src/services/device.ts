@@ -17,6 +17,7 @@ export interface Device {
   };
   configuration: {
     selectedVehicle: number;
+    obdProfile?: string;
     sleepDurationMinutes: number;
     maxRetryAttempts: number;
     enableDataBuffering: boolean;
@@ -74,6 +75,74 @@ export interface DeviceStatusResponse {
   };
 }
 
+export interface ObdProfile {
+  _id: string;
+  name: string;
+  make?: string;
+  vehicleModel?: string;
+  yearFrom?: number;
+  yearTo?: number;
+  header?: string;
+  odometer: {
+    command: string;
+    formula: string;
+    unit: 'km' | 'mi';
+  };
+  legacyProfileId?: number;
+  priority: number;
+  isActive: boolean;
+  notes?: string;
+}
+
+// Profile as delivered to the firmware with a config update
+export interface DeviceObdProfile {
+  profileId: string;
+  name: string;
+  header?: string;
+  command: string;
+  formula: string;
+  unit: 'km' | 'mi';
+}
+
+export type DeliveredConfiguration = Omit<Device['configuration'], 'obdProfile'> & {
+  obdProfile: DeviceObdProfile | null;
+};
+
+export type DeviceCommandType = 'config_update' | 'reboot' | 'pid_rediscovery' | 'firmware_check';
+export type DeviceCommandStatus = 'pending' | 'delivered' | 'acknowledged' | 'failed' | 'expired' | 'superseded';
+
+export interface DeviceCommand {
+  _id: string;
+  commandId: string;
+  deviceID: string;
+  type: DeviceCommandType;
+  payload?: Record<string, unknown>;
+  status: DeviceCommandStatus;
+  deliveryAttempts: number;
+  maxAttempts: number;
+  deliveredAt?: string;
+  deliveredVia?: 'http' | 'mqtt';
+  acknowledgedAt?: string;
+  error?: string;
+  expiresAt: string;
+  issuedBy?: {
+    firstName: string;
+    lastName: string;
+    email: string;
+  };
+  createdAt: string;
+}
+
+export interface DeviceCommandListResponse {
+  status: string;
+  message: string;
+  data: {
+    deviceID: string;
+    commands: DeviceCommand[];
+    summary: Record<DeviceCommandStatus, number>;
+  };
+}
+
 /**
  * Device Service Class
  * Handles all device-related API calls
@@ -120,6 +189,70 @@ export class DeviceService {
   }): Promise<any> {
     return await apiService.post('/device/register', data);
   }
+
+  /**
+   * Rotate the signing secret of a device (admin only).
+   * The new secret is only returned once and must be flashed to the device.
+   */
+  static async rotateDeviceSecret(deviceId: string, graceHours?: number): Promise<{
+    status: string;
+    message: string;
+    data: {
+      deviceID: string;
+      secret: string;
+      secretVersion: number;
+      issuedAt: string;
+      previousSecretExpiresAt: string | null;
+    };
+  }> {
+    return await apiService.post(`/device/${deviceId}/secret/rotate`, graceHours !== undefined ? { graceHours } : {});
+  }
+
+  /**
+   * Update device configuration (admin only). The change is queued as a
+   * config_update command and applied when the device next checks in.
+   */
+  static async updateDeviceConfiguration(
+    deviceId: string,
+    configuration: Partial<Omit<Device['configuration'], 'obdProfile'>> & { obdProfileId?: string | null }
+  ): Promise<{
+    status: string;
+    message: string;
+    data: {
+      deviceID: string;
+      configuration: DeliveredConfiguration;
+      command: DeviceCommand;
+    };
+  }> {
+    return await apiService.put(`/device/${deviceId}/config`, configuration);
+  }
+
+  /**
+   * Queue a reboot, PID rediscovery or firmware check for a device (admin only)
+   */
+  static async queueDeviceCommand(
+    deviceId: string,
+    type: Exclude<DeviceCommandType, 'config_update'>,
+    payload?: Record<string, unknown>
+  ): Promise<{ status: string; message: string; data: { command: DeviceCommand } }> {
+    return await apiService.post(`/device/${deviceId}/commands`, payload ? { type, payload } : { type });
+  }
+
+  /**
+   * List commands queued for a device (admin only)
+   */
+  static async getDeviceCommands(deviceId: string, status?: DeviceCommandStatus): Promise<DeviceCommandListResponse> {
+    const query = status ? `?status=${status}` : '';
+    return await apiService.get<DeviceCommandListResponse>(`/device/${deviceId}/commands${query}`);
+  }
+
+  /**
+   * List OBD PID profiles (admin and service providers)
+   */
+  static async listObdProfiles(active?: boolean): Promise<{ status: string; message: string; data: { profiles: ObdProfile[] } }> {
+    const query = active !== undefined ? `?active=${active}` : '';
+    return await apiService.get(`/obd-profiles${query}`);
+  }
 }
 
 // Export the service as default
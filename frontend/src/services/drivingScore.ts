@@ -0,0 +1,98 @@
+import { apiService } from './api';
+
+export type DrivingRiskLevel = 'low' | 'medium' | 'high';
+
+export interface DrivingScoreComponent {
+  value: number;
+  score: number;
+  weight: number;
+}
+
+export interface DrivingScore {
+  periodStart: string;
+  periodEnd: string;
+  score: number | null;
+  riskLevel: DrivingRiskLevel | null;
+  breakdown: {
+    harshAcceleration: DrivingScoreComponent;
+    harshBraking: DrivingScoreComponent;
+    overSpeeding: DrivingScoreComponent;
+    nightDriving: DrivingScoreComponent;
+    idling: DrivingScoreComponent;
+  };
+  metrics: {
+    readings: number;
+    distanceKm: number;
+    engineOnSeconds: number;
+    movingSeconds: number;
+    idleSeconds: number;
+    overSpeedSeconds: number;
+    nightSeconds: number;
+    harshAccelerationCount: number;
+    harshBrakingCount: number;
+  };
+  computedAt: string;
+}
+
+export interface InsurerConsent {
+  insurerId: string;
+  email: string | null;
+  companyName: string | null;
+  grantedAt: string;
+}
+
+export interface VehicleDrivingScore {
+  vehicleId: string;
+  latest: DrivingScore | null;
+  history: DrivingScore[];
+  consents?: InsurerConsent[]; // Owner and admin only
+}
+
+export interface ConsentedVehicleScore {
+  vehicleId: string;
+  vin: string;
+  vehicleNumber: string;
+  make: string;
+  model: string;
+  year: number;
+  owner: string | null;
+  latest: DrivingScore | null;
+}
+
+interface ApiEnvelope<T> {
+  status: string;
+  message: string;
+  data: T;
+}
+
+export class DrivingScoreService {
+  /**
+   * Vehicles whose owners share their driving score with the signed-in insurer
+   */
+  static async getConsentedVehicles(): Promise<ApiEnvelope<{ vehicles: ConsentedVehicleScore[] }>> {
+    return await apiService.get('/driving-scores');
+  }
+
+  /**
+   * Latest driving score and recent history of a vehicle
+   */
+  static async getVehicleScore(vehicleId: string, limit = 6): Promise<ApiEnvelope<VehicleDrivingScore>> {
+    return await apiService.get(`/driving-scores/${vehicleId}?limit=${limit}`);
+  }
+
+  /**
+   * Share the vehicle's driving score with an insurance provider
+   */
+  static async grantConsent(vehicleId: string, insurerEmail: string): Promise<ApiEnvelope<{ consents: InsurerConsent[] }>> {
+    return await apiService.post(`/driving-scores/${vehicleId}/consents`, { insurerEmail });
+  }
+
+  /**
+   * Stop sharing the vehicle's driving score with an insurance provider
+   */
+  static async revokeConsent(vehicleId: string, insurerId: string): Promise<ApiEnvelope<{ consents: InsurerConsent[] }>> {
+    return await apiService.delete(`/driving-scores/${vehicleId}/consents/${insurerId}`);
+  }
+}
+
+export default DrivingScoreService;
@@ -0,0 +1,67 @@
+import { apiService } from './api';
+
+export type DuplicateFindingKind = 'impossible_travel' | 'near_duplicate_vin' | 'shared_registration';
+
+export interface DuplicateTravelSighting {
+  deviceId: string;
+  vehicleId?: string;
+  latitude: number;
+  longitude: number;
+  at: string;
+}
+
+export interface DuplicateFinding {
+  kind: DuplicateFindingKind;
+  identifierType: 'vin' | 'vehicleNumber';
+  identifier: string;
+  severity: 'medium' | 'high' | 'critical';
+  summary: string;
+  vins: string[];
+  vehicleIds: Array<{
+    _id: string;
+    vin: string;
+    vehicleNumber: string;
+    make?: string;
+    vehicleModel?: string;
+    year?: number;
+  }>;
+  ownerIds: Array<{ _id: string; firstName: string; lastName: string; email: string }>;
+  deviceIds: string[];
+  travel?: {
+    from: DuplicateTravelSighting;
+    to: DuplicateTravelSighting;
+    distanceKm: number;
+    hours: number;
+    speedKmh: number;
+    conflicts: number;
+  };
+  fingerprint: string;
+  fraudAlertIds: string[];
+}
+
+export interface DuplicateRegistrationReport {
+  _id: string;
+  windowStart: string;
+  windowEnd: string;
+  settings: { maxSpeedKmh: number; minDistanceKm: number };
+  vehiclesScanned: number;
+  sightingsScanned: number;
+  findings: DuplicateFinding[];
+  alertsCreated: number;
+  createdAt: string;
+}
+
+export class DuplicateRegistrationService {
+  /**
+   * Latest cloned VIN and number plate scan, optionally limited to one kind of finding
+   */
+  static async getLatestReport(kind?: DuplicateFindingKind): Promise<DuplicateRegistrationReport> {
+    const query = kind ? `?kind=${kind}` : '';
+    const response = await apiService.get<{ success: boolean; data: { report: DuplicateRegistrationReport } }>(
+      `/trust/duplicate-registrations/latest${query}`
+    );
+    return response.data.report;
+  }
+}
+
+export default DuplicateRegistrationService;
@@ -0,0 +1,149 @@
+import { apiService } from './api';
+
+export type FraudAlertSeverity = 'low' | 'medium' | 'high' | 'critical';
+export type FraudAlertStatus = 'active' | 'investigating' | 'resolved' | 'false_positive';
+export type FraudQueueSort = 'severity' | 'newest' | 'oldest';
+
+export interface FraudCaseUser {
+  _id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+}
+
+export interface FraudAlertCase {
+  _id: string;
+  vehicleId: {
+    _id: string;
+    vin: string;
+    make?: string;
+    vehicleModel?: string;
+    year?: number;
+    trustScore?: number;
+  } | null;
+  telemetryId?: string;
+  alertType: string;
+  severity: FraudAlertSeverity;
+  description: string;
+  reportedAt: string;
+  status: FraudAlertStatus;
+  evidence: string[];
+  investigationNotes?: string;
+  decisionId?: string;
+  rule?: { key: string; version: number };
+  assignedTo?: FraudCaseUser | null;
+  assignedAt?: string;
+  resolvedAt?: string;
+  resolvedBy?: FraudCaseUser | null;
+  notes?: Array<{ _id: string; author: FraudCaseUser | null; text: string; createdAt: string }>;
+  statusHistory?: Array<{
+    from: FraudAlertStatus;
+    to: FraudAlertStatus;
+    changedBy?: FraudCaseUser | null;
+    changedAt: string;
+    note?: string;
+  }>;
+}
+
+export interface FraudCaseTrustEvent {
+  _id: string;
+  change: number;
+  previousScore: number;
+  newScore: number;
+  reason: string;
+  source: string;
+  createdAt: string;
+}
+
+export interface FraudQueueParams {
+  status?: string;
+  severity?: string;
+  alertType?: string;
+  assignedTo?: string;
+  vehicleId?: string;
+  sort?: FraudQueueSort;
+  page?: number;
+  limit?: number;
+}
+
+export interface FraudQueueResponse {
+  status: string;
+  message: string;
+  data: {
+    alerts: FraudAlertCase[];
+    counts: Record<FraudAlertSeverity, number>;
+    pagination: { page: number; limit: number; total: number; pages: number };
+  };
+}
+
+interface FraudCaseResponse {
+  status: string;
+  message: string;
+  data: { alert: FraudAlertCase };
+}
+
+export interface FraudStatusResponse {
+  status: string;
+  message: string;
+  data: {
+    alert: FraudAlertCase;
+    trust: { change: number; previousScore?: number; newScore?: number };
+  };
+}
+
+export class FraudCaseService {
+  /**
+   * Fraud alert queue (open cases, most severe first, unless filtered otherwise)
+   */
+  static async listAlerts(params: FraudQueueParams = {}): Promise<FraudQueueResponse> {
+    const queryParams = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== '') {
+        queryParams.append(key, value.toString());
+      }
+    });
+    return await apiService.get<FraudQueueResponse>(`/admin/fraud-alerts?${queryParams.toString()}`);
+  }
+
+  static async getAlert(alertId: string): Promise<{
+    status: string;
+    message: string;
+    data: { alert: FraudAlertCase; trustEvents: FraudCaseTrustEvent[] };
+  }> {
+    return await apiService.get(`/admin/fraud-alerts/${alertId}`);
+  }
+
+  /**
+   * Assign to an admin, or pass null to unassign
+   */
+  static async assign(alertId: string, assigneeId: string | null): Promise<FraudCaseResponse> {
+    return await apiService.patch<FraudCaseResponse>(`/admin/fraud-alerts/${alertId}/assign`, { assigneeId });
+  }
+
+  static async addNote(alertId: string, text: string): Promise<FraudCaseResponse> {
+    return await apiService.post<FraudCaseResponse>(`/admin/fraud-alerts/${alertId}/notes`, { text });
+  }
+
+  static async addEvidence(alertId: string, urls: string[]): Promise<FraudCaseResponse> {
+    return await apiService.post<FraudCaseResponse>(`/admin/fraud-alerts/${alertId}/evidence`, { urls });
+  }
+
+  /**
+   * Change case status; a note is required for resolved and false_positive
+   */
+  static async changeStatus(alertId: string, status: FraudAlertStatus, note?: string): Promise<FraudStatusResponse> {
+    return await apiService.patch<FraudStatusResponse>(`/admin/fraud-alerts/${alertId}/status`, { status, note });
+  }
+
+  /**
+   * Admins that cases can be assigned to
+   */
+  static async listInvestigators(): Promise<FraudCaseUser[]> {
+    const response = await apiService.get<{ data: { users: FraudCaseUser[] } }>(
+      '/admin/users?role=admin&status=active&limit=100&sortBy=firstName&sortOrder=asc'
+    );
+    return response.data.users;
+  }
+}
+
+export default FraudCaseService;
@@ -1,4 +1,5 @@
 import { apiService } from './api';
+import type { VehicleHoldSummary } from './vehicleHolds';
 
 // Base interfaces first
 export interface TelemetryBatch {
@@ -22,6 +23,16 @@ export interface RollbackEvent {
   detectionReason: string;
   resolutionStatus: 'resolved' | 'unresolved' | 'investigating';
   resolvedBy: string | null;
+  annotation?: string | null; // Reviewer's note when an owner dispute was accepted
+}
+
+export interface DisputeAnnotation {
+  disputeId: string;
+  trustEventId?: string;
+  fraudAlertId?: string;
+  annotation: string;
+  change: number;
+  decidedAt?: string;
 }
 
 export interface TrustEvent {
@@ -32,6 +43,7 @@ export interface TrustEvent {
 
 export interface TrustScore {
   score: number;
+  policyVersion?: number | null; // Trust policy version that produced the score
   lastUpdated: string;
   trend: 'increasing' | 'decreasing' | 'stable';
   topCauses: TrustEvent[];
@@ -69,6 +81,7 @@ export interface VehicleReportData {
   };
   lastBatches: TelemetryBatch[];
   rollbackEvents: RollbackEvent[];
+  annotations?: DisputeAnnotation[];
   obdInfo?: {
     deviceId?: string | null;
     installedAt?: string | null;
@@ -96,6 +109,7 @@ export interface VehicleReportData {
     price: number | null;
     listedAt: string | null;
     listingId: string;
+    holds?: VehicleHoldSummary[];
   };
 }
 
@@ -12,7 +12,7 @@ export interface ValidationStatus {
 export interface FraudAlert {
   id: string;
   type: string;
-  severity: 'high' | 'medium' | 'low';
+  severity: 'critical' | 'high' | 'medium' | 'low';
   message: string;
   detectedAt: string;
   status: 'active' | 'resolved' | 'investigating';
@@ -40,6 +40,64 @@ export interface OBDValidationData {
   fraudScore: number;
 }
 
+export interface TripLocation {
+  latitude: number;
+  longitude: number;
+}
+
+export interface VehicleTrip {
+  id: string;
+  status: 'in_progress' | 'completed';
+  startTime: string;
+  endTime: string;
+  durationSeconds: number;
+  distanceKm: number;
+  distanceSource: 'odometer' | 'gps' | 'none';
+  maxSpeedKmh: number;
+  avgSpeedKmh: number;
+  idleSeconds: number;
+  startLocation: TripLocation | null;
+  endLocation: TripLocation | null;
+  startMileage: number | null;
+  endMileage: number | null;
+}
+
+export interface TripSummary {
+  totalTrips: number;
+  totalDistanceKm: number;
+  totalDurationSeconds: number;
+  totalIdleSeconds: number;
+  maxSpeedKmh: number;
+}
+
+export interface TripPage {
+  summary: TripSummary;
+  trips: VehicleTrip[];
+  pagination: {
+    currentPage: number;
+    totalPages: number;
+    total: number;
+    limit: number;
+    hasNextPage: boolean;
+    hasPrevPage: boolean;
+  };
+}
+
+export type RollupGranularity = 'hour' | 'day';
+
+export interface TelemetryRollup {
+  bucketStart: string;
+  readings: number;
+  flaggedReadings: number;
+  avgSpeed: number | null;
+  maxSpeed: number | null;
+  avgRpm: number | null;
+  maxRpm: number | null;
+  openingMileage: number | null;
+  closingMileage: number | null;
+  distanceKm: number;
+}
+
 export class TelemetryService {
   /**
    * Get validation status for vehicle telemetry records
@@ -68,6 +126,28 @@ export class TelemetryService {
   static async getTelemetryWithValidation(vehicleId: string, page = 1, limit = 10): Promise<any> {
     return await apiService.get(`/vehicles/${vehicleId}/telemetry?page=${page}&limit=${limit}&includeValidation=true`);
   }
+
+  /**
+   * Get hourly or daily telemetry rollups for the history charts, oldest first
+   */
+  static async getTelemetryRollups(
+    vehicleId: string,
+    granularity: RollupGranularity,
+    from?: string,
+    to?: string
+  ): Promise<{ success: boolean; granularity: RollupGranularity; data: TelemetryRollup[]; count: number }> {
+    const params = new URLSearchParams({ granularity });
+    if (from) params.set('from', from);
+    if (to) params.set('to', to);
+    return await apiService.get(`/telemetry/history/${vehicleId}?${params.toString()}`);
+  }
+
+  /**
+   * Get detected trips for a vehicle, newest first
+   */
+  static async getTrips(vehicleId: string, page = 1, limit = 10): Promise<{ success: boolean; data: TripPage }> {
+    return await apiService.get(`/telemetry/trips/${vehicleId}?page=${page}&limit=${limit}`);
+  }
 }
 
 export default TelemetryService;
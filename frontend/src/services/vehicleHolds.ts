@@ -0,0 +1,67 @@
+import { apiService } from './api';
+
+export type VehicleHoldType = 'stolen' | 'court_order' | 'lien_dispute' | 'investigation';
+
+// An active hold as shown to the owner
+export interface VehicleHoldSummary {
+  id: string;
+  type: VehicleHoldType;
+  label: string;
+  reason: string;
+  reference?: string;
+  expiresAt: string | null;
+  placedAt: string;
+}
+
+export interface VehicleHold {
+  _id: string;
+  vehicleId: string;
+  type: VehicleHoldType;
+  reason: string;
+  reference?: string;
+  status: 'active' | 'released';
+  expiresAt: string | null;
+  placedBy: { _id: string; firstName: string; lastName: string; role: string } | string;
+  placedByRole: string;
+  releasedAt?: string;
+  releaseNote?: string;
+  createdAt: string;
+}
+
+export interface PlaceHoldRequest {
+  type: VehicleHoldType;
+  reason: string;
+  reference?: string;
+  expiresAt?: string;
+}
+
+export class VehicleHoldService {
+  static async getHolds(vehicleId: string, includeReleased = false): Promise<VehicleHold[]> {
+    const query = includeReleased ? '?includeReleased=true' : '';
+    const response = await apiService.get<{ success: boolean; data: { holds: VehicleHold[] } }>(
+      `/vehicles/${vehicleId}/holds${query}`
+    );
+    return response.data.holds;
+  }
+
+  /**
+   * Place a hold (admin and government users)
+   */
+  static async placeHold(vehicleId: string, hold: PlaceHoldRequest): Promise<VehicleHold> {
+    const response = await apiService.post<{ success: boolean; data: { hold: VehicleHold } }>(
+      `/vehicles/${vehicleId}/holds`,
+      hold
+    );
+    return response.data.hold;
+  }
+
+  static async releaseHold(vehicleId: string, holdId: string, note?: string): Promise<VehicleHold> {
+    const response = await apiService.post<{ success: boolean; data: { hold: VehicleHold } }>(
+      `/vehicles/${vehicleId}/holds/${holdId}/release`,
+      { note }
+    );
+    return response.data.hold;
+  }
+}
+
+export default VehicleHoldService;